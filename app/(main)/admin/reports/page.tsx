@@ -0,0 +1,46 @@
+/**
+ * @file app/(main)/admin/reports/page.tsx
+ * @description 모더레이션 페이지 (관리자 전용)
+ *
+ * 처리 대기 중인 신고 목록을 표시하고 기각, 콘텐츠 숨김, 작성자 계정 정지를 처리합니다.
+ * 관리자(Clerk public metadata의 role이 "admin")가 아니면 404를 반환합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import ReportQueue from "@/components/admin/ReportQueue";
+import { isAdmin } from "@/lib/moderation";
+
+export default async function AdminReportsPage() {
+  // 인증 확인
+  const { userId } = await auth();
+
+  if (!userId) {
+    // 로그인하지 않은 경우 홈으로 리다이렉트
+    redirect("/");
+  }
+
+  // 관리자가 아니면 페이지가 존재하지 않는 것으로 처리
+  if (!(await isAdmin())) {
+    notFound();
+  }
+
+  return (
+    <div className="py-4">
+      {/* 페이지 헤더 */}
+      <div className="mb-6 px-4">
+        <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)]">
+          신고 관리
+        </h1>
+        <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+          처리 대기 중인 신고를 검토하고 조치하세요
+        </p>
+      </div>
+
+      {/* 신고 목록 */}
+      <ReportQueue />
+    </div>
+  );
+}
@@ -7,6 +7,9 @@
  * Tablet: Sidebar(72px) + Main Content
  * Mobile: Header + Main Content + BottomNav
  * 
+ * 게시물/스토리 업로드는 UploadProvider에서 진행되어 페이지를 이동해도 계속되며,
+ * 진행률은 화면 하단 알림(UploadToasts)으로 표시됩니다.
+ *
  * 이 레이아웃은 로그인된 사용자만 접근 가능합니다.
  * 비로그인 사용자는 middleware에서 로그인 페이지로 리다이렉트됩니다.
  *
@@ -16,6 +19,8 @@
 import Sidebar from "@/components/layout/Sidebar";
 import Header from "@/components/layout/Header";
 import BottomNav from "@/components/layout/BottomNav";
+import UploadToasts from "@/components/post/UploadToasts";
+import { UploadProvider } from "@/components/providers/upload-provider";
 
 export default function MainLayout({
   children,
@@ -23,24 +28,29 @@ export default function MainLayout({
   children: React.ReactNode;
 }) {
   return (
-    <div className="min-h-screen bg-[var(--instagram-background)]">
-      {/* Sidebar: Desktop/Tablet만 표시 */}
-      <Sidebar />
+    <UploadProvider>
+      <div className="min-h-screen bg-[var(--instagram-background)]">
+        {/* Sidebar: Desktop/Tablet만 표시 */}
+        <Sidebar />
+
+        {/* Header: Mobile만 표시 */}
+        <Header />
 
-      {/* Header: Mobile만 표시 */}
-      <Header />
+        {/* Main Content */}
+        <main className="md:ml-[72px] lg:ml-[244px] pt-[60px] md:pt-0 pb-[50px] md:pb-0">
+          {/* Main Feed 영역: 최대 630px, 중앙 정렬 */}
+          <div className="max-w-[630px] mx-auto px-0 md:px-4">
+            {children}
+          </div>
+        </main>
 
-      {/* Main Content */}
-      <main className="md:ml-[72px] lg:ml-[244px] pt-[60px] md:pt-0 pb-[50px] md:pb-0">
-        {/* Main Feed 영역: 최대 630px, 중앙 정렬 */}
-        <div className="max-w-[630px] mx-auto px-0 md:px-4">
-          {children}
-        </div>
-      </main>
+        {/* BottomNav: Mobile만 표시 */}
+        <BottomNav />
 
-      {/* BottomNav: Mobile만 표시 */}
-      <BottomNav />
-    </div>
+        {/* 업로드 진행률 알림 */}
+        <UploadToasts />
+      </div>
+    </UploadProvider>
   );
 }
 
@@ -0,0 +1,31 @@
+/**
+ * @file app/(main)/messages/[conversationId]/page.tsx
+ * @description 대화방 페이지
+ *
+ * 대화방의 메시지를 표시하고 메시지를 보내는 페이지입니다.
+ * MessageThread 컴포넌트에서 메시지 조회, 전송, 메시지 요청 수락/삭제를 처리합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import MessageThread from "@/components/messages/MessageThread";
+
+interface ConversationPageProps {
+  params: Promise<{ conversationId: string }>;
+}
+
+export default async function ConversationPage({ params }: ConversationPageProps) {
+  // 인증 확인
+  const { userId } = await auth();
+
+  if (!userId) {
+    // 로그인하지 않은 경우 홈으로 리다이렉트
+    redirect("/");
+  }
+
+  const { conversationId } = await params;
+
+  return <MessageThread conversationId={conversationId} />;
+}
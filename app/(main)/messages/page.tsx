@@ -0,0 +1,40 @@
+/**
+ * @file app/(main)/messages/page.tsx
+ * @description 메시지 페이지
+ *
+ * 현재 로그인한 사용자의 Direct Message 대화 목록을 표시하는 페이지입니다.
+ * ConversationList 컴포넌트에서 받은 메시지함과 메시지 요청함을 탭으로 나누어 표시합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import ConversationList from "@/components/messages/ConversationList";
+
+export default async function MessagesPage() {
+  // 인증 확인
+  const { userId } = await auth();
+
+  if (!userId) {
+    // 로그인하지 않은 경우 홈으로 리다이렉트
+    redirect("/");
+  }
+
+  return (
+    <div className="py-4">
+      {/* 페이지 헤더 */}
+      <div className="mb-4 px-4">
+        <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)]">
+          메시지
+        </h1>
+        <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+          친구와 1:1 또는 그룹으로 대화하세요
+        </p>
+      </div>
+
+      {/* 대화 목록 */}
+      <ConversationList />
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+/**
+ * @file app/(main)/notifications/page.tsx
+ * @description 알림 페이지
+ *
+ * 현재 로그인한 사용자가 받은 좋아요, 댓글, 답글, 팔로우 알림을 표시하는 페이지입니다.
+ * NotificationList 컴포넌트를 사용하여 묶음 알림 목록을 표시합니다.
+ * 비공개 계정이 받은 팔로우 요청은 FollowRequestList로 알림 목록 위에 표시합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import FollowRequestList from "@/components/notifications/FollowRequestList";
+import NotificationList from "@/components/notifications/NotificationList";
+
+export default async function NotificationsPage() {
+  // 인증 확인
+  const { userId } = await auth();
+
+  if (!userId) {
+    // 로그인하지 않은 경우 홈으로 리다이렉트
+    redirect("/");
+  }
+
+  return (
+    <div className="py-4">
+      {/* 페이지 헤더 */}
+      <div className="mb-6 px-4">
+        <h1 className="text-2xl font-semibold text-[var(--instagram-text-primary)]">
+          알림
+        </h1>
+        <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+          회원님의 게시물과 댓글에 대한 소식을 확인하세요
+        </p>
+      </div>
+
+      {/* 팔로우 요청함 (비공개 계정) */}
+      <FollowRequestList />
+
+      {/* 알림 목록 */}
+      <NotificationList />
+    </div>
+  );
+}
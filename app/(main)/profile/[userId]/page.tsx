@@ -4,19 +4,23 @@
  *
  * Instagram 스타일의 사용자 프로필 페이지입니다.
  * - 사용자 정보 및 통계 표시
- * - 게시물 그리드 표시
- * - 팔로우/팔로잉 기능
+ * - 게시물 그리드 표시 (본인 프로필은 임시 저장/예약 게시물 탭 포함)
+ * - 팔로우/팔로잉 기능 (비공개 계정은 팔로우 요청)
+ * - 비공개 계정은 본인과 팔로워에게만 게시물 공개
+ * - 나를 차단한 사용자의 프로필은 404, 내가 차단한 사용자는 게시물 대신 안내 표시
+ * - 정지된 계정의 프로필은 본인 외에는 404
  *
  * @see docs/PRD.md
  */
 
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { notFound } from "next/navigation";
-import { createClient } from "@/utils/supabase/server";
+import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
 import { getServiceRoleClient } from "@/utils/supabase/service-role";
 import ProfileHeader from "@/components/profile/ProfileHeader";
-import PostGrid from "@/components/profile/PostGrid";
-import type { UserWithStats } from "@/lib/types";
+import ProfilePosts from "@/components/profile/ProfilePosts";
+import { getBlockStatus, getFollowStatus, isMutedBy } from "@/lib/privacy";
+import type { BlockStatus, FollowStatus, UserWithStats } from "@/lib/types";
 
 interface ProfilePageProps {
   params: Promise<{ userId: string }>;
@@ -29,17 +33,17 @@ interface ProfilePageProps {
  */
 export default async function ProfilePage({ params }: ProfilePageProps) {
   const { userId: clerkUserId } = await params;
-  const supabase = await createClient();
+  const supabase = createClerkSupabaseClient();
 
   // 현재 로그인 사용자 확인
   const { userId: currentClerkUserId } = await auth();
   const isOwnProfile = currentClerkUserId === clerkUserId;
 
   try {
-    // 1. Clerk user ID로 Supabase user 조회
+    // 1. Clerk user ID로 Supabase user 조회 (통계는 트리거로 갱신되는 카운터 컬럼)
     let { data: user, error: userError } = await supabase
       .from("users")
-      .select("id, clerk_id, name, created_at")
+      .select("id, clerk_id, name, username, bio, website, avatar_url, is_private, is_suspended, created_at, posts_count, followers_count, following_count")
       .eq("clerk_id", clerkUserId)
       .single();
 
@@ -100,7 +104,16 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
               id: syncedUser.id,
               clerk_id: syncedUser.clerk_id,
               name: syncedUser.name,
+              username: syncedUser.username,
+              bio: syncedUser.bio,
+              website: syncedUser.website,
+              avatar_url: syncedUser.avatar_url,
+              is_private: syncedUser.is_private,
+              is_suspended: syncedUser.is_suspended,
               created_at: syncedUser.created_at,
+              posts_count: syncedUser.posts_count,
+              followers_count: syncedUser.followers_count,
+              following_count: syncedUser.following_count,
             };
             userError = null;
           }
@@ -135,19 +148,15 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
       notFound();
     }
 
-    // 2. user_stats 뷰에서 통계 정보 조회
-    const { data: userStats, error: statsError } = await supabase
-      .from("user_stats")
-      .select("*")
-      .eq("user_id", user.id)
-      .single();
-
-    if (statsError) {
-      console.error("User stats query error:", statsError);
+    // 정지된 계정은 본인 외에는 존재하지 않는 것으로 처리
+    if (user.is_suspended && !isOwnProfile) {
+      notFound();
     }
 
-    // 3. 현재 로그인 사용자의 팔로우 상태 확인
-    let isFollowing = false;
+    // 2. 현재 로그인 사용자의 팔로우/차단/음소거 상태 확인
+    let followStatus: FollowStatus = "none";
+    let blockStatus: BlockStatus = "none";
+    let isMuted = false;
 
     if (currentClerkUserId && currentClerkUserId !== clerkUserId) {
       // 현재 사용자의 Supabase user ID 조회
@@ -158,28 +167,45 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
         .single();
 
       if (currentUser) {
-        // follows 테이블에서 팔로우 관계 확인
-        const { data: follow } = await supabase
-          .from("follows")
-          .select("id")
-          .eq("follower_id", currentUser.id)
-          .eq("following_id", user.id)
-          .single();
-
-        isFollowing = !!follow;
+        // follows / follow_requests 테이블에서 팔로우 관계 확인
+        followStatus = await getFollowStatus(supabase, currentUser.id, user.id);
+        blockStatus = await getBlockStatus(supabase, currentUser.id, user.id);
+        isMuted = await isMutedBy(supabase, currentUser.id, user.id);
       }
     }
 
-    // 4. UserWithStats 형식으로 변환
-    const userData: UserWithStats & { isFollowing: boolean } = {
+    // 나를 차단한 사용자의 프로필은 존재하지 않는 것으로 처리
+    if (blockStatus === "blocked_by") {
+      notFound();
+    }
+
+    // 비공개 계정은 본인과 팔로워에게만 게시물 공개
+    const canViewPosts =
+      isOwnProfile || !user.is_private || followStatus === "following";
+
+    // 3. UserWithStats 형식으로 변환
+    const userData: UserWithStats & {
+      isFollowing: boolean;
+      followStatus: FollowStatus;
+      isBlocking: boolean;
+      isMuted: boolean;
+    } = {
       id: user.id,
       clerk_id: user.clerk_id,
       name: user.name,
+      username: user.username,
+      bio: user.bio,
+      website: user.website,
+      avatar_url: user.avatar_url,
+      is_private: user.is_private,
       created_at: user.created_at,
-      posts_count: Number(userStats?.posts_count) || 0,
-      followers_count: Number(userStats?.followers_count) || 0,
-      following_count: Number(userStats?.following_count) || 0,
-      isFollowing,
+      posts_count: user.posts_count,
+      followers_count: user.followers_count,
+      following_count: user.following_count,
+      isFollowing: followStatus === "following",
+      followStatus,
+      isBlocking: blockStatus === "blocking",
+      isMuted,
     };
 
     return (
@@ -190,7 +216,22 @@ export default async function ProfilePage({ params }: ProfilePageProps) {
 
           {/* 게시물 그리드 */}
           <div className="mt-8 md:mt-12">
-            <PostGrid userId={userData.id} />
+            {userData.isBlocking ? (
+              <div className="text-center py-16 border-t border-[var(--instagram-border)]">
+                <p className="font-semibold text-[var(--instagram-text-primary)]">
+                  차단한 계정입니다
+                </p>
+                <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+                  차단을 해제하면 게시물을 볼 수 있습니다.
+                </p>
+              </div>
+            ) : (
+              <ProfilePosts
+                userId={userData.id}
+                isOwnProfile={isOwnProfile}
+                isLocked={!canViewPosts}
+              />
+            )}
           </div>
         </div>
       </div>
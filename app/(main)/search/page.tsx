@@ -4,22 +4,27 @@
  *
  * 일반 검색 기능을 제공하는 페이지입니다.
  * 게시물의 caption, title과 사용자 이름을 검색할 수 있습니다.
+ * 게시물/사용자 결과는 각각 API가 반환하는 커서로 "더 보기"를 지원합니다.
+ * 검색어가 없을 때는 인기 해시태그를 표시합니다.
  */
 
 "use client";
 
 import { useState, useEffect, useCallback, useMemo, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { Search } from "lucide-react";
+import { Search, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
 import PostCard from "@/components/post/PostCard";
 import PostCardSkeleton from "@/components/post/PostCardSkeleton";
 import PostModal from "@/components/post/PostModal";
-import type { PostWithStats, User } from "@/lib/types";
+import UserAvatar from "@/components/profile/UserAvatar";
+import TrendingTags from "@/components/tags/TrendingTags";
+import type { PostWithStats, SearchType, User } from "@/lib/types";
+import { api } from "@/lib/api-client";
+import { cachePosts } from "@/lib/api-cache";
 import Link from "next/link";
 
-type SearchType = "all" | "posts" | "users";
-
 function SearchContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
@@ -28,6 +33,9 @@ function SearchContent() {
   const [posts, setPosts] = useState<PostWithStats[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [postUsers, setPostUsers] = useState<User[]>([]); // 게시물 작성자 정보
+  const [postsCursor, setPostsCursor] = useState<string | null>(null);
+  const [usersCursor, setUsersCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<"posts" | "users" | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
@@ -54,6 +62,8 @@ function SearchContent() {
       if (!searchQuery.trim()) {
         setPosts([]);
         setUsers([]);
+        setPostsCursor(null);
+        setUsersCursor(null);
         setError(null);
         return;
       }
@@ -62,24 +72,18 @@ function SearchContent() {
       setError(null);
 
       try {
-        const params = new URLSearchParams({
+        const data = await api.search({
           q: searchQuery.trim(),
           type,
-          limit: "20",
-          offset: "0",
+          limit: 20,
         });
-
-        const response = await fetch(`/api/search?${params.toString()}`);
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "검색에 실패했습니다.");
-        }
-
-        const data = await response.json();
+        // 피드/모달과 공유하는 캐시에 최신 게시물 반영
+        cachePosts(data.posts || [], data.postUsers);
         setPosts(data.posts || []);
         setUsers(data.users || []);
         setPostUsers(data.postUsers || []);
+        setPostsCursor(data.nextCursor ?? null);
+        setUsersCursor(data.usersNextCursor ?? null);
       } catch (err) {
         console.error("Search error:", err);
         setError(
@@ -88,6 +92,8 @@ function SearchContent() {
         setPosts([]);
         setUsers([]);
         setPostUsers([]);
+        setPostsCursor(null);
+        setUsersCursor(null);
       } finally {
         setLoading(false);
       }
@@ -95,6 +101,57 @@ function SearchContent() {
     []
   );
 
+  // 다음 페이지 로드 (게시물 또는 사용자)
+  const loadMore = useCallback(
+    async (kind: "posts" | "users") => {
+      const currentCursor = kind === "posts" ? postsCursor : usersCursor;
+      if (!currentCursor || loadingMore || !query.trim()) return;
+
+      setLoadingMore(kind);
+
+      try {
+        const data = await api.search({
+          q: query.trim(),
+          type: kind,
+          limit: 20,
+          ...(kind === "posts"
+            ? { cursor: currentCursor }
+            : { usersCursor: currentCursor }),
+        });
+
+        if (kind === "posts") {
+          cachePosts(data.posts || [], data.postUsers);
+          setPosts((prev) => {
+            const existingIds = new Set(prev.map((p) => p.id));
+            return [
+              ...prev,
+              ...(data.posts || []).filter((p) => !existingIds.has(p.id)),
+            ];
+          });
+          setPostUsers((prev) => [...prev, ...(data.postUsers || [])]);
+          setPostsCursor(data.nextCursor ?? null);
+        } else {
+          setUsers((prev) => {
+            const existingIds = new Set(prev.map((u) => u.id));
+            return [
+              ...prev,
+              ...(data.users || []).filter((u) => !existingIds.has(u.id)),
+            ];
+          });
+          setUsersCursor(data.usersNextCursor ?? null);
+        }
+      } catch (err) {
+        console.error("Search load more error:", err);
+        setError(
+          err instanceof Error ? err.message : "검색 중 오류가 발생했습니다."
+        );
+      } finally {
+        setLoadingMore(null);
+      }
+    },
+    [postsCursor, usersCursor, loadingMore, query]
+  );
+
   // 검색 실행 (디바운스)
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -249,6 +306,21 @@ function SearchContent() {
                     );
                   })}
                 </div>
+                {postsCursor && (
+                  <div className="flex justify-center mt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => loadMore("posts")}
+                      disabled={loadingMore !== null}
+                    >
+                      {loadingMore === "posts" ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        "게시물 더 보기"
+                      )}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
 
@@ -264,15 +336,33 @@ function SearchContent() {
                       href={`/profile/${user.clerk_id}`}
                       className="flex items-center gap-4 p-4 hover:bg-gray-50 rounded-lg transition-colors"
                     >
-                      <div className="w-12 h-12 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
-                        {user.name.charAt(0).toUpperCase()}
-                      </div>
+                      <UserAvatar user={user} size={48} />
                       <div>
                         <p className="font-semibold">{user.name}</p>
+                        {user.username && (
+                          <p className="text-sm text-[var(--instagram-text-secondary)]">
+                            @{user.username}
+                          </p>
+                        )}
                       </div>
                     </Link>
                   ))}
                 </div>
+                {usersCursor && (
+                  <div className="flex justify-center mt-4">
+                    <Button
+                      variant="outline"
+                      onClick={() => loadMore("users")}
+                      disabled={loadingMore !== null}
+                    >
+                      {loadingMore === "users" ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        "사용자 더 보기"
+                      )}
+                    </Button>
+                  </div>
+                )}
               </div>
             )}
         </div>
@@ -285,6 +375,11 @@ function SearchContent() {
           <p className="text-gray-500 text-lg">
             검색어를 입력하여 게시물과 사용자를 찾아보세요.
           </p>
+
+          {/* 인기 해시태그 */}
+          <div className="mt-10">
+            <TrendingTags />
+          </div>
         </div>
       )}
 
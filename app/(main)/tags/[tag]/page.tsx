@@ -0,0 +1,72 @@
+/**
+ * @file app/(main)/tags/[tag]/page.tsx
+ * @description 해시태그 페이지
+ *
+ * 해시태그가 포함된 게시물을 인기순/최신순 3열 그리드로 표시합니다.
+ * - 해시태그 이름 및 게시물 수 표시
+ * - "인기 게시물" / "최근 게시물" 탭 (HashtagPosts)
+ *
+ * @see docs/PRD.md
+ */
+
+import { notFound } from "next/navigation";
+import { Hash } from "lucide-react";
+import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
+import HashtagPosts from "@/components/tags/HashtagPosts";
+import { normalizeHashtag } from "@/lib/hashtags";
+
+interface TagPageProps {
+  params: Promise<{ tag: string }>;
+}
+
+/**
+ * 해시태그 페이지 컴포넌트
+ *
+ * @param params - 경로 파라미터 (tag: "#" 제외 해시태그)
+ */
+export default async function TagPage({ params }: TagPageProps) {
+  const { tag: rawTag } = await params;
+  const tag = normalizeHashtag(decodeURIComponent(rawTag));
+
+  if (!tag) {
+    notFound();
+  }
+
+  // 게시물 수 조회 (숨김 게시물 및 정지된 계정 제외)
+  const supabase = createClerkSupabaseClient();
+  const { count: postsCount, error: countError } = await supabase
+    .from("hashtag_post_stats")
+    .select("post_id", { count: "exact", head: true })
+    .eq("hashtag", tag);
+
+  if (countError) {
+    console.error("Hashtag posts count error:", countError);
+  }
+
+  return (
+    <div className="w-full -mx-4 md:-mx-8 px-4 md:px-8 py-4 md:py-8">
+      <div className="max-w-[935px] mx-auto">
+        {/* 해시태그 헤더 */}
+        <div className="flex items-center gap-6 md:gap-10 px-4 py-4 md:py-8">
+          <div className="w-20 h-20 md:w-36 md:h-36 shrink-0 rounded-full border border-[var(--instagram-border)] flex items-center justify-center">
+            <Hash
+              className="w-8 h-8 md:w-14 md:h-14 text-[var(--instagram-text-primary)]"
+              aria-hidden="true"
+            />
+          </div>
+          <div className="min-w-0">
+            <h1 className="text-xl md:text-2xl font-semibold text-[var(--instagram-text-primary)] break-all">
+              #{tag}
+            </h1>
+            <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+              게시물 <span className="font-semibold text-[var(--instagram-text-primary)]">{(postsCount || 0).toLocaleString()}</span>개
+            </p>
+          </div>
+        </div>
+
+        {/* 인기/최근 게시물 그리드 */}
+        <HashtagPosts tag={tag} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+/**
+ * @file app/api/blocks/route.ts
+ * @description 차단 API
+ *
+ * POST: 사용자 차단 (양방향 팔로우, 팔로우 요청, 알림 삭제)
+ * DELETE: 차단 해제
+ *
+ * 차단 관계인 사용자의 게시물, 댓글, 프로필은 서로 보이지 않으며
+ * 팔로우, 좋아요, 댓글을 할 수 없습니다. (lib/privacy.ts 참고)
+ *
+ * @see supabase/migrations/20250105000006_create_blocks_and_mutes_tables.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+
+const blockSchema = z.object({
+  userId: idSchema("userId"),
+});
+
+/**
+ * POST /api/blocks
+ * 사용자 차단
+ *
+ * @param request - NextRequest 객체 (body: { userId: string })
+ * @returns 차단 정보
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/blocks",
+    errorMessage: "차단에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: blockSchema,
+  },
+  async ({ user: currentUser, supabase, body: { userId } }) => {
+    // 1. 자기 자신 차단 방지
+    if (currentUser.id === userId) {
+      throw new ApiError("BAD_REQUEST", "자기 자신을 차단할 수 없습니다.");
+    }
+
+    // 2. 차단 대상 사용자 존재 확인
+    const { data: targetUser, error: targetUserError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", userId)
+      .single();
+
+    if (targetUserError || !targetUser) {
+      throw new ApiError("NOT_FOUND", "차단할 사용자를 찾을 수 없습니다.");
+    }
+
+    // 3. blocks 테이블에 INSERT
+    const { data: block, error: insertError } = await supabase
+      .from("blocks")
+      .insert({
+        blocker_id: currentUser.id,
+        blocked_id: userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // 중복 차단 시도 (UNIQUE 제약조건 위반)
+      if (insertError.code === "23505") {
+        throw new ApiError("CONFLICT", "이미 차단한 사용자입니다.");
+      }
+
+      console.error("Block insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "차단에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 4. 양방향 팔로우 및 팔로우 요청 삭제
+    const { error: followsDeleteError } = await supabase
+      .from("follows")
+      .delete()
+      .or(
+        `and(follower_id.eq.${currentUser.id},following_id.eq.${userId}),and(follower_id.eq.${userId},following_id.eq.${currentUser.id})`
+      );
+
+    if (followsDeleteError) {
+      console.error("Follows delete error:", followsDeleteError);
+    }
+
+    const { error: requestsDeleteError } = await supabase
+      .from("follow_requests")
+      .delete()
+      .or(
+        `and(requester_id.eq.${currentUser.id},target_id.eq.${userId}),and(requester_id.eq.${userId},target_id.eq.${currentUser.id})`
+      );
+
+    if (requestsDeleteError) {
+      console.error("Follow requests delete error:", requestsDeleteError);
+    }
+
+    // 5. 서로 주고받은 알림 삭제 (읽지 않은 알림 배지에서도 제외)
+    const { error: notificationsDeleteError } = await supabase
+      .from("notifications")
+      .delete()
+      .or(
+        `and(recipient_id.eq.${currentUser.id},actor_id.eq.${userId}),and(recipient_id.eq.${userId},actor_id.eq.${currentUser.id})`
+      );
+
+    if (notificationsDeleteError) {
+      console.error("Notifications delete error:", notificationsDeleteError);
+    }
+
+    return NextResponse.json(
+      { success: true, block },
+      { status: 201 }
+    );
+  }
+);
+
+/**
+ * DELETE /api/blocks
+ * 차단 해제
+ *
+ * @param request - NextRequest 객체 (query: { userId: string })
+ * @returns 성공 메시지
+ */
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/blocks",
+    errorMessage: "차단 해제에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    query: blockSchema,
+  },
+  async ({ user: currentUser, supabase, query: { userId } }) => {
+    // 1. blocks 테이블에서 DELETE (본인이 한 차단만)
+    const { error: deleteError } = await supabase
+      .from("blocks")
+      .delete()
+      .eq("blocker_id", currentUser.id)
+      .eq("blocked_id", userId);
+
+    if (deleteError) {
+      console.error("Block delete error:", deleteError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "차단 해제에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,100 @@
+/**
+ * @file app/api/comment-likes/route.ts
+ * @description 댓글 좋아요 API
+ *
+ * POST: 댓글 좋아요 추가
+ * DELETE: 댓글 좋아요 제거
+ *
+ * @see docs/PRD.md
+ * @see supabase/migrations/20250105000002_create_comment_likes_table.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+
+const commentLikeSchema = z.object({
+  commentId: idSchema("commentId"),
+});
+
+/**
+ * POST /api/comment-likes
+ * 댓글 좋아요 추가
+ *
+ * @param request - NextRequest 객체 (JSON body: { commentId: string })
+ * @returns 좋아요 정보
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/comment-likes",
+    errorMessage: "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: commentLikeSchema,
+  },
+  async ({ user, supabase, body: { commentId } }) => {
+    // 1. 좋아요 추가 (UNIQUE 제약조건으로 중복 방지)
+    const { data: like, error: insertError } = await supabase
+      .from("comment_likes")
+      .insert({
+        comment_id: commentId,
+        user_id: user.id,
+      })
+      .select()
+      .single();
+
+    // 중복 좋아요인 경우 (이미 좋아요를 누른 경우)
+    if (insertError) {
+      // UNIQUE 제약조건 위반 (23505 = unique_violation)
+      if (insertError.code === "23505") {
+        throw new ApiError("CONFLICT", "이미 좋아요를 누른 댓글입니다.");
+      }
+
+      // 외래 키 위반 (23503 = foreign_key_violation): 삭제된 댓글
+      if (insertError.code === "23503") {
+        throw new ApiError("NOT_FOUND", "댓글을 찾을 수 없습니다.");
+      }
+
+      console.error("Comment like insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json(like, { status: 201 });
+  }
+);
+
+/**
+ * DELETE /api/comment-likes
+ * 댓글 좋아요 제거
+ *
+ * @param request - NextRequest 객체 (query params: commentId)
+ * @returns 성공 메시지
+ */
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/comment-likes",
+    errorMessage: "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    query: commentLikeSchema,
+  },
+  async ({ user, supabase, query: { commentId } }) => {
+    // 1. 좋아요 제거
+    const { error: deleteError } = await supabase
+      .from("comment_likes")
+      .delete()
+      .eq("comment_id", commentId)
+      .eq("user_id", user.id);
+
+    if (deleteError) {
+      console.error("Comment like delete error:", deleteError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  }
+);
+
@@ -2,18 +2,71 @@
  * @file app/api/comments/route.ts
  * @description 댓글 API
  *
- * GET: 댓글 목록 조회
- * POST: 댓글 작성
- * DELETE: 댓글 삭제 (본인만)
+ * GET: 댓글 목록 조회 (시간순, limit 지정 시 커서 기반 페이지네이션)
+ *   - parentId 없음: 최상위 댓글 + 답글 수(replies_count)
+ *   - parentId 지정: 해당 댓글의 답글 목록
+ *   - 댓글별 좋아요 수(likes_count) 및 현재 사용자의 좋아요 여부(is_liked) 포함
+ *   - 댓글의 멘션(mentions) 포함
+ * POST: 댓글 작성 (parentId 지정 시 답글, 1단계까지만 허용)
+ *   - 요청 횟수 제한 (429), 같은 게시물에 같은 내용을 10분 안에 다시 작성하면 409
+ *   - 같은 내용을 여러 게시물에 반복 작성하면 429 (스팸 방지)
+ *   - 댓글의 @멘션 저장 및 멘션된 사용자에게 알림 (답글/댓글 알림을 받는 사용자 제외)
+ *   - 비공개 계정 게시물의 댓글 조회/작성은 본인과 팔로워만 가능
+ *   - 차단 관계인 사용자의 게시물에는 댓글 조회/작성 불가, 차단 관계인 사용자의 댓글은 제외
+ *   - 숨김 처리된 게시물/댓글과 정지된 계정의 댓글은 제외
+ * DELETE: 댓글 삭제 (본인만, 최상위 댓글 삭제 시 답글도 함께 삭제)
  *
  * @see docs/PRD.md
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { getVisiblePostAuthorId } from "@/lib/moderation";
+import { fetchMentionMap, syncMentions } from "@/lib/mentions";
+import { createNotification } from "@/lib/notifications";
+import {
+  DUPLICATE_COMMENT_WINDOW_MS,
+  getRepeatedCommentKey,
+  hitRateLimit,
+  rateLimitError,
+  REPEATED_COMMENT_LIMIT,
+} from "@/lib/rate-limit";
+import {
+  canViewUserContent,
+  getBlockedUserIds,
+  getViewerId,
+  isBlockedBetween,
+  toInFilter,
+} from "@/lib/privacy";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
 import type { CommentWithUser } from "@/lib/types";
 
+const commentsQuerySchema = z.object({
+  postId: idSchema("postId"),
+  parentId: idSchema("parentId").optional(),
+});
+
+const createCommentSchema = z.object({
+  postId: idSchema("postId"),
+  content: z
+    .string({ required_error: "content가 필요합니다." })
+    .trim()
+    .min(1, "댓글 내용이 비어있습니다.")
+    .max(1000, "댓글은 1000자 이하여야 합니다."),
+  parentId: idSchema("parentId").nullish(),
+});
+
+const deleteCommentSchema = z.object({
+  commentId: idSchema("commentId"),
+});
+
 /**
  * GET /api/comments
  * 댓글 목록 조회
@@ -21,21 +74,36 @@ import type { CommentWithUser } from "@/lib/types";
  * @param request - NextRequest 객체
  * @returns 댓글 목록
  */
-export async function GET(request: NextRequest) {
-  try {
-    const supabase = await createClient();
+export const GET = apiHandler(
+  {
+    name: "GET /api/comments",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+    query: commentsQuerySchema,
+  },
+  async ({ supabase, request, query: { postId, parentId } }) => {
     const searchParams = request.nextUrl.searchParams;
 
-    const postId = searchParams.get("postId");
-    if (!postId) {
-      return NextResponse.json(
-        { error: "postId 파라미터가 필요합니다." },
-        { status: 400 }
-      );
+    // 비공개 계정 게시물은 본인과 팔로워에게만 댓글 공개
+    // (비로그인은 좋아요 여부 없이 조회)
+    const currentUserId = await getViewerId(supabase);
+    const postAuthorId = await getVisiblePostAuthorId(supabase, postId);
+
+    if (
+      !postAuthorId ||
+      (await isBlockedBetween(supabase, currentUserId, postAuthorId))
+    ) {
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
     }
 
-    const limit = searchParams.get("limit");
-    const offset = searchParams.get("offset");
+    if (!(await canViewUserContent(supabase, currentUserId, postAuthorId))) {
+      throw new ApiError("PRIVATE_ACCOUNT", "비공개 계정의 게시물입니다.");
+    }
+
+    // parentId가 있으면 해당 댓글의 답글 조회
+    // limit이 없으면 전체 댓글 조회
+    const isPaginated = searchParams.has("limit");
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 20);
 
     // 댓글 조회 (users 테이블과 JOIN)
     let query = supabase
@@ -45,58 +113,156 @@ export async function GET(request: NextRequest) {
         id,
         post_id,
         user_id,
+        parent_id,
         content,
         created_at,
         updated_at,
-        users (
+        users!inner (
           id,
           clerk_id,
           name,
+          username,
+          avatar_url,
           created_at
         )
       `
       )
       .eq("post_id", postId)
-      .order("created_at", { ascending: true }); // 시간 순서대로 (최신이 아래)
+      .eq("is_hidden", false)
+      .eq("users.is_suspended", false); // 정지된 계정의 댓글 제외
+
+    query = parentId
+      ? query.eq("parent_id", parentId)
+      : query.is("parent_id", null);
+
+    // 차단 관계인 사용자의 댓글 제외
+    const blockedUserIds = await getBlockedUserIds(supabase, currentUserId);
+    if (blockedUserIds.length > 0) {
+      query = query.not("user_id", "in", toInFilter(blockedUserIds));
+    }
+
+    // 시간 순서대로 (최신이 아래)
+    query = orderByCursor(query, { ascending: true });
 
-    if (limit) {
-      const limitNum = parseInt(limit, 10);
-      const offsetNum = offset ? parseInt(offset, 10) : 0;
-      query = query.range(offsetNum, offsetNum + limitNum - 1);
+    if (isPaginated) {
+      // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+      query = cursor
+        ? applyCursor(query, cursor, { ascending: true }).limit(limit + 1)
+        : query.range(offset, offset + limit);
     }
 
-    const { data: comments, error: commentsError } = await query;
+    const { data: rows, error: commentsError } = await query;
 
     if (commentsError) {
       console.error("Comments query error:", commentsError);
-      return NextResponse.json(
-        { error: "댓글을 불러오는데 실패했습니다.", details: commentsError.message },
-        { status: 500 }
+      throw new ApiError("INTERNAL_ERROR", "댓글을 불러오는데 실패했습니다.", {
+        details: commentsError.message,
+      });
+    }
+
+    const {
+      items: comments,
+      hasMore,
+      nextCursor,
+    } = isPaginated
+      ? paginate(rows, limit, (comment) => ({
+          createdAt: comment.created_at,
+          id: comment.id,
+        }))
+      : { items: rows || [], hasMore: false, nextCursor: null };
+
+    // 최상위 댓글의 답글 수 조회
+    const repliesCountMap = new Map<string, number>();
+    if (!parentId && comments.length > 0) {
+      const { data: replies, error: repliesError } = await supabase
+        .from("comments")
+        .select("parent_id, user_id, users!inner(id)")
+        .eq("is_hidden", false)
+        .eq("users.is_suspended", false)
+        .in(
+          "parent_id",
+          comments.map((comment: any) => comment.id)
+        );
+
+      if (repliesError) {
+        // 답글 수 조회 실패는 댓글 목록 표시에 영향 없음
+        console.error("Replies count query error:", repliesError);
+      }
+
+      (replies || []).forEach((reply: { parent_id: string; user_id: string }) => {
+        // 차단 관계인 사용자의 답글은 개수에서 제외 (정지된 계정은 쿼리에서 제외)
+        if (blockedUserIds.includes(reply.user_id)) return;
+        repliesCountMap.set(
+          reply.parent_id,
+          (repliesCountMap.get(reply.parent_id) || 0) + 1
+        );
+      });
+    }
+
+    // 댓글 좋아요 수 및 현재 사용자의 좋아요 여부 조회
+    const likesCountMap = new Map<string, number>();
+    const likedCommentIds = new Set<string>();
+    if (comments.length > 0) {
+      const { data: commentLikes, error: commentLikesError } = await supabase
+        .from("comment_likes")
+        .select("comment_id, user_id")
+        .in(
+          "comment_id",
+          comments.map((comment: any) => comment.id)
+        );
+
+      if (commentLikesError) {
+        // 좋아요 수 조회 실패는 댓글 목록 표시에 영향 없음
+        console.error("Comment likes query error:", commentLikesError);
+      }
+
+      (commentLikes || []).forEach(
+        (like: { comment_id: string; user_id: string }) => {
+          likesCountMap.set(
+            like.comment_id,
+            (likesCountMap.get(like.comment_id) || 0) + 1
+          );
+          if (like.user_id === currentUserId) {
+            likedCommentIds.add(like.comment_id);
+          }
+        }
       );
     }
 
+    // 댓글 멘션 조회
+    const mentionMap = await fetchMentionMap(
+      supabase,
+      "comment_id",
+      comments.map((comment: any) => comment.id)
+    );
+
     // CommentWithUser 형식으로 변환
-    const commentsWithUser: CommentWithUser[] = (comments || [])
+    const commentsWithUser: CommentWithUser[] = comments
       .filter((comment: any) => comment.users) // users가 없는 댓글 제외
       .map((comment: any) => ({
         id: comment.id,
         post_id: comment.post_id,
         user_id: comment.user_id,
+        parent_id: comment.parent_id,
         content: comment.content,
         created_at: comment.created_at,
         updated_at: comment.updated_at,
         user: Array.isArray(comment.users) ? comment.users[0] : comment.users,
+        likes_count: likesCountMap.get(comment.id) || 0,
+        is_liked: likedCommentIds.has(comment.id),
+        mentions: mentionMap.get(comment.id),
+        ...(parentId
+          ? {}
+          : { replies_count: repliesCountMap.get(comment.id) || 0 }),
       }));
 
-    return NextResponse.json({ comments: commentsWithUser });
-  } catch (error) {
-    console.error("Comments API GET error:", error);
-    return NextResponse.json(
-      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
-      { status: 500 }
-    );
+    return NextResponse.json({
+      comments: commentsWithUser,
+      hasMore,
+      nextCursor,
+    });
   }
-}
+);
 
 /**
  * POST /api/comments
@@ -105,183 +271,227 @@ export async function GET(request: NextRequest) {
  * @param request - NextRequest 객체
  * @returns 생성된 댓글 데이터
  */
-export async function POST(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
+export const POST = apiHandler(
+  {
+    name: "POST /api/comments",
+    errorMessage: "댓글 작성에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "comment",
+    body: createCommentSchema,
+  },
+  async ({ user, supabase, body: { postId, content, parentId } }) => {
+    // 1. 정지된 계정은 댓글을 작성할 수 없음
+    if (user.is_suspended) {
+      throw new ApiError(
+        "ACCOUNT_SUSPENDED",
+        "정지된 계정은 댓글을 작성할 수 없습니다."
       );
     }
 
-    // 2. 요청 데이터 파싱
-    const body = await request.json();
-    const { postId, content } = body;
+    // 2. 게시물 확인 (숨김 게시물, 차단 관계면 404, 비공개 계정 게시물은 본인과 팔로워만 댓글 작성 가능)
+    const postAuthorId = await getVisiblePostAuthorId(supabase, postId);
 
-    if (!postId || !content) {
-      return NextResponse.json(
-        { error: "postId와 content가 필요합니다." },
-        { status: 400 }
-      );
+    if (
+      !postAuthorId ||
+      (await isBlockedBetween(supabase, user.id, postAuthorId))
+    ) {
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
     }
 
-    // content 검증
-    const trimmedContent = content.trim();
-    if (!trimmedContent) {
-      return NextResponse.json(
-        { error: "댓글 내용이 비어있습니다." },
-        { status: 400 }
-      );
+    if (!(await canViewUserContent(supabase, user.id, postAuthorId))) {
+      throw new ApiError("PRIVATE_ACCOUNT", "비공개 계정의 게시물입니다.");
     }
 
-    if (trimmedContent.length > 1000) {
-      return NextResponse.json(
-        { error: "댓글은 1000자 이하여야 합니다." },
-        { status: 400 }
-      );
+    // 3. 답글인 경우 부모 댓글 확인
+    // 답글의 답글은 최상위 댓글의 답글로 정규화 (1단계 스레드)
+    let rootParentId: string | null = null;
+    let parentAuthorId: string | null = null;
+    if (parentId) {
+      const { data: parent, error: parentError } = await supabase
+        .from("comments")
+        .select("id, post_id, parent_id, user_id, is_hidden")
+        .eq("id", parentId)
+        .single();
+
+      if (
+        parentError ||
+        !parent ||
+        parent.is_hidden ||
+        (await isBlockedBetween(supabase, user.id, parent.user_id))
+      ) {
+        throw new ApiError("NOT_FOUND", "답글을 남길 댓글을 찾을 수 없습니다.");
+      }
+
+      if (parent.post_id !== postId) {
+        throw new ApiError(
+          "BAD_REQUEST",
+          "같은 게시물의 댓글에만 답글을 남길 수 있습니다."
+        );
+      }
+
+      rootParentId = parent.parent_id || parent.id;
+      parentAuthorId = parent.user_id;
     }
 
-    // 3. Clerk User ID → Supabase User ID 변환
-    const supabase = await createClient();
-    const { data: user, error: userError } = await supabase
-      .from("users")
+    // 4. 중복 댓글 확인 (같은 게시물에 같은 내용, 여러 게시물에 같은 내용 반복)
+    const { data: duplicate } = await supabase
+      .from("comments")
       .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
+      .eq("post_id", postId)
+      .eq("user_id", user.id)
+      .eq("content", content)
+      .gte("created_at", new Date(Date.now() - DUPLICATE_COMMENT_WINDOW_MS).toISOString())
+      .limit(1)
+      .maybeSingle();
+
+    if (duplicate) {
+      throw new ApiError("CONFLICT", "같은 댓글을 이미 작성했습니다.");
+    }
 
-    if (userError || !user) {
-      console.error("User lookup error:", userError);
-      return NextResponse.json(
-        {
-          error: "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요.",
-        },
-        { status: 404 }
+    const repeated = await hitRateLimit(
+      getRepeatedCommentKey(user.id, content),
+      REPEATED_COMMENT_LIMIT
+    );
+    if (!repeated.allowed) {
+      throw rateLimitError(
+        repeated,
+        "같은 내용의 댓글을 너무 많이 작성했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    // 4. 댓글 저장
+    // 5. 댓글 저장
     const { data: comment, error: insertError } = await supabase
       .from("comments")
       .insert({
         post_id: postId,
         user_id: user.id,
-        content: trimmedContent,
+        parent_id: rootParentId,
+        content: content,
       })
       .select()
       .single();
 
     if (insertError || !comment) {
       console.error("Comment insert error:", insertError);
-      return NextResponse.json(
-        { error: "댓글 작성에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "댓글 작성에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    // 5. 사용자 정보 조회
+    // 6. 사용자 정보 조회
     const { data: userData, error: userDataError } = await supabase
       .from("users")
-      .select("id, clerk_id, name, created_at")
+      .select("id, clerk_id, name, username, avatar_url, created_at")
       .eq("id", user.id)
       .single();
 
     if (userDataError || !userData) {
       console.error("User data fetch error:", userDataError);
-      return NextResponse.json(
-        { error: "사용자 정보를 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "사용자 정보를 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    // 6. CommentWithUser 형식으로 반환
+    // 7. 알림 생성 (답글 대상 댓글 작성자, 게시물 작성자)
+    if (parentAuthorId) {
+      await createNotification({
+        recipientId: parentAuthorId,
+        actorId: user.id,
+        type: "reply",
+        postId,
+        commentId: comment.id,
+      });
+    }
+
+    // 답글 대상 댓글 작성자가 게시물 작성자면 답글 알림만 보냄
+    if (postAuthorId !== parentAuthorId) {
+      await createNotification({
+        recipientId: postAuthorId,
+        actorId: user.id,
+        type: "comment",
+        postId,
+        commentId: comment.id,
+      });
+    }
+
+    // 8. 멘션 저장 및 멘션 알림
+    // 차단 관계인 사용자는 제외하고, 답글/댓글 알림을 받은 사용자에게는 멘션 알림을 보내지 않음
+    const mentions = await syncMentions(
+      supabase,
+      { postId, commentId: comment.id },
+      comment.content,
+      user.id,
+      {
+        excludedUserIds: await getBlockedUserIds(supabase, user.id),
+        silentUserIds: [postAuthorId, parentAuthorId].filter(
+          (id): id is string => !!id
+        ),
+      }
+    );
+
+    // 9. CommentWithUser 형식으로 반환
     const commentWithUser: CommentWithUser = {
       ...comment,
       user: userData,
+      mentions,
+      likes_count: 0,
+      is_liked: false,
+      ...(rootParentId ? {} : { replies_count: 0 }),
     };
 
     return NextResponse.json(commentWithUser, { status: 201 });
-  } catch (error) {
-    console.error("Comments API POST error:", error);
-    return NextResponse.json(
-      {
-        error: "댓글 작성에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/comments
  * 댓글 삭제 (본인만)
  *
  * @param request - NextRequest 객체
- * @returns 삭제 성공 메시지
+ * @returns 삭제 성공 메시지, 삭제된 댓글 수(답글 포함), 부모 댓글 ID
  */
-export async function DELETE(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    // 2. 요청 데이터 파싱
-    const searchParams = request.nextUrl.searchParams;
-    const commentId = searchParams.get("commentId");
-
-    if (!commentId) {
-      return NextResponse.json(
-        { error: "commentId 파라미터가 필요합니다." },
-        { status: 400 }
-      );
-    }
-
-    // 3. 댓글 조회 및 소유권 확인
-    const supabase = await createClient();
-
-    // 댓글 조회
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/comments",
+    errorMessage: "댓글 삭제에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    query: deleteCommentSchema,
+  },
+  async ({ user, supabase, query: { commentId } }) => {
+    // 1. 댓글 조회 및 소유권 확인
     const { data: comment, error: commentError } = await supabase
       .from("comments")
-      .select("id, user_id")
+      .select("id, user_id, parent_id")
       .eq("id", commentId)
       .single();
 
     if (commentError || !comment) {
-      return NextResponse.json(
-        { error: "댓글을 찾을 수 없습니다." },
-        { status: 404 }
-      );
-    }
-
-    // Clerk User ID → Supabase User ID 변환
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: "사용자 정보를 찾을 수 없습니다." },
-        { status: 404 }
-      );
+      throw new ApiError("NOT_FOUND", "댓글을 찾을 수 없습니다.");
     }
 
     // 소유권 확인
     if (comment.user_id !== user.id) {
-      return NextResponse.json(
-        { error: "권한이 없습니다. 본인의 댓글만 삭제할 수 있습니다." },
-        { status: 403 }
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 댓글만 삭제할 수 있습니다."
       );
     }
 
-    // 4. 댓글 삭제
+    // 2. 함께 삭제될 답글 수 확인 (parent_id ON DELETE CASCADE)
+    let repliesCount = 0;
+    if (!comment.parent_id) {
+      const { count, error: countError } = await supabase
+        .from("comments")
+        .select("id", { count: "exact", head: true })
+        .eq("parent_id", commentId);
+
+      if (countError) {
+        console.error("Replies count error:", countError);
+      }
+      repliesCount = count || 0;
+    }
+
+    // 3. 댓글 삭제 (답글 포함)
     const { error: deleteError } = await supabase
       .from("comments")
       .delete()
@@ -289,21 +499,17 @@ export async function DELETE(request: NextRequest) {
 
     if (deleteError) {
       console.error("Comment delete error:", deleteError);
-      return NextResponse.json(
-        { error: "댓글 삭제에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "댓글 삭제에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    return NextResponse.json({ message: "댓글이 삭제되었습니다." });
-  } catch (error) {
-    console.error("Comments API DELETE error:", error);
-    return NextResponse.json(
-      {
-        error: "댓글 삭제에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({
+      message: "댓글이 삭제되었습니다.",
+      deletedCount: 1 + repliesCount,
+      parentId: comment.parent_id,
+    });
   }
-}
+);
 
@@ -0,0 +1,383 @@
+/**
+ * @file app/api/conversations/[conversationId]/messages/route.ts
+ * @description 대화방 메시지 API
+ *
+ * GET: 메시지 목록 조회 (최신순, 커서 기반 페이지네이션)
+ *   - 참여자만 조회 가능 (메시지 요청 상태에서도 조회 가능)
+ *   - 공유된 게시물은 미리보기 포함 (삭제/숨김/비공개/차단된 게시물은 null)
+ *   - 차단 관계인 사용자가 보낸 메시지는 제외
+ * POST: 메시지 전송 ({ content?: string, postId?: string })
+ *   - postId가 있으면 게시물 공유 (content는 함께 보내는 메모)
+ *   - 메시지 요청을 수락하기 전에는 답장할 수 없음
+ *   - 차단 관계인 사용자와의 1:1 대화방, 정지된 계정은 전송 불가
+ *
+ * @see app/api/conversations/route.ts
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { getConversationMembership, MAX_MESSAGE_LENGTH } from "@/lib/messages";
+import { getVisiblePostAuthorId } from "@/lib/moderation";
+import {
+  canViewUserContent,
+  getBlockedUserIds,
+  isBlockedBetween,
+  toInFilter,
+} from "@/lib/privacy";
+import type { MessageWithSender, SharedPostPreview, User } from "@/lib/types";
+
+const conversationParamsSchema = z.object({
+  conversationId: idSchema("conversationId"),
+});
+
+// 텍스트 메시지 또는 게시물 공유 (빈 값은 null)
+const sendMessageSchema = z
+  .object({
+    content: z
+      .string()
+      .trim()
+      .max(
+        MAX_MESSAGE_LENGTH,
+        `메시지는 ${MAX_MESSAGE_LENGTH.toLocaleString()}자 이하여야 합니다.`
+      )
+      .nullish()
+      .transform((content) => content || null),
+    postId: z
+      .string()
+      .uuid("올바르지 않은 postId입니다.")
+      .or(z.literal(""))
+      .nullish()
+      .transform((postId) => postId || null),
+  })
+  .refine(({ content, postId }) => Boolean(content || postId), {
+    message: "메시지 내용을 입력해주세요.",
+  });
+
+const MESSAGE_COLUMNS = `
+  id,
+  conversation_id,
+  sender_id,
+  kind,
+  content,
+  shared_post_id,
+  created_at,
+  users (
+    id,
+    clerk_id,
+    name,
+    username,
+    avatar_url,
+    created_at
+  )
+`;
+
+const USER_COLUMNS = "id, clerk_id, name, username, avatar_url, created_at";
+
+/**
+ * 공유된 게시물 미리보기 조회
+ *
+ * post_stats 뷰 기준으로 숨김 게시물과 정지된 계정의 게시물은 제외하고,
+ * 현재 사용자가 볼 수 없는 게시물(비공개 계정은 is_visible_to_viewer, 차단 관계)도 제외합니다.
+ *
+ * @returns post_id → 미리보기 맵
+ */
+async function fetchSharedPostMap(
+  supabase: SupabaseClient,
+  postIds: string[],
+  blockedUserIds: string[]
+): Promise<Map<string, SharedPostPreview>> {
+  const postMap = new Map<string, SharedPostPreview>();
+  if (postIds.length === 0) return postMap;
+
+  const { data: posts, error } = await supabase
+    .from("post_stats")
+    .select("post_id, user_id, image_url, caption")
+    .in("post_id", postIds)
+    .eq("is_visible_to_viewer", true);
+
+  if (error) {
+    console.error("Shared posts query error:", error);
+    return postMap;
+  }
+
+  const hiddenAuthorIds = new Set(blockedUserIds);
+  const visiblePosts = (posts || []).filter(
+    (post) => !hiddenAuthorIds.has(post.user_id)
+  );
+  if (visiblePosts.length === 0) return postMap;
+
+  const { data: authors } = await supabase
+    .from("users")
+    .select(USER_COLUMNS)
+    .in("id", [...new Set(visiblePosts.map((post) => post.user_id))]);
+
+  const authorMap = new Map<string, User>(
+    (authors || []).map((author) => [author.id, author])
+  );
+
+  for (const post of visiblePosts) {
+    const author = authorMap.get(post.user_id);
+    if (!author) continue;
+
+    postMap.set(post.post_id, {
+      id: post.post_id,
+      image_url: post.image_url,
+      caption: post.caption,
+      author,
+    });
+  }
+
+  return postMap;
+}
+
+/**
+ * 메시지 행을 MessageWithSender 형식으로 변환
+ */
+function toMessageWithSender(
+  row: any,
+  sharedPostMap: Map<string, SharedPostPreview>
+): MessageWithSender {
+  const { users, ...message } = row;
+  return {
+    ...message,
+    sender: Array.isArray(users) ? users[0] : users,
+    shared_post: message.shared_post_id
+      ? sharedPostMap.get(message.shared_post_id) || null
+      : null,
+  };
+}
+
+/**
+ * 1:1 대화방의 상대방 ID (그룹 대화방이면 null)
+ */
+async function getDirectPartnerId(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string
+): Promise<string | null> {
+  const { data: conversation } = await supabase
+    .from("conversations")
+    .select("is_group")
+    .eq("id", conversationId)
+    .single();
+
+  if (!conversation || conversation.is_group) return null;
+
+  const { data: partner } = await supabase
+    .from("conversation_members")
+    .select("user_id")
+    .eq("conversation_id", conversationId)
+    .neq("user_id", userId)
+    .maybeSingle();
+
+  return partner?.user_id ?? null;
+}
+
+/**
+ * GET /api/conversations/[conversationId]/messages
+ * 메시지 목록 조회
+ *
+ * @param request - NextRequest 객체
+ * @param params - 경로 파라미터 (conversationId)
+ * @returns 메시지 목록 (최신순) 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/conversations/[conversationId]/messages",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    params: conversationParamsSchema,
+  },
+  async ({ user, supabase, request, params: { conversationId } }) => {
+    const { limit, offset, cursor } = parsePaginationParams(
+      request.nextUrl.searchParams,
+      30
+    );
+
+    // 1. 참여 정보 확인
+    const membership = await getConversationMembership(
+      supabase,
+      conversationId,
+      user.id
+    );
+
+    if (!membership || membership.status === "declined") {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    const partnerId = await getDirectPartnerId(supabase, conversationId, user.id);
+    if (partnerId && blockedUserIds.includes(partnerId)) {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    // 2. 메시지 조회 (차단 관계인 사용자의 메시지 제외)
+    let query = supabase
+      .from("messages")
+      .select(MESSAGE_COLUMNS)
+      .eq("conversation_id", conversationId);
+
+    if (blockedUserIds.length > 0) {
+      query = query.not("sender_id", "in", toInFilter(blockedUserIds));
+    }
+
+    query = orderByCursor(query);
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: messagesError } = await query;
+
+    if (messagesError) {
+      console.error("Messages query error:", messagesError);
+      throw new ApiError("INTERNAL_ERROR", "메시지를 불러오는데 실패했습니다.", {
+        details: messagesError.message,
+      });
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (message) => ({
+      createdAt: message.created_at,
+      id: message.id,
+    }));
+
+    // 3. 공유된 게시물 미리보기
+    const sharedPostIds = [
+      ...new Set(
+        items
+          .map((message: any) => message.shared_post_id)
+          .filter((id: string | null): id is string => !!id)
+      ),
+    ];
+    const sharedPostMap = await fetchSharedPostMap(
+      supabase,
+      sharedPostIds,
+      blockedUserIds
+    );
+
+    const messages: MessageWithSender[] = items.map((row) =>
+      toMessageWithSender(row, sharedPostMap)
+    );
+
+    return NextResponse.json({ messages, hasMore, nextCursor });
+  }
+);
+
+/**
+ * POST /api/conversations/[conversationId]/messages
+ * 메시지 전송
+ *
+ * @param request - NextRequest 객체 (JSON body: { content?: string, postId?: string })
+ * @param params - 경로 파라미터 (conversationId)
+ * @returns 전송된 메시지 (MessageWithSender)
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/conversations/[conversationId]/messages",
+    errorMessage: "메시지를 보내지 못했습니다. 잠시 후 다시 시도해주세요.",
+    params: conversationParamsSchema,
+    body: sendMessageSchema,
+  },
+  async ({
+    user,
+    supabase,
+    params: { conversationId },
+    body: { content, postId: sharedPostId },
+  }) => {
+    // 1. 정지된 계정은 메시지를 보낼 수 없음
+    if (user.is_suspended) {
+      throw new ApiError(
+        "ACCOUNT_SUSPENDED",
+        "정지된 계정은 메시지를 보낼 수 없습니다."
+      );
+    }
+
+    // 2. 참여 정보 확인 (메시지 요청은 수락 후 답장 가능)
+    const membership = await getConversationMembership(
+      supabase,
+      conversationId,
+      user.id
+    );
+
+    if (!membership || membership.status === "declined") {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    if (membership.status === "pending") {
+      throw new ApiError(
+        "FORBIDDEN",
+        "메시지 요청을 수락한 후 답장할 수 있습니다."
+      );
+    }
+
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    const partnerId = await getDirectPartnerId(supabase, conversationId, user.id);
+    if (partnerId && blockedUserIds.includes(partnerId)) {
+      throw new ApiError("FORBIDDEN", "메시지를 보낼 수 없는 사용자입니다.");
+    }
+
+    // 3. 공유할 게시물 확인 (보낸 사람이 볼 수 있는 게시물만)
+    if (sharedPostId) {
+      const postAuthorId = await getVisiblePostAuthorId(supabase, sharedPostId);
+
+      if (
+        !postAuthorId ||
+        (await isBlockedBetween(supabase, user.id, postAuthorId))
+      ) {
+        throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
+      }
+
+      if (!(await canViewUserContent(supabase, user.id, postAuthorId))) {
+        throw new ApiError("PRIVATE_ACCOUNT", "비공개 계정의 게시물입니다.");
+      }
+    }
+
+    // 4. 메시지 저장
+    const { data: message, error: insertError } = await supabase
+      .from("messages")
+      .insert({
+        conversation_id: conversationId,
+        sender_id: user.id,
+        kind: sharedPostId ? "post" : "text",
+        content,
+        shared_post_id: sharedPostId,
+      })
+      .select(MESSAGE_COLUMNS)
+      .single();
+
+    if (insertError || !message) {
+      console.error("Message insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "메시지를 보내지 못했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 보낸 메시지까지 읽은 것으로 처리
+    await supabase
+      .from("conversation_members")
+      .update({ last_read_at: message.created_at })
+      .eq("conversation_id", conversationId)
+      .eq("user_id", user.id);
+
+    const sharedPostMap = await fetchSharedPostMap(
+      supabase,
+      sharedPostId ? [sharedPostId] : [],
+      blockedUserIds
+    );
+
+    return NextResponse.json(
+      { message: toMessageWithSender(message, sharedPostMap) },
+      { status: 201 }
+    );
+  }
+);
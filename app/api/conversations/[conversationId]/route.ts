@@ -0,0 +1,151 @@
+/**
+ * @file app/api/conversations/[conversationId]/route.ts
+ * @description 단일 대화방 API
+ *
+ * GET: 대화방 정보 조회 (참여자만, 메시지 요청을 삭제했으면 404)
+ * PATCH: 대화방 상태 변경 ({ action })
+ *   - accept: 메시지 요청 수락 (받은 메시지함으로 이동, 답장 가능)
+ *   - decline: 메시지 요청 삭제 (목록에서 숨김)
+ *   - read: 읽음 처리
+ *   응답에 변경 후 읽지 않은 대화 수와 메시지 요청 수 포함 (배지 갱신용)
+ *
+ * @see app/api/conversations/route.ts
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  fetchConversationMembersMap,
+  getConversationMembership,
+  getMessageCounts,
+  isBlockedDirectConversation,
+  toConversationWithDetails,
+} from "@/lib/messages";
+import { getBlockedUserIds } from "@/lib/privacy";
+
+const conversationParamsSchema = z.object({
+  conversationId: idSchema("conversationId"),
+});
+
+const updateConversationSchema = z.object({
+  action: z.enum(["accept", "decline", "read"], {
+    errorMap: () => ({ message: "올바르지 않은 요청입니다." }),
+  }),
+});
+
+/**
+ * GET /api/conversations/[conversationId]
+ * 대화방 정보 조회
+ *
+ * @param request - NextRequest 객체
+ * @param params - 경로 파라미터 (conversationId)
+ * @returns 대화방 정보 (ConversationWithDetails) 및 현재 사용자 ID
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/conversations/[conversationId]",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    params: conversationParamsSchema,
+  },
+  async ({ user, supabase, params: { conversationId } }) => {
+    // 1. 대화방 조회 (참여 중인 대화방만)
+    const { data: row } = await supabase
+      .from("conversation_member_stats")
+      .select("*")
+      .eq("conversation_id", conversationId)
+      .eq("user_id", user.id)
+      .neq("status", "declined")
+      .maybeSingle();
+
+    if (!row) {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    const membersMap = await fetchConversationMembersMap(supabase, [conversationId]);
+    const conversation = toConversationWithDetails(
+      row,
+      membersMap.get(conversationId) || [],
+      user.id
+    );
+
+    // 차단 관계인 사용자와의 1:1 대화방은 표시하지 않음
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    if (isBlockedDirectConversation(conversation, blockedUserIds)) {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    return NextResponse.json({ conversation, currentUserId: user.id });
+  }
+);
+
+/**
+ * PATCH /api/conversations/[conversationId]
+ * 메시지 요청 수락/삭제 및 읽음 처리
+ *
+ * @param request - NextRequest 객체 (JSON body: { action: "accept" | "decline" | "read" })
+ * @param params - 경로 파라미터 (conversationId)
+ * @returns 변경 후 참여 상태, 읽지 않은 대화 수, 메시지 요청 수
+ */
+export const PATCH = apiHandler(
+  {
+    name: "PATCH /api/conversations/[conversationId]",
+    errorMessage: "요청을 처리하지 못했습니다. 잠시 후 다시 시도해주세요.",
+    params: conversationParamsSchema,
+    body: updateConversationSchema,
+  },
+  async ({ user, supabase, params: { conversationId }, body: { action } }) => {
+    // 1. 참여 정보 확인
+    const membership = await getConversationMembership(
+      supabase,
+      conversationId,
+      user.id
+    );
+
+    if (!membership || membership.status === "declined") {
+      throw new ApiError("NOT_FOUND", "대화방을 찾을 수 없습니다.");
+    }
+
+    if (action !== "read" && membership.status !== "pending") {
+      throw new ApiError("CONFLICT", "이미 처리된 메시지 요청입니다.");
+    }
+
+    // 2. 상태 변경 (수락하면 지금까지의 메시지를 읽은 것으로 처리)
+    const now = new Date().toISOString();
+    const updates =
+      action === "read"
+        ? { last_read_at: now }
+        : action === "accept"
+          ? { status: "accepted", last_read_at: now }
+          : { status: "declined" };
+
+    const { error: updateError } = await supabase
+      .from("conversation_members")
+      .update(updates)
+      .eq("conversation_id", conversationId)
+      .eq("user_id", user.id);
+
+    if (updateError) {
+      console.error("Conversation member update error:", updateError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "요청을 처리하지 못했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    const { unreadCount, requestsCount } = await getMessageCounts(
+      supabase,
+      user.id,
+      blockedUserIds
+    );
+
+    return NextResponse.json({
+      success: true,
+      status: "status" in updates ? updates.status : membership.status,
+      unreadCount,
+      requestsCount,
+    });
+  }
+);
@@ -0,0 +1,310 @@
+/**
+ * @file app/api/conversations/route.ts
+ * @description 대화방(Direct Message) API
+ *
+ * GET: 현재 사용자의 대화 목록 (마지막 메시지 최신순, 커서 기반 페이지네이션)
+ *   - folder=inbox(기본값): 받은 메시지함, folder=requests: 메시지 요청함
+ *   - countOnly=true: 읽지 않은 대화 수와 메시지 요청 수만 조회 (배지용)
+ *   - 차단 관계인 사용자와의 1:1 대화방은 제외
+ * POST: 대화방 생성 ({ userIds: string[], title?: string })
+ *   - 1명이면 1:1 대화방 (이미 있으면 기존 대화방 반환), 2명 이상이면 그룹 대화방
+ *   - 대화를 시작한 사람을 팔로우하지 않는 참여자에게는 메시지 요청으로 표시
+ *   - 차단 관계인 사용자, 정지된 계정은 초대할 수 없음
+ *
+ * 메시지 조회/전송은 /api/conversations/[conversationId]/messages에서 처리합니다.
+ *
+ * @see supabase/migrations/20250105000010_create_messages_tables.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import {
+  fetchConversationMembersMap,
+  getDirectKey,
+  getInitialMemberStatus,
+  getMessageCounts,
+  isBlockedDirectConversation,
+  MAX_CONVERSATION_TITLE_LENGTH,
+  MAX_GROUP_MEMBERS,
+  toConversationWithDetails,
+} from "@/lib/messages";
+import { getBlockedUserIds } from "@/lib/privacy";
+import type { ConversationFolder } from "@/lib/types";
+
+const USER_IDS_MESSAGE = "userIds가 필요합니다.";
+
+const createConversationSchema = z.object({
+  userIds: z
+    .array(z.string(), {
+      required_error: USER_IDS_MESSAGE,
+      invalid_type_error: USER_IDS_MESSAGE,
+    })
+    .min(1, USER_IDS_MESSAGE),
+  title: z
+    .string()
+    .trim()
+    .max(
+      MAX_CONVERSATION_TITLE_LENGTH,
+      `대화방 이름은 ${MAX_CONVERSATION_TITLE_LENGTH}자 이하여야 합니다.`
+    )
+    .nullish()
+    .transform((title) => title || null),
+});
+
+// 대화 목록 정렬 기준 (마지막 메시지 시각, 대화방 ID)
+const CURSOR_OPTIONS = {
+  createdAtColumn: "last_message_at",
+  idColumn: "conversation_id",
+};
+
+/**
+ * GET /api/conversations
+ * 대화 목록 조회
+ *
+ * @param request - NextRequest 객체
+ * @returns 대화 목록, 현재 사용자 ID, 읽지 않은 대화 수, 메시지 요청 수 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/conversations",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  async ({ user, supabase, request }) => {
+    // 1. 쿼리 파라미터 파싱
+    const searchParams = request.nextUrl.searchParams;
+    const countOnly = searchParams.get("countOnly") === "true";
+    const folder: ConversationFolder =
+      searchParams.get("folder") === "requests" ? "requests" : "inbox";
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 20);
+
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    const { unreadCount, requestsCount } = await getMessageCounts(
+      supabase,
+      user.id,
+      blockedUserIds
+    );
+
+    if (countOnly) {
+      return NextResponse.json({ unreadCount, requestsCount });
+    }
+
+    // 2. 대화 목록 조회
+    // 메시지 요청함은 메시지가 있는 대화만, 받은 메시지함은 본인이 만든 빈 대화방도 표시
+    let query = orderByCursor(
+      supabase
+        .from("conversation_member_stats")
+        .select("*")
+        .eq("user_id", user.id)
+        .eq("status", folder === "requests" ? "pending" : "accepted"),
+      CURSOR_OPTIONS
+    );
+
+    query =
+      folder === "requests"
+        ? query.not("last_message_id", "is", null)
+        : query.or(`last_message_id.not.is.null,created_by.eq.${user.id}`);
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor, CURSOR_OPTIONS).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: conversationsError } = await query;
+
+    if (conversationsError) {
+      console.error("Conversations query error:", conversationsError);
+      throw new ApiError("INTERNAL_ERROR", "대화 목록을 불러오는데 실패했습니다.", {
+        details: conversationsError.message,
+      });
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (row) => ({
+      createdAt: row.last_message_at,
+      id: row.conversation_id,
+    }));
+
+    // 3. 참여자 조회 및 ConversationWithDetails 형식으로 변환
+    const membersMap = await fetchConversationMembersMap(
+      supabase,
+      items.map((row) => row.conversation_id)
+    );
+
+    const conversations = items
+      .map((row) =>
+        toConversationWithDetails(row, membersMap.get(row.conversation_id) || [], user.id)
+      )
+      .filter(
+        (conversation) => !isBlockedDirectConversation(conversation, blockedUserIds)
+      );
+
+    return NextResponse.json({
+      conversations,
+      currentUserId: user.id,
+      unreadCount,
+      requestsCount,
+      hasMore,
+      nextCursor,
+    });
+  }
+);
+
+/**
+ * POST /api/conversations
+ * 대화방 생성 (1:1 대화방은 기존 대화방이 있으면 재사용)
+ *
+ * @param request - NextRequest 객체 (JSON body: { userIds: string[], title?: string })
+ * @returns 대화방 ID (새로 만들면 201, 기존 1:1 대화방이면 200)
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/conversations",
+    errorMessage: "대화방을 만들지 못했습니다. 잠시 후 다시 시도해주세요.",
+    body: createConversationSchema,
+  },
+  async ({ user, supabase, body: { userIds, title } }) => {
+    // 1. 정지된 계정은 메시지를 보낼 수 없음
+    if (user.is_suspended) {
+      throw new ApiError(
+        "ACCOUNT_SUSPENDED",
+        "정지된 계정은 메시지를 보낼 수 없습니다."
+      );
+    }
+
+    // 2. 참여자 검증 (본인 제외, 중복 제거, 최대 인원)
+    const memberIds: string[] = [
+      ...new Set(userIds.filter((id) => id !== user.id)),
+    ];
+
+    if (memberIds.length === 0) {
+      throw new ApiError(
+        "BAD_REQUEST",
+        "자기 자신에게는 메시지를 보낼 수 없습니다."
+      );
+    }
+
+    if (memberIds.length > MAX_GROUP_MEMBERS - 1) {
+      throw new ApiError(
+        "BAD_REQUEST",
+        `그룹 대화방은 최대 ${MAX_GROUP_MEMBERS}명까지 참여할 수 있습니다.`
+      );
+    }
+
+    const { data: members, error: membersError } = await supabase
+      .from("users")
+      .select("id")
+      .in("id", memberIds)
+      .eq("is_suspended", false);
+
+    if (membersError || (members || []).length !== memberIds.length) {
+      if (membersError) console.error("Members lookup error:", membersError);
+      throw new ApiError("NOT_FOUND", "사용자를 찾을 수 없습니다.");
+    }
+
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    if (memberIds.some((id) => blockedUserIds.includes(id))) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "메시지를 보낼 수 없는 사용자가 포함되어 있습니다."
+      );
+    }
+
+    // 3. 1:1 대화방은 기존 대화방 재사용
+    const isGroup = memberIds.length > 1;
+    const directKey = isGroup ? null : getDirectKey(user.id, memberIds[0]);
+
+    if (directKey) {
+      const { data: existing } = await supabase
+        .from("conversations")
+        .select("id")
+        .eq("direct_key", directKey)
+        .maybeSingle();
+
+      if (existing) {
+        // 이전에 삭제한 메시지 요청이면 본인이 다시 대화를 시작하므로 받은 메시지함으로 복원
+        const { error: restoreError } = await supabase
+          .from("conversation_members")
+          .update({ status: "accepted" })
+          .eq("conversation_id", existing.id)
+          .eq("user_id", user.id)
+          .eq("status", "declined");
+
+        if (restoreError) {
+          console.error("Conversation member restore error:", restoreError);
+        }
+
+        return NextResponse.json({ conversationId: existing.id });
+      }
+    }
+
+    // 4. 대화방 생성
+    const { data: conversation, error: insertError } = await supabase
+      .from("conversations")
+      .insert({
+        is_group: isGroup,
+        title: isGroup ? title : null,
+        direct_key: directKey,
+        created_by: user.id,
+      })
+      .select("id")
+      .single();
+
+    if (insertError || !conversation) {
+      // 동시에 같은 1:1 대화방을 만든 경우 (UNIQUE 제약조건 위반)
+      if (insertError?.code === "23505" && directKey) {
+        const { data: existing } = await supabase
+          .from("conversations")
+          .select("id")
+          .eq("direct_key", directKey)
+          .single();
+
+        if (existing) {
+          return NextResponse.json({ conversationId: existing.id });
+        }
+      }
+
+      console.error("Conversation insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "대화방을 만들지 못했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 5. 참여자 추가 (본인을 팔로우하지 않는 참여자는 메시지 요청)
+    const memberRows = [
+      { conversation_id: conversation.id, user_id: user.id, status: "accepted" },
+      ...(await Promise.all(
+        memberIds.map(async (memberId) => ({
+          conversation_id: conversation.id,
+          user_id: memberId,
+          status: await getInitialMemberStatus(supabase, user.id, memberId),
+        }))
+      )),
+    ];
+
+    const { error: membersInsertError } = await supabase
+      .from("conversation_members")
+      .insert(memberRows);
+
+    if (membersInsertError) {
+      console.error("Conversation members insert error:", membersInsertError);
+
+      // 참여자 저장 실패 시 대화방도 롤백
+      await supabase.from("conversations").delete().eq("id", conversation.id);
+
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "대화방을 만들지 못했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ conversationId: conversation.id }, { status: 201 });
+  }
+);
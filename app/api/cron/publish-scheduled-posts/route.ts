@@ -0,0 +1,61 @@
+/**
+ * @file app/api/cron/publish-scheduled-posts/route.ts
+ * @description 예약 게시물 공개 처리 API (예약 작업용)
+ *
+ * GET/POST: 예약 시각이 지난 게시물을 공개 처리하고 처리한 개수 보고
+ * - Authorization: Bearer <CRON_SECRET> 헤더 필요 (환경 변수가 없으면 비활성화)
+ * - GET은 Vercel Cron 호출용 (Vercel은 CRON_SECRET을 Authorization 헤더로 전달)
+ * - vercel.json의 crons 설정으로 1분마다 호출합니다.
+ *
+ * 공개 처리는 게시물마다 UPDATE와 해시태그/멘션 동기화를 실행하므로
+ * 게시물 목록 조회(GET /api/posts)가 아닌 이 예약 작업에서만 실행합니다.
+ *
+ * @example
+ * ```bash
+ * curl -X POST -H "Authorization: Bearer $CRON_SECRET" \
+ *   "https://example.com/api/cron/publish-scheduled-posts"
+ * ```
+ *
+ * @see lib/post-publishing.ts
+ */
+
+import { NextResponse } from "next/server";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { assertCronAuthorized } from "@/lib/cron-auth";
+import { publishDueScheduledPosts } from "@/lib/post-publishing";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/**
+ * 예약 시각이 지난 게시물 공개 처리
+ *
+ * Clerk 로그인 대신 CRON_SECRET으로 검증합니다. (auth: "none")
+ *
+ * @param request - NextRequest 객체
+ * @returns 공개 처리한 게시물 수
+ */
+const handlePublish = apiHandler(
+  {
+    name: "Publish scheduled posts",
+    errorMessage: "예약 게시물 공개 처리에 실패했습니다.",
+    auth: "none",
+  },
+  async ({ request }) => {
+    // 1. 비밀 값 검증
+    assertCronAuthorized(request, "예약 게시 작업이 설정되지 않았습니다.");
+
+    // 2. 공개 처리 실행
+    const published = await publishDueScheduledPosts(getServiceRoleClient());
+
+    if (published > 0) {
+      console.log("Scheduled posts published:", published);
+    }
+
+    return NextResponse.json({ published });
+  }
+);
+
+export const GET = handlePublish;
+export const POST = handlePublish;
@@ -0,0 +1,95 @@
+/**
+ * @file app/api/cron/storage-cleanup/route.ts
+ * @description 참조되지 않는 Storage 파일 정리 API (예약 작업용)
+ *
+ * GET/POST: posts 버킷에서 어떤 게시물도 참조하지 않는 파일을 삭제하고 결과 보고
+ * - Authorization: Bearer <CRON_SECRET> 헤더 필요 (환경 변수가 없으면 비활성화)
+ * - dryRun=true: 삭제하지 않고 삭제 대상만 보고
+ * - graceHours: 업로드 후 유예 기간 (기본값 24시간, 최소 1시간)
+ * - GET은 Vercel Cron 호출용 (Vercel은 CRON_SECRET을 Authorization 헤더로 전달)
+ *
+ * @example
+ * ```bash
+ * curl -X POST -H "Authorization: Bearer $CRON_SECRET" \
+ *   "https://example.com/api/cron/storage-cleanup?dryRun=true"
+ * ```
+ *
+ * @see lib/storage-cleanup.ts
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { assertCronAuthorized } from "@/lib/cron-auth";
+import {
+  cleanupOrphanedPostFiles,
+  DEFAULT_CLEANUP_GRACE_HOURS,
+} from "@/lib/storage-cleanup";
+
+// 유예 기간 최소값 (업로드 직후 저장 전인 파일 보호)
+const MIN_GRACE_HOURS = 1;
+
+const GRACE_HOURS_MESSAGE = `유예 기간은 ${MIN_GRACE_HOURS}시간 이상이어야 합니다.`;
+
+const cleanupQuerySchema = z.object({
+  dryRun: z
+    .string()
+    .optional()
+    .transform((value) => ["true", "1"].includes(value || "")),
+  graceHours: z.coerce
+    .number({ invalid_type_error: GRACE_HOURS_MESSAGE })
+    .finite(GRACE_HOURS_MESSAGE)
+    .min(MIN_GRACE_HOURS, GRACE_HOURS_MESSAGE)
+    .default(DEFAULT_CLEANUP_GRACE_HOURS),
+});
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+export const dynamic = "force-dynamic";
+
+/**
+ * 참조되지 않는 Storage 파일 정리
+ *
+ * Clerk 로그인 대신 CRON_SECRET으로 검증합니다. (auth: "none")
+ *
+ * @param request - NextRequest 객체 (dryRun, graceHours)
+ * @returns 정리 결과 보고 (StorageCleanupReport)
+ */
+const handleCleanup = apiHandler(
+  {
+    name: "Storage cleanup",
+    errorMessage: "Storage 정리에 실패했습니다.",
+    auth: "none",
+    query: cleanupQuerySchema,
+  },
+  async ({ request, query: { dryRun, graceHours } }) => {
+    // 1. 비밀 값 검증
+    assertCronAuthorized(request, "정리 작업이 설정되지 않았습니다.");
+
+    // 2. 정리 실행
+    const report = await cleanupOrphanedPostFiles(getServiceRoleClient(), {
+      dryRun,
+      graceHours,
+    }).catch((error) => {
+      console.error("Storage cleanup error:", error);
+      throw new ApiError("INTERNAL_ERROR", "Storage 정리에 실패했습니다.", {
+        details: error instanceof Error ? error.message : undefined,
+      });
+    });
+
+    console.log("Storage cleanup:", {
+      dryRun: report.dryRun,
+      scanned: report.scanned,
+      orphaned: report.orphaned.length,
+      removed: report.removed.length,
+      failed: report.failed.length,
+    });
+
+    return NextResponse.json(report);
+  }
+);
+
+export const GET = handleCleanup;
+export const POST = handleCleanup;
@@ -0,0 +1,191 @@
+/**
+ * @file app/api/follow-requests/route.ts
+ * @description 팔로우 요청 API (비공개 계정)
+ *
+ * GET: 현재 사용자가 받은 팔로우 요청 목록 (최신순, 커서 기반 페이지네이션)
+ * PATCH: 팔로우 요청 승인/거절 ({ requestId: string, action: "approve" | "deny" })
+ *   - approve: follows에 추가 후 요청 삭제, 팔로우 알림 생성
+ *     (approve_follow_requests() RPC로 처리, 요청자 명의의 팔로우/알림은 직접 만들 수 없음)
+ *   - deny: 요청 삭제
+ *
+ * 팔로우 요청 생성/취소는 /api/follows에서 처리합니다.
+ *
+ * @see supabase/migrations/20250105000005_add_private_accounts.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import type { FollowRequestWithUser } from "@/lib/types";
+
+const respondSchema = z.object({
+  requestId: idSchema("requestId"),
+  action: z.enum(["approve", "deny"], {
+    errorMap: () => ({ message: "action은 approve 또는 deny여야 합니다." }),
+  }),
+});
+
+/**
+ * GET /api/follow-requests
+ * 받은 팔로우 요청 목록 조회
+ *
+ * @param request - NextRequest 객체
+ * @returns 팔로우 요청 목록, 전체 요청 수 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/follow-requests",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  async ({ user, supabase, request }) => {
+    const { limit, offset, cursor } = parsePaginationParams(
+      request.nextUrl.searchParams,
+      20
+    );
+
+    // 1. 팔로우 요청 조회 (요청한 사용자 JOIN)
+    let query = orderByCursor(
+      supabase
+        .from("follow_requests")
+        .select(
+          `
+          id,
+          requester_id,
+          target_id,
+          created_at,
+          requester:users!requester_id (
+            id,
+            clerk_id,
+            name,
+            username,
+            avatar_url,
+            created_at
+          )
+        `
+        )
+        .eq("target_id", user.id)
+    );
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: requestsError } = await query;
+
+    if (requestsError) {
+      console.error("Follow requests query error:", requestsError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "팔로우 요청을 불러오는데 실패했습니다."
+      );
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (row) => ({
+      createdAt: row.created_at,
+      id: row.id,
+    }));
+
+    // 2. 전체 요청 수 조회 (요청함 헤더 표시용)
+    const { count: totalCount, error: countError } = await supabase
+      .from("follow_requests")
+      .select("id", { count: "exact", head: true })
+      .eq("target_id", user.id);
+
+    if (countError) {
+      console.error("Follow requests count error:", countError);
+    }
+
+    const requests: FollowRequestWithUser[] = items
+      .filter((row: any) => row.requester) // 탈퇴한 사용자의 요청 제외
+      .map((row: any) => ({
+        id: row.id,
+        requester_id: row.requester_id,
+        target_id: row.target_id,
+        created_at: row.created_at,
+        requester: Array.isArray(row.requester) ? row.requester[0] : row.requester,
+      }));
+
+    return NextResponse.json({
+      requests,
+      totalCount: totalCount || 0,
+      hasMore,
+      nextCursor,
+    });
+  }
+);
+
+/**
+ * PATCH /api/follow-requests
+ * 팔로우 요청 승인/거절
+ *
+ * @param request - NextRequest 객체 (JSON body: { requestId: string, action: "approve" | "deny" })
+ * @returns 성공 메시지
+ */
+export const PATCH = apiHandler(
+  {
+    name: "PATCH /api/follow-requests",
+    errorMessage: "팔로우 요청 처리에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: respondSchema,
+  },
+  async ({ user, supabase, body: { requestId, action } }) => {
+    // 1. 본인이 받은 요청인지 확인
+    const { data: followRequest, error: requestError } = await supabase
+      .from("follow_requests")
+      .select("id, requester_id, target_id")
+      .eq("id", requestId)
+      .single();
+
+    if (requestError || !followRequest) {
+      throw new ApiError("NOT_FOUND", "팔로우 요청을 찾을 수 없습니다.");
+    }
+
+    if (followRequest.target_id !== user.id) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "본인이 받은 팔로우 요청만 처리할 수 있습니다."
+      );
+    }
+
+    // 2. 승인: follows 추가, 요청 삭제, 팔로우 알림 생성 (이미 팔로우 중이면 요청만 삭제)
+    if (action === "approve") {
+      const { error: approveError } = await supabase.rpc(
+        "approve_follow_requests",
+        { target_request_ids: [followRequest.id] }
+      );
+
+      if (approveError) {
+        console.error("Follow request approve error:", approveError);
+        throw new ApiError(
+          "INTERNAL_ERROR",
+          "팔로우 요청 승인에 실패했습니다. 잠시 후 다시 시도해주세요."
+        );
+      }
+
+      return NextResponse.json({ success: true });
+    }
+
+    // 3. 거절: 요청 삭제
+    const { error: deleteError } = await supabase
+      .from("follow_requests")
+      .delete()
+      .eq("id", followRequest.id);
+
+    if (deleteError) {
+      console.error("Follow request delete error:", deleteError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "팔로우 요청 처리에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -2,82 +2,141 @@
  * @file app/api/follows/route.ts
  * @description 팔로우 API
  *
- * POST: 팔로우 추가
- * DELETE: 팔로우 제거
+ * POST: 팔로우 추가 (비공개 계정이면 팔로우 요청 생성, 차단 관계면 불가)
+ * DELETE: 팔로우 제거 또는 팔로우 요청 취소
+ *
+ * 요청 횟수 제한 외에 같은 사용자를 반복해서 팔로우/취소하거나
+ * 하루 팔로우 수를 넘으면 429를 반환합니다. (lib/rate-limit.ts)
  *
  * @see docs/PRD.md
  * @see docs/TODO.md
  * @see supabase/migrations/DB.sql
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { createNotification, deleteNotifications } from "@/lib/notifications";
+import { isBlockedBetween } from "@/lib/privacy";
+import {
+  DAILY_FOLLOW_LIMIT,
+  FOLLOW_CHURN_LIMIT,
+  hitRateLimit,
+  rateLimitError,
+} from "@/lib/rate-limit";
+
+const followSchema = z.object({
+  followingId: idSchema("followingId"),
+});
 
 /**
  * POST /api/follows
  * 팔로우 추가
  *
  * @param request - NextRequest 객체 (body: { followingId: string })
- * @returns 성공 메시지
+ * @returns 성공 메시지 및 팔로우 상태 (status: "following" | "requested")
  */
-export async function POST(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
+export const POST = apiHandler(
+  {
+    name: "POST /api/follows",
+    errorMessage: "팔로우에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "follow",
+    body: followSchema,
+  },
+  async ({ clerkUserId, user: currentUser, supabase, body: { followingId } }) => {
+    // 1. 자기 자신 팔로우 방지
+    if (currentUser.id === followingId) {
+      throw new ApiError("BAD_REQUEST", "자기 자신을 팔로우할 수 없습니다.");
     }
 
-    // 2. 요청 본문 파싱
-    const body = await request.json();
-    const { followingId } = body;
+    // 2. 팔로우 대상 사용자 존재 확인 (차단 관계면 찾을 수 없음으로 처리)
+    const { data: followingUser, error: followingUserError } = await supabase
+      .from("users")
+      .select("id, is_private")
+      .eq("id", followingId)
+      .single();
 
-    if (!followingId || typeof followingId !== "string") {
-      return NextResponse.json(
-        { error: "followingId가 필요합니다." },
-        { status: 400 }
-      );
+    if (
+      followingUserError ||
+      !followingUser ||
+      (await isBlockedBetween(supabase, currentUser.id, followingId))
+    ) {
+      throw new ApiError("NOT_FOUND", "팔로우할 사용자를 찾을 수 없습니다.");
     }
 
-    const supabase = await createClient();
-
-    // 3. 현재 사용자의 Supabase user ID 조회
-    const { data: currentUser, error: currentUserError } = await supabase
-      .from("users")
+    // 3. 이미 팔로우 중이거나 팔로우를 요청했는지 확인
+    const { data: existingFollow } = await supabase
+      .from("follows")
       .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
+      .eq("follower_id", currentUser.id)
+      .eq("following_id", followingId)
+      .maybeSingle();
 
-    if (currentUserError || !currentUser) {
-      return NextResponse.json(
-        { error: "사용자 정보를 찾을 수 없습니다." },
-        { status: 404 }
+    if (existingFollow) {
+      throw new ApiError("CONFLICT", "이미 팔로우 중입니다.");
+    }
+
+    if (followingUser.is_private) {
+      const { data: existingRequest } = await supabase
+        .from("follow_requests")
+        .select("id")
+        .eq("requester_id", currentUser.id)
+        .eq("target_id", followingId)
+        .maybeSingle();
+
+      if (existingRequest) {
+        throw new ApiError("CONFLICT", "이미 팔로우를 요청했습니다.");
+      }
+    }
+
+    // 4. 스팸 방지 (같은 사용자 팔로우/취소 반복, 하루 팔로우 수)
+    // 실패할 요청이 예산을 소모하지 않도록 확인을 모두 마친 뒤 기록
+    const churn = await hitRateLimit(
+      `follow-churn:${clerkUserId}:${followingId}`,
+      FOLLOW_CHURN_LIMIT
+    );
+    if (!churn.allowed) {
+      throw rateLimitError(
+        churn,
+        "같은 사용자를 너무 자주 팔로우하거나 취소했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    // 4. 자기 자신 팔로우 방지
-    if (currentUser.id === followingId) {
-      return NextResponse.json(
-        { error: "자기 자신을 팔로우할 수 없습니다." },
-        { status: 400 }
+    const dailyFollows = await hitRateLimit(`follow-daily:${clerkUserId}`, DAILY_FOLLOW_LIMIT);
+    if (!dailyFollows.allowed) {
+      throw rateLimitError(
+        dailyFollows,
+        "오늘 팔로우할 수 있는 횟수를 초과했습니다. 내일 다시 시도해주세요."
       );
     }
 
-    // 5. 팔로우 대상 사용자 존재 확인
-    const { data: followingUser, error: followingUserError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("id", followingId)
-      .single();
+    // 5. 비공개 계정: 팔로우 요청 생성 (승인 후 팔로우)
+    if (followingUser.is_private) {
+      const { data: followRequest, error: requestError } = await supabase
+        .from("follow_requests")
+        .insert({
+          requester_id: currentUser.id,
+          target_id: followingId,
+        })
+        .select()
+        .single();
+
+      if (requestError) {
+        if (requestError.code === "23505") {
+          throw new ApiError("CONFLICT", "이미 팔로우를 요청했습니다.");
+        }
+
+        console.error("Follow request insert error:", requestError);
+        throw new ApiError(
+          "INTERNAL_ERROR",
+          "팔로우 요청에 실패했습니다. 잠시 후 다시 시도해주세요."
+        );
+      }
 
-    if (followingUserError || !followingUser) {
       return NextResponse.json(
-        { error: "팔로우할 사용자를 찾을 수 없습니다." },
-        { status: 404 }
+        { success: true, status: "requested", followRequest },
+        { status: 201 }
       );
     }
 
@@ -94,80 +153,58 @@ export async function POST(request: NextRequest) {
     if (insertError) {
       // 중복 팔로우 시도 (UNIQUE 제약조건 위반)
       if (insertError.code === "23505") {
-        return NextResponse.json(
-          { error: "이미 팔로우 중입니다." },
-          { status: 409 }
-        );
+        throw new ApiError("CONFLICT", "이미 팔로우 중입니다.");
       }
 
       console.error("Follow insert error:", insertError);
-      return NextResponse.json(
-        { error: "팔로우에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "팔로우에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
+    // 7. 팔로우 대상에게 알림
+    await createNotification({
+      recipientId: followingId,
+      actorId: currentUser.id,
+      type: "follow",
+    });
+
     return NextResponse.json(
-      { success: true, follow },
+      { success: true, status: "following", follow },
       { status: 201 }
     );
-  } catch (error) {
-    console.error("POST /api/follows error:", error);
-    return NextResponse.json(
-      {
-        error: "팔로우에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/follows
- * 팔로우 제거
+ * 팔로우 제거 (대기 중인 팔로우 요청도 함께 취소)
  *
  * @param request - NextRequest 객체 (query: { followingId: string })
  * @returns 성공 메시지
  */
-export async function DELETE(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    // 2. 쿼리 파라미터 파싱
-    const searchParams = request.nextUrl.searchParams;
-    const followingId = searchParams.get("followingId");
-
-    if (!followingId) {
-      return NextResponse.json(
-        { error: "followingId가 필요합니다." },
-        { status: 400 }
-      );
-    }
-
-    const supabase = await createClient();
-
-    // 3. 현재 사용자의 Supabase user ID 조회
-    const { data: currentUser, error: currentUserError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (currentUserError || !currentUser) {
-      return NextResponse.json(
-        { error: "사용자 정보를 찾을 수 없습니다." },
-        { status: 404 }
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/follows",
+    errorMessage: "팔로우 취소에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "follow",
+    query: followSchema,
+  },
+  async ({ clerkUserId, user: currentUser, supabase, query: { followingId } }) => {
+    // 스팸 방지 (같은 사용자 팔로우/취소 반복)
+    const churn = await hitRateLimit(
+      `follow-churn:${clerkUserId}:${followingId}`,
+      FOLLOW_CHURN_LIMIT
+    );
+    if (!churn.allowed) {
+      throw rateLimitError(
+        churn,
+        "같은 사용자를 너무 자주 팔로우하거나 취소했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    // 4. follows 테이블에서 DELETE
+    // 1. follows 테이블에서 DELETE
     const { error: deleteError } = await supabase
       .from("follows")
       .delete()
@@ -176,21 +213,35 @@ export async function DELETE(request: NextRequest) {
 
     if (deleteError) {
       console.error("Follow delete error:", deleteError);
-      return NextResponse.json(
-        { error: "팔로우 취소에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "팔로우 취소에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
+    // 2. 대기 중인 팔로우 요청 취소
+    const { error: requestDeleteError } = await supabase
+      .from("follow_requests")
+      .delete()
+      .eq("requester_id", currentUser.id)
+      .eq("target_id", followingId);
+
+    if (requestDeleteError) {
+      console.error("Follow request delete error:", requestDeleteError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "팔로우 취소에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 3. 팔로우 알림 삭제
+    await deleteNotifications(supabase, {
+      recipientId: followingId,
+      actorId: currentUser.id,
+      type: "follow",
+    });
+
     return NextResponse.json({ success: true });
-  } catch (error) {
-    console.error("DELETE /api/follows error:", error);
-    return NextResponse.json(
-      {
-        error: "팔로우 취소에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
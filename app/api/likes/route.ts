@@ -2,16 +2,26 @@
  * @file app/api/likes/route.ts
  * @description 좋아요 API
  *
- * POST: 좋아요 추가
+ * POST: 좋아요 추가 (숨김 게시물, 차단 관계인 사용자의 게시물에는 불가)
  * DELETE: 좋아요 제거
+ * GET: 현재 사용자의 좋아요 여부 확인
+ * - 추가/제거 모두 사용자/IP별 요청 횟수 제한 (429)
  *
  * @see docs/PRD.md
  * @see supabase/migrations/DB.sql
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { getVisiblePostAuthorId } from "@/lib/moderation";
+import { createNotification, deleteNotifications } from "@/lib/notifications";
+import { isBlockedBetween } from "@/lib/privacy";
+
+const likeSchema = z.object({
+  postId: idSchema("postId"),
+});
 
 /**
  * POST /api/likes
@@ -20,47 +30,25 @@ import { createClient } from "@/utils/supabase/server";
  * @param request - NextRequest 객체 (JSON body: { postId: string })
  * @returns 좋아요 정보
  */
-export async function POST(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    // 2. 요청 본문 파싱
-    const body = await request.json();
-    const { postId } = body;
-
-    if (!postId) {
-      return NextResponse.json(
-        { error: "postId가 필요합니다." },
-        { status: 400 }
-      );
+export const POST = apiHandler(
+  {
+    name: "POST /api/likes",
+    errorMessage: "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "like",
+    body: likeSchema,
+  },
+  async ({ user, supabase, body: { postId } }) => {
+    // 1. 게시물 확인 (숨김 게시물, 차단 관계인 사용자의 게시물은 찾을 수 없음으로 처리)
+    const postAuthorId = await getVisiblePostAuthorId(supabase, postId);
+
+    if (
+      !postAuthorId ||
+      (await isBlockedBetween(supabase, user.id, postAuthorId))
+    ) {
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
     }
 
-    // 3. Clerk User ID로 Supabase User ID 조회
-    const supabase = await createClient();
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      console.error("User lookup error:", userError);
-      return NextResponse.json(
-        {
-          error: "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요.",
-        },
-        { status: 404 }
-      );
-    }
-
-    // 4. 좋아요 추가 (UNIQUE 제약조건으로 중복 방지)
+    // 2. 좋아요 추가 (UNIQUE 제약조건으로 중복 방지)
     const { data: like, error: insertError } = await supabase
       .from("likes")
       .insert({
@@ -74,30 +62,27 @@ export async function POST(request: NextRequest) {
     if (insertError) {
       // UNIQUE 제약조건 위반 (23505 = unique_violation)
       if (insertError.code === "23505") {
-        return NextResponse.json(
-          { error: "이미 좋아요를 누른 게시물입니다." },
-          { status: 409 }
-        );
+        throw new ApiError("CONFLICT", "이미 좋아요를 누른 게시물입니다.");
       }
 
       console.error("Like insert error:", insertError);
-      return NextResponse.json(
-        { error: "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
+    // 3. 게시물 작성자에게 알림
+    await createNotification({
+      recipientId: postAuthorId,
+      actorId: user.id,
+      type: "like",
+      postId,
+    });
+
     return NextResponse.json(like, { status: 201 });
-  } catch (error) {
-    console.error("POST /api/likes error:", error);
-    return NextResponse.json(
-      {
-        error: "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/likes
@@ -106,47 +91,15 @@ export async function POST(request: NextRequest) {
  * @param request - NextRequest 객체 (query params: postId)
  * @returns 성공 메시지
  */
-export async function DELETE(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    // 2. 쿼리 파라미터 파싱
-    const searchParams = request.nextUrl.searchParams;
-    const postId = searchParams.get("postId");
-
-    if (!postId) {
-      return NextResponse.json(
-        { error: "postId 파라미터가 필요합니다." },
-        { status: 400 }
-      );
-    }
-
-    // 3. Clerk User ID로 Supabase User ID 조회
-    const supabase = await createClient();
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      console.error("User lookup error:", userError);
-      return NextResponse.json(
-        {
-          error: "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요.",
-        },
-        { status: 404 }
-      );
-    }
-
-    // 4. 좋아요 제거
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/likes",
+    errorMessage: "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "like",
+    query: likeSchema,
+  },
+  async ({ user, supabase, query: { postId } }) => {
+    // 1. 좋아요 제거
     const { error: deleteError } = await supabase
       .from("likes")
       .delete()
@@ -155,21 +108,60 @@ export async function DELETE(request: NextRequest) {
 
     if (deleteError) {
       console.error("Like delete error:", deleteError);
-      return NextResponse.json(
-        { error: "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
+    // 2. 좋아요 알림 삭제
+    const { data: post } = await supabase
+      .from("posts")
+      .select("user_id")
+      .eq("id", postId)
+      .single();
+
+    if (post) {
+      await deleteNotifications(supabase, {
+        recipientId: post.user_id,
+        actorId: user.id,
+        type: "like",
+        postId,
+      });
+    }
+
     return NextResponse.json({ success: true }, { status: 200 });
-  } catch (error) {
-    console.error("DELETE /api/likes error:", error);
-    return NextResponse.json(
-      {
-        error: "좋아요 제거에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
+
+/**
+ * GET /api/likes
+ * 좋아요 여부 확인
+ *
+ * @param request - NextRequest 객체 (query params: postId)
+ * @returns 좋아요 여부 (isLiked: boolean)
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/likes",
+    errorMessage: "좋아요 상태 확인에 실패했습니다.",
+    query: likeSchema,
+  },
+  async ({ user, supabase, query: { postId } }) => {
+    // 1. 좋아요 여부 확인
+    const { data: like, error: checkError } = await supabase
+      .from("likes")
+      .select("id")
+      .eq("post_id", postId)
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (checkError) {
+      console.error("Like check error:", checkError);
+      throw new ApiError("INTERNAL_ERROR", "좋아요 상태 확인에 실패했습니다.");
+    }
+
+    return NextResponse.json({ isLiked: !!like });
+  }
+);
@@ -0,0 +1,114 @@
+/**
+ * @file app/api/mutes/route.ts
+ * @description 음소거 API
+ *
+ * POST: 사용자 음소거
+ * DELETE: 음소거 해제
+ *
+ * 음소거한 사용자의 게시물은 내 피드에서만 제외되며,
+ * 상대방에게는 음소거 여부가 알려지지 않습니다. (lib/privacy.ts 참고)
+ *
+ * @see supabase/migrations/20250105000006_create_blocks_and_mutes_tables.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+
+const muteSchema = z.object({
+  userId: idSchema("userId"),
+});
+
+/**
+ * POST /api/mutes
+ * 사용자 음소거
+ *
+ * @param request - NextRequest 객체 (body: { userId: string })
+ * @returns 음소거 정보
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/mutes",
+    errorMessage: "음소거에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: muteSchema,
+  },
+  async ({ user: currentUser, supabase, body: { userId } }) => {
+    // 1. 자기 자신 음소거 방지
+    if (currentUser.id === userId) {
+      throw new ApiError("BAD_REQUEST", "자기 자신을 음소거할 수 없습니다.");
+    }
+
+    // 2. 음소거 대상 사용자 존재 확인
+    const { data: targetUser, error: targetUserError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", userId)
+      .single();
+
+    if (targetUserError || !targetUser) {
+      throw new ApiError("NOT_FOUND", "음소거할 사용자를 찾을 수 없습니다.");
+    }
+
+    // 3. mutes 테이블에 INSERT
+    const { data: mute, error: insertError } = await supabase
+      .from("mutes")
+      .insert({
+        muter_id: currentUser.id,
+        muted_id: userId,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // 중복 음소거 시도 (UNIQUE 제약조건 위반)
+      if (insertError.code === "23505") {
+        throw new ApiError("CONFLICT", "이미 음소거한 사용자입니다.");
+      }
+
+      console.error("Mute insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "음소거에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, mute },
+      { status: 201 }
+    );
+  }
+);
+
+/**
+ * DELETE /api/mutes
+ * 음소거 해제
+ *
+ * @param request - NextRequest 객체 (query: { userId: string })
+ * @returns 성공 메시지
+ */
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/mutes",
+    errorMessage: "음소거 해제에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    query: muteSchema,
+  },
+  async ({ user: currentUser, supabase, query: { userId } }) => {
+    // 1. mutes 테이블에서 DELETE (본인이 한 음소거만)
+    const { error: deleteError } = await supabase
+      .from("mutes")
+      .delete()
+      .eq("muter_id", currentUser.id)
+      .eq("muted_id", userId);
+
+    if (deleteError) {
+      console.error("Mute delete error:", deleteError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "음소거 해제에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  }
+);
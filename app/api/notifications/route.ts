@@ -0,0 +1,219 @@
+/**
+ * @file app/api/notifications/route.ts
+ * @description 알림 API
+ *
+ * GET: 현재 사용자의 알림 목록 조회 (최신순, 커서 기반 페이지네이션) 및 읽지 않은 알림 수
+ *   - countOnly=true: 읽지 않은 알림 수만 조회 (배지용)
+ *   - 차단 관계인 사용자가 발생시킨 알림은 제외
+ *   - 정지된 계정이 발생시킨 알림, 숨김 처리된 게시물/댓글에 대한 알림은 제외
+ * PATCH: 알림 읽음 처리 ({ ids: string[] } 또는 { all: true })
+ *
+ * @see docs/PRD.md
+ * @see supabase/migrations/20250105000003_create_notifications_table.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { getBlockedUserIds, toInFilter } from "@/lib/privacy";
+import type { NotificationWithActor } from "@/lib/types";
+
+type SupabaseServerClient = ReturnType<typeof createClerkSupabaseClient>;
+
+const markReadSchema = z
+  .object({
+    ids: z.array(z.string(), { invalid_type_error: "ids는 배열이어야 합니다." }).optional(),
+    all: z.boolean().optional(),
+  })
+  .refine(({ ids, all }) => all === true || (ids?.length ?? 0) > 0, {
+    message: "ids 또는 all이 필요합니다.",
+  });
+
+/**
+ * 읽지 않은 알림 수 조회
+ */
+async function getUnreadCount(
+  supabase: SupabaseServerClient,
+  userId: string
+): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("recipient_id", userId)
+    .is("read_at", null);
+
+  if (error) {
+    console.error("Unread notifications count error:", error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+/**
+ * GET /api/notifications
+ * 알림 목록 조회
+ *
+ * @param request - NextRequest 객체
+ * @returns 알림 목록, 읽지 않은 알림 수 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/notifications",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  async ({ user, supabase, request }) => {
+    // 1. 쿼리 파라미터 파싱
+    const searchParams = request.nextUrl.searchParams;
+    const countOnly = searchParams.get("countOnly") === "true";
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 30);
+
+    const unreadCount = await getUnreadCount(supabase, user.id);
+
+    if (countOnly) {
+      return NextResponse.json({ unreadCount });
+    }
+
+    // 2. 알림 조회 (발생시킨 사용자, 게시물 썸네일, 댓글 내용 JOIN)
+    let query = orderByCursor(
+      supabase
+        .from("notifications")
+        .select(
+          `
+          id,
+          recipient_id,
+          actor_id,
+          type,
+          post_id,
+          comment_id,
+          read_at,
+          created_at,
+          actor:users!actor_id!inner (
+            id,
+            clerk_id,
+            name,
+            username,
+            avatar_url,
+            created_at
+          ),
+          posts (
+            image_url,
+            is_hidden
+          ),
+          comments (
+            content,
+            is_hidden
+          )
+        `
+        )
+        .eq("recipient_id", user.id)
+        .eq("actor.is_suspended", false) // 정지된 계정의 알림 제외
+    );
+
+    // 차단 관계인 사용자의 알림 제외
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+    if (blockedUserIds.length > 0) {
+      query = query.not("actor_id", "in", toInFilter(blockedUserIds));
+    }
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: notificationsError } = await query;
+
+    if (notificationsError) {
+      console.error("Notifications query error:", notificationsError);
+      throw new ApiError("INTERNAL_ERROR", "알림을 불러오는데 실패했습니다.", {
+        details: notificationsError.message,
+      });
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (row) => ({
+      createdAt: row.created_at,
+      id: row.id,
+    }));
+
+    // 3. NotificationWithActor 형식으로 변환
+    const pickOne = <T,>(value: T | T[] | null): T | null =>
+      Array.isArray(value) ? value[0] ?? null : value;
+
+    const notifications: NotificationWithActor[] = items
+      .filter((row: any) => row.actor) // 탈퇴한 사용자의 알림 제외
+      .filter(
+        // 숨김 처리된 게시물/댓글에 대한 알림 제외
+        (row: any) =>
+          !pickOne(row.posts)?.is_hidden && !pickOne(row.comments)?.is_hidden
+      )
+      .map((row: any) => ({
+        id: row.id,
+        recipient_id: row.recipient_id,
+        actor_id: row.actor_id,
+        type: row.type,
+        post_id: row.post_id,
+        comment_id: row.comment_id,
+        read_at: row.read_at,
+        created_at: row.created_at,
+        actor: pickOne(row.actor),
+        post_image_url: pickOne(row.posts)?.image_url ?? null,
+        comment_content: pickOne(row.comments)?.content ?? null,
+      }));
+
+    return NextResponse.json({
+      notifications,
+      unreadCount,
+      hasMore,
+      nextCursor,
+    });
+  }
+);
+
+/**
+ * PATCH /api/notifications
+ * 알림 읽음 처리
+ *
+ * @param request - NextRequest 객체 (JSON body: { ids: string[] } 또는 { all: true })
+ * @returns 남은 읽지 않은 알림 수
+ */
+export const PATCH = apiHandler(
+  {
+    name: "PATCH /api/notifications",
+    errorMessage: "알림 읽음 처리에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: markReadSchema,
+  },
+  async ({ user, supabase, body: { ids, all } }) => {
+    // 1. 읽음 처리 (본인 알림만)
+    let updateQuery = supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("recipient_id", user.id)
+      .is("read_at", null);
+
+    if (all !== true) {
+      updateQuery = updateQuery.in("id", ids ?? []);
+    }
+
+    const { error: updateError } = await updateQuery;
+
+    if (updateError) {
+      console.error("Notifications update error:", updateError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "알림 읽음 처리에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    const unreadCount = await getUnreadCount(supabase, user.id);
+
+    return NextResponse.json({ success: true, unreadCount });
+  }
+);
@@ -5,15 +5,62 @@
  * GET: 단일 게시물 상세 정보 조회
  * - post_stats 뷰 활용하여 좋아요 수, 댓글 수 포함
  * - users 테이블과 JOIN하여 사용자 정보 포함
+ * - post_media 테이블의 미디어 목록 및 캡션 멘션 포함
+ * - 비공개 계정의 게시물은 본인과 팔로워에게만 표시 (그 외 403)
+ * - 차단 관계인 사용자의 게시물은 404
+ *
+ * PUT: 게시물 수정 (본인만, 캡션의 해시태그/멘션 재동기화, 새로 멘션된 사용자에게 알림)
+ * - 공개 전 게시물(임시 저장/예약)은 임시 저장, 예약 시각 변경, 바로 공개 가능
+ * - 공개 전 게시물은 해시태그/멘션을 동기화하지 않음 (공개 시점에 동기화)
  *
  * @see docs/PRD.md
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
 import { getServiceRoleClient } from "@/utils/supabase/service-role";
-import type { PostWithStats, User } from "@/lib/types";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { fetchMentionMap } from "@/lib/mentions";
+import {
+  fetchPostMediaMap,
+  getMediaFileUrls,
+  getStoragePath,
+} from "@/lib/post-media";
+import {
+  isPostPublished,
+  parsePublishAt,
+  syncPublishedPost,
+} from "@/lib/post-publishing";
+import {
+  canViewUserContent,
+  getViewerId,
+  isBlockedBetween,
+} from "@/lib/privacy";
+import type { PostWithStats } from "@/lib/types";
+
+const postParamsSchema = z.object({
+  postId: idSchema("postId"),
+});
+
+// 전달된 경우에만 변경 (null 또는 빈 문자열이면 제목/캡션 삭제)
+const optionalTextSchema = z
+  .string()
+  .trim()
+  .nullable()
+  .transform((text) => text || null)
+  .optional();
+
+// 제목/캡션, 임시 저장/예약 상태(isDraft, publishAt)는 전달된 경우에만 변경
+const updatePostSchema = z.object({
+  title: optionalTextSchema,
+  caption: optionalTextSchema,
+  isDraft: z.boolean().optional(),
+  publishAt: z
+    .string({ invalid_type_error: "유효하지 않은 예약 시각입니다." })
+    .nullable()
+    .optional(),
+});
 
 /**
  * GET /api/posts/[postId]
@@ -23,14 +70,14 @@ import type { PostWithStats, User } from "@/lib/types";
  * @param params - 경로 파라미터 (postId)
  * @returns 게시물 상세 정보
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ postId: string }> }
-) {
-  try {
-    const { postId } = await params;
-    const supabase = await createClient();
-
+export const GET = apiHandler(
+  {
+    name: "GET /api/posts/[postId]",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+    params: postParamsSchema,
+  },
+  async ({ supabase, params: { postId } }) => {
     // post_stats 뷰에서 게시물 조회
     const { data: postStat, error: statsError } = await supabase
       .from("post_stats")
@@ -39,16 +86,23 @@ export async function GET(
       .single();
 
     if (statsError || !postStat) {
-      return NextResponse.json(
-        { error: "게시물을 찾을 수 없습니다." },
-        { status: 404 }
-      );
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
+    }
+
+    // 차단/비공개 계정 게시물 접근 제어
+    const viewerId = await getViewerId(supabase);
+    if (await isBlockedBetween(supabase, viewerId, postStat.user_id)) {
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
+    }
+
+    if (!(await canViewUserContent(supabase, viewerId, postStat.user_id))) {
+      throw new ApiError("PRIVATE_ACCOUNT", "비공개 계정의 게시물입니다.");
     }
 
     // 사용자 정보 조회
     const { data: user, error: userError } = await supabase
       .from("users")
-      .select("id, clerk_id, name, created_at")
+      .select("id, clerk_id, name, username, avatar_url, created_at")
       .eq("id", postStat.user_id)
       .single();
 
@@ -57,6 +111,10 @@ export async function GET(
       // 사용자 정보가 없어도 게시물은 반환
     }
 
+    // 미디어 목록 및 캡션 멘션 조회
+    const mediaMap = await fetchPostMediaMap(supabase, [postId]);
+    const mentionMap = await fetchMentionMap(supabase, "post_id", [postId]);
+
     // PostWithStats 형식으로 변환
     const post: PostWithStats = {
       id: postStat.post_id,
@@ -68,20 +126,16 @@ export async function GET(
       updated_at: postStat.created_at, // post_stats에는 updated_at이 없으므로 created_at 사용
       likes_count: Number(postStat.likes_count) || 0,
       comments_count: Number(postStat.comments_count) || 0,
+      media: mediaMap.get(postId),
+      mentions: mentionMap.get(postId),
     };
 
     return NextResponse.json({
       post,
       user: user || undefined,
     });
-  } catch (error) {
-    console.error("Post detail API error:", error);
-    return NextResponse.json(
-      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * PUT /api/posts/[postId]
@@ -91,70 +145,64 @@ export async function GET(
  * @param params - 경로 파라미터 (postId)
  * @returns 수정된 게시물 데이터
  */
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: Promise<{ postId: string }> }
-) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    const { postId } = await params;
-    const supabase = await createClient();
-
-    // 2. 게시물 조회
+export const PUT = apiHandler(
+  {
+    name: "PUT /api/posts/[postId]",
+    errorMessage: "게시물 수정에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    params: postParamsSchema,
+    body: updatePostSchema,
+  },
+  async ({ user: currentUser, supabase, params: { postId }, body }) => {
+    // 1. 게시물 조회
     const { data: post, error: postError } = await supabase
       .from("posts")
-      .select("id, user_id")
+      .select("id, user_id, is_draft, publish_at")
       .eq("id", postId)
       .single();
 
     if (postError || !post) {
-      return NextResponse.json(
-        { error: "게시물을 찾을 수 없습니다." },
-        { status: 404 }
-      );
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
     }
 
-    // 3. Clerk User ID → Supabase User ID 변환
-    const { data: currentUser, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !currentUser) {
-      return NextResponse.json(
-        { error: "사용자 정보를 찾을 수 없습니다." },
-        { status: 404 }
+    // 2. 소유권 확인 (본인만 수정 가능)
+    if (post.user_id !== currentUser.id) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 게시물만 수정할 수 있습니다."
       );
     }
 
-    // 4. 소유권 확인 (본인만 수정 가능)
-    if (post.user_id !== currentUser.id) {
-      return NextResponse.json(
-        { error: "권한이 없습니다. 본인의 게시물만 수정할 수 있습니다." },
-        { status: 403 }
+    // 3. 임시 저장/예약 상태 변경 (공개 전 게시물만)
+    const wasPublished = isPostPublished(post);
+    const changesSchedule = body.isDraft !== undefined || body.publishAt !== undefined;
+    if (wasPublished && changesSchedule) {
+      throw new ApiError(
+        "BAD_REQUEST",
+        "이미 공개된 게시물은 임시 저장하거나 예약할 수 없습니다."
       );
     }
 
-    // 5. 요청 본문 파싱
-    const body = await request.json();
-    const { title, caption } = body;
+    const isDraft = body.isDraft ?? !!post.is_draft;
+    let publishAt: string | null = isDraft ? null : post.publish_at;
+    if (!isDraft && body.publishAt !== undefined) {
+      const parsed = parsePublishAt(body.publishAt);
+      if ("error" in parsed) {
+        throw new ApiError("BAD_REQUEST", parsed.error);
+      }
+      publishAt = parsed.publishAt;
+    }
+
+    const now = new Date().toISOString();
+    const publishesNow = !wasPublished && !isDraft && !publishAt;
 
-    // 6. 게시물 업데이트
+    // 4. 게시물 업데이트
     const { data: updatedPost, error: updateError } = await supabase
       .from("posts")
       .update({
-        title: title && title.trim() ? title.trim() : null,
-        caption: caption && caption.trim() ? caption.trim() : null,
-        updated_at: new Date().toISOString(),
+        ...(body.title !== undefined && { title: body.title }),
+        ...(body.caption !== undefined && { caption: body.caption }),
+        updated_at: now,
+        ...(changesSchedule && { is_draft: isDraft, publish_at: publishAt }),
       })
       .eq("id", postId)
       .select()
@@ -168,7 +216,7 @@ export async function PUT(
         details: updateError?.details,
         hint: updateError?.hint,
       });
-      
+
       // 데이터베이스 에러 코드에 따른 구체적인 메시지
       let errorMessage = "게시물 수정에 실패했습니다. 잠시 후 다시 시도해주세요.";
       if (updateError?.code === "42703") {
@@ -176,26 +224,49 @@ export async function PUT(
       } else if (updateError?.message) {
         errorMessage = `게시물 수정 실패: ${updateError.message}`;
       }
-      
-      return NextResponse.json(
-        { error: errorMessage, details: updateError?.message },
-        { status: 500 }
-      );
+
+      throw new ApiError("INTERNAL_ERROR", errorMessage, {
+        details: updateError?.message,
+      });
+    }
+
+    // 5. 지금 공개하는 게시물은 게시 시각을 현재로 변경
+    // (created_at은 사용자가 임의로 바꿀 수 없으므로 Service Role로 변경)
+    if (publishesNow) {
+      const { error: publishError } = await getServiceRoleClient()
+        .from("posts")
+        .update({ created_at: now })
+        .eq("id", postId);
+
+      if (publishError) {
+        console.error("Post publish time update error:", publishError);
+      } else {
+        updatedPost.created_at = now;
+      }
     }
 
-    // 7. post_stats 뷰에서 업데이트된 통계 정보 조회
+    // 6. 캡션의 해시태그/멘션 재동기화 (새로 멘션된 사용자에게만 알림, 차단 관계인 사용자는 제외)
+    // 공개 전 게시물은 공개 시점에 동기화
+    const mentions = isPostPublished(updatedPost)
+      ? await syncPublishedPost(supabase, updatedPost)
+      : [];
+
+    // 7. post_stats 뷰에서 업데이트된 통계 정보 조회 (공개 전 게시물은 뷰에 없음)
     const { data: postStat, error: statsError } = await supabase
       .from("post_stats")
       .select("*")
       .eq("post_id", postId)
-      .single();
+      .maybeSingle();
 
     if (statsError) {
       console.error("Post stats query error:", statsError);
       // 통계 정보가 없어도 게시물은 반환
     }
 
-    // 8. PostWithStats 형식으로 변환
+    // 8. 미디어 목록 조회
+    const mediaMap = await fetchPostMediaMap(supabase, [postId]);
+
+    // 9. PostWithStats 형식으로 변환
     const postWithStats: PostWithStats = {
       id: updatedPost.id,
       user_id: updatedPost.user_id,
@@ -204,21 +275,17 @@ export async function PUT(
       caption: updatedPost.caption,
       created_at: updatedPost.created_at,
       updated_at: updatedPost.updated_at,
+      is_draft: updatedPost.is_draft,
+      publish_at: updatedPost.publish_at,
       likes_count: postStat ? Number(postStat.likes_count) || 0 : 0,
       comments_count: postStat ? Number(postStat.comments_count) || 0 : 0,
+      media: mediaMap.get(postId),
+      mentions,
     };
 
     return NextResponse.json(postWithStats, { status: 200 });
-  } catch (error) {
-    console.error("PUT /api/posts/[postId] error:", error);
-    return NextResponse.json(
-      {
-        error: "게시물 수정에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * DELETE /api/posts/[postId]
@@ -228,24 +295,14 @@ export async function PUT(
  * @param params - 경로 파라미터 (postId)
  * @returns 삭제 성공 메시지
  */
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: Promise<{ postId: string }> }
-) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    const { postId } = await params;
-    const supabase = await createClient();
-
-    // 2. 게시물 조회
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/posts/[postId]",
+    errorMessage: "게시물 삭제에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    params: postParamsSchema,
+  },
+  async ({ user: currentUser, supabase, params: { postId } }) => {
+    // 1. 게시물 조회
     const { data: post, error: postError } = await supabase
       .from("posts")
       .select("id, user_id, image_url")
@@ -253,53 +310,39 @@ export async function DELETE(
       .single();
 
     if (postError || !post) {
-      return NextResponse.json(
-        { error: "게시물을 찾을 수 없습니다." },
-        { status: 404 }
-      );
+      throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
     }
 
-    // 3. Clerk User ID → Supabase User ID 변환
-    const { data: currentUser, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !currentUser) {
-      return NextResponse.json(
-        { error: "사용자 정보를 찾을 수 없습니다." },
-        { status: 404 }
-      );
-    }
-
-    // 4. 소유권 확인 (본인만 삭제 가능)
+    // 2. 소유권 확인 (본인만 삭제 가능)
     if (post.user_id !== currentUser.id) {
-      return NextResponse.json(
-        { error: "권한이 없습니다. 본인의 게시물만 삭제할 수 있습니다." },
-        { status: 403 }
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 게시물만 삭제할 수 있습니다."
       );
     }
 
-    // 5. Storage에서 이미지 삭제
-    // image_url 형식: https://xxx.supabase.co/storage/v1/object/public/posts/filename.jpg
-    let fileName: string | null = null;
-    try {
-      const urlParts = post.image_url.split("/posts/");
-      if (urlParts.length > 1) {
-        fileName = urlParts[1];
-      }
-    } catch (err) {
-      console.error("Failed to extract filename from image_url:", err);
-    }
-
-    // Storage 삭제 시도 (실패해도 DB 삭제는 진행)
-    if (fileName) {
+    // 3. Storage에서 미디어 파일 삭제 (대표 이미지 + post_media 전체, WebP 변형 포함)
+    // URL 형식: https://xxx.supabase.co/storage/v1/object/public/posts/filename.jpg
+    const mediaMap = await fetchPostMediaMap(supabase, [postId]);
+    const mediaUrls = [
+      post.image_url,
+      ...(mediaMap.get(postId) || []).flatMap(getMediaFileUrls),
+    ];
+    const fileNames = [
+      ...new Set(
+        mediaUrls
+          .map((url) => getStoragePath(url))
+          .filter((path): path is string => !!path)
+      ),
+    ];
+
+    // Storage 삭제 시도 (실패해도 DB 삭제는 진행, 남은 파일은 /api/cron/storage-cleanup에서 정리)
+    if (fileNames.length > 0) {
       try {
         const serviceRoleClient = getServiceRoleClient();
         const { error: storageError } = await serviceRoleClient.storage
           .from("posts")
-          .remove([fileName]);
+          .remove(fileNames);
 
         if (storageError) {
           console.error("Storage delete error:", storageError);
@@ -311,7 +354,7 @@ export async function DELETE(
       }
     }
 
-    // 6. 데이터베이스에서 게시물 삭제 (CASCADE로 관련 데이터 자동 삭제)
+    // 4. 데이터베이스에서 게시물 삭제 (CASCADE로 관련 데이터 자동 삭제)
     const { error: deleteError } = await supabase
       .from("posts")
       .delete()
@@ -319,21 +362,12 @@ export async function DELETE(
 
     if (deleteError) {
       console.error("Post delete error:", deleteError);
-      return NextResponse.json(
-        { error: "게시물 삭제에 실패했습니다.", details: deleteError.message },
-        { status: 500 }
-      );
+      throw new ApiError("INTERNAL_ERROR", "게시물 삭제에 실패했습니다.", {
+        details: deleteError.message,
+      });
     }
 
     return NextResponse.json({ message: "게시물이 삭제되었습니다." });
-  } catch (error) {
-    console.error("DELETE /api/posts/[postId] error:", error);
-    return NextResponse.json(
-      {
-        error: "게시물 삭제에 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
@@ -0,0 +1,129 @@
+/**
+ * @file app/api/posts/drafts/route.ts
+ * @description 임시 저장/예약 게시물 목록 조회 API
+ *
+ * GET: 현재 로그인한 사용자의 공개 전 게시물 목록 조회 (본인만, 프로필의 "임시 저장"/"예약됨" 탭)
+ * - type=draft: 임시 저장 게시물 (최근 수정순)
+ * - type=scheduled: 예약 게시물 (예약 시각이 가까운 순)
+ * - post_stats 뷰에서 제외되므로 posts 테이블에서 직접 조회
+ * - 커서 기반 페이지네이션 지원 (하위 호환: offset)
+ *
+ * @see supabase/migrations/20250105000015_add_post_drafts_and_scheduling.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { fetchPostMediaMap } from "@/lib/post-media";
+import type { PostWithStats } from "@/lib/types";
+
+const draftsQuerySchema = z.object({
+  type: z
+    .enum(["draft", "scheduled"], {
+      errorMap: () => ({ message: "유효하지 않은 목록 종류입니다." }),
+    })
+    .default("draft"),
+});
+
+/**
+ * GET /api/posts/drafts
+ * 임시 저장/예약 게시물 목록 조회
+ *
+ * @param request - NextRequest 객체 (type: "draft" | "scheduled", 기본값 "draft")
+ * @returns 게시물 목록 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/posts/drafts",
+    errorMessage: "게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요.",
+    query: draftsQuerySchema,
+  },
+  async ({ user, supabase, request, query: { type } }) => {
+    // 1. 페이지네이션 파라미터 파싱
+    const { limit, offset, cursor } = parsePaginationParams(
+      request.nextUrl.searchParams,
+      12
+    );
+
+    // 2. 공개 전 게시물 조회 (임시 저장: 수정 시각, 예약: 예약 시각 기준 정렬)
+    const cursorOptions =
+      type === "draft"
+        ? { createdAtColumn: "updated_at" }
+        : { createdAtColumn: "publish_at", ascending: true };
+
+    let postsQuery = supabase
+      .from("posts")
+      .select("id, user_id, image_url, title, caption, created_at, updated_at, is_draft, publish_at")
+      .eq("user_id", user.id)
+      .eq("is_hidden", false);
+
+    postsQuery =
+      type === "draft"
+        ? postsQuery.eq("is_draft", true)
+        : postsQuery.eq("is_draft", false).gt("publish_at", new Date().toISOString());
+
+    postsQuery = orderByCursor(postsQuery, cursorOptions);
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    postsQuery = cursor
+      ? applyCursor(postsQuery, cursor, cursorOptions).limit(limit + 1)
+      : postsQuery.range(offset, offset + limit);
+
+    const { data: rows, error: postsError } = await postsQuery;
+
+    if (postsError) {
+      console.error("Draft posts query error:", postsError);
+      throw new ApiError("INTERNAL_ERROR", "게시물을 불러오는데 실패했습니다.");
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (post) => ({
+      createdAt: type === "draft" ? post.updated_at : post.publish_at,
+      id: post.id,
+    }));
+
+    // 3. 미디어 목록 조회
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      items.map((post) => post.id)
+    );
+
+    // 4. PostWithStats 형식으로 변환 (공개 전이므로 좋아요/댓글 없음)
+    const posts: PostWithStats[] = items.map((post) => ({
+      id: post.id,
+      user_id: post.user_id,
+      image_url: post.image_url,
+      title: post.title || null,
+      caption: post.caption,
+      created_at: post.created_at,
+      updated_at: post.updated_at,
+      is_draft: post.is_draft,
+      publish_at: post.publish_at,
+      likes_count: 0,
+      comments_count: 0,
+      media: mediaMap.get(post.id),
+    }));
+
+    return NextResponse.json({
+      posts,
+      hasMore,
+      nextCursor,
+      users: [
+        {
+          id: user.id,
+          clerk_id: user.clerk_id,
+          name: user.name,
+          username: user.username,
+          avatar_url: user.avatar_url,
+          created_at: user.created_at,
+        },
+      ],
+    });
+  }
+);
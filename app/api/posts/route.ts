@@ -4,21 +4,174 @@
  *
  * GET: 게시물 목록 조회
  * - 시간 역순 정렬
- * - 페이지네이션 지원 (limit, offset)
+ * - 커서 기반 페이지네이션 지원 (limit, cursor / 하위 호환: offset)
  * - userId 파라미터 지원 (프로필 페이지용)
+ * - feed 파라미터 지원 ("following": 팔로우한 사용자 + 본인 게시물만, "all": 전체)
+ * - 비공개 계정의 게시물은 본인과 팔로워에게만 표시 (프로필 조회 시 403)
+ * - 차단 관계인 사용자의 게시물 제외 (프로필 조회 시 404), 음소거한 사용자는 피드에서 제외
+ * - 숨김 게시물과 정지된 계정의 게시물은 post_stats 뷰에서 제외
+ * - 임시 저장 게시물과 예약 시각 전의 게시물도 post_stats 뷰에서 제외 (예약 시각이 지난 게시물은 예약 작업에서 공개 처리)
  * - post_stats 뷰 활용하여 좋아요 수, 댓글 수 포함
+ * - post_media 테이블의 미디어 목록 포함 (캐러셀)
+ * - 캡션의 멘션 포함 (@사용자 이름 → 프로필 링크)
  *
  * POST: 게시물 생성
- * - Clerk 인증 검증
- * - 이미지 파일 검증 (최대 5MB, JPEG/PNG/WebP만)
- * - Supabase Storage 업로드 (posts 버킷)
- * - posts 테이블에 데이터 저장
+ * - Clerk 인증 검증 (정지된 계정은 403)
+ * - 사용자/IP별 요청 횟수 제한 (429, Retry-After)
+ * - 클라이언트가 Supabase Storage(posts 버킷)에 업로드한 미디어 URL 검증
+ *   (본인 폴더 `${clerkUserId}/`의 파일이고 다른 게시물에서 사용 중이 아닌 파일만 허용)
+ * - 이미지 후처리: 메타데이터(EXIF/GPS) 제거, WebP 변형 생성, 크기 기록 (원본은 저장 후 삭제)
+ * - 동영상은 클라이언트가 추출한 포스터 이미지(같은 후처리)와 재생 길이를 함께 저장
+ * - 최대 10개의 미디어(이미지/동영상 혼합)를 순서대로 post_media 테이블에 저장
+ * - posts 테이블에 데이터 저장 (image_url은 첫 번째 미디어)
+ * - 임시 저장(isDraft) 또는 예약 게시(publishAt) 지원
+ * - 캡션의 해시태그를 post_hashtags에 저장 (임시 저장/예약 게시물은 공개 시점에 저장)
+ * - 캡션의 멘션을 mentions에 저장하고 멘션된 사용자에게 알림 (임시 저장/예약 게시물은 공개 시점에 알림)
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
-import type { PostWithStats } from "@/lib/types";
+import { z } from "zod";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import {
+  processPostMedia,
+  removePostFiles,
+  type ProcessPostMediaResult,
+  type UploadedMedia,
+} from "@/lib/media-processing";
+import { fetchMentionMap } from "@/lib/mentions";
+import {
+  fetchPostMediaMap,
+  getStoragePath,
+  isOwnStoragePath,
+  MAX_POST_MEDIA,
+} from "@/lib/post-media";
+import {
+  parsePublishAt,
+  syncPublishedPost,
+} from "@/lib/post-publishing";
+import {
+  canViewUserContent,
+  getBlockedUserIds,
+  getMutedUserIds,
+  getViewerId,
+  isBlockedBetween,
+  toInFilter,
+} from "@/lib/privacy";
+import type { FeedMode, PostWithStats } from "@/lib/types";
+
+// post_media.duration_seconds 컬럼(NUMERIC(8, 2)) 범위
+const MAX_VIDEO_DURATION_SECONDS = 1000000;
+
+const INVALID_MEDIA_MESSAGE = "유효하지 않은 미디어 URL입니다.";
+
+// 클라이언트가 posts 버킷에 업로드한 파일 URL
+const storageUrlSchema = z
+  .string({
+    required_error: INVALID_MEDIA_MESSAGE,
+    invalid_type_error: INVALID_MEDIA_MESSAGE,
+  })
+  .refine(
+    (url) =>
+      url.startsWith(
+        `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/posts/`
+      ),
+    INVALID_MEDIA_MESSAGE
+  );
+
+// 포스터 이미지와 재생 길이는 동영상에만 허용
+const uploadedMediaSchema = z
+  .object({
+    url: storageUrlSchema,
+    type: z.enum(["image", "video"], {
+      errorMap: () => ({ message: INVALID_MEDIA_MESSAGE }),
+    }),
+    posterUrl: storageUrlSchema.nullish(),
+    duration: z
+      .number({ invalid_type_error: INVALID_MEDIA_MESSAGE })
+      .gt(0, INVALID_MEDIA_MESSAGE)
+      .lt(MAX_VIDEO_DURATION_SECONDS, INVALID_MEDIA_MESSAGE)
+      .nullish(),
+  })
+  .refine(
+    (item) =>
+      item.type === "video" || (item.posterUrl == null && item.duration == null),
+    INVALID_MEDIA_MESSAGE
+  );
+
+// 빈 제목/캡션은 null로 저장
+const optionalTextSchema = z
+  .string()
+  .trim()
+  .nullish()
+  .transform((text) => text || null);
+
+const createPostSchema = z
+  .object({
+    media: z
+      .array(uploadedMediaSchema)
+      .max(MAX_POST_MEDIA, `미디어는 최대 ${MAX_POST_MEDIA}개까지 업로드할 수 있습니다.`)
+      .optional(),
+    image_url: storageUrlSchema.optional(), // 하위 호환 (단일 이미지)
+    title: optionalTextSchema,
+    caption: optionalTextSchema,
+    isDraft: z.boolean().optional(),
+    publishAt: z
+      .string({ invalid_type_error: "유효하지 않은 예약 시각입니다." })
+      .nullish(),
+  })
+  .transform(({ media, image_url, ...post }) => ({
+    ...post,
+    // media 배열이 없으면 image_url 단일 미디어로 처리 (하위 호환)
+    // (strict 모드가 아니면 zod가 모든 필드를 선택 속성으로 추론하므로 타입 지정)
+    media: (media?.length
+      ? media
+      : image_url
+        ? [{ url: image_url, type: "image" }]
+        : []) as UploadedMedia[],
+  }))
+  .refine(({ media }) => media.length > 0, {
+    message: "최소 1개의 이미지 또는 동영상이 필요합니다.",
+    path: ["media"],
+  });
+
+/**
+ * 이미 게시물에 사용 중인 미디어 URL이 있는지 확인
+ *
+ * 처리가 끝난 원본은 삭제하므로, 기존 게시물의 파일을 다시 제출해
+ * 다른 게시물의 미디어가 지워지지 않도록 막습니다.
+ */
+async function isMediaInUse(
+  supabase: SupabaseClient,
+  urls: string[]
+): Promise<boolean> {
+  const [mediaResult, posterResult] = await Promise.all([
+    supabase.from("post_media").select("id").in("media_url", urls).limit(1),
+    supabase.from("post_media").select("id").in("poster_url", urls).limit(1),
+  ]);
+
+  const error = mediaResult.error || posterResult.error;
+  if (error) {
+    console.error("Post media usage query error:", error);
+    throw new ApiError(
+      "INTERNAL_ERROR",
+      "게시물 생성에 실패했습니다. 잠시 후 다시 시도해주세요."
+    );
+  }
+
+  return (
+    (mediaResult.data || []).length > 0 || (posterResult.data || []).length > 0
+  );
+}
 
 // Route Segment Config: Next.js 15 API Routes 설정
 export const runtime = 'nodejs';
@@ -35,42 +188,138 @@ export const dynamic = 'force-dynamic';
  * @param request - NextRequest 객체
  * @returns 게시물 목록 및 페이지네이션 정보
  */
-export async function GET(request: NextRequest) {
-  try {
-    const supabase = createClerkSupabaseClient();
+export const GET = apiHandler(
+  {
+    name: "GET /api/posts",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+  },
+  async ({ supabase, request }) => {
     const searchParams = request.nextUrl.searchParams;
 
     // 쿼리 파라미터 파싱
-    const limit = parseInt(searchParams.get("limit") || "10", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 10);
     const userId = searchParams.get("userId");
+    const feed: FeedMode =
+      searchParams.get("feed") === "following" ? "following" : "all";
+
+    // 팔로잉 피드: 현재 사용자가 팔로우하는 사용자 + 본인의 게시물만 조회
+    // (userId가 지정된 프로필 조회에는 적용하지 않음)
+    let authorIds: string[] | null = null;
+    if (feed === "following" && !userId) {
+      const { userId: clerkUserId } = await auth();
+      if (!clerkUserId) {
+        throw new ApiError("UNAUTHORIZED", "로그인이 필요합니다.");
+      }
+
+      const { data: currentUser, error: userError } = await supabase
+        .from("users")
+        .select("id")
+        .eq("clerk_id", clerkUserId)
+        .single();
 
-    // post_stats 뷰에서 데이터 조회
-    let query = supabase
-      .from("post_stats")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+      if (userError || !currentUser) {
+        console.error("User lookup error:", userError);
+        throw new ApiError(
+          "NOT_FOUND",
+          "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요."
+        );
+      }
+
+      const { data: follows, error: followsError } = await supabase
+        .from("follows")
+        .select("following_id")
+        .eq("follower_id", currentUser.id);
+
+      if (followsError) {
+        console.error("Follows query error:", followsError);
+        throw new ApiError(
+          "INTERNAL_ERROR",
+          "게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요."
+        );
+      }
+
+      // 음소거/차단한 사용자는 팔로잉 피드에서도 제외
+      const excludedIds = new Set([
+        ...(await getMutedUserIds(supabase, currentUser.id)),
+        ...(await getBlockedUserIds(supabase, currentUser.id)),
+      ]);
+
+      authorIds = [
+        currentUser.id,
+        ...(follows || [])
+          .map((follow) => follow.following_id)
+          .filter((id) => !excludedIds.has(id)),
+      ];
+    }
+
+    // 비공개 계정/차단/음소거 접근 제어 (팔로잉 피드는 위에서 처리)
+    // 비공개 계정은 뷰의 is_visible_to_viewer로, 차단/음소거는 작성자 ID로 제외
+    let hiddenAuthorIds: string[] = [];
+    if (userId) {
+      const viewerId = await getViewerId(supabase);
+      if (await isBlockedBetween(supabase, viewerId, userId)) {
+        throw new ApiError("NOT_FOUND", "사용자를 찾을 수 없습니다.");
+      }
+      if (!(await canViewUserContent(supabase, viewerId, userId))) {
+        throw new ApiError("PRIVATE_ACCOUNT", "비공개 계정입니다.");
+      }
+    } else if (!authorIds) {
+      const viewerId = await getViewerId(supabase);
+      hiddenAuthorIds = [
+        ...new Set([
+          ...(await getBlockedUserIds(supabase, viewerId)),
+          ...(await getMutedUserIds(supabase, viewerId)),
+        ]),
+      ];
+    }
+
+    // post_stats 뷰에서 데이터 조회 (created_at, post_id 역순)
+    let query = orderByCursor(supabase.from("post_stats").select("*"), {
+      idColumn: "post_id",
+    });
 
     // userId가 제공된 경우 필터링
     if (userId) {
       query = query.eq("user_id", userId);
+    } else if (authorIds) {
+      query = query.in("user_id", authorIds);
+    } else {
+      query = query.eq("is_visible_to_viewer", true);
+      if (hiddenAuthorIds.length > 0) {
+        query = query.not("user_id", "in", toInFilter(hiddenAuthorIds));
+      }
     }
 
-    const { data: postStats, error: statsError } = await query;
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor, { idColumn: "post_id" }).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: statsError } = await query;
 
     if (statsError) {
       console.error("Post stats query error:", statsError);
-      return NextResponse.json(
-        { error: "게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
-    if (!postStats || postStats.length === 0) {
+    const {
+      items: postStats,
+      hasMore,
+      nextCursor,
+    } = paginate(rows, limit, (row) => ({
+      createdAt: row.created_at,
+      id: row.post_id,
+    }));
+
+    if (postStats.length === 0) {
       return NextResponse.json({
         posts: [],
         hasMore: false,
+        nextCursor: null,
       });
     }
 
@@ -80,7 +329,7 @@ export async function GET(request: NextRequest) {
     // users 테이블에서 사용자 정보 조회
     const { data: users, error: usersError } = await supabase
       .from("users")
-      .select("id, clerk_id, name")
+      .select("id, clerk_id, name, username, avatar_url")
       .in("id", userIds);
 
     if (usersError) {
@@ -93,6 +342,17 @@ export async function GET(request: NextRequest) {
       (users || []).map((user) => [user.id, user])
     );
 
+    // 게시물 미디어 목록 및 캡션 멘션 조회
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      postStats.map((p) => p.post_id)
+    );
+    const mentionMap = await fetchMentionMap(
+      supabase,
+      "post_id",
+      postStats.map((p) => p.post_id)
+    );
+
     // PostWithStats 형식으로 변환
     const posts: PostWithStats[] = postStats.map((stat) => ({
       id: stat.post_id,
@@ -104,24 +364,18 @@ export async function GET(request: NextRequest) {
       updated_at: stat.created_at, // post_stats에는 updated_at이 없으므로 created_at 사용
       likes_count: Number(stat.likes_count) || 0,
       comments_count: Number(stat.comments_count) || 0,
+      media: mediaMap.get(stat.post_id),
+      mentions: mentionMap.get(stat.post_id),
     }));
 
-    // 다음 페이지가 있는지 확인
-    const hasMore = postStats.length === limit;
-
     return NextResponse.json({
       posts,
       hasMore,
+      nextCursor,
       users: Array.from(userMap.values()), // 사용자 정보도 함께 반환
     });
-  } catch (error) {
-    console.error("Posts API error:", error);
-    return NextResponse.json(
-      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
-      { status: 500 }
-    );
   }
-}
+);
 
 /**
  * POST /api/posts
@@ -130,75 +384,79 @@ export async function GET(request: NextRequest) {
  * 클라이언트에서 직접 Supabase Storage에 파일을 업로드한 후,
  * 이 API를 호출하여 posts 테이블에 메타데이터만 저장합니다.
  *
- * @param request - NextRequest 객체 (JSON body: { image_url, title, caption })
+ * @param request - NextRequest 객체
+ *   (JSON body: { media: { url, type, posterUrl?, duration? }[], title, caption, isDraft?, publishAt? }
+ *   또는 하위 호환용 { image_url, title, caption })
  * @returns 생성된 게시물 데이터
  */
-export async function POST(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
+export const POST = apiHandler(
+  {
+    name: "POST /api/posts",
+    errorMessage: "게시물 생성에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    rateLimit: "post",
+    body: createPostSchema,
+  },
+  async ({
+    clerkUserId,
+    user,
+    supabase,
+    body: { media, title, caption, isDraft, publishAt: rawPublishAt },
+  }) => {
+    // 1. 임시 저장 게시물은 예약 시각 없이 저장
+    const parsedPublishAt = parsePublishAt(isDraft ? null : rawPublishAt);
+    if ("error" in parsedPublishAt) {
+      throw new ApiError("BAD_REQUEST", parsedPublishAt.error);
     }
+    const { publishAt } = parsedPublishAt;
 
-    // 2. JSON body 파싱
-    let body: { image_url: string; title?: string | null; caption?: string | null };
-    try {
-      body = await request.json();
-    } catch (jsonError) {
-      console.error("❌ JSON parsing error:", jsonError);
-      return NextResponse.json(
-        { error: "잘못된 요청 형식입니다. JSON 형식이 필요합니다." },
-        { status: 400 }
+    // 정지된 계정은 게시물을 작성할 수 없음
+    if (user.is_suspended) {
+      throw new ApiError(
+        "ACCOUNT_SUSPENDED",
+        "정지된 계정은 게시물을 작성할 수 없습니다."
       );
     }
 
-    // 3. 필수 필드 검증
-    if (!body.image_url || typeof body.image_url !== "string") {
-      return NextResponse.json(
-        { error: "image_url이 필요합니다." },
-        { status: 400 }
-      );
+    // 2. 본인 폴더에 업로드했고 아직 게시물에 사용되지 않은 파일만 허용
+    // (처리가 끝난 원본을 Service Role로 삭제하므로 다른 사용자/게시물의 파일을 지우지 않도록 확인)
+    const uploadedUrls = media.flatMap((item) =>
+      item.posterUrl ? [item.url, item.posterUrl] : [item.url]
+    );
+    const hasForeignFile = uploadedUrls.some((url) => {
+      const path = getStoragePath(url);
+      return !path || !isOwnStoragePath(path, clerkUserId);
+    });
+    if (hasForeignFile) {
+      throw new ApiError("BAD_REQUEST", INVALID_MEDIA_MESSAGE);
     }
-
-    // image_url이 Supabase Storage URL인지 검증
-    const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-    if (!body.image_url.startsWith(`${supabaseUrl}/storage/v1/object/public/posts/`)) {
-      return NextResponse.json(
-        { error: "유효하지 않은 이미지 URL입니다." },
-        { status: 400 }
-      );
+    if (await isMediaInUse(supabase, uploadedUrls)) {
+      throw new ApiError("BAD_REQUEST", "이미 다른 게시물에 사용된 미디어입니다.");
     }
 
-    // 4. Clerk User ID로 Supabase User ID 조회
-    const supabase = createClerkSupabaseClient();
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      console.error("User lookup error:", userError);
-      return NextResponse.json(
-        {
-          error: "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요.",
-        },
-        { status: 404 }
+    // 3. 이미지 후처리 (메타데이터 제거, WebP 변형 생성)
+    // 업로드된 원본은 게시물 저장이 끝난 뒤 삭제 (실패 시 클라이언트가 원본을 정리)
+    const serviceRoleClient = getServiceRoleClient();
+    let processed: ProcessPostMediaResult;
+    try {
+      processed = await processPostMedia(serviceRoleClient, media);
+    } catch (processError) {
+      console.error("Post media processing error:", processError);
+      throw new ApiError(
+        "BAD_REQUEST",
+        "이미지를 처리할 수 없습니다. 다른 파일로 다시 시도해주세요."
       );
     }
 
-    // 5. posts 테이블에 데이터 저장
+    // 4. posts 테이블에 데이터 저장
     const { data: post, error: insertError } = await supabase
       .from("posts")
       .insert({
         user_id: user.id,
-        image_url: body.image_url,
-        title: body.title && body.title.trim() ? body.title.trim() : null,
-        caption: body.caption && body.caption.trim() ? body.caption.trim() : null,
+        image_url: processed.media[0].url, // 대표 미디어 (썸네일, 하위 호환)
+        title,
+        caption,
+        is_draft: isDraft,
+        publish_at: publishAt,
       })
       .select()
       .single();
@@ -207,47 +465,66 @@ export async function POST(request: NextRequest) {
       console.error("Post insert error:", {
         error: insertError,
         userId: user.id,
-        imageUrl: body.image_url,
-        title: body.title,
-        caption: body.caption ? body.caption.substring(0, 50) + "..." : null,
+        mediaCount: media.length,
+        title,
+        caption: caption ? caption.substring(0, 50) + "..." : null,
+      });
+
+      await removePostFiles(serviceRoleClient, processed.createdPaths);
+
+      throw new ApiError("INTERNAL_ERROR", "게시물 저장에 실패했습니다. 잠시 후 다시 시도해주세요.", {
+        details: insertError?.message,
+      });
+    }
+
+    // 5. post_media 테이블에 미디어 목록 저장 (순서 유지)
+    const { data: savedMedia, error: mediaError } = await supabase
+      .from("post_media")
+      .insert(
+        processed.media.map((item, index) => ({
+          post_id: post.id,
+          media_url: item.url,
+          media_type: item.type,
+          position: index,
+          width: item.width,
+          height: item.height,
+          variants: item.variants,
+          poster_url: item.posterUrl,
+          duration_seconds: item.duration,
+        }))
+      )
+      .select()
+      .order("position", { ascending: true });
+
+    if (mediaError) {
+      console.error("Post media insert error:", mediaError);
+
+      // 미디어 저장 실패 시 게시물도 롤백
+      await supabase.from("posts").delete().eq("id", post.id);
+      await removePostFiles(serviceRoleClient, processed.createdPaths);
+
+      throw new ApiError("INTERNAL_ERROR", "게시물 저장에 실패했습니다. 잠시 후 다시 시도해주세요.", {
+        details: mediaError.message,
       });
-      
-      return NextResponse.json(
-        { 
-          error: "게시물 저장에 실패했습니다. 잠시 후 다시 시도해주세요.",
-          details: insertError?.message 
-        },
-        { status: 500 }
-      );
     }
 
-    // 6. 응답 반환 (PostWithStats 형식으로 변환)
+    // 6. 처리가 끝난 원본 파일 삭제 (메타데이터가 남아 있는 파일)
+    await removePostFiles(serviceRoleClient, processed.originalPaths);
+
+    // 7. 바로 공개되는 게시물만 캡션의 해시태그/멘션 저장 및 멘션 알림
+    // (임시 저장/예약 게시물은 공개 시점에 동기화)
+    const mentions =
+      isDraft || publishAt ? [] : await syncPublishedPost(supabase, post);
+
+    // 8. 응답 반환 (PostWithStats 형식으로 변환)
     const postWithStats: PostWithStats = {
       ...post,
       likes_count: 0,
       comments_count: 0,
+      media: savedMedia || [],
+      mentions,
     };
 
     return NextResponse.json(postWithStats, { status: 201 });
-  } catch (error) {
-    console.error("POST /api/posts error:", {
-      error,
-      message: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
-    });
-    
-    let errorMessage = "게시물 생성에 실패했습니다. 잠시 후 다시 시도해주세요.";
-    if (error instanceof Error) {
-      errorMessage = error.message || errorMessage;
-    }
-    
-    return NextResponse.json(
-      { 
-        error: errorMessage,
-        details: error instanceof Error ? error.message : String(error)
-      },
-      { status: 500 }
-    );
   }
-}
-
+);
@@ -5,16 +5,25 @@
  * GET: 현재 로그인한 사용자가 저장한 게시물 목록 조회
  * - saves 테이블과 posts 테이블 JOIN
  * - post_stats 뷰 활용하여 좋아요/댓글 수 포함
- * - 페이지네이션 지원
+ * - 저장한 뒤 차단 관계가 되었거나 더 이상 볼 수 없는 비공개 계정의 게시물은 제외
+ * - 커서 기반 페이지네이션 지원 (저장 시각 기준, 하위 호환: offset)
  *
  * @see docs/PRD.md
  * @see supabase/migrations/20250102000002_create_saves_table.sql
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
-import type { PostWithStats, User } from "@/lib/types";
+import { NextResponse } from "next/server";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { fetchPostMediaMap } from "@/lib/post-media";
+import { getBlockedUserIds, toInFilter } from "@/lib/privacy";
+import type { PostWithStats } from "@/lib/types";
 
 /**
  * GET /api/posts/saved
@@ -23,90 +32,89 @@ import type { PostWithStats, User } from "@/lib/types";
  * @param request - NextRequest 객체
  * @returns 저장된 게시물 목록 및 페이지네이션 정보
  */
-export async function GET(request: NextRequest) {
-  try {
-    // 1. 인증 검증
-    const { userId: clerkUserId } = await auth();
-    if (!clerkUserId) {
-      return NextResponse.json(
-        { error: "로그인이 필요합니다." },
-        { status: 401 }
-      );
-    }
-
-    // 2. 쿼리 파라미터 파싱
+export const GET = apiHandler(
+  {
+    name: "GET /api/posts/saved",
+    errorMessage: "저장된 게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요.",
+  },
+  async ({ user, supabase, request }) => {
+    // 1. 쿼리 파라미터 파싱
     const searchParams = request.nextUrl.searchParams;
-    const limit = parseInt(searchParams.get("limit") || "10", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 10);
+
+    // 2. saves 테이블에서 저장된 게시물 ID 목록 조회 (저장 시간순 정렬)
+    let savesQuery = orderByCursor(
+      supabase
+        .from("saves")
+        .select("id, post_id, created_at")
+        .eq("user_id", user.id)
+    );
 
-    // 3. Clerk User ID로 Supabase User ID 조회
-    const supabase = await createClient();
-    const { data: user, error: userError } = await supabase
-      .from("users")
-      .select("id")
-      .eq("clerk_id", clerkUserId)
-      .single();
-
-    if (userError || !user) {
-      console.error("User lookup error:", userError);
-      return NextResponse.json(
-        {
-          error: "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요.",
-        },
-        { status: 404 }
-      );
-    }
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    savesQuery = cursor
+      ? applyCursor(savesQuery, cursor).limit(limit + 1)
+      : savesQuery.range(offset, offset + limit);
 
-    // 4. saves 테이블에서 저장된 게시물 ID 목록 조회 (저장 시간순 정렬)
-    const { data: saves, error: savesError } = await supabase
-      .from("saves")
-      .select("post_id, created_at")
-      .eq("user_id", user.id)
-      .order("created_at", { ascending: false })
-      .range(offset, offset + limit - 1);
+    const { data: saveRows, error: savesError } = await savesQuery;
 
     if (savesError) {
       console.error("Saves query error:", savesError);
-      return NextResponse.json(
-        { error: "저장된 게시물을 불러오는데 실패했습니다." },
-        { status: 500 }
-      );
+      throw new ApiError("INTERNAL_ERROR", "저장된 게시물을 불러오는데 실패했습니다.");
     }
 
-    if (!saves || saves.length === 0) {
+    const {
+      items: saves,
+      hasMore,
+      nextCursor,
+    } = paginate(saveRows, limit, (save) => ({
+      createdAt: save.created_at,
+      id: save.id,
+    }));
+
+    if (saves.length === 0) {
       return NextResponse.json({
         posts: [],
         hasMore: false,
+        nextCursor: null,
         users: [],
       });
     }
 
-    // 5. 저장된 게시물 ID 목록 추출
+    // 3. 저장된 게시물 ID 목록 추출
     const postIds = saves.map((save) => save.post_id);
 
-    // 6. post_stats 뷰에서 게시물 정보 조회
-    const { data: postStats, error: statsError } = await supabase
+    // 4. post_stats 뷰에서 게시물 정보 조회
+    // 비공개 계정은 뷰의 is_visible_to_viewer로, 차단 관계는 작성자 ID로 제외
+    const blockedUserIds = await getBlockedUserIds(supabase, user.id);
+
+    let statsQuery = supabase
       .from("post_stats")
       .select("*")
-      .in("post_id", postIds);
+      .in("post_id", postIds)
+      .eq("is_visible_to_viewer", true);
+
+    if (blockedUserIds.length > 0) {
+      statsQuery = statsQuery.not("user_id", "in", toInFilter(blockedUserIds));
+    }
+
+    const { data: postStats, error: statsError } = await statsQuery;
 
     if (statsError) {
       console.error("Post stats query error:", statsError);
-      return NextResponse.json(
-        { error: "게시물 정보를 불러오는데 실패했습니다." },
-        { status: 500 }
-      );
+      throw new ApiError("INTERNAL_ERROR", "게시물 정보를 불러오는데 실패했습니다.");
     }
 
     if (!postStats || postStats.length === 0) {
+      // 이번 페이지의 게시물이 모두 삭제되었거나 볼 수 없는 경우에도 다음 페이지는 계속 조회 가능
       return NextResponse.json({
         posts: [],
-        hasMore: false,
+        hasMore,
+        nextCursor,
         users: [],
       });
     }
 
-    // 7. 저장 시간순으로 정렬 (saves의 순서 유지)
+    // 5. 저장 시간순으로 정렬 (saves의 순서 유지)
     const postStatsMap = new Map(
       postStats.map((stat) => [stat.post_id, stat])
     );
@@ -114,13 +122,13 @@ export async function GET(request: NextRequest) {
       .map((postId) => postStatsMap.get(postId))
       .filter((stat): stat is typeof postStats[0] => stat !== undefined);
 
-    // 8. 사용자 정보 조회를 위한 user_id 목록 추출
+    // 6. 사용자 정보 조회를 위한 user_id 목록 추출
     const userIds = [...new Set(sortedPostStats.map((p) => p.user_id))];
 
-    // 9. users 테이블에서 사용자 정보 조회
+    // 7. users 테이블에서 사용자 정보 조회
     const { data: users, error: usersError } = await supabase
       .from("users")
-      .select("id, clerk_id, name")
+      .select("id, clerk_id, name, username, avatar_url")
       .in("id", userIds);
 
     if (usersError) {
@@ -128,7 +136,13 @@ export async function GET(request: NextRequest) {
       // 사용자 정보가 없어도 게시물은 반환
     }
 
-    // 10. PostWithStats 형식으로 변환
+    // 8. 미디어 목록 조회
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      sortedPostStats.map((stat) => stat.post_id)
+    );
+
+    // 9. PostWithStats 형식으로 변환
     const posts: PostWithStats[] = sortedPostStats.map((stat) => ({
       id: stat.post_id,
       user_id: stat.user_id,
@@ -139,29 +153,22 @@ export async function GET(request: NextRequest) {
       updated_at: stat.created_at, // post_stats에는 updated_at이 없으므로 created_at 사용
       likes_count: Number(stat.likes_count) || 0,
       comments_count: Number(stat.comments_count) || 0,
+      media: mediaMap.get(stat.post_id),
     }));
 
-    // 11. 다음 페이지가 있는지 확인
-    const hasMore = saves.length === limit;
-
     return NextResponse.json({
       posts,
       hasMore,
+      nextCursor,
       users: (users || []).map((user) => ({
         id: user.id,
         clerk_id: user.clerk_id,
         name: user.name,
+        username: user.username,
+        avatar_url: user.avatar_url,
         created_at: "", // 사용자 정보에는 created_at이 없으므로 빈 문자열
       })),
     });
-  } catch (error) {
-    console.error("GET /api/posts/saved error:", error);
-    return NextResponse.json(
-      {
-        error: "저장된 게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
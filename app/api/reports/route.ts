@@ -0,0 +1,505 @@
+/**
+ * @file app/api/reports/route.ts
+ * @description 신고 및 모더레이션 API
+ *
+ * POST: 게시물/댓글/계정 신고 ({ targetType, targetId, reason, details? })
+ *   - 본인 콘텐츠는 신고 불가, 처리 대기 중인 중복 신고는 409
+ * GET: 모더레이션 큐 (관리자만, 최신순, 커서 기반 페이지네이션)
+ *   - status 파라미터 (기본값: open)
+ *   - 신고자와 신고된 콘텐츠(작성자, 썸네일, 내용) 포함
+ * PATCH: 신고 처리 (관리자만, { reportId, action: "dismiss" | "hide" | "suspend" })
+ *   - dismiss: 기각
+ *   - hide: 게시물/댓글 숨김 (모든 조회에서 제외)
+ *   - suspend: 작성자 계정 정지 (프로필, 게시물, 댓글 비공개 및 작성 불가)
+ *   - 같은 대상에 대한 처리 대기 중인 신고를 함께 처리
+ *
+ * 관리자 여부는 Clerk public metadata의 role로 판단합니다. (lib/moderation.ts 참고)
+ * 모더레이션 큐 조회/처리는 다른 사용자의 신고와 콘텐츠를 다루므로 관리자 확인 후
+ * Service Role 클라이언트를 사용합니다. (RLS 우회)
+ *
+ * @see supabase/migrations/20250105000007_create_reports_table.sql
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { isAdmin } from "@/lib/moderation";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import {
+  isReportReason,
+  isReportTargetType,
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_STATUS_LABELS,
+} from "@/lib/reports";
+import type {
+  ModerationAction,
+  ReportedContent,
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+  ReportWithTarget,
+  User,
+} from "@/lib/types";
+
+const USER_COLUMNS = "id, clerk_id, name, username, avatar_url, is_suspended, created_at";
+
+const createReportSchema = z.object({
+  targetType: z.custom<ReportTargetType>(isReportTargetType, {
+    message: "신고 대상이 올바르지 않습니다.",
+  }),
+  targetId: idSchema("targetId"),
+  reason: z.custom<ReportReason>(isReportReason, {
+    message: "신고 사유를 선택해주세요.",
+  }),
+  details: z
+    .string()
+    .trim()
+    .max(
+      MAX_REPORT_DETAILS_LENGTH,
+      `추가 설명은 ${MAX_REPORT_DETAILS_LENGTH}자 이하여야 합니다.`
+    )
+    .nullish()
+    .transform((value) => value || null),
+});
+
+const reportsQuerySchema = z.object({
+  status: z
+    .custom<ReportStatus>(
+      (value) => typeof value === "string" && value in REPORT_STATUS_LABELS
+    )
+    .catch("open"),
+});
+
+const resolveReportSchema = z.object({
+  reportId: idSchema("reportId"),
+  action: z.enum(["dismiss", "hide", "suspend"], {
+    errorMap: () => ({
+      message: "action은 dismiss, hide 또는 suspend여야 합니다.",
+    }),
+  }),
+});
+
+const ACTION_STATUS: Record<ModerationAction, ReportStatus> = {
+  dismiss: "dismissed",
+  hide: "hidden",
+  suspend: "suspended",
+};
+
+/**
+ * 신고 대상의 작성자 ID 조회 (계정 신고는 해당 계정 ID)
+ *
+ * @returns 작성자 ID (대상이 없으면 null)
+ */
+async function getTargetOwnerId(
+  supabase: SupabaseClient,
+  targetType: ReportTargetType,
+  targetId: string
+): Promise<string | null> {
+  if (targetType === "user") {
+    const { data: user } = await supabase
+      .from("users")
+      .select("id")
+      .eq("id", targetId)
+      .maybeSingle();
+    return user?.id ?? null;
+  }
+
+  const { data: content } = await supabase
+    .from(targetType === "post" ? "posts" : "comments")
+    .select("user_id")
+    .eq("id", targetId)
+    .maybeSingle();
+  return content?.user_id ?? null;
+}
+
+/**
+ * 신고된 콘텐츠 정보 조회 (모더레이션 큐 표시용)
+ *
+ * @returns 신고 ID → 신고된 콘텐츠 맵 (삭제된 콘텐츠는 포함하지 않음)
+ */
+async function fetchReportedContentMap(
+  supabase: SupabaseClient,
+  reports: { id: string; target_type: ReportTargetType; target_id: string }[]
+): Promise<Map<string, ReportedContent>> {
+  const idsOf = (type: ReportTargetType) =>
+    [...new Set(reports.filter((r) => r.target_type === type).map((r) => r.target_id))];
+
+  const postIds = idsOf("post");
+  const commentIds = idsOf("comment");
+
+  const { data: posts, error: postsError } =
+    postIds.length > 0
+      ? await supabase
+          .from("posts")
+          .select("id, user_id, image_url, caption, is_hidden")
+          .in("id", postIds)
+      : { data: [], error: null };
+
+  if (postsError) {
+    console.error("Reported posts query error:", postsError);
+  }
+
+  const { data: comments, error: commentsError } =
+    commentIds.length > 0
+      ? await supabase
+          .from("comments")
+          .select("id, user_id, post_id, content, is_hidden, posts (image_url)")
+          .in("id", commentIds)
+      : { data: [], error: null };
+
+  if (commentsError) {
+    console.error("Reported comments query error:", commentsError);
+  }
+
+  // 작성자 및 신고된 계정 정보 조회
+  const userIds = [
+    ...new Set([
+      ...idsOf("user"),
+      ...(posts || []).map((post) => post.user_id),
+      ...(comments || []).map((comment) => comment.user_id),
+    ]),
+  ];
+
+  const { data: users, error: usersError } =
+    userIds.length > 0
+      ? await supabase.from("users").select(USER_COLUMNS).in("id", userIds)
+      : { data: [], error: null };
+
+  if (usersError) {
+    console.error("Reported users query error:", usersError);
+  }
+
+  const userMap = new Map<string, User>(
+    (users || []).map((user: User) => [user.id, user])
+  );
+  const postMap = new Map((posts || []).map((post) => [post.id, post]));
+  const commentMap = new Map(
+    (comments || []).map((comment: any) => [comment.id, comment])
+  );
+
+  const contentMap = new Map<string, ReportedContent>();
+  reports.forEach((report) => {
+    if (report.target_type === "post") {
+      const post = postMap.get(report.target_id);
+      const author = post && userMap.get(post.user_id);
+      if (post && author) {
+        contentMap.set(report.id, {
+          author,
+          image_url: post.image_url,
+          text: post.caption,
+          post_id: post.id,
+          is_hidden: post.is_hidden,
+        });
+      }
+    } else if (report.target_type === "comment") {
+      const comment = commentMap.get(report.target_id);
+      const author = comment && userMap.get(comment.user_id);
+      if (comment && author) {
+        const post = Array.isArray(comment.posts) ? comment.posts[0] : comment.posts;
+        contentMap.set(report.id, {
+          author,
+          image_url: post?.image_url ?? null,
+          text: comment.content,
+          post_id: comment.post_id,
+          is_hidden: comment.is_hidden,
+        });
+      }
+    } else {
+      const user = userMap.get(report.target_id);
+      if (user) {
+        contentMap.set(report.id, {
+          author: user,
+          image_url: null,
+          text: null,
+          post_id: null,
+          is_hidden: !!user.is_suspended,
+        });
+      }
+    }
+  });
+
+  return contentMap;
+}
+
+/**
+ * POST /api/reports
+ * 게시물/댓글/계정 신고
+ *
+ * @param request - NextRequest 객체
+ *   (JSON body: { targetType: "post" | "comment" | "user", targetId: string, reason: ReportReason, details?: string })
+ * @returns 생성된 신고 정보
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/reports",
+    errorMessage: "신고에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: createReportSchema,
+  },
+  async ({
+    user,
+    supabase,
+    body: { targetType, targetId, reason, details },
+  }) => {
+    // 1. 신고 대상 확인 (본인 콘텐츠는 신고 불가)
+    const ownerId = await getTargetOwnerId(supabase, targetType, targetId);
+    if (!ownerId) {
+      throw new ApiError("NOT_FOUND", "신고할 콘텐츠를 찾을 수 없습니다.");
+    }
+
+    if (ownerId === user.id) {
+      throw new ApiError("BAD_REQUEST", "본인의 콘텐츠는 신고할 수 없습니다.");
+    }
+
+    // 2. reports 테이블에 INSERT
+    const { data: report, error: insertError } = await supabase
+      .from("reports")
+      .insert({
+        reporter_id: user.id,
+        target_type: targetType,
+        target_id: targetId,
+        reason,
+        details,
+      })
+      .select()
+      .single();
+
+    if (insertError) {
+      // 처리 대기 중인 중복 신고 (부분 UNIQUE 인덱스 위반)
+      if (insertError.code === "23505") {
+        throw new ApiError("CONFLICT", "이미 신고한 콘텐츠입니다.");
+      }
+
+      console.error("Report insert error:", insertError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "신고에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true, report }, { status: 201 });
+  }
+);
+
+/**
+ * GET /api/reports
+ * 모더레이션 큐 조회 (관리자만)
+ *
+ * @param request - NextRequest 객체
+ * @returns 신고 목록, 전체 신고 수 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/reports",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "clerk",
+    query: reportsQuerySchema,
+  },
+  async ({ request, query: { status } }) => {
+    // 1. 관리자 권한 검증
+    if (!(await isAdmin())) {
+      throw new ApiError("FORBIDDEN", "관리자만 접근할 수 있습니다.");
+    }
+
+    // 2. 페이지네이션 파라미터 파싱
+    const { limit, offset, cursor } = parsePaginationParams(
+      request.nextUrl.searchParams,
+      20
+    );
+
+    const supabase = getServiceRoleClient();
+
+    // 3. 신고 조회 (신고자 JOIN)
+    let query = orderByCursor(
+      supabase
+        .from("reports")
+        .select(
+          `
+          id,
+          reporter_id,
+          target_type,
+          target_id,
+          reason,
+          details,
+          status,
+          resolved_by,
+          resolved_at,
+          created_at,
+          reporter:users!reporter_id (
+            id,
+            clerk_id,
+            name,
+            username,
+            avatar_url,
+            created_at
+          )
+        `
+        )
+        .eq("status", status)
+    );
+
+    // 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    query = cursor
+      ? applyCursor(query, cursor).limit(limit + 1)
+      : query.range(offset, offset + limit);
+
+    const { data: rows, error: reportsError } = await query;
+
+    if (reportsError) {
+      console.error("Reports query error:", reportsError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "신고 목록을 불러오는데 실패했습니다."
+      );
+    }
+
+    const { items, hasMore, nextCursor } = paginate(rows, limit, (row) => ({
+      createdAt: row.created_at,
+      id: row.id,
+    }));
+
+    // 4. 전체 신고 수 조회 (큐 헤더 표시용)
+    const { count: totalCount, error: countError } = await supabase
+      .from("reports")
+      .select("id", { count: "exact", head: true })
+      .eq("status", status);
+
+    if (countError) {
+      console.error("Reports count error:", countError);
+    }
+
+    // 5. 신고된 콘텐츠 조회
+    const contentMap = await fetchReportedContentMap(supabase, items);
+
+    const reports: ReportWithTarget[] = items
+      .filter((row: any) => row.reporter) // 탈퇴한 사용자의 신고 제외
+      .map((row: any) => ({
+        id: row.id,
+        reporter_id: row.reporter_id,
+        target_type: row.target_type,
+        target_id: row.target_id,
+        reason: row.reason,
+        details: row.details,
+        status: row.status,
+        resolved_by: row.resolved_by,
+        resolved_at: row.resolved_at,
+        created_at: row.created_at,
+        reporter: Array.isArray(row.reporter) ? row.reporter[0] : row.reporter,
+        target: contentMap.get(row.id) ?? null,
+      }));
+
+    return NextResponse.json({
+      reports,
+      totalCount: totalCount || 0,
+      hasMore,
+      nextCursor,
+    });
+  }
+);
+
+/**
+ * PATCH /api/reports
+ * 신고 처리 (관리자만)
+ *
+ * @param request - NextRequest 객체 (JSON body: { reportId: string, action: "dismiss" | "hide" | "suspend" })
+ * @returns 처리 결과 상태
+ */
+export const PATCH = apiHandler(
+  {
+    name: "PATCH /api/reports",
+    errorMessage: "신고 처리에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: resolveReportSchema,
+  },
+  async ({ user: moderator, body: { reportId, action } }) => {
+    // 1. 관리자 권한 검증
+    if (!(await isAdmin())) {
+      throw new ApiError("FORBIDDEN", "관리자만 접근할 수 있습니다.");
+    }
+
+    const supabase = getServiceRoleClient();
+
+    // 2. 신고 조회 (처리 대기 중인 신고만 처리 가능)
+    const { data: report, error: reportError } = await supabase
+      .from("reports")
+      .select("id, target_type, target_id, status")
+      .eq("id", reportId)
+      .single();
+
+    if (reportError || !report) {
+      throw new ApiError("NOT_FOUND", "신고를 찾을 수 없습니다.");
+    }
+
+    if (report.status !== "open") {
+      throw new ApiError("CONFLICT", "이미 처리된 신고입니다.");
+    }
+
+    const targetType = report.target_type as ReportTargetType;
+
+    // 3. 콘텐츠 숨김 / 작성자 계정 정지
+    if (action === "hide" || action === "suspend") {
+      if (action === "hide" && targetType === "user") {
+        throw new ApiError(
+          "BAD_REQUEST",
+          "계정 신고는 숨길 수 없습니다. 계정 정지를 사용해주세요."
+        );
+      }
+
+      const ownerId = await getTargetOwnerId(supabase, targetType, report.target_id);
+      if (!ownerId) {
+        throw new ApiError(
+          "NOT_FOUND",
+          "신고된 콘텐츠가 이미 삭제되었습니다. 기각으로 처리해주세요."
+        );
+      }
+
+      const { error: moderationError } =
+        action === "hide"
+          ? await supabase
+              .from(targetType === "post" ? "posts" : "comments")
+              .update({ is_hidden: true })
+              .eq("id", report.target_id)
+          : await supabase
+              .from("users")
+              .update({ is_suspended: true })
+              .eq("id", ownerId);
+
+      if (moderationError) {
+        console.error("Moderation update error:", moderationError);
+        throw new ApiError(
+          "INTERNAL_ERROR",
+          "신고 처리에 실패했습니다. 잠시 후 다시 시도해주세요."
+        );
+      }
+    }
+
+    // 4. 같은 대상에 대한 처리 대기 중인 신고 모두 처리
+    const status = ACTION_STATUS[action];
+    const { error: resolveError } = await supabase
+      .from("reports")
+      .update({
+        status,
+        resolved_by: moderator.id,
+        resolved_at: new Date().toISOString(),
+      })
+      .eq("target_type", targetType)
+      .eq("target_id", report.target_id)
+      .eq("status", "open");
+
+    if (resolveError) {
+      console.error("Report resolve error:", resolveError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "신고 처리에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    return NextResponse.json({ success: true, status });
+  }
+);
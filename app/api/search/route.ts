@@ -3,19 +3,42 @@
  * @description 검색 API
  *
  * GET: 일반 검색 기능
- * - 게시물의 caption, title에서 검색
- * - 사용자 이름에서 검색
- * - 페이지네이션 지원
+ * - 게시물의 caption, title에서 검색 (비공개 계정 게시물은 팔로워에게만 표시)
+ * - 차단 관계인 사용자와 그 게시물은 결과에서 제외
+ * - 숨김 게시물과 정지된 계정은 결과에서 제외 (게시물은 post_stats 뷰에서 제외됨)
+ * - 사용자 이름 및 사용자 이름(핸들)에서 검색 (@멘션 자동완성에도 사용)
+ * - 커서 기반 페이지네이션 지원
+ *   - 게시물: cursor → nextCursor
+ *   - 사용자: usersCursor → usersNextCursor
+ *   - 하위 호환: offset
  */
 
-import { NextRequest, NextResponse } from "next/server";
-import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler } from "@/lib/api-handler";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { fetchPostMediaMap } from "@/lib/post-media";
+import {
+  getBlockedUserIds,
+  getViewerId,
+  toInFilter,
+} from "@/lib/privacy";
 import type { PostWithStats, User } from "@/lib/types";
 
 // Route Segment Config
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+const searchQuerySchema = z.object({
+  q: z.string().optional(),
+  type: z.enum(["all", "posts", "users"]).catch("all"),
+});
+
 /**
  * GET /api/search
  * 검색 기능
@@ -23,48 +46,64 @@ export const dynamic = 'force-dynamic';
  * @param request - NextRequest 객체
  * @returns 검색 결과 (게시물 및 사용자)
  */
-export async function GET(request: NextRequest) {
-  try {
-    const supabase = createClerkSupabaseClient();
+export const GET = apiHandler(
+  {
+    name: "GET /api/search",
+    errorMessage: "검색 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+    query: searchQuerySchema,
+  },
+  async ({ supabase, request, query: { q, type } }) => {
+    // 페이지네이션 파라미터 파싱 (type: "all", "posts", "users")
     const searchParams = request.nextUrl.searchParams;
-
-    // 쿼리 파라미터 파싱
-    const query = searchParams.get("q");
-    const type = searchParams.get("type") || "all"; // "all", "posts", "users"
-    const limit = parseInt(searchParams.get("limit") || "20", 10);
-    const offset = parseInt(searchParams.get("offset") || "0", 10);
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 20);
+    const { cursor: usersCursor } = parsePaginationParams(
+      searchParams,
+      20,
+      "usersCursor"
+    );
 
     // 검색어가 없으면 빈 결과 반환
-    if (!query || query.trim().length === 0) {
+    if (!q || q.trim().length === 0) {
       return NextResponse.json({
         posts: [],
         users: [],
         hasMore: false,
+        nextCursor: null,
+        usersNextCursor: null,
       });
     }
 
-    const searchQuery = query.trim();
+    const searchQuery = q.trim();
 
     const results: {
       posts: PostWithStats[];
       users: User[];
       postUsers: User[]; // 게시물 작성자 정보
       hasMore: boolean;
+      nextCursor: string | null; // 게시물 다음 페이지 커서
+      usersNextCursor: string | null; // 사용자 다음 페이지 커서
     } = {
       posts: [],
       users: [],
       postUsers: [],
       hasMore: false,
+      nextCursor: null,
+      usersNextCursor: null,
     };
 
+    // 차단 관계인 사용자 (게시물, 사용자 검색 모두 제외)
+    const viewerId = await getViewerId(supabase);
+    const blockedUserIds = await getBlockedUserIds(supabase, viewerId);
+
     // 게시물 검색 (caption, title에서 검색)
     if (type === "all" || type === "posts") {
       // post_stats 뷰에서 검색
       // PostgreSQL의 ILIKE를 사용하여 대소문자 구분 없이 검색
       // Supabase PostgREST에서는 or()와 ilike()를 함께 사용할 때 올바른 형식 필요
-      let query = supabase
-        .from("post_stats")
-        .select("*");
+      let query = orderByCursor(supabase.from("post_stats").select("*"), {
+        idColumn: "post_id",
+      });
 
       // caption 또는 title에서 검색
       // or() 메서드 사용 시 올바른 형식: "field1.ilike.value,field2.ilike.value"
@@ -72,24 +111,46 @@ export async function GET(request: NextRequest) {
         `caption.ilike.%${searchQuery}%,title.ilike.%${searchQuery}%`
       );
 
-      const { data: postStats, error: postsError } = await query
-        .order("created_at", { ascending: false })
-        .range(offset, offset + limit - 1);
+      // 비공개 계정(본인 및 팔로우 중인 계정은 포함) 및 차단 관계인 사용자의 게시물 제외
+      query = query.eq("is_visible_to_viewer", true);
+      if (blockedUserIds.length > 0) {
+        query = query.not("user_id", "in", toInFilter(blockedUserIds));
+      }
+
+      query = cursor
+        ? applyCursor(query, cursor, { idColumn: "post_id" }).limit(limit + 1)
+        : query.range(offset, offset + limit);
+
+      const { data: rows, error: postsError } = await query;
+      const {
+        items: postStats,
+        hasMore,
+        nextCursor,
+      } = paginate(rows, limit, (row) => ({
+        createdAt: row.created_at,
+        id: row.post_id,
+      }));
 
       if (postsError) {
         console.error("Posts search error:", postsError);
-      } else if (postStats && postStats.length > 0) {
+      } else if (postStats.length > 0) {
         // 사용자 정보 조회
         const userIds = [...new Set(postStats.map((p) => p.user_id))];
         const { data: users, error: usersError } = await supabase
           .from("users")
-          .select("id, clerk_id, name, created_at")
+          .select("id, clerk_id, name, username, avatar_url, created_at")
           .in("id", userIds);
 
         if (usersError) {
           console.error("Users query error:", usersError);
         }
 
+        // 미디어 목록 조회
+        const mediaMap = await fetchPostMediaMap(
+          supabase,
+          postStats.map((p) => p.post_id)
+        );
+
         // PostWithStats 형식으로 변환
         results.posts = postStats.map((stat) => ({
           id: stat.post_id,
@@ -101,41 +162,57 @@ export async function GET(request: NextRequest) {
           updated_at: stat.created_at,
           likes_count: Number(stat.likes_count) || 0,
           comments_count: Number(stat.comments_count) || 0,
+          media: mediaMap.get(stat.post_id),
         }));
 
         // 게시물 작성자 정보 저장
         results.postUsers = users || [];
 
-        results.hasMore = postStats.length === limit;
+        results.hasMore = hasMore;
+        results.nextCursor = nextCursor;
       }
     }
 
-    // 사용자 검색 (이름에서 검색)
+    // 사용자 검색 (이름 또는 사용자 이름에서 검색)
     if (type === "all" || type === "users") {
-      const { data: users, error: usersError } = await supabase
-        .from("users")
-        .select("id, clerk_id, name, created_at")
-        .ilike("name", `%${searchQuery}%`)
-        .order("created_at", { ascending: false })
-        .range(offset, offset + limit - 1);
+      let usersQuery = orderByCursor(
+        supabase
+          .from("users")
+          .select("id, clerk_id, name, username, avatar_url, created_at")
+          .or(`name.ilike.%${searchQuery}%,username.ilike.%${searchQuery}%`)
+          .eq("is_suspended", false)
+      );
+
+      if (blockedUserIds.length > 0) {
+        usersQuery = usersQuery.not("id", "in", toInFilter(blockedUserIds));
+      }
+
+      usersQuery = usersCursor
+        ? applyCursor(usersQuery, usersCursor).limit(limit + 1)
+        : usersQuery.range(offset, offset + limit);
+
+      const { data: userRows, error: usersError } = await usersQuery;
 
       if (usersError) {
         console.error("Users search error:", usersError);
-      } else if (users) {
+      } else {
+        const {
+          items: users,
+          hasMore,
+          nextCursor,
+        } = paginate(userRows, limit, (user) => ({
+          createdAt: user.created_at,
+          id: user.id,
+        }));
+
         results.users = users;
-        // 사용자 검색 결과가 limit만큼 있으면 더 있을 수 있음
-        if (users.length === limit) {
+        results.usersNextCursor = nextCursor;
+        if (hasMore) {
           results.hasMore = true;
         }
       }
     }
 
     return NextResponse.json(results);
-  } catch (error) {
-    console.error("Search API error:", error);
-    return NextResponse.json(
-      { error: "검색 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
-      { status: 500 }
-    );
   }
-}
+);
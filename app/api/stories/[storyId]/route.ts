@@ -0,0 +1,70 @@
+/**
+ * @file app/api/stories/[storyId]/route.ts
+ * @description 스토리 삭제 API
+ *
+ * DELETE: 본인 스토리 삭제 (stories 버킷의 미디어 파일 포함)
+ *
+ * @see app/api/stories/route.ts
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { removeStoryMedia } from "@/lib/stories";
+
+const storyParamsSchema = z.object({
+  storyId: idSchema("storyId"),
+});
+
+/**
+ * DELETE /api/stories/[storyId]
+ * 스토리 삭제
+ */
+export const DELETE = apiHandler(
+  {
+    name: "DELETE /api/stories/[storyId]",
+    errorMessage: "스토리 삭제에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    params: storyParamsSchema,
+  },
+  async ({ user, supabase, params: { storyId } }) => {
+    // 1. 스토리 조회 및 소유권 확인
+    const { data: story } = await supabase
+      .from("stories")
+      .select("id, user_id, media_url")
+      .eq("id", storyId)
+      .maybeSingle();
+
+    if (!story) {
+      throw new ApiError("NOT_FOUND", "스토리를 찾을 수 없습니다.");
+    }
+
+    if (story.user_id !== user.id) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 스토리만 삭제할 수 있습니다."
+      );
+    }
+
+    // 2. Storage 파일 삭제 (실패해도 DB 삭제는 진행)
+    try {
+      await removeStoryMedia(getServiceRoleClient(), [story.media_url]);
+    } catch (storageErr) {
+      console.error("Story media deletion failed:", storageErr);
+    }
+
+    // 3. 스토리 삭제 (CASCADE로 조회 기록 자동 삭제)
+    const { error: deleteError } = await supabase
+      .from("stories")
+      .delete()
+      .eq("id", storyId);
+
+    if (deleteError) {
+      console.error("Story delete error:", deleteError);
+      throw new ApiError("INTERNAL_ERROR", "스토리 삭제에 실패했습니다.");
+    }
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,86 @@
+/**
+ * @file app/api/stories/[storyId]/view/route.ts
+ * @description 스토리 조회 기록 API
+ *
+ * POST: 현재 사용자가 스토리를 본 것으로 기록
+ *   - 본인 스토리는 기록하지 않음
+ *   - 같은 스토리를 다시 봐도 처음 조회 시각 유지
+ *   - 정지된 계정, 차단 관계, 팔로우하지 않은 비공개 계정의 스토리는 404
+ *
+ * @see app/api/stories/route.ts
+ */
+
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { canViewUserContent, isBlockedBetween } from "@/lib/privacy";
+import { getActiveStory } from "@/lib/stories";
+
+const storyParamsSchema = z.object({
+  storyId: idSchema("storyId"),
+});
+
+/**
+ * 스토리 작성자의 스토리를 볼 수 있는지 확인
+ */
+async function canViewStories(
+  supabase: SupabaseClient,
+  viewerId: string,
+  ownerId: string
+): Promise<boolean> {
+  const { data: owner } = await supabase
+    .from("users")
+    .select("is_suspended")
+    .eq("id", ownerId)
+    .maybeSingle();
+
+  if (!owner || owner.is_suspended) return false;
+  if (await isBlockedBetween(supabase, viewerId, ownerId)) return false;
+
+  return canViewUserContent(supabase, viewerId, ownerId);
+}
+
+/**
+ * POST /api/stories/[storyId]/view
+ * 스토리 조회 기록
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/stories/[storyId]/view",
+    errorMessage: "스토리 조회 기록에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    params: storyParamsSchema,
+  },
+  async ({ user, supabase, params: { storyId } }) => {
+    // 1. 스토리 조회 (만료된 스토리는 404)
+    const story = await getActiveStory(supabase, storyId);
+    if (!story) {
+      throw new ApiError("NOT_FOUND", "스토리를 찾을 수 없습니다.");
+    }
+
+    // 본인 스토리는 기록하지 않음
+    if (story.user_id === user.id) {
+      return NextResponse.json({ success: true });
+    }
+
+    if (!(await canViewStories(supabase, user.id, story.user_id))) {
+      throw new ApiError("NOT_FOUND", "스토리를 찾을 수 없습니다.");
+    }
+
+    // 2. 조회 기록 저장 (이미 본 스토리면 무시)
+    const { error: upsertError } = await supabase
+      .from("story_views")
+      .upsert(
+        { story_id: storyId, viewer_id: user.id },
+        { onConflict: "story_id,viewer_id", ignoreDuplicates: true }
+      );
+
+    if (upsertError) {
+      console.error("Story view upsert error:", upsertError);
+      throw new ApiError("INTERNAL_ERROR", "스토리 조회 기록에 실패했습니다.");
+    }
+
+    return NextResponse.json({ success: true });
+  }
+);
@@ -0,0 +1,125 @@
+/**
+ * @file app/api/stories/[storyId]/viewers/route.ts
+ * @description 스토리를 조회한 사람 목록 API
+ *
+ * GET: 스토리를 본 사용자 목록 (최근 조회순, 커서 기반 페이지네이션)
+ *   - 스토리 작성자 본인만 조회 가능
+ *   - 차단 관계인 사용자는 제외
+ *
+ * @see app/api/stories/route.ts
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { apiHandler, idSchema } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { getBlockedUserIds, toInFilter } from "@/lib/privacy";
+import { getActiveStory } from "@/lib/stories";
+import type { StoryViewerWithUser, User } from "@/lib/types";
+
+const storyParamsSchema = z.object({
+  storyId: idSchema("storyId"),
+});
+
+const CURSOR_OPTIONS = { createdAtColumn: "viewed_at", idColumn: "viewer_id" };
+
+/**
+ * GET /api/stories/[storyId]/viewers
+ * 스토리를 조회한 사람 목록
+ *
+ * @returns { viewers: StoryViewerWithUser[], totalCount, hasMore, nextCursor }
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/stories/[storyId]/viewers",
+    errorMessage: "조회한 사람 목록을 불러오는데 실패했습니다.",
+    params: storyParamsSchema,
+  },
+  async ({ user, supabase, request, params: { storyId } }) => {
+    const { limit, offset, cursor } = parsePaginationParams(
+      request.nextUrl.searchParams,
+      50
+    );
+
+    // 1. 스토리 조회 및 소유권 확인
+    const story = await getActiveStory(supabase, storyId);
+    if (!story) {
+      throw new ApiError("NOT_FOUND", "스토리를 찾을 수 없습니다.");
+    }
+
+    if (story.user_id !== user.id) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 스토리만 확인할 수 있습니다."
+      );
+    }
+
+    // 2. 조회 기록 조회 (차단 관계인 사용자 제외)
+    const blockedIds = await getBlockedUserIds(supabase, user.id);
+
+    let query = supabase
+      .from("story_views")
+      .select(
+        `
+        viewer_id,
+        viewed_at,
+        users (
+          id,
+          clerk_id,
+          name,
+          username,
+          avatar_url,
+          created_at
+        )
+      `,
+        { count: "exact" }
+      )
+      .eq("story_id", storyId);
+
+    if (blockedIds.length > 0) {
+      query = query.not("viewer_id", "in", toInFilter(blockedIds));
+    }
+
+    query = orderByCursor(query, CURSOR_OPTIONS);
+    const {
+      data: views,
+      error: viewsError,
+      count,
+    } = await (cursor
+      ? applyCursor(query, cursor, CURSOR_OPTIONS).limit(limit + 1)
+      : query.range(offset, offset + limit));
+
+    if (viewsError) {
+      console.error("Story viewers query error:", viewsError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "조회한 사람 목록을 불러오는데 실패했습니다."
+      );
+    }
+
+    const { items, hasMore, nextCursor } = paginate(views, limit, (view) => ({
+      createdAt: view.viewed_at,
+      id: view.viewer_id,
+    }));
+
+    const viewers: StoryViewerWithUser[] = items
+      .filter((view) => view.users)
+      .map((view) => ({
+        user: view.users as unknown as User,
+        viewed_at: view.viewed_at,
+      }));
+
+    return NextResponse.json({
+      viewers,
+      totalCount: count ?? viewers.length,
+      hasMore,
+      nextCursor,
+    });
+  }
+);
@@ -0,0 +1,249 @@
+/**
+ * @file app/api/stories/route.ts
+ * @description 스토리 API
+ *
+ * GET: 스토리 트레이 조회 (본인 + 팔로우 중인 사용자의 만료되지 않은 스토리)
+ *   - 사용자별로 묶어 본인 → 안 본 스토리가 있는 사용자 → 모두 본 사용자 순으로 정렬
+ *   - 차단 관계, 음소거, 정지된 계정의 스토리는 제외
+ *   - 본인 스토리에는 조회 수 포함
+ *   - 일정 간격으로 만료된 스토리와 Storage 파일 정리
+ * POST: 스토리 생성 ({ mediaUrl: string, mediaType: "image" | "video" })
+ *   - 클라이언트가 Supabase Storage(stories 버킷)에 업로드한 미디어 URL 검증
+ *     (만료 시 Service Role로 파일을 삭제하므로 본인 폴더 `${clerkUserId}/`의 파일만 허용)
+ *   - 24시간 후 만료 (expires_at은 DB 기본값)
+ *
+ * @see supabase/migrations/20250105000012_create_stories_tables.sql
+ */
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { getStoragePath, isOwnStoragePath } from "@/lib/post-media";
+import { getBlockedUserIds, getMutedUserIds } from "@/lib/privacy";
+import {
+  purgeExpiredStories,
+  shouldPurgeExpiredStories,
+  sortStoryTray,
+  STORY_BUCKET,
+} from "@/lib/stories";
+import type { Story, StoryTrayItem, User } from "@/lib/types";
+
+const STORY_COLUMNS = "id, user_id, media_url, media_type, created_at, expires_at";
+
+const USER_COLUMNS = "id, clerk_id, name, username, avatar_url, created_at";
+
+const INVALID_MEDIA_MESSAGE = "유효하지 않은 미디어 URL입니다.";
+
+// 클라이언트가 stories 버킷에 업로드한 미디어만 허용
+const createStorySchema = z.object({
+  mediaUrl: z
+    .string({
+      required_error: INVALID_MEDIA_MESSAGE,
+      invalid_type_error: INVALID_MEDIA_MESSAGE,
+    })
+    .refine(
+      (mediaUrl) =>
+        mediaUrl.startsWith(
+          `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${STORY_BUCKET}/`
+        ),
+      INVALID_MEDIA_MESSAGE
+    ),
+  mediaType: z.enum(["image", "video"], {
+    errorMap: () => ({ message: INVALID_MEDIA_MESSAGE }),
+  }),
+});
+
+/**
+ * GET /api/stories
+ * 스토리 트레이 조회
+ *
+ * @returns { trays: StoryTrayItem[], currentUser: User } (currentUser는 "내 스토리" 표시용)
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/stories",
+    errorMessage: "스토리를 불러오는데 실패했습니다.",
+  },
+  async ({ user, supabase }) => {
+    // 1. 만료된 스토리 정리 (실패해도 트레이 조회는 진행)
+    if (shouldPurgeExpiredStories()) {
+      try {
+        await purgeExpiredStories(getServiceRoleClient());
+      } catch (purgeError) {
+        console.error("Expired stories purge failed:", purgeError);
+      }
+    }
+
+    // 2. 팔로우 중인 사용자 중 차단/음소거/정지된 계정 제외
+    const { data: follows, error: followsError } = await supabase
+      .from("follows")
+      .select("following_id, users!following_id!inner(id)")
+      .eq("follower_id", user.id)
+      .eq("users.is_suspended", false);
+
+    if (followsError) {
+      console.error("Follows query error:", followsError);
+      throw new ApiError("INTERNAL_ERROR", "스토리를 불러오는데 실패했습니다.");
+    }
+
+    const [blockedIds, mutedIds] = await Promise.all([
+      getBlockedUserIds(supabase, user.id),
+      getMutedUserIds(supabase, user.id),
+    ]);
+    const excludedIds = new Set([...blockedIds, ...mutedIds]);
+    const authorIds = [
+      user.id,
+      ...(follows || [])
+        .map((follow) => follow.following_id)
+        .filter((id) => !excludedIds.has(id)),
+    ];
+
+    // 3. 만료되지 않은 스토리 조회 (오래된 순 = 재생 순서)
+    const { data: stories, error: storiesError } = await supabase
+      .from("stories")
+      .select(STORY_COLUMNS)
+      .in("user_id", authorIds)
+      .gt("expires_at", new Date().toISOString())
+      .order("created_at", { ascending: true });
+
+    if (storiesError) {
+      console.error("Stories query error:", storiesError);
+      throw new ApiError("INTERNAL_ERROR", "스토리를 불러오는데 실패했습니다.");
+    }
+
+    const storyList = (stories || []) as Story[];
+    if (storyList.length === 0) {
+      return NextResponse.json({ trays: [], currentUser: user });
+    }
+
+    // 4. 조회 기록 (다른 사용자 스토리: 본 스토리 / 본인 스토리: 조회 수)
+    const ownStoryIds = storyList
+      .filter((story) => story.user_id === user.id)
+      .map((story) => story.id);
+    const otherStoryIds = storyList
+      .filter((story) => story.user_id !== user.id)
+      .map((story) => story.id);
+
+    const [seenResult, ownViewsResult, authorsResult] = await Promise.all([
+      otherStoryIds.length > 0
+        ? supabase
+            .from("story_views")
+            .select("story_id")
+            .eq("viewer_id", user.id)
+            .in("story_id", otherStoryIds)
+        : Promise.resolve({ data: [], error: null }),
+      ownStoryIds.length > 0
+        ? supabase
+            .from("story_views")
+            .select("story_id, viewer_id")
+            .in("story_id", ownStoryIds)
+        : Promise.resolve({ data: [], error: null }),
+      supabase
+        .from("users")
+        .select(USER_COLUMNS)
+        .in("id", [...new Set(storyList.map((story) => story.user_id))]),
+    ]);
+
+    if (seenResult.error || ownViewsResult.error || authorsResult.error) {
+      console.error(
+        "Story details query error:",
+        seenResult.error || ownViewsResult.error || authorsResult.error
+      );
+      throw new ApiError("INTERNAL_ERROR", "스토리를 불러오는데 실패했습니다.");
+    }
+
+    const seenIds = new Set(
+      (seenResult.data || []).map((view) => view.story_id)
+    );
+    // 차단 관계인 사용자의 조회는 조회 수에서 제외
+    const viewCountMap = new Map<string, number>();
+    for (const view of ownViewsResult.data || []) {
+      if (blockedIds.includes(view.viewer_id)) continue;
+      viewCountMap.set(view.story_id, (viewCountMap.get(view.story_id) || 0) + 1);
+    }
+    const authorMap = new Map<string, User>(
+      (authorsResult.data || []).map((author) => [author.id, author])
+    );
+
+    // 5. 사용자별로 묶어 트레이 구성
+    const trayMap = new Map<string, StoryTrayItem>();
+    for (const story of storyList) {
+      const author = authorMap.get(story.user_id);
+      if (!author) continue;
+
+      const isOwn = story.user_id === user.id;
+      const seen = isOwn || seenIds.has(story.id);
+      const item = trayMap.get(story.user_id) || {
+        user: author,
+        stories: [],
+        has_unseen: false,
+        latest_at: story.created_at,
+      };
+
+      item.stories.push({
+        ...story,
+        seen,
+        ...(isOwn && { view_count: viewCountMap.get(story.id) || 0 }),
+      });
+      item.has_unseen = item.has_unseen || !seen;
+      item.latest_at = story.created_at; // 오래된 순으로 조회하므로 마지막 스토리가 최신
+      trayMap.set(story.user_id, item);
+    }
+
+    return NextResponse.json({
+      trays: sortStoryTray([...trayMap.values()], user.id),
+      currentUser: user,
+    });
+  }
+);
+
+/**
+ * POST /api/stories
+ * 스토리 생성 (메타데이터만 저장)
+ *
+ * 클라이언트에서 직접 stories 버킷에 파일을 업로드한 후 호출합니다.
+ *
+ * @returns { story: Story }
+ */
+export const POST = apiHandler(
+  {
+    name: "POST /api/stories",
+    errorMessage: "스토리 저장에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: createStorySchema,
+  },
+  async ({ clerkUserId, user, supabase, body: { mediaUrl, mediaType } }) => {
+    // 1. 정지된 계정은 스토리를 올릴 수 없음
+    if (user.is_suspended) {
+      throw new ApiError(
+        "ACCOUNT_SUSPENDED",
+        "정지된 계정은 스토리를 올릴 수 없습니다."
+      );
+    }
+
+    // 2. 본인 폴더에 업로드한 파일만 허용
+    const mediaPath = getStoragePath(mediaUrl, STORY_BUCKET);
+    if (!mediaPath || !isOwnStoragePath(mediaPath, clerkUserId)) {
+      throw new ApiError("BAD_REQUEST", INVALID_MEDIA_MESSAGE);
+    }
+
+    // 3. 스토리 저장
+    const { data: story, error: insertError } = await supabase
+      .from("stories")
+      .insert({
+        user_id: user.id,
+        media_url: mediaUrl,
+        media_type: mediaType,
+      })
+      .select(STORY_COLUMNS)
+      .single();
+
+    if (insertError || !story) {
+      console.error("Story insert error:", insertError);
+      throw new ApiError("INTERNAL_ERROR", "스토리 저장에 실패했습니다.");
+    }
+
+    return NextResponse.json({ story }, { status: 201 });
+  }
+);
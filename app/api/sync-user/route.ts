@@ -1,56 +1,89 @@
-import { auth, clerkClient } from "@clerk/nextjs/server";
+import { clerkClient } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
 
 /**
  * Clerk 사용자를 Supabase users 테이블에 동기화하는 API
  *
  * 클라이언트에서 로그인 후 이 API를 호출하여 사용자 정보를 Supabase에 저장합니다.
- * 이미 존재하는 경우 업데이트하고, 없으면 새로 생성합니다.
+ * 없으면 새로 생성하고, 이미 존재하는 경우 사용자가 프로필을 직접 수정하지 않았을 때만
+ * Clerk 이름으로 업데이트합니다. (profile_updated_at이 있으면 덮어쓰지 않음)
+ *
+ * users 행이 생기기 전에 호출되므로 Clerk 인증만 확인합니다. (auth: "clerk")
  */
-export async function POST() {
-  try {
-    // Clerk 인증 확인
-    const { userId } = await auth();
-
-    if (!userId) {
-      return NextResponse.json({ error: "로그인이 필요합니다." }, { status: 401 });
-    }
-
+export const POST = apiHandler(
+  {
+    name: "POST /api/sync-user",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "clerk",
+  },
+  async ({ clerkUserId }) => {
     // Clerk에서 사용자 정보 가져오기
     const client = await clerkClient();
-    const clerkUser = await client.users.getUser(userId);
+    const clerkUser = await client.users.getUser(clerkUserId);
 
     if (!clerkUser) {
-      return NextResponse.json({ error: "사용자 정보를 찾을 수 없습니다." }, { status: 404 });
+      throw new ApiError("NOT_FOUND", "사용자 정보를 찾을 수 없습니다.");
     }
 
     // Supabase에 사용자 정보 동기화
     const supabase = getServiceRoleClient();
+    const clerkName =
+      clerkUser.fullName ||
+      clerkUser.username ||
+      clerkUser.emailAddresses[0]?.emailAddress ||
+      "Unknown";
 
-    const { data, error } = await supabase
+    const { data: existingUser, error: lookupError } = await supabase
       .from("users")
-      .upsert(
-        {
-          clerk_id: clerkUser.id,
-          name:
-            clerkUser.fullName ||
-            clerkUser.username ||
-            clerkUser.emailAddresses[0]?.emailAddress ||
-            "Unknown",
-        },
-        {
-          onConflict: "clerk_id",
-        }
-      )
-      .select()
-      .single();
+      .select("*")
+      .eq("clerk_id", clerkUser.id)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Supabase user lookup error:", lookupError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "사용자 동기화에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 사용자가 직접 수정한 프로필은 그대로 유지
+    if (existingUser?.profile_updated_at) {
+      return NextResponse.json({
+        success: true,
+        user: existingUser,
+      });
+    }
+
+    const { data, error } = existingUser
+      ? await supabase
+          .from("users")
+          .update({ name: clerkName })
+          .eq("id", existingUser.id)
+          .select()
+          .single()
+      : await supabase
+          .from("users")
+          .upsert(
+            {
+              clerk_id: clerkUser.id,
+              name: clerkName,
+            },
+            {
+              onConflict: "clerk_id",
+            }
+          )
+          .select()
+          .single();
 
     if (error) {
       console.error("Supabase sync error:", error);
-      return NextResponse.json(
-        { error: "사용자 동기화에 실패했습니다. 잠시 후 다시 시도해주세요." },
-        { status: 500 }
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "사용자 동기화에 실패했습니다. 잠시 후 다시 시도해주세요."
       );
     }
 
@@ -58,11 +91,5 @@ export async function POST() {
       success: true,
       user: data,
     });
-  } catch (error) {
-    console.error("Sync user error:", error);
-    return NextResponse.json(
-      { error: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요." },
-      { status: 500 }
-    );
   }
-}
+);
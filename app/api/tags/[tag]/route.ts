@@ -0,0 +1,172 @@
+/**
+ * @file app/api/tags/[tag]/route.ts
+ * @description 해시태그 게시물 API
+ *
+ * GET: 해시태그가 포함된 게시물 목록 조회
+ * - sort=recent (기본값): 최신순, 커서 기반 페이지네이션
+ * - sort=top: 인기순 (좋아요 수 → 댓글 수 → 최신순)
+ *   정렬 키가 바뀌므로 nextCursor에 다음 offset을 담아 반환 (클라이언트는 그대로 전달)
+ * - 비공개 계정(팔로우하지 않은), 차단/음소거한 사용자의 게시물 제외
+ * - 숨김 게시물과 정지된 계정의 게시물은 hashtag_post_stats 뷰에서 제외
+ *
+ * @see supabase/migrations/20250105000008_create_hashtags_tables.sql
+ */
+
+import { NextResponse } from "next/server";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { normalizeHashtag } from "@/lib/hashtags";
+import {
+  applyCursor,
+  orderByCursor,
+  paginate,
+  parsePaginationParams,
+} from "@/lib/pagination";
+import { fetchPostMediaMap } from "@/lib/post-media";
+import {
+  getBlockedUserIds,
+  getMutedUserIds,
+  getViewerId,
+  toInFilter,
+} from "@/lib/privacy";
+import type { HashtagSort, PostWithStats } from "@/lib/types";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * GET /api/tags/[tag]
+ * 해시태그 게시물 목록 조회
+ *
+ * @param request - NextRequest 객체
+ * @param params - 경로 파라미터 (tag: "#" 제외 해시태그)
+ * @returns 게시물 목록 및 페이지네이션 정보
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/tags/[tag]",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+  },
+  async ({ supabase, request, params: { tag: rawTag } }) => {
+    const tag = normalizeHashtag(decodeURIComponent(rawTag));
+
+    if (!tag) {
+      throw new ApiError("BAD_REQUEST", "올바르지 않은 해시태그입니다.");
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const { limit, offset, cursor } = parsePaginationParams(searchParams, 24);
+    const sort: HashtagSort =
+      searchParams.get("sort") === "top" ? "top" : "recent";
+
+    // 차단/음소거 접근 제어 (비공개 계정은 뷰의 is_visible_to_viewer로 제외)
+    const viewerId = await getViewerId(supabase);
+    const hiddenAuthorIds = [
+      ...new Set([
+        ...(await getBlockedUserIds(supabase, viewerId)),
+        ...(await getMutedUserIds(supabase, viewerId)),
+      ]),
+    ];
+
+    let query = supabase
+      .from("hashtag_post_stats")
+      .select("*")
+      .eq("hashtag", tag)
+      .eq("is_visible_to_viewer", true);
+
+    if (hiddenAuthorIds.length > 0) {
+      query = query.not("user_id", "in", toInFilter(hiddenAuthorIds));
+    }
+
+    // 인기순: offset 기반 (cursor에 offset 숫자를 담음)
+    // 최신순: 커서가 있으면 keyset 조건, 없으면 offset 사용 (다음 페이지 확인용으로 1개 더 조회)
+    let topOffset = 0;
+    if (sort === "top") {
+      const parsedOffset = parseInt(searchParams.get("cursor") || "", 10);
+      topOffset = Number.isNaN(parsedOffset) || parsedOffset < 0 ? offset : parsedOffset;
+
+      query = query
+        .order("likes_count", { ascending: false })
+        .order("comments_count", { ascending: false })
+        .order("created_at", { ascending: false })
+        .order("post_id", { ascending: false })
+        .range(topOffset, topOffset + limit);
+    } else {
+      query = orderByCursor(query, { idColumn: "post_id" });
+      query = cursor
+        ? applyCursor(query, cursor, { idColumn: "post_id" }).limit(limit + 1)
+        : query.range(offset, offset + limit);
+    }
+
+    const { data: rows, error: statsError } = await query;
+
+    if (statsError) {
+      console.error("Hashtag posts query error:", statsError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "게시물을 불러오는데 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    const page = paginate(rows, limit, (row) => ({
+      createdAt: row.created_at,
+      id: row.post_id,
+    }));
+    const postStats = page.items;
+    const hasMore = page.hasMore;
+    const nextCursor =
+      sort === "top"
+        ? hasMore
+          ? String(topOffset + limit)
+          : null
+        : page.nextCursor;
+
+    if (postStats.length === 0) {
+      return NextResponse.json({
+        posts: [],
+        users: [],
+        hasMore: false,
+        nextCursor: null,
+      });
+    }
+
+    // 작성자 정보 조회
+    const userIds = [...new Set(postStats.map((p) => p.user_id))];
+    const { data: users, error: usersError } = await supabase
+      .from("users")
+      .select("id, clerk_id, name, username, avatar_url")
+      .in("id", userIds);
+
+    if (usersError) {
+      console.error("Users query error:", usersError);
+      // 사용자 정보가 없어도 게시물은 반환
+    }
+
+    // 게시물 미디어 목록 조회
+    const mediaMap = await fetchPostMediaMap(
+      supabase,
+      postStats.map((p) => p.post_id)
+    );
+
+    // PostWithStats 형식으로 변환
+    const posts: PostWithStats[] = postStats.map((stat) => ({
+      id: stat.post_id,
+      user_id: stat.user_id,
+      image_url: stat.image_url,
+      title: stat.title || null,
+      caption: stat.caption,
+      created_at: stat.created_at,
+      updated_at: stat.created_at, // 뷰에는 updated_at이 없으므로 created_at 사용
+      likes_count: Number(stat.likes_count) || 0,
+      comments_count: Number(stat.comments_count) || 0,
+      media: mediaMap.get(stat.post_id),
+    }));
+
+    return NextResponse.json({
+      posts,
+      users: users || [],
+      hasMore,
+      nextCursor,
+    });
+  }
+);
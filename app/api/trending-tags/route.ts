@@ -0,0 +1,82 @@
+/**
+ * @file app/api/trending-tags/route.ts
+ * @description 인기 해시태그 API
+ *
+ * GET: 최근 기간(슬라이딩 윈도우) 동안 가장 많은 게시물에 추가된 해시태그
+ * - hours: 집계 기간 (기본값 24, 1~168시간)
+ * - limit: 최대 개수 (기본값 10, 최대 50)
+ * - 비공개 계정, 숨김 게시물, 정지된 계정의 게시물은 집계에서 제외
+ *
+ * @see supabase/migrations/20250105000008_create_hashtags_tables.sql (get_trending_hashtags)
+ */
+
+import { NextResponse } from "next/server";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import type { TrendingHashtag } from "@/lib/types";
+
+const DEFAULT_WINDOW_HOURS = 24;
+const MAX_WINDOW_HOURS = 24 * 7;
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * 정수 쿼리 파라미터 파싱 (범위를 벗어나면 기본값)
+ */
+function parseBoundedInt(
+  value: string | null,
+  defaultValue: number,
+  max: number
+): number {
+  const parsed = parseInt(value || String(defaultValue), 10);
+  if (Number.isNaN(parsed) || parsed < 1) return defaultValue;
+  return Math.min(parsed, max);
+}
+
+/**
+ * GET /api/trending-tags
+ * 인기 해시태그 조회
+ *
+ * @param request - NextRequest 객체
+ * @returns 인기 해시태그 목록 및 집계 기간
+ */
+export const GET = apiHandler(
+  {
+    name: "GET /api/trending-tags",
+    errorMessage: "서버 오류가 발생했습니다. 잠시 후 다시 시도해주세요.",
+    auth: "none",
+  },
+  async ({ supabase, request }) => {
+    const searchParams = request.nextUrl.searchParams;
+    const hours = parseBoundedInt(
+      searchParams.get("hours"),
+      DEFAULT_WINDOW_HOURS,
+      MAX_WINDOW_HOURS
+    );
+    const limit = parseBoundedInt(searchParams.get("limit"), DEFAULT_LIMIT, MAX_LIMIT);
+
+    const since = new Date(Date.now() - hours * 60 * 60 * 1000).toISOString();
+
+    const { data, error } = await supabase.rpc("get_trending_hashtags", {
+      since,
+      max_count: limit,
+    });
+
+    if (error) {
+      console.error("Trending hashtags query error:", error);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "인기 해시태그를 불러오는데 실패했습니다."
+      );
+    }
+
+    const tags: TrendingHashtag[] = (data || []).map(
+      (row: { name: string; posts_count: number | string }) => ({
+        name: row.name,
+        posts_count: Number(row.posts_count) || 0,
+      })
+    );
+
+    return NextResponse.json({ tags, hours });
+  }
+);
@@ -1,21 +1,145 @@
 /**
  * @file app/api/users/[userId]/route.ts
- * @description 사용자 정보 조회 API
+ * @description 사용자 정보 조회/수정 API
  *
  * GET: 사용자 정보 및 통계 조회
  * - URL 파라미터 userId는 Clerk user ID로 받음
  * - clerk_id로 users 테이블 조회
- * - user_stats 뷰 활용하여 통계 정보 포함
- * - 현재 로그인 사용자의 팔로우 상태 확인
+ * - users 테이블의 카운터 컬럼(게시물/팔로워/팔로잉 수)으로 통계 정보 포함
+ * - 현재 로그인 사용자의 팔로우 상태 확인 (팔로우 중 / 요청됨 / 없음), 차단/음소거 여부
+ * - 나를 차단한 사용자, 정지된 계정(본인 제외)은 404
+ * PATCH: 프로필 수정 (본인만)
+ * - 이름, 사용자 이름(고유), 소개, 웹사이트, 프로필 사진 (avatars 버킷의 본인 폴더 `${clerkUserId}/`)
+ * - 비공개 계정 전환 (공개로 전환 시 대기 중인 팔로우 요청 자동 승인)
  *
  * @see docs/PRD.md
  * @see docs/TODO.md
  */
 
-import { NextRequest, NextResponse } from "next/server";
+import { NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
-import { createClient } from "@/utils/supabase/server";
-import type { UserWithStats } from "@/lib/types";
+import { z } from "zod";
+import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { apiHandler } from "@/lib/api-handler";
+import { ApiError } from "@/lib/api-errors";
+import { getStoragePath, isOwnStoragePath } from "@/lib/post-media";
+import { getBlockStatus, getFollowStatus, isMutedBy } from "@/lib/privacy";
+import {
+  AVATAR_BUCKET,
+  MAX_BIO_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_WEBSITE_LENGTH,
+  normalizeWebsite,
+  validateUsername,
+} from "@/lib/profile";
+import type { FollowStatus, UserProfile } from "@/lib/types";
+
+type SupabaseServerClient = ReturnType<typeof createClerkSupabaseClient>;
+
+const USER_PROFILE_COLUMNS =
+  "id, clerk_id, name, username, bio, website, avatar_url, is_private, is_suspended, created_at";
+
+// 트리거로 갱신되는 통계 카운터 컬럼
+const USER_STATS_COLUMNS = "posts_count, followers_count, following_count";
+
+const NAME_LENGTH_MESSAGE = `이름은 1~${MAX_NAME_LENGTH}자여야 합니다.`;
+
+// 프로필 수정 요청 (전달된 필드만 수정, 빈 값은 null로 저장)
+const updateProfileSchema = z.object({
+  name: z
+    .string({ invalid_type_error: NAME_LENGTH_MESSAGE })
+    .trim()
+    .min(1, NAME_LENGTH_MESSAGE)
+    .max(MAX_NAME_LENGTH, NAME_LENGTH_MESSAGE)
+    .optional(),
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .nullable()
+    .superRefine((username, ctx) => {
+      const usernameError = username ? validateUsername(username) : null;
+      if (usernameError) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: usernameError });
+      }
+    })
+    .transform((username) => username || null)
+    .optional(),
+  bio: z
+    .string()
+    .trim()
+    .max(MAX_BIO_LENGTH, `소개는 ${MAX_BIO_LENGTH}자 이하여야 합니다.`)
+    .nullable()
+    .transform((bio) => bio || null)
+    .optional(),
+  website: z
+    .string()
+    .nullable()
+    .transform((value, ctx) => {
+      const website = value ? normalizeWebsite(value) : null;
+      if (website === undefined || (website && website.length > MAX_WEBSITE_LENGTH)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "올바른 웹사이트 주소를 입력해주세요.",
+        });
+        return z.NEVER;
+      }
+      return website;
+    })
+    .optional(),
+  avatar_url: z
+    .string()
+    .nullable()
+    .transform((value, ctx) => {
+      const avatarUrl = value || null;
+      // avatars 버킷에 업로드된 파일만 허용 (본인 폴더인지는 핸들러에서 확인)
+      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+      const avatarPrefix = `${supabaseUrl}/storage/v1/object/public/${AVATAR_BUCKET}/`;
+      if (avatarUrl !== null && !avatarUrl.startsWith(avatarPrefix)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "유효하지 않은 프로필 사진입니다.",
+        });
+        return z.NEVER;
+      }
+      return avatarUrl;
+    })
+    .optional(),
+  is_private: z
+    .boolean({ invalid_type_error: "is_private는 boolean이어야 합니다." })
+    .optional(),
+});
+
+/**
+ * 대기 중인 팔로우 요청 모두 승인 (공개 계정 전환 시)
+ *
+ * 팔로우 추가, 요청 삭제, 팔로우 알림 생성은 approve_follow_requests() RPC로 처리합니다.
+ */
+async function approvePendingFollowRequests(
+  supabase: SupabaseServerClient,
+  targetId: string
+): Promise<void> {
+  const { data: requests, error: requestsError } = await supabase
+    .from("follow_requests")
+    .select("id")
+    .eq("target_id", targetId);
+
+  if (requestsError) {
+    console.error("Follow requests query error:", requestsError);
+    return;
+  }
+
+  if (!requests || requests.length === 0) return;
+
+  const { error: approveError } = await supabase.rpc("approve_follow_requests", {
+    target_request_ids: requests.map((request) => request.id),
+  });
+
+  if (approveError) {
+    console.error("Follow requests approve error:", approveError);
+  }
+}
 
 /**
  * GET /api/users/[userId]
@@ -25,43 +149,34 @@ import type { UserWithStats } from "@/lib/types";
  * @param params - 경로 파라미터 (userId: Clerk user ID)
  * @returns 사용자 정보 및 통계, 팔로우 상태
  */
-export async function GET(
-  request: NextRequest,
-  { params }: { params: Promise<{ userId: string }> }
-) {
-  try {
-    const { userId: clerkUserId } = await params;
-    const supabase = await createClient();
-
-    // 1. Clerk user ID로 Supabase user 조회
+export const GET = apiHandler(
+  {
+    name: "GET /api/users/[userId]",
+    errorMessage: "사용자 정보 조회에 실패했습니다.",
+    auth: "none",
+  },
+  async ({ supabase, params: { userId: clerkUserId } }) => {
+    // 1. Clerk user ID로 Supabase user 조회 (통계 포함)
     const { data: user, error: userError } = await supabase
       .from("users")
-      .select("id, clerk_id, name, created_at")
+      .select(`${USER_PROFILE_COLUMNS}, ${USER_STATS_COLUMNS}`)
       .eq("clerk_id", clerkUserId)
       .single();
 
-    if (userError || !user) {
-      return NextResponse.json(
-        { error: "사용자를 찾을 수 없습니다." },
-        { status: 404 }
-      );
-    }
-
-    // 2. user_stats 뷰에서 통계 정보 조회
-    const { data: userStats, error: statsError } = await supabase
-      .from("user_stats")
-      .select("*")
-      .eq("user_id", user.id)
-      .single();
-
-    if (statsError) {
-      console.error("User stats query error:", statsError);
-      // 통계가 없어도 기본값으로 반환
+    // 정지된 계정은 본인 외에는 존재하지 않는 것으로 처리
+    const { userId: currentClerkUserId } = await auth();
+    if (
+      userError ||
+      !user ||
+      (user.is_suspended && currentClerkUserId !== clerkUserId)
+    ) {
+      throw new ApiError("NOT_FOUND", "사용자를 찾을 수 없습니다.");
     }
 
-    // 3. 현재 로그인 사용자의 팔로우 상태 확인
-    const { userId: currentClerkUserId } = await auth();
-    let isFollowing = false;
+    // 2. 현재 로그인 사용자의 팔로우 상태 확인
+    let followStatus: FollowStatus = "none";
+    let isBlocking = false;
+    let isMuted = false;
 
     if (currentClerkUserId && currentClerkUserId !== clerkUserId) {
       // 현재 사용자의 Supabase user ID 조회
@@ -72,40 +187,125 @@ export async function GET(
         .single();
 
       if (currentUser) {
-        // follows 테이블에서 팔로우 관계 확인
-        const { data: follow } = await supabase
-          .from("follows")
-          .select("id")
-          .eq("follower_id", currentUser.id)
-          .eq("following_id", user.id)
-          .single();
-
-        isFollowing = !!follow;
+        // follows / follow_requests 테이블에서 팔로우 관계 확인
+        const blockStatus = await getBlockStatus(supabase, currentUser.id, user.id);
+        if (blockStatus === "blocked_by") {
+          throw new ApiError("NOT_FOUND", "사용자를 찾을 수 없습니다.");
+        }
+
+        followStatus = await getFollowStatus(supabase, currentUser.id, user.id);
+        isBlocking = blockStatus === "blocking";
+        isMuted = await isMutedBy(supabase, currentUser.id, user.id);
       }
     }
 
-    // 4. UserWithStats 형식으로 변환
-    const userWithStats: UserWithStats & { isFollowing: boolean } = {
+    // 3. UserProfile 형식으로 변환 (통계 + 현재 사용자 기준 관계)
+    const userWithStats: UserProfile = {
       id: user.id,
       clerk_id: user.clerk_id,
       name: user.name,
+      username: user.username,
+      bio: user.bio,
+      website: user.website,
+      avatar_url: user.avatar_url,
+      is_private: user.is_private,
       created_at: user.created_at,
-      posts_count: Number(userStats?.posts_count) || 0,
-      followers_count: Number(userStats?.followers_count) || 0,
-      following_count: Number(userStats?.following_count) || 0,
-      isFollowing,
+      posts_count: user.posts_count,
+      followers_count: user.followers_count,
+      following_count: user.following_count,
+      isFollowing: followStatus === "following",
+      followStatus,
+      isBlocking,
+      isMuted,
     };
 
     return NextResponse.json(userWithStats);
-  } catch (error) {
-    console.error("GET /api/users/[userId] error:", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error ? error.message : "사용자 정보 조회에 실패했습니다.",
-      },
-      { status: 500 }
-    );
   }
-}
+);
 
+/**
+ * PATCH /api/users/[userId]
+ * 프로필 수정 (본인만)
+ *
+ * @param request - NextRequest 객체 (JSON body: { name?, username?, bio?, website?, avatar_url?, is_private? })
+ * @param params - 경로 파라미터 (userId: Clerk user ID)
+ * @returns 수정된 사용자 정보
+ */
+export const PATCH = apiHandler(
+  {
+    name: "PATCH /api/users/[userId]",
+    errorMessage: "프로필 수정에 실패했습니다. 잠시 후 다시 시도해주세요.",
+    body: updateProfileSchema,
+  },
+  async ({ clerkUserId: currentClerkUserId, user, supabase, body: updates, params }) => {
+    // 1. 본인 확인 (URL 파라미터 userId는 Clerk user ID)
+    if (currentClerkUserId !== params.userId) {
+      throw new ApiError(
+        "FORBIDDEN",
+        "권한이 없습니다. 본인의 프로필만 수정할 수 있습니다."
+      );
+    }
+
+    if (Object.keys(updates).length === 0) {
+      throw new ApiError("BAD_REQUEST", "수정할 내용이 없습니다.");
+    }
+
+    // 2. 프로필 사진은 본인 폴더(`${clerkUserId}/`)에 업로드한 파일만 허용
+    if (updates.avatar_url) {
+      const avatarPath = getStoragePath(updates.avatar_url, AVATAR_BUCKET);
+      if (!avatarPath || !isOwnStoragePath(avatarPath, currentClerkUserId)) {
+        throw new ApiError("BAD_REQUEST", "유효하지 않은 프로필 사진입니다.");
+      }
+    }
+
+    // 3. 프로필 업데이트 (profile_updated_at 설정 → 로그인 시 동기화로 덮어쓰지 않음)
+    const { data: updatedUser, error: updateError } = await supabase
+      .from("users")
+      .update({
+        ...updates,
+        profile_updated_at: new Date().toISOString(),
+      })
+      .eq("id", user.id)
+      .select(USER_PROFILE_COLUMNS)
+      .single();
+
+    if (updateError || !updatedUser) {
+      // 사용자 이름 중복 (UNIQUE 인덱스 위반)
+      if (updateError?.code === "23505") {
+        throw new ApiError("CONFLICT", "이미 사용 중인 사용자 이름입니다.");
+      }
+
+      console.error("User update error:", updateError);
+      throw new ApiError(
+        "INTERNAL_ERROR",
+        "프로필 수정에 실패했습니다. 잠시 후 다시 시도해주세요."
+      );
+    }
+
+    // 4. 공개 계정으로 전환한 경우 대기 중인 팔로우 요청 자동 승인
+    if (user.is_private && updates.is_private === false) {
+      await approvePendingFollowRequests(supabase, user.id);
+    }
+
+    // 5. 이전 프로필 사진 삭제 (교체/삭제된 경우, 본인 폴더의 파일만)
+    if (
+      updates.avatar_url !== undefined &&
+      user.avatar_url &&
+      user.avatar_url !== updates.avatar_url
+    ) {
+      const oldPath = getStoragePath(user.avatar_url, AVATAR_BUCKET);
+      if (oldPath && isOwnStoragePath(oldPath, currentClerkUserId)) {
+        const { error: removeError } = await getServiceRoleClient()
+          .storage.from(AVATAR_BUCKET)
+          .remove([oldPath]);
+
+        if (removeError) {
+          // 파일 삭제 실패는 프로필 수정 결과에 영향 없음
+          console.error("Old avatar remove error:", removeError);
+        }
+      }
+    }
+
+    return NextResponse.json(updatedUser);
+  }
+);
@@ -0,0 +1,299 @@
+/**
+ * @file components/admin/ReportQueue.tsx
+ * @description 모더레이션 큐 컴포넌트 (관리자 전용)
+ *
+ * 처리 대기 중인 신고 목록입니다.
+ *
+ * 주요 기능:
+ * 1. 신고 목록 표시 (신고자, 사유, 추가 설명, 신고된 콘텐츠 미리보기)
+ * 2. "기각" / "숨기기" / "계정 정지" 처리 (같은 대상의 신고를 함께 제거, 실패 시 롤백)
+ * 3. "더 보기"로 nextCursor 다음 페이지 로드
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { Film, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { formatRelativeTime } from "@/lib/utils";
+import { guessMediaType } from "@/lib/post-media";
+import { getReportReasonLabel, REPORT_TARGET_LABELS } from "@/lib/reports";
+import type { ModerationAction, ReportWithTarget } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+const PAGE_SIZE = 20;
+
+// 같은 대상에 대한 신고인지 확인 (처리 시 함께 제거)
+const isSameTarget = (a: ReportWithTarget, b: ReportWithTarget) =>
+  a.target_type === b.target_type && a.target_id === b.target_id;
+
+export default function ReportQueue() {
+  const [reports, setReports] = useState<ReportWithTarget[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const loadingRef = useRef(false);
+
+  // 신고 로드 함수
+  const loadReports = useCallback(async (currentCursor: string | null) => {
+    if (loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoading(true);
+
+    try {
+      setError(null);
+      const data = await api.reports.list({
+        limit: PAGE_SIZE,
+        cursor: currentCursor,
+      });
+      const newReports = data.reports || [];
+
+      if (currentCursor) {
+        setReports((prev) => {
+          // 이미 표시 중인 신고는 제외 (중복 방지)
+          const existingIds = new Set(prev.map((r) => r.id));
+          return [...prev, ...newReports.filter((r) => !existingIds.has(r.id))];
+        });
+      } else {
+        setReports(newReports);
+      }
+      setTotalCount(data.totalCount || 0);
+      setCursor(data.nextCursor ?? null);
+      setHasMore(data.hasMore && !!data.nextCursor);
+    } catch (err) {
+      console.error("Load reports error:", err);
+      setError(getErrorMessage(err, "신고 목록을 불러오는데 실패했습니다."));
+    } finally {
+      setLoading(false);
+      loadingRef.current = false;
+    }
+  }, []);
+
+  // 초기 로드
+  useEffect(() => {
+    loadReports(null);
+  }, [loadReports]);
+
+  // 기각/숨기기/계정 정지 핸들러 (낙관적 업데이트)
+  const handleAction = useCallback(
+    async (report: ReportWithTarget, action: ModerationAction) => {
+      if (processingIds.has(report.id)) return;
+
+      if (action === "suspend") {
+        const authorName = report.target?.author.name ?? "작성자";
+        const confirmed = window.confirm(
+          `${authorName}님의 계정을 정지하시겠어요?\n정지된 계정의 프로필, 게시물, 댓글은 더 이상 표시되지 않습니다.`
+        );
+        if (!confirmed) return;
+      }
+
+      setProcessingIds((prev) => new Set(prev).add(report.id));
+      const previousReports = reports;
+      const removedCount = reports.filter((r) => isSameTarget(r, report)).length;
+      setReports((prev) => prev.filter((r) => !isSameTarget(r, report)));
+      setTotalCount((prev) => Math.max(0, prev - removedCount));
+
+      try {
+        await api.reports.resolve({ reportId: report.id, action });
+      } catch (err) {
+        console.error("Report action error:", err);
+        // 에러 발생 시 이전 상태로 롤백
+        setReports(previousReports);
+        setTotalCount((prev) => prev + removedCount);
+        alert(getErrorMessage(err, "신고 처리에 실패했습니다."));
+      } finally {
+        setProcessingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(report.id);
+          return next;
+        });
+      }
+    },
+    [processingIds, reports]
+  );
+
+  // 로딩 상태 (첫 로드)
+  if (loading && reports.length === 0) {
+    return (
+      <div className="flex justify-center py-16" aria-busy="true">
+        <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)]" />
+      </div>
+    );
+  }
+
+  // 에러 상태 (첫 로드)
+  if (error && reports.length === 0) {
+    return (
+      <div className="text-center py-16 space-y-4" role="alert">
+        <p className="text-[var(--instagram-text-secondary)]">{error}</p>
+        <Button variant="outline" onClick={() => loadReports(null)}>
+          다시 시도
+        </Button>
+      </div>
+    );
+  }
+
+  // 신고가 없는 경우
+  if (reports.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-[var(--instagram-text-secondary)] text-lg">
+          처리할 신고가 없습니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <section aria-labelledby="report-queue-heading">
+      <h2
+        id="report-queue-heading"
+        className="px-4 mb-2 text-sm text-[var(--instagram-text-secondary)]"
+        aria-live="polite"
+      >
+        처리 대기 {totalCount.toLocaleString()}건
+      </h2>
+
+      <ul className="divide-y divide-[var(--instagram-border)]">
+        {reports.map((report) => {
+          const target = report.target;
+          const isProcessing = processingIds.has(report.id);
+          const isVideo =
+            !!target?.image_url && guessMediaType(target.image_url) === "video";
+
+          return (
+            <li key={report.id} className="px-4 py-4 space-y-3">
+              {/* 신고 정보 */}
+              <div className="text-sm">
+                <p className="text-[var(--instagram-text-primary)]">
+                  <span className="font-semibold">
+                    {REPORT_TARGET_LABELS[report.target_type]} 신고
+                  </span>
+                  {" · "}
+                  {getReportReasonLabel(report.reason)}
+                </p>
+                <p className="text-xs text-[var(--instagram-text-secondary)] mt-0.5">
+                  신고자 {report.reporter.username || report.reporter.name} ·{" "}
+                  {formatRelativeTime(report.created_at)}
+                </p>
+                {report.details && (
+                  <p className="mt-1 text-[var(--instagram-text-primary)] whitespace-pre-wrap break-words">
+                    {report.details}
+                  </p>
+                )}
+              </div>
+
+              {/* 신고된 콘텐츠 미리보기 */}
+              {target ? (
+                <div className="flex items-start gap-3 rounded-md border border-[var(--instagram-border)] p-3">
+                  <Link href={`/profile/${target.author.clerk_id}`} className="shrink-0">
+                    <UserAvatar user={target.author} size={32} />
+                  </Link>
+                  <div className="flex-1 min-w-0 text-sm">
+                    <Link
+                      href={`/profile/${target.author.clerk_id}`}
+                      className="font-semibold text-[var(--instagram-text-primary)] hover:underline"
+                    >
+                      {target.author.username || target.author.name}
+                    </Link>
+                    {target.is_hidden && (
+                      <span className="ml-2 text-xs text-[var(--instagram-like)]">
+                        {report.target_type === "user" ? "정지됨" : "숨김 처리됨"}
+                      </span>
+                    )}
+                    {target.text && (
+                      <p className="mt-1 text-[var(--instagram-text-primary)] line-clamp-3 break-words">
+                        {target.text}
+                      </p>
+                    )}
+                  </div>
+                  {target.image_url && (
+                    <div className="relative w-14 h-14 shrink-0 bg-gray-100 overflow-hidden">
+                      {isVideo ? (
+                        <div className="w-full h-full flex items-center justify-center bg-black text-white">
+                          <Film className="w-4 h-4" aria-hidden="true" />
+                        </div>
+                      ) : (
+                        <Image
+                          src={target.image_url}
+                          alt=""
+                          fill
+                          className="object-cover"
+                          sizes="56px"
+                        />
+                      )}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <p className="rounded-md border border-dashed border-[var(--instagram-border)] p-3 text-sm text-[var(--instagram-text-secondary)]">
+                  이미 삭제된 콘텐츠입니다.
+                </p>
+              )}
+
+              {/* 처리 버튼 */}
+              <div className="flex flex-wrap items-center gap-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleAction(report, "dismiss")}
+                  disabled={isProcessing}
+                >
+                  기각
+                </Button>
+                {target && report.target_type !== "user" && !target.is_hidden && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleAction(report, "hide")}
+                    disabled={isProcessing}
+                  >
+                    숨기기
+                  </Button>
+                )}
+                {target && !target.author.is_suspended && (
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleAction(report, "suspend")}
+                    disabled={isProcessing}
+                  >
+                    계정 정지
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* 더 보기 */}
+      {hasMore && (
+        <div className="flex justify-center py-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => loadReports(cursor)}
+            disabled={loading}
+            className="text-[var(--instagram-blue)] font-semibold"
+          >
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              "신고 더 보기"
+            )}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
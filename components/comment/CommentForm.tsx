@@ -10,6 +10,8 @@
  * 2. Enter 키 제출
  * 3. "게시" 버튼
  * 4. 제출 처리
+ * 5. 답글 모드 (@username 자동 입력, 답글 취소)
+ * 6. @멘션 자동완성 (↑/↓ 이동, Enter/Tab 선택)
  *
  * @see docs/PRD.md
  */
@@ -19,14 +21,26 @@
 import { useState, useRef, useEffect, useCallback, memo } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Loader2 } from "lucide-react";
+import MentionSuggestions from "@/components/mention/MentionSuggestions";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
+import { Loader2, X } from "lucide-react";
 import { cn } from "@/lib/utils";
 
+/**
+ * 답글 대상 댓글
+ */
+export interface ReplyTarget {
+  commentId: string;
+  username: string;
+}
+
 interface CommentFormProps {
   postId: string;
   onSubmit: (content: string) => Promise<void>;
   placeholder?: string;
   autoFocus?: boolean;
+  replyTo?: ReplyTarget | null; // 답글 대상 (없으면 일반 댓글)
+  onCancelReply?: () => void; // 답글 취소 콜백
 }
 
 const MAX_COMMENT_LENGTH = 1000;
@@ -36,11 +50,26 @@ function CommentForm({
   onSubmit,
   placeholder = "댓글 달기...",
   autoFocus = false,
+  replyTo = null,
+  onCancelReply,
 }: CommentFormProps) {
   const [content, setContent] = useState("");
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const {
+    suggestions: mentionSuggestions,
+    activeIndex: mentionActiveIndex,
+    updateMentionQuery,
+    handleKeyDown: handleMentionKeyDown,
+    selectSuggestion: selectMention,
+    close: closeMentions,
+  } = useMentionAutocomplete({
+    value: content,
+    onValueChange: setContent,
+    inputRef,
+  });
+  const suggestionsId = `comment-mentions-${postId}`;
 
   // 자동 포커스
   useEffect(() => {
@@ -49,6 +78,15 @@ function CommentForm({
     }
   }, [autoFocus]);
 
+  // 답글 대상이 바뀌면 @username 자동 입력 후 포커스
+  useEffect(() => {
+    if (!replyTo) return;
+
+    setContent(`@${replyTo.username} `);
+    setError(null);
+    inputRef.current?.focus();
+  }, [replyTo]);
+
   // 제출 핸들러
   const handleSubmit = useCallback(async () => {
     const trimmedContent = content.trim();
@@ -90,12 +128,15 @@ function CommentForm({
   // Enter 키 핸들러
   const handleKeyDown = useCallback(
     (e: React.KeyboardEvent<HTMLInputElement>) => {
+      // 멘션 후보 선택 중이면 제출하지 않음
+      if (handleMentionKeyDown(e)) return;
+
       if (e.key === "Enter" && !e.shiftKey) {
         e.preventDefault();
         handleSubmit();
       }
     },
-    [handleSubmit]
+    [handleSubmit, handleMentionKeyDown]
   );
 
   return (
@@ -107,6 +148,24 @@ function CommentForm({
         </div>
       )}
 
+      {/* 답글 대상 표시 */}
+      {replyTo && (
+        <div className="mb-2 flex items-center justify-between text-xs text-[var(--instagram-text-secondary)]">
+          <span>{replyTo.username}님에게 답글 남기는 중</span>
+          <button
+            type="button"
+            onClick={() => {
+              setContent("");
+              onCancelReply?.();
+            }}
+            className="p-0.5 hover:text-[var(--instagram-text-primary)] transition-colors"
+            aria-label="답글 취소"
+          >
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      )}
+
       {/* 입력 폼 */}
       <form
         onSubmit={(e) => {
@@ -115,30 +174,47 @@ function CommentForm({
         }}
         className="flex items-center gap-2"
       >
-        <Input
-          ref={inputRef}
-          type="text"
-          placeholder={placeholder}
-          value={content}
-          onChange={(e) => {
-            const value = e.target.value;
-            if (value.length <= MAX_COMMENT_LENGTH) {
-              setContent(value);
-              setError(null);
-            }
-          }}
-          onKeyDown={handleKeyDown}
-          disabled={submitting}
-          className={cn(
-            "flex-1 border-0 bg-transparent px-0 py-0 text-sm",
-            "focus-visible:ring-0 focus-visible:ring-offset-0",
-            "placeholder:text-[var(--instagram-text-secondary)]"
-          )}
-          maxLength={MAX_COMMENT_LENGTH}
-          aria-label="댓글 입력"
-          aria-describedby={error ? "comment-error" : undefined}
-          aria-invalid={!!error}
-        />
+        <div className="relative flex-1">
+          <Input
+            ref={inputRef}
+            type="text"
+            placeholder={placeholder}
+            value={content}
+            onChange={(e) => {
+              const value = e.target.value;
+              if (value.length <= MAX_COMMENT_LENGTH) {
+                setContent(value);
+                setError(null);
+                updateMentionQuery();
+              }
+            }}
+            onSelect={updateMentionQuery}
+            onBlur={closeMentions}
+            onKeyDown={handleKeyDown}
+            disabled={submitting}
+            className={cn(
+              "border-0 bg-transparent px-0 py-0 text-sm",
+              "focus-visible:ring-0 focus-visible:ring-offset-0",
+              "placeholder:text-[var(--instagram-text-secondary)]"
+            )}
+            maxLength={MAX_COMMENT_LENGTH}
+            aria-label={replyTo ? "답글 입력" : "댓글 입력"}
+            aria-describedby={error ? "comment-error" : undefined}
+            aria-invalid={!!error}
+            aria-autocomplete="list"
+            aria-expanded={mentionSuggestions.length > 0}
+            aria-controls={suggestionsId}
+          />
+
+          {/* 멘션 자동완성 (입력 필드 위) */}
+          <MentionSuggestions
+            id={suggestionsId}
+            suggestions={mentionSuggestions}
+            activeIndex={mentionActiveIndex}
+            onSelect={selectMention}
+            placement="top"
+          />
+        </div>
         <Button
           type="submit"
           disabled={!content.trim() || submitting}
@@ -10,6 +10,10 @@
  * 2. PostCard용: 최신 2개만 표시
  * 3. 상세 모달용: 전체 댓글 + 스크롤
  * 4. 삭제 버튼 (본인만 표시)
+ * 5. 답글 달기 버튼 및 "답글 N개 보기" 펼치기/접기 (1단계 스레드)
+ * 6. 댓글 좋아요 (하트 토글 및 좋아요 수)
+ * 7. 신고 버튼 (다른 사람 댓글만 표시)
+ * 8. 댓글의 해시태그/@멘션 링크
  *
  * @see docs/PRD.md
  */
@@ -17,27 +21,40 @@
 "use client";
 
 import { memo } from "react";
-import { MoreHorizontal, Trash2 } from "lucide-react";
+import { MoreHorizontal, Loader2, Heart } from "lucide-react";
+import LinkedText from "@/components/post/LinkedText";
 import { formatRelativeTime } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 import type { CommentWithUser } from "@/lib/types";
 
 interface CommentListProps {
-  comments: CommentWithUser[];
-  postId: string;
+  comments: CommentWithUser[]; // 최상위 댓글 목록
   currentUserId?: string; // Supabase user_id
   limit?: number; // PostCard용: 2, 상세 모달용: undefined (전체)
   showAll?: boolean; // true: 전체 표시, false: limit만 표시
   onDelete?: (commentId: string) => void; // 삭제 콜백
+  onLike?: (comment: CommentWithUser) => void; // 좋아요 토글 콜백 (없으면 하트 숨김)
+  onReply?: (comment: CommentWithUser) => void; // 답글 달기 콜백 (없으면 답글 UI 숨김)
+  onReport?: (comment: CommentWithUser) => void; // 신고 콜백 (없으면 신고 버튼 숨김)
+  replies?: Record<string, CommentWithUser[]>; // 부모 댓글 ID → 불러온 답글 목록
+  expandedReplyIds?: Set<string>; // 답글이 펼쳐진 부모 댓글 ID
+  loadingReplyIds?: Set<string>; // 답글을 불러오는 중인 부모 댓글 ID
+  onToggleReplies?: (commentId: string) => void; // 답글 펼치기/접기 콜백
 }
 
 function CommentList({
   comments,
-  postId,
   currentUserId,
   limit = 2,
   showAll = false,
   onDelete,
+  onLike,
+  onReply,
+  onReport,
+  replies,
+  expandedReplyIds,
+  loadingReplyIds,
+  onToggleReplies,
 }: CommentListProps) {
   // 표시할 댓글 목록 결정
   const displayComments = showAll
@@ -49,6 +66,98 @@ function CommentList({
     return null;
   }
 
+  // 댓글 한 개 렌더링 (최상위 댓글/답글 공통)
+  const renderComment = (comment: CommentWithUser) => {
+    const isOwner = currentUserId === comment.user_id;
+    const canDelete = isOwner && onDelete;
+    const canReport = !isOwner && !!currentUserId && onReport;
+
+    return (
+      <div
+        key={comment.id}
+        className="flex items-start gap-2 group"
+      >
+        {/* 댓글 내용 */}
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-[var(--instagram-text-primary)]">
+            <span className="font-semibold mr-1">
+              {comment.user.name}
+            </span>
+            <LinkedText text={comment.content} mentions={comment.mentions} />
+          </p>
+          <div className="flex items-center gap-2 mt-1">
+            <span className="text-xs text-[var(--instagram-text-secondary)]">
+              {formatRelativeTime(comment.created_at)}
+            </span>
+            {comment.likes_count > 0 && (
+              <span className="text-xs font-semibold text-[var(--instagram-text-secondary)]">
+                좋아요 {comment.likes_count.toLocaleString()}개
+              </span>
+            )}
+            {onReply && (
+              <button
+                onClick={() => onReply(comment)}
+                className="text-xs font-semibold text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)] transition-colors"
+                aria-label={`${comment.user.name}님에게 답글 달기`}
+              >
+                답글 달기
+              </button>
+            )}
+            {canDelete && (
+              <button
+                onClick={() => onDelete?.(comment.id)}
+                className="text-xs text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-like)] transition-colors opacity-0 group-hover:opacity-100"
+                aria-label="댓글 삭제"
+              >
+                삭제
+              </button>
+            )}
+            {canReport && (
+              <button
+                onClick={() => onReport?.(comment)}
+                className="text-xs text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-like)] transition-colors opacity-0 group-hover:opacity-100 focus:opacity-100"
+                aria-label={`${comment.user.name}님의 댓글 신고`}
+              >
+                신고
+              </button>
+            )}
+          </div>
+        </div>
+
+        {/* 삭제 버튼 (더보기 메뉴) */}
+        {canDelete && (
+          <button
+            onClick={() => onDelete?.(comment.id)}
+            className="p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+            aria-label="댓글 삭제"
+          >
+            <MoreHorizontal className="w-4 h-4 text-[var(--instagram-text-secondary)]" />
+          </button>
+        )}
+
+        {/* 좋아요 버튼 */}
+        {onLike && (
+          <button
+            onClick={() => onLike(comment)}
+            className={cn(
+              "p-1 transition-transform active:scale-125",
+              comment.is_liked
+                ? "text-[var(--instagram-like)]"
+                : "text-[var(--instagram-text-secondary)] hover:opacity-70"
+            )}
+            aria-label={comment.is_liked ? "댓글 좋아요 취소" : "댓글 좋아요"}
+            aria-pressed={comment.is_liked ?? false}
+          >
+            <Heart
+              className={cn("w-3 h-3", comment.is_liked && "fill-current")}
+              strokeWidth={comment.is_liked ? 0 : 2}
+            />
+          </button>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div
       className={cn(
@@ -57,47 +166,39 @@ function CommentList({
       )}
     >
       {displayComments.map((comment) => {
-        const isOwner = currentUserId === comment.user_id;
-        const canDelete = isOwner && onDelete;
+        const repliesCount = comment.replies_count || 0;
+        const isExpanded = expandedReplyIds?.has(comment.id) ?? false;
+        const isLoadingReplies = loadingReplyIds?.has(comment.id) ?? false;
+        const commentReplies = replies?.[comment.id] || [];
 
         return (
-          <div
-            key={comment.id}
-            className="flex items-start gap-2 group"
-          >
-            {/* 댓글 내용 */}
-            <div className="flex-1 min-w-0">
-              <p className="text-sm text-[var(--instagram-text-primary)]">
-                <span className="font-semibold mr-1">
-                  {comment.user.name}
-                </span>
-                <span>{comment.content}</span>
-              </p>
-              <div className="flex items-center gap-2 mt-1">
-                <span className="text-xs text-[var(--instagram-text-secondary)]">
-                  {formatRelativeTime(comment.created_at)}
-                </span>
-                {canDelete && (
-                  <button
-                    onClick={() => onDelete?.(comment.id)}
-                    className="text-xs text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-like)] transition-colors opacity-0 group-hover:opacity-100"
-                    aria-label="댓글 삭제"
-                  >
-                    삭제
-                  </button>
-                )}
+          <div key={comment.id}>
+            {renderComment(comment)}
+
+            {/* 답글 펼치기/접기 */}
+            {onToggleReplies && repliesCount > 0 && (
+              <div className="ml-6 mt-2">
+                <button
+                  onClick={() => onToggleReplies(comment.id)}
+                  disabled={isLoadingReplies}
+                  className="flex items-center gap-2 text-xs font-semibold text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)] transition-colors"
+                  aria-expanded={isExpanded}
+                  aria-controls={`replies-${comment.id}`}
+                >
+                  <span className="w-6 border-t border-[var(--instagram-text-secondary)]" aria-hidden="true" />
+                  {isExpanded ? "답글 숨기기" : `답글 ${repliesCount}개 보기`}
+                  {isLoadingReplies && (
+                    <Loader2 className="w-3 h-3 animate-spin" aria-hidden="true" />
+                  )}
+                </button>
               </div>
-            </div>
+            )}
 
-            {/* 삭제 버튼 (더보기 메뉴) */}
-            {canDelete && (
-              <button
-                onClick={() => onDelete?.(comment.id)}
-                className="p-1 opacity-0 group-hover:opacity-100 transition-opacity"
-                aria-label="댓글 삭제"
-              >
-                <MoreHorizontal className="w-4 h-4 text-[var(--instagram-text-secondary)]" />
-              </button>
+            {/* 답글 목록 */}
+            {isExpanded && commentReplies.length > 0 && (
+              <div id={`replies-${comment.id}`} className="ml-6 mt-2 space-y-1">
+                {commentReplies.map(renderComment)}
+              </div>
             )}
           </div>
         );
@@ -107,4 +208,3 @@ function CommentList({
 }
 
 export default memo(CommentList);
-
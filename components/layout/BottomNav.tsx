@@ -4,7 +4,8 @@
  *
  * Mobile 전용 (<768px)
  * 높이: 50px
- * 5개 아이콘: 홈, 검색, 만들기, 좋아요, 프로필
+ * 6개 아이콘: 홈, 검색, 만들기, 메시지, 알림, 프로필
+ * 메시지/알림 아이콘에 읽지 않은 메시지/알림 배지 표시
  *
  * @see docs/PRD.md
  */
@@ -14,22 +15,27 @@
 import { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, Search, PlusSquare, Heart, User } from "lucide-react";
+import { Home, Search, PlusSquare, Heart, User, MessageCircle } from "lucide-react";
 import { useUser } from "@clerk/nextjs";
 import { cn } from "@/lib/utils";
 import CreatePostModal from "@/components/post/CreatePostModal";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 
 interface NavItem {
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   label: string;
   isActive?: (pathname: string) => boolean;
+  badge?: number; // 읽지 않은 알림 수 등 (0이면 숨김)
 }
 
 export default function BottomNav() {
   const pathname = usePathname();
   const { user } = useUser();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const unreadCount = useUnreadNotifications();
+  const messageCounts = useUnreadMessages();
 
   const navItems: NavItem[] = [
     {
@@ -51,10 +57,18 @@ export default function BottomNav() {
       isActive: () => false, // 모달 열기 (1차 제외)
     },
     {
-      href: "/likes",
+      href: "/messages",
+      icon: MessageCircle,
+      label: "메시지",
+      isActive: (path) => path.startsWith("/messages"),
+      badge: user ? messageCounts.unreadCount + messageCounts.requestsCount : 0,
+    },
+    {
+      href: "/notifications",
       icon: Heart,
-      label: "좋아요",
-      isActive: (path) => path.startsWith("/likes"),
+      label: "알림",
+      isActive: (path) => path.startsWith("/notifications"),
+      badge: user ? unreadCount : 0,
     },
     {
       href: user ? `/profile/${user.id}` : "/",
@@ -91,18 +105,28 @@ export default function BottomNav() {
               key={item.label}
               href={item.href}
               className="flex flex-col items-center justify-center gap-1 focus:outline-none focus:ring-2 focus:ring-[#0095f6] focus:ring-offset-2 rounded"
-              aria-label={item.label}
+              aria-label={
+                item.badge ? `${item.label} (읽지 않음 ${item.badge}개)` : item.label
+              }
               aria-current={isActive ? "page" : undefined}
             >
-              <Icon
-                className={cn(
-                  "w-6 h-6",
-                  isActive
-                    ? "text-[var(--instagram-text-primary)] stroke-[2.5px]"
-                    : "text-[var(--instagram-text-secondary)]"
+              <span className="relative">
+                <Icon
+                  className={cn(
+                    "w-6 h-6",
+                    isActive
+                      ? "text-[var(--instagram-text-primary)] stroke-[2.5px]"
+                      : "text-[var(--instagram-text-secondary)]"
+                  )}
+                  aria-hidden="true"
+                />
+                {!!item.badge && (
+                  <span
+                    className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-[var(--instagram-like)]"
+                    aria-hidden="true"
+                  />
                 )}
-                aria-hidden="true"
-              />
+              </span>
             </Link>
           );
         })}
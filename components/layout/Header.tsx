@@ -5,6 +5,7 @@
  * Mobile 전용 (<768px)
  * 높이: 60px
  * 로고 + 알림/DM/프로필 아이콘
+ * DM 아이콘에 읽지 않은 메시지/메시지 요청 배지 표시
  *
  * @see docs/PRD.md
  */
@@ -15,8 +16,12 @@ import Link from "next/link";
 import { Heart, MessageCircle } from "lucide-react";
 import { UserButton, SignedOut, SignedIn, SignInButton, SignUpButton } from "@clerk/nextjs";
 import { Button } from "@/components/ui/button";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 
 export default function Header() {
+  const { unreadCount, requestsCount } = useUnreadMessages();
+  const messageBadge = unreadCount + requestsCount;
+
   return (
     <header className="md:hidden fixed top-0 left-0 right-0 h-[60px] bg-[var(--instagram-card-background)] border-b border-[var(--instagram-border)] z-50">
       <div className="flex items-center justify-between h-full px-4">
@@ -55,17 +60,22 @@ export default function Header() {
               <Heart className="w-6 h-6" />
             </button>
 
-            {/* DM (1차 제외, UI만) */}
-            <button
-              className="text-[var(--instagram-text-primary)]"
-              onClick={() => {
-                // TODO: DM 페이지로 이동 (1차 제외)
-              }}
-              aria-label="메시지"
-              disabled
+            {/* DM */}
+            <Link
+              href="/messages"
+              className="relative text-[var(--instagram-text-primary)]"
+              aria-label={
+                messageBadge ? `메시지 (읽지 않음 ${messageBadge}개)` : "메시지"
+              }
             >
-              <MessageCircle className="w-6 h-6" />
-            </button>
+              <MessageCircle className="w-6 h-6" aria-hidden="true" />
+              {messageBadge > 0 && (
+                <span
+                  className="absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full bg-[var(--instagram-like)]"
+                  aria-hidden="true"
+                />
+              )}
+            </Link>
 
             {/* 프로필 */}
             <UserButton />
@@ -5,6 +5,8 @@
  * Desktop: 244px 너비, 아이콘 + 텍스트
  * Tablet: 72px 너비, 아이콘만
  * Mobile: 숨김
+ * 알림 메뉴에 읽지 않은 알림 수, 메시지 메뉴에 읽지 않은 대화/메시지 요청 수 배지 표시
+ * 관리자(Clerk public metadata의 role이 "admin")에게만 "신고 관리" 메뉴 표시
  *
  * @see docs/PRD.md
  */
@@ -14,23 +16,28 @@
 import { useState } from "react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { Home, Search, PlusSquare, User, LogOut, Bookmark } from "lucide-react";
+import { Home, Search, PlusSquare, User, LogOut, Bookmark, Heart, ShieldAlert, MessageCircle } from "lucide-react";
 import { useUser, SignedOut, SignedIn, SignInButton, SignUpButton, SignOutButton } from "@clerk/nextjs";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import CreatePostModal from "@/components/post/CreatePostModal";
+import { useUnreadNotifications } from "@/hooks/use-unread-notifications";
+import { useUnreadMessages } from "@/hooks/use-unread-messages";
 
 interface NavItem {
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   label: string;
   isActive?: (pathname: string) => boolean;
+  badge?: number; // 읽지 않은 알림 수 등 (0이면 숨김)
 }
 
 export default function Sidebar() {
   const pathname = usePathname();
   const { user } = useUser();
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const unreadCount = useUnreadNotifications();
+  const messageCounts = useUnreadMessages();
 
   const navItems: NavItem[] = [
     {
@@ -45,6 +52,20 @@ export default function Sidebar() {
       label: "검색",
       isActive: (path) => path.startsWith("/search"),
     },
+    {
+      href: "/messages",
+      icon: MessageCircle,
+      label: "메시지",
+      isActive: (path) => path.startsWith("/messages"),
+      badge: user ? messageCounts.unreadCount + messageCounts.requestsCount : 0,
+    },
+    {
+      href: "/notifications",
+      icon: Heart,
+      label: "알림",
+      isActive: (path) => path.startsWith("/notifications"),
+      badge: user ? unreadCount : 0,
+    },
     {
       href: "#",
       icon: PlusSquare,
@@ -63,6 +84,16 @@ export default function Sidebar() {
       label: "저장됨",
       isActive: (path) => path === "/saved",
     },
+    ...(user?.publicMetadata?.role === "admin"
+      ? [
+          {
+            href: "/admin/reports",
+            icon: ShieldAlert,
+            label: "신고 관리",
+            isActive: (path: string) => path.startsWith("/admin"),
+          },
+        ]
+      : []),
   ];
 
   return (
@@ -133,16 +164,28 @@ export default function Sidebar() {
                     ? "font-semibold text-[var(--instagram-text-primary)]"
                     : "text-[var(--instagram-text-primary)]"
                 )}
-                aria-label={item.label}
+                aria-label={
+                  item.badge ? `${item.label} (읽지 않음 ${item.badge}개)` : item.label
+                }
                 aria-current={isActive ? "page" : undefined}
               >
-                <Icon
-                  className={cn(
-                    "w-6 h-6",
-                    isActive && "stroke-[2.5px]"
+                <span className="relative">
+                  <Icon
+                    className={cn(
+                      "w-6 h-6",
+                      isActive && "stroke-[2.5px]"
+                    )}
+                    aria-hidden="true"
+                  />
+                  {!!item.badge && (
+                    <span
+                      className="absolute -top-1.5 -right-2 min-w-[18px] h-[18px] px-1 rounded-full bg-[var(--instagram-like)] text-white text-[11px] font-semibold leading-[18px] text-center"
+                      aria-hidden="true"
+                    >
+                      {item.badge > 99 ? "99+" : item.badge}
+                    </span>
                   )}
-                  aria-hidden="true"
-                />
+                </span>
                 <span className="hidden lg:inline text-base">
                   {item.label}
                 </span>
@@ -0,0 +1,76 @@
+/**
+ * @file components/mention/MentionSuggestions.tsx
+ * @description 멘션 자동완성 후보 목록 컴포넌트
+ *
+ * 댓글/캡션 입력 중 "@검색어"에 맞는 사용자 후보를 입력 필드 위 또는 아래에 표시합니다.
+ * (CommentForm, CreatePostModal, EditPostModal)
+ *
+ * 후보를 클릭해도 입력 필드의 포커스가 유지되도록 mousedown 기본 동작을 막습니다.
+ *
+ * @see hooks/use-mention-autocomplete.ts
+ */
+
+"use client";
+
+import { memo } from "react";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { cn } from "@/lib/utils";
+import type { User } from "@/lib/types";
+
+interface MentionSuggestionsProps {
+  id: string; // 입력 필드의 aria-controls와 연결
+  suggestions: User[];
+  activeIndex: number;
+  onSelect: (user: User) => void;
+  placement?: "top" | "bottom"; // 입력 필드 기준 표시 위치
+}
+
+function MentionSuggestions({
+  id,
+  suggestions,
+  activeIndex,
+  onSelect,
+  placement = "bottom",
+}: MentionSuggestionsProps) {
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul
+      id={id}
+      role="listbox"
+      aria-label="멘션할 사용자"
+      className={cn(
+        "absolute left-0 right-0 z-50 max-h-64 overflow-y-auto rounded-md border border-[var(--instagram-border)] bg-white py-1 shadow-lg",
+        placement === "top" ? "bottom-full mb-1" : "top-full mt-1"
+      )}
+    >
+      {suggestions.map((user, index) => (
+        <li
+          key={user.id}
+          role="option"
+          aria-selected={index === activeIndex}
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(user)}
+          className={cn(
+            "flex items-center gap-3 px-3 py-2 cursor-pointer",
+            index === activeIndex ? "bg-gray-100" : "hover:bg-gray-50"
+          )}
+        >
+          <UserAvatar user={user} size={32} />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+              {user.username}
+            </p>
+            <p className="text-xs text-[var(--instagram-text-secondary)] truncate">
+              {user.name}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default memo(MentionSuggestions);
@@ -0,0 +1,284 @@
+/**
+ * @file components/messages/ConversationList.tsx
+ * @description 대화 목록 컴포넌트
+ *
+ * Instagram 스타일의 Direct Message 대화 목록입니다.
+ *
+ * 주요 기능:
+ * 1. 받은 메시지함 / 메시지 요청함 탭 (요청 수 표시)
+ * 2. 대화 상대, 마지막 메시지 미리보기, 읽지 않은 대화 강조
+ * 3. 하단 도달 시 nextCursor로 다음 페이지 로드 (무한 스크롤)
+ * 4. 새 메시지 다이얼로그 열기
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { Loader2, PenSquare, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import NewMessageDialog from "@/components/messages/NewMessageDialog";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { getConversationTitle, getMessagePreview } from "@/lib/messages";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type { ConversationFolder, ConversationWithDetails } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+const PAGE_SIZE = 20;
+
+const TABS: { value: ConversationFolder; label: string }[] = [
+  { value: "inbox", label: "메시지" },
+  { value: "requests", label: "요청" },
+];
+
+export default function ConversationList() {
+  const [folder, setFolder] = useState<ConversationFolder>("inbox");
+  const [conversations, setConversations] = useState<ConversationWithDetails[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [requestsCount, setRequestsCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [isNewMessageOpen, setIsNewMessageOpen] = useState(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+  const folderRef = useRef<ConversationFolder>("inbox");
+
+  // 대화 목록 로드 함수
+  const loadConversations = useCallback(
+    async (currentFolder: ConversationFolder, currentCursor: string | null) => {
+      if (loadingRef.current) return;
+
+      loadingRef.current = true;
+      setLoading(true);
+
+      try {
+        setError(null);
+        const data = await api.conversations.list({
+          folder: currentFolder,
+          limit: PAGE_SIZE,
+          cursor: currentCursor,
+        });
+
+        // 응답 전에 탭을 바꿨으면 이전 탭의 결과는 버림
+        if (folderRef.current !== currentFolder) return;
+
+        const newConversations = data.conversations || [];
+
+        if (currentCursor) {
+          setConversations((prev) => {
+            // 이미 표시 중인 대화는 제외 (중복 방지)
+            const existingIds = new Set(prev.map((c) => c.id));
+            return [
+              ...prev,
+              ...newConversations.filter((c) => !existingIds.has(c.id)),
+            ];
+          });
+        } else {
+          setConversations(newConversations);
+        }
+        setCurrentUserId(data.currentUserId);
+        setRequestsCount(data.requestsCount || 0);
+        setCursor(data.nextCursor ?? null);
+        setHasMore(data.hasMore && !!data.nextCursor);
+      } catch (err) {
+        console.error("Load conversations error:", err);
+        if (folderRef.current !== currentFolder) return;
+
+        setError(getErrorMessage(err, "대화 목록을 불러오는데 실패했습니다."));
+      } finally {
+        if (folderRef.current === currentFolder) {
+          setLoading(false);
+          loadingRef.current = false;
+        }
+      }
+    },
+    []
+  );
+
+  // 초기 로드 및 탭 변경 시 다시 로드
+  useEffect(() => {
+    folderRef.current = folder;
+    loadingRef.current = false;
+    setConversations([]);
+    setCursor(null);
+    setHasMore(false);
+    loadConversations(folder, null);
+  }, [folder, loadConversations]);
+
+  // Intersection Observer 설정 (다음 페이지 로드)
+  useEffect(() => {
+    if (!sentinelRef.current || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasMore && !loading) {
+          loadConversations(folder, cursor);
+        }
+      },
+      {
+        rootMargin: "100px",
+      }
+    );
+
+    observer.observe(sentinelRef.current);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, loading, cursor, folder, loadConversations]);
+
+  return (
+    <div>
+      {/* 새 메시지 */}
+      <div className="flex items-center justify-end px-4 mb-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsNewMessageOpen(true)}
+          className="text-[var(--instagram-blue)] font-semibold"
+        >
+          <PenSquare className="w-4 h-4" aria-hidden="true" />
+          새 메시지
+        </Button>
+      </div>
+
+      {/* 받은 메시지함 / 메시지 요청함 탭 */}
+      <div
+        role="tablist"
+        aria-label="메시지함"
+        className="flex border-b border-[var(--instagram-border)]"
+      >
+        {TABS.map((tab) => (
+          <button
+            key={tab.value}
+            role="tab"
+            aria-selected={folder === tab.value}
+            onClick={() => setFolder(tab.value)}
+            className={cn(
+              "flex-1 -mb-px py-3 text-sm font-semibold transition-colors",
+              folder === tab.value
+                ? "border-b border-[var(--instagram-text-primary)] text-[var(--instagram-text-primary)]"
+                : "text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)]"
+            )}
+          >
+            {tab.label}
+            {tab.value === "requests" && requestsCount > 0 && ` (${requestsCount})`}
+          </button>
+        ))}
+      </div>
+
+      {folder === "requests" && (
+        <p className="px-4 py-3 text-xs text-[var(--instagram-text-secondary)]">
+          회원님이 팔로우하지 않는 사람이 보낸 메시지입니다. 요청을 수락해야 답장할 수
+          있습니다.
+        </p>
+      )}
+
+      {/* 로딩 상태 (첫 로드) */}
+      {loading && conversations.length === 0 ? (
+        <div className="flex justify-center py-16" aria-busy="true">
+          <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)]" />
+        </div>
+      ) : error && conversations.length === 0 ? (
+        <div className="text-center py-16 space-y-4" role="alert">
+          <p className="text-[var(--instagram-text-secondary)]">{error}</p>
+          <Button variant="outline" onClick={() => loadConversations(folder, null)}>
+            다시 시도
+          </Button>
+        </div>
+      ) : conversations.length === 0 ? (
+        <div className="text-center py-16">
+          <p className="text-[var(--instagram-text-secondary)] text-lg">
+            {folder === "requests" ? "메시지 요청이 없습니다." : "아직 메시지가 없습니다."}
+          </p>
+          {folder === "inbox" && (
+            <p className="text-sm text-[var(--instagram-text-secondary)] mt-2">
+              친구에게 비공개 사진과 메시지를 보내보세요.
+            </p>
+          )}
+        </div>
+      ) : (
+        <ul>
+          {conversations.map((conversation) => {
+            const title = getConversationTitle(conversation);
+            const isUnread = conversation.unread_count > 0;
+
+            return (
+              <li key={conversation.id}>
+                <Link
+                  href={`/messages/${conversation.id}`}
+                  className="flex items-center gap-3 px-4 py-3 transition-colors hover:bg-gray-50"
+                >
+                  {/* 대화 상대 프로필 이미지: 56px 원형 (그룹은 아이콘) */}
+                  {conversation.is_group || conversation.members.length === 0 ? (
+                    <div className="w-14 h-14 shrink-0 rounded-full bg-gray-100 flex items-center justify-center">
+                      <Users
+                        className="w-6 h-6 text-[var(--instagram-text-secondary)]"
+                        aria-hidden="true"
+                      />
+                    </div>
+                  ) : (
+                    <UserAvatar user={conversation.members[0]} size={56} />
+                  )}
+
+                  {/* 대화방 이름 및 마지막 메시지 */}
+                  <div className="flex-1 min-w-0">
+                    <p
+                      className={cn(
+                        "text-sm text-[var(--instagram-text-primary)] truncate",
+                        isUnread && "font-semibold"
+                      )}
+                    >
+                      {title}
+                    </p>
+                    <p
+                      className={cn(
+                        "text-sm truncate",
+                        isUnread
+                          ? "font-semibold text-[var(--instagram-text-primary)]"
+                          : "text-[var(--instagram-text-secondary)]"
+                      )}
+                    >
+                      {getMessagePreview(conversation, currentUserId)}
+                      <span className="font-normal text-[var(--instagram-text-secondary)]">
+                        {" · "}
+                        {formatRelativeTime(conversation.last_message_at)}
+                      </span>
+                    </p>
+                  </div>
+
+                  {/* 읽지 않음 표시 */}
+                  {isUnread && (
+                    <span
+                      className="w-2 h-2 shrink-0 rounded-full bg-[var(--instagram-blue)]"
+                      aria-label="읽지 않음"
+                    />
+                  )}
+                </Link>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {/* 추가 로드 중 */}
+      {loading && conversations.length > 0 && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-[var(--instagram-text-secondary)]" />
+        </div>
+      )}
+
+      {/* 무한 스크롤 감지 요소 */}
+      {hasMore && !loading && (
+        <div ref={sentinelRef} className="h-4" aria-hidden="true" />
+      )}
+
+      {/* 새 메시지 다이얼로그 */}
+      <NewMessageDialog open={isNewMessageOpen} onOpenChange={setIsNewMessageOpen} />
+    </div>
+  );
+}
@@ -0,0 +1,443 @@
+/**
+ * @file components/messages/MessageThread.tsx
+ * @description 대화방 메시지 스레드 컴포넌트
+ *
+ * Instagram 스타일의 Direct Message 대화방입니다.
+ *
+ * 주요 기능:
+ * 1. 대화 상대 헤더 (1:1은 프로필 링크, 그룹은 참여자 수)
+ * 2. 메시지 목록 (최신 메시지가 아래, "이전 메시지 보기"로 이전 페이지 로드)
+ * 3. 공유된 게시물 미리보기 (클릭 시 게시물 모달)
+ * 4. 메시지 요청 수락/삭제 배너 (수락 전에는 답장 불가)
+ * 5. 메시지 입력 및 전송, 대화방을 열면 읽음 처리 후 메시지 배지 갱신
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ChevronLeft, Film, Loader2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import PostModal from "@/components/post/PostModal";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { MESSAGES_READ_EVENT } from "@/hooks/use-unread-messages";
+import { getConversationTitle, MAX_MESSAGE_LENGTH } from "@/lib/messages";
+import { guessMediaType } from "@/lib/post-media";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import type {
+  ConversationWithDetails,
+  MessagesResponse,
+  MessageWithSender,
+} from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+interface MessageThreadProps {
+  conversationId: string;
+}
+
+const PAGE_SIZE = 30;
+
+export default function MessageThread({ conversationId }: MessageThreadProps) {
+  const router = useRouter();
+  const [conversation, setConversation] = useState<ConversationWithDetails | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [messages, setMessages] = useState<MessageWithSender[]>([]); // 오래된 순
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [content, setContent] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [isResponding, setIsResponding] = useState(false);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // 대화방 상태 변경 (읽음 처리, 메시지 요청 수락/삭제) 후 배지 갱신 이벤트 발생
+  const updateConversation = useCallback(
+    async (action: "accept" | "decline" | "read") => {
+      const data = await api.conversations.update(conversationId, action);
+      window.dispatchEvent(
+        new CustomEvent(MESSAGES_READ_EVENT, {
+          detail: {
+            unreadCount: data.unreadCount,
+            requestsCount: data.requestsCount,
+          },
+        })
+      );
+      return data;
+    },
+    [conversationId]
+  );
+
+  // 메시지 페이지 조회 (API는 최신순으로 반환)
+  const fetchMessages = useCallback(
+    (currentCursor: string | null): Promise<MessagesResponse> =>
+      api.conversations.messages(conversationId, {
+        limit: PAGE_SIZE,
+        cursor: currentCursor,
+      }),
+    [conversationId]
+  );
+
+  // 대화방 정보와 최근 메시지 로드
+  const loadConversation = useCallback(async () => {
+    setLoading(true);
+    try {
+      setError(null);
+      const data = await api.conversations.get(conversationId);
+      const page = await fetchMessages(null);
+
+      setConversation(data.conversation);
+      setCurrentUserId(data.currentUserId);
+      setMessages([...(page.messages || [])].reverse());
+      setCursor(page.nextCursor ?? null);
+      setHasMore(page.hasMore && !!page.nextCursor);
+
+      // 받은 메시지함의 대화는 열면 읽음 처리 (메시지 요청은 수락 시 읽음 처리)
+      if (data.conversation.status === "accepted" && data.conversation.unread_count > 0) {
+        updateConversation("read").catch((err) => {
+          // 읽음 처리 실패는 다음에 열 때 다시 처리되므로 로그만 남김
+          console.error("Mark conversation read error:", err);
+        });
+      }
+    } catch (err) {
+      console.error("Load conversation error:", err);
+      setError(getErrorMessage(err, "대화방을 불러오는데 실패했습니다."));
+    } finally {
+      setLoading(false);
+    }
+  }, [conversationId, fetchMessages, updateConversation]);
+
+  useEffect(() => {
+    loadConversation();
+  }, [loadConversation]);
+
+  // 첫 로드 시 최신 메시지로 스크롤
+  useEffect(() => {
+    if (!loading) {
+      bottomRef.current?.scrollIntoView({ block: "end" });
+    }
+  }, [loading]);
+
+  // 이전 메시지 로드
+  const handleLoadOlder = async () => {
+    if (!cursor || loadingOlder) return;
+
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessages(cursor);
+      setMessages((prev) => {
+        // 이미 표시 중인 메시지는 제외 (중복 방지)
+        const existingIds = new Set(prev.map((m) => m.id));
+        const older = (page.messages || [])
+          .filter((m) => !existingIds.has(m.id))
+          .reverse();
+        return [...older, ...prev];
+      });
+      setCursor(page.nextCursor ?? null);
+      setHasMore(page.hasMore && !!page.nextCursor);
+    } catch (err) {
+      console.error("Load older messages error:", err);
+      alert(getErrorMessage(err, "메시지를 불러오는데 실패했습니다."));
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  // 메시지 요청 수락/삭제
+  const handleRespond = async (action: "accept" | "decline") => {
+    if (isResponding) return;
+
+    setIsResponding(true);
+    try {
+      const data = await updateConversation(action);
+
+      if (action === "decline") {
+        router.push("/messages");
+        return;
+      }
+
+      setConversation((prev) =>
+        prev ? { ...prev, status: data.status, unread_count: 0 } : prev
+      );
+    } catch (err) {
+      console.error("Respond to message request error:", err);
+      alert(getErrorMessage(err, "요청을 처리하지 못했습니다."));
+    } finally {
+      setIsResponding(false);
+    }
+  };
+
+  // 메시지 전송
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = content.trim();
+    if (!trimmed || isSending) return;
+
+    setIsSending(true);
+    try {
+      const data = await api.conversations.sendMessage(conversationId, {
+        content: trimmed,
+      });
+      setMessages((prev) => [...prev, data.message]);
+      setContent("");
+      requestAnimationFrame(() => {
+        bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "end" });
+      });
+    } catch (err) {
+      console.error("Send message error:", err);
+      alert(getErrorMessage(err, "메시지를 보내지 못했습니다."));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // 로딩 상태
+  if (loading) {
+    return (
+      <div className="flex justify-center py-16" aria-busy="true">
+        <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)]" />
+      </div>
+    );
+  }
+
+  // 에러 상태
+  if (error || !conversation) {
+    return (
+      <div className="text-center py-16 space-y-4" role="alert">
+        <p className="text-[var(--instagram-text-secondary)]">
+          {error || "대화방을 찾을 수 없습니다."}
+        </p>
+        <div className="flex justify-center gap-2">
+          <Button variant="outline" onClick={loadConversation}>
+            다시 시도
+          </Button>
+          <Button variant="ghost" asChild>
+            <Link href="/messages">메시지 목록</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const title = getConversationTitle(conversation);
+  const directMember = conversation.is_group ? null : conversation.members[0];
+  const isPending = conversation.status === "pending";
+
+  return (
+    <div className="flex flex-col min-h-[calc(100vh-110px)] md:min-h-screen bg-[var(--instagram-card-background)]">
+      {/* 헤더 */}
+      <div className="flex items-center gap-3 px-4 py-3 border-b border-[var(--instagram-border)]">
+        <Link
+          href="/messages"
+          className="text-[var(--instagram-text-primary)]"
+          aria-label="메시지 목록으로 돌아가기"
+        >
+          <ChevronLeft className="w-6 h-6" />
+        </Link>
+        {directMember ? (
+          <Link
+            href={`/profile/${directMember.clerk_id}`}
+            className="flex items-center gap-3 min-w-0"
+          >
+            <UserAvatar user={directMember} size={32} />
+            <span className="font-semibold text-sm text-[var(--instagram-text-primary)] truncate">
+              {title}
+            </span>
+          </Link>
+        ) : (
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-8 h-8 shrink-0 rounded-full bg-gray-100 flex items-center justify-center">
+              <Users
+                className="w-4 h-4 text-[var(--instagram-text-secondary)]"
+                aria-hidden="true"
+              />
+            </div>
+            <div className="min-w-0">
+              <p className="font-semibold text-sm text-[var(--instagram-text-primary)] truncate">
+                {title}
+              </p>
+              <p className="text-xs text-[var(--instagram-text-secondary)]">
+                참여자 {conversation.members.length + 1}명
+              </p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* 메시지 목록 */}
+      <div className="flex-1 px-4 py-4 space-y-3" aria-live="polite">
+        {hasMore && (
+          <div className="flex justify-center">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleLoadOlder}
+              disabled={loadingOlder}
+              className="text-[var(--instagram-text-secondary)]"
+            >
+              {loadingOlder ? "불러오는 중..." : "이전 메시지 보기"}
+            </Button>
+          </div>
+        )}
+
+        {messages.length === 0 && (
+          <p className="text-center text-sm text-[var(--instagram-text-secondary)] py-8">
+            아직 메시지가 없습니다. 첫 메시지를 보내보세요.
+          </p>
+        )}
+
+        {messages.map((message) => {
+          const isMine = message.sender_id === currentUserId;
+
+          return (
+            <div
+              key={message.id}
+              className={cn("flex items-end gap-2", isMine && "justify-end")}
+            >
+              {!isMine && <UserAvatar user={message.sender} size={28} />}
+
+              <div className={cn("max-w-[70%] space-y-1", isMine && "items-end")}>
+                {/* 그룹 대화방은 보낸 사람 이름 표시 */}
+                {!isMine && conversation.is_group && (
+                  <p className="text-xs text-[var(--instagram-text-secondary)] px-3">
+                    {message.sender.username || message.sender.name}
+                  </p>
+                )}
+
+                {/* 공유된 게시물 */}
+                {message.kind === "post" &&
+                  (message.shared_post ? (
+                    <button
+                      type="button"
+                      onClick={() => setSelectedPostId(message.shared_post!.id)}
+                      className="block w-60 overflow-hidden rounded-2xl border border-[var(--instagram-border)] bg-white text-left"
+                      aria-label={`${message.shared_post.author.username || message.shared_post.author.name}님의 게시물 보기`}
+                    >
+                      <div className="flex items-center gap-2 px-3 py-2">
+                        <UserAvatar user={message.shared_post.author} size={24} />
+                        <span className="text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+                          {message.shared_post.author.username ||
+                            message.shared_post.author.name}
+                        </span>
+                      </div>
+                      <div className="relative aspect-square bg-gray-100">
+                        {guessMediaType(message.shared_post.image_url) === "video" ? (
+                          <div className="w-full h-full flex items-center justify-center bg-black text-white">
+                            <Film className="w-6 h-6" aria-hidden="true" />
+                          </div>
+                        ) : (
+                          <Image
+                            src={message.shared_post.image_url}
+                            alt=""
+                            fill
+                            className="object-cover"
+                            sizes="240px"
+                          />
+                        )}
+                      </div>
+                      {message.shared_post.caption && (
+                        <p className="px-3 py-2 text-sm text-[var(--instagram-text-primary)] line-clamp-2">
+                          {message.shared_post.caption}
+                        </p>
+                      )}
+                    </button>
+                  ) : (
+                    <p className="rounded-2xl border border-[var(--instagram-border)] px-3 py-2 text-sm text-[var(--instagram-text-secondary)]">
+                      게시물을 볼 수 없습니다.
+                    </p>
+                  ))}
+
+                {/* 텍스트 (게시물 공유 시 함께 보낸 메모) */}
+                {message.content && (
+                  <p
+                    className={cn(
+                      "rounded-2xl px-3 py-2 text-sm whitespace-pre-wrap break-words",
+                      isMine
+                        ? "bg-[var(--instagram-blue)] text-white"
+                        : "bg-gray-100 text-[var(--instagram-text-primary)]"
+                    )}
+                  >
+                    {message.content}
+                  </p>
+                )}
+
+                <p
+                  className={cn(
+                    "text-[11px] text-[var(--instagram-text-secondary)] px-3",
+                    isMine && "text-right"
+                  )}
+                >
+                  {formatRelativeTime(message.created_at)}
+                </p>
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* 메시지 요청 수락/삭제 또는 메시지 입력 */}
+      {isPending ? (
+        <div className="border-t border-[var(--instagram-border)] px-4 py-4 space-y-3 text-center">
+          <p className="text-sm text-[var(--instagram-text-secondary)]">
+            {title}님이 회원님에게 메시지를 보내려고 합니다. 수락하면 답장할 수 있습니다.
+          </p>
+          <div className="flex justify-center gap-2">
+            <Button
+              variant="outline"
+              onClick={() => handleRespond("decline")}
+              disabled={isResponding}
+              className="text-[var(--instagram-like)]"
+            >
+              삭제
+            </Button>
+            <Button onClick={() => handleRespond("accept")} disabled={isResponding}>
+              수락
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <form
+          onSubmit={handleSend}
+          className="flex items-center gap-2 border-t border-[var(--instagram-border)] px-4 py-3"
+        >
+          <Input
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            maxLength={MAX_MESSAGE_LENGTH}
+            placeholder="메시지 입력..."
+            aria-label="메시지 입력"
+            disabled={isSending}
+            className="rounded-full"
+          />
+          <Button
+            type="submit"
+            variant="ghost"
+            disabled={!content.trim() || isSending}
+            className="text-[var(--instagram-blue)] font-semibold"
+          >
+            보내기
+          </Button>
+        </form>
+      )}
+
+      {/* 게시물 상세 모달 */}
+      {selectedPostId && (
+        <PostModal
+          postId={selectedPostId}
+          open={!!selectedPostId}
+          onOpenChange={(open) => {
+            if (!open) setSelectedPostId(null);
+          }}
+        />
+      )}
+    </div>
+  );
+}
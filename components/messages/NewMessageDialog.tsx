@@ -0,0 +1,157 @@
+/**
+ * @file components/messages/NewMessageDialog.tsx
+ * @description 새 메시지 다이얼로그
+ *
+ * 받는 사람을 선택해 1:1 또는 그룹 대화방을 만드는 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 사용자 검색 및 여러 명 선택 (선택한 사용자는 상단 칩으로 표시)
+ * 2. 2명 이상 선택 시 그룹 이름 입력 (선택)
+ * 3. POST /api/conversations 호출 후 대화방으로 이동 (1:1 대화방이 이미 있으면 기존 대화방)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { X } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import RecipientSearch from "@/components/messages/RecipientSearch";
+import {
+  MAX_CONVERSATION_TITLE_LENGTH,
+  MAX_GROUP_MEMBERS,
+} from "@/lib/messages";
+import type { User } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+interface NewMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function NewMessageDialog({
+  open,
+  onOpenChange,
+}: NewMessageDialogProps) {
+  const router = useRouter();
+  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+  const [title, setTitle] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // 다이얼로그를 열 때마다 입력값 초기화
+  useEffect(() => {
+    if (open) {
+      setSelectedUsers([]);
+      setTitle("");
+    }
+  }, [open]);
+
+  const isGroup = selectedUsers.length > 1;
+
+  const toggleUser = (user: User) => {
+    setSelectedUsers((prev) => {
+      if (prev.some((selected) => selected.id === user.id)) {
+        return prev.filter((selected) => selected.id !== user.id);
+      }
+
+      // 본인 포함 최대 인원
+      if (prev.length >= MAX_GROUP_MEMBERS - 1) {
+        alert(`그룹 대화방은 최대 ${MAX_GROUP_MEMBERS}명까지 참여할 수 있습니다.`);
+        return prev;
+      }
+
+      return [...prev, user];
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (selectedUsers.length === 0 || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const data = await api.conversations.create({
+        userIds: selectedUsers.map((user) => user.id),
+        title: isGroup ? title.trim() || undefined : undefined,
+      });
+      onOpenChange(false);
+      router.push(`/messages/${data.conversationId}`);
+    } catch (error) {
+      console.error("Create conversation error:", error);
+      alert(getErrorMessage(error, "대화방을 만들지 못했습니다."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>새 메시지</DialogTitle>
+          <DialogDescription>
+            메시지를 보낼 사람을 선택하세요. 여러 명을 선택하면 그룹 대화방이 만들어집니다.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* 선택한 받는 사람 */}
+        {selectedUsers.length > 0 && (
+          <ul className="flex flex-wrap gap-2" aria-label="받는 사람">
+            {selectedUsers.map((user) => (
+              <li key={user.id}>
+                <button
+                  type="button"
+                  onClick={() => toggleUser(user)}
+                  disabled={isSubmitting}
+                  className="flex items-center gap-1 rounded-full bg-[var(--instagram-blue)]/10 px-3 py-1 text-sm font-semibold text-[var(--instagram-blue)]"
+                  aria-label={`${user.username || user.name} 선택 해제`}
+                >
+                  {user.username || user.name}
+                  <X className="w-3 h-3" aria-hidden="true" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* 그룹 이름 (2명 이상) */}
+        {isGroup && (
+          <Input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+            placeholder="그룹 이름 (선택)"
+            aria-label="그룹 이름"
+            disabled={isSubmitting}
+          />
+        )}
+
+        <RecipientSearch
+          selectedIds={selectedUsers.map((user) => user.id)}
+          onToggle={toggleUser}
+          disabled={isSubmitting}
+        />
+
+        <DialogFooter>
+          <Button
+            onClick={handleSubmit}
+            disabled={selectedUsers.length === 0 || isSubmitting}
+            className="w-full"
+          >
+            {isSubmitting ? "만드는 중..." : "채팅"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * @file components/messages/RecipientSearch.tsx
+ * @description 메시지 받는 사람 검색 컴포넌트
+ *
+ * 새 메시지/게시물 공유 다이얼로그에서 사용하는 사용자 검색 목록입니다.
+ *
+ * 주요 기능:
+ * 1. 이름/사용자 이름으로 사용자 검색 (입력이 멈춘 뒤 /api/search 호출)
+ * 2. 검색 결과 선택/해제 (선택된 사용자 체크 표시)
+ * 3. 검색어가 없으면 emptyContent 표시 (최근 대화 등)
+ *
+ * @see components/messages/NewMessageDialog.tsx
+ * @see components/messages/SharePostDialog.tsx
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Loader2 } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { cn } from "@/lib/utils";
+import type { User } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+interface RecipientSearchProps {
+  selectedIds: string[];
+  onToggle: (user: User) => void;
+  excludedIds?: string[]; // 검색 결과에서 제외할 사용자 (본인 등)
+  emptyContent?: React.ReactNode; // 검색어가 없을 때 표시할 내용
+  disabled?: boolean;
+}
+
+// 입력이 멈춘 뒤 검색 요청까지 대기 시간
+const SEARCH_DELAY_MS = 300;
+
+const SEARCH_LIMIT = 20;
+
+export default function RecipientSearch({
+  selectedIds,
+  onToggle,
+  excludedIds = [],
+  emptyContent,
+  disabled = false,
+}: RecipientSearchProps) {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const trimmedQuery = query.trim();
+
+  // 검색어가 바뀌면 잠시 기다린 뒤 사용자 검색
+  useEffect(() => {
+    if (!trimmedQuery) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      try {
+        setError(null);
+        const data = await api.search({
+          q: trimmedQuery,
+          type: "users",
+          limit: SEARCH_LIMIT,
+        });
+        if (!cancelled) {
+          setResults(data.users || []);
+        }
+      } catch (err) {
+        console.error("Recipient search error:", err);
+        if (cancelled) return;
+        setError(getErrorMessage(err, "검색에 실패했습니다."));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [trimmedQuery]);
+
+  const visibleResults = results.filter((user) => !excludedIds.includes(user.id));
+
+  return (
+    <div className="space-y-2">
+      <Input
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder="검색..."
+        aria-label="받는 사람 검색"
+        disabled={disabled}
+      />
+
+      <div className="max-h-72 overflow-y-auto">
+        {!trimmedQuery ? (
+          emptyContent
+        ) : loading ? (
+          <div className="flex justify-center py-6" aria-busy="true">
+            <Loader2 className="w-5 h-5 animate-spin text-[var(--instagram-text-secondary)]" />
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-[var(--instagram-text-secondary)]" role="alert">
+            {error}
+          </p>
+        ) : visibleResults.length === 0 ? (
+          <p className="py-6 text-center text-sm text-[var(--instagram-text-secondary)]">
+            계정을 찾을 수 없습니다.
+          </p>
+        ) : (
+          <ul>
+            {visibleResults.map((user) => {
+              const isSelected = selectedIds.includes(user.id);
+
+              return (
+                <li key={user.id}>
+                  <button
+                    type="button"
+                    onClick={() => onToggle(user)}
+                    disabled={disabled}
+                    aria-pressed={isSelected}
+                    className="w-full flex items-center gap-3 px-1 py-2 text-left rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    <UserAvatar user={user} size={44} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+                        {user.username || user.name}
+                      </p>
+                      <p className="text-sm text-[var(--instagram-text-secondary)] truncate">
+                        {user.name}
+                      </p>
+                    </div>
+                    <span
+                      className={cn(
+                        "w-6 h-6 shrink-0 rounded-full border flex items-center justify-center",
+                        isSelected
+                          ? "bg-[var(--instagram-blue)] border-[var(--instagram-blue)] text-white"
+                          : "border-[var(--instagram-border)]"
+                      )}
+                      aria-hidden="true"
+                    >
+                      {isSelected && <Check className="w-4 h-4" />}
+                    </span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
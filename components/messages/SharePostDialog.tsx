@@ -0,0 +1,266 @@
+/**
+ * @file components/messages/SharePostDialog.tsx
+ * @description 게시물 공유 다이얼로그
+ *
+ * 게시물을 Direct Message로 보내거나 링크를 복사하는 다이얼로그입니다. (PostCard, PostModal)
+ *
+ * 주요 기능:
+ * 1. 최근 대화방 목록 및 사용자 검색으로 받는 사람 선택 (여러 명 가능)
+ * 2. 함께 보낼 메시지 입력 (선택)
+ * 3. 선택한 사용자와의 1:1 대화방을 만들거나 재사용한 뒤 게시물 메시지 전송
+ * 4. 링크 복사 (로그인하지 않은 경우 링크 복사만 표시)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check, Link2, Users } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import RecipientSearch from "@/components/messages/RecipientSearch";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { getConversationTitle, MAX_MESSAGE_LENGTH } from "@/lib/messages";
+import { cn } from "@/lib/utils";
+import type { ConversationWithDetails, User } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+interface SharePostDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  postId: string;
+}
+
+// 최근 대화방 표시 개수
+const RECENT_CONVERSATIONS_LIMIT = 10;
+
+export default function SharePostDialog({
+  open,
+  onOpenChange,
+  postId,
+}: SharePostDialogProps) {
+  const [recentConversations, setRecentConversations] = useState<ConversationWithDetails[]>([]);
+  const [canSendMessage, setCanSendMessage] = useState(true);
+  const [selectedConversationIds, setSelectedConversationIds] = useState<string[]>([]);
+  const [selectedUsers, setSelectedUsers] = useState<User[]>([]);
+  const [note, setNote] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  // 다이얼로그를 열 때마다 선택 초기화 및 최근 대화방 조회
+  useEffect(() => {
+    if (!open) return;
+
+    setSelectedConversationIds([]);
+    setSelectedUsers([]);
+    setNote("");
+
+    let cancelled = false;
+    const loadRecentConversations = async () => {
+      try {
+        const data = await api.conversations.list({
+          limit: RECENT_CONVERSATIONS_LIMIT,
+        });
+        if (!cancelled) {
+          setCanSendMessage(true);
+          setRecentConversations(data.conversations || []);
+        }
+      } catch (error) {
+        // 로그인하지 않은 경우 링크 복사만 표시
+        if (error instanceof ApiError && error.code === "UNAUTHORIZED") {
+          if (!cancelled) setCanSendMessage(false);
+          return;
+        }
+
+        // 최근 대화방 조회 실패 시 검색으로만 선택
+        console.error("Load recent conversations error:", error);
+      }
+    };
+
+    loadRecentConversations();
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const selectedCount = selectedConversationIds.length + selectedUsers.length;
+
+  const toggleConversation = (conversationId: string) => {
+    setSelectedConversationIds((prev) =>
+      prev.includes(conversationId)
+        ? prev.filter((id) => id !== conversationId)
+        : [...prev, conversationId]
+    );
+  };
+
+  const toggleUser = (user: User) => {
+    setSelectedUsers((prev) =>
+      prev.some((selected) => selected.id === user.id)
+        ? prev.filter((selected) => selected.id !== user.id)
+        : [...prev, user]
+    );
+  };
+
+  const handleCopyLink = async () => {
+    try {
+      // 게시물 URL 생성 후 클립보드에 복사
+      const postUrl = `${window.location.origin}/post/${postId}`;
+      await navigator.clipboard.writeText(postUrl);
+
+      alert("링크가 클립보드에 복사되었습니다!");
+    } catch (err) {
+      console.error("Failed to copy URL:", err);
+      alert("링크 복사에 실패했습니다.");
+    }
+  };
+
+  const handleSend = async () => {
+    if (selectedCount === 0 || isSending) return;
+
+    setIsSending(true);
+    try {
+      // 검색으로 선택한 사용자는 1:1 대화방을 만들거나 기존 대화방 사용
+      const userConversationIds = await Promise.all(
+        selectedUsers.map(async (user) => {
+          const data = await api.conversations.create({ userIds: [user.id] });
+          return data.conversationId;
+        })
+      );
+
+      const conversationIds = [
+        ...new Set([...selectedConversationIds, ...userConversationIds]),
+      ];
+
+      await Promise.all(
+        conversationIds.map((conversationId) =>
+          api.conversations.sendMessage(conversationId, {
+            postId,
+            content: note.trim() || undefined,
+          })
+        )
+      );
+
+      onOpenChange(false);
+      alert("게시물을 보냈습니다.");
+    } catch (error) {
+      console.error("Share post error:", error);
+      alert(getErrorMessage(error, "게시물을 보내지 못했습니다."));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  // 최근 대화방 (검색어가 없을 때 표시)
+  const recentList =
+    recentConversations.length > 0 ? (
+      <ul aria-label="최근 대화">
+        {recentConversations.map((conversation) => {
+          const isSelected = selectedConversationIds.includes(conversation.id);
+          const directMember = conversation.is_group ? null : conversation.members[0];
+
+          return (
+            <li key={conversation.id}>
+              <button
+                type="button"
+                onClick={() => toggleConversation(conversation.id)}
+                disabled={isSending}
+                aria-pressed={isSelected}
+                className="w-full flex items-center gap-3 px-1 py-2 text-left rounded-md hover:bg-gray-50 transition-colors"
+              >
+                {directMember ? (
+                  <UserAvatar user={directMember} size={44} />
+                ) : (
+                  <div className="w-11 h-11 shrink-0 rounded-full bg-gray-100 flex items-center justify-center">
+                    <Users
+                      className="w-5 h-5 text-[var(--instagram-text-secondary)]"
+                      aria-hidden="true"
+                    />
+                  </div>
+                )}
+                <span className="flex-1 min-w-0 text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+                  {getConversationTitle(conversation)}
+                </span>
+                <span
+                  className={cn(
+                    "w-6 h-6 shrink-0 rounded-full border flex items-center justify-center",
+                    isSelected
+                      ? "bg-[var(--instagram-blue)] border-[var(--instagram-blue)] text-white"
+                      : "border-[var(--instagram-border)]"
+                  )}
+                  aria-hidden="true"
+                >
+                  {isSelected && <Check className="w-4 h-4" />}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    ) : (
+      <p className="py-6 text-center text-sm text-[var(--instagram-text-secondary)]">
+        받는 사람을 검색하세요.
+      </p>
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>공유</DialogTitle>
+          <DialogDescription>
+            {canSendMessage
+              ? "게시물을 메시지로 보내거나 링크를 복사하세요."
+              : "로그인하면 게시물을 메시지로 보낼 수 있습니다."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canSendMessage && (
+          <>
+            <RecipientSearch
+              selectedIds={selectedUsers.map((user) => user.id)}
+              onToggle={toggleUser}
+              emptyContent={recentList}
+              disabled={isSending}
+            />
+
+            {selectedCount > 0 && (
+              <Input
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                maxLength={MAX_MESSAGE_LENGTH}
+                placeholder="메시지 쓰기..."
+                aria-label="함께 보낼 메시지"
+                disabled={isSending}
+              />
+            )}
+          </>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handleCopyLink} disabled={isSending}>
+            <Link2 className="w-4 h-4" aria-hidden="true" />
+            링크 복사
+          </Button>
+          {canSendMessage && (
+            <Button onClick={handleSend} disabled={selectedCount === 0 || isSending}>
+              {isSending
+                ? "보내는 중..."
+                : selectedCount > 1
+                  ? `보내기 (${selectedCount})`
+                  : "보내기"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
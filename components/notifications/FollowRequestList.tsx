@@ -0,0 +1,193 @@
+/**
+ * @file components/notifications/FollowRequestList.tsx
+ * @description 팔로우 요청함 컴포넌트
+ *
+ * 비공개 계정이 받은 팔로우 요청 목록입니다. 알림 목록 위에 표시됩니다.
+ *
+ * 주요 기능:
+ * 1. 받은 팔로우 요청 목록 및 전체 요청 수 표시 (요청이 없으면 숨김)
+ * 2. "확인"(승인) / "삭제"(거절) 버튼 (낙관적 업데이트, 실패 시 롤백)
+ * 3. "더 보기"로 nextCursor 다음 페이지 로드
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Link from "next/link";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { formatRelativeTime } from "@/lib/utils";
+import type {
+  FollowRequestWithUser,
+  RespondFollowRequestRequest,
+} from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+type FollowRequestAction = RespondFollowRequestRequest["action"];
+
+const PAGE_SIZE = 20;
+
+export default function FollowRequestList() {
+  const [requests, setRequests] = useState<FollowRequestWithUser[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [processingIds, setProcessingIds] = useState<Set<string>>(new Set());
+  const loadingRef = useRef(false);
+
+  // 팔로우 요청 로드 함수
+  const loadRequests = useCallback(async (currentCursor: string | null) => {
+    if (loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoading(true);
+
+    try {
+      const data = await api.followRequests.list({
+        limit: PAGE_SIZE,
+        cursor: currentCursor,
+      });
+      const newRequests = data.requests || [];
+
+      if (currentCursor) {
+        setRequests((prev) => {
+          // 이미 표시 중인 요청은 제외 (중복 방지)
+          const existingIds = new Set(prev.map((r) => r.id));
+          return [...prev, ...newRequests.filter((r) => !existingIds.has(r.id))];
+        });
+      } else {
+        setRequests(newRequests);
+      }
+      setTotalCount(data.totalCount || 0);
+      setCursor(data.nextCursor ?? null);
+      setHasMore(data.hasMore && !!data.nextCursor);
+    } catch (err) {
+      // 요청함 로드 실패는 알림 목록 표시에 영향 없도록 로그만 남김
+      console.error("Load follow requests error:", err);
+    } finally {
+      setLoading(false);
+      loadingRef.current = false;
+    }
+  }, []);
+
+  // 초기 로드
+  useEffect(() => {
+    loadRequests(null);
+  }, [loadRequests]);
+
+  // 승인/거절 핸들러 (낙관적 업데이트)
+  const handleAction = useCallback(
+    async (request: FollowRequestWithUser, action: FollowRequestAction) => {
+      if (processingIds.has(request.id)) return;
+
+      setProcessingIds((prev) => new Set(prev).add(request.id));
+      const previousRequests = requests;
+      setRequests((prev) => prev.filter((r) => r.id !== request.id));
+      setTotalCount((prev) => Math.max(0, prev - 1));
+
+      try {
+        await api.followRequests.respond({ requestId: request.id, action });
+      } catch (err) {
+        console.error("Follow request action error:", err);
+        // 에러 발생 시 이전 상태로 롤백
+        setRequests(previousRequests);
+        setTotalCount((prev) => prev + 1);
+        alert(getErrorMessage(err, "팔로우 요청 처리에 실패했습니다."));
+      } finally {
+        setProcessingIds((prev) => {
+          const next = new Set(prev);
+          next.delete(request.id);
+          return next;
+        });
+      }
+    },
+    [processingIds, requests]
+  );
+
+  // 요청이 없으면 표시하지 않음 (첫 로드 중 포함)
+  if (requests.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-6" aria-labelledby="follow-requests-heading">
+      <h2
+        id="follow-requests-heading"
+        className="px-4 mb-2 font-semibold text-[var(--instagram-text-primary)]"
+      >
+        팔로우 요청 {totalCount.toLocaleString()}
+      </h2>
+
+      <ul className="divide-y divide-[var(--instagram-border)]">
+        {requests.map((request) => {
+          const requester = request.requester;
+          const isProcessing = processingIds.has(request.id);
+
+          return (
+            <li key={request.id} className="flex items-center gap-3 px-4 py-3">
+              <Link
+                href={`/profile/${requester.clerk_id}`}
+                className="flex flex-1 min-w-0 items-center gap-3"
+              >
+                <UserAvatar user={requester} size={44} />
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+                    {requester.username || requester.name}
+                  </p>
+                  <p className="text-xs text-[var(--instagram-text-secondary)] truncate">
+                    {requester.username ? `${requester.name} · ` : ""}
+                    {formatRelativeTime(request.created_at)}
+                  </p>
+                </div>
+              </Link>
+
+              <div className="flex shrink-0 items-center gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => handleAction(request, "approve")}
+                  disabled={isProcessing}
+                  className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
+                  aria-label={`${requester.name}님의 팔로우 요청 확인`}
+                >
+                  확인
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleAction(request, "deny")}
+                  disabled={isProcessing}
+                  aria-label={`${requester.name}님의 팔로우 요청 삭제`}
+                >
+                  삭제
+                </Button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* 더 보기 */}
+      {hasMore && (
+        <div className="flex justify-center py-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => loadRequests(cursor)}
+            disabled={loading}
+            className="text-[var(--instagram-blue)] font-semibold"
+          >
+            {loading ? (
+              <Loader2 className="w-4 h-4 animate-spin" />
+            ) : (
+              "요청 더 보기"
+            )}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,319 @@
+/**
+ * @file components/notifications/NotificationList.tsx
+ * @description 알림 목록 컴포넌트
+ *
+ * Instagram 스타일의 알림 목록입니다.
+ *
+ * 주요 기능:
+ * 1. 묶음 알림 표시 ("A님 외 12명이 회원님의 게시물을 좋아합니다.")
+ * 2. 읽지 않은 알림 강조 및 "모두 읽음" 처리
+ * 3. 알림 클릭 시 읽음 처리 후 게시물 모달 또는 프로필로 이동
+ * 4. 하단 도달 시 nextCursor로 다음 페이지 로드 (무한 스크롤)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import { Film, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import PostModal from "@/components/post/PostModal";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { NOTIFICATIONS_READ_EVENT } from "@/hooks/use-unread-notifications";
+import { formatRelativeTime } from "@/lib/utils";
+import { cn } from "@/lib/utils";
+import { getNotificationMessage, groupNotifications } from "@/lib/notifications";
+import { guessMediaType } from "@/lib/post-media";
+import type { NotificationGroup, NotificationWithActor } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+const PAGE_SIZE = 30;
+
+export default function NotificationList() {
+  const router = useRouter();
+  const [notifications, setNotifications] = useState<NotificationWithActor[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [markingAll, setMarkingAll] = useState(false);
+  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
+
+  // 같은 게시물 좋아요, 팔로우를 하나로 묶음
+  const groups = useMemo(
+    () => groupNotifications(notifications),
+    [notifications]
+  );
+
+  // 배지 갱신 이벤트 발생
+  const notifyRead = useCallback((count: number) => {
+    setUnreadCount(count);
+    window.dispatchEvent(
+      new CustomEvent(NOTIFICATIONS_READ_EVENT, { detail: { unreadCount: count } })
+    );
+  }, []);
+
+  // 알림 로드 함수
+  const loadNotifications = useCallback(async (currentCursor: string | null) => {
+    if (loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoading(true);
+
+    try {
+      setError(null);
+      const data = await api.notifications.list({
+        limit: PAGE_SIZE,
+        cursor: currentCursor,
+      });
+      const newNotifications = data.notifications || [];
+
+      if (currentCursor) {
+        setNotifications((prev) => {
+          // 이미 표시 중인 알림은 제외 (중복 방지)
+          const existingIds = new Set(prev.map((n) => n.id));
+          return [
+            ...prev,
+            ...newNotifications.filter((n) => !existingIds.has(n.id)),
+          ];
+        });
+      } else {
+        setNotifications(newNotifications);
+      }
+      setUnreadCount(data.unreadCount || 0);
+      setCursor(data.nextCursor ?? null);
+      setHasMore(data.hasMore && !!data.nextCursor);
+    } catch (err) {
+      console.error("Load notifications error:", err);
+      setError(getErrorMessage(err, "알림을 불러오는데 실패했습니다."));
+    } finally {
+      setLoading(false);
+      loadingRef.current = false;
+    }
+  }, []);
+
+  // 초기 로드
+  useEffect(() => {
+    loadNotifications(null);
+  }, [loadNotifications]);
+
+  // Intersection Observer 설정 (다음 페이지 로드)
+  useEffect(() => {
+    if (!sentinelRef.current || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasMore && !loading) {
+          loadNotifications(cursor);
+        }
+      },
+      {
+        rootMargin: "100px",
+      }
+    );
+
+    observer.observe(sentinelRef.current);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, loading, cursor, loadNotifications]);
+
+  // 읽음 처리 (낙관적 업데이트)
+  const markAsRead = useCallback(
+    async (body: { ids: string[] } | { all: true }) => {
+      const readAt = new Date().toISOString();
+      const targetIds = "ids" in body ? new Set(body.ids) : null;
+
+      setNotifications((prev) =>
+        prev.map((n) =>
+          !n.read_at && (!targetIds || targetIds.has(n.id))
+            ? { ...n, read_at: readAt }
+            : n
+        )
+      );
+
+      try {
+        const data = await api.notifications.markRead(body);
+        notifyRead(data.unreadCount || 0);
+      } catch (err) {
+        // 읽음 처리 실패는 다음 로드 시 다시 표시되므로 로그만 남김
+        console.error("Mark notifications read error:", err);
+      }
+    },
+    [notifyRead]
+  );
+
+  // 모두 읽음 처리
+  const handleMarkAllRead = useCallback(async () => {
+    setMarkingAll(true);
+    await markAsRead({ all: true });
+    setMarkingAll(false);
+  }, [markAsRead]);
+
+  // 알림 클릭: 읽음 처리 후 게시물 모달 또는 프로필로 이동
+  const handleGroupClick = useCallback(
+    (group: NotificationGroup) => {
+      if (!group.is_read) {
+        markAsRead({ ids: group.notification_ids });
+      }
+
+      if (group.type === "follow" || !group.post_id) {
+        router.push(`/profile/${group.actors[0].clerk_id}`);
+        return;
+      }
+
+      setSelectedPostId(group.post_id);
+    },
+    [markAsRead, router]
+  );
+
+  // 로딩 상태 (첫 로드)
+  if (loading && notifications.length === 0) {
+    return (
+      <div className="flex justify-center py-16" aria-busy="true">
+        <Loader2 className="w-6 h-6 animate-spin text-[var(--instagram-text-secondary)]" />
+      </div>
+    );
+  }
+
+  // 에러 상태 (첫 로드)
+  if (error && notifications.length === 0) {
+    return (
+      <div className="text-center py-16 space-y-4" role="alert">
+        <p className="text-[var(--instagram-text-secondary)]">{error}</p>
+        <Button variant="outline" onClick={() => loadNotifications(null)}>
+          다시 시도
+        </Button>
+      </div>
+    );
+  }
+
+  // 알림이 없는 경우
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-16">
+        <p className="text-[var(--instagram-text-secondary)] text-lg">
+          아직 알림이 없습니다.
+        </p>
+        <p className="text-sm text-[var(--instagram-text-secondary)] mt-2">
+          다른 사람이 회원님의 게시물을 좋아하거나 댓글을 남기면 여기에 표시됩니다.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* 모두 읽음 */}
+      <div className="flex items-center justify-between px-4 mb-2">
+        <span className="text-sm text-[var(--instagram-text-secondary)]" aria-live="polite">
+          읽지 않은 알림 {unreadCount.toLocaleString()}개
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleMarkAllRead}
+          disabled={unreadCount === 0 || markingAll}
+          className="text-[var(--instagram-blue)] font-semibold"
+        >
+          모두 읽음
+        </Button>
+      </div>
+
+      {/* 알림 목록 */}
+      <ul className="divide-y divide-[var(--instagram-border)]">
+        {groups.map((group) => {
+          const actor = group.actors[0];
+          const isVideo =
+            !!group.post_image_url &&
+            guessMediaType(group.post_image_url) === "video";
+
+          return (
+            <li key={group.key}>
+              <button
+                type="button"
+                onClick={() => handleGroupClick(group)}
+                className={cn(
+                  "w-full flex items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-gray-50",
+                  !group.is_read && "bg-[var(--instagram-blue)]/5"
+                )}
+                aria-label={`${actor.name}${getNotificationMessage(group)}`}
+              >
+                {/* 프로필 이미지: 44px 원형 */}
+                <UserAvatar user={actor} size={44} />
+
+                {/* 알림 문구 */}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-[var(--instagram-text-primary)] line-clamp-2">
+                    <span className="font-semibold">{actor.name}</span>
+                    {getNotificationMessage(group)}{" "}
+                    <span className="text-[var(--instagram-text-secondary)]">
+                      {formatRelativeTime(group.latest_at)}
+                    </span>
+                  </p>
+                </div>
+
+                {/* 게시물 썸네일 */}
+                {group.post_image_url && (
+                  <div className="relative w-11 h-11 shrink-0 bg-gray-100 overflow-hidden">
+                    {isVideo ? (
+                      <div className="w-full h-full flex items-center justify-center bg-black text-white">
+                        <Film className="w-4 h-4" aria-hidden="true" />
+                      </div>
+                    ) : (
+                      <Image
+                        src={group.post_image_url}
+                        alt=""
+                        fill
+                        className="object-cover"
+                        sizes="44px"
+                      />
+                    )}
+                  </div>
+                )}
+
+                {/* 읽지 않음 표시 */}
+                {!group.is_read && (
+                  <span
+                    className="w-2 h-2 shrink-0 rounded-full bg-[var(--instagram-blue)]"
+                    aria-label="읽지 않음"
+                  />
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {/* 추가 로드 중 */}
+      {loading && notifications.length > 0 && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-[var(--instagram-text-secondary)]" />
+        </div>
+      )}
+
+      {/* 무한 스크롤 감지 요소 */}
+      {hasMore && !loading && (
+        <div ref={sentinelRef} className="h-4" aria-hidden="true" />
+      )}
+
+      {/* 게시물 상세 모달 */}
+      {selectedPostId && (
+        <PostModal
+          postId={selectedPostId}
+          open={!!selectedPostId}
+          onOpenChange={(open) => {
+            if (!open) setSelectedPostId(null);
+          }}
+        />
+      )}
+    </>
+  );
+}
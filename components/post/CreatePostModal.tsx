@@ -6,10 +6,16 @@
  * 이미지 업로드 및 캡션 입력 기능을 제공합니다.
  *
  * 주요 기능:
- * 1. 이미지 파일 선택 및 미리보기
- * 2. 캡션 입력 (최대 2,200자)
- * 3. Supabase Storage에 이미지 업로드
- * 4. posts 테이블에 게시물 데이터 저장
+ * 1. 이미지/동영상 파일 선택 및 미리보기 (최대 10개, 혼합 가능)
+ * 2. 미디어 순서대로 썸네일 목록 표시, 개별 제거 및 추가 선택
+ * 3. 캡션 입력 (최대 2,200자, @멘션 자동완성)
+ * 4. 공유하면 업로드 큐(UploadProvider)에 맡기고 바로 닫힘
+ *    - 재개 가능 업로드, 진행률/일시정지/취소는 화면 하단 알림(UploadToasts)에서 처리
+ *    - 동영상은 포스터 이미지와 재생 길이를 함께 저장
+ * 5. posts / post_media 테이블에 게시물 데이터 저장
+ * 6. 스토리 모드 (variant="story"): 미디어 1개를 stories 버킷에 업로드하고 24시간 스토리로 저장
+ * 7. 예약 게시 (공개 시각 지정, 최대 MAX_SCHEDULE_DAYS일 후)
+ * 8. 미디어를 선택한 채 닫으면 임시 저장 여부 확인 (프로필의 "임시 저장" 탭에서 이어서 작성)
  *
  * @see docs/PRD.md
  */
@@ -21,6 +27,7 @@ import Image from "next/image";
 import {
   Dialog,
   DialogContent,
+  DialogFooter,
   DialogHeader,
   DialogTitle,
   DialogDescription,
@@ -28,15 +35,28 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
-import { X, Upload, Loader2 } from "lucide-react";
+import MentionSuggestions from "@/components/mention/MentionSuggestions";
+import PublishAtField from "./PublishAtField";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { X, Upload, Plus, Film } from "lucide-react";
 import { validateMediaFile } from "@/lib/utils";
 import { cn } from "@/lib/utils";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { MAX_POST_MEDIA } from "@/lib/post-media";
+import type { MediaType } from "@/lib/types";
 
 interface CreatePostModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess?: () => void;
+  variant?: "post" | "story"; // story: 제목/캡션 없이 미디어 1개만 업로드
+}
+
+// 선택된 미디어 (업로드 전)
+interface SelectedMedia {
+  file: File;
+  previewUrl: string;
+  type: MediaType;
 }
 
 const MAX_CAPTION_LENGTH = 2200;
@@ -45,68 +65,107 @@ export default function CreatePostModal({
   open,
   onOpenChange,
   onSuccess,
+  variant = "post",
 }: CreatePostModalProps) {
-  const supabase = useClerkSupabaseClient();
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [mediaType, setMediaType] = useState<"image" | "video" | null>(null);
+  const { startUpload } = useUploadQueue();
+  const isStory = variant === "story";
+  const maxMedia = isStory ? 1 : MAX_POST_MEDIA;
+  const [selectedMedia, setSelectedMedia] = useState<SelectedMedia[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
   const [title, setTitle] = useState("");
   const [caption, setCaption] = useState("");
-  const [uploading, setUploading] = useState(false);
+  const [publishAt, setPublishAt] = useState(""); // datetime-local 값 ("" = 즉시 공개)
+  const [isDiscardOpen, setIsDiscardOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const captionRef = useRef<HTMLTextAreaElement>(null);
+  const {
+    suggestions: mentionSuggestions,
+    activeIndex: mentionActiveIndex,
+    updateMentionQuery,
+    handleKeyDown: handleMentionKeyDown,
+    selectSuggestion: selectMention,
+    close: closeMentions,
+  } = useMentionAutocomplete({
+    value: caption,
+    onValueChange: setCaption,
+    inputRef: captionRef,
+  });
+  const selectedMediaRef = useRef<SelectedMedia[]>([]);
+
+  // 언마운트 시 미리보기 URL 정리를 위해 최신 목록 보관
+  useEffect(() => {
+    selectedMediaRef.current = selectedMedia;
+  }, [selectedMedia]);
 
-  // 파일 선택 핸들러
+  const currentMedia = selectedMedia[currentIndex] ?? null;
+
+  // 파일 선택 핸들러 (여러 파일 선택 가능)
   const handleFileSelect = useCallback(
     (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file) return;
+      const files = Array.from(event.target.files || []);
+      // 같은 파일을 다시 선택할 수 있도록 초기화
+      if (fileInputRef.current) {
+        fileInputRef.current.value = "";
+      }
+      if (files.length === 0) return;
 
       // 🔍 즉시 디버깅 정보 출력
-      const fileSizeMB = (file.size / 1024 / 1024).toFixed(2);
       console.group("🔍 파일 선택 디버깅");
-      console.log("📁 파일 정보:", {
-        이름: file.name,
-        크기: `${fileSizeMB} MB`,
-        크기_바이트: `${file.size.toLocaleString()} bytes`,
-        타입: file.type,
-        최대_제한: "50MB",
-        상태: file.size > 50 * 1024 * 1024 ? "❌ 초과" : "✅ 허용",
+      files.forEach((file) => {
+        const fileSizeMB = (file.size / 1024 / 1024).toFixed(2);
+        console.log("📁 파일 정보:", {
+          이름: file.name,
+          크기: `${fileSizeMB} MB`,
+          타입: file.type,
+          상태: file.size > 50 * 1024 * 1024 ? "❌ 초과" : "✅ 허용",
+        });
       });
-      console.log("🎬 미디어 타입:", file.type.startsWith("video/") ? "동영상" : "이미지");
       console.groupEnd();
 
-      // 파일 크기 사전 검증 (즉시 피드백)
-      if (file.size > 50 * 1024 * 1024) {
-        const sizeMB = (file.size / 1024 / 1024).toFixed(2);
-        setError(`파일이 너무 큽니다. (${sizeMB}MB / 최대 50MB)`);
-        if (fileInputRef.current) {
-          fileInputRef.current.value = "";
-        }
+      // 최대 개수 검증
+      const remaining = maxMedia - selectedMediaRef.current.length;
+      if (files.length > remaining) {
+        setError(
+          isStory
+            ? "스토리에는 사진 또는 동영상 1개만 올릴 수 있습니다."
+            : `사진과 동영상은 최대 ${MAX_POST_MEDIA}개까지 선택할 수 있습니다.`
+        );
         return;
       }
 
-      // 파일 검증
-      const validation = validateMediaFile(file);
-      if (!validation.valid) {
-        console.error("❌ 파일 검증 실패:", validation.error);
-        setError(validation.error || "파일 선택에 실패했습니다.");
+      // 파일 크기 사전 검증 (즉시 피드백)
+      const oversized = files.find((file) => file.size > 50 * 1024 * 1024);
+      if (oversized) {
+        const sizeMB = (oversized.size / 1024 / 1024).toFixed(2);
+        setError(`파일이 너무 큽니다. (${oversized.name}: ${sizeMB}MB / 최대 50MB)`);
         return;
       }
 
-      // 파일 타입 확인 (이미지 또는 동영상)
-      const isVideo = file.type.startsWith("video/");
-      setMediaType(isVideo ? "video" : "image");
-      setSelectedFile(file);
-      setError(null);
+      // 파일 검증
+      for (const file of files) {
+        const validation = validateMediaFile(file);
+        if (!validation.valid) {
+          console.error("❌ 파일 검증 실패:", validation.error);
+          setError(validation.error || "파일 선택에 실패했습니다.");
+          return;
+        }
+      }
 
       console.log("✅ 파일 검증 통과, 미리보기 생성 중...");
 
-      // 미리보기 URL 생성
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
+      // 미리보기 URL 생성 (선택 순서 유지)
+      const newMedia: SelectedMedia[] = files.map((file) => ({
+        file,
+        previewUrl: URL.createObjectURL(file),
+        type: file.type.startsWith("video/") ? "video" : "image",
+      }));
+
+      setCurrentIndex(selectedMediaRef.current.length);
+      setSelectedMedia((prev) => [...prev, ...newMedia]);
+      setError(null);
     },
-    []
+    [isStory, maxMedia]
   );
 
   // 파일 선택 버튼 클릭
@@ -114,207 +173,132 @@ export default function CreatePostModal({
     fileInputRef.current?.click();
   }, []);
 
-  // 미디어 제거
-  const handleRemoveImage = useCallback(() => {
-    if (previewUrl) {
-      URL.revokeObjectURL(previewUrl);
-    }
-    setSelectedFile(null);
-    setPreviewUrl(null);
-    setMediaType(null);
+  // 개별 미디어 제거
+  const handleRemoveMedia = useCallback((index: number) => {
+    setSelectedMedia((prev) => {
+      const target = prev[index];
+      if (target) {
+        URL.revokeObjectURL(target.previewUrl);
+      }
+      const next = prev.filter((_, i) => i !== index);
+      setCurrentIndex((current) =>
+        Math.max(0, Math.min(current > index ? current - 1 : current, next.length - 1))
+      );
+      return next;
+    });
+    setError(null);
+  }, []);
+
+  // 전체 미디어 제거
+  const handleClearMedia = useCallback(() => {
+    selectedMediaRef.current.forEach((media) => {
+      URL.revokeObjectURL(media.previewUrl);
+    });
+    setSelectedMedia([]);
+    setCurrentIndex(0);
     setError(null);
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
-  }, [previewUrl]);
-
-  // 업로드 핸들러
-  // 클라이언트에서 직접 Supabase Storage에 업로드하여 Next.js API Routes의 body size limit 문제를 우회
-  const handleUpload = useCallback(async () => {
-    if (!selectedFile) {
-      setError("파일을 선택해주세요.");
-      return;
-    }
+  }, []);
 
-    setUploading(true);
+  // 작성 내용 초기화 및 모달 닫기
+  const resetAndClose = useCallback(() => {
+    handleClearMedia();
+    setTitle("");
+    setCaption("");
+    setPublishAt("");
     setError(null);
-
-    try {
-      console.group("📤 게시물 업로드 시작");
-      console.log("📁 파일 정보:", {
-        이름: selectedFile.name,
-        크기: `${(selectedFile.size / 1024 / 1024).toFixed(2)} MB`,
-        타입: selectedFile.type,
-      });
-
-      // 1. Supabase Storage에 파일 업로드 (클라이언트에서 직접)
-      const fileExt = selectedFile.name.split(".").pop() || "jpg";
-      const fileName = `${Date.now()}-${Math.random()
-        .toString(36)
-        .substring(7)}.${fileExt}`;
-
-      console.log("📤 Supabase Storage 업로드 중...", fileName);
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from("posts")
-        .upload(fileName, selectedFile, {
-          contentType: selectedFile.type,
-          cacheControl: "3600",
-          upsert: false,
-        });
-
-      if (uploadError || !uploadData) {
-        console.error("❌ Storage 업로드 실패:", uploadError);
-        
-        let errorMessage = "미디어 파일 업로드에 실패했습니다. 잠시 후 다시 시도해주세요.";
-        if (uploadError) {
-          if (uploadError.message?.includes("file_size_limit")) {
-            errorMessage = "파일 크기가 너무 큽니다. 50MB 이하의 파일만 업로드할 수 있습니다.";
-          } else if (uploadError.message?.includes("allowed_mime_types")) {
-            errorMessage = "지원하지 않는 파일 형식입니다.";
-          } else {
-            errorMessage = `업로드 실패: ${uploadError.message || "알 수 없는 오류"}`;
-          }
-        }
-        
-        throw new Error(errorMessage);
+    setIsDiscardOpen(false);
+    onOpenChange(false);
+  }, [handleClearMedia, onOpenChange]);
+
+  // 업로드 핸들러 (saveAsDraft: 공유하지 않고 임시 저장)
+  // 업로드는 UploadProvider에서 진행되므로 모달을 바로 닫고, 진행률은 화면 하단 알림으로 표시
+  const handleUpload = useCallback(
+    (saveAsDraft = false) => {
+      if (selectedMedia.length === 0) {
+        setError("파일을 선택해주세요.");
+        return;
       }
 
-      console.log("✅ Storage 업로드 성공:", uploadData.path);
-
-      // 2. Public URL 생성
-      const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-      const imageUrl = `${supabaseUrl}/storage/v1/object/public/posts/${fileName}`;
-
-      console.log("🔗 Public URL 생성:", imageUrl);
-
-      // 3. API를 호출하여 posts 테이블에 메타데이터만 저장
-      const response = await fetch("/api/posts", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          image_url: imageUrl,
-          title: title.trim() || null,
-          caption: caption.trim() || null,
-        }),
-      });
-
-      if (!response.ok) {
-        // 업로드된 파일 삭제 시도
-        try {
-          await supabase.storage.from("posts").remove([fileName]);
-          console.log("🗑️ 업로드 실패로 인한 파일 삭제 완료");
-        } catch (removeError) {
-          console.error("❌ 파일 삭제 실패:", removeError);
-        }
-
-        const responseText = await response.text();
-        let errorData: any = {};
-        
-        try {
-          errorData = JSON.parse(responseText);
-        } catch (e) {
-          errorData = { error: responseText || "알 수 없는 오류가 발생했습니다." };
-        }
-        
-        const errorMessage = errorData.error || "게시물 저장에 실패했습니다.";
-        console.error("❌ API 호출 실패:", {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorMessage,
-        });
-        
-        throw new Error(errorMessage);
+      // 예약 시각 사전 검증 (업로드 후 저장 단계에서 실패하지 않도록)
+      if (!saveAsDraft && publishAt && new Date(publishAt).getTime() <= Date.now()) {
+        setIsDiscardOpen(false);
+        setError("예약 시각은 현재 이후여야 합니다.");
+        return;
       }
 
-      // 성공 처리
-      const data = await response.json();
-      console.log("✅ 게시물 생성 성공:", data.id);
-      console.groupEnd();
-
-      // 상태 초기화
-      handleRemoveImage();
-      setTitle("");
-      setCaption("");
-      setUploading(false);
-
-      // 모달 닫기
-      onOpenChange(false);
-
-      // 성공 콜백 호출
-      onSuccess?.();
+      startUpload({
+        kind: variant,
+        media: selectedMedia.map(({ file, type }) => ({ file, type })),
+        title: title.trim() || null,
+        caption: caption.trim() || null,
+        isDraft: saveAsDraft,
+        publishAt: !saveAsDraft && publishAt ? new Date(publishAt).toISOString() : null,
+        onSuccess,
+      });
 
-      // 피드 새로고침 (간단하게 페이지 새로고침)
-      // 참고: 향후 개선 시 Context나 전역 상태를 사용하는 것을 고려
-      if (typeof window !== "undefined") {
-        window.location.reload();
-      }
-    } catch (err) {
-      console.error("❌ 업로드 에러:", err);
-      let errorMessage = "게시물 업로드에 실패했습니다. 다시 시도해주세요.";
-      
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      
-      setError(errorMessage);
-      setUploading(false);
-      console.groupEnd();
-    }
-  }, [selectedFile, title, caption, onOpenChange, onSuccess, handleRemoveImage, supabase]);
+      resetAndClose();
+    },
+    [selectedMedia, title, caption, publishAt, variant, startUpload, onSuccess, resetAndClose]
+  );
 
-  // 모달 닫기 핸들러
+  // 모달 닫기 핸들러 (게시물 작성 중이면 임시 저장 여부 확인)
   const handleClose = useCallback(() => {
-    if (uploading) return; // 업로드 중에는 닫기 불가
-
-    handleRemoveImage();
-    setTitle("");
-    setCaption("");
-    setError(null);
-    onOpenChange(false);
-  }, [uploading, handleRemoveImage, onOpenChange]);
+    if (!isStory && selectedMediaRef.current.length > 0) {
+      setIsDiscardOpen(true);
+      return;
+    }
+    resetAndClose();
+  }, [isStory, resetAndClose]);
 
   // 컴포넌트 언마운트 시 미리보기 URL 정리
   useEffect(() => {
     return () => {
-      if (previewUrl) {
-        URL.revokeObjectURL(previewUrl);
-      }
+      selectedMediaRef.current.forEach((media) => {
+        URL.revokeObjectURL(media.previewUrl);
+      });
     };
-  }, [previewUrl]);
+  }, []);
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent className="sm:max-w-[600px] p-0 gap-0">
         <DialogHeader className="px-6 py-4 border-b border-[var(--instagram-border)]">
           <DialogTitle className="text-center text-lg font-semibold">
-            새 게시물 만들기
+            {isStory ? "새 스토리 만들기" : "새 게시물 만들기"}
           </DialogTitle>
           <DialogDescription className="sr-only">
-            이미지 또는 동영상을 선택하고 캡션을 입력하여 새 게시물을 작성하세요.
+            {isStory
+              ? "이미지 또는 동영상 1개를 선택하여 24시간 동안 표시되는 스토리를 올리세요."
+              : `이미지 또는 동영상을 최대 ${MAX_POST_MEDIA}개 선택하고 캡션을 입력하여 새 게시물을 작성하세요.`}
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex flex-col">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp,video/mp4,video/webm,video/quicktime,video/x-msvideo"
+            multiple={!isStory}
+            onChange={handleFileSelect}
+            className="hidden"
+            aria-label="미디어 파일 선택"
+          />
+
           {/* 이미지 선택 영역 */}
-          {!previewUrl ? (
+          {!currentMedia ? (
             <div className="flex flex-col items-center justify-center py-12 px-6">
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="image/jpeg,image/png,image/webp,video/mp4,video/webm,video/quicktime,video/x-msvideo"
-                onChange={handleFileSelect}
-                className="hidden"
-                aria-label="미디어 파일 선택"
-              />
               <Upload className="w-12 h-12 text-[var(--instagram-text-secondary)] mb-4" />
               <p className="text-lg font-semibold mb-2 text-[var(--instagram-text-primary)]">
                 사진과 동영상을 여기에 끌어다 놓으세요
               </p>
+              <p className="text-sm mb-4 text-[var(--instagram-text-secondary)]">
+                {isStory
+                  ? "스토리는 24시간 후 사라집니다"
+                  : `최대 ${MAX_POST_MEDIA}개까지 선택할 수 있습니다`}
+              </p>
               <Button
                 onClick={handleSelectFile}
                 variant="default"
@@ -326,11 +310,12 @@ export default function CreatePostModal({
             </div>
           ) : (
             <div className="relative">
-              {/* 미디어 미리보기 */}
+              {/* 미디어 미리보기 (현재 선택된 항목) */}
               <div className="relative w-full bg-black flex items-center justify-center min-h-[400px] max-h-[600px]">
-                {mediaType === "video" && previewUrl ? (
+                {currentMedia.type === "video" ? (
                   <video
-                    src={previewUrl}
+                    key={currentMedia.previewUrl}
+                    src={currentMedia.previewUrl}
                     controls
                     muted
                     className="w-full h-auto max-h-[600px] object-contain"
@@ -338,8 +323,8 @@ export default function CreatePostModal({
                   />
                 ) : (
                   <Image
-                    src={previewUrl!}
-                    alt="미리보기"
+                    src={currentMedia.previewUrl}
+                    alt={`미리보기 ${currentIndex + 1}`}
                     width={600}
                     height={600}
                     className="w-full h-auto max-h-[600px] object-contain"
@@ -348,19 +333,74 @@ export default function CreatePostModal({
                 )}
               </div>
 
-              {/* 미디어 제거 버튼 */}
+              {/* 미디어 제거 버튼 (현재 항목) */}
               <button
-                onClick={handleRemoveImage}
+                onClick={() => handleRemoveMedia(currentIndex)}
                 className="absolute top-4 right-4 p-2 bg-black/50 rounded-full text-white hover:bg-black/70 transition-colors"
                 aria-label="미디어 제거"
               >
                 <X className="w-5 h-5" />
               </button>
+
+              {/* 미디어 순서 표시 */}
+              {selectedMedia.length > 1 && (
+                <div className="absolute top-4 left-4 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-medium">
+                  {currentIndex + 1}/{selectedMedia.length}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* 썸네일 목록 (순서대로) + 추가 버튼 */}
+          {!isStory && selectedMedia.length > 0 && (
+            <div
+              className="flex gap-2 px-6 py-3 overflow-x-auto border-t border-[var(--instagram-border)]"
+              aria-label="선택한 미디어 목록"
+            >
+              {selectedMedia.map((media, index) => (
+                <button
+                  key={media.previewUrl}
+                  type="button"
+                  onClick={() => setCurrentIndex(index)}
+                  className={cn(
+                    "relative w-14 h-14 shrink-0 rounded overflow-hidden bg-gray-100 border-2",
+                    index === currentIndex
+                      ? "border-[var(--instagram-blue)]"
+                      : "border-transparent"
+                  )}
+                  aria-label={`${index + 1}번째 미디어 보기`}
+                  aria-pressed={index === currentIndex}
+                >
+                  {media.type === "video" ? (
+                    <div className="w-full h-full flex items-center justify-center bg-black text-white">
+                      <Film className="w-5 h-5" aria-hidden="true" />
+                    </div>
+                  ) : (
+                    <Image
+                      src={media.previewUrl}
+                      alt=""
+                      fill
+                      className="object-cover"
+                      sizes="56px"
+                    />
+                  )}
+                </button>
+              ))}
+              {selectedMedia.length < MAX_POST_MEDIA && (
+                <button
+                  type="button"
+                  onClick={handleSelectFile}
+                  className="w-14 h-14 shrink-0 rounded border-2 border-dashed border-[var(--instagram-border)] flex items-center justify-center text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)] transition-colors"
+                  aria-label="미디어 추가"
+                >
+                  <Plus className="w-5 h-5" aria-hidden="true" />
+                </button>
+              )}
             </div>
           )}
 
           {/* 타이틀 입력 영역 */}
-          {previewUrl && (
+          {!isStory && currentMedia && (
             <div className="px-6 py-4 border-t border-[var(--instagram-border)]">
               <div className="space-y-2">
                 <Input
@@ -375,23 +415,39 @@ export default function CreatePostModal({
           )}
 
           {/* 캡션 입력 영역 */}
-          {previewUrl && (
+          {!isStory && currentMedia && (
             <div className="px-6 py-4 border-t border-[var(--instagram-border)]">
               <div className="space-y-2">
-                <Textarea
-                  placeholder="캡션을 입력하세요..."
-                  value={caption}
-                  onChange={(e) => {
-                    const value = e.target.value;
-                    if (value.length <= MAX_CAPTION_LENGTH) {
-                      setCaption(value);
-                    }
-                  }}
-                  className="min-h-[100px] resize-none"
-                  maxLength={MAX_CAPTION_LENGTH}
-                  aria-label="게시물 캡션 입력"
-                  aria-describedby={error ? "caption-error" : "caption-length"}
-                />
+                <div className="relative">
+                  <Textarea
+                    ref={captionRef}
+                    placeholder="캡션을 입력하세요..."
+                    value={caption}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      if (value.length <= MAX_CAPTION_LENGTH) {
+                        setCaption(value);
+                        updateMentionQuery();
+                      }
+                    }}
+                    onSelect={updateMentionQuery}
+                    onBlur={closeMentions}
+                    onKeyDown={handleMentionKeyDown}
+                    className="min-h-[100px] resize-none"
+                    maxLength={MAX_CAPTION_LENGTH}
+                    aria-label="게시물 캡션 입력"
+                    aria-describedby={error ? "caption-error" : "caption-length"}
+                    aria-autocomplete="list"
+                    aria-expanded={mentionSuggestions.length > 0}
+                    aria-controls="create-caption-mentions"
+                  />
+                  <MentionSuggestions
+                    id="create-caption-mentions"
+                    suggestions={mentionSuggestions}
+                    activeIndex={mentionActiveIndex}
+                    onSelect={selectMention}
+                  />
+                </div>
                 <div className="flex justify-end">
                   <span
                     id="caption-length"
@@ -409,6 +465,13 @@ export default function CreatePostModal({
             </div>
           )}
 
+          {/* 예약 게시 */}
+          {!isStory && currentMedia && (
+            <div className="px-6 py-4 border-t border-[var(--instagram-border)]">
+              <PublishAtField value={publishAt} onChange={setPublishAt} />
+            </div>
+          )}
+
           {/* 에러 메시지 */}
           {error && (
             <div className="px-6 py-3 bg-red-50 border-t border-red-200" role="alert">
@@ -417,28 +480,57 @@ export default function CreatePostModal({
           )}
 
           {/* 업로드 버튼 */}
-          {previewUrl && (
+          {currentMedia && (
             <div className="px-6 py-4 border-t border-[var(--instagram-border)] flex justify-end">
               <Button
-                onClick={handleUpload}
-                disabled={uploading}
+                onClick={() => handleUpload()}
                 className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white disabled:opacity-50"
-                aria-label="게시물 공유하기"
+                aria-label={
+                  isStory ? "스토리 공유하기" : publishAt ? "게시물 예약하기" : "게시물 공유하기"
+                }
               >
-                {uploading ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                    업로드 중...
-                  </>
-                ) : (
-                  "공유하기"
-                )}
+                {isStory ? "스토리에 공유" : publishAt ? "예약하기" : "공유하기"}
               </Button>
             </div>
           )}
         </div>
+
+        {/* 작성 중 닫기 확인 (임시 저장 / 삭제) */}
+        <Dialog open={isDiscardOpen} onOpenChange={setIsDiscardOpen}>
+          <DialogContent className="sm:max-w-[400px]">
+            <DialogHeader>
+              <DialogTitle>게시물을 임시 저장하시겠어요?</DialogTitle>
+              <DialogDescription>
+                임시 저장한 게시물은 프로필의 임시 저장 탭에서 이어서 작성할 수 있습니다.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => setIsDiscardOpen(false)}
+                aria-label="계속 작성"
+              >
+                취소
+              </Button>
+              <Button
+                variant="outline"
+                onClick={resetAndClose}
+                className="text-red-600 hover:text-red-600"
+                aria-label="작성 중인 게시물 삭제"
+              >
+                삭제
+              </Button>
+              <Button
+                onClick={() => handleUpload(true)}
+                className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white"
+                aria-label="게시물 임시 저장"
+              >
+                임시 저장
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
       </DialogContent>
     </Dialog>
   );
 }
-
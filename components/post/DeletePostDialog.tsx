@@ -20,6 +20,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { api, getErrorMessage } from "@/lib/api-client";
 
 interface DeletePostDialogProps {
   open: boolean;
@@ -41,23 +42,14 @@ export default function DeletePostDialog({
 
     setIsDeleting(true);
     try {
-      const response = await fetch(`/api/posts/${postId}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "게시물 삭제에 실패했습니다.");
-      }
+      await api.posts.remove(postId);
 
       // 성공 시 다이얼로그 닫기 및 콜백 호출
       onOpenChange(false);
       onDelete();
     } catch (error) {
       console.error("Delete post error:", error);
-      alert(
-        error instanceof Error ? error.message : "게시물 삭제에 실패했습니다."
-      );
+      alert(getErrorMessage(error, "게시물 삭제에 실패했습니다."));
     } finally {
       setIsDeleting(false);
     }
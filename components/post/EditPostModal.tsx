@@ -4,18 +4,20 @@
  *
  * Instagram 스타일의 게시물 수정 모달입니다.
  * 게시물의 제목과 캡션을 수정할 수 있습니다.
+ * 공개 전 게시물(임시 저장/예약)은 예약 시각을 바꾸거나 바로 공유할 수 있습니다.
  *
  * 주요 기능:
  * 1. 제목 수정
- * 2. 캡션 수정
+ * 2. 캡션 수정 (@멘션 자동완성)
  * 3. API를 통한 게시물 업데이트
+ * 4. 공개 전 게시물: 임시 저장, 예약 시각 변경, 지금 공유, 삭제
  *
  * @see docs/PRD.md
  */
 
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import {
   Dialog,
   DialogContent,
@@ -26,15 +28,21 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import MentionSuggestions from "@/components/mention/MentionSuggestions";
+import DeletePostDialog from "./DeletePostDialog";
+import PublishAtField from "./PublishAtField";
+import { useMentionAutocomplete } from "@/hooks/use-mention-autocomplete";
 import { Loader2 } from "lucide-react";
-import { cn } from "@/lib/utils";
+import { cn, toDateTimeLocalValue } from "@/lib/utils";
 import type { PostWithStats } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
 
 interface EditPostModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   post: PostWithStats;
   onSuccess?: (updatedPost: PostWithStats) => void;
+  onDelete?: () => void; // 공개 전 게시물 삭제 시 콜백
 }
 
 const MAX_CAPTION_LENGTH = 2200;
@@ -44,52 +52,58 @@ export default function EditPostModal({
   onOpenChange,
   post,
   onSuccess,
+  onDelete,
 }: EditPostModalProps) {
+  // 공개 전 게시물 (임시 저장 또는 예약 시각 전)
+  const isUnpublished =
+    !!post.is_draft || (!!post.publish_at && Date.parse(post.publish_at) > Date.now());
+  const initialPublishAt = post.publish_at ? toDateTimeLocalValue(post.publish_at) : "";
+
   const [title, setTitle] = useState(post.title || "");
   const [caption, setCaption] = useState(post.caption || "");
+  const [publishAt, setPublishAt] = useState(initialPublishAt);
   const [updating, setUpdating] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const captionRef = useRef<HTMLTextAreaElement>(null);
+  const {
+    suggestions: mentionSuggestions,
+    activeIndex: mentionActiveIndex,
+    updateMentionQuery,
+    handleKeyDown: handleMentionKeyDown,
+    selectSuggestion: selectMention,
+    close: closeMentions,
+  } = useMentionAutocomplete({
+    value: caption,
+    onValueChange: setCaption,
+    inputRef: captionRef,
+  });
 
   // 모달이 열릴 때마다 현재 게시물 데이터로 초기화
   useEffect(() => {
     if (open) {
       setTitle(post.title || "");
       setCaption(post.caption || "");
+      setPublishAt(initialPublishAt);
       setError(null);
     }
-  }, [open, post.title, post.caption]);
+  }, [open, post.title, post.caption, initialPublishAt]);
 
-  // 수정 핸들러
-  const handleUpdate = useCallback(async () => {
+  // 수정 핸들러 (saveAsDraft: 공개 전 게시물을 임시 저장 상태로 유지)
+  const handleUpdate = useCallback(async (saveAsDraft = false) => {
     setUpdating(true);
     setError(null);
 
     try {
-      const response = await fetch(`/api/posts/${post.id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          title: title.trim() || null,
-          caption: caption.trim() || null,
+      const updatedPost = await api.posts.update(post.id, {
+        title: title.trim() || null,
+        caption: caption.trim() || null,
+        ...(isUnpublished && {
+          isDraft: saveAsDraft,
+          publishAt: publishAt ? new Date(publishAt).toISOString() : null,
         }),
       });
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        console.error("Update API error:", {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData,
-        });
-        throw new Error(
-          errorData.error || `게시물 수정에 실패했습니다. (${response.status})`
-        );
-      }
-
-      const updatedPost: PostWithStats = await response.json();
-
       // 성공 콜백 호출
       onSuccess?.(updatedPost);
 
@@ -97,19 +111,11 @@ export default function EditPostModal({
       onOpenChange(false);
     } catch (err) {
       console.error("Update error:", err);
-      let errorMessage = "게시물 수정에 실패했습니다. 다시 시도해주세요.";
-      
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-      }
-      
-      setError(errorMessage);
+      setError(getErrorMessage(err, "게시물 수정에 실패했습니다. 다시 시도해주세요."));
     } finally {
       setUpdating(false);
     }
-  }, [post.id, title, caption, onSuccess, onOpenChange]);
+  }, [post.id, title, caption, isUnpublished, publishAt, onSuccess, onOpenChange]);
 
   // 모달 닫기 핸들러
   const handleClose = useCallback(() => {
@@ -117,9 +123,10 @@ export default function EditPostModal({
 
     setTitle(post.title || "");
     setCaption(post.caption || "");
+    setPublishAt(initialPublishAt);
     setError(null);
     onOpenChange(false);
-  }, [updating, post.title, post.caption, onOpenChange]);
+  }, [updating, post.title, post.caption, initialPublishAt, onOpenChange]);
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -160,21 +167,37 @@ export default function EditPostModal({
             >
               캡션
             </label>
-            <Textarea
+            <div className="relative">
+              <Textarea
               id="edit-caption"
-              placeholder="캡션을 입력하세요..."
-              value={caption}
-              onChange={(e) => {
-                const value = e.target.value;
-                if (value.length <= MAX_CAPTION_LENGTH) {
-                  setCaption(value);
-                }
-              }}
-              className="min-h-[120px] resize-none"
-              maxLength={MAX_CAPTION_LENGTH}
-              aria-label="게시물 캡션 수정"
-              aria-describedby={error ? "edit-error" : "edit-caption-length"}
-            />
+                ref={captionRef}
+                placeholder="캡션을 입력하세요..."
+                value={caption}
+                onChange={(e) => {
+                  const value = e.target.value;
+                  if (value.length <= MAX_CAPTION_LENGTH) {
+                    setCaption(value);
+                    updateMentionQuery();
+                  }
+                }}
+                onSelect={updateMentionQuery}
+                onBlur={closeMentions}
+                onKeyDown={handleMentionKeyDown}
+                className="min-h-[120px] resize-none"
+                maxLength={MAX_CAPTION_LENGTH}
+                aria-label="게시물 캡션 수정"
+                aria-describedby={error ? "edit-error" : "edit-caption-length"}
+                aria-autocomplete="list"
+                aria-expanded={mentionSuggestions.length > 0}
+                aria-controls="edit-caption-mentions"
+              />
+              <MentionSuggestions
+                id="edit-caption-mentions"
+                suggestions={mentionSuggestions}
+                activeIndex={mentionActiveIndex}
+                onSelect={selectMention}
+              />
+            </div>
             <div className="flex justify-end">
               <span
                 id="edit-caption-length"
@@ -189,6 +212,11 @@ export default function EditPostModal({
             </div>
           </div>
 
+          {/* 예약 게시 (공개 전 게시물만) */}
+          {isUnpublished && (
+            <PublishAtField value={publishAt} onChange={setPublishAt} disabled={updating} />
+          )}
+
           {/* 에러 메시지 */}
           {error && (
             <div
@@ -201,31 +229,70 @@ export default function EditPostModal({
 
           {/* 버튼 */}
           <div className="flex justify-end gap-2 pt-2">
+            {isUnpublished && onDelete && (
+              <Button
+                onClick={() => setIsDeleteOpen(true)}
+                variant="ghost"
+                disabled={updating}
+                className="mr-auto text-red-600 hover:text-red-600"
+                aria-label="게시물 삭제"
+              >
+                삭제
+              </Button>
+            )}
+            {isUnpublished ? (
+              <Button
+                onClick={() => handleUpdate(true)}
+                variant="outline"
+                disabled={updating}
+                aria-label="임시 저장"
+              >
+                임시 저장
+              </Button>
+            ) : (
+              <Button
+                onClick={handleClose}
+                variant="outline"
+                disabled={updating}
+                aria-label="취소"
+              >
+                취소
+              </Button>
+            )}
             <Button
-              onClick={handleClose}
-              variant="outline"
-              disabled={updating}
-              aria-label="취소"
-            >
-              취소
-            </Button>
-            <Button
-              onClick={handleUpdate}
+              onClick={() => handleUpdate()}
               disabled={updating}
               className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white disabled:opacity-50"
-              aria-label="수정 완료"
+              aria-label={!isUnpublished ? "수정 완료" : publishAt ? "예약하기" : "지금 공유"}
             >
               {updating ? (
                 <>
                   <Loader2 className="w-4 h-4 animate-spin mr-2" />
                   수정 중...
                 </>
-              ) : (
+              ) : !isUnpublished ? (
                 "수정 완료"
+              ) : publishAt ? (
+                "예약하기"
+              ) : (
+                "지금 공유"
               )}
             </Button>
           </div>
         </div>
+
+        {/* 공개 전 게시물 삭제 확인 */}
+        {isUnpublished && onDelete && (
+          <DeletePostDialog
+            open={isDeleteOpen}
+            onOpenChange={setIsDeleteOpen}
+            postId={post.id}
+            onDelete={() => {
+              onOpenChange(false);
+              onDelete();
+            }}
+          />
+        )}
       </DialogContent>
     </Dialog>
   );
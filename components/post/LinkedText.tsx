@@ -0,0 +1,78 @@
+/**
+ * @file components/post/LinkedText.tsx
+ * @description 해시태그/멘션 링크 텍스트 컴포넌트
+ *
+ * 캡션과 댓글의 #해시태그는 /tags/[tag] 페이지, @멘션은 /profile/[userId] 페이지
+ * 링크로 변환하여 표시합니다. (PostCard, PostModal, CommentList)
+ *
+ * 멘션은 저장된 멘션 목록(mentions)에 있는 사용자 이름만 링크로 표시합니다.
+ *
+ * @see lib/hashtags.ts
+ * @see lib/mentions.ts
+ */
+
+import { memo, useMemo } from "react";
+import Link from "next/link";
+import { splitHashtags, type CaptionSegment } from "@/lib/hashtags";
+import { splitMentions, type MentionSegment } from "@/lib/mentions";
+import type { MentionRef } from "@/lib/types";
+
+interface LinkedTextProps {
+  text: string;
+  mentions?: MentionRef[];
+  className?: string;
+}
+
+const LINK_CLASS_NAME = "text-[var(--instagram-blue)] hover:underline";
+
+function LinkedText({ text, mentions, className }: LinkedTextProps) {
+  const mentionMap = useMemo(
+    () => new Map((mentions || []).map((mention) => [mention.handle, mention])),
+    [mentions]
+  );
+
+  // 해시태그로 먼저 나눈 뒤 일반 텍스트 조각에서 멘션 분리
+  const segments: (CaptionSegment | MentionSegment)[] = splitHashtags(
+    text
+  ).flatMap((segment) => (segment.tag ? [segment] : splitMentions(segment.text)));
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) => {
+        if ("tag" in segment && segment.tag) {
+          return (
+            <Link
+              key={index}
+              href={`/tags/${encodeURIComponent(segment.tag)}`}
+              className={LINK_CLASS_NAME}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+
+        const mention =
+          "handle" in segment && segment.handle
+            ? mentionMap.get(segment.handle)
+            : undefined;
+        if (mention) {
+          return (
+            <Link
+              key={index}
+              href={`/profile/${mention.clerk_id}`}
+              className={LINK_CLASS_NAME}
+              onClick={(e) => e.stopPropagation()}
+            >
+              {segment.text}
+            </Link>
+          );
+        }
+
+        return <span key={index}>{segment.text}</span>;
+      })}
+    </span>
+  );
+}
+
+export default memo(LinkedText);
@@ -0,0 +1,344 @@
+/**
+ * @file components/post/MediaCarousel.tsx
+ * @description 게시물 미디어 캐러셀 컴포넌트
+ *
+ * Instagram 스타일의 다중 이미지/동영상 캐러셀입니다.
+ * PostCard와 PostModal에서 공통으로 사용합니다.
+ *
+ * 주요 기능:
+ * 1. 스와이프 넘기기 (CSS scroll-snap, 터치/트랙패드)
+ * 2. 이전/다음 버튼 (Desktop, hover 시 표시)
+ * 3. 하단 점(dot) 인디케이터 및 "1/3" 카운터
+ * 4. 미디어가 1개면 캐러셀 UI 없이 단일 미디어로 표시
+ * 5. 표시 위치에 맞는 이미지 변형(WebP) 사용, 저장된 크기로 레이아웃 공간 확보
+ * 6. 동영상 포스터 표시, 피드에서는 화면에 보일 때 음소거 자동 재생 (탭하여 소리 켜기/끄기)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useRef, useCallback, useEffect, memo } from "react";
+import Image from "next/image";
+import { ChevronLeft, ChevronRight, Volume2, VolumeX } from "lucide-react";
+import { getMediaVariantUrl, getVideoPosterUrl } from "@/lib/post-media";
+import { cn } from "@/lib/utils";
+import type { MediaVariantName, PostMedia } from "@/lib/types";
+
+interface MediaCarouselProps {
+  media: PostMedia[]; // position 순으로 정렬된 미디어 목록
+  alt: string;
+  fill?: boolean; // true: 부모 높이를 채움 (Desktop 모달), false: 원본 비율 유지
+  priority?: boolean; // LCP 이미지 최적화용
+  sizes?: string;
+  variant?: MediaVariantName; // 이미지 변형 (피드: medium, 상세 모달: large)
+  autoPlayVideos?: boolean; // true: 화면에 보이는 동영상을 음소거 자동 재생 (피드)
+  onImageDoubleClick?: (e: React.MouseEvent) => void; // 이미지 더블탭 (좋아요)
+}
+
+// 자동 재생 기준: 동영상이 이 비율 이상 화면에 보일 때
+const AUTOPLAY_VISIBLE_RATIO = 0.6;
+
+interface AutoPlayVideoProps {
+  src: string;
+  poster?: string;
+  width?: number;
+  height?: number;
+  className?: string;
+  label: string;
+}
+
+/**
+ * 화면에 보이면 음소거 상태로 자동 재생, 벗어나면 일시정지하는 동영상
+ * 탭하면 소리를 켜고 끕니다.
+ */
+function AutoPlayVideo({ src, poster, width, height, className, label }: AutoPlayVideoProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [muted, setMuted] = useState(true);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) {
+          // 자동 재생이 차단된 경우(저전력 모드 등) 포스터만 표시
+          video.play().catch(() => {});
+        } else {
+          video.pause();
+        }
+      },
+      { threshold: AUTOPLAY_VISIBLE_RATIO }
+    );
+
+    observer.observe(video);
+    return () => observer.disconnect();
+  }, []);
+
+  const toggleMuted = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation(); // 동영상 탭 시 모달 열기 방지
+    setMuted((prev) => !prev);
+  }, []);
+
+  return (
+    <div className="relative w-full">
+      <video
+        ref={videoRef}
+        src={src}
+        poster={poster}
+        width={width}
+        height={height}
+        className={className}
+        muted={muted}
+        loop
+        playsInline
+        preload="metadata"
+        aria-label={label}
+        onClick={toggleMuted}
+      />
+      <button
+        type="button"
+        onClick={toggleMuted}
+        className="absolute bottom-3 right-3 w-7 h-7 flex items-center justify-center rounded-full bg-black/60 text-white"
+        aria-label={muted ? "소리 켜기" : "소리 끄기"}
+        aria-pressed={!muted}
+      >
+        {muted ? (
+          <VolumeX className="w-4 h-4" aria-hidden="true" />
+        ) : (
+          <Volume2 className="w-4 h-4" aria-hidden="true" />
+        )}
+      </button>
+    </div>
+  );
+}
+
+function MediaCarousel({
+  media,
+  alt,
+  fill = false,
+  priority = false,
+  sizes = "(max-width: 768px) 100vw, 630px",
+  variant = "large",
+  autoPlayVideos = false,
+  onImageDoubleClick,
+}: MediaCarouselProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const isMultiple = media.length > 1;
+
+  // 스크롤 위치로 현재 인덱스 계산 (스와이프 포함)
+  const handleScroll = useCallback(() => {
+    const track = trackRef.current;
+    if (!track || track.clientWidth === 0) return;
+    const index = Math.round(track.scrollLeft / track.clientWidth);
+    setCurrentIndex(Math.max(0, Math.min(media.length - 1, index)));
+  }, [media.length]);
+
+  // 특정 인덱스로 이동
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const track = trackRef.current;
+      if (!track) return;
+      const nextIndex = Math.max(0, Math.min(media.length - 1, index));
+      track.scrollTo({ left: nextIndex * track.clientWidth, behavior: "smooth" });
+      setCurrentIndex(nextIndex);
+    },
+    [media.length]
+  );
+
+  // 키보드 좌우 화살표 이동
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<HTMLDivElement>) => {
+      if (!isMultiple) return;
+      if (e.key === "ArrowLeft") {
+        e.stopPropagation();
+        scrollToIndex(currentIndex - 1);
+      } else if (e.key === "ArrowRight") {
+        e.stopPropagation();
+        scrollToIndex(currentIndex + 1);
+      }
+    },
+    [isMultiple, currentIndex, scrollToIndex]
+  );
+
+  const renderMedia = (item: PostMedia, index: number) => {
+    const itemAlt = isMultiple ? `${alt} (${index + 1}/${media.length})` : alt;
+
+    if (item.media_type === "video") {
+      const poster = getVideoPosterUrl(item, variant) ?? undefined;
+      const videoClassName = cn(
+        "w-full object-contain",
+        fill ? "h-full max-h-full" : "h-auto max-h-[80vh]"
+      );
+
+      if (autoPlayVideos) {
+        return (
+          <AutoPlayVideo
+            src={item.media_url}
+            poster={poster}
+            width={item.width ?? undefined}
+            height={item.height ?? undefined}
+            className={videoClassName}
+            label={itemAlt}
+          />
+        );
+      }
+
+      return (
+        <video
+          src={item.media_url}
+          poster={poster}
+          width={item.width ?? undefined}
+          height={item.height ?? undefined}
+          className={videoClassName}
+          controls
+          playsInline
+          preload="metadata"
+          aria-label={itemAlt}
+          onClick={(e) => e.stopPropagation()} // 비디오 클릭 시 모달 열기 방지
+        />
+      );
+    }
+
+    const imageUrl = getMediaVariantUrl(item, variant);
+
+    return fill ? (
+      <Image
+        src={imageUrl}
+        alt={itemAlt}
+        fill
+        className="object-contain"
+        sizes={sizes}
+        priority={priority && index === 0}
+        onDoubleClick={onImageDoubleClick}
+      />
+    ) : (
+      <Image
+        src={imageUrl}
+        alt={itemAlt}
+        width={item.width || 630}
+        height={item.height || 630}
+        className="w-full h-auto max-h-[80vh] object-contain"
+        sizes={sizes}
+        priority={priority && index === 0}
+        loading={priority && index === 0 ? "eager" : "lazy"}
+        onDoubleClick={onImageDoubleClick}
+      />
+    );
+  };
+
+  if (media.length === 0) return null;
+
+  // 단일 미디어
+  if (!isMultiple) {
+    return (
+      <div
+        className={cn(
+          "relative w-full flex items-center justify-center",
+          fill && "h-full"
+        )}
+      >
+        {renderMedia(media[0], 0)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn("relative w-full group/carousel", fill && "h-full")}
+      role="region"
+      aria-roledescription="carousel"
+      aria-label={`${alt} 미디어 ${media.length}개`}
+      onKeyDown={handleKeyDown}
+    >
+      {/* 슬라이드 트랙 (scroll-snap으로 스와이프 지원) */}
+      <div
+        ref={trackRef}
+        onScroll={handleScroll}
+        className={cn(
+          "flex w-full overflow-x-auto snap-x snap-mandatory",
+          "[scrollbar-width:none] [&::-webkit-scrollbar]:hidden",
+          fill && "h-full"
+        )}
+      >
+        {media.map((item, index) => (
+          <div
+            key={item.id}
+            className={cn(
+              "relative w-full shrink-0 snap-center flex items-center justify-center",
+              fill && "h-full"
+            )}
+            aria-roledescription="slide"
+            aria-hidden={index !== currentIndex}
+          >
+            {renderMedia(item, index)}
+          </div>
+        ))}
+      </div>
+
+      {/* 카운터 (우측 상단) */}
+      <div className="absolute top-3 right-3 px-2 py-0.5 rounded-full bg-black/60 text-white text-xs font-medium pointer-events-none">
+        {currentIndex + 1}/{media.length}
+      </div>
+
+      {/* 이전 버튼 */}
+      {currentIndex > 0 && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            scrollToIndex(currentIndex - 1);
+          }}
+          className="hidden md:flex absolute left-2 top-1/2 -translate-y-1/2 w-7 h-7 items-center justify-center rounded-full bg-white/80 text-black shadow opacity-0 group-hover/carousel:opacity-100 transition-opacity"
+          aria-label="이전 미디어"
+        >
+          <ChevronLeft className="w-4 h-4" aria-hidden="true" />
+        </button>
+      )}
+
+      {/* 다음 버튼 */}
+      {currentIndex < media.length - 1 && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            scrollToIndex(currentIndex + 1);
+          }}
+          className="hidden md:flex absolute right-2 top-1/2 -translate-y-1/2 w-7 h-7 items-center justify-center rounded-full bg-white/80 text-black shadow opacity-0 group-hover/carousel:opacity-100 transition-opacity"
+          aria-label="다음 미디어"
+        >
+          <ChevronRight className="w-4 h-4" aria-hidden="true" />
+        </button>
+      )}
+
+      {/* 점 인디케이터 */}
+      <div
+        className="absolute bottom-3 left-0 right-0 flex justify-center gap-1"
+        role="tablist"
+        aria-label="미디어 선택"
+      >
+        {media.map((item, index) => (
+          <button
+            key={item.id}
+            type="button"
+            role="tab"
+            aria-selected={index === currentIndex}
+            aria-label={`${index + 1}번째 미디어`}
+            onClick={(e) => {
+              e.stopPropagation();
+              scrollToIndex(index);
+            }}
+            className={cn(
+              "w-1.5 h-1.5 rounded-full transition-colors",
+              index === currentIndex ? "bg-[var(--instagram-blue)]" : "bg-white/60"
+            )}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default memo(MediaCarousel);
@@ -4,15 +4,17 @@
  *
  * 게시물의 모든 정보를 표시하는 카드 컴포넌트입니다.
  * 헤더, 이미지, 액션 버튼, 좋아요 수, 캡션, 댓글 미리보기를 포함합니다.
+ * 캡션의 #해시태그는 /tags/[tag] 페이지, @멘션은 프로필 페이지 링크로 표시합니다.
+ * 공유 버튼은 게시물을 메시지로 보내거나 링크를 복사하는 다이얼로그를 엽니다.
+ * 동영상은 화면에 보일 때 음소거 상태로 자동 재생되고, 탭하면 소리를 켜고 끕니다.
  *
  * @see docs/PRD.md
  */
 
 "use client";
 
-import { useState, useEffect, useCallback, memo } from "react";
+import { useState, useEffect, useCallback, useMemo, memo } from "react";
 import { useUser } from "@clerk/nextjs";
-import Image from "next/image";
 import Link from "next/link";
 import {
   Heart,
@@ -26,6 +28,19 @@ import { cn } from "@/lib/utils";
 import { useClerkSupabaseClient } from "@/utils/supabase/clerk-client";
 import CommentList from "@/components/comment/CommentList";
 import CommentForm from "@/components/comment/CommentForm";
+import UserAvatar from "@/components/profile/UserAvatar";
+import ReportDialog from "@/components/report/ReportDialog";
+import SharePostDialog from "@/components/messages/SharePostDialog";
+import { useUserModeration } from "@/hooks/use-user-moderation";
+import { getPostMedia } from "@/lib/post-media";
+import { ApiError } from "@/lib/api-errors";
+import { getErrorMessage } from "@/lib/api-client";
+import { usePost } from "@/hooks/use-post";
+import { useComments } from "@/hooks/use-comments";
+import { useLikeToggle } from "@/hooks/use-like-toggle";
+import { useSaveToggle } from "@/hooks/use-save-toggle";
+import MediaCarousel from "./MediaCarousel";
+import LinkedText from "./LinkedText";
 import PostMenu from "./PostMenu";
 import DeletePostDialog from "./DeletePostDialog";
 import EditPostModal from "./EditPostModal";
@@ -40,18 +55,13 @@ interface PostCardProps {
   onDelete?: (postId: string) => void; // 게시물 삭제 시 콜백
   onPostUpdate?: (postId: string, updates: Partial<PostWithStats>) => void; // 게시물 업데이트 콜백
   onSaveRemove?: (postId: string) => void; // 저장 취소 시 콜백 (저장된 게시물 페이지에서 사용)
+  onHideAuthor?: (userId: string) => void; // 작성자 음소거/차단 시 콜백 (피드에서 게시물 제거)
   isPriority?: boolean; // LCP 이미지 최적화용
 }
 
-// 미디어 타입 확인 헬퍼 함수
-function isVideoUrl(url: string): boolean {
-  const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.quicktime'];
-  return videoExtensions.some(ext => url.toLowerCase().includes(ext));
-}
-
 function PostCard({
-  post,
-  user,
+  post: initialPost,
+  user: initialUser,
   currentUserId,
   onLike,
   onComment,
@@ -59,25 +69,57 @@ function PostCard({
   onDelete,
   onPostUpdate,
   onSaveRemove,
+  onHideAuthor,
   isPriority = false,
 }: PostCardProps) {
-  const isVideo = isVideoUrl(post.image_url);
+  // 같은 게시물을 표시하는 PostModal 등과 캐시를 공유 (목록 데이터가 있으므로 조회하지 않음)
+  const { post, user, updatePost } = usePost(initialPost.id, {
+    post: initialPost,
+    user: initialUser,
+    enabled: false,
+  });
+  const media = useMemo(() => getPostMedia(post), [post]);
   const { user: clerkUser } = useUser();
   const supabase = useClerkSupabaseClient();
   const [showFullCaption, setShowFullCaption] = useState(false);
-  const [isLiked, setIsLiked] = useState(false); // 1차 제외 - UI만
-  const [comments, setComments] = useState<CommentWithUser[]>([]);
-  const [loadingComments, setLoadingComments] = useState(false);
   const [supabaseUserId, setSupabaseUserId] = useState<string | undefined>(currentUserId);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
+  const [isReportDialogOpen, setIsReportDialogOpen] = useState(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showDoubleTapHeart, setShowDoubleTapHeart] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
+
+  const { isLiked, setLiked, toggleLike } = useLikeToggle(post.id);
+  const { isSaved, toggleSave } = useSaveToggle(post.id);
+  const {
+    comments,
+    refresh: refreshComments,
+    addComment,
+    deleteComment,
+    toggleCommentLike,
+  } = useComments(post.id, { limit: 2, enabled: post.comments_count > 0 });
+  const { blockUser, muteUser } = useUserModeration();
+
+  // 댓글 미리보기 (최신 2개)
+  const previewComments = useMemo(() => comments.slice(-2), [comments]);
 
   // 본인 게시물 여부 확인
   const isOwner = supabaseUserId === post.user_id;
 
+  // 작성자 음소거/차단 (성공 시 피드에서 해당 작성자 게시물 제거)
+  const handleMuteAuthor = useCallback(async () => {
+    if (await muteUser(post.user_id)) {
+      onHideAuthor?.(post.user_id);
+    }
+  }, [muteUser, post.user_id, onHideAuthor]);
+
+  const handleBlockAuthor = useCallback(async () => {
+    if (await blockUser(post.user_id, user?.name)) {
+      onHideAuthor?.(post.user_id);
+    }
+  }, [blockUser, post.user_id, user?.name, onHideAuthor]);
+
   // 캡션 2줄 초과 여부 확인 (간단한 구현)
   const captionLines = post.caption?.split("\n") || [];
   const shouldTruncate = captionLines.length > 2 || (post.caption?.length || 0) > 100;
@@ -110,163 +152,120 @@ function PostCard({
     fetchSupabaseUserId();
   }, [clerkUser?.id, supabaseUserId, supabase]);
 
-  // 좋아요 상태 확인 (supabaseUserId가 있을 때)
-  useEffect(() => {
-    if (!supabaseUserId) return;
-
-    const checkLikeStatus = async () => {
-      try {
-        const { data, error } = await supabase
-          .from("likes")
-          .select("id")
-          .eq("post_id", post.id)
-          .eq("user_id", supabaseUserId)
-          .single();
-
-        if (!error && data) {
-          setIsLiked(true);
-        } else {
-          setIsLiked(false);
-        }
-      } catch (err) {
-        // 좋아요가 없는 경우 (에러 코드 406 또는 PGRST116)
-        setIsLiked(false);
-      }
-    };
-
-    checkLikeStatus();
-  }, [supabaseUserId, post.id, supabase]);
-
-  // 저장 상태 확인 (supabaseUserId가 있을 때)
-  useEffect(() => {
-    if (!supabaseUserId) return;
-
-    const checkSaveStatus = async () => {
-      try {
-        const response = await fetch(`/api/saves?postId=${post.id}`);
-        if (response.ok) {
-          const data = await response.json();
-          setIsSaved(data.isSaved || false);
-        }
-      } catch (err) {
-        console.error("Failed to check save status:", err);
-        setIsSaved(false);
-      }
-    };
-
-    checkSaveStatus();
-  }, [supabaseUserId, post.id]);
-
-  // 댓글 조회 함수
-  const loadComments = useCallback(async () => {
-    if (loadingComments) return;
-
-    setLoadingComments(true);
-    try {
-      const response = await fetch(`/api/comments?postId=${post.id}&limit=2`);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "댓글을 불러오는데 실패했습니다.");
-      }
-      const data = await response.json();
-      setComments(data.comments || []);
-    } catch (err) {
-      console.error("Load comments error:", err);
-      // 댓글 로드 실패는 조용히 처리 (게시물은 표시)
-    } finally {
-      setLoadingComments(false);
-    }
-  }, [post.id, loadingComments]);
-
-  // 댓글이 있고 아직 로드하지 않았을 때만 로드 (lazy loading)
-  useEffect(() => {
-    if (post.comments_count > 0 && comments.length === 0 && !loadingComments) {
-      loadComments();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [post.comments_count]);
-
   // 댓글 작성 핸들러
   const handleCommentSubmit = useCallback(
     async (content: string) => {
       try {
-        const response = await fetch("/api/comments", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            postId: post.id,
-            content,
-          }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          const errorMessage = errorData.error || "댓글 작성에 실패했습니다.";
-          throw new Error(errorMessage);
-        }
-
-        const newComment: CommentWithUser = await response.json();
-        // 댓글 목록에 추가 (최신 댓글이므로 맨 뒤에 추가)
-        setComments((prev) => {
-          const updated = [...prev, newComment];
-          // 최신 2개만 유지
-          return updated.slice(-2);
-        });
-        
-        // 댓글 수 업데이트
+        await addComment(content);
+        // 댓글 수 업데이트 (캐시는 useComments에서 갱신)
         onPostUpdate?.(post.id, {
           comments_count: post.comments_count + 1,
         });
       } catch (err) {
         console.error("Comment submit error:", err);
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          throw new Error("인터넷 연결을 확인해주세요.");
-        }
-        throw err;
+        throw new Error(getErrorMessage(err, "댓글 작성에 실패했습니다."));
       }
     },
-    [post.id, loadComments]
+    [addComment, post.id, post.comments_count, onPostUpdate]
   );
 
   // 댓글 삭제 핸들러
   const handleCommentDelete = useCallback(
     async (commentId: string) => {
       try {
-        const response = await fetch(`/api/comments?commentId=${commentId}`, {
-          method: "DELETE",
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "댓글 삭제에 실패했습니다.");
-        }
-
-        // 댓글 목록에서 제거
-        setComments((prev) => prev.filter((c) => c.id !== commentId));
-        // 댓글 수 업데이트
+        // 최상위 댓글 삭제 시 답글도 함께 삭제됨 (deletedCount에 포함)
+        const { deletedCount } = await deleteComment(commentId);
         onPostUpdate?.(post.id, {
-          comments_count: Math.max(0, post.comments_count - 1),
+          comments_count: Math.max(0, post.comments_count - (deletedCount || 1)),
         });
-        // 댓글이 부족하면 다시 로드
+        // 미리보기 댓글이 부족하면 다시 로드
         if (comments.length <= 2) {
-          loadComments();
+          refreshComments().catch((err) => {
+            console.error("Load comments error:", err);
+          });
         }
       } catch (err) {
         console.error("Comment delete error:", err);
-        let errorMessage = "댓글 삭제에 실패했습니다.";
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          errorMessage = "인터넷 연결을 확인해주세요.";
-        } else if (err instanceof Error) {
-          errorMessage = err.message;
+        alert(getErrorMessage(err, "댓글 삭제에 실패했습니다."));
+      }
+    },
+    [deleteComment, refreshComments, comments.length, post.id, post.comments_count, onPostUpdate]
+  );
+
+  // 댓글 좋아요 토글 핸들러 (낙관적 업데이트, 실패 시 useComments에서 롤백)
+  const handleCommentLike = useCallback(
+    async (comment: CommentWithUser) => {
+      try {
+        await toggleCommentLike(comment);
+      } catch (err) {
+        console.error("Comment like error:", err);
+      }
+    },
+    [toggleCommentLike]
+  );
+
+  // 더블탭 좋아요 핸들러 (이미지에만 적용)
+  const handleDoubleTapLike = useCallback(
+    async (e: React.MouseEvent) => {
+      e.stopPropagation(); // 모달 열기 방지
+      // 더블탭 좋아요 (이미지에만 적용)
+      if (!isLiked) {
+        try {
+          // 성공 시 콜백 호출 (부모 목록의 좋아요 수 업데이트용)
+          if (await setLiked(true)) {
+            onLike?.(post.id, true);
+          }
+        } catch (err) {
+          console.error("Double tap like error:", err);
         }
-        alert(errorMessage);
       }
+      // 큰 하트 애니메이션 표시
+      setShowDoubleTapHeart(true);
+      setTimeout(() => setShowDoubleTapHeart(false), 1000);
     },
-    [loadComments]
+    [isLiked, setLiked, post.id, onLike]
   );
 
+  // 좋아요 버튼 핸들러
+  const handleLike = useCallback(async () => {
+    setIsAnimating(true);
+    const wasLiked = isLiked;
+
+    try {
+      const liked = await toggleLike();
+      // 성공 시 콜백 호출 (부모 목록의 좋아요 수 업데이트용)
+      if (liked !== wasLiked) {
+        onLike?.(post.id, liked);
+      }
+    } catch (err) {
+      console.error("Like error:", err);
+      alert(getErrorMessage(err, "좋아요 처리에 실패했습니다."));
+    } finally {
+      setTimeout(() => setIsAnimating(false), 150);
+    }
+  }, [isLiked, toggleLike, post.id, onLike]);
+
+  // 저장 버튼 핸들러
+  const handleSave = useCallback(async () => {
+    const wasSaved = isSaved;
+
+    try {
+      const saved = await toggleSave();
+      // 저장 취소 성공 시 콜백 호출 (저장된 게시물 페이지에서 목록에서 제거)
+      if (wasSaved && !saved) {
+        onSaveRemove?.(post.id);
+      }
+    } catch (err) {
+      console.error("Save error:", err);
+      let errorMessage = getErrorMessage(err, "저장 처리에 실패했습니다.");
+      // 저장 테이블이 없는 경우 (마이그레이션 미적용) 특별한 메시지
+      if (err instanceof ApiError && err.code === "SERVICE_UNAVAILABLE") {
+        errorMessage = "저장 기능을 사용하려면 데이터베이스 마이그레이션을 먼저 적용해주세요.";
+      }
+      alert(errorMessage);
+    }
+  }, [isSaved, toggleSave, post.id, onSaveRemove]);
+
   // 댓글 미리보기 표시 여부
   const showCommentsPreview = post.comments_count > 2;
 
@@ -280,15 +279,7 @@ function PostCard({
             href={user ? `/profile/${user.id}` : "#"}
             aria-label={`${user?.name || "사용자"} 프로필 보기`}
           >
-            <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
-              {user?.name ? (
-                <span className="text-xs font-semibold text-gray-600" aria-hidden="true">
-                  {user.name.charAt(0).toUpperCase()}
-                </span>
-              ) : (
-                <div className="w-full h-full bg-gray-300" aria-hidden="true" />
-              )}
-            </div>
+            <UserAvatar user={user} size={32} />
           </Link>
 
           {/* 사용자명: Bold */}
@@ -311,6 +302,9 @@ function PostCard({
           isOwner={isOwner}
           onEdit={() => setIsEditModalOpen(true)}
           onDelete={() => setIsDeleteDialogOpen(true)}
+          onMute={supabaseUserId ? handleMuteAuthor : undefined}
+          onBlock={supabaseUserId ? handleBlockAuthor : undefined}
+          onReport={supabaseUserId ? () => setIsReportDialogOpen(true) : undefined}
         />
       </header>
 
@@ -323,7 +317,7 @@ function PostCard({
         </div>
       )}
 
-      {/* 미디어 영역 (원본 비율 유지) */}
+      {/* 미디어 영역 (원본 비율 유지, 다중 미디어는 캐러셀) */}
       <div
         className="relative w-full bg-gray-100 cursor-pointer flex items-center justify-center"
         onClick={() => onImageClick?.(post.id)}
@@ -337,62 +331,14 @@ function PostCard({
         }}
         aria-label="게시물 상세 보기"
       >
-        {isVideo ? (
-          <video
-            src={post.image_url}
-            className="w-full h-auto max-h-[80vh] object-contain"
-            controls
-            playsInline
-            preload="metadata"
-            onClick={(e) => e.stopPropagation()} // 비디오 클릭 시 모달 열기 방지
-          />
-        ) : (
-          <Image
-            src={post.image_url}
-            alt={post.caption || "게시물 이미지"}
-            width={630}
-            height={630}
-            className="w-full h-auto max-h-[80vh] object-contain"
-            sizes="(max-width: 768px) 100vw, 630px"
-            priority={isPriority}
-            loading={isPriority ? "eager" : "lazy"}
-            onDoubleClick={async (e) => {
-              e.stopPropagation(); // 모달 열기 방지
-              // 더블탭 좋아요 (이미지에만 적용)
-              if (!isLiked) {
-                setIsLiked(true); // 낙관적 업데이트
-                
-                try {
-                  const response = await fetch("/api/likes", {
-                    method: "POST",
-                    headers: {
-                      "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({ postId: post.id }),
-                  });
-
-                  if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({}));
-                    // 409 (이미 좋아요를 누른 경우)는 무시
-                    if (response.status !== 409) {
-                      throw new Error(errorData.error || "좋아요 추가에 실패했습니다.");
-                    }
-                  }
-
-                  // 성공 시 콜백 호출 (좋아요 수 업데이트용)
-                  onLike?.(post.id, true);
-                } catch (err) {
-                  // 에러 발생 시 상태 롤백
-                  setIsLiked(false);
-                  console.error("Double tap like error:", err);
-                }
-              }
-              // 큰 하트 애니메이션 표시
-              setShowDoubleTapHeart(true);
-              setTimeout(() => setShowDoubleTapHeart(false), 1000);
-            }}
-          />
-        )}
+        <MediaCarousel
+          media={media}
+          alt={post.caption || "게시물 이미지"}
+          priority={isPriority}
+          variant="medium"
+          autoPlayVideos
+          onImageDoubleClick={handleDoubleTapLike}
+        />
         {/* 더블탭 큰 하트 애니메이션 */}
         {showDoubleTapHeart && (
           <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
@@ -420,58 +366,7 @@ function PostCard({
                 ? "text-[var(--instagram-like)]"
                 : "text-[var(--instagram-text-primary)]"
             )}
-            onClick={async () => {
-              setIsAnimating(true);
-              const newLikedState = !isLiked;
-              setIsLiked(newLikedState); // 낙관적 업데이트
-
-              try {
-                if (newLikedState) {
-                  // 좋아요 추가
-                  const response = await fetch("/api/likes", {
-                    method: "POST",
-                    headers: {
-                      "Content-Type": "application/json",
-                    },
-                    body: JSON.stringify({ postId: post.id }),
-                  });
-
-                  if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({}));
-                    // 409 (이미 좋아요를 누른 경우)는 무시
-                    if (response.status !== 409) {
-                      throw new Error(errorData.error || "좋아요 추가에 실패했습니다.");
-                    }
-                  }
-                } else {
-                  // 좋아요 제거
-                  const response = await fetch(`/api/likes?postId=${post.id}`, {
-                    method: "DELETE",
-                  });
-
-                  if (!response.ok) {
-                    const errorData = await response.json().catch(() => ({}));
-                    throw new Error(errorData.error || "좋아요 제거에 실패했습니다.");
-                  }
-                }
-
-                // 성공 시 콜백 호출 (좋아요 수 업데이트용)
-                onLike?.(post.id, newLikedState);
-              } catch (err) {
-                // 에러 발생 시 상태 롤백
-                setIsLiked(!newLikedState);
-                console.error("Like error:", err);
-                let errorMessage = "좋아요 처리에 실패했습니다.";
-                if (err instanceof TypeError && err.message === "Failed to fetch") {
-                  errorMessage = "인터넷 연결을 확인해주세요.";
-                } else if (err instanceof Error) {
-                  errorMessage = err.message;
-                }
-                alert(errorMessage);
-              } finally {
-                setTimeout(() => setIsAnimating(false), 150);
-              }
-            }}
+            onClick={handleLike}
             aria-label={isLiked ? "좋아요 취소" : "좋아요"}
             type="button"
           >
@@ -498,21 +393,7 @@ function PostCard({
           {/* 공유 버튼 */}
           <button
             className="text-[var(--instagram-text-primary)] hover:opacity-70 transition-opacity focus:outline-none focus:ring-2 focus:ring-[#0095f6] focus:ring-offset-2 rounded"
-            onClick={async () => {
-              try {
-                // 게시물 URL 생성
-                const postUrl = `${window.location.origin}/post/${post.id}`;
-                
-                // 클립보드에 복사
-                await navigator.clipboard.writeText(postUrl);
-                
-                // 성공 피드백 (간단한 alert 사용)
-                alert("링크가 클립보드에 복사되었습니다!");
-              } catch (err) {
-                console.error("Failed to copy URL:", err);
-                alert("링크 복사에 실패했습니다.");
-              }
-            }}
+            onClick={() => setIsShareDialogOpen(true)}
             aria-label="공유"
             type="button"
           >
@@ -528,93 +409,7 @@ function PostCard({
               ? "text-[var(--instagram-text-primary)]"
               : "text-[var(--instagram-text-primary)] hover:opacity-70"
           )}
-          onClick={async () => {
-            const newSavedState = !isSaved;
-            setIsSaved(newSavedState); // 낙관적 업데이트
-
-            try {
-              if (newSavedState) {
-                // 저장 추가
-                const response = await fetch("/api/saves", {
-                  method: "POST",
-                  headers: {
-                    "Content-Type": "application/json",
-                  },
-                  body: JSON.stringify({ postId: post.id }),
-                });
-
-                if (!response.ok) {
-                  // 응답 본문을 텍스트로 먼저 읽기
-                  const responseText = await response.text();
-                  let errorData: any = {};
-                  
-                  try {
-                    errorData = JSON.parse(responseText);
-                  } catch (e) {
-                    // JSON 파싱 실패 시 원본 텍스트 사용
-                    console.error("Failed to parse error response as JSON:", responseText);
-                    errorData = { error: responseText || "알 수 없는 오류가 발생했습니다." };
-                  }
-                  
-                  // 409 (이미 저장한 경우)는 무시
-                  if (response.status !== 409) {
-                    console.error("Save API error:", {
-                      status: response.status,
-                      statusText: response.statusText,
-                      error: errorData,
-                      rawResponse: responseText,
-                    });
-                    throw new Error(errorData.error || "저장에 실패했습니다.");
-                  }
-                }
-              } else {
-                // 저장 제거
-                const response = await fetch(`/api/saves?postId=${post.id}`, {
-                  method: "DELETE",
-                });
-
-                if (!response.ok) {
-                  // 응답 본문을 텍스트로 먼저 읽기
-                  const responseText = await response.text();
-                  let errorData: any = {};
-                  
-                  try {
-                    errorData = JSON.parse(responseText);
-                  } catch (e) {
-                    // JSON 파싱 실패 시 원본 텍스트 사용
-                    console.error("Failed to parse error response as JSON:", responseText);
-                    errorData = { error: responseText || "알 수 없는 오류가 발생했습니다." };
-                  }
-                  
-                  console.error("Save delete API error:", {
-                    status: response.status,
-                    statusText: response.statusText,
-                    error: errorData,
-                    rawResponse: responseText,
-                  });
-                  throw new Error(errorData.error || "저장 취소에 실패했습니다.");
-                }
-                
-                // 저장 취소 성공 시 콜백 호출 (저장된 게시물 페이지에서 목록에서 제거)
-                onSaveRemove?.(post.id);
-              }
-            } catch (err) {
-              // 에러 발생 시 상태 롤백
-              setIsSaved(!newSavedState);
-              console.error("Save error:", err);
-              let errorMessage = "저장 처리에 실패했습니다.";
-              if (err instanceof TypeError && err.message === "Failed to fetch") {
-                errorMessage = "인터넷 연결을 확인해주세요.";
-              } else if (err instanceof Error) {
-                errorMessage = err.message;
-                // 테이블이 존재하지 않는 경우 특별한 메시지
-                if (err.message.includes("마이그레이션") || err.message.includes("TABLE_NOT_FOUND")) {
-                  errorMessage = "저장 기능을 사용하려면 데이터베이스 마이그레이션을 먼저 적용해주세요.";
-                }
-              }
-              alert(errorMessage);
-            }
-          }}
+          onClick={handleSave}
           aria-label={isSaved ? "저장 취소" : "저장"}
           type="button"
         >
@@ -645,7 +440,13 @@ function PostCard({
             >
               {user?.name || "Unknown"}
             </Link>
-            <span className="whitespace-pre-wrap">{displayCaption}</span>
+            {displayCaption && (
+              <LinkedText
+                text={displayCaption}
+                mentions={post.mentions}
+                className="whitespace-pre-wrap"
+              />
+            )}
             {shouldTruncate && !showFullCaption && (
               <button
                 className="text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)] ml-1"
@@ -659,15 +460,15 @@ function PostCard({
         )}
 
         {/* 댓글 목록 */}
-        {comments.length > 0 && (
+        {previewComments.length > 0 && (
           <div className="space-y-1">
             <CommentList
-              comments={comments}
-              postId={post.id}
+              comments={previewComments}
               currentUserId={supabaseUserId}
               limit={2}
               showAll={false}
               onDelete={handleCommentDelete}
+              onLike={handleCommentLike}
             />
           </div>
         )}
@@ -701,7 +502,8 @@ function PostCard({
         onOpenChange={setIsEditModalOpen}
         post={post}
         onSuccess={(updatedPost) => {
-          // 게시물 업데이트 콜백 호출
+          // 캐시 및 부모 목록 업데이트
+          updatePost(updatedPost);
           onPostUpdate?.(post.id, updatedPost);
         }}
       />
@@ -715,6 +517,21 @@ function PostCard({
           onDelete?.(post.id);
         }}
       />
+
+      {/* 신고 다이얼로그 */}
+      <ReportDialog
+        open={isReportDialogOpen}
+        onOpenChange={setIsReportDialogOpen}
+        targetType="post"
+        targetId={post.id}
+      />
+
+      {/* 공유 다이얼로그 */}
+      <SharePostDialog
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+        postId={post.id}
+      />
     </article>
   );
 }
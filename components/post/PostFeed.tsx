@@ -4,6 +4,13 @@
  *
  * 게시물 목록을 표시하고 무한 스크롤을 지원하는 컴포넌트입니다.
  * Intersection Observer를 사용하여 하단 도달 시 자동으로 다음 페이지를 로드합니다.
+ * 페이지네이션은 API가 반환하는 nextCursor를 사용하므로 스크롤 중 새 게시물이 추가되어도
+ * 항목이 중복되거나 누락되지 않습니다.
+ * 홈 피드에서는 팔로잉/전체 피드 전환 탭을 제공합니다. (기본값: 팔로잉)
+ * 또한 Supabase Realtime으로 새 게시물 작성을 구독하여 상단에 "새 게시물 N개" 버튼을
+ * 표시하고, 클릭하면 이미 표시 중인 게시물을 제외하고 목록 맨 위에 추가합니다.
+ * 새 게시물이 첫 페이지보다 많아 기존 목록과 이어지지 않으면 피드를 맨 위부터 다시 표시합니다.
+ * 게시물 동영상은 스크롤해 화면에 보일 때만 음소거 자동 재생됩니다. (PostCard → MediaCarousel)
  *
  * @see docs/PRD.md
  */
@@ -12,36 +19,57 @@
 
 import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { useUser } from "@clerk/nextjs";
+import { ArrowUp } from "lucide-react";
 import PostCard from "./PostCard";
 import PostCardSkeleton from "./PostCardSkeleton";
 import PostModal from "./PostModal";
-import type { PostWithStats, User } from "@/lib/types";
+import { useNewPostsRealtime } from "@/hooks/use-new-posts-realtime";
+import { cn } from "@/lib/utils";
+import type {
+  FeedMode,
+  PageParams,
+  PostsResponse,
+  PostWithStats,
+  User,
+} from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+import { cachePosts } from "@/lib/api-cache";
+
+// id 기준 중복 제거 (먼저 나온 게시물 유지)
+function uniqueById(posts: PostWithStats[]): PostWithStats[] {
+  const seenIds = new Set<string>();
+  return posts.filter((post) => {
+    if (seenIds.has(post.id)) return false;
+    seenIds.add(post.id);
+    return true;
+  });
+}
 
 interface PostFeedProps {
   userId?: string; // 특정 사용자의 게시물만 표시 (프로필 페이지용)
   saved?: boolean; // 저장된 게시물만 표시
   initialPosts?: PostWithStats[];
+  defaultFeed?: FeedMode; // 홈 피드 초기 모드 (userId, saved가 없을 때만 적용)
   onRefresh?: (refreshFn: () => void) => void; // 외부에서 refresh 함수를 받을 수 있도록
 }
 
-interface PostsResponse {
-  posts: PostWithStats[];
-  hasMore: boolean;
-  users?: User[];
-}
-
 export default function PostFeed({
   userId,
   saved = false,
   initialPosts = [],
+  defaultFeed = "following",
   onRefresh,
 }: PostFeedProps) {
+  // 홈 피드 여부 (프로필/저장됨 피드에는 팔로잉/전체 전환을 제공하지 않음)
+  const isHomeFeed = !userId && !saved;
+  const [feed, setFeed] = useState<FeedMode>(defaultFeed);
   const [posts, setPosts] = useState<PostWithStats[]>(initialPosts);
   const [users, setUsers] = useState<Map<string, User>>(new Map());
   const [loading, setLoading] = useState(initialPosts.length === 0);
   const [hasMore, setHasMore] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [offset, setOffset] = useState(initialPosts.length);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [newPostsResult, setNewPostsResult] = useState<PostsResponse | null>(null); // 새 게시물 확인 결과 (홈 피드)
   const sentinelRef = useRef<HTMLDivElement>(null);
   const loadingRef = useRef(false);
   
@@ -49,9 +77,14 @@ export default function PostFeed({
   const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
+  // 서버에서 받은 초기 게시물은 이전에 캐시된 값보다 최신이므로 덮어씀
+  useEffect(() => {
+    cachePosts(initialPosts);
+  }, [initialPosts]);
+
   // 게시물 로드 함수
   const loadPosts = useCallback(
-    async (currentOffset: number, replace: boolean = false) => {
+    async (currentCursor: string | null, replace: boolean = false) => {
       if (loadingRef.current) return;
 
       loadingRef.current = true;
@@ -59,71 +92,63 @@ export default function PostFeed({
       setError(null);
 
       try {
-        const params = new URLSearchParams({
-          limit: "10",
-          offset: currentOffset.toString(),
-        });
-
-        let apiUrl = "/api/posts";
-        if (saved) {
-          apiUrl = "/api/posts/saved";
-        } else if (userId) {
-          params.append("userId", userId);
+        const page: PageParams = { limit: 10 };
+        if (currentCursor) {
+          page.cursor = currentCursor;
+        } else if (!replace && initialPosts.length > 0) {
+          // initialPosts 이후부터 로드 (커서가 없는 첫 요청만 offset 사용)
+          page.offset = initialPosts.length;
         }
 
-        const response = await fetch(`${apiUrl}?${params.toString()}`);
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "게시물을 불러오는데 실패했습니다.");
+        const data = saved
+          ? await api.posts.saved(page)
+          : await api.posts.list(userId ? { ...page, userId } : { ...page, feed });
+        // PostModal/PostGrid와 공유하는 캐시에 최신 게시물 반영
+        cachePosts(data.posts, data.users);
+
+        setCursor(data.nextCursor ?? null);
+        setHasMore(data.hasMore && !!data.nextCursor);
+
+        if (replace) {
+          setPosts(data.posts);
+        } else if (data.posts.length > 0) {
+          setPosts((prev) => {
+            // 이미 표시 중인 게시물은 제외 (중복 방지)
+            const existingIds = new Set(prev.map((p) => p.id));
+            return [
+              ...prev,
+              ...data.posts.filter((p) => !existingIds.has(p.id)),
+            ];
+          });
         }
 
-        const data: PostsResponse = await response.json();
-
-        if (data.posts.length === 0) {
-          setHasMore(false);
-        } else {
-          if (replace) {
-            setPosts(data.posts);
-          } else {
-            setPosts((prev) => [...prev, ...data.posts]);
-          }
-          setHasMore(data.hasMore);
-
-          // 사용자 정보 맵 업데이트
-          if (data.users) {
-            setUsers((prev) => {
-              const newMap = new Map(prev);
-              data.users!.forEach((user) => {
-                newMap.set(user.id, user);
-              });
-              return newMap;
+        // 사용자 정보 맵 업데이트
+        if (data.users && data.users.length > 0) {
+          setUsers((prev) => {
+            const newMap = new Map(prev);
+            data.users!.forEach((user) => {
+              newMap.set(user.id, user);
             });
-          }
+            return newMap;
+          });
         }
       } catch (err) {
         console.error("Load posts error:", err);
-        let errorMessage = "게시물을 불러오는데 실패했습니다.";
-        
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          errorMessage = "인터넷 연결을 확인해주세요.";
-        } else if (err instanceof Error) {
-          errorMessage = err.message;
-        }
-        
-        setError(errorMessage);
+        setError(getErrorMessage(err, "게시물을 불러오는데 실패했습니다."));
       } finally {
         setLoading(false);
         loadingRef.current = false;
       }
     },
-    [userId, saved]
+    [userId, saved, feed, initialPosts.length]
   );
 
   // 피드 새로고침 함수
   const refreshFeed = useCallback(() => {
-    setOffset(0);
+    setNewPostsResult(null);
+    setCursor(null);
     setPosts([]);
-    loadPosts(0, true);
+    loadPosts(null, true);
   }, [loadPosts]);
 
   // onRefresh 콜백에 refreshFeed 함수 전달
@@ -133,13 +158,87 @@ export default function PostFeed({
     }
   }, [onRefresh, refreshFeed]);
 
-  // 초기 로드
+  // 초기 로드 (피드 모드가 바뀌면 loadPosts가 재생성되어 다시 로드됨)
   useEffect(() => {
     if (initialPosts.length === 0) {
-      loadPosts(0, false);
+      loadPosts(null, true);
     }
   }, [loadPosts, initialPosts.length]);
 
+  // 피드 모드 전환 핸들러
+  const handleFeedChange = useCallback(
+    (nextFeed: FeedMode) => {
+      if (nextFeed === feed || loadingRef.current) return;
+      setNewPostsResult(null);
+      setPosts([]);
+      setCursor(null);
+      setHasMore(true);
+      setFeed(nextFeed);
+    },
+    [feed]
+  );
+
+  // 새 게시물 확인: 피드 첫 페이지를 다시 조회 (팔로잉/비공개/차단 필터는 API에서 적용)
+  const checkNewPosts = useCallback(async () => {
+    try {
+      setNewPostsResult(await api.posts.list({ limit: 10, feed }));
+    } catch (err) {
+      // 새 게시물 확인 실패는 피드 사용에 영향 없도록 로그만 남김
+      console.error("Check new posts error:", err);
+    }
+  }, [feed]);
+
+  useNewPostsRealtime(isHomeFeed, checkNewPosts);
+
+  // 표시 중인 게시물보다 최신이면서 아직 목록에 없는 게시물
+  // 첫 페이지가 모두 새 게시물이고 다음 페이지가 있으면 기존 목록과의 사이에 빠진 게시물이 있음
+  const { newPosts, hasGap } = useMemo(() => {
+    if (!newPostsResult) return { newPosts: [], hasGap: false };
+
+    const existingIds = new Set(posts.map((p) => p.id));
+    const latestCreatedAt = posts[0]?.created_at;
+    const freshPosts = uniqueById(newPostsResult.posts).filter(
+      (p) =>
+        !existingIds.has(p.id) &&
+        (!latestCreatedAt || new Date(p.created_at) > new Date(latestCreatedAt))
+    );
+    return {
+      newPosts: freshPosts,
+      hasGap:
+        newPostsResult.hasMore &&
+        freshPosts.length === newPostsResult.posts.length,
+    };
+  }, [newPostsResult, posts]);
+
+  // 새 게시물 표시: 목록 맨 위에 추가 후 상단으로 스크롤
+  // (빠진 게시물이 있으면 첫 페이지로 목록을 교체하고 그 다음부터 이어서 로드)
+  const handleShowNewPosts = useCallback(() => {
+    if (!newPostsResult || newPosts.length === 0) return;
+
+    const newUsers = newPostsResult.users || [];
+    if (newUsers.length > 0) {
+      setUsers((prev) => {
+        const newMap = new Map(prev);
+        newUsers.forEach((user) => {
+          newMap.set(user.id, user);
+        });
+        return newMap;
+      });
+    }
+
+    cachePosts(newPostsResult.posts, newUsers);
+    if (hasGap) {
+      setPosts(uniqueById(newPostsResult.posts));
+      setCursor(newPostsResult.nextCursor ?? null);
+      setHasMore(newPostsResult.hasMore && !!newPostsResult.nextCursor);
+    } else {
+      // 그 사이 추가된 게시물은 제외 (중복 방지)
+      setPosts((prev) => uniqueById([...newPosts, ...prev]));
+    }
+    setNewPostsResult(null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  }, [newPostsResult, newPosts, hasGap]);
+
   // Intersection Observer 설정
   useEffect(() => {
     if (!sentinelRef.current || !hasMore || loading) return;
@@ -147,9 +246,7 @@ export default function PostFeed({
     const observer = new IntersectionObserver(
       (entries) => {
         if (entries[0].isIntersecting && hasMore && !loading) {
-          const nextOffset = offset;
-          setOffset(nextOffset + 10);
-          loadPosts(nextOffset, false);
+          loadPosts(cursor, false);
         }
       },
       {
@@ -162,7 +259,7 @@ export default function PostFeed({
     return () => {
       observer.disconnect();
     };
-  }, [hasMore, loading, offset, loadPosts]);
+  }, [hasMore, loading, cursor, loadPosts]);
 
   // 게시물 업데이트 핸들러 (좋아요, 댓글, 저장 등 모든 변경사항 반영)
   const handlePostUpdate = useCallback((postId: string, updates: Partial<PostWithStats>) => {
@@ -272,6 +369,19 @@ export default function PostFeed({
     [selectedPostId]
   );
 
+  // 작성자 음소거/차단 핸들러 (해당 작성자의 게시물을 피드에서 제거)
+  const handleHideAuthor = useCallback(
+    (userId: string) => {
+      setPosts((prev) => prev.filter((p) => p.user_id !== userId));
+      // 모달이 열려있으면 닫기
+      if (selectedPost?.user_id === userId) {
+        setIsModalOpen(false);
+        setSelectedPostId(null);
+      }
+    },
+    [selectedPost]
+  );
+
   // 저장 취소 핸들러 (저장된 게시물 페이지에서만 사용)
   const handleSaveRemove = useCallback(
     (postId: string) => {
@@ -303,20 +413,69 @@ export default function PostFeed({
           onDelete={handlePostDelete}
           onPostUpdate={handlePostUpdate}
           onSaveRemove={saved ? handleSaveRemove : undefined}
+          onHideAuthor={handleHideAuthor}
           isPriority={index === 0}
         />
       );
     });
-  }, [posts, users, handleLike, handleComment, handleImageClick, handlePostDelete, handlePostUpdate]);
+  }, [posts, users, handleLike, handleComment, handleImageClick, handlePostDelete, handlePostUpdate, handleHideAuthor]);
 
   return (
     <div className="w-full">
+      {/* 피드 모드 전환 탭 (홈 피드만) */}
+      {isHomeFeed && (
+        <div
+          className="flex items-center justify-center gap-6 mb-4 border-b border-[var(--instagram-border)]"
+          role="tablist"
+          aria-label="피드 선택"
+        >
+          {(
+            [
+              { value: "following", label: "팔로잉" },
+              { value: "all", label: "전체" },
+            ] as const
+          ).map((tab) => (
+            <button
+              key={tab.value}
+              type="button"
+              role="tab"
+              aria-selected={feed === tab.value}
+              onClick={() => handleFeedChange(tab.value)}
+              disabled={loading}
+              className={cn(
+                "py-3 text-sm font-semibold transition-colors border-b-2 -mb-px",
+                feed === tab.value
+                  ? "border-[var(--instagram-text-primary)] text-[var(--instagram-text-primary)]"
+                  : "border-transparent text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)]"
+              )}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 새 게시물 알림 (홈 피드) */}
+      {isHomeFeed && !loading && newPosts.length > 0 && (
+        <div className="sticky top-[72px] md:top-4 z-30 flex justify-center pointer-events-none">
+          <button
+            type="button"
+            onClick={handleShowNewPosts}
+            className="pointer-events-auto flex items-center gap-1 px-4 py-2 rounded-full bg-[var(--instagram-blue)] text-white text-sm font-semibold shadow-lg hover:opacity-90 transition-opacity"
+          >
+            <ArrowUp className="w-4 h-4" aria-hidden="true" />
+            새 게시물 {newPosts.length.toLocaleString()}
+            {hasGap && "+"}개
+          </button>
+        </div>
+      )}
+
       {/* 에러 상태 */}
       {error && !loading && (
         <div className="flex flex-col items-center justify-center py-16 text-center">
           <p className="text-[var(--instagram-text-secondary)] mb-4">{error}</p>
           <button
-            onClick={() => loadPosts(0, true)}
+            onClick={() => loadPosts(null, true)}
             className="px-4 py-2 bg-[var(--instagram-blue)] text-white rounded-lg hover:opacity-90 transition-opacity"
           >
             다시 시도
@@ -345,8 +504,18 @@ export default function PostFeed({
           <p className="text-[var(--instagram-text-secondary)] text-sm">
             {saved 
               ? "게시물을 저장하면 여기에 표시됩니다." 
+              : isHomeFeed && feed === "following"
+              ? "다른 사용자를 팔로우하면 그 사람의 게시물이 여기에 표시됩니다."
               : "첫 번째 게시물을 공유해보세요!"}
           </p>
+          {isHomeFeed && feed === "following" && (
+            <button
+              onClick={() => handleFeedChange("all")}
+              className="mt-4 px-4 py-2 bg-[var(--instagram-blue)] text-white rounded-lg hover:opacity-90 transition-opacity"
+            >
+              전체 게시물 보기
+            </button>
+          )}
         </div>
       )}
 
@@ -393,6 +562,7 @@ export default function PostFeed({
             // selectedPost가 useMemo로 자동 재계산되어 최신 데이터로 업데이트됨
           }}
           onSaveRemove={saved ? handleSaveRemove : undefined}
+          onHideAuthor={handleHideAuthor}
         />
       )}
     </div>
@@ -3,7 +3,8 @@
  * @description 게시물 메뉴 컴포넌트
  *
  * Instagram 스타일의 게시물 드롭다운 메뉴입니다.
- * 본인 게시물의 경우 "삭제" 옵션을 표시합니다.
+ * - 본인 게시물: "수정", "삭제" 옵션
+ * - 다른 사람 게시물: "신고", "음소거", "차단" 옵션 (콜백이 있는 경우만)
  *
  * @see docs/PRD.md
  */
@@ -23,11 +24,21 @@ interface PostMenuProps {
   isOwner: boolean; // 본인 게시물인지 여부
   onEdit?: () => void; // 수정 버튼 클릭 시 콜백
   onDelete: () => void; // 삭제 버튼 클릭 시 콜백
+  onMute?: () => void; // 작성자 음소거 (다른 사람 게시물)
+  onBlock?: () => void; // 작성자 차단 (다른 사람 게시물)
+  onReport?: () => void; // 게시물 신고 (다른 사람 게시물)
 }
 
-export default function PostMenu({ isOwner, onEdit, onDelete }: PostMenuProps) {
-  // 본인 게시물이 아니면 메뉴를 표시하지 않음
-  if (!isOwner) {
+export default function PostMenu({
+  isOwner,
+  onEdit,
+  onDelete,
+  onMute,
+  onBlock,
+  onReport,
+}: PostMenuProps) {
+  // 다른 사람 게시물인데 신고/음소거/차단 옵션도 없으면 메뉴를 표시하지 않음
+  if (!isOwner && !onReport && !onMute && !onBlock) {
     return null;
   }
 
@@ -44,20 +55,51 @@ export default function PostMenu({ isOwner, onEdit, onDelete }: PostMenuProps) {
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end">
-        {onEdit && (
-          <DropdownMenuItem
-            onClick={onEdit}
-            className="focus:bg-gray-50"
-          >
-            수정
-          </DropdownMenuItem>
+        {isOwner ? (
+          <>
+            {onEdit && (
+              <DropdownMenuItem
+                onClick={onEdit}
+                className="focus:bg-gray-50"
+              >
+                수정
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuItem
+              onClick={onDelete}
+              className="text-red-600 focus:text-red-600 focus:bg-red-50"
+            >
+              삭제
+            </DropdownMenuItem>
+          </>
+        ) : (
+          <>
+            {onReport && (
+              <DropdownMenuItem
+                onClick={onReport}
+                className="text-red-600 focus:text-red-600 focus:bg-red-50"
+              >
+                신고
+              </DropdownMenuItem>
+            )}
+            {onMute && (
+              <DropdownMenuItem
+                onClick={onMute}
+                className="focus:bg-gray-50"
+              >
+                음소거
+              </DropdownMenuItem>
+            )}
+            {onBlock && (
+              <DropdownMenuItem
+                onClick={onBlock}
+                className="text-red-600 focus:text-red-600 focus:bg-red-50"
+              >
+                차단
+              </DropdownMenuItem>
+            )}
+          </>
         )}
-        <DropdownMenuItem
-          onClick={onDelete}
-          className="text-red-600 focus:text-red-600 focus:bg-red-50"
-        >
-          삭제
-        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
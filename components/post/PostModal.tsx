@@ -11,6 +11,13 @@
  * 3. 닫기 버튼 및 키보드 네비게이션
  * 4. 이전/다음 게시물 네비게이션 (Desktop)
  * 5. 게시물 상세 정보 및 댓글 전체 목록 표시
+ * 6. 다중 미디어 캐러셀 (스와이프, 점 인디케이터)
+ * 7. 댓글 답글 (답글 달기, 답글 펼치기/접기)
+ * 8. 댓글 좋아요 (낙관적 업데이트)
+ * 9. 게시물/댓글 신고 (다른 사람 콘텐츠)
+ * 10. 캡션/댓글의 해시태그 링크 (/tags/[tag]) 및 @멘션 링크 (/profile/[userId])
+ * 11. 게시물 공유 (메시지로 보내기, 링크 복사)
+ * 12. 실시간 갱신 (다른 사용자의 댓글/좋아요를 Supabase Realtime으로 구독)
  *
  * @see docs/PRD.md
  */
@@ -19,7 +26,6 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef, memo } from "react";
 import { useUser } from "@clerk/nextjs";
-import Image from "next/image";
 import Link from "next/link";
 import {
   Dialog,
@@ -39,10 +45,29 @@ import {
 } from "lucide-react";
 import { formatRelativeTime } from "@/lib/utils";
 import { cn } from "@/lib/utils";
-import type { PostWithStats, User, CommentWithUser } from "@/lib/types";
+import type {
+  PostWithStats,
+  User,
+  CommentWithUser,
+  ReportTargetType,
+} from "@/lib/types";
 import { useClerkSupabaseClient } from "@/utils/supabase/clerk-client";
 import CommentList from "@/components/comment/CommentList";
-import CommentForm from "@/components/comment/CommentForm";
+import CommentForm, { type ReplyTarget } from "@/components/comment/CommentForm";
+import UserAvatar from "@/components/profile/UserAvatar";
+import ReportDialog from "@/components/report/ReportDialog";
+import SharePostDialog from "@/components/messages/SharePostDialog";
+import { usePostRealtime } from "@/hooks/use-post-realtime";
+import { useUserModeration } from "@/hooks/use-user-moderation";
+import { getPostMedia } from "@/lib/post-media";
+import { ApiError } from "@/lib/api-errors";
+import { getErrorMessage } from "@/lib/api-client";
+import { usePost } from "@/hooks/use-post";
+import { useComments } from "@/hooks/use-comments";
+import { useLikeToggle } from "@/hooks/use-like-toggle";
+import { useSaveToggle } from "@/hooks/use-save-toggle";
+import MediaCarousel from "./MediaCarousel";
+import LinkedText from "./LinkedText";
 import PostMenu from "./PostMenu";
 import DeletePostDialog from "./DeletePostDialog";
 import EditPostModal from "./EditPostModal";
@@ -60,12 +85,7 @@ interface PostModalProps {
   onPostDelete?: (postId: string) => void; // 게시물 삭제 시 콜백
   onPostUpdate?: (postId: string, updates: Partial<PostWithStats>) => void; // 게시물 업데이트 콜백
   onSaveRemove?: (postId: string) => void; // 저장 취소 시 콜백 (저장된 게시물 페이지에서 사용)
-}
-
-// 미디어 타입 확인 헬퍼 함수
-function isVideoUrl(url: string): boolean {
-  const videoExtensions = ['.mp4', '.webm', '.mov', '.avi', '.quicktime'];
-  return videoExtensions.some(ext => url.toLowerCase().includes(ext));
+  onHideAuthor?: (userId: string) => void; // 작성자 음소거/차단 시 콜백 (피드에서 게시물 제거)
 }
 
 function PostModal({
@@ -81,26 +101,66 @@ function PostModal({
   onPostDelete,
   onPostUpdate,
   onSaveRemove,
+  onHideAuthor,
 }: PostModalProps) {
   const { user: clerkUser } = useUser();
   const supabase = useClerkSupabaseClient();
-  const [post, setPost] = useState<PostWithStats | null>(initialPost || null);
-  const [user, setUser] = useState<User | undefined>(initialUser);
-  const [comments, setComments] = useState<CommentWithUser[]>([]);
-  const [loading, setLoading] = useState(!initialPost);
-  const [loadingComments, setLoadingComments] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [isLiked, setIsLiked] = useState(false);
-  const [isSaved, setIsSaved] = useState(false);
   const [supabaseUserId, setSupabaseUserId] = useState<string | undefined>();
   const commentAreaRef = useRef<HTMLDivElement>(null);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
-  const isLoadingCommentsRef = useRef(false);
+  const [isShareDialogOpen, setIsShareDialogOpen] = useState(false);
+  const [reportTarget, setReportTarget] = useState<{
+    targetType: ReportTargetType;
+    targetId: string;
+  } | null>(null);
+  const [replyTo, setReplyTo] = useState<ReplyTarget | null>(null);
+  const [expandedReplyIds, setExpandedReplyIds] = useState<Set<string>>(new Set());
+
+  // 게시물/댓글/좋아요/저장 상태는 피드의 PostCard와 공유 캐시로 동기화
+  const {
+    post,
+    user,
+    isLoading: loading,
+    error,
+    refresh: refreshPost,
+    updatePost,
+  } = usePost(postId, { post: initialPost, user: initialUser, enabled: open });
+  const {
+    comments,
+    replies,
+    isLoading: loadingComments,
+    loadingReplyIds,
+    refresh: refreshCommentList,
+    loadReplies,
+    addComment,
+    deleteComment,
+    toggleCommentLike,
+  } = useComments(postId, { enabled: open });
+  const { isLiked, toggleLike } = useLikeToggle(postId);
+  const { isSaved, toggleSave } = useSaveToggle(postId);
+  const { blockUser, muteUser } = useUserModeration();
 
   // 본인 게시물 여부 확인
   const isOwner = supabaseUserId === post?.user_id;
 
+  // 작성자 음소거/차단 (성공 시 모달을 닫고 피드에서 해당 작성자 게시물 제거)
+  const handleMuteAuthor = useCallback(async () => {
+    if (!post) return;
+    if (await muteUser(post.user_id)) {
+      onHideAuthor?.(post.user_id);
+      onOpenChange(false);
+    }
+  }, [post, muteUser, onHideAuthor, onOpenChange]);
+
+  const handleBlockAuthor = useCallback(async () => {
+    if (!post) return;
+    if (await blockUser(post.user_id, user?.name)) {
+      onHideAuthor?.(post.user_id);
+      onOpenChange(false);
+    }
+  }, [post, user?.name, blockUser, onHideAuthor, onOpenChange]);
+
   // Clerk user ID를 Supabase user_id로 변환
   useEffect(() => {
     if (supabaseUserId || !clerkUser?.id) return;
@@ -124,245 +184,145 @@ function PostModal({
     fetchSupabaseUserId();
   }, [clerkUser?.id, supabaseUserId, supabase]);
 
-  // 게시물 상세 정보 로드
-  const loadPost = useCallback(async () => {
-    // initialPost가 있으면 우선 사용 (최신 데이터)
-    if (initialPost) {
-      setPost(initialPost);
-      setLoading(false);
-      // initialPost가 있더라도 사용자 정보는 별도로 로드
-      if (!initialUser) {
-        try {
-          const response = await fetch(`/api/posts/${postId}`);
-          if (response.ok) {
-            const data = await response.json();
-            if (data.user) {
-              setUser(data.user);
-            }
-          }
-        } catch (err) {
-          console.error("Failed to load user info:", err);
-        }
-      }
-      return;
-    }
+  // 답글 펼치기/접기 (처음 펼칠 때만 로드)
+  const handleToggleReplies = useCallback(
+    (commentId: string) => {
+      const isExpanded = expandedReplyIds.has(commentId);
 
-    setLoading(true);
-    setError(null);
+      setExpandedReplyIds((prev) => {
+        const next = new Set(prev);
+        if (isExpanded) {
+          next.delete(commentId);
+        } else {
+          next.add(commentId);
+        }
+        return next;
+      });
 
-    try {
-      const response = await fetch(`/api/posts/${postId}`);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "게시물을 불러오는데 실패했습니다.");
+      if (!isExpanded && !replies[commentId]) {
+        loadReplies(commentId);
       }
+    },
+    [expandedReplyIds, replies, loadReplies]
+  );
 
-      const data = await response.json();
-      setPost(data.post);
-      if (data.user) {
-        setUser(data.user);
-      }
-    } catch (err) {
-      console.error("Load post error:", err);
-      let errorMessage = "게시물을 불러오는데 실패했습니다.";
-      
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
+  // 댓글 좋아요 토글 핸들러 (낙관적 업데이트, 실패 시 useComments에서 롤백)
+  const handleCommentLike = useCallback(
+    async (comment: CommentWithUser) => {
+      try {
+        await toggleCommentLike(comment);
+      } catch (err) {
+        console.error("Comment like error:", err);
       }
-      
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
+    },
+    [toggleCommentLike]
+  );
+
+  // 답글 달기 (폼에 @username 자동 입력)
+  const handleReply = useCallback((comment: CommentWithUser) => {
+    setReplyTo({ commentId: comment.id, username: comment.user.name });
+  }, []);
+
+  // 댓글 신고
+  const handleCommentReport = useCallback((comment: CommentWithUser) => {
+    setReportTarget({ targetType: "comment", targetId: comment.id });
+  }, []);
+
+  // 모달이 닫힐 때 답글 입력/펼침 상태 초기화 (댓글은 캐시에 유지)
+  useEffect(() => {
+    if (!open) {
+      setReplyTo(null);
+      setExpandedReplyIds(new Set());
     }
-  }, [postId, initialPost, initialUser]);
-
-  // 댓글 전체 목록 로드
-  const loadComments = useCallback(async () => {
-    if (!postId || isLoadingCommentsRef.current) return;
-
-    isLoadingCommentsRef.current = true;
-    setLoadingComments(true);
-    
-    // 타임아웃 설정 (10초 후 강제 종료)
-    const timeoutId = setTimeout(() => {
-      console.warn("댓글 로딩 타임아웃");
-      isLoadingCommentsRef.current = false;
-      setLoadingComments(false);
-      setComments([]);
-    }, 10000);
+  }, [open]);
 
+  // 실시간 갱신: 좋아요 수/댓글 수 다시 조회
+  const refreshCounts = useCallback(async () => {
     try {
-      const response = await fetch(`/api/comments?postId=${postId}`);
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "댓글을 불러오는데 실패했습니다.");
+      const updated = await refreshPost();
+      if (updated) {
+        onPostUpdate?.(postId, {
+          likes_count: updated.likes_count,
+          comments_count: updated.comments_count,
+        });
       }
-      const data = await response.json();
-      setComments(data.comments || []);
     } catch (err) {
-      clearTimeout(timeoutId);
-      console.error("Load comments error:", err);
-      // 에러 발생 시 빈 배열로 설정
-      setComments([]);
-    } finally {
-      isLoadingCommentsRef.current = false;
-      setLoadingComments(false);
+      console.error("Refresh post counts error:", err);
     }
-  }, [postId]);
+  }, [postId, refreshPost, onPostUpdate]);
 
-  // 모달이 열릴 때 데이터 로드
-  useEffect(() => {
-    if (open && postId) {
-      // initialPost가 변경되면 최신 데이터로 업데이트
-      if (initialPost) {
-        setPost(initialPost);
-      }
-      if (initialUser) {
-        setUser(initialUser);
-      }
-      loadPost();
-      loadComments();
-    } else if (!open) {
-      // 모달이 닫힐 때 상태 초기화
-      setComments([]);
-      setLoadingComments(false);
-      isLoadingCommentsRef.current = false;
-    }
-  }, [open, postId, loadPost, loadComments, initialPost, initialUser]);
-
-  // 좋아요 상태 확인 (supabaseUserId와 post가 있을 때)
-  useEffect(() => {
-    if (!supabaseUserId || !post) return;
-
-    const checkLikeStatus = async () => {
+  // 실시간 갱신: 댓글 목록과 펼쳐 본 답글 목록 다시 조회 (로딩 표시 없이 교체)
+  const refreshComments = useCallback(
+    async (parentIds: (string | null)[]) => {
       try {
-        const { data, error } = await supabase
-          .from("likes")
-          .select("id")
-          .eq("post_id", post.id)
-          .eq("user_id", supabaseUserId)
-          .single();
-
-        if (!error && data) {
-          setIsLiked(true);
-        } else {
-          setIsLiked(false);
-        }
+        await refreshCommentList();
       } catch (err) {
-        setIsLiked(false);
+        console.error("Refresh comments error:", err);
       }
-    };
 
-    checkLikeStatus();
-  }, [supabaseUserId, post, supabase]);
-
-  // 저장 상태 확인 (supabaseUserId와 post가 있을 때)
-  useEffect(() => {
-    if (!supabaseUserId || !post?.id) return;
-
-    const checkSaveStatus = async () => {
-      try {
-        const response = await fetch(`/api/saves?postId=${post.id}`);
-        if (response.ok) {
-          const data = await response.json();
-          setIsSaved(data.isSaved || false);
-        } else {
-          // 응답이 실패해도 에러로 처리하지 않음 (저장되지 않은 것으로 간주)
-          setIsSaved(false);
+      parentIds.forEach((parentId) => {
+        if (parentId && replies[parentId]) {
+          loadReplies(parentId);
         }
-      } catch (err) {
-        console.error("Failed to check save status:", err);
-        // 네트워크 에러 등은 저장되지 않은 것으로 간주
-        setIsSaved(false);
-      }
-    };
+      });
+      refreshCounts();
+    },
+    [refreshCommentList, replies, loadReplies, refreshCounts]
+  );
 
-    checkSaveStatus();
-  }, [supabaseUserId, post?.id]);
+  usePostRealtime(open ? postId : null, {
+    onLikesChange: refreshCounts,
+    onCommentsChange: refreshComments,
+  });
 
   // 댓글 작성 핸들러
   const handleCommentSubmit = useCallback(
     async (content: string) => {
       try {
-        const response = await fetch("/api/comments", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            postId,
-            content,
-          }),
-        });
+        const newComment = await addComment(content, replyTo?.commentId);
+        const parentId = newComment.parent_id;
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "댓글 작성에 실패했습니다.");
+        if (parentId) {
+          // 답글: 답글 목록 펼치기
+          setExpandedReplyIds((prev) => new Set(prev).add(parentId));
+          setReplyTo(null);
         }
 
-        const newComment: CommentWithUser = await response.json();
-        setComments((prev) => [...prev, newComment]);
-        
-        // 댓글 수 증가
+        // 댓글 수 증가 (캐시는 useComments에서 갱신)
         if (post) {
-          const updatedPost = {
-            ...post,
-            comments_count: post.comments_count + 1,
-          };
-          setPost(updatedPost);
-          onPostUpdate?.(postId, { comments_count: updatedPost.comments_count });
+          onPostUpdate?.(postId, { comments_count: post.comments_count + 1 });
         }
       } catch (err) {
         console.error("Comment submit error:", err);
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          throw new Error("인터넷 연결을 확인해주세요.");
-        }
-        throw err;
+        throw new Error(getErrorMessage(err, "댓글 작성에 실패했습니다."));
       }
     },
-    [postId, post]
+    [postId, post, replyTo, addComment, onPostUpdate]
   );
 
   // 댓글 삭제 핸들러
   const handleCommentDelete = useCallback(
     async (commentId: string) => {
       try {
-        const response = await fetch(`/api/comments?commentId=${commentId}`, {
-          method: "DELETE",
-        });
+        // 최상위 댓글 삭제 시 답글도 함께 삭제됨 (deletedCount에 포함)
+        const { deletedCount, parentId } = await deleteComment(commentId);
 
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "댓글 삭제에 실패했습니다.");
+        if (!parentId && replyTo?.commentId === commentId) {
+          setReplyTo(null);
         }
 
-        setComments((prev) => prev.filter((c) => c.id !== commentId));
-        
-        // 댓글 수 감소
+        // 댓글 수 감소 (답글 포함)
         if (post) {
-          const updatedPost = {
-            ...post,
-            comments_count: Math.max(0, post.comments_count - 1),
-          };
-          setPost(updatedPost);
-          onPostUpdate?.(postId, { comments_count: updatedPost.comments_count });
+          onPostUpdate?.(postId, {
+            comments_count: Math.max(0, post.comments_count - (deletedCount || 1)),
+          });
         }
       } catch (err) {
         console.error("Comment delete error:", err);
-        let errorMessage = "댓글 삭제에 실패했습니다.";
-        if (err instanceof TypeError && err.message === "Failed to fetch") {
-          errorMessage = "인터넷 연결을 확인해주세요.";
-        } else if (err instanceof Error) {
-          errorMessage = err.message;
-        }
-        alert(errorMessage);
+        alert(getErrorMessage(err, "댓글 삭제에 실패했습니다."));
       }
     },
-    [post]
+    [postId, post, replyTo, deleteComment, onPostUpdate]
   );
 
   // 키보드 네비게이션
@@ -392,170 +352,43 @@ function PostModal({
     onOpenChange(false);
   }, [onOpenChange]);
 
-  // 좋아요 핸들러
+  // 좋아요 핸들러 (낙관적 업데이트, 실패 시 useLikeToggle에서 롤백)
   const handleLike = useCallback(async () => {
-    const newLikedState = !isLiked;
-    setIsLiked(newLikedState); // 낙관적 업데이트
+    const wasLiked = isLiked;
 
     try {
-      if (newLikedState) {
-        // 좋아요 추가
-        const response = await fetch("/api/likes", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ postId }),
+      const liked = await toggleLike();
+      // 부모 목록의 좋아요 수 업데이트 (캐시는 useLikeToggle에서 갱신)
+      if (post && liked !== wasLiked) {
+        onPostUpdate?.(postId, {
+          likes_count: Math.max(0, post.likes_count + (liked ? 1 : -1)),
         });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          if (response.status !== 409) {
-            throw new Error(errorData.error || "좋아요 추가에 실패했습니다.");
-          }
-        }
-
-        // 좋아요 수 증가
-        if (post) {
-          const updatedPost = {
-            ...post,
-            likes_count: post.likes_count + 1,
-          };
-          setPost(updatedPost);
-          onPostUpdate?.(postId, { likes_count: updatedPost.likes_count });
-        }
-      } else {
-        // 좋아요 제거
-        const response = await fetch(`/api/likes?postId=${postId}`, {
-          method: "DELETE",
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "좋아요 제거에 실패했습니다.");
-        }
-
-        // 좋아요 수 감소
-        if (post) {
-          const updatedPost = {
-            ...post,
-            likes_count: Math.max(0, post.likes_count - 1),
-          };
-          setPost(updatedPost);
-          onPostUpdate?.(postId, { likes_count: updatedPost.likes_count });
-        }
       }
     } catch (err) {
-      // 에러 발생 시 상태 롤백
-      setIsLiked(!newLikedState);
       console.error("Like error:", err);
     }
-  }, [isLiked, postId, post]);
+  }, [isLiked, toggleLike, postId, post, onPostUpdate]);
 
-  // 저장 핸들러
+  // 저장 핸들러 (낙관적 업데이트, 실패 시 useSaveToggle에서 롤백)
   const handleSave = useCallback(async () => {
-    const newSavedState = !isSaved;
-    setIsSaved(newSavedState); // 낙관적 업데이트
+    const wasSaved = isSaved;
 
     try {
-      if (newSavedState) {
-        // 저장 추가
-        const response = await fetch("/api/saves", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ postId }),
-        });
-
-        if (!response.ok) {
-          // 응답 본문을 텍스트로 먼저 읽기
-          const responseText = await response.text();
-          let errorData: any = {};
-          
-          try {
-            errorData = JSON.parse(responseText);
-          } catch (e) {
-            // JSON 파싱 실패 시 원본 텍스트 사용
-            console.error("Failed to parse error response as JSON:", responseText);
-            errorData = { error: responseText || "알 수 없는 오류가 발생했습니다." };
-          }
-          
-          if (response.status !== 409) {
-            console.error("Save API error:", {
-              status: response.status,
-              statusText: response.statusText,
-              error: errorData,
-              rawResponse: responseText,
-            });
-            throw new Error(errorData.error || "저장에 실패했습니다.");
-          }
-        }
-      } else {
-        // 저장 제거
-        const response = await fetch(`/api/saves?postId=${postId}`, {
-          method: "DELETE",
-        });
-
-        if (!response.ok) {
-          // 응답 본문을 텍스트로 먼저 읽기
-          const responseText = await response.text();
-          let errorData: any = {};
-          
-          try {
-            errorData = JSON.parse(responseText);
-          } catch (e) {
-            // JSON 파싱 실패 시 원본 텍스트 사용
-            console.error("Failed to parse error response as JSON:", responseText);
-            errorData = { error: responseText || "알 수 없는 오류가 발생했습니다." };
-          }
-          
-          console.error("Save delete API error:", {
-            status: response.status,
-            statusText: response.statusText,
-            error: errorData,
-            rawResponse: responseText,
-          });
-          throw new Error(errorData.error || "저장 취소에 실패했습니다.");
-        }
-        
-        // 저장 취소 성공 시 콜백 호출 (저장된 게시물 페이지에서 목록에서 제거)
+      const saved = await toggleSave();
+      // 저장 취소 성공 시 콜백 호출 (저장된 게시물 페이지에서 목록에서 제거)
+      if (wasSaved && !saved) {
         onSaveRemove?.(postId);
       }
     } catch (err) {
-      // 에러 발생 시 상태 롤백
-      setIsSaved(!newSavedState);
       console.error("Save error:", err);
-      let errorMessage = "저장 처리에 실패했습니다.";
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
-        // 테이블이 존재하지 않는 경우 특별한 메시지
-        if (err.message.includes("마이그레이션") || err.message.includes("TABLE_NOT_FOUND")) {
-          errorMessage = "저장 기능을 사용하려면 데이터베이스 마이그레이션을 먼저 적용해주세요.";
-        }
+      let errorMessage = getErrorMessage(err, "저장 처리에 실패했습니다.");
+      // 저장 테이블이 없는 경우 (마이그레이션 미적용) 특별한 메시지
+      if (err instanceof ApiError && err.code === "SERVICE_UNAVAILABLE") {
+        errorMessage = "저장 기능을 사용하려면 데이터베이스 마이그레이션을 먼저 적용해주세요.";
       }
       alert(errorMessage);
     }
-  }, [isSaved, postId]);
-
-  // 공유 핸들러
-  const handleShare = useCallback(async () => {
-    try {
-      // 게시물 URL 생성
-      const postUrl = `${window.location.origin}/post/${postId}`;
-      
-      // 클립보드에 복사
-      await navigator.clipboard.writeText(postUrl);
-      
-      // 성공 피드백
-      alert("링크가 클립보드에 복사되었습니다!");
-    } catch (err) {
-      console.error("Failed to copy URL:", err);
-      alert("링크 복사에 실패했습니다.");
-    }
-  }, [postId]);
+  }, [isSaved, toggleSave, postId, onSaveRemove]);
 
   // 로딩 상태
   if (loading) {
@@ -598,29 +431,19 @@ function PostModal({
   }
 
   // Desktop 레이아웃 (모달)
-  const isVideo = post ? isVideoUrl(post.image_url) : false;
+  const media = getPostMedia(post);
   const desktopContent = (
     <div className="flex h-[90vh] max-h-[900px]">
-      {/* 미디어 영역 (50%) */}
-      <div className="relative flex-1 bg-black flex items-center justify-center">
-        {isVideo ? (
-          <video
-            src={post.image_url}
-            className="w-full h-full max-h-full object-contain"
-            controls
-            playsInline
-            preload="metadata"
-          />
-        ) : (
-          <Image
-            src={post.image_url}
-            alt={post.caption || "게시물 이미지"}
-            fill
-            className="object-contain"
-            sizes="(max-width: 768px) 100vw, 450px"
-            priority
-          />
-        )}
+      {/* 미디어 영역 (50%, 다중 미디어는 캐러셀) */}
+      <div className="relative flex-1 min-w-0 bg-black flex items-center justify-center">
+        <MediaCarousel
+          media={media}
+          alt={post.caption || "게시물 이미지"}
+          fill
+          priority
+          sizes="(max-width: 768px) 100vw, 450px"
+          variant="large"
+        />
       </div>
 
       {/* 댓글 영역 (50%) */}
@@ -632,15 +455,7 @@ function PostModal({
               href={user ? `/profile/${user.id}` : "#"}
               aria-label={`${user?.name || "사용자"} 프로필 보기`}
             >
-              <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
-                {user?.name ? (
-                  <span className="text-xs font-semibold text-gray-600" aria-hidden="true">
-                    {user.name.charAt(0).toUpperCase()}
-                  </span>
-                ) : (
-                  <div className="w-full h-full bg-gray-300" aria-hidden="true" />
-                )}
-              </div>
+              <UserAvatar user={user} size={32} />
             </Link>
             <Link
               href={user ? `/profile/${user.id}` : "#"}
@@ -654,6 +469,13 @@ function PostModal({
             isOwner={isOwner || false}
             onEdit={() => setIsEditModalOpen(true)}
             onDelete={() => setIsDeleteDialogOpen(true)}
+            onMute={supabaseUserId ? handleMuteAuthor : undefined}
+            onBlock={supabaseUserId ? handleBlockAuthor : undefined}
+            onReport={
+              supabaseUserId
+                ? () => setReportTarget({ targetType: "post", targetId: postId })
+                : undefined
+            }
           />
         </div>
 
@@ -681,7 +503,11 @@ function PostModal({
               >
                 {user?.name || "Unknown"}
               </Link>
-              <span className="whitespace-pre-wrap">{post.caption}</span>
+              <LinkedText
+                text={post.caption}
+                mentions={post.mentions}
+                className="whitespace-pre-wrap"
+              />
             </div>
           )}
 
@@ -697,10 +523,16 @@ function PostModal({
           ) : (
             <CommentList
               comments={comments}
-              postId={postId}
               currentUserId={supabaseUserId}
               showAll={true}
               onDelete={handleCommentDelete}
+              onLike={handleCommentLike}
+              onReply={handleReply}
+              onReport={handleCommentReport}
+              replies={replies}
+              expandedReplyIds={expandedReplyIds}
+              loadingReplyIds={loadingReplyIds}
+              onToggleReplies={handleToggleReplies}
             />
           )}
         </div>
@@ -735,7 +567,7 @@ function PostModal({
                 </button>
                 <button
                   className="text-[var(--instagram-text-primary)] hover:opacity-70 transition-opacity"
-                  onClick={handleShare}
+                  onClick={() => setIsShareDialogOpen(true)}
                   aria-label="공유"
                   type="button"
                 >
@@ -774,6 +606,8 @@ function PostModal({
             onSubmit={handleCommentSubmit}
             placeholder="댓글 달기..."
             autoFocus={false}
+            replyTo={replyTo}
+            onCancelReply={() => setReplyTo(null)}
           />
         </div>
       </div>
@@ -813,15 +647,7 @@ function PostModal({
               href={user ? `/profile/${user.id}` : "#"}
               aria-label={`${user?.name || "사용자"} 프로필 보기`}
             >
-              <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden">
-                {user?.name ? (
-                  <span className="text-xs font-semibold text-gray-600" aria-hidden="true">
-                    {user.name.charAt(0).toUpperCase()}
-                  </span>
-                ) : (
-                  <div className="w-full h-full bg-gray-300" aria-hidden="true" />
-                )}
-              </div>
+              <UserAvatar user={user} size={32} />
             </Link>
             <Link
               href={user ? `/profile/${user.id}` : "#"}
@@ -838,30 +664,25 @@ function PostModal({
             isOwner={isOwner || false}
             onEdit={() => setIsEditModalOpen(true)}
             onDelete={() => setIsDeleteDialogOpen(true)}
+            onMute={supabaseUserId ? handleMuteAuthor : undefined}
+            onBlock={supabaseUserId ? handleBlockAuthor : undefined}
+            onReport={
+              supabaseUserId
+                ? () => setReportTarget({ targetType: "post", targetId: postId })
+                : undefined
+            }
           />
         </div>
 
-        {/* 미디어 */}
+        {/* 미디어 (다중 미디어는 캐러셀) */}
         <div className="relative w-full bg-black flex items-center justify-center">
-          {isVideo ? (
-            <video
-              src={post.image_url}
-              className="w-full h-auto max-h-[80vh] object-contain"
-              controls
-              playsInline
-              preload="metadata"
-            />
-          ) : (
-            <Image
-              src={post.image_url}
-              alt={post.caption || "게시물 이미지"}
-              width={768}
-              height={768}
-              className="w-full h-auto max-h-[80vh] object-contain"
-              sizes="100vw"
-              priority
-            />
-          )}
+          <MediaCarousel
+            media={media}
+            alt={post.caption || "게시물 이미지"}
+            priority
+            sizes="100vw"
+            variant="medium"
+          />
         </div>
 
         {/* 액션 버튼 및 좋아요 수 */}
@@ -922,7 +743,11 @@ function PostModal({
               >
                 {user?.name || "Unknown"}
               </Link>
-              <span className="whitespace-pre-wrap">{post.caption}</span>
+              <LinkedText
+                text={post.caption}
+                mentions={post.mentions}
+                className="whitespace-pre-wrap"
+              />
             </div>
           )}
         </div>
@@ -940,10 +765,16 @@ function PostModal({
           ) : (
             <CommentList
               comments={comments}
-              postId={postId}
               currentUserId={supabaseUserId}
               showAll={true}
               onDelete={handleCommentDelete}
+              onLike={handleCommentLike}
+              onReply={handleReply}
+              onReport={handleCommentReport}
+              replies={replies}
+              expandedReplyIds={expandedReplyIds}
+              loadingReplyIds={loadingReplyIds}
+              onToggleReplies={handleToggleReplies}
             />
           )}
         </div>
@@ -956,6 +787,8 @@ function PostModal({
           onSubmit={handleCommentSubmit}
           placeholder="댓글 달기..."
           autoFocus={false}
+          replyTo={replyTo}
+          onCancelReply={() => setReplyTo(null)}
         />
       </div>
     </div>
@@ -1019,8 +852,8 @@ function PostModal({
           onOpenChange={setIsEditModalOpen}
           post={post}
           onSuccess={(updatedPost) => {
-            // 모달 내부의 post 상태 먼저 업데이트
-            setPost(updatedPost);
+            // 캐시된 게시물 먼저 업데이트 (피드의 PostCard에도 반영됨)
+            updatePost(updatedPost);
             // 게시물 업데이트 콜백 호출 (PostFeed의 handlePostUpdate로 전달되어 PostCard도 업데이트됨)
             onPostUpdate?.(post.id, updatedPost);
           }}
@@ -1039,6 +872,25 @@ function PostModal({
           }}
         />
       )}
+
+      {/* 신고 다이얼로그 (게시물/댓글) */}
+      {reportTarget && (
+        <ReportDialog
+          open={!!reportTarget}
+          onOpenChange={(open) => {
+            if (!open) setReportTarget(null);
+          }}
+          targetType={reportTarget.targetType}
+          targetId={reportTarget.targetId}
+        />
+      )}
+
+      {/* 공유 다이얼로그 */}
+      <SharePostDialog
+        open={isShareDialogOpen}
+        onOpenChange={setIsShareDialogOpen}
+        postId={postId}
+      />
     </>
   );
 }
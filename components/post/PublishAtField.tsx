@@ -0,0 +1,65 @@
+/**
+ * @file components/post/PublishAtField.tsx
+ * @description 예약 게시 시각 입력 컴포넌트
+ *
+ * 게시물 작성/수정 모달에서 공개 시각을 예약합니다.
+ * 값이 비어 있으면 즉시 공개됩니다.
+ *
+ * 주요 기능:
+ * 1. 예약 사용 체크박스 (해제 시 즉시 공개)
+ * 2. 날짜/시간 선택 (현재 이후 ~ 최대 MAX_SCHEDULE_DAYS일 후, 현지 시간)
+ *
+ * @see lib/post-publishing.ts
+ */
+
+"use client";
+
+import { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { MAX_SCHEDULE_DAYS } from "@/lib/post-media";
+import { toDateTimeLocalValue } from "@/lib/utils";
+
+interface PublishAtFieldProps {
+  value: string; // datetime-local 값 ("" = 즉시 공개)
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+// 예약 사용 시 기본값 (1시간 후)
+const DEFAULT_DELAY_MS = 60 * 60 * 1000;
+
+export default function PublishAtField({ value, onChange, disabled }: PublishAtFieldProps) {
+  const id = useId();
+  const now = Date.now();
+  const min = toDateTimeLocalValue(new Date(now));
+  const max = toDateTimeLocalValue(new Date(now + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000));
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium text-[var(--instagram-text-primary)]">
+        <input
+          type="checkbox"
+          checked={!!value}
+          onChange={(e) =>
+            onChange(e.target.checked ? toDateTimeLocalValue(new Date(now + DEFAULT_DELAY_MS)) : "")
+          }
+          disabled={disabled}
+          aria-controls={id}
+        />
+        예약 게시
+      </label>
+      {value && (
+        <Input
+          id={id}
+          type="datetime-local"
+          value={value}
+          min={min}
+          max={max}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          aria-label="게시 시각"
+        />
+      )}
+    </div>
+  );
+}
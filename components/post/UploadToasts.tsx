@@ -0,0 +1,163 @@
+/**
+ * @file components/post/UploadToasts.tsx
+ * @description 업로드 진행률 알림 컴포넌트
+ *
+ * 게시물/스토리 업로드를 화면 하단에 알림(토스트)으로 표시합니다.
+ * 작성 모달을 닫아도 업로드가 끝날 때까지 진행률을 보여줍니다.
+ *
+ * 주요 기능:
+ * 1. 진행률 막대 및 퍼센트 표시 (전체 미디어 바이트 기준)
+ * 2. 일시정지/재개, 취소 (업로드된 파일 정리)
+ * 3. 실패 시 에러 메시지와 다시 시도 (완료된 부분부터 이어서 업로드)
+ * 4. 완료 알림 (잠시 후 자동으로 닫힘, 임시 저장/예약 게시물은 별도 문구)
+ *
+ * @see components/providers/upload-provider.tsx
+ */
+
+"use client";
+
+import { CheckCircle2, Loader2, Pause, Play, RotateCw, X } from "lucide-react";
+import { useUploadQueue } from "@/hooks/use-upload-queue";
+import { cn } from "@/lib/utils";
+import type { UploadTask } from "@/components/providers/upload-provider";
+
+function getTaskLabel(task: UploadTask): string {
+  const target = task.kind === "story" ? "스토리" : "게시물";
+
+  switch (task.status) {
+    case "uploading":
+      return `${target} 업로드 중...`;
+    case "paused":
+      return `${target} 업로드 일시정지됨`;
+    case "saving":
+      return task.saveAs === "draft" ? "임시 저장 중..." : `${target} 공유 중...`;
+    case "done":
+      if (task.saveAs === "draft") return "임시 저장되었습니다.";
+      if (task.saveAs === "scheduled") return "게시물이 예약되었습니다.";
+      return task.kind === "story" ? "스토리가 공유되었습니다." : "게시물이 공유되었습니다.";
+    case "error":
+      return task.error || `${target} 업로드에 실패했습니다.`;
+  }
+}
+
+export default function UploadToasts() {
+  const { tasks, pauseUpload, resumeUpload, retryUpload, cancelUpload, dismissUpload } =
+    useUploadQueue();
+
+  if (tasks.length === 0) return null;
+
+  return (
+    <div
+      className="fixed z-50 right-4 bottom-[66px] md:bottom-4 flex flex-col gap-2 w-[calc(100%-2rem)] max-w-sm"
+      aria-live="polite"
+    >
+      {tasks.map((task) => {
+        const percent = Math.round(task.progress * 100);
+        const isActive = task.status === "uploading" || task.status === "paused";
+
+        return (
+          <div
+            key={task.id}
+            className="rounded-lg bg-[var(--instagram-card-background)] border border-[var(--instagram-border)] shadow-lg px-4 py-3"
+            role={task.status === "error" ? "alert" : "status"}
+          >
+            <div className="flex items-center gap-3">
+              {task.status === "done" ? (
+                <CheckCircle2 className="w-5 h-5 shrink-0 text-green-500" aria-hidden="true" />
+              ) : task.status === "saving" ? (
+                <Loader2
+                  className="w-5 h-5 shrink-0 animate-spin text-[var(--instagram-text-secondary)]"
+                  aria-hidden="true"
+                />
+              ) : null}
+
+              <p
+                className={cn(
+                  "flex-1 min-w-0 text-sm truncate",
+                  task.status === "error"
+                    ? "text-red-600"
+                    : "text-[var(--instagram-text-primary)]"
+                )}
+              >
+                {getTaskLabel(task)}
+              </p>
+
+              {isActive && (
+                <span className="text-xs tabular-nums text-[var(--instagram-text-secondary)]">
+                  {percent}%
+                </span>
+              )}
+
+              {task.status === "uploading" && (
+                <button
+                  type="button"
+                  onClick={() => pauseUpload(task.id)}
+                  className="p-1 text-[var(--instagram-text-primary)] hover:opacity-60"
+                  aria-label="업로드 일시정지"
+                >
+                  <Pause className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
+              {task.status === "paused" && (
+                <button
+                  type="button"
+                  onClick={() => resumeUpload(task.id)}
+                  className="p-1 text-[var(--instagram-text-primary)] hover:opacity-60"
+                  aria-label="업로드 재개"
+                >
+                  <Play className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
+              {task.status === "error" && (
+                <button
+                  type="button"
+                  onClick={() => retryUpload(task.id)}
+                  className="p-1 text-[var(--instagram-blue)] hover:opacity-60"
+                  aria-label="다시 시도"
+                >
+                  <RotateCw className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
+
+              {/* 공유 중(API 저장)에는 취소 불가 */}
+              {task.status !== "saving" && (
+                <button
+                  type="button"
+                  onClick={() =>
+                    task.status === "done" ? dismissUpload(task.id) : cancelUpload(task.id)
+                  }
+                  className="p-1 text-[var(--instagram-text-secondary)] hover:opacity-60"
+                  aria-label={task.status === "done" ? "알림 닫기" : "업로드 취소"}
+                >
+                  <X className="w-4 h-4" aria-hidden="true" />
+                </button>
+              )}
+            </div>
+
+            {/* 진행률 막대 */}
+            {isActive && (
+              <div
+                className="mt-2 h-1 rounded-full bg-[var(--instagram-border)] overflow-hidden"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+                aria-label="업로드 진행률"
+              >
+                <div
+                  className={cn(
+                    "h-full rounded-full transition-[width] duration-200",
+                    task.status === "paused"
+                      ? "bg-[var(--instagram-text-secondary)]"
+                      : "bg-[var(--instagram-blue)]"
+                  )}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+/**
+ * @file components/profile/EditProfileDialog.tsx
+ * @description 프로필 편집 다이얼로그 컴포넌트
+ *
+ * Instagram 스타일의 프로필 편집 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 프로필 사진 변경/삭제 (avatars 버킷에 클라이언트에서 직접 업로드)
+ * 2. 이름, 사용자 이름, 소개(150자), 웹사이트 수정
+ * 3. 비공개 계정 설정 (공개로 전환 시 대기 중인 팔로우 요청 자동 승인)
+ * 4. PATCH /api/users/[userId]로 저장 (사용자 이름 중복 시 에러 표시)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import UserAvatar from "./UserAvatar";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { cn } from "@/lib/utils";
+import {
+  AVATAR_BUCKET,
+  MAX_BIO_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_WEBSITE_LENGTH,
+  validateUsername,
+} from "@/lib/profile";
+import type { User } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+interface EditProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: User;
+  onSuccess?: (updatedUser: User) => void;
+}
+
+const AVATAR_TYPES = ["image/jpeg", "image/png", "image/webp"];
+const MAX_AVATAR_SIZE_MB = 5;
+
+export default function EditProfileDialog({
+  open,
+  onOpenChange,
+  user,
+  onSuccess,
+}: EditProfileDialogProps) {
+  const supabase = useClerkSupabaseClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState(user.name);
+  const [username, setUsername] = useState(user.username || "");
+  const [bio, setBio] = useState(user.bio || "");
+  const [website, setWebsite] = useState(user.website || "");
+  const [isPrivate, setIsPrivate] = useState(!!user.is_private);
+  const [avatarFile, setAvatarFile] = useState<File | null>(null);
+  const [avatarPreview, setAvatarPreview] = useState<string | null>(
+    user.avatar_url || null
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // 다이얼로그가 열릴 때마다 현재 프로필 데이터로 초기화
+  useEffect(() => {
+    if (open) {
+      setName(user.name);
+      setUsername(user.username || "");
+      setBio(user.bio || "");
+      setWebsite(user.website || "");
+      setIsPrivate(!!user.is_private);
+      setAvatarFile(null);
+      setAvatarPreview(user.avatar_url || null);
+      setError(null);
+    }
+  }, [
+    open,
+    user.name,
+    user.username,
+    user.bio,
+    user.website,
+    user.is_private,
+    user.avatar_url,
+  ]);
+
+  // 미리보기 Object URL 정리
+  useEffect(() => {
+    return () => {
+      if (avatarPreview?.startsWith("blob:")) {
+        URL.revokeObjectURL(avatarPreview);
+      }
+    };
+  }, [avatarPreview]);
+
+  // 프로필 사진 선택 핸들러
+  const handleAvatarChange = useCallback(
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ""; // 같은 파일 재선택 허용
+      if (!file) return;
+
+      if (!AVATAR_TYPES.includes(file.type)) {
+        setError("JPEG, PNG, WebP 이미지만 업로드할 수 있습니다.");
+        return;
+      }
+      if (file.size > MAX_AVATAR_SIZE_MB * 1024 * 1024) {
+        setError(`파일 크기는 ${MAX_AVATAR_SIZE_MB}MB 이하여야 합니다.`);
+        return;
+      }
+
+      setError(null);
+      setAvatarFile(file);
+      setAvatarPreview(URL.createObjectURL(file));
+    },
+    []
+  );
+
+  // 프로필 사진 삭제 핸들러
+  const handleAvatarRemove = useCallback(() => {
+    setAvatarFile(null);
+    setAvatarPreview(null);
+  }, []);
+
+  // 저장 핸들러
+  const handleSave = useCallback(async () => {
+    const trimmedName = name.trim();
+    const trimmedUsername = username.trim().toLowerCase();
+
+    if (!trimmedName) {
+      setError("이름을 입력해주세요.");
+      return;
+    }
+    if (trimmedUsername) {
+      const usernameError = validateUsername(trimmedUsername);
+      if (usernameError) {
+        setError(usernameError);
+        return;
+      }
+    }
+
+    setSaving(true);
+    setError(null);
+
+    let uploadedPath: string | null = null;
+
+    try {
+      // 1. 새 프로필 사진이 있으면 Storage에 업로드
+      let avatarUrl: string | null | undefined;
+      if (avatarFile) {
+        const fileExt = avatarFile.name.split(".").pop() || "jpg";
+        const fileName = `${user.clerk_id}/${Date.now()}.${fileExt}`;
+
+        const { error: uploadError } = await supabase.storage
+          .from(AVATAR_BUCKET)
+          .upload(fileName, avatarFile, {
+            contentType: avatarFile.type,
+            cacheControl: "3600",
+            upsert: false,
+          });
+
+        if (uploadError) {
+          console.error("Avatar upload error:", uploadError);
+          throw new Error("프로필 사진 업로드에 실패했습니다. 잠시 후 다시 시도해주세요.");
+        }
+
+        uploadedPath = fileName;
+        const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+        avatarUrl = `${supabaseUrl}/storage/v1/object/public/${AVATAR_BUCKET}/${fileName}`;
+      } else if (!avatarPreview && user.avatar_url) {
+        avatarUrl = null; // 기존 사진 삭제
+      }
+
+      // 2. API를 호출하여 프로필 저장
+      const updatedUser = await api.users.update(user.clerk_id, {
+        name: trimmedName,
+        username: trimmedUsername || null,
+        bio: bio.trim() || null,
+        website: website.trim() || null,
+        is_private: isPrivate,
+        ...(avatarUrl !== undefined && { avatar_url: avatarUrl }),
+      });
+      uploadedPath = null;
+
+      onSuccess?.(updatedUser);
+      onOpenChange(false);
+    } catch (err) {
+      console.error("Update profile error:", err);
+      setError(getErrorMessage(err, "프로필 수정에 실패했습니다. 다시 시도해주세요."));
+
+      // 저장 실패 시 업로드한 사진 정리
+      if (uploadedPath) {
+        await supabase.storage.from(AVATAR_BUCKET).remove([uploadedPath]);
+      }
+    } finally {
+      setSaving(false);
+    }
+  }, [
+    name,
+    username,
+    bio,
+    website,
+    isPrivate,
+    avatarFile,
+    avatarPreview,
+    user.clerk_id,
+    user.avatar_url,
+    supabase,
+    onSuccess,
+    onOpenChange,
+  ]);
+
+  // 다이얼로그 닫기 핸들러
+  const handleClose = useCallback(() => {
+    if (saving) return; // 저장 중에는 닫기 불가
+    onOpenChange(false);
+  }, [saving, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-center text-lg font-semibold">
+            프로필 편집
+          </DialogTitle>
+          <DialogDescription className="sr-only">
+            프로필 사진, 이름, 사용자 이름, 소개, 웹사이트를 수정하세요.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          {/* 프로필 사진 */}
+          <div className="flex items-center gap-4">
+            <UserAvatar
+              user={{ name, avatar_url: avatarPreview }}
+              size={56}
+            />
+            <div className="flex flex-col items-start gap-1">
+              <span className="text-sm font-semibold text-[var(--instagram-text-primary)]">
+                {user.username || user.name}
+              </span>
+              <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={saving}
+                  className="text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70 disabled:opacity-50"
+                >
+                  사진 변경
+                </button>
+                {avatarPreview && (
+                  <button
+                    type="button"
+                    onClick={handleAvatarRemove}
+                    disabled={saving}
+                    className="text-sm font-semibold text-red-500 hover:opacity-70 disabled:opacity-50"
+                  >
+                    현재 사진 삭제
+                  </button>
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={AVATAR_TYPES.join(",")}
+                onChange={handleAvatarChange}
+                className="hidden"
+                aria-label="프로필 사진 선택"
+              />
+            </div>
+          </div>
+
+          {/* 이름 입력 */}
+          <div className="space-y-2">
+            <label
+              htmlFor="edit-profile-name"
+              className="text-sm font-medium text-[var(--instagram-text-primary)]"
+            >
+              이름
+            </label>
+            <Input
+              id="edit-profile-name"
+              placeholder="이름"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={MAX_NAME_LENGTH}
+              className="text-base"
+            />
+          </div>
+
+          {/* 사용자 이름 입력 */}
+          <div className="space-y-2">
+            <label
+              htmlFor="edit-profile-username"
+              className="text-sm font-medium text-[var(--instagram-text-primary)]"
+            >
+              사용자 이름
+            </label>
+            <Input
+              id="edit-profile-username"
+              placeholder="영문 소문자, 숫자, 마침표, 밑줄 (3~30자)"
+              value={username}
+              onChange={(e) => setUsername(e.target.value.toLowerCase())}
+              maxLength={30}
+              autoCapitalize="none"
+              autoComplete="off"
+              className="text-base"
+            />
+          </div>
+
+          {/* 소개 입력 */}
+          <div className="space-y-2">
+            <label
+              htmlFor="edit-profile-bio"
+              className="text-sm font-medium text-[var(--instagram-text-primary)]"
+            >
+              소개
+            </label>
+            <Textarea
+              id="edit-profile-bio"
+              placeholder="소개"
+              value={bio}
+              onChange={(e) => {
+                const value = e.target.value;
+                if (value.length <= MAX_BIO_LENGTH) {
+                  setBio(value);
+                }
+              }}
+              className="min-h-[80px] resize-none"
+              maxLength={MAX_BIO_LENGTH}
+              aria-describedby="edit-profile-bio-length"
+            />
+            <div className="flex justify-end">
+              <span
+                id="edit-profile-bio-length"
+                className={cn(
+                  "text-xs text-[var(--instagram-text-secondary)]",
+                  bio.length >= MAX_BIO_LENGTH && "text-red-500"
+                )}
+                aria-live="polite"
+              >
+                {bio.length} / {MAX_BIO_LENGTH}
+              </span>
+            </div>
+          </div>
+
+          {/* 웹사이트 입력 */}
+          <div className="space-y-2">
+            <label
+              htmlFor="edit-profile-website"
+              className="text-sm font-medium text-[var(--instagram-text-primary)]"
+            >
+              웹사이트
+            </label>
+            <Input
+              id="edit-profile-website"
+              type="url"
+              placeholder="https://example.com"
+              value={website}
+              onChange={(e) => setWebsite(e.target.value)}
+              maxLength={MAX_WEBSITE_LENGTH}
+              className="text-base"
+            />
+          </div>
+
+          {/* 비공개 계정 설정 */}
+          <label
+            htmlFor="edit-profile-private"
+            className="flex items-start justify-between gap-4 cursor-pointer"
+          >
+            <span className="space-y-1">
+              <span className="block text-sm font-medium text-[var(--instagram-text-primary)]">
+                비공개 계정
+              </span>
+              <span className="block text-xs text-[var(--instagram-text-secondary)]">
+                승인한 팔로워만 회원님의 사진과 동영상을 볼 수 있습니다.
+              </span>
+            </span>
+            <input
+              id="edit-profile-private"
+              type="checkbox"
+              checked={isPrivate}
+              onChange={(e) => setIsPrivate(e.target.checked)}
+              className="mt-1 w-4 h-4 accent-[var(--instagram-blue)]"
+            />
+          </label>
+
+          {/* 에러 메시지 */}
+          {error && (
+            <div
+              className="px-4 py-3 bg-red-50 border border-red-200 rounded-md"
+              role="alert"
+            >
+              <p className="text-sm text-red-600">{error}</p>
+            </div>
+          )}
+
+          {/* 버튼 */}
+          <div className="flex justify-end gap-2 pt-2">
+            <Button onClick={handleClose} variant="outline" disabled={saving}>
+              취소
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving}
+              className="bg-[var(--instagram-blue)] hover:bg-[var(--instagram-blue)]/90 text-white disabled:opacity-50"
+            >
+              {saving ? (
+                <>
+                  <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                  저장 중...
+                </>
+              ) : (
+                "저장"
+              )}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,8 @@
  * Instagram 스타일의 팔로우/팔로잉 버튼입니다.
  * - 미팔로우: "팔로우" 버튼 (파란색)
  * - 팔로우 중: "팔로잉" 버튼 (회색)
- * - Hover 시: "언팔로우" (빨간 테두리)
+ * - 요청 대기 중 (비공개 계정): "요청됨" 버튼 (회색)
+ * - Hover 시: "언팔로우" / "요청 취소" (빨간 테두리)
  *
  * @see docs/PRD.md
  */
@@ -15,82 +16,50 @@
 import { useState, useCallback, memo } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
+import { getErrorMessage } from "@/lib/api-client";
+import { useFollow } from "@/hooks/use-follow";
 
 interface FollowButtonProps {
   followingId: string; // Supabase user ID
   initialIsFollowing: boolean;
-  onFollowChange?: (isFollowing: boolean) => void; // 팔로우 상태 변경 콜백
+  initialIsRequested?: boolean; // 비공개 계정에 팔로우 요청 대기 중
+  onFollowChange?: (isFollowing: boolean) => void; // 팔로우 상태 변경 콜백 (요청 상태 변경 시에는 호출 안 함)
   className?: string;
 }
 
 function FollowButton({
   followingId,
   initialIsFollowing,
+  initialIsRequested = false,
   onFollowChange,
   className,
 }: FollowButtonProps) {
-  const [isFollowing, setIsFollowing] = useState(initialIsFollowing);
-  const [isLoading, setIsLoading] = useState(false);
+  const { status, isPending: isLoading, toggleFollow } = useFollow(
+    followingId,
+    initialIsFollowing ? "following" : initialIsRequested ? "requested" : "none"
+  );
   const [isHovering, setIsHovering] = useState(false);
+  const isFollowing = status === "following";
 
   const handleFollow = useCallback(async () => {
     if (isLoading) return;
 
-    setIsLoading(true);
-    const previousState = isFollowing;
+    const previousStatus = status;
 
     try {
-      if (isFollowing) {
-        // 팔로우 취소
-        const response = await fetch(
-          `/api/follows?followingId=${followingId}`,
-          {
-            method: "DELETE",
-          }
-        );
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "팔로우 취소에 실패했습니다.");
-        }
-
-        setIsFollowing(false);
-        onFollowChange?.(false);
-      } else {
-        // 팔로우 추가
-        const response = await fetch("/api/follows", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({ followingId }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          throw new Error(errorData.error || "팔로우에 실패했습니다.");
-        }
-
-        setIsFollowing(true);
+      // 팔로우 중/요청 중이면 취소, 아니면 팔로우 (비공개 계정이면 요청 상태)
+      const nextStatus = await toggleFollow();
+      if (nextStatus === "following") {
         onFollowChange?.(true);
+      } else if (previousStatus === "following" && nextStatus === "none") {
+        onFollowChange?.(false);
       }
     } catch (error) {
+      // 실패 시 상태는 변경되지 않음
       console.error("Follow action error:", error);
-      // 에러 발생 시 이전 상태로 롤백
-      setIsFollowing(previousState);
-      
-      let errorMessage = "작업에 실패했습니다.";
-      if (error instanceof TypeError && error.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (error instanceof Error) {
-        errorMessage = error.message;
-      }
-      
-      alert(errorMessage);
-    } finally {
-      setIsLoading(false);
+      alert(getErrorMessage(error, "작업에 실패했습니다."));
     }
-  }, [isFollowing, followingId, onFollowChange]);
+  }, [isLoading, status, toggleFollow, onFollowChange]);
 
   // 버튼 텍스트 결정
   const getButtonText = () => {
@@ -105,17 +74,21 @@ function FollowButton({
       return "팔로잉";
     }
 
+    if (status === "requested") {
+      return isHovering ? "요청 취소" : "요청됨";
+    }
+
     return "팔로우";
   };
 
   // 버튼 스타일 결정
   const getButtonStyle = () => {
-    if (isFollowing) {
+    if (status !== "none") {
       if (isHovering) {
         // Hover 시: 빨간 테두리
         return "bg-white border-red-500 text-red-500 hover:bg-red-50";
       }
-      // 팔로잉: 회색 테두리
+      // 팔로잉 / 요청됨: 회색 테두리
       return "bg-white border-gray-300 text-gray-900 hover:bg-gray-50";
     }
     // 팔로우: 파란색 배경
@@ -134,7 +107,15 @@ function FollowButton({
         getButtonStyle(),
         className
       )}
-      aria-label={isLoading ? "처리 중" : isFollowing ? (isHovering ? "언팔로우" : "팔로잉 중") : "팔로우"}
+      aria-label={
+        isLoading
+          ? "처리 중"
+          : isFollowing
+            ? (isHovering ? "언팔로우" : "팔로잉 중")
+            : status === "requested"
+              ? (isHovering ? "팔로우 요청 취소" : "팔로우 요청됨")
+              : "팔로우"
+      }
       aria-busy={isLoading}
     >
       {getButtonText()}
@@ -4,91 +4,187 @@
  *
  * Instagram 스타일의 3열 그리드 레이아웃으로 게시물을 표시합니다.
  * - 3열 그리드 (반응형)
- * - 1:1 정사각형 썸네일
+ * - 1:1 정사각형 썸네일 (첫 번째 미디어의 thumbnail 변형)
  * - Hover 시 좋아요/댓글 수 오버레이 표시
+ * - 동영상 게시물은 포스터 썸네일과 우측 상단에 동영상 아이콘/재생 길이 표시
+ * - 다중 미디어 게시물은 우측 상단에 배지 표시
  * - 클릭 시 게시물 상세 모달 열기
+ * - 하단 도달 시 nextCursor로 다음 페이지 로드 (무한 스크롤)
+ * - 비공개 계정은 팔로워가 아니면 게시물 대신 안내 문구 표시
+ * - tag 지정 시 해시태그 게시물 표시 (/api/tags/[tag], 인기순/최신순)
+ * - unpublished 지정 시 본인의 임시 저장/예약 게시물 표시 (/api/posts/drafts, 클릭 시 수정 모달)
  *
  * @see docs/PRD.md
  */
 
 "use client";
 
-import { useState, useEffect, useCallback, useMemo, memo } from "react";
+import { useState, useEffect, useCallback, useMemo, useRef, memo } from "react";
 import Image from "next/image";
-import { Heart, MessageCircle } from "lucide-react";
-import type { PostWithStats } from "@/lib/types";
+import { Heart, MessageCircle, Copy, Lock, Play, Clock, FileText } from "lucide-react";
+import type { HashtagSort, PostWithStats } from "@/lib/types";
 import PostModal from "@/components/post/PostModal";
+import EditPostModal from "@/components/post/EditPostModal";
+import { getMediaVariantUrl, getPostMedia, getVideoPosterUrl } from "@/lib/post-media";
+import { formatDuration, formatScheduledTime } from "@/lib/utils";
 import type { User } from "@/lib/types";
+import { ApiError } from "@/lib/api-errors";
+import { api, getErrorMessage } from "@/lib/api-client";
+import { cachePosts } from "@/lib/api-cache";
+import { usePost } from "@/hooks/use-post";
 
 interface PostGridProps {
-  userId: string; // Supabase user ID
+  userId?: string; // Supabase user ID (프로필 게시물)
+  tag?: string; // 해시태그 ("#" 제외, userId 대신 지정)
+  sort?: HashtagSort; // 해시태그 게시물 정렬 (기본값: recent)
+  isLocked?: boolean; // 비공개 계정이고 팔로워가 아닌 경우 (게시물 조회 안 함)
+  unpublished?: "draft" | "scheduled"; // 본인의 임시 저장/예약 게시물 (userId, tag 대신 지정)
   onPostClick?: (postId: string) => void;
 }
 
-interface PostsResponse {
-  posts: PostWithStats[];
-  users: User[];
-  hasMore: boolean;
+const PAGE_SIZE = 24; // 3열 그리드에 맞춰 3의 배수
+
+/**
+ * Hover 오버레이 (좋아요/댓글 수)
+ *
+ * 모달에서 좋아요/댓글을 남기면 바로 반영되도록 공유 캐시의 게시물 카운트를 표시합니다.
+ */
+function PostCounts({ post: initialPost }: { post: PostWithStats }) {
+  const { post } = usePost(initialPost.id, {
+    post: initialPost,
+    enabled: false,
+  });
+
+  return (
+    <div className="absolute inset-0 bg-black/40 flex items-center justify-center gap-6 text-white transition-opacity opacity-0 md:group-hover:opacity-100">
+      <div className="flex items-center gap-1">
+        <Heart className="w-6 h-6 fill-current" />
+        <span className="font-semibold">
+          {post.likes_count.toLocaleString()}
+        </span>
+      </div>
+      <div className="flex items-center gap-1">
+        <MessageCircle className="w-6 h-6 fill-current" />
+        <span className="font-semibold">
+          {post.comments_count.toLocaleString()}
+        </span>
+      </div>
+    </div>
+  );
 }
 
-function PostGrid({ userId, onPostClick }: PostGridProps) {
+function PostGrid({
+  userId,
+  tag,
+  sort = "recent",
+  isLocked = false,
+  unpublished,
+  onPostClick,
+}: PostGridProps) {
   const [posts, setPosts] = useState<PostWithStats[]>([]);
   const [users, setUsers] = useState<Map<string, User>>(new Map());
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(!isLocked);
+  const [isPrivate, setIsPrivate] = useState(isLocked);
   const [error, setError] = useState<string | null>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const loadingRef = useRef(false);
 
   // 모달 상태 관리
-  const [selectedPostId, setSelectedPostId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedPost, setSelectedPost] = useState<PostWithStats | null>(null);
   const [selectedUser, setSelectedUser] = useState<User | undefined>();
 
   // 게시물 로드 함수
-  const loadPosts = useCallback(async () => {
+  const loadPosts = useCallback(async (currentCursor: string | null) => {
+    if (loadingRef.current) return;
+
+    loadingRef.current = true;
+    setLoading(true);
+
     try {
       setError(null);
-      const params = new URLSearchParams({
-        limit: "100", // 프로필 페이지는 게시물 수가 제한적이므로 충분히 큰 값
-        offset: "0",
-        userId: userId,
-      });
-
-      const response = await fetch(`/api/posts?${params.toString()}`);
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(errorData.error || "게시물을 불러오는데 실패했습니다.");
-      }
+      const page = { limit: PAGE_SIZE, cursor: currentCursor };
+      const data = unpublished
+        ? await api.posts.drafts({ ...page, type: unpublished })
+        : tag
+          ? await api.tags.posts(tag, { ...page, sort })
+          : await api.posts.list({ ...page, userId });
 
-      const data: PostsResponse = await response.json();
+      // 모달/피드와 공유하는 캐시에 최신 게시물 반영
+      cachePosts(data.posts || [], data.users);
 
-      setPosts(data.posts || []);
+      const newPosts = data.posts || [];
+      if (currentCursor) {
+        setPosts((prev) => {
+          // 이미 표시 중인 게시물은 제외 (중복 방지)
+          const existingIds = new Set(prev.map((p) => p.id));
+          return [...prev, ...newPosts.filter((p) => !existingIds.has(p.id))];
+        });
+      } else {
+        setPosts(newPosts);
+      }
+      setCursor(data.nextCursor ?? null);
+      setHasMore(data.hasMore && !!data.nextCursor);
 
-      // 사용자 정보 맵 생성
+      // 사용자 정보 맵 업데이트
       if (data.users) {
-        const userMap = new Map(
-          data.users.map((user) => [user.id, user])
-        );
-        setUsers(userMap);
+        setUsers((prev) => {
+          const userMap = new Map(currentCursor ? prev : []);
+          data.users.forEach((user) => userMap.set(user.id, user));
+          return userMap;
+        });
       }
     } catch (err) {
-      console.error("Load posts error:", err);
-      let errorMessage = "게시물을 불러오는데 실패했습니다.";
-      
-      if (err instanceof TypeError && err.message === "Failed to fetch") {
-        errorMessage = "인터넷 연결을 확인해주세요.";
-      } else if (err instanceof Error) {
-        errorMessage = err.message;
+      if (err instanceof ApiError && err.code === "PRIVATE_ACCOUNT") {
+        // 비공개 계정 (팔로우가 취소된 경우 등)
+        setIsPrivate(true);
+        setPosts([]);
+        setHasMore(false);
+        return;
       }
-      
-      setError(errorMessage);
+      console.error("Load posts error:", err);
+      setError(getErrorMessage(err, "게시물을 불러오는데 실패했습니다."));
     } finally {
       setLoading(false);
+      loadingRef.current = false;
     }
-  }, [userId]);
+  }, [userId, tag, sort, unpublished]);
+
+  // 초기 로드 (비공개 계정이면 조회하지 않음)
+  useEffect(() => {
+    setIsPrivate(isLocked);
+    if (isLocked) return;
+    loadPosts(null);
+  }, [isLocked, loadPosts]);
 
-  // 초기 로드
+  // Intersection Observer 설정 (다음 페이지 로드)
   useEffect(() => {
-    loadPosts();
+    if (!sentinelRef.current || !hasMore || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting && hasMore && !loading) {
+          loadPosts(cursor);
+        }
+      },
+      {
+        rootMargin: "100px",
+      }
+    );
+
+    observer.observe(sentinelRef.current);
+
+    return () => {
+      observer.disconnect();
+    };
+  }, [hasMore, loading, cursor, loadPosts]);
+
+  // 공개 전 게시물 수정/공유/삭제 후 목록 새로고침
+  const handleUnpublishedChange = useCallback(() => {
+    setSelectedPost(null);
+    loadPosts(null);
   }, [loadPosts]);
 
   // 게시물 클릭 핸들러
@@ -96,24 +192,21 @@ function PostGrid({ userId, onPostClick }: PostGridProps) {
     (post: PostWithStats) => {
       setSelectedPost(post);
       setSelectedUser(users.get(post.user_id));
-      setSelectedPostId(post.id);
       setIsModalOpen(true);
       onPostClick?.(post.id);
     },
     [users, onPostClick]
   );
 
-  // 모달 닫기 핸들러
-  const handleModalClose = useCallback(() => {
-    setIsModalOpen(false);
-    setSelectedPostId(null);
-    setSelectedPost(null);
-    setSelectedUser(undefined);
-  }, []);
-
   // 게시물 그리드 메모이제이션 (조건부 return 전에 호출)
   const postGridItems = useMemo(() => {
     return posts.map((post) => {
+      const firstMedia = getPostMedia(post)[0];
+      const isVideo = firstMedia.media_type === "video";
+      const thumbnailUrl = isVideo
+        ? getVideoPosterUrl(firstMedia, "thumbnail")
+        : getMediaVariantUrl(firstMedia, "thumbnail");
+
       return (
                 <div
                   key={post.id}
@@ -127,44 +220,121 @@ function PostGrid({ userId, onPostClick }: PostGridProps) {
                       handlePostClick(post);
                     }
                   }}
-                  aria-label={`게시물 보기: ${post.caption || "이미지"}`}
+                  aria-label={`${unpublished ? "게시물 수정" : "게시물 보기"}: ${post.caption || "이미지"}`}
                 >
-                  {/* 이미지 */}
-                  <Image
-                    src={post.image_url}
-                    alt={post.caption || "게시물 이미지"}
-                    fill
-                    className="object-cover"
-                    sizes="(max-width: 768px) 33vw, 33vw"
-                    loading="lazy"
-                  />
-
-                  {/* Hover 오버레이 (Desktop/Tablet만) */}
-                  <div className="absolute inset-0 bg-black/40 flex items-center justify-center gap-6 text-white transition-opacity opacity-0 md:group-hover:opacity-100">
-                    <div className="flex items-center gap-1">
-                      <Heart className="w-6 h-6 fill-current" />
-                      <span className="font-semibold">
-                        {post.likes_count.toLocaleString()}
-                      </span>
+                  {/* 썸네일 (포스터가 없는 동영상은 첫 프레임) */}
+                  {thumbnailUrl ? (
+                    <Image
+                      src={thumbnailUrl}
+                      alt={post.caption || "게시물 이미지"}
+                      fill
+                      className="object-cover"
+                      sizes="(max-width: 768px) 33vw, 33vw"
+                      loading="lazy"
+                    />
+                  ) : (
+                    <video
+                      src={firstMedia.media_url}
+                      className="absolute inset-0 w-full h-full object-cover"
+                      muted
+                      playsInline
+                      preload="metadata"
+                      aria-hidden="true"
+                    />
+                  )}
+
+                  {/* 동영상 배지 (재생 길이) / 다중 미디어 배지 */}
+                  {isVideo ? (
+                    <div
+                      className="absolute top-2 right-2 flex items-center gap-1 text-white text-xs font-semibold drop-shadow"
+                      aria-label={
+                        firstMedia.duration_seconds
+                          ? `동영상 ${formatDuration(firstMedia.duration_seconds)}`
+                          : "동영상"
+                      }
+                    >
+                      <Play className="w-4 h-4 fill-current" aria-hidden="true" />
+                      {!!firstMedia.duration_seconds && (
+                        <span aria-hidden="true">
+                          {formatDuration(firstMedia.duration_seconds)}
+                        </span>
+                      )}
                     </div>
-                    <div className="flex items-center gap-1">
-                      <MessageCircle className="w-6 h-6 fill-current" />
-                      <span className="font-semibold">
-                        {post.comments_count.toLocaleString()}
-                      </span>
+                  ) : post.media && post.media.length > 1 && (
+                    <div
+                      className="absolute top-2 right-2 text-white drop-shadow"
+                      aria-label={`미디어 ${post.media.length}개`}
+                    >
+                      <Copy className="w-5 h-5" aria-hidden="true" />
                     </div>
-                  </div>
+                  )}
+
+                  {/* 임시 저장/예약 배지 */}
+                  {unpublished && (
+                    <div className="absolute inset-x-0 bottom-0 flex items-center gap-1 px-2 py-1 bg-black/50 text-white text-xs">
+                      {post.publish_at ? (
+                        <>
+                          <Clock className="w-3.5 h-3.5 shrink-0" aria-hidden="true" />
+                          <span className="truncate">{formatScheduledTime(post.publish_at)}</span>
+                        </>
+                      ) : (
+                        <>
+                          <FileText className="w-3.5 h-3.5 shrink-0" aria-hidden="true" />
+                          <span className="truncate">임시 저장</span>
+                        </>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Hover 오버레이 (Desktop/Tablet만, 공개 전 게시물 제외) */}
+                  {!unpublished && <PostCounts post={post} />}
                 </div>
               );
     });
-  }, [posts, users, handlePostClick]);
+  }, [posts, unpublished, handlePostClick]);
+
+  // 비공개 계정
+  if (isPrivate) {
+    return (
+      <div className="flex flex-col items-center text-center py-16 border-t border-[var(--instagram-border)]">
+        <div className="w-16 h-16 rounded-full border-2 border-[var(--instagram-text-primary)] flex items-center justify-center mb-4">
+          <Lock className="w-7 h-7 text-[var(--instagram-text-primary)]" aria-hidden="true" />
+        </div>
+        <p className="font-semibold text-[var(--instagram-text-primary)]">
+          비공개 계정입니다
+        </p>
+        <p className="text-sm text-[var(--instagram-text-secondary)] mt-1">
+          사진 및 동영상을 보려면 팔로우하세요.
+        </p>
+      </div>
+    );
+  }
+
+  // 첫 페이지 로드 실패
+  if (error && posts.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-16 text-center">
+        <p className="text-[var(--instagram-text-secondary)] mb-4">{error}</p>
+        <button
+          onClick={() => loadPosts(null)}
+          className="px-4 py-2 bg-[var(--instagram-blue)] text-white rounded-lg hover:opacity-90 transition-opacity"
+        >
+          다시 시도
+        </button>
+      </div>
+    );
+  }
 
   // 게시물이 없는 경우
   if (posts.length === 0) {
     return (
       <div className="text-center py-16">
         <div className="text-[var(--instagram-text-secondary)] text-lg">
-          게시물이 없습니다.
+          {unpublished === "draft"
+            ? "임시 저장된 게시물이 없습니다."
+            : unpublished === "scheduled"
+              ? "예약된 게시물이 없습니다."
+              : "게시물이 없습니다."}
         </div>
       </div>
     );
@@ -177,8 +347,24 @@ function PostGrid({ userId, onPostClick }: PostGridProps) {
         {postGridItems}
       </div>
 
+      {/* 무한 스크롤 감지 요소 */}
+      {hasMore && !loading && (
+        <div ref={sentinelRef} className="h-4" aria-hidden="true" />
+      )}
+
+      {/* 공개 전 게시물 수정 모달 */}
+      {selectedPost && unpublished && (
+        <EditPostModal
+          post={selectedPost}
+          open={isModalOpen}
+          onOpenChange={setIsModalOpen}
+          onSuccess={handleUnpublishedChange}
+          onDelete={handleUnpublishedChange}
+        />
+      )}
+
       {/* 게시물 상세 모달 */}
-      {selectedPost && (
+      {selectedPost && !unpublished && (
         <PostModal
           postId={selectedPost.id}
           post={selectedPost}
@@ -4,24 +4,101 @@
  *
  * Instagram 스타일의 프로필 헤더입니다.
  * - 프로필 이미지 (150px Desktop / 90px Mobile)
- * - 사용자명
+ * - 이름, 사용자 이름(@username), 소개(링크 자동 변환), 웹사이트
  * - 통계 (게시물 수, 팔로워 수, 팔로잉 수)
- * - 팔로우/팔로잉 버튼 또는 프로필 편집 버튼
+ * - 팔로우/팔로잉/요청됨 버튼 및 메시지 버튼, 또는 프로필 편집 버튼
+ * - 비공개 계정 표시 (자물쇠 아이콘)
+ * - 다른 사람 프로필: 더보기 메뉴에서 신고/음소거/차단 (차단 중이면 "차단 해제" 버튼)
  *
  * @see docs/PRD.md
  */
 
 "use client";
 
-import { useState, useMemo, memo } from "react";
-import { useUser, SignOutButton } from "@clerk/nextjs";
-import { LogOut } from "lucide-react";
+import { useState, memo } from "react";
+import { useRouter } from "next/navigation";
+import { SignOutButton } from "@clerk/nextjs";
+import { LogOut, Link as LinkIcon, Lock, MoreHorizontal } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import FollowButton from "./FollowButton";
-import type { UserWithStats } from "@/lib/types";
+import UserAvatar from "./UserAvatar";
+import EditProfileDialog from "./EditProfileDialog";
+import ReportDialog from "@/components/report/ReportDialog";
+import { useUserModeration } from "@/hooks/use-user-moderation";
+import { formatWebsite } from "@/lib/profile";
+import { cn } from "@/lib/utils";
+import type { FollowStatus, User, UserWithStats } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+const URL_SPLIT_PATTERN = /(https?:\/\/[^\s]+)/g;
+
+/**
+ * 소개 텍스트의 URL을 링크로 변환
+ */
+function BioText({ bio }: { bio: string }) {
+  return (
+    <p className="text-sm text-[var(--instagram-text-primary)] whitespace-pre-wrap break-words">
+      {bio.split(URL_SPLIT_PATTERN).map((part, index) =>
+        /^https?:\/\//.test(part) ? (
+          <a
+            key={index}
+            href={part}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-[#00376b] font-semibold hover:underline"
+          >
+            {formatWebsite(part)}
+          </a>
+        ) : (
+          part
+        )
+      )}
+    </p>
+  );
+}
+
+/**
+ * 사용자 이름, 소개, 웹사이트 영역
+ */
+function ProfileDetails({ user }: { user: User }) {
+  if (!user.username && !user.bio && !user.website) return null;
+
+  return (
+    <div className="space-y-1">
+      {user.username && (
+        <p className="text-sm text-[var(--instagram-text-secondary)]">
+          @{user.username}
+        </p>
+      )}
+      {user.bio && <BioText bio={user.bio} />}
+      {user.website && (
+        <a
+          href={user.website}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="inline-flex items-center gap-1 text-sm font-semibold text-[#00376b] hover:underline"
+        >
+          <LinkIcon className="w-3 h-3" aria-hidden="true" />
+          {formatWebsite(user.website)}
+        </a>
+      )}
+    </div>
+  );
+}
 
 interface ProfileHeaderProps {
-  user: UserWithStats & { isFollowing: boolean };
+  user: UserWithStats & {
+    isFollowing: boolean;
+    followStatus?: FollowStatus;
+    isBlocking?: boolean; // 현재 사용자가 차단한 계정
+    isMuted?: boolean; // 현재 사용자가 음소거한 계정
+  };
   isOwnProfile: boolean;
   onFollowChange?: (isFollowing: boolean) => void; // 팔로우 상태 변경 시 통계 업데이트용
   onStatsUpdate?: (stats: { followers_count: number }) => void; // 통계 업데이트 콜백
@@ -33,13 +110,26 @@ function ProfileHeader({
   onFollowChange,
   onStatsUpdate,
 }: ProfileHeaderProps) {
-  const { user: clerkUser } = useUser();
+  const router = useRouter();
   const [user, setUser] = useState(initialUser);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isReportOpen, setIsReportOpen] = useState(false);
+  const [isStartingConversation, setIsStartingConversation] = useState(false);
+  const { blockUser, unblockUser, muteUser, unmuteUser, isProcessing } =
+    useUserModeration();
 
-  // 프로필 이미지 대신 이름 첫 글자로 아바타 표시
-  const avatarInitial = useMemo(() => {
-    return user.name.charAt(0).toUpperCase();
-  }, [user.name]);
+  // 프로필 수정 성공 시 헤더 정보 갱신
+  const handleProfileUpdate = (updatedUser: User) => {
+    setUser((prev) => ({
+      ...prev,
+      name: updatedUser.name,
+      username: updatedUser.username,
+      bio: updatedUser.bio,
+      website: updatedUser.website,
+      avatar_url: updatedUser.avatar_url,
+      is_private: updatedUser.is_private,
+    }));
+  };
 
   // 팔로우 상태 변경 핸들러 (통계 업데이트 포함)
   const handleFollowChange = (isFollowing: boolean) => {
@@ -60,36 +150,165 @@ function ProfileHeader({
       };
     });
     onFollowChange?.(isFollowing);
+
+    // 비공개 계정은 팔로우 상태에 따라 게시물 공개 여부가 바뀌므로 다시 렌더링
+    if (user.is_private) {
+      router.refresh();
+    }
   };
 
+  // 차단: 양방향 팔로우가 삭제되므로 팔로우 상태 초기화 후 다시 렌더링
+  const handleBlock = async () => {
+    if (!(await blockUser(user.id, user.name))) return;
+
+    setUser((prev) => ({
+      ...prev,
+      isBlocking: true,
+      isFollowing: false,
+      followStatus: "none",
+      followers_count: prev.isFollowing
+        ? Math.max(0, prev.followers_count - 1)
+        : prev.followers_count,
+    }));
+    router.refresh();
+  };
+
+  // 차단 해제
+  const handleUnblock = async () => {
+    if (!(await unblockUser(user.id))) return;
+
+    setUser((prev) => ({ ...prev, isBlocking: false }));
+    router.refresh();
+  };
+
+  // 음소거/음소거 해제 (피드에서만 제외되므로 프로필은 그대로)
+  const handleToggleMute = async () => {
+    const success = user.isMuted
+      ? await unmuteUser(user.id)
+      : await muteUser(user.id);
+    if (!success) return;
+
+    setUser((prev) => ({ ...prev, isMuted: !prev.isMuted }));
+  };
+
+  // 메시지 보내기: 1:1 대화방을 만들거나 기존 대화방으로 이동
+  const handleMessage = async () => {
+    if (isStartingConversation) return;
+
+    setIsStartingConversation(true);
+    try {
+      const data = await api.conversations.create({ userIds: [user.id] });
+      router.push(`/messages/${data.conversationId}`);
+    } catch (error) {
+      console.error("Start conversation error:", error);
+      alert(getErrorMessage(error, "대화방을 만들지 못했습니다."));
+      setIsStartingConversation(false);
+    }
+  };
+
+  // 다른 사람 프로필 버튼: 팔로우(차단 중이면 차단 해제) + 메시지 + 더보기 메뉴
+  const renderOtherProfileActions = (fullWidth: boolean) => (
+    <div className={cn("flex items-center gap-2", fullWidth && "w-full")}>
+      {user.isBlocking ? (
+        <Button
+          variant="outline"
+          onClick={handleUnblock}
+          disabled={isProcessing}
+          className={cn("font-semibold", fullWidth && "flex-1")}
+        >
+          차단 해제
+        </Button>
+      ) : (
+        <FollowButton
+          followingId={user.id}
+          initialIsFollowing={user.isFollowing}
+          initialIsRequested={user.followStatus === "requested"}
+          onFollowChange={handleFollowChange}
+          className={fullWidth ? "flex-1" : undefined}
+        />
+      )}
+
+      {!user.isBlocking && (
+        <Button
+          variant="secondary"
+          onClick={handleMessage}
+          disabled={isStartingConversation}
+          className={cn("font-semibold", fullWidth && "flex-1")}
+        >
+          메시지 보내기
+        </Button>
+      )}
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9 shrink-0 text-[var(--instagram-text-primary)]"
+            aria-label="더보기"
+            disabled={isProcessing}
+          >
+            <MoreHorizontal className="h-5 w-5" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuItem
+            onClick={() => setIsReportOpen(true)}
+            className="text-red-600 focus:text-red-600 focus:bg-red-50"
+          >
+            신고
+          </DropdownMenuItem>
+          {!user.isBlocking && (
+            <DropdownMenuItem
+              onClick={handleToggleMute}
+              className="focus:bg-gray-50"
+            >
+              {user.isMuted ? "음소거 해제" : "음소거"}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem
+            onClick={user.isBlocking ? handleUnblock : handleBlock}
+            className="text-red-600 focus:text-red-600 focus:bg-red-50"
+          >
+            {user.isBlocking ? "차단 해제" : "차단"}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+
   return (
     <div className="w-full">
       {/* Desktop 레이아웃 */}
       <div className="hidden md:flex items-start gap-8 px-4 py-8">
         {/* 프로필 이미지: 150px 원형 */}
         <div className="flex-shrink-0">
-          <div className="w-[150px] h-[150px] rounded-full bg-gray-200 flex items-center justify-center overflow-hidden border border-gray-300">
-            <span className="text-5xl font-semibold text-gray-600">
-              {avatarInitial}
-            </span>
-          </div>
+          <UserAvatar
+            user={user}
+            size={150}
+            className="border border-gray-300"
+            priority
+          />
         </div>
 
         {/* 사용자 정보 영역 */}
         <div className="flex-1 min-w-0">
           {/* 사용자명 및 버튼 */}
           <div className="flex items-center gap-4 mb-4">
-            <h1 className="text-2xl font-light text-[var(--instagram-text-primary)]">
+            <h1 className="flex items-center gap-2 text-2xl font-light text-[var(--instagram-text-primary)]">
               {user.name}
+              {user.is_private && (
+                <Lock className="w-4 h-4" aria-label="비공개 계정" />
+              )}
             </h1>
 
             {/* 버튼 영역 */}
             {isOwnProfile ? (
-              // 본인 프로필: 프로필 편집 버튼 (1차 제외) 및 로그아웃 버튼
+              // 본인 프로필: 프로필 편집 버튼 및 로그아웃 버튼
               <div className="flex items-center gap-2">
                 <button
                   className="px-4 py-1.5 bg-[var(--instagram-card-background)] border border-[var(--instagram-border)] rounded-lg font-semibold text-sm text-[var(--instagram-text-primary)] hover:bg-gray-50 transition-colors"
-                  disabled
+                  onClick={() => setIsEditOpen(true)}
                   aria-label="프로필 편집"
                 >
                   프로필 편집
@@ -106,12 +325,8 @@ function ProfileHeader({
                 </SignOutButton>
               </div>
             ) : (
-              // 다른 사람 프로필: 팔로우 버튼
-              <FollowButton
-                followingId={user.id}
-                initialIsFollowing={user.isFollowing}
-                onFollowChange={handleFollowChange}
-              />
+              // 다른 사람 프로필: 팔로우 버튼 및 더보기 메뉴
+              renderOtherProfileActions(false)
             )}
           </div>
 
@@ -142,6 +357,9 @@ function ProfileHeader({
               </span>
             </div>
           </div>
+
+          {/* 사용자 이름, 소개, 웹사이트 */}
+          <ProfileDetails user={user} />
         </div>
       </div>
 
@@ -150,11 +368,12 @@ function ProfileHeader({
         {/* 프로필 이미지 및 사용자명 */}
         <div className="flex items-center gap-4 mb-4">
           {/* 프로필 이미지: 90px 원형 */}
-          <div className="w-[90px] h-[90px] rounded-full bg-gray-200 flex items-center justify-center overflow-hidden border border-gray-300 flex-shrink-0">
-            <span className="text-3xl font-semibold text-gray-600">
-              {avatarInitial}
-            </span>
-          </div>
+          <UserAvatar
+            user={user}
+            size={90}
+            className="border border-gray-300"
+            priority
+          />
 
           {/* 통계 (Mobile) */}
           <div className="flex-1 flex items-center justify-around">
@@ -187,16 +406,22 @@ function ProfileHeader({
 
         {/* 사용자명 및 버튼 */}
         <div className="mb-4">
-          <h1 className="text-sm font-semibold text-[var(--instagram-text-primary)] mb-3">
+          <h1 className="flex items-center gap-1 text-sm font-semibold text-[var(--instagram-text-primary)] mb-1">
             {user.name}
+            {user.is_private && (
+              <Lock className="w-3 h-3" aria-label="비공개 계정" />
+            )}
           </h1>
+          <div className="mb-3">
+            <ProfileDetails user={user} />
+          </div>
 
           {/* 버튼 영역 */}
           {isOwnProfile ? (
             <div className="flex flex-col gap-2">
               <button
                 className="w-full px-4 py-1.5 bg-[var(--instagram-card-background)] border border-[var(--instagram-border)] rounded-lg font-semibold text-sm text-[var(--instagram-text-primary)] hover:bg-gray-50 transition-colors"
-                disabled
+                onClick={() => setIsEditOpen(true)}
                 aria-label="프로필 편집"
               >
                 프로필 편집
@@ -212,15 +437,30 @@ function ProfileHeader({
               </SignOutButton>
             </div>
           ) : (
-            <FollowButton
-              followingId={user.id}
-              initialIsFollowing={user.isFollowing}
-              onFollowChange={handleFollowChange}
-              className="w-full"
-            />
+            renderOtherProfileActions(true)
           )}
         </div>
       </div>
+
+      {/* 프로필 편집 다이얼로그 */}
+      {isOwnProfile && (
+        <EditProfileDialog
+          open={isEditOpen}
+          onOpenChange={setIsEditOpen}
+          user={user}
+          onSuccess={handleProfileUpdate}
+        />
+      )}
+
+      {/* 계정 신고 다이얼로그 */}
+      {!isOwnProfile && (
+        <ReportDialog
+          open={isReportOpen}
+          onOpenChange={setIsReportOpen}
+          targetType="user"
+          targetId={user.id}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,71 @@
+/**
+ * @file components/profile/ProfilePosts.tsx
+ * @description 프로필 게시물 탭 컴포넌트
+ *
+ * 본인 프로필의 "게시물" / "임시 저장" / "예약됨" 탭입니다.
+ * 임시 저장/예약 게시물은 본인에게만 표시되며, 다른 사용자의 프로필은 게시물 그리드만 표시합니다.
+ *
+ * @see components/profile/PostGrid.tsx
+ */
+
+"use client";
+
+import { useState } from "react";
+import PostGrid from "@/components/profile/PostGrid";
+import { cn } from "@/lib/utils";
+
+interface ProfilePostsProps {
+  userId: string; // Supabase user ID
+  isOwnProfile: boolean;
+  isLocked?: boolean; // 비공개 계정이고 팔로워가 아닌 경우
+}
+
+type ProfileTab = "posts" | "draft" | "scheduled";
+
+const TABS: { value: ProfileTab; label: string }[] = [
+  { value: "posts", label: "게시물" },
+  { value: "draft", label: "임시 저장" },
+  { value: "scheduled", label: "예약됨" },
+];
+
+export default function ProfilePosts({ userId, isOwnProfile, isLocked = false }: ProfilePostsProps) {
+  const [tab, setTab] = useState<ProfileTab>("posts");
+
+  if (!isOwnProfile) {
+    return <PostGrid userId={userId} isLocked={isLocked} />;
+  }
+
+  return (
+    <div>
+      {/* 게시물 탭 */}
+      <div
+        role="tablist"
+        aria-label="프로필 게시물"
+        className="flex justify-center gap-12 border-t border-[var(--instagram-border)] mb-4"
+      >
+        {TABS.map((item) => (
+          <button
+            key={item.value}
+            role="tab"
+            aria-selected={tab === item.value}
+            onClick={() => setTab(item.value)}
+            className={cn(
+              "-mt-px py-4 text-xs font-semibold tracking-wider transition-colors",
+              tab === item.value
+                ? "border-t border-[var(--instagram-text-primary)] text-[var(--instagram-text-primary)]"
+                : "text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)]"
+            )}
+          >
+            {item.label}
+          </button>
+        ))}
+      </div>
+
+      <PostGrid
+        key={tab}
+        userId={userId}
+        unpublished={tab === "posts" ? undefined : tab}
+      />
+    </div>
+  );
+}
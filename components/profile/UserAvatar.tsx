@@ -0,0 +1,58 @@
+/**
+ * @file components/profile/UserAvatar.tsx
+ * @description 사용자 프로필 사진 컴포넌트
+ *
+ * 원형 프로필 사진을 표시합니다.
+ * 프로필 사진(avatar_url)이 없으면 이름 첫 글자로 대체합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+import { memo } from "react";
+import Image from "next/image";
+import { cn } from "@/lib/utils";
+import type { User } from "@/lib/types";
+
+interface UserAvatarProps {
+  user?: Pick<User, "name" | "avatar_url"> | null;
+  size: number; // px (32: 게시물 헤더, 44: 알림, 90/150: 프로필)
+  className?: string;
+  priority?: boolean;
+}
+
+function UserAvatar({ user, size, className, priority = false }: UserAvatarProps) {
+  const initial = user?.name ? user.name.charAt(0).toUpperCase() : "";
+
+  return (
+    <div
+      className={cn(
+        "relative shrink-0 rounded-full bg-gray-200 flex items-center justify-center overflow-hidden",
+        className
+      )}
+      style={{ width: size, height: size }}
+    >
+      {user?.avatar_url ? (
+        <Image
+          src={user.avatar_url}
+          alt={`${user.name} 프로필 사진`}
+          fill
+          className="object-cover"
+          sizes={`${size}px`}
+          priority={priority}
+        />
+      ) : initial ? (
+        <span
+          className="font-semibold text-gray-600"
+          style={{ fontSize: Math.max(12, Math.round(size * 0.4)) }}
+          aria-hidden="true"
+        >
+          {initial}
+        </span>
+      ) : (
+        <div className="w-full h-full bg-gray-300" aria-hidden="true" />
+      )}
+    </div>
+  );
+}
+
+export default memo(UserAvatar);
@@ -0,0 +1,352 @@
+"use client";
+
+import { createContext, useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import {
+  createResumableUpload,
+  isUploadAborted,
+  type ResumableUpload,
+} from "@/lib/resumable-upload";
+import { STORY_BUCKET } from "@/lib/stories";
+import { extractVideoMetadata } from "@/lib/video";
+import type { MediaType } from "@/lib/types";
+import { api } from "@/lib/api-client";
+
+// 완료 알림 표시 시간
+const DONE_DISMISS_MS = 4000;
+
+export type UploadKind = "post" | "story";
+export type UploadStatus = "uploading" | "paused" | "saving" | "done" | "error";
+
+/**
+ * 업로드 작업 상태 (진행률 표시용)
+ */
+export interface UploadTask {
+  id: string;
+  kind: UploadKind;
+  status: UploadStatus;
+  progress: number; // 0 ~ 1 (전체 미디어 바이트 기준)
+  error: string | null;
+  saveAs?: "draft" | "scheduled"; // 게시물 임시 저장/예약 (완료 알림 문구용)
+}
+
+/**
+ * 업로드 시작 옵션
+ */
+export interface StartUploadOptions {
+  kind: UploadKind;
+  media: { file: File; type: MediaType }[]; // 선택 순서 유지
+  title?: string | null;
+  caption?: string | null;
+  isDraft?: boolean; // 게시물 임시 저장
+  publishAt?: string | null; // 게시물 예약 시각 (ISO timestamp)
+  onSuccess?: () => void;
+}
+
+interface UploadQueueContextValue {
+  tasks: UploadTask[];
+  startUpload: (options: StartUploadOptions) => void;
+  pauseUpload: (id: string) => void;
+  resumeUpload: (id: string) => void;
+  retryUpload: (id: string) => void;
+  cancelUpload: (id: string) => void; // 진행 중/실패한 업로드 취소 및 업로드된 파일 삭제
+  dismissUpload: (id: string) => void; // 완료 알림 닫기
+}
+
+// 업로드 작업 내부 상태 (재시도 시 완료된 파일은 다시 올리지 않음)
+interface UploadJobItem {
+  file: File;
+  type: MediaType;
+  path: string;
+  upload: ResumableUpload;
+  uploaded: boolean;
+  posterPath: string | null;
+  duration: number | null;
+  metadataDone: boolean;
+}
+
+interface UploadJob {
+  options: StartUploadOptions;
+  bucket: string;
+  items: UploadJobItem[];
+  canceled: boolean;
+}
+
+export const UploadQueueContext = createContext<UploadQueueContextValue | null>(null);
+
+// 업로드 경로는 사용자 폴더({Clerk user ID}/) 아래 (API에서 본인 파일인지 확인)
+function createFileName(ownerId: string, file: File): string {
+  const fileExt = file.name.split(".").pop() || "jpg";
+  return `${ownerId}/${Date.now()}-${Math.random().toString(36).substring(7)}.${fileExt}`;
+}
+
+function getPublicUrl(bucket: string, path: string): string {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  return `${supabaseUrl}/storage/v1/object/public/${bucket}/${path}`;
+}
+
+// Storage/네트워크 에러를 사용자 메시지로 변환
+function getUploadErrorMessage(error: unknown, kind: UploadKind): string {
+  const message = error instanceof Error ? error.message : "";
+
+  if (/network|failed to fetch/i.test(message)) {
+    return "인터넷 연결을 확인해주세요.";
+  }
+  if (/size|too large/i.test(message)) {
+    return "파일 크기가 너무 큽니다. 50MB 이하의 파일만 업로드할 수 있습니다.";
+  }
+  if (/mime/i.test(message)) {
+    return "지원하지 않는 파일 형식입니다.";
+  }
+  return (
+    message ||
+    (kind === "story"
+      ? "스토리 업로드에 실패했습니다. 다시 시도해주세요."
+      : "게시물 업로드에 실패했습니다. 다시 시도해주세요.")
+  );
+}
+
+/**
+ * 게시물/스토리 업로드 큐 프로바이더
+ *
+ * 업로드를 작성 모달과 분리해 모달을 닫거나 다른 페이지로 이동해도 계속 진행합니다.
+ * 미디어는 재개 가능 업로드(lib/resumable-upload.ts)로 올린 뒤 API에 게시물을 저장하며,
+ * 진행 상태는 useUploadQueue 훅으로 조회합니다. (UploadToasts)
+ */
+export function UploadProvider({ children }: { children: React.ReactNode }) {
+  const { getToken, userId } = useAuth();
+  const supabase = useClerkSupabaseClient();
+  const [tasks, setTasks] = useState<UploadTask[]>([]);
+  const jobsRef = useRef(new Map<string, UploadJob>());
+
+  const updateTask = useCallback((id: string, patch: Partial<UploadTask>) => {
+    setTasks((prev) => prev.map((task) => (task.id === id ? { ...task, ...patch } : task)));
+  }, []);
+
+  const removeTask = useCallback((id: string) => {
+    jobsRef.current.delete(id);
+    setTasks((prev) => prev.filter((task) => task.id !== id));
+  }, []);
+
+  // 업로드된 파일 삭제 (취소 시)
+  const removeJobFiles = useCallback(
+    async (job: UploadJob) => {
+      const paths = job.items.flatMap((item) => [
+        ...(item.uploaded ? [item.path] : []),
+        ...(item.posterPath ? [item.posterPath] : []),
+      ]);
+      if (paths.length === 0) return;
+
+      const { error } = await supabase.storage.from(job.bucket).remove(paths);
+      if (error) {
+        console.error("Upload cleanup error:", error);
+      }
+    },
+    [supabase]
+  );
+
+  // 남은 단계 실행 (재시도 시 완료된 단계는 건너뜀)
+  const runJob = useCallback(
+    async (id: string) => {
+      const job = jobsRef.current.get(id);
+      if (!job) return;
+
+      const { options, bucket, items } = job;
+      const isStory = options.kind === "story";
+      updateTask(id, { status: "uploading", error: null });
+
+      try {
+        // 1. 미디어 업로드 (순서 유지)
+        for (const item of items) {
+          if (!item.uploaded) {
+            await item.upload.start();
+            item.uploaded = true;
+          }
+
+          // 게시물 동영상은 포스터 이미지와 재생 길이를 함께 저장 (실패해도 동영상만 업로드)
+          if (!isStory && item.type === "video" && !item.metadataDone) {
+            try {
+              const { duration, poster } = await extractVideoMetadata(item.file);
+              item.duration = duration;
+
+              if (poster) {
+                const posterName = item.path.replace(/\.[^.]+$/, "_poster.jpg");
+                const { error: posterError } = await supabase.storage
+                  .from(bucket)
+                  .upload(posterName, poster, {
+                    contentType: "image/jpeg",
+                    cacheControl: "3600",
+                    upsert: true,
+                  });
+
+                if (posterError) {
+                  console.error("Poster upload error:", posterError);
+                } else {
+                  item.posterPath = posterName;
+                }
+              }
+            } catch (metadataError) {
+              console.error("Video metadata error:", metadataError);
+            }
+            item.metadataDone = true;
+          }
+
+          if (job.canceled) return;
+        }
+
+        // 2. API를 호출하여 posts(또는 stories) 테이블에 메타데이터만 저장
+        updateTask(id, { status: "saving", progress: 1 });
+
+        if (isStory) {
+          await api.stories.create({
+            mediaUrl: getPublicUrl(bucket, items[0].path),
+            mediaType: items[0].type,
+          });
+        } else {
+          await api.posts.create({
+            media: items.map((item) => ({
+              url: getPublicUrl(bucket, item.path),
+              type: item.type,
+              posterUrl: item.posterPath ? getPublicUrl(bucket, item.posterPath) : undefined,
+              duration: item.duration || undefined,
+            })),
+            title: options.title || null,
+            caption: options.caption || null,
+            isDraft: options.isDraft || false,
+            publishAt: options.publishAt || null,
+          });
+        }
+
+        if (job.canceled) return;
+
+        // 3. 완료 알림 (잠시 후 자동으로 닫힘)
+        jobsRef.current.delete(id);
+        updateTask(id, { status: "done" });
+        options.onSuccess?.();
+        setTimeout(() => removeTask(id), DONE_DISMISS_MS);
+      } catch (error) {
+        if (isUploadAborted(error) || job.canceled) return;
+
+        console.error("Upload error:", error);
+        updateTask(id, { status: "error", error: getUploadErrorMessage(error, options.kind) });
+      }
+    },
+    [supabase, updateTask, removeTask]
+  );
+
+  const startUpload = useCallback(
+    (options: StartUploadOptions) => {
+      if (!userId) return;
+
+      const id = crypto.randomUUID();
+      const bucket = options.kind === "story" ? STORY_BUCKET : "posts";
+      const totalBytes = options.media.reduce((sum, item) => sum + item.file.size, 0) || 1;
+      const uploadedBytes = options.media.map(() => 0);
+
+      const items: UploadJobItem[] = options.media.map(({ file, type }, index) => {
+        const path = createFileName(userId, file);
+        return {
+          file,
+          type,
+          path,
+          upload: createResumableUpload({
+            bucket,
+            path,
+            file,
+            contentType: file.type,
+            getToken,
+            onProgress: (bytes) => {
+              uploadedBytes[index] = bytes;
+              const uploaded = uploadedBytes.reduce((sum, current) => sum + current, 0);
+              updateTask(id, { progress: uploaded / totalBytes });
+            },
+          }),
+          uploaded: false,
+          posterPath: null,
+          duration: null,
+          metadataDone: false,
+        };
+      });
+
+      jobsRef.current.set(id, { options, bucket, items, canceled: false });
+      setTasks((prev) => [
+        ...prev,
+        {
+          id,
+          kind: options.kind,
+          status: "uploading",
+          progress: 0,
+          error: null,
+          saveAs: options.isDraft ? "draft" : options.publishAt ? "scheduled" : undefined,
+        },
+      ]);
+      runJob(id);
+    },
+    [getToken, userId, updateTask, runJob]
+  );
+
+  const pauseUpload = useCallback(
+    (id: string) => {
+      jobsRef.current.get(id)?.items.forEach((item) => item.upload.pause());
+      updateTask(id, { status: "paused" });
+    },
+    [updateTask]
+  );
+
+  const resumeUpload = useCallback(
+    (id: string) => {
+      jobsRef.current.get(id)?.items.forEach((item) => item.upload.resume());
+      updateTask(id, { status: "uploading" });
+    },
+    [updateTask]
+  );
+
+  const retryUpload = useCallback(
+    (id: string) => {
+      runJob(id);
+    },
+    [runJob]
+  );
+
+  const cancelUpload = useCallback(
+    (id: string) => {
+      const job = jobsRef.current.get(id);
+      removeTask(id);
+      if (!job) return;
+
+      job.canceled = true;
+      Promise.all(job.items.map((item) => item.upload.abort()))
+        .then(() => removeJobFiles(job))
+        .catch((error) => console.error("Upload cancel error:", error));
+    },
+    [removeTask, removeJobFiles]
+  );
+
+  // 업로드 중 페이지를 떠나면 경고 (새로고침/탭 닫기 시 업로드 중단)
+  const hasActiveTasks = tasks.some((task) => task.status !== "done" && task.status !== "error");
+  useEffect(() => {
+    if (!hasActiveTasks) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [hasActiveTasks]);
+
+  const value = useMemo(
+    () => ({
+      tasks,
+      startUpload,
+      pauseUpload,
+      resumeUpload,
+      retryUpload,
+      cancelUpload,
+      dismissUpload: removeTask,
+    }),
+    [tasks, startUpload, pauseUpload, resumeUpload, retryUpload, cancelUpload, removeTask]
+  );
+
+  return <UploadQueueContext.Provider value={value}>{children}</UploadQueueContext.Provider>;
+}
@@ -0,0 +1,190 @@
+/**
+ * @file components/report/ReportDialog.tsx
+ * @description 신고 다이얼로그
+ *
+ * 게시물, 댓글, 계정을 신고하는 다이얼로그입니다.
+ *
+ * 주요 기능:
+ * 1. 신고 사유 선택 (lib/reports.ts의 REPORT_REASONS)
+ * 2. 추가 설명 입력 (선택, 최대 500자)
+ * 3. POST /api/reports 호출 후 접수 완료 안내 (이미 신고한 경우도 완료로 표시)
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { Check } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  MAX_REPORT_DETAILS_LENGTH,
+  REPORT_REASONS,
+  REPORT_TARGET_LABELS,
+} from "@/lib/reports";
+import { cn } from "@/lib/utils";
+import type { ReportReason, ReportTargetType } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  targetType: ReportTargetType;
+  targetId: string; // 게시물/댓글/사용자 ID (Supabase UUID)
+}
+
+export default function ReportDialog({
+  open,
+  onOpenChange,
+  targetType,
+  targetId,
+}: ReportDialogProps) {
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  // 다이얼로그를 열 때마다 입력값 초기화
+  useEffect(() => {
+    if (open) {
+      setReason(null);
+      setDetails("");
+      setIsSubmitted(false);
+    }
+  }, [open]);
+
+  const targetLabel = REPORT_TARGET_LABELS[targetType];
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      await api.reports
+        .create({
+          targetType,
+          targetId,
+          reason,
+          details: details.trim() || undefined,
+        })
+        .catch((error) => {
+          // 이미 신고한 콘텐츠도 접수 완료로 처리
+          if (!(error instanceof ApiError && error.code === "CONFLICT")) {
+            throw error;
+          }
+        });
+
+      setIsSubmitted(true);
+    } catch (error) {
+      console.error("Report error:", error);
+      alert(getErrorMessage(error, "신고에 실패했습니다."));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        {isSubmitted ? (
+          <>
+            <DialogHeader className="items-center text-center">
+              <div className="mb-2 flex h-12 w-12 items-center justify-center rounded-full border-2 border-green-500">
+                <Check className="h-6 w-6 text-green-500" />
+              </div>
+              <DialogTitle>신고해주셔서 감사합니다</DialogTitle>
+              <DialogDescription>
+                회원님의 신고는 커뮤니티를 안전하게 유지하는 데 도움이 됩니다.
+                검토 후 커뮤니티 가이드라인에 위배되는 {targetLabel}은(는) 숨김 처리됩니다.
+              </DialogDescription>
+            </DialogHeader>
+            <DialogFooter>
+              <Button onClick={() => onOpenChange(false)} className="w-full">
+                닫기
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>{targetLabel} 신고</DialogTitle>
+              <DialogDescription>
+                이 {targetLabel}을(를) 신고하는 이유를 선택해주세요. 신고자 정보는
+                상대방에게 공개되지 않습니다.
+              </DialogDescription>
+            </DialogHeader>
+
+            <div
+              role="radiogroup"
+              aria-label="신고 사유"
+              className="divide-y divide-[var(--instagram-border)] border-y border-[var(--instagram-border)]"
+            >
+              {REPORT_REASONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={reason === option.value}
+                  onClick={() => setReason(option.value)}
+                  disabled={isSubmitting}
+                  className={cn(
+                    "flex w-full items-center justify-between px-1 py-3 text-left text-sm",
+                    "text-[var(--instagram-text-primary)] hover:bg-gray-50 transition-colors",
+                    reason === option.value && "font-semibold"
+                  )}
+                >
+                  {option.label}
+                  {reason === option.value && (
+                    <Check className="h-4 w-4 text-[var(--instagram-blue)]" />
+                  )}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <Textarea
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+                maxLength={MAX_REPORT_DETAILS_LENGTH}
+                placeholder="추가 설명 (선택)"
+                disabled={isSubmitting}
+                className="min-h-20 resize-none"
+                aria-label="추가 설명"
+              />
+              <p className="text-right text-xs text-[var(--instagram-text-secondary)]">
+                {details.length} / {MAX_REPORT_DETAILS_LENGTH}
+              </p>
+            </div>
+
+            <DialogFooter>
+              <Button
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                disabled={isSubmitting}
+              >
+                취소
+              </Button>
+              <Button
+                variant="destructive"
+                onClick={handleSubmit}
+                disabled={!reason || isSubmitting}
+              >
+                {isSubmitting ? "신고 중..." : "신고"}
+              </Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
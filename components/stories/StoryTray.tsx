@@ -0,0 +1,206 @@
+/**
+ * @file components/stories/StoryTray.tsx
+ * @description 스토리 트레이 컴포넌트
+ *
+ * 홈 피드 상단에 본인과 팔로우 중인 사용자의 스토리를 가로 목록으로 표시합니다.
+ *
+ * 주요 기능:
+ * 1. 내 스토리 (없으면 + 버튼으로 스토리 만들기)
+ * 2. 안 본 스토리가 있는 사용자는 그라데이션 테두리, 모두 본 사용자는 회색 테두리
+ * 3. 안 본 스토리가 있는 사용자 → 모두 본 사용자 순서 (API 정렬)
+ * 4. 스토리 뷰어 열기 및 본 스토리 표시 갱신
+ *
+ * @see app/api/stories/route.ts
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { Plus } from "lucide-react";
+import CreatePostModal from "@/components/post/CreatePostModal";
+import UserAvatar from "@/components/profile/UserAvatar";
+import StoryViewer from "@/components/stories/StoryViewer";
+import { sortStoryTray } from "@/lib/stories";
+import { cn } from "@/lib/utils";
+import type { StoryTrayItem, User } from "@/lib/types";
+import { api } from "@/lib/api-client";
+
+export default function StoryTray() {
+  const { isLoaded, userId } = useAuth();
+  const [trays, setTrays] = useState<StoryTrayItem[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [viewerTrays, setViewerTrays] = useState<StoryTrayItem[] | null>(null);
+  const [viewerIndex, setViewerIndex] = useState(0);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  // 스토리 트레이 로드
+  const loadStories = useCallback(async () => {
+    try {
+      const data = await api.stories.list();
+      setTrays(data.trays);
+      setCurrentUser(data.currentUser);
+    } catch (err) {
+      // 스토리를 불러오지 못해도 피드는 그대로 사용할 수 있으므로 트레이만 숨김
+      console.error("Error loading stories:", err);
+      setTrays([]);
+      setCurrentUser(null);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    loadStories();
+  }, [isLoaded, userId, loadStories]);
+
+  const ownTray = trays.find((tray) => tray.user.id === currentUser?.id) ?? null;
+  const otherTrays = trays.filter((tray) => tray !== ownTray);
+
+  // 뷰어는 연 시점의 순서를 유지 (본 스토리 표시가 바뀌어도 재생 순서가 바뀌지 않도록)
+  const openViewer = useCallback(
+    (tray: StoryTrayItem) => {
+      setViewerIndex(trays.indexOf(tray));
+      setViewerTrays(trays);
+    },
+    [trays]
+  );
+
+  // 뷰어를 닫으면 본 스토리를 반영해 다시 정렬
+  const handleViewerOpenChange = useCallback(
+    (open: boolean) => {
+      if (open) return;
+      setViewerTrays(null);
+      if (currentUser) {
+        setTrays((prev) => sortStoryTray(prev, currentUser.id));
+      }
+    },
+    [currentUser]
+  );
+
+  const handleSeen = useCallback((storyId: string) => {
+    setTrays((prev) =>
+      prev.map((tray) => {
+        if (!tray.stories.some((story) => story.id === storyId)) return tray;
+
+        const stories = tray.stories.map((story) =>
+          story.id === storyId ? { ...story, seen: true } : story
+        );
+        return {
+          ...tray,
+          stories,
+          has_unseen: stories.some((story) => !story.seen),
+        };
+      })
+    );
+  }, []);
+
+  const handleDeleted = useCallback(() => {
+    loadStories();
+  }, [loadStories]);
+
+  if (!userId || (!loading && !currentUser)) return null;
+
+  return (
+    <div className="mb-4 bg-[var(--instagram-card-background)] border-b border-[var(--instagram-border)]">
+      <ul className="flex gap-4 px-4 py-3 overflow-x-auto" aria-label="스토리">
+        {loading ? (
+          Array.from({ length: 6 }).map((_, index) => (
+            <li key={index} className="flex flex-col items-center gap-1.5 shrink-0">
+              <div className="w-16 h-16 rounded-full animate-shimmer" />
+              <div className="w-12 h-2.5 rounded animate-shimmer" />
+            </li>
+          ))
+        ) : (
+          <>
+            {/* 내 스토리 */}
+            <li className="relative flex flex-col items-center gap-1 shrink-0 w-16">
+              <button
+                type="button"
+                onClick={() => (ownTray ? openViewer(ownTray) : setIsCreateOpen(true))}
+                className={cn(
+                  "rounded-full p-[2px]",
+                  ownTray
+                    ? "bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-600"
+                    : "bg-transparent"
+                )}
+                aria-label={ownTray ? "내 스토리 보기" : "스토리 만들기"}
+              >
+                <div className="rounded-full bg-white p-[2px]">
+                  <UserAvatar user={currentUser} size={56} />
+                </div>
+              </button>
+              <button
+                type="button"
+                onClick={() => setIsCreateOpen(true)}
+                className="absolute top-11 right-0 w-5 h-5 rounded-full bg-[var(--instagram-blue)] border-2 border-white flex items-center justify-center text-white"
+                aria-label="스토리 추가"
+              >
+                <Plus className="w-3 h-3" strokeWidth={3} aria-hidden="true" />
+              </button>
+              <span className="w-full text-xs text-center truncate text-[var(--instagram-text-secondary)]">
+                내 스토리
+              </span>
+            </li>
+
+            {/* 팔로우 중인 사용자 스토리 */}
+            {otherTrays.map((tray) => (
+              <li key={tray.user.id} className="flex flex-col items-center gap-1 shrink-0 w-16">
+                <button
+                  type="button"
+                  onClick={() => openViewer(tray)}
+                  className={cn(
+                    "rounded-full p-[2px]",
+                    tray.has_unseen
+                      ? "bg-gradient-to-tr from-yellow-400 via-pink-500 to-purple-600"
+                      : "bg-gray-300"
+                  )}
+                  aria-label={`${tray.user.name}님의 스토리 보기${tray.has_unseen ? " (새 스토리)" : ""}`}
+                >
+                  <div className="rounded-full bg-white p-[2px]">
+                    <UserAvatar user={tray.user} size={56} />
+                  </div>
+                </button>
+                <span
+                  className={cn(
+                    "w-full text-xs text-center truncate",
+                    tray.has_unseen
+                      ? "text-[var(--instagram-text-primary)]"
+                      : "text-[var(--instagram-text-secondary)]"
+                  )}
+                >
+                  {tray.user.username || tray.user.name}
+                </span>
+              </li>
+            ))}
+          </>
+        )}
+      </ul>
+
+      {viewerTrays && currentUser && (
+        <StoryViewer
+          open
+          onOpenChange={handleViewerOpenChange}
+          trays={viewerTrays}
+          initialTrayIndex={viewerIndex}
+          currentUserId={currentUser.id}
+          onSeen={handleSeen}
+          onDeleted={handleDeleted}
+        />
+      )}
+
+      <CreatePostModal
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onSuccess={loadStories}
+        variant="story"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+/**
+ * @file components/stories/StoryViewer.tsx
+ * @description 스토리 전체 화면 뷰어 컴포넌트
+ *
+ * Instagram 스타일의 스토리 뷰어입니다.
+ *
+ * 주요 기능:
+ * 1. 사용자별 스토리를 순서대로 재생 (이미지 5초, 동영상은 재생 길이)
+ * 2. 상단 진행 막대, 화면 왼쪽/오른쪽 탭으로 이전/다음 스토리 이동 (키보드 ←/→ 지원)
+ * 3. 마지막 스토리 이후 다음 사용자의 스토리로 이동 (안 본 스토리부터)
+ * 4. 다른 사용자의 스토리는 표시될 때 조회 기록 저장
+ * 5. 본인 스토리: 조회한 사람 목록, 스토리 삭제
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback, useRef } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import {
+  Eye,
+  Loader2,
+  Pause,
+  Play,
+  Trash2,
+  Volume2,
+  VolumeX,
+  X,
+} from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import UserAvatar from "@/components/profile/UserAvatar";
+import { STORY_IMAGE_DURATION_MS } from "@/lib/stories";
+import { formatRelativeTime } from "@/lib/utils";
+import type { StoryTrayItem, StoryViewerWithUser } from "@/lib/types";
+import { api, getErrorMessage } from "@/lib/api-client";
+
+interface StoryViewerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  trays: StoryTrayItem[]; // 열 때의 트레이 순서 (재생 중에는 바뀌지 않음)
+  initialTrayIndex: number;
+  currentUserId: string;
+  onSeen?: (storyId: string) => void;
+  onDeleted?: (storyId: string) => void;
+}
+
+// 진행 막대 갱신 간격
+const TICK_MS = 50;
+
+/**
+ * 사용자의 스토리 중 처음 재생할 위치 (안 본 스토리가 있으면 첫 번째 안 본 스토리)
+ */
+function getStartIndex(tray: StoryTrayItem | undefined): number {
+  if (!tray) return 0;
+  const index = tray.stories.findIndex((story) => !story.seen);
+  return index === -1 ? 0 : index;
+}
+
+export default function StoryViewer({
+  open,
+  onOpenChange,
+  trays,
+  initialTrayIndex,
+  currentUserId,
+  onSeen,
+  onDeleted,
+}: StoryViewerProps) {
+  const [trayIndex, setTrayIndex] = useState(initialTrayIndex);
+  const [storyIndex, setStoryIndex] = useState(() =>
+    getStartIndex(trays[initialTrayIndex])
+  );
+  const [progress, setProgress] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [muted, setMuted] = useState(true);
+  const [deleting, setDeleting] = useState(false);
+  const [viewersOpen, setViewersOpen] = useState(false);
+  const [viewers, setViewers] = useState<StoryViewerWithUser[]>([]);
+  const [viewersTotal, setViewersTotal] = useState(0);
+  const [viewersCursor, setViewersCursor] = useState<string | null>(null);
+  const [viewersLoading, setViewersLoading] = useState(false);
+  const [viewersError, setViewersError] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const elapsedRef = useRef(0);
+  const recordedRef = useRef(new Set<string>());
+
+  const tray = trays[trayIndex];
+  const story = tray?.stories[storyIndex] ?? null;
+  const isOwn = tray?.user.id === currentUserId;
+  const isPaused = paused || viewersOpen || deleting;
+
+  const close = useCallback(() => onOpenChange(false), [onOpenChange]);
+
+  // 다음 스토리 (마지막이면 다음 사용자, 모두 끝나면 닫기)
+  const goNext = useCallback(() => {
+    if (!tray) return;
+    if (storyIndex < tray.stories.length - 1) {
+      setStoryIndex(storyIndex + 1);
+    } else if (trayIndex < trays.length - 1) {
+      setTrayIndex(trayIndex + 1);
+      setStoryIndex(getStartIndex(trays[trayIndex + 1]));
+    } else {
+      close();
+    }
+  }, [tray, trays, trayIndex, storyIndex, close]);
+
+  // 이전 스토리 (첫 번째면 이전 사용자)
+  const goPrev = useCallback(() => {
+    if (storyIndex > 0) {
+      setStoryIndex(storyIndex - 1);
+    } else if (trayIndex > 0) {
+      setTrayIndex(trayIndex - 1);
+      setStoryIndex(0);
+    } else {
+      elapsedRef.current = 0;
+      setProgress(0);
+      if (videoRef.current) videoRef.current.currentTime = 0;
+    }
+  }, [trayIndex, storyIndex]);
+
+  // 스토리가 바뀌면 진행 상태 초기화
+  useEffect(() => {
+    elapsedRef.current = 0;
+    setProgress(0);
+    setViewersOpen(false);
+  }, [story?.id]);
+
+  // 이미지 스토리 타이머 (동영상은 재생 위치로 진행률 계산)
+  useEffect(() => {
+    if (!open || !story || story.media_type !== "image" || isPaused) return;
+
+    const timer = setInterval(() => {
+      elapsedRef.current += TICK_MS;
+      setProgress(Math.min(1, elapsedRef.current / STORY_IMAGE_DURATION_MS));
+      if (elapsedRef.current >= STORY_IMAGE_DURATION_MS) {
+        clearInterval(timer);
+        goNext();
+      }
+    }, TICK_MS);
+
+    return () => clearInterval(timer);
+  }, [open, story, isPaused, goNext]);
+
+  // 동영상 일시정지/재생
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || story?.media_type !== "video") return;
+
+    if (isPaused) {
+      video.pause();
+    } else {
+      video.play().catch(() => {
+        // 자동 재생이 차단되면 사용자가 재생 버튼을 눌러야 함
+        setPaused(true);
+      });
+    }
+  }, [isPaused, story]);
+
+  // 다른 사용자의 스토리 조회 기록 저장
+  useEffect(() => {
+    if (!open || !story || isOwn || story.seen) return;
+    if (recordedRef.current.has(story.id)) return;
+
+    recordedRef.current.add(story.id);
+    onSeen?.(story.id);
+    api.stories.view(story.id).catch((err) => {
+      // 조회 기록 실패는 재생에 영향 없음
+      console.error("Story view record error:", err);
+    });
+  }, [open, story, isOwn, onSeen]);
+
+  // 키보드 이동
+  useEffect(() => {
+    if (!open) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "ArrowRight") goNext();
+      if (event.key === "ArrowLeft") goPrev();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, goNext, goPrev]);
+
+  // 조회한 사람 목록 로드
+  const loadViewers = useCallback(
+    async (storyId: string, cursor: string | null) => {
+      setViewersLoading(true);
+      setViewersError(null);
+
+      try {
+        const data = await api.stories.viewers(storyId, { limit: 50, cursor });
+        setViewers((prev) => (cursor ? [...prev, ...data.viewers] : data.viewers));
+        setViewersTotal(data.totalCount);
+        setViewersCursor(data.hasMore ? data.nextCursor : null);
+      } catch (err) {
+        console.error("Error loading story viewers:", err);
+        setViewersError(
+          getErrorMessage(err, "조회한 사람 목록을 불러오는데 실패했습니다.")
+        );
+      } finally {
+        setViewersLoading(false);
+      }
+    },
+    []
+  );
+
+  const handleOpenViewers = useCallback(() => {
+    if (!story) return;
+    setViewers([]);
+    setViewersCursor(null);
+    setViewersOpen(true);
+    loadViewers(story.id, null);
+  }, [story, loadViewers]);
+
+  // 본인 스토리 삭제
+  const handleDelete = useCallback(async () => {
+    if (!story || deleting) return;
+    if (!confirm("이 스토리를 삭제하시겠습니까?")) return;
+
+    setDeleting(true);
+    try {
+      await api.stories.remove(story.id);
+
+      onDeleted?.(story.id);
+      close();
+    } catch (err) {
+      console.error("Error deleting story:", err);
+      alert(getErrorMessage(err, "스토리 삭제에 실패했습니다."));
+      setDeleting(false);
+    }
+  }, [story, deleting, onDeleted, close]);
+
+  if (!tray || !story) return null;
+
+  const profileHref = `/profile/${tray.user.id}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-screen max-w-none sm:max-w-none h-[100dvh] p-0 gap-0 border-0 rounded-none bg-black [&>button:last-child]:hidden">
+        <DialogTitle className="sr-only">{tray.user.name}님의 스토리</DialogTitle>
+        <DialogDescription className="sr-only">
+          화면 왼쪽을 누르면 이전 스토리, 오른쪽을 누르면 다음 스토리로 이동합니다.
+        </DialogDescription>
+
+        <div className="relative h-full w-full max-w-[calc(100dvh*9/16)] mx-auto flex items-center justify-center bg-black overflow-hidden">
+          {/* 미디어 */}
+          {story.media_type === "video" ? (
+            <video
+              key={story.id}
+              ref={videoRef}
+              src={story.media_url}
+              autoPlay
+              playsInline
+              muted={muted}
+              className="w-full h-full object-contain"
+              onTimeUpdate={(e) => {
+                const video = e.currentTarget;
+                if (video.duration) setProgress(video.currentTime / video.duration);
+              }}
+              onEnded={goNext}
+            />
+          ) : (
+            <Image
+              key={story.id}
+              src={story.media_url}
+              alt={`${tray.user.name}님의 스토리`}
+              fill
+              className="object-contain"
+              sizes="(max-width: 768px) 100vw, 56vh"
+              priority
+            />
+          )}
+
+          {/* 이전/다음 탭 영역 */}
+          <button
+            type="button"
+            onClick={goPrev}
+            className="absolute inset-y-0 left-0 w-1/3"
+            aria-label="이전 스토리"
+          />
+          <button
+            type="button"
+            onClick={goNext}
+            className="absolute inset-y-0 right-0 w-2/3"
+            aria-label="다음 스토리"
+          />
+
+          {/* 상단: 진행 막대 + 작성자 */}
+          <div className="absolute top-0 inset-x-0 p-3 bg-gradient-to-b from-black/60 to-transparent">
+            <div className="flex gap-1" aria-hidden="true">
+              {tray.stories.map((item, index) => (
+                <div
+                  key={item.id}
+                  className="h-0.5 flex-1 rounded-full bg-white/40 overflow-hidden"
+                >
+                  <div
+                    className="h-full bg-white"
+                    style={{
+                      width: `${
+                        index < storyIndex ? 100 : index === storyIndex ? progress * 100 : 0
+                      }%`,
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="mt-3 flex items-center gap-2 text-white">
+              <Link
+                href={profileHref}
+                onClick={close}
+                className="flex items-center gap-2 min-w-0"
+              >
+                <UserAvatar user={tray.user} size={32} />
+                <span className="text-sm font-semibold truncate">
+                  {tray.user.username || tray.user.name}
+                </span>
+              </Link>
+              <span className="text-sm text-white/70 shrink-0">
+                {formatRelativeTime(story.created_at)}
+              </span>
+
+              <div className="ml-auto flex items-center gap-1">
+                {story.media_type === "video" && (
+                  <button
+                    type="button"
+                    onClick={() => setMuted((prev) => !prev)}
+                    className="p-1.5 hover:opacity-70"
+                    aria-label={muted ? "소리 켜기" : "소리 끄기"}
+                  >
+                    {muted ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={() => setPaused((prev) => !prev)}
+                  className="p-1.5 hover:opacity-70"
+                  aria-label={paused ? "재생" : "일시정지"}
+                >
+                  {paused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}
+                </button>
+                {isOwn && (
+                  <button
+                    type="button"
+                    onClick={handleDelete}
+                    disabled={deleting}
+                    className="p-1.5 hover:opacity-70 disabled:opacity-50"
+                    aria-label="스토리 삭제"
+                  >
+                    {deleting ? (
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-5 h-5" />
+                    )}
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={close}
+                  className="p-1.5 hover:opacity-70"
+                  aria-label="닫기"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+            </div>
+          </div>
+
+          {/* 하단: 본인 스토리 조회한 사람 */}
+          {isOwn && (
+            <button
+              type="button"
+              onClick={handleOpenViewers}
+              className="absolute bottom-4 left-4 flex items-center gap-1.5 text-white text-sm font-semibold hover:opacity-80"
+            >
+              <Eye className="w-5 h-5" aria-hidden="true" />
+              활동 {story.view_count ?? 0}
+            </button>
+          )}
+
+          {/* 조회한 사람 목록 */}
+          {viewersOpen && (
+            <div
+              className="absolute inset-x-0 bottom-0 max-h-[60%] flex flex-col rounded-t-xl bg-white"
+              role="dialog"
+              aria-label="조회한 사람"
+            >
+              <div className="flex items-center justify-between px-4 py-3 border-b border-[var(--instagram-border)]">
+                <span className="font-semibold text-[var(--instagram-text-primary)]">
+                  조회한 사람 {viewersTotal > 0 && viewersTotal}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setViewersOpen(false)}
+                  className="p-1 text-[var(--instagram-text-primary)] hover:opacity-70"
+                  aria-label="조회한 사람 목록 닫기"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <div className="overflow-y-auto">
+                {viewers.map((viewer) => (
+                  <Link
+                    key={viewer.user.id}
+                    href={`/profile/${viewer.user.id}`}
+                    onClick={close}
+                    className="flex items-center gap-3 px-4 py-2 hover:bg-gray-50"
+                  >
+                    <UserAvatar user={viewer.user} size={44} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-semibold truncate text-[var(--instagram-text-primary)]">
+                        {viewer.user.username || viewer.user.name}
+                      </p>
+                      <p className="text-xs text-[var(--instagram-text-secondary)]">
+                        {formatRelativeTime(viewer.viewed_at)}
+                      </p>
+                    </div>
+                  </Link>
+                ))}
+
+                {viewersLoading && (
+                  <div className="flex justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-[var(--instagram-text-secondary)]" />
+                  </div>
+                )}
+
+                {!viewersLoading && viewersError && (
+                  <p className="px-4 py-6 text-center text-sm text-red-600" role="alert">
+                    {viewersError}
+                  </p>
+                )}
+
+                {!viewersLoading && !viewersError && viewers.length === 0 && (
+                  <p className="px-4 py-6 text-center text-sm text-[var(--instagram-text-secondary)]">
+                    아직 이 스토리를 본 사람이 없습니다.
+                  </p>
+                )}
+
+                {!viewersLoading && viewersCursor && (
+                  <button
+                    type="button"
+                    onClick={() => loadViewers(story.id, viewersCursor)}
+                    className="w-full py-3 text-sm font-semibold text-[var(--instagram-blue)] hover:opacity-70"
+                  >
+                    더 보기
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * @file components/tags/HashtagPosts.tsx
+ * @description 해시태그 게시물 탭 컴포넌트
+ *
+ * 해시태그 페이지의 "인기 게시물" / "최근 게시물" 탭입니다.
+ * 선택한 정렬로 PostGrid에서 /api/tags/[tag]를 조회합니다.
+ *
+ * @see docs/PRD.md
+ */
+
+"use client";
+
+import { useState } from "react";
+import PostGrid from "@/components/profile/PostGrid";
+import { cn } from "@/lib/utils";
+import type { HashtagSort } from "@/lib/types";
+
+interface HashtagPostsProps {
+  tag: string; // 정규화된 해시태그 ("#" 제외)
+}
+
+const TABS: { value: HashtagSort; label: string }[] = [
+  { value: "top", label: "인기 게시물" },
+  { value: "recent", label: "최근 게시물" },
+];
+
+export default function HashtagPosts({ tag }: HashtagPostsProps) {
+  const [sort, setSort] = useState<HashtagSort>("top");
+
+  return (
+    <div>
+      {/* 정렬 탭 */}
+      <div
+        role="tablist"
+        aria-label="해시태그 게시물 정렬"
+        className="flex justify-center gap-12 border-t border-[var(--instagram-border)] mb-4"
+      >
+        {TABS.map((tab) => (
+          <button
+            key={tab.value}
+            role="tab"
+            aria-selected={sort === tab.value}
+            onClick={() => setSort(tab.value)}
+            className={cn(
+              "-mt-px py-4 text-xs font-semibold tracking-wider transition-colors",
+              sort === tab.value
+                ? "border-t border-[var(--instagram-text-primary)] text-[var(--instagram-text-primary)]"
+                : "text-[var(--instagram-text-secondary)] hover:text-[var(--instagram-text-primary)]"
+            )}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      <PostGrid tag={tag} sort={sort} />
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+/**
+ * @file components/tags/TrendingTags.tsx
+ * @description 인기 해시태그 컴포넌트
+ *
+ * 최근 24시간 동안 많이 사용된 해시태그 목록입니다. (검색 페이지 초기 화면)
+ * 태그를 클릭하면 해당 해시태그 페이지로 이동합니다.
+ *
+ * @see app/api/trending-tags/route.ts
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Hash } from "lucide-react";
+import type { TrendingHashtag } from "@/lib/types";
+import { api } from "@/lib/api-client";
+
+interface TrendingTagsProps {
+  limit?: number;
+}
+
+export default function TrendingTags({ limit = 10 }: TrendingTagsProps) {
+  const [tags, setTags] = useState<TrendingHashtag[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadTrendingTags = async () => {
+      try {
+        const data = await api.tags.trending({ limit });
+        if (!cancelled) {
+          setTags(data.tags || []);
+        }
+      } catch (err) {
+        // 인기 태그 로드 실패는 검색 화면에 영향 없도록 로그만 남김
+        console.error("Load trending tags error:", err);
+      }
+    };
+
+    loadTrendingTags();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [limit]);
+
+  // 인기 태그가 없으면 표시하지 않음 (로드 중 포함)
+  if (tags.length === 0) {
+    return null;
+  }
+
+  return (
+    <section aria-labelledby="trending-tags-heading" className="text-left">
+      <h2
+        id="trending-tags-heading"
+        className="mb-2 font-semibold text-[var(--instagram-text-primary)]"
+      >
+        인기 해시태그
+      </h2>
+      <ul className="divide-y divide-[var(--instagram-border)]">
+        {tags.map((tag) => (
+          <li key={tag.name}>
+            <Link
+              href={`/tags/${encodeURIComponent(tag.name)}`}
+              className="flex items-center gap-3 py-3 hover:bg-gray-50 transition-colors"
+            >
+              <div className="w-11 h-11 shrink-0 rounded-full border border-[var(--instagram-border)] flex items-center justify-center">
+                <Hash className="w-5 h-5 text-[var(--instagram-text-primary)]" aria-hidden="true" />
+              </div>
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-[var(--instagram-text-primary)] truncate">
+                  #{tag.name}
+                </p>
+                <p className="text-xs text-[var(--instagram-text-secondary)]">
+                  게시물 {tag.posts_count.toLocaleString()}개
+                </p>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
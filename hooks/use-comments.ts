@@ -0,0 +1,297 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { api } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+import {
+  cacheKeys,
+  fetchOnce,
+  getCacheEntry,
+  setCacheEntry,
+  updateCachedPost,
+  useCacheEntry,
+  type CommentsCacheEntry,
+} from "@/lib/api-cache";
+import type { CommentWithUser, DeleteCommentResponse } from "@/lib/types";
+
+const EMPTY_ENTRY: CommentsCacheEntry = {
+  comments: [],
+  replies: {},
+  isComplete: false,
+};
+
+interface UseCommentsOptions {
+  limit?: number; // 미리보기 개수 (없으면 전체 목록)
+  enabled?: boolean; // false면 조회하지 않음 (캐시 값만 사용)
+}
+
+/**
+ * 게시물 댓글/답글을 공유 캐시로 관리하는 훅
+ *
+ * PostCard의 댓글 미리보기와 PostModal의 전체 목록이 같은 캐시를 사용하므로
+ * 모달에서 작성/삭제/좋아요한 댓글이 피드 카드에도 바로 반영됩니다.
+ * 댓글 작성/삭제 시 캐시된 게시물의 comments_count와 부모 댓글의 replies_count도 함께 갱신합니다.
+ *
+ * - limit이 있으면 캐시가 비어 있을 때만 미리보기 개수만큼 조회합니다.
+ * - limit이 없으면 활성화될 때마다 전체 목록을 다시 조회합니다. (캐시 값을 먼저 표시)
+ *
+ * @param postId - 게시물 ID
+ *
+ * @example
+ * ```tsx
+ * const { comments, replies, addComment, toggleCommentLike } = useComments(
+ *   postId,
+ *   { enabled: open }
+ * );
+ * const newComment = await addComment(content, replyTo?.commentId);
+ * ```
+ */
+export function useComments(
+  postId: string,
+  { limit, enabled = true }: UseCommentsOptions = {}
+) {
+  const key = cacheKeys.comments(postId);
+  const entry = useCacheEntry<CommentsCacheEntry>(key);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadingReplyIds, setLoadingReplyIds] = useState<Set<string>>(
+    new Set()
+  );
+
+  const updateEntry = useCallback(
+    (updater: (entry: CommentsCacheEntry) => Partial<CommentsCacheEntry>) => {
+      setCacheEntry<CommentsCacheEntry>(key, (previous) => {
+        const current = previous ?? EMPTY_ENTRY;
+        return { ...current, ...updater(current) };
+      });
+    },
+    [key]
+  );
+
+  // 최상위 댓글 목록 조회 (펼쳐 본 답글은 유지)
+  const refresh = useCallback(async () => {
+    const data = await fetchOnce(`${key}:${limit ?? "all"}`, () =>
+      api.comments.list({ postId, limit })
+    );
+    // 그 사이 전체 목록을 받았으면 미리보기로 덮어쓰지 않음
+    if (limit && getCacheEntry<CommentsCacheEntry>(key)?.isComplete) return;
+
+    updateEntry(() => ({
+      comments: data.comments,
+      isComplete: !limit || !data.hasMore,
+    }));
+  }, [key, postId, limit, updateEntry]);
+
+  // 미리보기는 캐시가 비어 있을 때만, 전체 목록은 항상 조회
+  useEffect(() => {
+    if (!enabled) return;
+
+    const cached = getCacheEntry<CommentsCacheEntry>(key);
+    if (limit && cached) return;
+
+    if (!cached) {
+      setIsLoading(true);
+    }
+    refresh()
+      .catch((err) => {
+        // 댓글 로드 실패는 조용히 처리 (게시물은 표시)
+        console.error("Load comments error:", err);
+      })
+      .finally(() => setIsLoading(false));
+  }, [enabled, key, limit, refresh]);
+
+  // 특정 댓글의 답글 목록 조회
+  const loadReplies = useCallback(
+    async (parentId: string) => {
+      setLoadingReplyIds((prev) => new Set(prev).add(parentId));
+
+      try {
+        const data = await fetchOnce(`${key}:replies:${parentId}`, () =>
+          api.comments.list({ postId, parentId })
+        );
+        updateEntry((current) => ({
+          replies: { ...current.replies, [parentId]: data.comments },
+        }));
+      } catch (err) {
+        console.error("Load replies error:", err);
+      } finally {
+        setLoadingReplyIds((prev) => {
+          const next = new Set(prev);
+          next.delete(parentId);
+          return next;
+        });
+      }
+    },
+    [key, postId, updateEntry]
+  );
+
+  // 댓글/답글 한 개 업데이트 (답글은 부모 댓글의 답글 목록에서 찾음)
+  const updateComment = useCallback(
+    (
+      comment: CommentWithUser,
+      updater: (comment: CommentWithUser) => CommentWithUser
+    ) => {
+      const parentId = comment.parent_id;
+      updateEntry((current) =>
+        parentId
+          ? {
+              replies: {
+                ...current.replies,
+                [parentId]: (current.replies[parentId] || []).map((c) =>
+                  c.id === comment.id ? updater(c) : c
+                ),
+              },
+            }
+          : {
+              comments: current.comments.map((c) =>
+                c.id === comment.id ? updater(c) : c
+              ),
+            }
+      );
+    },
+    [updateEntry]
+  );
+
+  /**
+   * 댓글/답글 작성
+   *
+   * @param parentId - 답글이면 부모 댓글 ID
+   * @returns 작성된 댓글
+   */
+  const addComment = useCallback(
+    async (content: string, parentId?: string): Promise<CommentWithUser> => {
+      const newComment = await api.comments.create({
+        postId,
+        content,
+        parentId,
+      });
+      const newParentId = newComment.parent_id;
+
+      if (newParentId) {
+        // 답글: 부모 댓글의 답글 수 증가 (답글 목록은 펼쳐 본 경우에만 추가)
+        const hasReplies = !!getCacheEntry<CommentsCacheEntry>(key)?.replies[
+          newParentId
+        ];
+        updateEntry((current) => ({
+          comments: current.comments.map((c) =>
+            c.id === newParentId
+              ? { ...c, replies_count: (c.replies_count || 0) + 1 }
+              : c
+          ),
+          ...(hasReplies && {
+            replies: {
+              ...current.replies,
+              [newParentId]: [...current.replies[newParentId], newComment],
+            },
+          }),
+        }));
+        if (!hasReplies) {
+          loadReplies(newParentId);
+        }
+      } else {
+        updateEntry((current) => ({
+          comments: [...current.comments, newComment],
+        }));
+      }
+
+      updateCachedPost(postId, (post) => ({
+        comments_count: post.comments_count + 1,
+      }));
+      return newComment;
+    },
+    [key, postId, updateEntry, loadReplies]
+  );
+
+  /**
+   * 댓글/답글 삭제
+   *
+   * 최상위 댓글 삭제 시 답글도 함께 삭제됩니다. (deletedCount에 포함)
+   */
+  const deleteComment = useCallback(
+    async (commentId: string): Promise<DeleteCommentResponse> => {
+      const data = await api.comments.remove(commentId);
+      const deletedCount = data.deletedCount || 1;
+      const parentId = data.parentId || null;
+
+      updateEntry((current) => {
+        if (parentId) {
+          return {
+            comments: current.comments.map((c) =>
+              c.id === parentId
+                ? {
+                    ...c,
+                    replies_count: Math.max(0, (c.replies_count || 0) - 1),
+                  }
+                : c
+            ),
+            replies: {
+              ...current.replies,
+              [parentId]: (current.replies[parentId] || []).filter(
+                (c) => c.id !== commentId
+              ),
+            },
+          };
+        }
+
+        const replies = { ...current.replies };
+        delete replies[commentId];
+        return {
+          comments: current.comments.filter((c) => c.id !== commentId),
+          replies,
+        };
+      });
+
+      updateCachedPost(postId, (post) => ({
+        comments_count: Math.max(0, post.comments_count - deletedCount),
+      }));
+      return data;
+    },
+    [postId, updateEntry]
+  );
+
+  /**
+   * 댓글 좋아요 토글 (낙관적 업데이트, 실패 시 롤백 후 에러를 다시 던짐)
+   */
+  const toggleCommentLike = useCallback(
+    async (comment: CommentWithUser) => {
+      const liked = !comment.is_liked;
+      const applyLiked = (value: boolean) =>
+        updateComment(comment, (c) => ({
+          ...c,
+          is_liked: value,
+          likes_count: Math.max(0, c.likes_count + (value ? 1 : -1)),
+        }));
+
+      applyLiked(liked);
+
+      try {
+        if (liked) {
+          await api.commentLikes.add(comment.id).catch((error) => {
+            // 이미 좋아요한 댓글은 성공으로 처리
+            if (!(error instanceof ApiError && error.code === "CONFLICT")) {
+              throw error;
+            }
+          });
+        } else {
+          await api.commentLikes.remove(comment.id);
+        }
+      } catch (error) {
+        // 에러 발생 시 상태 롤백
+        applyLiked(!liked);
+        throw error;
+      }
+    },
+    [updateComment]
+  );
+
+  return {
+    comments: entry?.comments ?? EMPTY_ENTRY.comments,
+    replies: entry?.replies ?? EMPTY_ENTRY.replies,
+    isLoading,
+    loadingReplyIds,
+    refresh,
+    loadReplies,
+    addComment,
+    deleteComment,
+    toggleCommentLike,
+  };
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { api } from "@/lib/api-client";
+import {
+  cacheKeys,
+  getCacheEntry,
+  setCacheEntry,
+  useCacheEntry,
+} from "@/lib/api-cache";
+import type { FollowStatus } from "@/lib/types";
+
+/**
+ * 팔로우 상태를 공유 캐시로 관리하는 훅
+ *
+ * 같은 사용자의 팔로우 버튼이 여러 곳에 있어도 상태가 함께 바뀝니다.
+ * 비공개 계정은 팔로우 시 "requested"가 되므로 낙관적 업데이트 없이 응답으로 상태를 정합니다.
+ * 실패하면 상태를 유지한 채 에러를 다시 던집니다.
+ *
+ * @param userId - 대상 사용자 ID (Supabase user ID)
+ * @param initialStatus - 서버에서 받은 팔로우 상태 (캐시에 값이 없을 때만 사용)
+ *
+ * @example
+ * ```tsx
+ * const { status, isPending, toggleFollow } = useFollow(userId, "none");
+ * try {
+ *   const next = await toggleFollow();
+ *   onFollowChange?.(next === "following");
+ * } catch (error) {
+ *   alert(getErrorMessage(error, "작업에 실패했습니다."));
+ * }
+ * ```
+ */
+export function useFollow(userId: string, initialStatus: FollowStatus = "none") {
+  const key = cacheKeys.follow(userId);
+  const cachedStatus = useCacheEntry<FollowStatus>(key);
+  const [isPending, setIsPending] = useState(false);
+  const isPendingRef = useRef(false);
+
+  const status = cachedStatus ?? initialStatus;
+
+  // 캐시에 값이 없을 때만 서버에서 받은 상태로 채움
+  // (나중에 마운트된 컴포넌트의 오래된 값이 최근 변경을 덮어쓰지 않도록,
+  //  "none"은 상태를 모르는 경우에도 쓰는 기본값이므로 저장하지 않음)
+  useEffect(() => {
+    if (
+      initialStatus !== "none" &&
+      getCacheEntry<FollowStatus>(key) === undefined
+    ) {
+      setCacheEntry<FollowStatus>(key, initialStatus);
+    }
+  }, [key, initialStatus]);
+
+  const run = useCallback(
+    async (action: () => Promise<FollowStatus>): Promise<FollowStatus> => {
+      if (isPendingRef.current) {
+        return getCacheEntry<FollowStatus>(key) ?? initialStatus;
+      }
+
+      isPendingRef.current = true;
+      setIsPending(true);
+
+      try {
+        const nextStatus = await action();
+        setCacheEntry<FollowStatus>(key, nextStatus);
+        return nextStatus;
+      } finally {
+        isPendingRef.current = false;
+        setIsPending(false);
+      }
+    },
+    [key, initialStatus]
+  );
+
+  // 팔로우 (비공개 계정이면 팔로우 요청)
+  const follow = useCallback(
+    () =>
+      run(async () => {
+        const data = await api.follows.follow(userId);
+        return data.status;
+      }),
+    [run, userId]
+  );
+
+  // 팔로우 취소 또는 팔로우 요청 취소
+  const unfollow = useCallback(
+    () =>
+      run(async () => {
+        await api.follows.unfollow(userId);
+        return "none";
+      }),
+    [run, userId]
+  );
+
+  const toggleFollow = useCallback(
+    () =>
+      (getCacheEntry<FollowStatus>(key) ?? initialStatus) === "none"
+        ? follow()
+        : unfollow(),
+    [key, initialStatus, follow, unfollow]
+  );
+
+  return { status, isPending, follow, unfollow, toggleFollow };
+}
@@ -0,0 +1,148 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { api } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+import {
+  cacheKeys,
+  fetchOnce,
+  getCacheEntry,
+  setCacheEntry,
+  updateCachedPost,
+  useCacheEntry,
+  type PostViewerCacheEntry,
+} from "@/lib/api-cache";
+
+// 캐시된 좋아요 여부 (조회 전이면 false)
+function readIsLiked(key: string): boolean {
+  return getCacheEntry<PostViewerCacheEntry>(key)?.isLiked ?? false;
+}
+
+// 같은 게시물의 좋아요 요청이 진행 중인지 (다른 컴포넌트에서 보낸 요청 포함)
+function readIsLikePending(key: string): boolean {
+  return getCacheEntry<PostViewerCacheEntry>(key)?.isLikePending ?? false;
+}
+
+function setLikePending(key: string, isLikePending: boolean) {
+  setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+    ...previous,
+    isLikePending,
+  }));
+}
+
+// 서버의 좋아요 수로 캐시된 게시물 갱신 (낙관적으로 더한 값이 중복된 경우)
+async function syncLikesCount(postId: string) {
+  try {
+    const { post } = await api.posts.get(postId);
+    updateCachedPost(postId, () => ({ likes_count: post.likes_count }));
+  } catch (error) {
+    console.error("Sync likes count error:", error);
+  }
+}
+
+/**
+ * 게시물 좋아요 상태를 공유 캐시로 관리하는 훅
+ *
+ * 로그인한 경우 /api/likes로 좋아요 여부를 한 번 조회하고,
+ * 토글 시 좋아요 여부와 캐시된 게시물의 likes_count를 낙관적으로 업데이트합니다.
+ * 실패하면 이전 상태로 롤백한 뒤 에러를 다시 던집니다.
+ * 이미 좋아요한 게시물(CONFLICT)은 성공으로 처리하고 좋아요 수를 서버에서 다시 받아옵니다.
+ * 진행 중인 요청은 게시물별로 공유 캐시에 저장하므로, 같은 게시물을 표시하는
+ * 다른 컴포넌트(PostCard, PostModal)에서 동시에 토글해도 요청이 겹치지 않습니다.
+ *
+ * @param postId - 게시물 ID
+ *
+ * @example
+ * ```tsx
+ * const { isLiked, toggleLike } = useLikeToggle(post.id);
+ * try {
+ *   const liked = await toggleLike();
+ *   onLike?.(post.id, liked);
+ * } catch (error) {
+ *   alert(getErrorMessage(error, "좋아요 처리에 실패했습니다."));
+ * }
+ * ```
+ */
+export function useLikeToggle(postId: string) {
+  const { isSignedIn } = useAuth();
+  const key = cacheKeys.postViewer(postId);
+  const viewer = useCacheEntry<PostViewerCacheEntry>(key);
+
+  const isLiked = viewer?.isLiked ?? false;
+  const isPending = viewer?.isLikePending ?? false;
+
+  // 좋아요 여부 조회 (캐시에 없을 때만)
+  useEffect(() => {
+    if (!isSignedIn || viewer?.isLiked !== undefined) return;
+
+    fetchOnce(`likes:${postId}`, () => api.likes.status(postId))
+      .then(({ isLiked }) => {
+        setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+          ...previous,
+          isLiked,
+        }));
+      })
+      .catch((err) => {
+        console.error("Check like status error:", err);
+      });
+  }, [isSignedIn, viewer?.isLiked, postId, key]);
+
+  // 좋아요 여부와 좋아요 수를 함께 변경
+  const applyLiked = useCallback(
+    (liked: boolean) => {
+      setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+        ...previous,
+        isLiked: liked,
+      }));
+      updateCachedPost(postId, (post) => ({
+        likes_count: Math.max(0, post.likes_count + (liked ? 1 : -1)),
+      }));
+    },
+    [key, postId]
+  );
+
+  /**
+   * 좋아요 상태 변경 (이미 같은 상태면 요청하지 않음)
+   *
+   * @returns 변경 후 좋아요 여부
+   */
+  const setLiked = useCallback(
+    async (liked: boolean): Promise<boolean> => {
+      const current = readIsLiked(key);
+      if (current === liked || readIsLikePending(key)) return current;
+
+      setLikePending(key, true);
+      applyLiked(liked); // 낙관적 업데이트
+
+      try {
+        if (liked) {
+          await api.likes.add(postId).catch(async (error) => {
+            if (!(error instanceof ApiError && error.code === "CONFLICT")) {
+              throw error;
+            }
+            // 이미 좋아요를 누른 경우는 성공으로 처리 (좋아요 수는 서버 값으로 맞춤)
+            await syncLikesCount(postId);
+          });
+        } else {
+          await api.likes.remove(postId);
+        }
+        return liked;
+      } catch (error) {
+        // 에러 발생 시 상태 롤백
+        applyLiked(!liked);
+        throw error;
+      } finally {
+        setLikePending(key, false);
+      }
+    },
+    [key, postId, applyLiked]
+  );
+
+  const toggleLike = useCallback(
+    () => setLiked(!readIsLiked(key)),
+    [key, setLiked]
+  );
+
+  return { isLiked, isPending, setLiked, toggleLike };
+}
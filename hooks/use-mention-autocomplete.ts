@@ -0,0 +1,174 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { api } from "@/lib/api-client";
+import { findMentionQuery, type MentionQuery } from "@/lib/mentions";
+import type { User } from "@/lib/types";
+
+// 자동완성 후보 최대 개수
+const SUGGESTION_LIMIT = 6;
+
+// 입력이 멈춘 뒤 검색 요청까지 대기 시간
+const SEARCH_DELAY_MS = 200;
+
+const NO_SUGGESTIONS: User[] = [];
+
+type TextInputElement = HTMLInputElement | HTMLTextAreaElement;
+
+interface UseMentionAutocompleteOptions {
+  value: string;
+  onValueChange: (value: string) => void;
+  inputRef: React.RefObject<TextInputElement | null>;
+}
+
+/**
+ * 멘션(@사용자 이름) 자동완성 훅
+ *
+ * 입력 필드의 커서 앞에서 "@검색어"를 입력하면 사용자 이름/이름으로 사용자를 검색하고,
+ * 후보를 선택하면 "@사용자 이름 "으로 바꿔 넣습니다.
+ * 입력 필드의 onChange/onSelect에서 updateMentionQuery, onKeyDown에서 handleKeyDown을 호출합니다.
+ *
+ * @example
+ * ```tsx
+ * const mention = useMentionAutocomplete({ value, onValueChange: setValue, inputRef });
+ * <Input
+ *   onKeyDown={(e) => {
+ *     if (mention.handleKeyDown(e)) return;
+ *     // ...
+ *   }}
+ * />
+ * <MentionSuggestions
+ *   suggestions={mention.suggestions}
+ *   activeIndex={mention.activeIndex}
+ *   onSelect={mention.selectSuggestion}
+ * />
+ * ```
+ */
+export function useMentionAutocomplete({
+  value,
+  onValueChange,
+  inputRef,
+}: UseMentionAutocompleteOptions) {
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [suggestions, setSuggestions] = useState<User[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const query = mentionQuery?.query ?? "";
+
+  // 커서 위치 기준으로 입력 중인 멘션 갱신
+  const updateMentionQuery = useCallback(() => {
+    const input = inputRef.current;
+    if (!input) return;
+
+    const caret = input.selectionStart ?? input.value.length;
+    setMentionQuery(findMentionQuery(input.value, caret));
+  }, [inputRef]);
+
+  // 검색어가 바뀌면 잠시 기다린 뒤 사용자 검색
+  useEffect(() => {
+    if (!query) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const data = await api.search({
+          q: query,
+          type: "users",
+          limit: SUGGESTION_LIMIT,
+        });
+        if (!cancelled) {
+          // 사용자 이름이 없는 사용자는 멘션할 수 없음
+          setSuggestions((data.users || []).filter((user) => !!user.username));
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        // 자동완성 실패는 입력에 영향 없도록 로그만 남김
+        console.error("Mention search error:", error);
+      }
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const close = useCallback(() => {
+    setMentionQuery(null);
+    setSuggestions([]);
+  }, []);
+
+  // 후보 선택: 입력 중인 "@검색어"를 "@사용자 이름 "으로 교체
+  const selectSuggestion = useCallback(
+    (user: User) => {
+      if (!mentionQuery || !user.username) return;
+
+      const input = inputRef.current;
+      const caret = input?.selectionStart ?? value.length;
+      const inserted = `@${user.username} `;
+      const nextCaret = mentionQuery.start + inserted.length;
+
+      onValueChange(
+        value.slice(0, mentionQuery.start) + inserted + value.slice(caret)
+      );
+      close();
+
+      // 값이 반영된 뒤 삽입한 멘션 뒤로 커서 이동
+      requestAnimationFrame(() => {
+        input?.focus();
+        input?.setSelectionRange(nextCaret, nextCaret);
+      });
+    },
+    [mentionQuery, inputRef, value, onValueChange, close]
+  );
+
+  const visibleSuggestions = query ? suggestions : NO_SUGGESTIONS;
+
+  /**
+   * 후보 목록 키보드 조작 (↑/↓ 이동, Enter/Tab 선택, Esc 닫기)
+   *
+   * @returns 이벤트를 처리했으면 true (입력 필드의 기본 동작을 이어서 처리하지 않음)
+   */
+  const handleKeyDown = useCallback(
+    (e: React.KeyboardEvent<TextInputElement>): boolean => {
+      if (visibleSuggestions.length === 0) return false;
+
+      switch (e.key) {
+        case "ArrowDown":
+          e.preventDefault();
+          setActiveIndex((prev) => (prev + 1) % visibleSuggestions.length);
+          return true;
+        case "ArrowUp":
+          e.preventDefault();
+          setActiveIndex(
+            (prev) =>
+              (prev - 1 + visibleSuggestions.length) % visibleSuggestions.length
+          );
+          return true;
+        case "Enter":
+        case "Tab":
+          e.preventDefault();
+          selectSuggestion(
+            visibleSuggestions[Math.min(activeIndex, visibleSuggestions.length - 1)]
+          );
+          return true;
+        case "Escape":
+          e.preventDefault();
+          close();
+          return true;
+        default:
+          return false;
+      }
+    },
+    [visibleSuggestions, activeIndex, selectSuggestion, close]
+  );
+
+  return {
+    suggestions: visibleSuggestions,
+    activeIndex,
+    updateMentionQuery,
+    handleKeyDown,
+    selectSuggestion,
+    close,
+  };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useClerkSupabaseClient } from "@/utils/supabase/clerk-client";
+
+// 게시물 작성 시 미디어 저장까지 끝난 뒤 조회하도록 잠시 대기 (여러 게시물은 한 번에 처리)
+const CHECK_DELAY_MS = 2000;
+
+/**
+ * 새 게시물 작성을 Supabase Realtime으로 구독하는 훅
+ *
+ * posts 테이블에 INSERT가 발생하면 onNewPosts를 호출합니다.
+ * 팔로잉/비공개/차단 필터는 API에서 적용되므로 콜백에서 피드 첫 페이지를 다시 조회해
+ * 실제로 표시할 새 게시물이 있는지 확인합니다.
+ *
+ * @param enabled - 구독 여부 (홈 피드에서만 사용)
+ *
+ * @example
+ * ```tsx
+ * useNewPostsRealtime(isHomeFeed, checkNewPosts);
+ * ```
+ *
+ * @see supabase/migrations/20250105000011_enable_realtime.sql
+ */
+export function useNewPostsRealtime(enabled: boolean, onNewPosts: () => void) {
+  const supabase = useClerkSupabaseClient();
+  const onNewPostsRef = useRef(onNewPosts);
+
+  // 콜백이 바뀌어도 다시 구독하지 않도록 최신 콜백만 보관
+  useEffect(() => {
+    onNewPostsRef.current = onNewPosts;
+  }, [onNewPosts]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const channel = supabase
+      .channel("posts:new")
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "posts" }, () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+          timer = null;
+          onNewPostsRef.current();
+        }, CHECK_DELAY_MS);
+      })
+      .subscribe((status, err) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          // 실시간 갱신 실패 시에도 피드는 그대로 사용할 수 있으므로 로그만 남김
+          console.error(`New posts realtime subscription ${status}:`, err);
+        }
+      });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      supabase.removeChannel(channel);
+    };
+  }, [enabled, supabase]);
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useClerkSupabaseClient } from "@/utils/supabase/clerk-client";
+
+// 짧은 시간에 여러 변경이 몰리면 한 번만 다시 조회
+const REFRESH_DELAY_MS = 500;
+
+type PostChildRow = { post_id?: string; parent_id?: string | null };
+
+interface UsePostRealtimeOptions {
+  onLikesChange: () => void;
+  onCommentsChange: (parentIds: (string | null)[]) => void; // 변경된 댓글의 parent_id (최상위 댓글은 null)
+}
+
+/**
+ * 게시물의 댓글/좋아요 변경을 Supabase Realtime으로 구독하는 훅
+ *
+ * 다른 사용자가 댓글을 달거나 좋아요를 누르면 콜백을 호출합니다.
+ * 콜백에서는 API로 최신 데이터를 다시 조회해 차단/숨김 필터가 그대로 적용되도록 합니다.
+ * DELETE 이벤트는 필터를 적용할 수 없으므로 삭제된 행의 post_id로 확인합니다.
+ * RLS가 활성화된 테이블은 DELETE 이벤트에 기본 키만 포함되므로, post_id가 없으면
+ * 이 게시물의 행일 수 있다고 보고 다시 조회합니다. (답글 여부를 알 수 없어 최상위 댓글 기준)
+ *
+ * @param postId - 구독할 게시물 ID (null이면 구독하지 않음)
+ *
+ * @example
+ * ```tsx
+ * usePostRealtime(open ? postId : null, {
+ *   onLikesChange: refreshCounts,
+ *   onCommentsChange: (parentIds) => refreshComments(parentIds),
+ * });
+ * ```
+ *
+ * @see supabase/migrations/20250105000011_enable_realtime.sql
+ * @see supabase/migrations/20250105000016_enable_rls_policies.sql
+ */
+export function usePostRealtime(
+  postId: string | null,
+  { onLikesChange, onCommentsChange }: UsePostRealtimeOptions
+) {
+  const supabase = useClerkSupabaseClient();
+  const callbacksRef = useRef({ onLikesChange, onCommentsChange });
+
+  // 콜백이 바뀌어도 다시 구독하지 않도록 최신 콜백만 보관
+  useEffect(() => {
+    callbacksRef.current = { onLikesChange, onCommentsChange };
+  }, [onLikesChange, onCommentsChange]);
+
+  useEffect(() => {
+    if (!postId) return;
+
+    let likesTimer: ReturnType<typeof setTimeout> | null = null;
+    let commentsTimer: ReturnType<typeof setTimeout> | null = null;
+    const changedParentIds = new Set<string | null>();
+
+    const scheduleLikesRefresh = () => {
+      if (likesTimer) clearTimeout(likesTimer);
+      likesTimer = setTimeout(() => {
+        likesTimer = null;
+        callbacksRef.current.onLikesChange();
+      }, REFRESH_DELAY_MS);
+    };
+
+    const scheduleCommentsRefresh = (parentId: string | null) => {
+      changedParentIds.add(parentId);
+      if (commentsTimer) clearTimeout(commentsTimer);
+      commentsTimer = setTimeout(() => {
+        commentsTimer = null;
+        const parentIds = [...changedParentIds];
+        changedParentIds.clear();
+        callbacksRef.current.onCommentsChange(parentIds);
+      }, REFRESH_DELAY_MS);
+    };
+
+    // 이 게시물의 행인지 확인 (INSERT/UPDATE는 new, DELETE는 old)
+    const getChangedRow = (
+      payload: RealtimePostgresChangesPayload<PostChildRow>
+    ): PostChildRow | null => {
+      const row = (payload.eventType === "DELETE" ? payload.old : payload.new) as PostChildRow;
+      // RLS로 DELETE 이벤트에 기본 키만 전달된 경우
+      if (payload.eventType === "DELETE" && row?.post_id === undefined) return {};
+      return row?.post_id === postId ? row : null;
+    };
+
+    const handleLikeChange = (payload: RealtimePostgresChangesPayload<PostChildRow>) => {
+      if (getChangedRow(payload)) scheduleLikesRefresh();
+    };
+
+    const handleCommentChange = (
+      payload: RealtimePostgresChangesPayload<PostChildRow>
+    ) => {
+      const row = getChangedRow(payload);
+      if (row) scheduleCommentsRefresh(row.parent_id ?? null);
+    };
+
+    const filter = `post_id=eq.${postId}`;
+    const channel = supabase
+      .channel(`post:${postId}`)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "likes", filter }, handleLikeChange)
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "likes" }, handleLikeChange)
+      .on("postgres_changes", { event: "INSERT", schema: "public", table: "comments", filter }, handleCommentChange)
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "comments", filter }, handleCommentChange)
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "comments" }, handleCommentChange)
+      .subscribe((status, err) => {
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+          // 실시간 갱신 실패 시에도 모달은 그대로 사용할 수 있으므로 로그만 남김
+          console.error(`Post realtime subscription ${status}:`, err);
+        }
+      });
+
+    return () => {
+      if (likesTimer) clearTimeout(likesTimer);
+      if (commentsTimer) clearTimeout(commentsTimer);
+      supabase.removeChannel(channel);
+    };
+  }, [postId, supabase]);
+}
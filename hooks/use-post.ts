@@ -0,0 +1,108 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { api, getErrorMessage } from "@/lib/api-client";
+import {
+  cacheKeys,
+  fetchOnce,
+  primeCacheEntry,
+  setCacheEntry,
+  updateCachedPost,
+  useCacheEntry,
+  type PostCacheEntry,
+} from "@/lib/api-cache";
+import type { PostWithStats, User } from "@/lib/types";
+
+interface UsePostOptions {
+  post?: PostWithStats; // 목록에서 받은 초기 데이터 (캐시에 없을 때만 등록)
+  user?: User; // 게시물 작성자
+  enabled?: boolean; // false면 조회하지 않음 (캐시 값만 사용)
+}
+
+/**
+ * 게시물 상세 정보를 공유 캐시로 조회하는 훅
+ *
+ * 같은 게시물을 표시하는 PostCard, PostModal 등이 하나의 캐시 값을 구독하므로
+ * 한 곳에서 좋아요/댓글 수가 바뀌면 모든 곳에 반영됩니다.
+ * 초기 데이터가 없거나 작성자 정보가 없으면 /api/posts/[postId]로 조회합니다.
+ *
+ * @param postId - 게시물 ID (null이면 조회하지 않음)
+ *
+ * @example
+ * ```tsx
+ * const { post, user, isLoading, error, refresh } = usePost(postId, {
+ *   post: initialPost,
+ *   user: initialUser,
+ *   enabled: open,
+ * });
+ * ```
+ */
+export function usePost(
+  postId: string | null,
+  { post: initialPost, user: initialUser, enabled = true }: UsePostOptions = {}
+) {
+  const key = postId ? cacheKeys.post(postId) : null;
+  const entry = useCacheEntry<PostCacheEntry>(key);
+  const [error, setError] = useState<string | null>(null);
+
+  const post = entry?.post ?? initialPost ?? null;
+  const user = entry?.user ?? initialUser;
+
+  // 목록에서 받은 초기 데이터 등록 (이미 캐시된 값이 더 최신이므로 덮어쓰지 않음)
+  useEffect(() => {
+    if (key && initialPost) {
+      primeCacheEntry<PostCacheEntry>(key, {
+        post: initialPost,
+        user: initialUser,
+      });
+    }
+  }, [key, initialPost, initialUser]);
+
+  // 게시물 다시 조회 (로딩 표시 없이 캐시 교체, 조회한 게시물 반환)
+  const refresh = useCallback(async (): Promise<PostWithStats | undefined> => {
+    if (!postId) return undefined;
+
+    const data = await fetchOnce(cacheKeys.post(postId), () =>
+      api.posts.get(postId)
+    );
+    setCacheEntry<PostCacheEntry>(cacheKeys.post(postId), (previous) => ({
+      post: data.post,
+      user: data.user ?? previous?.user,
+    }));
+    return data.post;
+  }, [postId]);
+
+  // 게시물 또는 작성자 정보가 없으면 조회
+  useEffect(() => {
+    if (!enabled || !postId || (post && user)) return;
+
+    setError(null);
+    refresh().catch((err) => {
+      console.error("Load post error:", err);
+      // 작성자 정보만 없는 경우는 게시물을 그대로 표시
+      if (!post) {
+        setError(getErrorMessage(err, "게시물을 불러오는데 실패했습니다."));
+      }
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [enabled, postId, !!post, !!user, refresh]);
+
+  // 게시물 일부 수정 (수정 모달 저장 후 등)
+  const updatePost = useCallback(
+    (updates: Partial<PostWithStats>) => {
+      if (postId) {
+        updateCachedPost(postId, () => updates);
+      }
+    },
+    [postId]
+  );
+
+  return {
+    post,
+    user,
+    isLoading: enabled && !post && !error,
+    error,
+    refresh,
+    updatePost,
+  };
+}
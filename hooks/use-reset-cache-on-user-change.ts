@@ -0,0 +1,43 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { useEffect, useRef } from "react";
+import { clearCache } from "@/lib/api-cache";
+
+/**
+ * 로그인 사용자가 바뀌면 클라이언트 공유 캐시를 비우는 훅
+ *
+ * 캐시에는 현재 사용자 기준 값(좋아요/저장/팔로우 여부 등)이 들어 있으므로
+ * 로그아웃하거나 다른 계정으로 로그인하면 이전 사용자의 값을 보여주지 않도록 비웁니다.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import { useResetCacheOnUserChange } from '@/hooks/use-reset-cache-on-user-change';
+ *
+ * export default function Layout({ children }) {
+ *   useResetCacheOnUserChange();
+ *   return <>{children}</>;
+ * }
+ * ```
+ */
+export function useResetCacheOnUserChange() {
+  const { isLoaded, userId } = useAuth();
+  const previousUserIdRef = useRef<string | null | undefined>(undefined);
+
+  useEffect(() => {
+    if (!isLoaded) {
+      return;
+    }
+
+    // 첫 로드는 비울 필요 없음 (캐시가 아직 현재 사용자 기준)
+    const currentUserId = userId ?? null;
+    const previousUserId = previousUserIdRef.current;
+    if (previousUserId !== undefined && previousUserId !== currentUserId) {
+      clearCache();
+    }
+
+    previousUserIdRef.current = currentUserId;
+  }, [isLoaded, userId]);
+}
@@ -0,0 +1,132 @@
+"use client";
+
+import { useCallback, useEffect } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { api } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+import {
+  cacheKeys,
+  fetchOnce,
+  getCacheEntry,
+  setCacheEntry,
+  useCacheEntry,
+  type PostViewerCacheEntry,
+} from "@/lib/api-cache";
+
+// 캐시된 저장 여부 (조회 전이면 false)
+function readIsSaved(key: string): boolean {
+  return getCacheEntry<PostViewerCacheEntry>(key)?.isSaved ?? false;
+}
+
+// 같은 게시물의 저장 요청이 진행 중인지 (다른 컴포넌트에서 보낸 요청 포함)
+function readIsSavePending(key: string): boolean {
+  return getCacheEntry<PostViewerCacheEntry>(key)?.isSavePending ?? false;
+}
+
+function setSavePending(key: string, isSavePending: boolean) {
+  setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+    ...previous,
+    isSavePending,
+  }));
+}
+
+/**
+ * 게시물 저장(북마크) 상태를 공유 캐시로 관리하는 훅
+ *
+ * 로그인한 경우 /api/saves로 저장 여부를 한 번 조회하고, 토글 시 낙관적으로 업데이트합니다.
+ * 실패하면 이전 상태로 롤백한 뒤 에러를 다시 던집니다.
+ * 이미 저장한 게시물(CONFLICT)은 성공으로 처리합니다.
+ * 진행 중인 요청은 게시물별로 공유 캐시에 저장합니다. (use-like-toggle과 동일)
+ *
+ * @param postId - 게시물 ID
+ *
+ * @example
+ * ```tsx
+ * const { isSaved, toggleSave } = useSaveToggle(post.id);
+ * try {
+ *   if (!(await toggleSave())) {
+ *     onSaveRemove?.(post.id);
+ *   }
+ * } catch (error) {
+ *   alert(getErrorMessage(error, "저장 처리에 실패했습니다."));
+ * }
+ * ```
+ */
+export function useSaveToggle(postId: string) {
+  const { isSignedIn } = useAuth();
+  const key = cacheKeys.postViewer(postId);
+  const viewer = useCacheEntry<PostViewerCacheEntry>(key);
+
+  const isSaved = viewer?.isSaved ?? false;
+  const isPending = viewer?.isSavePending ?? false;
+
+  // 저장 여부 조회 (캐시에 없을 때만)
+  useEffect(() => {
+    if (!isSignedIn || viewer?.isSaved !== undefined) return;
+
+    fetchOnce(`saves:${postId}`, () => api.saves.status(postId))
+      .then(({ isSaved }) => {
+        setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+          ...previous,
+          isSaved,
+        }));
+      })
+      .catch((err) => {
+        // 저장 여부 조회 실패는 저장되지 않은 것으로 표시
+        console.error("Check save status error:", err);
+      });
+  }, [isSignedIn, viewer?.isSaved, postId, key]);
+
+  const applySaved = useCallback(
+    (saved: boolean) => {
+      setCacheEntry<PostViewerCacheEntry>(key, (previous) => ({
+        ...previous,
+        isSaved: saved,
+      }));
+    },
+    [key]
+  );
+
+  /**
+   * 저장 상태 변경 (이미 같은 상태면 요청하지 않음)
+   *
+   * @returns 변경 후 저장 여부
+   */
+  const setSaved = useCallback(
+    async (saved: boolean): Promise<boolean> => {
+      const current = readIsSaved(key);
+      if (current === saved || readIsSavePending(key)) return current;
+
+      setSavePending(key, true);
+      applySaved(saved); // 낙관적 업데이트
+
+      try {
+        if (saved) {
+          await api.saves.add(postId).catch((error) => {
+            // 이미 저장한 경우는 성공으로 처리
+            if (!(error instanceof ApiError && error.code === "CONFLICT")) {
+              throw error;
+            }
+          });
+        } else {
+          await api.saves.remove(postId);
+        }
+        return saved;
+      } catch (error) {
+        // 에러 발생 시 상태 롤백
+        applySaved(!saved);
+        throw error;
+      } finally {
+        setSavePending(key, false);
+      }
+    },
+    [key, postId, applySaved]
+  );
+
+  const toggleSave = useCallback(
+    () => setSaved(!readIsSaved(key)),
+    [key, setSaved]
+  );
+
+  return { isSaved, isPending, setSaved, toggleSave };
+}
@@ -2,6 +2,7 @@
 
 import { useAuth } from "@clerk/nextjs";
 import { useEffect, useRef } from "react";
+import { api } from "@/lib/api-client";
 
 /**
  * Clerk 사용자를 Supabase DB에 자동으로 동기화하는 훅
@@ -34,15 +35,7 @@ export function useSyncUser() {
     // 동기화 실행
     const syncUser = async () => {
       try {
-        const response = await fetch("/api/sync-user", {
-          method: "POST",
-        });
-
-        if (!response.ok) {
-          console.error("Failed to sync user:", await response.text());
-          return;
-        }
-
+        await api.users.sync();
         syncedRef.current = true;
       } catch (error) {
         console.error("Error syncing user:", error);
@@ -0,0 +1,85 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { usePathname } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { api } from "@/lib/api-client";
+import type { MessageCounts } from "@/lib/types";
+
+/**
+ * 대화 읽음 처리/메시지 요청 수락·삭제 시 발생시키는 이벤트 이름
+ *
+ * 대화방에서 읽음 처리 후 이 이벤트를 발생시키면
+ * 사이드바/하단 네비게이션의 메시지 배지가 즉시 갱신됩니다.
+ */
+export const MESSAGES_READ_EVENT = "messages:read";
+
+// 배지 갱신 주기 (1분)
+const POLL_INTERVAL_MS = 60 * 1000;
+
+const EMPTY_COUNTS: MessageCounts = { unreadCount: 0, requestsCount: 0 };
+
+/**
+ * 읽지 않은 대화 수와 메시지 요청 수를 조회하는 훅
+ *
+ * 로그인한 경우에만 조회하며, 페이지 이동 시와 1분마다 갱신합니다.
+ *
+ * @example
+ * ```tsx
+ * const { unreadCount, requestsCount } = useUnreadMessages();
+ * const badgeCount = unreadCount + requestsCount;
+ * ```
+ */
+export function useUnreadMessages() {
+  const { isLoaded, userId } = useAuth();
+  const pathname = usePathname();
+  const [counts, setCounts] = useState<MessageCounts>(EMPTY_COUNTS);
+
+  const fetchCounts = useCallback(async () => {
+    try {
+      const data = await api.conversations.counts();
+      setCounts({
+        unreadCount: data.unreadCount || 0,
+        requestsCount: data.requestsCount || 0,
+      });
+    } catch (error) {
+      // 배지 조회 실패는 조용히 처리
+      console.error("Failed to fetch unread messages:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !userId) {
+      setCounts(EMPTY_COUNTS);
+      return;
+    }
+
+    fetchCounts();
+    const intervalId = setInterval(fetchCounts, POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isLoaded, userId, pathname, fetchCounts]);
+
+  // 대화방에서 읽음 처리 시 즉시 갱신
+  useEffect(() => {
+    const handleRead = (event: Event) => {
+      const detail = (event as CustomEvent<Partial<MessageCounts>>).detail;
+      if (
+        typeof detail?.unreadCount === "number" &&
+        typeof detail?.requestsCount === "number"
+      ) {
+        setCounts({
+          unreadCount: detail.unreadCount,
+          requestsCount: detail.requestsCount,
+        });
+      } else {
+        fetchCounts();
+      }
+    };
+
+    window.addEventListener(MESSAGES_READ_EVENT, handleRead);
+    return () => window.removeEventListener(MESSAGES_READ_EVENT, handleRead);
+  }, [fetchCounts]);
+
+  return counts;
+}
@@ -0,0 +1,73 @@
+"use client";
+
+import { useAuth } from "@clerk/nextjs";
+import { usePathname } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import { api } from "@/lib/api-client";
+
+/**
+ * 알림 읽음 처리 시 발생시키는 이벤트 이름
+ *
+ * 알림 페이지에서 읽음 처리 후 이 이벤트를 발생시키면
+ * 사이드바/하단 네비게이션의 배지가 즉시 갱신됩니다.
+ */
+export const NOTIFICATIONS_READ_EVENT = "notifications:read";
+
+// 배지 갱신 주기 (1분)
+const POLL_INTERVAL_MS = 60 * 1000;
+
+/**
+ * 읽지 않은 알림 수를 조회하는 훅
+ *
+ * 로그인한 경우에만 조회하며, 페이지 이동 시와 1분마다 갱신합니다.
+ *
+ * @example
+ * ```tsx
+ * const unreadCount = useUnreadNotifications();
+ * return unreadCount > 0 ? <span>{unreadCount}</span> : null;
+ * ```
+ */
+export function useUnreadNotifications() {
+  const { isLoaded, userId } = useAuth();
+  const pathname = usePathname();
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const fetchUnreadCount = useCallback(async () => {
+    try {
+      const data = await api.notifications.unreadCount();
+      setUnreadCount(data.unreadCount || 0);
+    } catch (error) {
+      // 배지 조회 실패는 조용히 처리
+      console.error("Failed to fetch unread notifications:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded || !userId) {
+      setUnreadCount(0);
+      return;
+    }
+
+    fetchUnreadCount();
+    const intervalId = setInterval(fetchUnreadCount, POLL_INTERVAL_MS);
+
+    return () => clearInterval(intervalId);
+  }, [isLoaded, userId, pathname, fetchUnreadCount]);
+
+  // 알림 페이지에서 읽음 처리 시 즉시 갱신
+  useEffect(() => {
+    const handleRead = (event: Event) => {
+      const detail = (event as CustomEvent<{ unreadCount?: number }>).detail;
+      if (typeof detail?.unreadCount === "number") {
+        setUnreadCount(detail.unreadCount);
+      } else {
+        fetchUnreadCount();
+      }
+    };
+
+    window.addEventListener(NOTIFICATIONS_READ_EVENT, handleRead);
+    return () => window.removeEventListener(NOTIFICATIONS_READ_EVENT, handleRead);
+  }, [fetchUnreadCount]);
+
+  return unreadCount;
+}
@@ -0,0 +1,24 @@
+"use client";
+
+import { useContext } from "react";
+import { UploadQueueContext } from "@/components/providers/upload-provider";
+
+/**
+ * 게시물/스토리 업로드 큐를 사용하는 훅
+ *
+ * UploadProvider 안에서만 사용할 수 있으며, 업로드는 모달을 닫아도 백그라운드에서 계속 진행됩니다.
+ *
+ * @example
+ * ```tsx
+ * const { startUpload } = useUploadQueue();
+ * startUpload({ kind: "post", media, caption });
+ * onOpenChange(false);
+ * ```
+ */
+export function useUploadQueue() {
+  const context = useContext(UploadQueueContext);
+  if (!context) {
+    throw new Error("useUploadQueue must be used within UploadProvider");
+  }
+  return context;
+}
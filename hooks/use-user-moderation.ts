@@ -0,0 +1,87 @@
+"use client";
+
+import { useCallback, useState } from "react";
+import { api, getErrorMessage } from "@/lib/api-client";
+import { ApiError } from "@/lib/api-errors";
+
+type ModerationAction = "block" | "unblock" | "mute" | "unmute";
+
+const ACTION_CONFIG: Record<
+  ModerationAction,
+  { run: (userId: string) => Promise<unknown>; errorMessage: string }
+> = {
+  block: { run: api.blocks.block, errorMessage: "차단에 실패했습니다." },
+  unblock: { run: api.blocks.unblock, errorMessage: "차단 해제에 실패했습니다." },
+  mute: { run: api.mutes.mute, errorMessage: "음소거에 실패했습니다." },
+  unmute: { run: api.mutes.unmute, errorMessage: "음소거 해제에 실패했습니다." },
+};
+
+/**
+ * 사용자 차단/음소거 훅
+ *
+ * 각 함수는 성공 시 true, 취소 또는 실패 시 false를 반환합니다.
+ * 차단은 확인 창을 띄운 뒤 요청하며, 실패 시 alert로 에러를 표시합니다.
+ *
+ * @example
+ * ```tsx
+ * const { blockUser, muteUser } = useUserModeration();
+ * if (await muteUser(post.user_id)) {
+ *   onHideAuthor?.(post.user_id);
+ * }
+ * ```
+ */
+export function useUserModeration() {
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const request = useCallback(
+    async (action: ModerationAction, userId: string): Promise<boolean> => {
+      const { run, errorMessage } = ACTION_CONFIG[action];
+      setIsProcessing(true);
+
+      try {
+        await run(userId);
+        return true;
+      } catch (error) {
+        // 이미 차단/음소거된 경우도 성공으로 처리
+        if (error instanceof ApiError && error.code === "CONFLICT") {
+          return true;
+        }
+
+        console.error("User moderation error:", error);
+        alert(getErrorMessage(error, errorMessage));
+        return false;
+      } finally {
+        setIsProcessing(false);
+      }
+    },
+    []
+  );
+
+  const blockUser = useCallback(
+    async (userId: string, userName?: string) => {
+      const confirmed = window.confirm(
+        `${userName ? `${userName}님을 ` : ""}차단하시겠어요?\n차단하면 서로의 게시물, 댓글, 프로필을 볼 수 없고 팔로우도 취소됩니다.`
+      );
+      if (!confirmed) return false;
+      return request("block", userId);
+    },
+    [request]
+  );
+
+  const unblockUser = useCallback(
+    (userId: string) => request("unblock", userId),
+    [request]
+  );
+
+  const muteUser = useCallback(
+    (userId: string) => request("mute", userId),
+    [request]
+  );
+
+  const unmuteUser = useCallback(
+    (userId: string) => request("unmute", userId),
+    [request]
+  );
+
+  return { blockUser, unblockUser, muteUser, unmuteUser, isProcessing };
+}
@@ -0,0 +1,224 @@
+"use client";
+
+/**
+ * @file lib/api-cache.ts
+ * @description 클라이언트 공유 캐시 (클라이언트 전용)
+ *
+ * 같은 게시물/댓글/팔로우 상태를 여러 컴포넌트(PostCard, PostModal, PostGrid 등)가
+ * 동시에 표시할 때, 한 곳에서의 변경(좋아요, 댓글 작성 등)이 모든 곳에 반영되도록
+ * 키 단위로 값을 저장하고 구독자에게 알립니다.
+ *
+ * - 값은 페이지 이동 간에도 유지되며 새로고침 시 초기화됩니다.
+ * - 현재 사용자 기준 값(좋아요/팔로우 여부 등)이 섞이지 않도록
+ *   로그인 사용자가 바뀌면 전체를 비웁니다. (hooks/use-reset-cache-on-user-change.ts)
+ * - 같은 키의 요청이 진행 중이면 fetchOnce가 기존 Promise를 재사용합니다.
+ *
+ * @see hooks/use-post.ts
+ * @see hooks/use-comments.ts
+ */
+
+import { useCallback, useSyncExternalStore } from "react";
+import type {
+  CommentWithUser,
+  PostWithStats,
+  User,
+} from "@/lib/types";
+
+// ============================================
+// 캐시 값 타입
+// ============================================
+
+/**
+ * 게시물 캐시 값
+ */
+export interface PostCacheEntry {
+  post: PostWithStats;
+  user?: User;
+}
+
+/**
+ * 현재 사용자 기준 게시물 상태 (좋아요/저장 여부)
+ *
+ * 값이 없으면 아직 확인하지 않은 상태입니다.
+ * 같은 게시물을 표시하는 모든 컴포넌트가 진행 중인 요청을 공유하도록
+ * 요청 진행 여부도 함께 저장합니다.
+ */
+export interface PostViewerCacheEntry {
+  isLiked?: boolean;
+  isSaved?: boolean;
+  isLikePending?: boolean;
+  isSavePending?: boolean;
+}
+
+/**
+ * 댓글 캐시 값
+ */
+export interface CommentsCacheEntry {
+  comments: CommentWithUser[]; // 최상위 댓글 (오래된 순)
+  replies: Record<string, CommentWithUser[]>; // parentId별 답글 (펼쳐 본 댓글만)
+  isComplete: boolean; // false: 미리보기용으로 일부만 조회한 상태
+}
+
+/**
+ * 캐시 키
+ */
+export const cacheKeys = {
+  post: (postId: string) => `post:${postId}`,
+  postViewer: (postId: string) => `post-viewer:${postId}`,
+  comments: (postId: string) => `comments:${postId}`,
+  follow: (userId: string) => `follow:${userId}`,
+};
+
+// ============================================
+// 저장소
+// ============================================
+
+const store = new Map<string, unknown>();
+const listeners = new Map<string, Set<() => void>>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+function notify(key: string) {
+  listeners.get(key)?.forEach((listener) => listener());
+}
+
+/**
+ * 캐시 값 조회
+ */
+export function getCacheEntry<T>(key: string): T | undefined {
+  return store.get(key) as T | undefined;
+}
+
+/**
+ * 캐시 값 저장 (이전 값을 받는 함수도 허용)
+ */
+export function setCacheEntry<T>(
+  key: string,
+  value: T | ((previous: T | undefined) => T)
+) {
+  const next =
+    typeof value === "function"
+      ? (value as (previous: T | undefined) => T)(getCacheEntry<T>(key))
+      : value;
+
+  store.set(key, next);
+  notify(key);
+}
+
+/**
+ * 캐시 값이 없을 때만 저장 (서버에서 받은 초기값 등록용)
+ */
+export function primeCacheEntry<T>(key: string, value: T) {
+  if (!store.has(key)) {
+    store.set(key, value);
+  }
+}
+
+/**
+ * 목록 API로 받은 게시물을 캐시에 반영
+ *
+ * 피드/그리드/검색 결과가 최신 카운트를 갖고 있으므로 기존 값을 덮어씁니다.
+ */
+export function cachePosts(posts: PostWithStats[], users: User[] = []) {
+  const usersById = new Map(users.map((user) => [user.id, user]));
+
+  posts.forEach((post) => {
+    setCacheEntry<PostCacheEntry>(
+      cacheKeys.post(post.id),
+      (previous) => ({
+        post,
+        user: usersById.get(post.user_id) ?? previous?.user,
+      })
+    );
+  });
+}
+
+/**
+ * 캐시된 게시물 일부 수정 (캐시에 없으면 무시)
+ *
+ * @example
+ * ```ts
+ * updateCachedPost(postId, (post) => ({ likes_count: post.likes_count + 1 }));
+ * ```
+ */
+export function updateCachedPost(
+  postId: string,
+  updater: (post: PostWithStats) => Partial<PostWithStats>
+) {
+  const key = cacheKeys.post(postId);
+  const entry = getCacheEntry<PostCacheEntry>(key);
+  if (!entry) return;
+
+  setCacheEntry<PostCacheEntry>(key, {
+    ...entry,
+    post: { ...entry.post, ...updater(entry.post) },
+  });
+}
+
+/**
+ * 같은 키의 요청이 진행 중이면 그 Promise를 재사용
+ */
+export function fetchOnce<T>(
+  key: string,
+  fetcher: () => Promise<T>
+): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) {
+    return pending as Promise<T>;
+  }
+
+  const promise = fetcher().finally(() => {
+    // 진행 중에 캐시를 비웠다면 이후 요청의 Promise를 지우지 않음
+    if (inFlight.get(key) === promise) {
+      inFlight.delete(key);
+    }
+  });
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * 캐시 전체 비우기 (로그인 사용자가 바뀐 경우)
+ *
+ * 진행 중인 요청도 재사용하지 않으며, 구독 중인 컴포넌트에는 빈 값을 알립니다.
+ */
+export function clearCache() {
+  store.clear();
+  inFlight.clear();
+  listeners.forEach((keyListeners) => {
+    keyListeners.forEach((listener) => listener());
+  });
+}
+
+function subscribe(key: string, listener: () => void) {
+  let keyListeners = listeners.get(key);
+  if (!keyListeners) {
+    keyListeners = new Set();
+    listeners.set(key, keyListeners);
+  }
+  keyListeners.add(listener);
+
+  return () => {
+    keyListeners.delete(listener);
+    if (keyListeners.size === 0) {
+      listeners.delete(key);
+    }
+  };
+}
+
+/**
+ * 캐시 값 구독 훅
+ *
+ * @param key - 캐시 키 (null이면 구독하지 않음)
+ */
+export function useCacheEntry<T>(key: string | null): T | undefined {
+  const subscribeKey = useCallback(
+    (listener: () => void) => (key ? subscribe(key, listener) : () => {}),
+    [key]
+  );
+  const getSnapshot = useCallback(
+    () => (key ? getCacheEntry<T>(key) : undefined),
+    [key]
+  );
+
+  return useSyncExternalStore(subscribeKey, getSnapshot, getSnapshot);
+}
@@ -0,0 +1,482 @@
+/**
+ * @file lib/api-client.ts
+ * @description API Route 클라이언트 (클라이언트 전용)
+ *
+ * 컴포넌트가 직접 fetch("/api/...")를 호출하는 대신 사용하는 타입이 지정된 함수 모음입니다.
+ * 요청/응답 타입은 lib/types.ts의 "API 요청/응답 타입"을 사용합니다.
+ *
+ * - 실패 응답은 readApiError로 읽어 ApiError를 던집니다. (error.code로 분기)
+ * - 네트워크 오류는 fetch의 TypeError를 그대로 던집니다. (getErrorMessage로 문구 변환)
+ * - 예약 작업 API(/api/cron/*)는 서버 간 호출 전용이므로 포함하지 않습니다.
+ *
+ * @example
+ * ```ts
+ * try {
+ *   const { post, user } = await api.posts.get(postId);
+ * } catch (error) {
+ *   if (error instanceof ApiError && error.code === "PRIVATE_ACCOUNT") {
+ *     setIsPrivate(true);
+ *   }
+ *   setError(getErrorMessage(error, "게시물을 불러오는데 실패했습니다."));
+ * }
+ * ```
+ *
+ * @see lib/api-errors.ts
+ * @see hooks/use-post.ts
+ */
+
+import { readApiError } from "@/lib/api-errors";
+import type {
+  Block,
+  CommentLike,
+  CommentsQuery,
+  CommentsResponse,
+  CommentWithUser,
+  ConversationFolder,
+  ConversationResponse,
+  ConversationsResponse,
+  CreateCommentRequest,
+  CreateConversationRequest,
+  CreatePostRequest,
+  CreateReportRequest,
+  CreateStoryRequest,
+  DeleteCommentResponse,
+  DraftsQuery,
+  FollowRequestsResponse,
+  FollowResponse,
+  Like,
+  LikeStatusResponse,
+  MarkNotificationsReadRequest,
+  MessageCounts,
+  MessagesResponse,
+  MessageWithSender,
+  Mute,
+  NotificationsResponse,
+  PageParams,
+  PostDetailResponse,
+  PostsQuery,
+  PostsResponse,
+  PostWithStats,
+  Report,
+  ReportsResponse,
+  ReportStatus,
+  ResolveReportRequest,
+  RespondFollowRequestRequest,
+  Save,
+  SaveStatusResponse,
+  SearchQuery,
+  SearchResponse,
+  SendMessageRequest,
+  StoriesResponse,
+  Story,
+  StoryViewersResponse,
+  TagPostsQuery,
+  TrendingTagsResponse,
+  UpdateConversationResponse,
+  UpdatePostRequest,
+  UpdateProfileRequest,
+  User,
+  UserProfile,
+} from "@/lib/types";
+
+type QueryValue = string | number | boolean | null | undefined;
+
+interface RequestOptions {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: Record<string, QueryValue>; // 값이 없는 항목은 제외
+  body?: unknown; // JSON으로 전송
+}
+
+interface SuccessResponse {
+  success: true;
+}
+
+/**
+ * 쿼리 파라미터를 붙인 URL 생성
+ */
+function buildUrl(path: string, query?: Record<string, QueryValue>): string {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== "") {
+      params.set(key, String(value));
+    }
+  });
+
+  const search = params.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+/**
+ * API 요청 (실패 시 ApiError를 던짐)
+ *
+ * @param path - API 경로 (예: "/api/posts")
+ * @param fallback - 서버 메시지가 없을 때 사용할 에러 메시지
+ */
+async function request<T>(
+  path: string,
+  fallback: string,
+  { method = "GET", query, body }: RequestOptions = {}
+): Promise<T> {
+  const response = await fetch(buildUrl(path, query), {
+    method,
+    ...(body !== undefined && {
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    }),
+  });
+
+  if (!response.ok) {
+    throw await readApiError(response, fallback);
+  }
+
+  return response.json();
+}
+
+/**
+ * 에러를 사용자에게 표시할 문구로 변환
+ *
+ * 네트워크 오류는 연결 확인 안내, ApiError는 서버 메시지를 사용합니다.
+ */
+export function getErrorMessage(error: unknown, fallback: string): string {
+  if (error instanceof TypeError && error.message === "Failed to fetch") {
+    return "인터넷 연결을 확인해주세요.";
+  }
+  return error instanceof Error && error.message ? error.message : fallback;
+}
+
+/**
+ * API 클라이언트
+ */
+export const api = {
+  posts: {
+    list: (query: PostsQuery = {}) =>
+      request<PostsResponse>(
+        "/api/posts",
+        "게시물을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    get: (postId: string) =>
+      request<PostDetailResponse>(
+        `/api/posts/${postId}`,
+        "게시물을 불러오는데 실패했습니다."
+      ),
+    create: (body: CreatePostRequest) =>
+      request<PostWithStats>("/api/posts", "게시물 저장에 실패했습니다.", {
+        method: "POST",
+        body,
+      }),
+    update: (postId: string, body: UpdatePostRequest) =>
+      request<PostWithStats>(
+        `/api/posts/${postId}`,
+        "게시물 수정에 실패했습니다.",
+        { method: "PUT", body }
+      ),
+    remove: (postId: string) =>
+      request<{ message: string }>(
+        `/api/posts/${postId}`,
+        "게시물 삭제에 실패했습니다.",
+        { method: "DELETE" }
+      ),
+    saved: (query: PageParams = {}) =>
+      request<PostsResponse>(
+        "/api/posts/saved",
+        "저장된 게시물을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    drafts: (query: DraftsQuery = {}) =>
+      request<PostsResponse>(
+        "/api/posts/drafts",
+        "임시 저장 게시물을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+  },
+
+  comments: {
+    list: (query: CommentsQuery) =>
+      request<CommentsResponse>(
+        "/api/comments",
+        "댓글을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    create: (body: CreateCommentRequest) =>
+      request<CommentWithUser>("/api/comments", "댓글 작성에 실패했습니다.", {
+        method: "POST",
+        body,
+      }),
+    remove: (commentId: string) =>
+      request<DeleteCommentResponse>(
+        "/api/comments",
+        "댓글 삭제에 실패했습니다.",
+        { method: "DELETE", query: { commentId } }
+      ),
+  },
+
+  commentLikes: {
+    add: (commentId: string) =>
+      request<CommentLike>(
+        "/api/comment-likes",
+        "좋아요 추가에 실패했습니다.",
+        { method: "POST", body: { commentId } }
+      ),
+    remove: (commentId: string) =>
+      request<SuccessResponse>(
+        "/api/comment-likes",
+        "좋아요 제거에 실패했습니다.",
+        { method: "DELETE", query: { commentId } }
+      ),
+  },
+
+  likes: {
+    status: (postId: string) =>
+      request<LikeStatusResponse>(
+        "/api/likes",
+        "좋아요 상태 확인에 실패했습니다.",
+        { query: { postId } }
+      ),
+    add: (postId: string) =>
+      request<Like>("/api/likes", "좋아요 추가에 실패했습니다.", {
+        method: "POST",
+        body: { postId },
+      }),
+    remove: (postId: string) =>
+      request<SuccessResponse>("/api/likes", "좋아요 제거에 실패했습니다.", {
+        method: "DELETE",
+        query: { postId },
+      }),
+  },
+
+  saves: {
+    status: (postId: string) =>
+      request<SaveStatusResponse>(
+        "/api/saves",
+        "저장 상태 확인에 실패했습니다.",
+        { query: { postId } }
+      ),
+    add: (postId: string) =>
+      request<Save>("/api/saves", "저장에 실패했습니다.", {
+        method: "POST",
+        body: { postId },
+      }),
+    remove: (postId: string) =>
+      request<SuccessResponse>("/api/saves", "저장 취소에 실패했습니다.", {
+        method: "DELETE",
+        query: { postId },
+      }),
+  },
+
+  follows: {
+    follow: (followingId: string) =>
+      request<FollowResponse>("/api/follows", "팔로우에 실패했습니다.", {
+        method: "POST",
+        body: { followingId },
+      }),
+    unfollow: (followingId: string) =>
+      request<SuccessResponse>("/api/follows", "팔로우 취소에 실패했습니다.", {
+        method: "DELETE",
+        query: { followingId },
+      }),
+  },
+
+  followRequests: {
+    list: (query: PageParams = {}) =>
+      request<FollowRequestsResponse>(
+        "/api/follow-requests",
+        "팔로우 요청을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    respond: (body: RespondFollowRequestRequest) =>
+      request<SuccessResponse>(
+        "/api/follow-requests",
+        "팔로우 요청 처리에 실패했습니다.",
+        { method: "PATCH", body }
+      ),
+  },
+
+  blocks: {
+    block: (userId: string) =>
+      request<SuccessResponse & { block: Block }>(
+        "/api/blocks",
+        "차단에 실패했습니다.",
+        { method: "POST", body: { userId } }
+      ),
+    unblock: (userId: string) =>
+      request<SuccessResponse>("/api/blocks", "차단 해제에 실패했습니다.", {
+        method: "DELETE",
+        query: { userId },
+      }),
+  },
+
+  mutes: {
+    mute: (userId: string) =>
+      request<SuccessResponse & { mute: Mute }>(
+        "/api/mutes",
+        "음소거에 실패했습니다.",
+        { method: "POST", body: { userId } }
+      ),
+    unmute: (userId: string) =>
+      request<SuccessResponse>("/api/mutes", "음소거 해제에 실패했습니다.", {
+        method: "DELETE",
+        query: { userId },
+      }),
+  },
+
+  users: {
+    // clerkUserId: /api/users/[userId]는 Clerk user ID로 조회
+    get: (clerkUserId: string) =>
+      request<UserProfile>(
+        `/api/users/${clerkUserId}`,
+        "사용자 정보를 불러오는데 실패했습니다."
+      ),
+    update: (clerkUserId: string, body: UpdateProfileRequest) =>
+      request<User>(
+        `/api/users/${clerkUserId}`,
+        "프로필 수정에 실패했습니다.",
+        { method: "PATCH", body }
+      ),
+    sync: () =>
+      request<SuccessResponse & { user: User }>(
+        "/api/sync-user",
+        "사용자 동기화에 실패했습니다.",
+        { method: "POST" }
+      ),
+  },
+
+  search: (query: SearchQuery) =>
+    request<SearchResponse>("/api/search", "검색에 실패했습니다.", {
+      query: { ...query },
+    }),
+
+  tags: {
+    posts: (tag: string, query: TagPostsQuery = {}) =>
+      request<PostsResponse>(
+        `/api/tags/${encodeURIComponent(tag)}`,
+        "게시물을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    trending: (query: { hours?: number; limit?: number } = {}) =>
+      request<TrendingTagsResponse>(
+        "/api/trending-tags",
+        "인기 해시태그를 불러오는데 실패했습니다.",
+        { query }
+      ),
+  },
+
+  notifications: {
+    list: (query: PageParams = {}) =>
+      request<NotificationsResponse>(
+        "/api/notifications",
+        "알림을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    unreadCount: () =>
+      request<{ unreadCount: number }>(
+        "/api/notifications",
+        "알림을 불러오는데 실패했습니다.",
+        { query: { countOnly: true } }
+      ),
+    markRead: (body: MarkNotificationsReadRequest) =>
+      request<SuccessResponse & { unreadCount: number }>(
+        "/api/notifications",
+        "알림 읽음 처리에 실패했습니다.",
+        { method: "PATCH", body }
+      ),
+  },
+
+  conversations: {
+    list: (query: PageParams & { folder?: ConversationFolder } = {}) =>
+      request<ConversationsResponse>(
+        "/api/conversations",
+        "대화 목록을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    counts: () =>
+      request<MessageCounts>(
+        "/api/conversations",
+        "대화 목록을 불러오는데 실패했습니다.",
+        { query: { countOnly: true } }
+      ),
+    create: (body: CreateConversationRequest) =>
+      request<{ conversationId: string }>(
+        "/api/conversations",
+        "대화방을 만들지 못했습니다.",
+        { method: "POST", body }
+      ),
+    get: (conversationId: string) =>
+      request<ConversationResponse>(
+        `/api/conversations/${conversationId}`,
+        "대화방을 불러오는데 실패했습니다."
+      ),
+    update: (conversationId: string, action: "accept" | "decline" | "read") =>
+      request<UpdateConversationResponse>(
+        `/api/conversations/${conversationId}`,
+        "요청을 처리하지 못했습니다.",
+        { method: "PATCH", body: { action } }
+      ),
+    messages: (conversationId: string, query: PageParams = {}) =>
+      request<MessagesResponse>(
+        `/api/conversations/${conversationId}/messages`,
+        "메시지를 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    sendMessage: (conversationId: string, body: SendMessageRequest) =>
+      request<{ message: MessageWithSender }>(
+        `/api/conversations/${conversationId}/messages`,
+        "메시지를 보내지 못했습니다.",
+        { method: "POST", body }
+      ),
+  },
+
+  stories: {
+    list: () =>
+      request<StoriesResponse>(
+        "/api/stories",
+        "스토리를 불러오는데 실패했습니다."
+      ),
+    create: (body: CreateStoryRequest) =>
+      request<{ story: Story }>("/api/stories", "스토리 저장에 실패했습니다.", {
+        method: "POST",
+        body,
+      }),
+    remove: (storyId: string) =>
+      request<SuccessResponse>(
+        `/api/stories/${storyId}`,
+        "스토리 삭제에 실패했습니다.",
+        { method: "DELETE" }
+      ),
+    view: (storyId: string) =>
+      request<SuccessResponse>(
+        `/api/stories/${storyId}/view`,
+        "스토리 조회 기록에 실패했습니다.",
+        { method: "POST" }
+      ),
+    viewers: (storyId: string, query: PageParams = {}) =>
+      request<StoryViewersResponse>(
+        `/api/stories/${storyId}/viewers`,
+        "조회한 사람 목록을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+  },
+
+  reports: {
+    create: (body: CreateReportRequest) =>
+      request<SuccessResponse & { report: Report }>(
+        "/api/reports",
+        "신고에 실패했습니다.",
+        { method: "POST", body }
+      ),
+    list: (query: PageParams & { status?: ReportStatus } = {}) =>
+      request<ReportsResponse>(
+        "/api/reports",
+        "신고 목록을 불러오는데 실패했습니다.",
+        { query: { ...query } }
+      ),
+    resolve: (body: ResolveReportRequest) =>
+      request<SuccessResponse & { status: ReportStatus }>(
+        "/api/reports",
+        "신고 처리에 실패했습니다.",
+        { method: "PATCH", body }
+      ),
+  },
+};
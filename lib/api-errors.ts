@@ -0,0 +1,141 @@
+/**
+ * @file lib/api-errors.ts
+ * @description API 에러 코드 및 에러 응답 형식 (서버/클라이언트 공용)
+ *
+ * 모든 API는 실패 시 같은 형식으로 응답합니다.
+ * `{ error: { code, message, details? } }`
+ *
+ * - code: 클라이언트가 분기할 수 있는 고정된 에러 코드 (API_ERROR_STATUS의 키)
+ * - message: 사용자에게 그대로 보여줄 수 있는 한국어 메시지
+ * - details: 검증 실패 항목, 재시도 대기 시간 등 추가 정보 (선택)
+ *
+ * @example
+ * ```ts
+ * // 서버 (lib/api-handler.ts의 apiHandler 안에서)
+ * throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
+ *
+ * // 클라이언트
+ * if (!response.ok) {
+ *   const error = await readApiError(response, "게시물을 불러오는데 실패했습니다.");
+ *   if (error.code === "PRIVATE_ACCOUNT") setIsPrivate(true);
+ *   throw error;
+ * }
+ * ```
+ *
+ * @see lib/api-handler.ts
+ */
+
+/**
+ * 에러 코드별 HTTP 상태 코드
+ */
+export const API_ERROR_STATUS = {
+  BAD_REQUEST: 400, // 요청은 올바르지만 처리할 수 없는 값 (예: 자기 자신 팔로우)
+  INVALID_JSON: 400, // 요청 본문이 JSON이 아님
+  VALIDATION_FAILED: 400, // 쿼리/본문 검증 실패 (details: 항목별 에러)
+  UNAUTHORIZED: 401, // 로그인 필요
+  FORBIDDEN: 403, // 권한 없음 (본인 콘텐츠가 아님, 관리자 전용 등)
+  ACCOUNT_SUSPENDED: 403, // 정지된 계정의 작성 요청
+  PRIVATE_ACCOUNT: 403, // 팔로워가 아닌 사용자의 비공개 계정 콘텐츠 조회
+  NOT_FOUND: 404, // 대상이 없거나 볼 수 없음 (차단 관계 포함)
+  USER_NOT_FOUND: 404, // 로그인 사용자의 users 행이 없음 (동기화 전)
+  CONFLICT: 409, // 이미 처리된 요청 (중복 팔로우, 중복 신고 등)
+  RATE_LIMITED: 429, // 요청 횟수 제한 (details: { retryAfterSeconds })
+  INTERNAL_ERROR: 500, // 서버 오류
+  SERVICE_UNAVAILABLE: 503, // 설정되지 않은 기능
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+/**
+ * API 에러 응답 본문
+ */
+export interface ApiErrorBody {
+  error: {
+    code: ApiErrorCode;
+    message: string;
+    details?: unknown;
+  };
+}
+
+interface ApiErrorOptions {
+  status?: number; // 기본값: 에러 코드의 상태 코드
+  details?: unknown;
+  headers?: Record<string, string>; // 응답 헤더 (예: Retry-After)
+}
+
+/**
+ * API 에러
+ *
+ * 서버에서는 apiHandler 안에서 던지면 에러 응답으로 변환되고,
+ * 클라이언트에서는 readApiError로 에러 응답을 이 형식으로 읽습니다.
+ */
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly details?: unknown;
+  readonly headers?: Record<string, string>;
+
+  constructor(code: ApiErrorCode, message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = "ApiError";
+    this.code = code;
+    this.status = options.status ?? API_ERROR_STATUS[code];
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+
+  /**
+   * 응답 본문 형식으로 변환
+   */
+  toBody(): ApiErrorBody {
+    return {
+      error: {
+        code: this.code,
+        message: this.message,
+        ...(this.details !== undefined && { details: this.details }),
+      },
+    };
+  }
+}
+
+/**
+ * 에러 응답 본문인지 확인
+ */
+export function isApiErrorBody(value: unknown): value is ApiErrorBody {
+  if (!value || typeof value !== "object" || !("error" in value)) return false;
+
+  const error = (value as { error: unknown }).error;
+  return (
+    !!error &&
+    typeof error === "object" &&
+    typeof (error as { code?: unknown }).code === "string" &&
+    typeof (error as { message?: unknown }).message === "string"
+  );
+}
+
+/**
+ * 실패한 응답을 ApiError로 읽기 (클라이언트용)
+ *
+ * 본문이 에러 형식이 아니면(네트워크/프록시 오류 등) fallback 메시지를 사용합니다.
+ *
+ * @param response - ok가 아닌 fetch 응답
+ * @param fallback - 서버 메시지가 없을 때 보여줄 메시지
+ */
+export async function readApiError(response: Response, fallback: string): Promise<ApiError> {
+  const body: unknown = await response.json().catch(() => null);
+
+  if (isApiErrorBody(body)) {
+    return new ApiError(body.error.code, body.error.message, {
+      status: response.status,
+      details: body.error.details,
+    });
+  }
+
+  // 상태 코드에 해당하는 대표 에러 코드 (없으면 서버 오류)
+  const code =
+    (Object.keys(API_ERROR_STATUS) as ApiErrorCode[]).find(
+      (key) => API_ERROR_STATUS[key] === response.status
+    ) || "INTERNAL_ERROR";
+
+  return new ApiError(code, fallback, { status: response.status });
+}
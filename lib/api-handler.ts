@@ -0,0 +1,257 @@
+/**
+ * @file lib/api-handler.ts
+ * @description API Route 공통 핸들러 (서버 전용)
+ *
+ * 모든 Route Handler가 반복하던 처리를 한 곳에서 수행합니다.
+ *
+ * 1. 인증 검증 (Clerk, 401)
+ * 2. 요청 횟수 제한 (선택, 429)
+ * 3. URL 파라미터, 쿼리, 요청 본문 검증 (zod, 400)
+ * 4. 현재 사용자의 Supabase users 행 조회 (clerk_id, 404)
+ * 5. 핸들러 실행 및 에러를 `{ error: { code, message, details } }` 응답으로 변환
+ *    (ApiError는 그대로, 예기치 못한 에러는 로그를 남기고 500)
+ *
+ * @example
+ * ```ts
+ * const createLikeSchema = z.object({
+ *   postId: idSchema("postId"),
+ * });
+ *
+ * export const POST = apiHandler(
+ *   {
+ *     name: "POST /api/likes",
+ *     errorMessage: "좋아요 추가에 실패했습니다. 잠시 후 다시 시도해주세요.",
+ *     rateLimit: "like",
+ *     body: createLikeSchema,
+ *   },
+ *   async ({ user, body, supabase }) => {
+ *     // ...
+ *     throw new ApiError("NOT_FOUND", "게시물을 찾을 수 없습니다.");
+ *   }
+ * );
+ * ```
+ *
+ * @see lib/api-errors.ts
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { z } from "zod";
+import { createClerkSupabaseClient } from "@/utils/supabase/clerk-server";
+import { ApiError } from "@/lib/api-errors";
+import { checkRateLimit, rateLimitError, type RateLimitName } from "@/lib/rate-limit";
+import type { User } from "@/lib/types";
+
+// 핸들러에 전달하는 현재 사용자 컬럼
+const CURRENT_USER_COLUMNS =
+  "id, clerk_id, name, username, avatar_url, is_private, is_suspended, created_at";
+
+/**
+ * 현재 로그인 사용자 (users 테이블)
+ */
+export type CurrentUser = Pick<
+  User,
+  "id" | "clerk_id" | "name" | "username" | "avatar_url" | "is_private" | "is_suspended" | "created_at"
+>;
+
+/**
+ * 인증 방식
+ * - user: 로그인 필요 + users 행 조회 (기본값)
+ * - clerk: 로그인만 필요 (users 행 동기화 전에도 호출하는 API)
+ * - none: 인증 없음 (예약 작업처럼 자체적으로 검증하는 API)
+ */
+type AuthMode = "user" | "clerk" | "none";
+
+type AuthContext<TAuth extends AuthMode> = TAuth extends "user"
+  ? { clerkUserId: string; user: CurrentUser }
+  : TAuth extends "clerk"
+    ? { clerkUserId: string }
+    : object;
+
+// strict 모드가 아니면 undefined가 모든 타입에 할당되므로 undefined를 먼저 확인
+type SchemaOutput<TSchema, TDefault> = [TSchema] extends [undefined]
+  ? TDefault
+  : TSchema extends z.ZodTypeAny
+    ? z.infer<TSchema>
+    : TDefault;
+
+/**
+ * 핸들러에 전달되는 요청 정보
+ */
+export type ApiContext<
+  TAuth extends AuthMode,
+  TBody extends z.ZodTypeAny | undefined,
+  TQuery extends z.ZodTypeAny | undefined,
+  TParams extends z.ZodTypeAny | undefined,
+> = AuthContext<TAuth> & {
+  request: NextRequest;
+  supabase: SupabaseClient; // Clerk 토큰을 전달하는 클라이언트 (RLS 적용)
+  body: SchemaOutput<TBody, undefined>;
+  query: SchemaOutput<TQuery, undefined>;
+  params: SchemaOutput<TParams, Record<string, string>>;
+};
+
+/**
+ * apiHandler 옵션
+ */
+export interface ApiHandlerOptions<
+  TAuth extends AuthMode,
+  TBody extends z.ZodTypeAny | undefined,
+  TQuery extends z.ZodTypeAny | undefined,
+  TParams extends z.ZodTypeAny | undefined,
+> {
+  name: string; // 로그용 이름 (예: "POST /api/likes")
+  errorMessage: string; // 예기치 못한 에러 시 사용자 메시지
+  auth?: TAuth;
+  rateLimit?: RateLimitName; // lib/rate-limit.ts의 라우트 예산
+  body?: TBody;
+  query?: TQuery;
+  params?: TParams;
+}
+
+/**
+ * UUID 식별자 스키마 (없으면 "<name>가 필요합니다.", 형식이 다르면 "올바르지 않은 <name>입니다.")
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({ postId: idSchema("postId") });
+ * ```
+ */
+export function idSchema(name: string) {
+  return z
+    .string({ required_error: `${name}가 필요합니다.`, invalid_type_error: `${name}가 필요합니다.` })
+    .min(1, `${name}가 필요합니다.`)
+    .uuid(`올바르지 않은 ${name}입니다.`);
+}
+
+/**
+ * Route Handler의 두 번째 인자 (동적 라우트 파라미터)
+ */
+interface RouteContext {
+  params: Promise<Record<string, string>>;
+}
+
+/**
+ * 에러 응답 생성
+ */
+export function apiErrorResponse(error: ApiError): NextResponse {
+  return NextResponse.json(error.toBody(), {
+    status: error.status,
+    headers: error.headers,
+  });
+}
+
+// zod 검증 실패 → VALIDATION_FAILED (첫 번째 항목의 메시지를 사용자 메시지로 사용)
+function validationError(error: z.ZodError): ApiError {
+  const issues = error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+
+  return new ApiError("VALIDATION_FAILED", issues[0]?.message || "요청 값이 올바르지 않습니다.", {
+    details: { issues },
+  });
+}
+
+function parseWithSchema<TSchema extends z.ZodTypeAny>(
+  schema: TSchema,
+  value: unknown
+): z.infer<TSchema> {
+  const result = schema.safeParse(value);
+  if (!result.success) throw validationError(result.error);
+  return result.data;
+}
+
+async function readJsonBody(request: NextRequest): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    throw new ApiError("INVALID_JSON", "요청 본문이 올바른 JSON 형식이 아닙니다.");
+  }
+}
+
+/**
+ * API Route 핸들러 생성
+ *
+ * @param options - 인증 방식, 요청 횟수 제한, zod 스키마, 로그/에러 메시지
+ * @param handler - 검증된 요청 정보를 받아 응답을 반환하는 함수 (실패 시 ApiError를 던짐)
+ * @returns Next.js Route Handler (GET/POST/PATCH/DELETE 등으로 export)
+ */
+export function apiHandler<
+  TAuth extends AuthMode = "user",
+  TBody extends z.ZodTypeAny | undefined = undefined,
+  TQuery extends z.ZodTypeAny | undefined = undefined,
+  TParams extends z.ZodTypeAny | undefined = undefined,
+>(
+  options: ApiHandlerOptions<TAuth, TBody, TQuery, TParams>,
+  handler: (context: ApiContext<TAuth, TBody, TQuery, TParams>) => Promise<Response>
+) {
+  const authMode: AuthMode = options.auth ?? "user";
+
+  return async (request: NextRequest, routeContext?: RouteContext): Promise<Response> => {
+    try {
+      // 1. 인증 검증
+      let clerkUserId: string | null = null;
+      if (authMode !== "none") {
+        clerkUserId = (await auth()).userId;
+        if (!clerkUserId) {
+          throw new ApiError("UNAUTHORIZED", "로그인이 필요합니다.");
+        }
+      }
+
+      // 2. 요청 횟수 제한 (사용자/IP별)
+      if (options.rateLimit && clerkUserId) {
+        const rateLimit = await checkRateLimit(request, options.rateLimit, clerkUserId);
+        if (!rateLimit.allowed) throw rateLimitError(rateLimit);
+      }
+
+      // 3. URL 파라미터, 쿼리, 요청 본문 검증
+      const rawParams = (await routeContext?.params) ?? {};
+      const params = options.params ? parseWithSchema(options.params, rawParams) : rawParams;
+      const query = options.query
+        ? parseWithSchema(options.query, Object.fromEntries(request.nextUrl.searchParams))
+        : undefined;
+      const body = options.body
+        ? parseWithSchema(options.body, await readJsonBody(request))
+        : undefined;
+
+      const supabase = createClerkSupabaseClient();
+
+      // 4. 현재 사용자 조회
+      let user: CurrentUser | null = null;
+      if (authMode === "user") {
+        const { data, error: userError } = await supabase
+          .from("users")
+          .select(CURRENT_USER_COLUMNS)
+          .eq("clerk_id", clerkUserId!)
+          .maybeSingle();
+
+        if (userError || !data) {
+          if (userError) console.error("User lookup error:", userError);
+          throw new ApiError(
+            "USER_NOT_FOUND",
+            "사용자 정보를 찾을 수 없습니다. 다시 로그인해주세요."
+          );
+        }
+        user = data as CurrentUser;
+      }
+
+      // 5. 핸들러 실행
+      return await handler({
+        request,
+        supabase,
+        params,
+        query,
+        body,
+        ...(clerkUserId && { clerkUserId }),
+        ...(user && { user }),
+      } as unknown as ApiContext<TAuth, TBody, TQuery, TParams>);
+    } catch (error) {
+      if (error instanceof ApiError) return apiErrorResponse(error);
+
+      console.error(`${options.name} error:`, error);
+      return apiErrorResponse(new ApiError("INTERNAL_ERROR", options.errorMessage));
+    }
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * @file lib/cron-auth.ts
+ * @description 예약 작업 API 인증 (서버 전용)
+ *
+ * /api/cron/* 라우트는 Clerk 로그인 대신 CRON_SECRET으로 호출자를 검증합니다.
+ * 환경 변수가 없으면 예약 작업을 실행하지 않습니다.
+ *
+ * @see app/api/cron/storage-cleanup/route.ts
+ * @see app/api/cron/publish-scheduled-posts/route.ts
+ */
+
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+import { ApiError } from "@/lib/api-errors";
+
+// Authorization 헤더의 비밀 값 확인 (타이밍 공격 방지)
+function isAuthorized(request: NextRequest, secret: string): boolean {
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get("authorization") || "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+/**
+ * 예약 작업 호출 검증 (Authorization: Bearer <CRON_SECRET>)
+ *
+ * @throws ApiError SERVICE_UNAVAILABLE - CRON_SECRET이 설정되지 않은 경우
+ * @throws ApiError UNAUTHORIZED - 비밀 값이 일치하지 않는 경우
+ *
+ * @example
+ * ```ts
+ * assertCronAuthorized(request, "정리 작업이 설정되지 않았습니다.");
+ * ```
+ */
+export function assertCronAuthorized(
+  request: NextRequest,
+  unavailableMessage: string
+): void {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    console.error("CRON_SECRET is not configured");
+    throw new ApiError("SERVICE_UNAVAILABLE", unavailableMessage);
+  }
+  if (!isAuthorized(request, secret)) {
+    throw new ApiError("UNAUTHORIZED", "권한이 없습니다.");
+  }
+}
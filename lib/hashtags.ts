@@ -0,0 +1,156 @@
+/**
+ * @file lib/hashtags.ts
+ * @description 해시태그 유틸리티
+ *
+ * - 캡션에서 해시태그 추출 및 정규화 (소문자, # 제외)
+ * - 캡션 렌더링용 텍스트/해시태그 분리 (PostCard, PostModal)
+ * - 게시물 작성/수정 시 post_hashtags 동기화 (API Routes)
+ *
+ * 해시태그 동기화 실패는 게시물 저장을 실패시키지 않도록 로그만 남깁니다.
+ *
+ * @see supabase/migrations/20250105000008_create_hashtags_tables.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+export const MAX_HASHTAGS_PER_POST = 30;
+export const MAX_HASHTAG_LENGTH = 100;
+
+// 해시태그 문자: 영문, 숫자, 밑줄, 라틴 확장, 한글, 일본어 가나, 한자
+const TAG_CHARS =
+  "0-9A-Za-z_\\u00C0-\\u024F\\u1100-\\u11FF\\u3040-\\u30FF\\u3130-\\u318F\\u4E00-\\u9FFF\\uAC00-\\uD7A3";
+
+// 단어 중간의 #(예: "a#b", "&#123;")는 해시태그로 보지 않음
+const HASHTAG_PATTERN = new RegExp(
+  `(^|[^${TAG_CHARS}&])#([${TAG_CHARS}]{1,${MAX_HASHTAG_LENGTH}})`,
+  "g"
+);
+
+const SINGLE_HASHTAG_PATTERN = new RegExp(
+  `^[${TAG_CHARS}]{1,${MAX_HASHTAG_LENGTH}}$`
+);
+
+/**
+ * 캡션 조각 (일반 텍스트 또는 해시태그)
+ */
+export interface CaptionSegment {
+  text: string; // 표시할 원문 (해시태그는 "#" 포함)
+  tag?: string; // 정규화된 해시태그 (해시태그인 경우만)
+}
+
+/**
+ * 해시태그 정규화 (앞의 "#" 제거, 소문자 변환)
+ *
+ * @returns 정규화된 해시태그 (유효하지 않으면 null)
+ */
+export function normalizeHashtag(raw: string): string | null {
+  const tag = raw.trim().replace(/^#/, "").toLowerCase();
+  return SINGLE_HASHTAG_PATTERN.test(tag) ? tag : null;
+}
+
+/**
+ * 텍스트에서 해시태그 추출
+ *
+ * @returns 정규화된 해시태그 목록 (등장 순, 중복 제거, 최대 30개)
+ */
+export function extractHashtags(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const tags = new Set<string>();
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    tags.add(match[2].toLowerCase());
+    if (tags.size >= MAX_HASHTAGS_PER_POST) break;
+  }
+
+  return [...tags];
+}
+
+/**
+ * 텍스트를 일반 텍스트와 해시태그 조각으로 분리 (링크 렌더링용)
+ */
+export function splitHashtags(text: string): CaptionSegment[] {
+  const segments: CaptionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(HASHTAG_PATTERN)) {
+    // match[1]은 해시태그 앞의 구분 문자 (일반 텍스트에 포함)
+    const tagStart = (match.index ?? 0) + match[1].length;
+    if (tagStart > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, tagStart) });
+    }
+    segments.push({ text: `#${match[2]}`, tag: match[2].toLowerCase() });
+    lastIndex = tagStart + match[2].length + 1;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * 게시물의 해시태그를 캡션 기준으로 동기화
+ *
+ * 캡션에 새로 추가된 해시태그는 연결하고, 빠진 해시태그는 연결을 해제합니다.
+ */
+export async function syncPostHashtags(
+  supabase: SupabaseClient,
+  postId: string,
+  caption: string | null
+): Promise<void> {
+  const names = extractHashtags(caption);
+
+  let hashtagIds: string[] = [];
+  if (names.length > 0) {
+    // 1. 없는 해시태그 생성
+    const { error: upsertError } = await supabase
+      .from("hashtags")
+      .upsert(
+        names.map((name) => ({ name })),
+        { onConflict: "name", ignoreDuplicates: true }
+      );
+
+    if (upsertError) {
+      console.error("Hashtags upsert error:", upsertError);
+      return;
+    }
+
+    const { data: hashtags, error: hashtagsError } = await supabase
+      .from("hashtags")
+      .select("id")
+      .in("name", names);
+
+    if (hashtagsError) {
+      console.error("Hashtags query error:", hashtagsError);
+      return;
+    }
+
+    hashtagIds = (hashtags || []).map((hashtag) => hashtag.id);
+  }
+
+  // 2. 캡션에서 빠진 해시태그 연결 해제
+  let deleteQuery = supabase.from("post_hashtags").delete().eq("post_id", postId);
+  if (hashtagIds.length > 0) {
+    deleteQuery = deleteQuery.not("hashtag_id", "in", `(${hashtagIds.join(",")})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) {
+    console.error("Post hashtags delete error:", deleteError);
+  }
+
+  // 3. 새 해시태그 연결 (기존 연결은 created_at 유지)
+  if (hashtagIds.length > 0) {
+    const { error: linkError } = await supabase
+      .from("post_hashtags")
+      .upsert(
+        hashtagIds.map((hashtagId) => ({ post_id: postId, hashtag_id: hashtagId })),
+        { onConflict: "post_id,hashtag_id", ignoreDuplicates: true }
+      );
+
+    if (linkError) {
+      console.error("Post hashtags insert error:", linkError);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * @file lib/media-processing.ts
+ * @description 게시물 이미지 후처리 (서버 전용)
+ *
+ * 클라이언트가 posts 버킷에 업로드한 원본 이미지를 게시물 저장 전에 처리합니다.
+ * - 방향(EXIF Orientation)을 픽셀에 적용한 뒤 EXIF/GPS 등 모든 메타데이터 제거
+ * - WebP 변형 생성: large(최대 1440px), medium(최대 1080px), thumbnail(640px 정사각형)
+ * - large 변형을 media_url로 사용하고, 원본은 게시물 저장 후 삭제
+ *   (원본은 API에서 요청한 사용자의 폴더 `${clerkUserId}/`에 있고 사용 중이 아닌지 확인한 파일)
+ * - 변형은 기존 파일을 덮어쓰지 않으므로 실패 시 정리(createdPaths)는 이번 요청이 만든 파일만 삭제
+ *
+ * 동영상 파일은 그대로 사용하고, 클라이언트가 함께 업로드한 포스터 이미지만 같은 방식으로 처리합니다.
+ *
+ * @see supabase/migrations/20250105000013_add_media_variants.sql
+ * @see supabase/migrations/20250105000014_add_video_metadata.sql
+ */
+
+import sharp from "sharp";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getStoragePath } from "@/lib/post-media";
+import type { MediaType, MediaVariantName, MediaVariants } from "@/lib/types";
+
+const POSTS_BUCKET = "posts";
+
+// 변형별 최대 크기 (thumbnail은 정사각형으로 잘라냄)
+const VARIANT_SIZES: Record<MediaVariantName, number> = {
+  large: 1440,
+  medium: 1080,
+  thumbnail: 640,
+};
+
+const WEBP_QUALITY = 80;
+
+/**
+ * 후처리할 게시물 미디어 (클라이언트 업로드 결과)
+ */
+export interface UploadedMedia {
+  url: string;
+  type: MediaType;
+  posterUrl?: string | null; // 동영상 포스터 (posts 버킷)
+  duration?: number | null; // 동영상 재생 길이 (초)
+}
+
+/**
+ * 후처리된 게시물 미디어 (post_media 저장용)
+ */
+export interface ProcessedMedia {
+  url: string; // 이미지는 large 변형 URL
+  type: MediaType;
+  width: number | null; // 동영상은 포스터 기준
+  height: number | null;
+  variants: MediaVariants | null; // 동영상은 포스터 변형
+  posterUrl: string | null; // 포스터 large 변형 URL (동영상만)
+  duration: number | null;
+}
+
+/**
+ * 게시물 미디어 후처리 결과
+ */
+export interface ProcessPostMediaResult {
+  media: ProcessedMedia[]; // 요청 순서 유지
+  createdPaths: string[]; // 이번 요청에서 새로 만든 변형 파일 (게시물 저장 실패 시 삭제)
+  originalPaths: string[]; // 처리한 원본 파일 (게시물 저장 후 삭제)
+}
+
+/**
+ * 원본 이미지 1개로 WebP 변형 생성 및 업로드
+ */
+async function processImage(
+  serviceRoleClient: SupabaseClient,
+  path: string,
+  createdPaths: string[]
+): Promise<Pick<ProcessedMedia, "url" | "width" | "height" | "variants">> {
+  const { data: file, error: downloadError } = await serviceRoleClient.storage
+    .from(POSTS_BUCKET)
+    .download(path);
+
+  if (downloadError || !file) {
+    throw new Error(`Original download failed: ${downloadError?.message}`);
+  }
+
+  // rotate(): EXIF 방향을 적용 (sharp는 기본적으로 출력에 메타데이터를 포함하지 않음)
+  const source = sharp(Buffer.from(await file.arrayBuffer()), {
+    failOn: "error",
+  }).rotate();
+
+  const baseName = path.replace(/\.[^./]+$/, "");
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const variants: MediaVariants = {};
+  let width: number | null = null;
+  let height: number | null = null;
+
+  for (const [name, size] of Object.entries(VARIANT_SIZES) as [
+    MediaVariantName,
+    number,
+  ][]) {
+    const resized =
+      name === "thumbnail"
+        ? source.clone().resize(size, size, { fit: "cover", position: "attention" })
+        : source.clone().resize(size, size, { fit: "inside", withoutEnlargement: true });
+
+    const { data, info } = await resized
+      .webp({ quality: WEBP_QUALITY })
+      .toBuffer({ resolveWithObject: true });
+
+    const variantPath = `${baseName}_${name}.webp`;
+    const { error: uploadError } = await serviceRoleClient.storage
+      .from(POSTS_BUCKET)
+      .upload(variantPath, data, {
+        contentType: "image/webp",
+        cacheControl: "3600",
+        upsert: false, // 이미 있는 파일(다른 게시물의 변형)은 덮어쓰지 않고 실패
+      });
+
+    if (uploadError) {
+      throw new Error(`Variant upload failed: ${uploadError.message}`);
+    }
+
+    createdPaths.push(variantPath);
+    variants[name] = `${supabaseUrl}/storage/v1/object/public/${POSTS_BUCKET}/${variantPath}`;
+
+    if (name === "large") {
+      width = info.width;
+      height = info.height;
+    }
+  }
+
+  return { url: variants.large!, width, height, variants };
+}
+
+/**
+ * 게시물 미디어 후처리
+ *
+ * 이미지를 순서대로 처리하며(메모리 사용량 제한), 하나라도 실패하면
+ * 이미 만든 변형 파일을 삭제하고 에러를 던집니다. 원본 파일은 삭제하지 않으므로
+ * 호출한 쪽에서 게시물 저장 결과에 따라 originalPaths 또는 createdPaths를 정리합니다.
+ *
+ * @param serviceRoleClient - Storage 다운로드/업로드 권한이 있는 Service Role 클라이언트
+ */
+export async function processPostMedia(
+  serviceRoleClient: SupabaseClient,
+  media: UploadedMedia[]
+): Promise<ProcessPostMediaResult> {
+  const createdPaths: string[] = [];
+  const originalPaths: string[] = [];
+  const processed: ProcessedMedia[] = [];
+
+  try {
+    for (const item of media) {
+      const isVideo = item.type === "video";
+      const duration = isVideo ? item.duration ?? null : null;
+      // 이미지는 원본, 동영상은 포스터 이미지를 처리
+      const imageUrl = isVideo ? item.posterUrl : item.url;
+      const path = imageUrl ? getStoragePath(imageUrl) : null;
+
+      if (!path) {
+        processed.push({
+          url: item.url,
+          type: item.type,
+          width: null,
+          height: null,
+          variants: null,
+          posterUrl: null,
+          duration,
+        });
+        continue;
+      }
+
+      const result = await processImage(serviceRoleClient, path, createdPaths);
+      processed.push(
+        isVideo
+          ? { ...result, url: item.url, type: item.type, posterUrl: result.url, duration }
+          : { ...result, type: item.type, posterUrl: null, duration }
+      );
+      originalPaths.push(path);
+    }
+  } catch (error) {
+    await removePostFiles(serviceRoleClient, createdPaths);
+    throw error;
+  }
+
+  return { media: processed, createdPaths, originalPaths };
+}
+
+/**
+ * posts 버킷 파일 삭제 (실패해도 에러를 던지지 않음)
+ */
+export async function removePostFiles(
+  serviceRoleClient: SupabaseClient,
+  paths: string[]
+): Promise<void> {
+  if (paths.length === 0) return;
+
+  const { error } = await serviceRoleClient.storage
+    .from(POSTS_BUCKET)
+    .remove(paths);
+
+  if (error) {
+    console.error("Post files remove error:", error);
+  }
+}
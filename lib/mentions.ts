@@ -0,0 +1,281 @@
+/**
+ * @file lib/mentions.ts
+ * @description @멘션 유틸리티
+ *
+ * - 캡션/댓글에서 @사용자 이름 추출 및 정규화 (소문자, @ 제외)
+ * - 렌더링용 텍스트/멘션 분리 (LinkedText)
+ * - 입력 중인 @멘션 검색어 찾기 (자동완성)
+ * - 게시물 작성/수정, 댓글 작성 시 mentions 동기화 및 멘션 알림 생성 (API Routes)
+ *
+ * 멘션은 작성 당시의 사용자 이름(handle)과 사용자 ID를 함께 저장하므로
+ * 멘션된 사용자가 사용자 이름을 바꿔도 기존 캡션/댓글의 링크가 유지됩니다.
+ * 멘션 동기화 실패는 게시물/댓글 저장을 실패시키지 않도록 로그만 남깁니다.
+ *
+ * @see supabase/migrations/20250105000009_create_mentions_table.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createNotification } from "@/lib/notifications";
+import { validateUsername } from "@/lib/profile";
+import type { MentionRef } from "@/lib/types";
+
+export const MAX_MENTIONS_PER_TEXT = 20;
+
+// 단어/이메일 중간의 @(예: "a@b.com")는 멘션으로 보지 않음
+const MENTION_PATTERN = /(^|[^A-Za-z0-9._@])@([A-Za-z0-9._]+)/g;
+
+// 커서 바로 앞에서 입력 중인 @멘션 (자동완성용, "@"만 입력한 경우 포함)
+const MENTION_QUERY_PATTERN = /(^|[^A-Za-z0-9._@])@([A-Za-z0-9._]{0,30})$/;
+
+/**
+ * 텍스트 조각 (일반 텍스트 또는 멘션)
+ */
+export interface MentionSegment {
+  text: string; // 표시할 원문 (멘션은 "@" 포함)
+  handle?: string; // 정규화된 사용자 이름 (멘션인 경우만)
+}
+
+/**
+ * 입력 중인 @멘션
+ */
+export interface MentionQuery {
+  start: number; // "@"의 위치
+  query: string; // "@" 뒤에 입력한 검색어 (소문자)
+}
+
+/**
+ * 멘션 정규화 (소문자 변환, 문장 끝 마침표 제거)
+ *
+ * @returns 정규화된 사용자 이름 (사용자 이름 규칙에 맞지 않으면 null)
+ */
+export function normalizeMention(raw: string): string | null {
+  const handle = raw.toLowerCase().replace(/\.+$/, "");
+  return validateUsername(handle) === null ? handle : null;
+}
+
+/**
+ * 텍스트에서 멘션 추출
+ *
+ * @returns 정규화된 사용자 이름 목록 (등장 순, 중복 제거, 최대 20개)
+ */
+export function extractMentions(text: string | null | undefined): string[] {
+  if (!text) return [];
+
+  const handles = new Set<string>();
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = normalizeMention(match[2]);
+    if (!handle) continue;
+
+    handles.add(handle);
+    if (handles.size >= MAX_MENTIONS_PER_TEXT) break;
+  }
+
+  return [...handles];
+}
+
+/**
+ * 텍스트를 일반 텍스트와 멘션 조각으로 분리 (링크 렌더링용)
+ */
+export function splitMentions(text: string): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(MENTION_PATTERN)) {
+    const handle = normalizeMention(match[2]);
+    if (!handle) continue;
+
+    // match[1]은 멘션 앞의 구분 문자, 문장 끝 마침표는 일반 텍스트로 남김
+    const mentionStart = (match.index ?? 0) + match[1].length;
+    const mentionEnd = mentionStart + handle.length + 1;
+    if (mentionStart > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, mentionStart) });
+    }
+    segments.push({ text: text.slice(mentionStart, mentionEnd), handle });
+    lastIndex = mentionEnd;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex) });
+  }
+
+  return segments;
+}
+
+/**
+ * 커서 위치에서 입력 중인 @멘션 찾기 (자동완성용)
+ *
+ * @param caret - 입력 필드의 커서 위치 (selectionStart)
+ * @returns 입력 중인 멘션 (멘션 입력 중이 아니면 null)
+ */
+export function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = text.slice(0, caret).match(MENTION_QUERY_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  return {
+    start: match.index + match[1].length,
+    query: match[2].toLowerCase(),
+  };
+}
+
+/**
+ * 여러 게시물 또는 댓글의 멘션을 한 번에 조회
+ *
+ * @param column - "post_id"(캡션 멘션) 또는 "comment_id"(댓글 멘션)
+ * @returns 게시물/댓글 ID → 멘션 목록 맵. 조회 실패 시 빈 맵
+ */
+export async function fetchMentionMap(
+  supabase: SupabaseClient,
+  column: "post_id" | "comment_id",
+  ids: string[]
+): Promise<Map<string, MentionRef[]>> {
+  const mentionMap = new Map<string, MentionRef[]>();
+  if (ids.length === 0) return mentionMap;
+
+  const { data, error } = await supabase
+    .from("mentions")
+    .select(
+      `
+      post_id,
+      comment_id,
+      handle,
+      mentioned_user_id,
+      users (
+        clerk_id
+      )
+    `
+    )
+    .in(column, ids);
+
+  if (error) {
+    console.error("Mentions query error:", error);
+    // 멘션이 없어도 텍스트는 그대로 표시 가능
+    return mentionMap;
+  }
+
+  for (const row of (data || []) as any[]) {
+    const mentionedUser = Array.isArray(row.users) ? row.users[0] : row.users;
+    if (!mentionedUser) continue;
+
+    const id = row[column] as string;
+    const list = mentionMap.get(id) || [];
+    list.push({
+      handle: row.handle,
+      user_id: row.mentioned_user_id,
+      clerk_id: mentionedUser.clerk_id,
+    });
+    mentionMap.set(id, list);
+  }
+
+  return mentionMap;
+}
+
+interface MentionTarget {
+  postId: string; // 캡션 멘션이면 해당 게시물, 댓글 멘션이면 댓글의 게시물 (알림 링크용)
+  commentId?: string | null; // 댓글 멘션인 경우
+}
+
+interface SyncMentionsOptions {
+  excludedUserIds?: string[]; // 멘션으로 연결하지 않을 사용자 (차단 관계 등)
+  silentUserIds?: string[]; // 멘션은 연결하되 알림은 보내지 않을 사용자 (이미 답글/댓글 알림을 받는 경우)
+}
+
+/**
+ * 캡션/댓글의 멘션을 텍스트 기준으로 동기화하고 새로 멘션된 사용자에게 알림 생성
+ *
+ * 텍스트에 남아 있는 기존 멘션은 사용자 이름이 바뀌었어도 그대로 유지하고,
+ * 새로 추가된 @사용자 이름만 현재 사용자 이름으로 찾아 연결합니다.
+ *
+ * @returns 연결된 멘션 목록 (응답에 포함하여 바로 렌더링)
+ */
+export async function syncMentions(
+  supabase: SupabaseClient,
+  { postId, commentId = null }: MentionTarget,
+  text: string | null,
+  actorId: string,
+  { excludedUserIds = [], silentUserIds = [] }: SyncMentionsOptions = {}
+): Promise<MentionRef[]> {
+  const handles = extractMentions(text);
+  const column = commentId ? "comment_id" : "post_id";
+  const targetId = commentId ?? postId;
+
+  // 1. 기존 멘션 조회
+  const existingMap = await fetchMentionMap(supabase, column, [targetId]);
+  const existing = existingMap.get(targetId) || [];
+
+  // 2. 텍스트에서 빠진 멘션 삭제
+  const removedHandles = existing
+    .map((mention) => mention.handle)
+    .filter((handle) => !handles.includes(handle));
+
+  if (removedHandles.length > 0) {
+    const { error: deleteError } = await supabase
+      .from("mentions")
+      .delete()
+      .eq(column, targetId)
+      .in("handle", removedHandles);
+
+    if (deleteError) {
+      console.error("Mentions delete error:", deleteError);
+    }
+  }
+
+  const kept = existing.filter((mention) => handles.includes(mention.handle));
+  const existingHandles = new Set(existing.map((mention) => mention.handle));
+  const newHandles = handles.filter((handle) => !existingHandles.has(handle));
+  if (newHandles.length === 0) return kept;
+
+  // 3. 새 멘션의 사용자 조회 (정지된 계정, 제외 대상은 연결하지 않음)
+  const { data: users, error: usersError } = await supabase
+    .from("users")
+    .select("id, clerk_id, username")
+    .in("username", newHandles)
+    .eq("is_suspended", false);
+
+  if (usersError) {
+    console.error("Mentioned users query error:", usersError);
+    return kept;
+  }
+
+  const mentionedUsers = (users || []).filter(
+    (user) => user.username && !excludedUserIds.includes(user.id)
+  );
+  if (mentionedUsers.length === 0) return kept;
+
+  const { error: insertError } = await supabase.from("mentions").insert(
+    mentionedUsers.map((user) => ({
+      mentioned_user_id: user.id,
+      [column]: targetId,
+      handle: user.username,
+    }))
+  );
+
+  if (insertError) {
+    console.error("Mentions insert error:", insertError);
+    return kept;
+  }
+
+  // 4. 멘션 알림 생성 (이미 멘션되어 있던 사용자, 알림 제외 대상은 건너뜀)
+  const alreadyMentionedIds = new Set(existing.map((mention) => mention.user_id));
+  for (const user of mentionedUsers) {
+    if (alreadyMentionedIds.has(user.id) || silentUserIds.includes(user.id)) {
+      continue;
+    }
+
+    await createNotification({
+      recipientId: user.id,
+      actorId,
+      type: "mention",
+      postId,
+      commentId,
+    });
+  }
+
+  return [
+    ...kept,
+    ...mentionedUsers.map((user) => ({
+      handle: user.username as string,
+      user_id: user.id,
+      clerk_id: user.clerk_id,
+    })),
+  ];
+}
@@ -0,0 +1,241 @@
+/**
+ * @file lib/messages.ts
+ * @description Direct Message 유틸리티
+ *
+ * - 메시지/대화방 입력 제한 (클라이언트와 API Routes에서 같은 규칙으로 검증)
+ * - 대화방 이름, 마지막 메시지 미리보기 문구
+ * - 대화방 참여자 조회 및 메시지 요청 여부 판단 (API Routes)
+ *
+ * 대화를 시작한 사람을 팔로우하지 않는 참여자에게는 대화가 "메시지 요청"으로 표시되며,
+ * 요청을 수락하기 전에는 답장할 수 없습니다.
+ *
+ * @see supabase/migrations/20250105000010_create_messages_tables.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type {
+  ConversationMember,
+  ConversationMemberStatus,
+  ConversationWithDetails,
+  User,
+} from "@/lib/types";
+
+export const MAX_MESSAGE_LENGTH = 1000;
+export const MAX_GROUP_MEMBERS = 20; // 본인 포함
+export const MAX_CONVERSATION_TITLE_LENGTH = 50;
+
+// 대화방 참여자 조회용 사용자 컬럼
+const MEMBER_USER_COLUMNS = "id, clerk_id, name, username, avatar_url, created_at";
+
+/**
+ * 1:1 대화방 키 (두 사용자 ID를 정렬해 연결, 같은 두 사람의 대화방은 하나만 생성)
+ */
+export function getDirectKey(userId: string, otherUserId: string): string {
+  return [userId, otherUserId].sort().join(":");
+}
+
+/**
+ * 대화방 표시 이름
+ *
+ * 그룹 이름이 없으면 참여자 사용자 이름을 쉼표로 연결합니다.
+ */
+export function getConversationTitle(
+  conversation: Pick<ConversationWithDetails, "title" | "members">
+): string {
+  if (conversation.title) return conversation.title;
+
+  const names = conversation.members.map((member) => member.username || member.name);
+  return names.length > 0 ? names.join(", ") : "알 수 없는 사용자";
+}
+
+/**
+ * 마지막 메시지 미리보기 문구
+ *
+ * @example
+ * ```ts
+ * getMessagePreview(conversation, currentUserId) // "회원님: 안녕하세요"
+ * ```
+ */
+export function getMessagePreview(
+  conversation: Pick<ConversationWithDetails, "last_message">,
+  currentUserId: string | null
+): string {
+  const message = conversation.last_message;
+  if (!message) return "대화를 시작해보세요.";
+
+  const text =
+    message.kind === "post" ? "게시물을 보냈습니다." : message.content || "";
+  return message.sender_id === currentUserId ? `회원님: ${text}` : text;
+}
+
+/**
+ * 대화방 참여 정보 조회
+ *
+ * @returns 참여 정보 (참여자가 아니면 null)
+ */
+export async function getConversationMembership(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string
+): Promise<ConversationMember | null> {
+  const { data, error } = await supabase
+    .from("conversation_members")
+    .select("conversation_id, user_id, status, last_read_at, created_at")
+    .eq("conversation_id", conversationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Conversation membership query error:", error);
+    return null;
+  }
+
+  return data;
+}
+
+/**
+ * 새 대화방 참여자의 초기 상태
+ *
+ * 참여자가 대화를 시작한 사람을 팔로우하면 받은 메시지함, 아니면 메시지 요청함에 표시합니다.
+ */
+export async function getInitialMemberStatus(
+  supabase: SupabaseClient,
+  senderId: string,
+  recipientId: string
+): Promise<ConversationMemberStatus> {
+  const { data: follow } = await supabase
+    .from("follows")
+    .select("id")
+    .eq("follower_id", recipientId)
+    .eq("following_id", senderId)
+    .maybeSingle();
+
+  return follow ? "accepted" : "pending";
+}
+
+/**
+ * 여러 대화방의 참여자를 한 번에 조회
+ *
+ * @returns conversation_id → 참여자 목록(본인 포함, 요청을 삭제한 참여자 제외) 맵
+ */
+export async function fetchConversationMembersMap(
+  supabase: SupabaseClient,
+  conversationIds: string[]
+): Promise<Map<string, User[]>> {
+  const membersMap = new Map<string, User[]>();
+  if (conversationIds.length === 0) return membersMap;
+
+  const { data, error } = await supabase
+    .from("conversation_members")
+    .select(`conversation_id, users (${MEMBER_USER_COLUMNS})`)
+    .in("conversation_id", conversationIds)
+    .neq("status", "declined")
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("Conversation members query error:", error);
+    return membersMap;
+  }
+
+  for (const row of (data || []) as any[]) {
+    const member = Array.isArray(row.users) ? row.users[0] : row.users;
+    if (!member) continue;
+
+    const list = membersMap.get(row.conversation_id) || [];
+    list.push(member);
+    membersMap.set(row.conversation_id, list);
+  }
+
+  return membersMap;
+}
+
+/**
+ * conversation_member_stats 뷰 행을 대화 목록 항목으로 변환
+ *
+ * @param members - 대화방 참여자 (본인 포함)
+ */
+export function toConversationWithDetails(
+  row: any,
+  members: User[],
+  userId: string
+): ConversationWithDetails {
+  return {
+    id: row.conversation_id,
+    is_group: row.is_group,
+    title: row.title,
+    status: row.status,
+    members: members.filter((member) => member.id !== userId),
+    last_message: row.last_message_id
+      ? {
+          id: row.last_message_id,
+          sender_id: row.last_message_sender_id,
+          kind: row.last_message_kind,
+          content: row.last_message_content,
+          created_at: row.last_message_at,
+        }
+      : null,
+    last_message_at: row.last_message_at,
+    unread_count: Number(row.unread_count) || 0,
+  };
+}
+
+/**
+ * 차단 관계인 사용자와의 1:1 대화방인지 확인 (대화 목록에서 제외)
+ */
+export function isBlockedDirectConversation(
+  conversation: ConversationWithDetails,
+  blockedUserIds: string[]
+): boolean {
+  return (
+    !conversation.is_group &&
+    conversation.members.some((member) => blockedUserIds.includes(member.id))
+  );
+}
+
+/**
+ * 읽지 않은 대화 수 및 메시지 요청 수 (배지용)
+ *
+ * - unreadCount: 읽지 않은 메시지가 있는 받은 메시지함 대화 수
+ * - requestsCount: 메시지 요청함 대화 수
+ * 차단 관계인 사용자와의 1:1 대화방은 제외합니다.
+ */
+export async function getMessageCounts(
+  supabase: SupabaseClient,
+  userId: string,
+  blockedUserIds: string[]
+): Promise<{ unreadCount: number; requestsCount: number }> {
+  const { data, error } = await supabase
+    .from("conversation_member_stats")
+    .select("conversation_id, status, is_group, unread_count")
+    .eq("user_id", userId)
+    .in("status", ["accepted", "pending"])
+    .not("last_message_id", "is", null);
+
+  if (error) {
+    console.error("Message counts query error:", error);
+    return { unreadCount: 0, requestsCount: 0 };
+  }
+
+  let rows = (data || []).filter(
+    (row) => row.status === "pending" || Number(row.unread_count) > 0
+  );
+
+  const directIds = rows.filter((row) => !row.is_group).map((row) => row.conversation_id);
+  if (blockedUserIds.length > 0 && directIds.length > 0) {
+    const { data: blockedMembers } = await supabase
+      .from("conversation_members")
+      .select("conversation_id")
+      .in("conversation_id", directIds)
+      .in("user_id", blockedUserIds);
+
+    const blockedConversationIds = new Set(
+      (blockedMembers || []).map((member) => member.conversation_id)
+    );
+    rows = rows.filter((row) => !blockedConversationIds.has(row.conversation_id));
+  }
+
+  return {
+    unreadCount: rows.filter((row) => row.status === "accepted").length,
+    requestsCount: rows.filter((row) => row.status === "pending").length,
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * @file lib/moderation.ts
+ * @description 모더레이션 유틸리티 (관리자 권한, 정지된 계정)
+ *
+ * - 관리자 여부는 Clerk 사용자의 public metadata(`{ "role": "admin" }`)로 판단합니다.
+ *   Clerk Dashboard > Users > Metadata에서 설정합니다.
+ * - 숨김 게시물과 정지된 계정의 게시물은 post_stats 뷰에서 제외됩니다.
+ * - 댓글, 알림처럼 테이블을 직접 조회하는 곳에서는 작성자를 inner join으로 embed하고
+ *   정지 여부로 필터링합니다. (정지된 계정 ID 목록을 만들지 않음)
+ *   예: `.select("*, users!inner(id)").eq("users.is_suspended", false)`
+ *
+ * @see supabase/migrations/20250105000007_create_reports_table.sql
+ */
+
+import { currentUser } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * 현재 로그인 사용자가 관리자(모더레이터)인지 확인
+ */
+export async function isAdmin(): Promise<boolean> {
+  const user = await currentUser();
+  return user?.publicMetadata?.role === "admin";
+}
+
+/**
+ * 숨김 처리되지 않은 게시물의 작성자 ID 조회
+ *
+ * post_stats 뷰는 숨김 게시물과 정지된 계정의 게시물을 제외하므로
+ * 댓글/좋아요 작성 전 게시물 존재 확인에 사용합니다.
+ *
+ * @returns 작성자 ID (게시물이 없거나 숨김 처리되었으면 null)
+ */
+export async function getVisiblePostAuthorId(
+  supabase: SupabaseClient,
+  postId: string
+): Promise<string | null> {
+  const { data: post } = await supabase
+    .from("post_stats")
+    .select("user_id")
+    .eq("post_id", postId)
+    .maybeSingle();
+
+  return post?.user_id ?? null;
+}
@@ -0,0 +1,171 @@
+/**
+ * @file lib/notifications.ts
+ * @description 인앱 알림 유틸리티
+ *
+ * - 알림 생성/삭제 (API Routes에서 좋아요, 댓글, 팔로우, 멘션 성공 후 호출)
+ * - 알림 묶기 ("A님 외 12명이 회원님의 게시물을 좋아합니다")
+ * - 알림 메시지 문구 생성
+ *
+ * 알림 저장 실패는 원래 요청(좋아요, 댓글 등)을 실패시키지 않도록 로그만 남깁니다.
+ * 알림은 사용자가 직접 만들 수 없으므로(RLS) Service Role로 생성합니다.
+ *
+ * @see supabase/migrations/20250105000003_create_notifications_table.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import type {
+  NotificationGroup,
+  NotificationType,
+  NotificationWithActor,
+} from "@/lib/types";
+
+interface NotificationTarget {
+  recipientId: string; // 알림을 받는 사용자 (Supabase user ID)
+  actorId: string; // 알림을 발생시킨 사용자 (Supabase user ID)
+  type: NotificationType;
+  postId?: string | null;
+  commentId?: string | null;
+}
+
+/**
+ * 알림 생성
+ *
+ * 자기 자신에게는 알림을 만들지 않습니다.
+ * actorId는 API Routes에서 인증된 현재 사용자여야 합니다.
+ */
+export async function createNotification({
+  recipientId,
+  actorId,
+  type,
+  postId = null,
+  commentId = null,
+}: NotificationTarget): Promise<void> {
+  if (recipientId === actorId) return;
+
+  const { error } = await getServiceRoleClient().from("notifications").insert({
+    recipient_id: recipientId,
+    actor_id: actorId,
+    type,
+    post_id: postId,
+    comment_id: commentId,
+  });
+
+  if (error) {
+    console.error("Notification insert error:", error);
+  }
+}
+
+/**
+ * 알림 삭제 (좋아요 취소, 언팔로우 시)
+ *
+ * 댓글 삭제 시에는 comment_id ON DELETE CASCADE로 자동 삭제됩니다.
+ */
+export async function deleteNotifications(
+  supabase: SupabaseClient,
+  { recipientId, actorId, type, postId = null }: Omit<NotificationTarget, "commentId">
+): Promise<void> {
+  let query = supabase
+    .from("notifications")
+    .delete()
+    .eq("recipient_id", recipientId)
+    .eq("actor_id", actorId)
+    .eq("type", type);
+
+  if (postId) {
+    query = query.eq("post_id", postId);
+  }
+
+  const { error } = await query;
+
+  if (error) {
+    console.error("Notification delete error:", error);
+  }
+}
+
+/**
+ * 알림 묶음 키
+ *
+ * 같은 게시물 좋아요, 팔로우는 하나로 묶고 댓글/답글/멘션은 개별로 표시합니다.
+ */
+function getGroupKey(notification: NotificationWithActor): string {
+  switch (notification.type) {
+    case "like":
+      return `like:${notification.post_id}`;
+    case "follow":
+      return "follow";
+    default:
+      return `${notification.type}:${notification.id}`;
+  }
+}
+
+/**
+ * 알림 목록을 묶음 알림 목록으로 변환
+ *
+ * @param notifications - 최신순으로 정렬된 알림 목록
+ * @returns 가장 최근 알림 시각 기준 최신순 묶음 목록
+ */
+export function groupNotifications(
+  notifications: NotificationWithActor[]
+): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = getGroupKey(notification);
+    const group = groups.get(key);
+
+    if (!group) {
+      groups.set(key, {
+        key,
+        type: notification.type,
+        post_id: notification.post_id,
+        comment_id: notification.comment_id,
+        post_image_url: notification.post_image_url,
+        comment_content: notification.comment_content,
+        actors: [notification.actor],
+        actors_count: 1,
+        notification_ids: [notification.id],
+        is_read: notification.read_at !== null,
+        latest_at: notification.created_at,
+      });
+      continue;
+    }
+
+    group.notification_ids.push(notification.id);
+    group.is_read = group.is_read && notification.read_at !== null;
+    if (!group.actors.some((actor) => actor.id === notification.actor.id)) {
+      group.actors.push(notification.actor);
+      group.actors_count += 1;
+    }
+  }
+
+  return Array.from(groups.values());
+}
+
+/**
+ * 묶음 알림 문구 (사용자 이름 제외)
+ *
+ * @example
+ * ```ts
+ * getNotificationMessage(group) // "님 외 12명이 회원님의 게시물을 좋아합니다."
+ * ```
+ */
+export function getNotificationMessage(group: NotificationGroup): string {
+  const others =
+    group.actors_count > 1 ? `님 외 ${group.actors_count - 1}명이` : "님이";
+
+  switch (group.type) {
+    case "like":
+      return `${others} 회원님의 게시물을 좋아합니다.`;
+    case "comment":
+      return `${others} 댓글을 남겼습니다: ${group.comment_content || ""}`;
+    case "reply":
+      return `${others} 회원님의 댓글에 답글을 남겼습니다: ${group.comment_content || ""}`;
+    case "follow":
+      return `${others} 회원님을 팔로우하기 시작했습니다.`;
+    case "mention":
+      return group.comment_id
+        ? `${others} 댓글에서 회원님을 언급했습니다: ${group.comment_content || ""}`
+        : `${others} 게시물에서 회원님을 언급했습니다.`;
+  }
+}
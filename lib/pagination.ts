@@ -0,0 +1,191 @@
+/**
+ * @file lib/pagination.ts
+ * @description 커서 기반(keyset) 페이지네이션 유틸리티
+ *
+ * 목록 API에서 사용하는 불투명(opaque) 커서를 생성/해석합니다.
+ * 커서는 마지막 항목의 (created_at, id) 쌍을 base64url로 인코딩한 문자열이며,
+ * 클라이언트는 응답의 nextCursor를 그대로 다음 요청의 cursor 파라미터로 전달합니다.
+ *
+ * offset 방식과 달리 스크롤 중 새 게시물이 추가되어도
+ * 항목이 중복되거나 누락되지 않습니다.
+ *
+ * @example
+ * ```ts
+ * const { limit, offset, cursor } = parsePaginationParams(searchParams, 10);
+ *
+ * let query = orderByCursor(supabase.from("post_stats").select("*"), {
+ *   idColumn: "post_id",
+ * });
+ * query = cursor
+ *   ? applyCursor(query, cursor, { idColumn: "post_id" }).limit(limit + 1)
+ *   : query.range(offset, offset + limit);
+ *
+ * const { data } = await query;
+ * const { items, hasMore, nextCursor } = paginate(data, limit, (row) => ({
+ *   createdAt: row.created_at,
+ *   id: row.post_id,
+ * }));
+ * ```
+ */
+
+/**
+ * 커서 값 (정렬 키)
+ */
+export interface Cursor {
+  createdAt: string; // ISO timestamp
+  id: string; // UUID (동일 시각 항목의 순서 보장용)
+}
+
+/**
+ * 페이지네이션 쿼리 파라미터
+ */
+export interface PaginationParams {
+  limit: number;
+  offset: number; // cursor가 없을 때만 사용 (하위 호환)
+  cursor: Cursor | null;
+}
+
+// 커서 값 형식: id는 UUID, created_at은 ISO timestamp (PostgreSQL의 마이크로초 포함)
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d{1,6})?(Z|[+-]\d{2}:\d{2})$/;
+
+interface CursorOptions {
+  idColumn?: string; // 기본값: "id"
+  createdAtColumn?: string; // 기본값: "created_at"
+  ascending?: boolean; // 기본값: false (최신순)
+}
+
+// PostgREST 필터 빌더 중 keyset 조건에 필요한 메서드만 사용
+interface OrFilterable<T> {
+  or(filters: string): T;
+}
+
+interface Orderable<T> {
+  order(column: string, options?: { ascending?: boolean }): T;
+}
+
+/**
+ * 커서를 불투명 문자열로 인코딩
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify([cursor.createdAt, cursor.id])).toString(
+    "base64url"
+  );
+}
+
+/**
+ * 커서 문자열 해석
+ *
+ * 커서 값은 PostgREST 필터 문자열에 들어가므로(applyCursor) id는 UUID,
+ * created_at은 ISO timestamp 형식만 허용합니다. (따옴표, 쉼표 등으로 필터 구문을 바꾸지 못하도록)
+ * created_at은 마이크로초가 잘리지 않도록 받은 값을 그대로 사용합니다.
+ *
+ * @returns 유효하지 않은 커서인 경우 null
+ */
+export function decodeCursor(raw: string | null | undefined): Cursor | null {
+  if (!raw) return null;
+
+  try {
+    const decoded = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      typeof decoded[0] === "string" &&
+      typeof decoded[1] === "string" &&
+      TIMESTAMP_PATTERN.test(decoded[0]) &&
+      !Number.isNaN(Date.parse(decoded[0])) &&
+      UUID_PATTERN.test(decoded[1])
+    ) {
+      return { createdAt: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // 잘못된 커서는 무시
+  }
+
+  return null;
+}
+
+/**
+ * 쿼리 파라미터에서 limit, offset, cursor 파싱
+ *
+ * @param searchParams - 요청 URL의 쿼리 파라미터
+ * @param defaultLimit - limit 기본값
+ * @param cursorParam - 커서 파라미터 이름 (기본값: "cursor")
+ */
+export function parsePaginationParams(
+  searchParams: URLSearchParams,
+  defaultLimit: number,
+  cursorParam: string = "cursor"
+): PaginationParams {
+  const limit = parseInt(searchParams.get("limit") || String(defaultLimit), 10);
+  const offset = parseInt(searchParams.get("offset") || "0", 10);
+
+  return {
+    limit: Number.isNaN(limit) || limit < 1 ? defaultLimit : limit,
+    offset: Number.isNaN(offset) || offset < 0 ? 0 : offset,
+    cursor: decodeCursor(searchParams.get(cursorParam)),
+  };
+}
+
+/**
+ * keyset 조건 적용: 커서 이후의 항목만 조회
+ *
+ * 최신순: created_at < 커서 OR (created_at = 커서 AND id < 커서 id)
+ */
+export function applyCursor<T extends OrFilterable<T>>(
+  query: T,
+  cursor: Cursor,
+  {
+    idColumn = "id",
+    createdAtColumn = "created_at",
+    ascending = false,
+  }: CursorOptions = {}
+): T {
+  const op = ascending ? "gt" : "lt";
+  // 타임스탬프의 "+", ":" 등이 필터 구문과 충돌하지 않도록 큰따옴표로 감쌈
+  const createdAt = `"${cursor.createdAt}"`;
+  const id = `"${cursor.id}"`;
+
+  return query.or(
+    `${createdAtColumn}.${op}.${createdAt},and(${createdAtColumn}.eq.${createdAt},${idColumn}.${op}.${id})`
+  );
+}
+
+/**
+ * 커서 정렬 기준 적용 (created_at, id)
+ */
+export function orderByCursor<T extends Orderable<T>>(
+  query: T,
+  {
+    idColumn = "id",
+    createdAtColumn = "created_at",
+    ascending = false,
+  }: CursorOptions = {}
+): T {
+  return query
+    .order(createdAtColumn, { ascending })
+    .order(idColumn, { ascending });
+}
+
+/**
+ * limit + 1개 조회 결과를 페이지로 변환
+ *
+ * 한 개를 더 조회해 다음 페이지 존재 여부를 정확히 판단합니다.
+ */
+export function paginate<T>(
+  rows: T[] | null,
+  limit: number,
+  getCursor: (row: T) => Cursor
+): { items: T[]; hasMore: boolean; nextCursor: string | null } {
+  const list = rows || [];
+  const hasMore = list.length > limit;
+  const items = hasMore ? list.slice(0, limit) : list;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(getCursor(last)) : null,
+  };
+}
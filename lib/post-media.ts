@@ -0,0 +1,178 @@
+/**
+ * @file lib/post-media.ts
+ * @description 게시물 미디어(다중 이미지/동영상) 유틸리티
+ *
+ * - post_media 테이블 조회 및 게시물에 미디어 목록 연결 (API Routes용)
+ * - 미디어 목록 정규화 (post_media가 없는 기존 게시물은 image_url 단일 미디어로 처리)
+ * - 표시 위치에 맞는 이미지 변형(WebP) 및 동영상 포스터 선택
+ * - Storage URL → 버킷 내 경로 변환 및 사용자 폴더 소유권 확인
+ *
+ * @see supabase/migrations/20250105000000_create_post_media_table.sql
+ * @see supabase/migrations/20250105000013_add_media_variants.sql
+ * @see supabase/migrations/20250105000014_add_video_metadata.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MediaType, MediaVariantName, Post, PostMedia } from "@/lib/types";
+
+/**
+ * 게시물당 최대 미디어 수
+ */
+export const MAX_POST_MEDIA = 10;
+
+/**
+ * 게시물 예약 최대 기간 (일)
+ */
+export const MAX_SCHEDULE_DAYS = 75;
+
+/**
+ * URL 확장자로 미디어 종류 추정 (post_media가 없는 기존 게시물용)
+ */
+export function guessMediaType(url: string): MediaType {
+  const videoExtensions = [".mp4", ".webm", ".mov", ".avi", ".quicktime"];
+  return videoExtensions.some((ext) => url.toLowerCase().includes(ext))
+    ? "video"
+    : "image";
+}
+
+/**
+ * 게시물의 미디어 목록 반환 (position 순)
+ *
+ * post_media 행이 없는 게시물은 image_url을 단일 미디어로 반환합니다.
+ */
+export function getPostMedia(
+  post: Pick<Post, "id" | "image_url" | "created_at" | "media">
+): PostMedia[] {
+  if (post.media && post.media.length > 0) {
+    return [...post.media].sort((a, b) => a.position - b.position);
+  }
+
+  return [
+    {
+      id: `${post.id}-0`,
+      post_id: post.id,
+      media_url: post.image_url,
+      media_type: guessMediaType(post.image_url),
+      position: 0,
+      created_at: post.created_at,
+    },
+  ];
+}
+
+/**
+ * 여러 게시물의 미디어 목록을 한 번에 조회
+ *
+ * @returns post_id → 미디어 목록(position 순) 맵. 조회 실패 시 빈 맵
+ */
+export async function fetchPostMediaMap(
+  supabase: SupabaseClient,
+  postIds: string[]
+): Promise<Map<string, PostMedia[]>> {
+  const mediaMap = new Map<string, PostMedia[]>();
+  if (postIds.length === 0) return mediaMap;
+
+  const { data, error } = await supabase
+    .from("post_media")
+    .select(
+      "id, post_id, media_url, media_type, position, width, height, aspect_ratio, variants, poster_url, duration_seconds, created_at"
+    )
+    .in("post_id", postIds)
+    .order("position", { ascending: true });
+
+  if (error) {
+    console.error("Post media query error:", error);
+    // 미디어 목록이 없어도 image_url로 표시 가능
+    return mediaMap;
+  }
+
+  for (const media of (data || []) as PostMedia[]) {
+    const list = mediaMap.get(media.post_id) || [];
+    list.push(media);
+    mediaMap.set(media.post_id, list);
+  }
+
+  return mediaMap;
+}
+
+/**
+ * 표시 위치에 맞는 이미지 URL 선택
+ *
+ * 변형이 없는 미디어(후처리 전 게시물)는 media_url을 반환합니다.
+ * 동영상은 getVideoPosterUrl을 사용합니다.
+ *
+ * @example
+ * ```ts
+ * getMediaVariantUrl(media, "thumbnail") // 그리드 썸네일
+ * ```
+ */
+export function getMediaVariantUrl(
+  media: Pick<PostMedia, "media_url" | "variants">,
+  variant: MediaVariantName
+): string {
+  return media.variants?.[variant] || media.media_url;
+}
+
+/**
+ * 표시 위치에 맞는 동영상 포스터 URL 선택
+ *
+ * @returns 포스터 URL (포스터가 없는 동영상이면 null)
+ */
+export function getVideoPosterUrl(
+  media: Pick<PostMedia, "poster_url" | "variants">,
+  variant: MediaVariantName
+): string | null {
+  return media.variants?.[variant] || media.poster_url || null;
+}
+
+/**
+ * 미디어의 모든 Storage 파일 URL (원본/large + 나머지 변형 + 포스터)
+ *
+ * 게시물 삭제 시 Storage 정리에 사용합니다.
+ */
+export function getMediaFileUrls(
+  media: Pick<PostMedia, "media_url" | "variants" | "poster_url">
+): string[] {
+  return [
+    ...new Set([
+      media.media_url,
+      media.poster_url,
+      ...Object.values(media.variants || {}),
+    ]),
+  ].filter((url): url is string => !!url);
+}
+
+/**
+ * Storage public URL에서 posts 버킷 내 파일 경로 추출
+ *
+ * @example
+ * ```ts
+ * getStoragePath("https://xxx.supabase.co/storage/v1/object/public/posts/a.jpg") // "a.jpg"
+ * ```
+ */
+export function getStoragePath(url: string, bucket: string = "posts"): string | null {
+  const marker = `/storage/v1/object/public/${bucket}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+
+  const path = url.substring(index + marker.length).split("?")[0];
+  return path ? decodeURIComponent(path) : null;
+}
+
+/**
+ * Storage 경로가 사용자 폴더(`${ownerId}/`) 안의 파일인지 확인
+ *
+ * 클라이언트가 보낸 URL의 파일을 서버에서 삭제하기 전에 소유권을 검증합니다.
+ * ("..", 빈 세그먼트가 포함된 경로는 거부)
+ *
+ * @param ownerId - 업로드한 사용자의 Clerk user ID
+ */
+export function isOwnStoragePath(path: string, ownerId: string): boolean {
+  const [folder, ...rest] = path.split("/");
+  return (
+    folder === ownerId &&
+    rest.length > 0 &&
+    rest.every(
+      (segment) => segment !== "" && segment !== "." && segment !== ".."
+    )
+  );
+}
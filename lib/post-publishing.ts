@@ -0,0 +1,131 @@
+/**
+ * @file lib/post-publishing.ts
+ * @description 게시물 공개 처리 (임시 저장/예약 게시, 서버 전용)
+ *
+ * 임시 저장 게시물과 예약 시각 전의 게시물은 post_stats 뷰에서 제외되며,
+ * 해시태그/멘션도 공개되는 시점에 동기화합니다. (멘션 알림이 미리 발송되지 않도록)
+ *
+ * - 예약 시각 검증
+ * - 공개 시 해시태그/멘션 동기화
+ * - 예약 시각이 지난 게시물 공개 처리 (예약 작업에서 1분마다 실행)
+ *
+ * @see supabase/migrations/20250105000015_add_post_drafts_and_scheduling.sql
+ * @see app/api/cron/publish-scheduled-posts/route.ts
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { syncPostHashtags } from "@/lib/hashtags";
+import { syncMentions } from "@/lib/mentions";
+import { MAX_SCHEDULE_DAYS } from "@/lib/post-media";
+import { getBlockedUserIds } from "@/lib/privacy";
+import type { MentionRef } from "@/lib/types";
+
+// 예약 게시물 공개 처리 1회 처리 개수
+const PUBLISH_BATCH_SIZE = 100;
+
+/**
+ * 예약 시각 검증
+ *
+ * @returns ISO timestamp (값이 없으면 null), 유효하지 않으면 error
+ *
+ * @example
+ * ```ts
+ * const parsed = parsePublishAt(body.publishAt);
+ * if ("error" in parsed) throw new ApiError("BAD_REQUEST", parsed.error);
+ * ```
+ */
+export function parsePublishAt(
+  value: unknown
+): { publishAt: string | null } | { error: string } {
+  if (value === undefined || value === null || value === "") {
+    return { publishAt: null };
+  }
+
+  const time = typeof value === "string" ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    return { error: "유효하지 않은 예약 시각입니다." };
+  }
+  if (time <= Date.now()) {
+    return { error: "예약 시각은 현재 이후여야 합니다." };
+  }
+  if (time > Date.now() + MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `게시물은 최대 ${MAX_SCHEDULE_DAYS}일 후까지 예약할 수 있습니다.` };
+  }
+
+  return { publishAt: new Date(time).toISOString() };
+}
+
+/**
+ * 게시물이 공개 상태인지 확인 (임시 저장이 아니고 예약 시각이 지남)
+ */
+export function isPostPublished(post: {
+  is_draft?: boolean | null;
+  publish_at?: string | null;
+}): boolean {
+  return !post.is_draft && (!post.publish_at || Date.parse(post.publish_at) <= Date.now());
+}
+
+/**
+ * 공개된 게시물의 해시태그/멘션 동기화 (새로 멘션된 사용자에게 알림, 차단 관계인 사용자는 제외)
+ *
+ * @returns 연결된 멘션 목록
+ */
+export async function syncPublishedPost(
+  supabase: SupabaseClient,
+  post: { id: string; user_id: string; caption: string | null }
+): Promise<MentionRef[]> {
+  await syncPostHashtags(supabase, post.id, post.caption);
+
+  return syncMentions(supabase, { postId: post.id }, post.caption, post.user_id, {
+    excludedUserIds: await getBlockedUserIds(supabase, post.user_id),
+  });
+}
+
+/**
+ * 예약 시각이 지난 게시물 공개 처리
+ *
+ * created_at을 예약 시각으로 바꾸고 publish_at을 비운 뒤 해시태그/멘션을 동기화합니다.
+ * publish_at이 조회한 값과 같을 때만 갱신하므로 동시에 실행되거나 예약이 변경되어도
+ * 한 번만 처리됩니다.
+ *
+ * @param serviceRoleClient - 다른 사용자의 게시물을 갱신할 수 있는 Service Role 클라이언트
+ * @returns 공개 처리한 게시물 수
+ */
+export async function publishDueScheduledPosts(
+  serviceRoleClient: SupabaseClient
+): Promise<number> {
+  const { data: due, error } = await serviceRoleClient
+    .from("posts")
+    .select("id, user_id, caption, publish_at")
+    .eq("is_draft", false)
+    .lte("publish_at", new Date().toISOString())
+    .order("publish_at", { ascending: true })
+    .limit(PUBLISH_BATCH_SIZE);
+
+  if (error) {
+    console.error("Due scheduled posts query error:", error);
+    return 0;
+  }
+
+  let published = 0;
+  for (const post of due || []) {
+    const { data: claimed, error: updateError } = await serviceRoleClient
+      .from("posts")
+      .update({ created_at: post.publish_at, publish_at: null })
+      .eq("id", post.id)
+      .eq("publish_at", post.publish_at)
+      .select("id")
+      .maybeSingle();
+
+    if (updateError) {
+      console.error("Scheduled post publish error:", updateError);
+      continue;
+    }
+    if (!claimed) continue;
+
+    await syncPublishedPost(serviceRoleClient, post);
+    published += 1;
+  }
+
+  return published;
+}
@@ -0,0 +1,250 @@
+/**
+ * @file lib/privacy.ts
+ * @description 비공개 계정, 차단, 음소거 접근 제어 유틸리티
+ *
+ * - 비공개 계정의 게시물과 댓글은 본인과 팔로워에게만 표시합니다.
+ * - 차단 관계(양방향)인 사용자의 게시물, 댓글, 프로필은 서로 보이지 않습니다.
+ * - 음소거한 사용자의 게시물은 피드에서만 제외합니다.
+ *
+ * API Routes(게시물, 댓글, 좋아요, 팔로우, 검색)에서 조회/작성 전에 호출합니다.
+ * 조회에 실패하면 콘텐츠가 노출되지 않도록 INTERNAL_ERROR를 던집니다.
+ *
+ * 여러 작성자의 게시물(post_stats, hashtag_post_stats 뷰)에서 비공개 계정을 제외할 때는
+ * 뷰의 is_visible_to_viewer 컬럼으로 필터링합니다.
+ * (`query.eq("is_visible_to_viewer", true)`, 현재 사용자는 Clerk 토큰으로 판단)
+ *
+ * @see supabase/migrations/20250105000005_add_private_accounts.sql
+ * @see supabase/migrations/20250105000006_create_blocks_and_mutes_tables.sql
+ * @see supabase/migrations/20250105000020_add_viewer_visibility_to_post_stats.sql
+ */
+
+import { auth } from "@clerk/nextjs/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { ApiError } from "@/lib/api-errors";
+import type { BlockStatus, FollowStatus } from "@/lib/types";
+
+// 접근 권한 확인 실패 (조회 실패 시 콘텐츠를 노출하지 않음)
+const PRIVACY_CHECK_ERROR_MESSAGE =
+  "요청을 처리하지 못했습니다. 잠시 후 다시 시도해주세요.";
+
+/**
+ * 현재 로그인 사용자의 Supabase user ID 조회
+ *
+ * @returns Supabase user ID (비로그인 또는 미동기화 사용자면 null)
+ */
+export async function getViewerId(
+  supabase: SupabaseClient
+): Promise<string | null> {
+  const { userId: clerkUserId } = await auth();
+  if (!clerkUserId) return null;
+
+  const { data: viewer } = await supabase
+    .from("users")
+    .select("id")
+    .eq("clerk_id", clerkUserId)
+    .maybeSingle();
+
+  return viewer?.id ?? null;
+}
+
+/**
+ * 특정 사용자의 콘텐츠(게시물, 댓글) 열람 가능 여부
+ *
+ * @param viewerId - 현재 사용자 ID (비로그인이면 null)
+ * @param ownerId - 콘텐츠 작성자 ID
+ */
+export async function canViewUserContent(
+  supabase: SupabaseClient,
+  viewerId: string | null,
+  ownerId: string
+): Promise<boolean> {
+  if (viewerId === ownerId) return true;
+
+  const { data: owner, error: ownerError } = await supabase
+    .from("users")
+    .select("is_private")
+    .eq("id", ownerId)
+    .maybeSingle();
+
+  if (ownerError) {
+    console.error("Owner privacy query error:", ownerError);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  if (!owner?.is_private) return true;
+  if (!viewerId) return false;
+
+  const { data: follow, error: followError } = await supabase
+    .from("follows")
+    .select("id")
+    .eq("follower_id", viewerId)
+    .eq("following_id", ownerId)
+    .maybeSingle();
+
+  if (followError) {
+    console.error("Follow check query error:", followError);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  return !!follow;
+}
+
+/**
+ * PostgREST `not.in` 필터용 목록 문자열
+ *
+ * @example query.not("user_id", "in", toInFilter(hiddenIds))
+ */
+export function toInFilter(ids: string[]): string {
+  return `(${ids.join(",")})`;
+}
+
+/**
+ * 현재 사용자 → 대상 사용자의 팔로우 상태 조회
+ */
+export async function getFollowStatus(
+  supabase: SupabaseClient,
+  viewerId: string,
+  targetId: string
+): Promise<FollowStatus> {
+  const { data: follow, error: followError } = await supabase
+    .from("follows")
+    .select("id")
+    .eq("follower_id", viewerId)
+    .eq("following_id", targetId)
+    .maybeSingle();
+
+  if (followError) {
+    console.error("Follow status query error:", followError);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  if (follow) return "following";
+
+  const { data: request, error: requestError } = await supabase
+    .from("follow_requests")
+    .select("id")
+    .eq("requester_id", viewerId)
+    .eq("target_id", targetId)
+    .maybeSingle();
+
+  if (requestError) {
+    console.error("Follow request status query error:", requestError);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  return request ? "requested" : "none";
+}
+
+/**
+ * 현재 사용자 → 대상 사용자의 차단 상태 조회
+ */
+export async function getBlockStatus(
+  supabase: SupabaseClient,
+  viewerId: string | null,
+  targetId: string
+): Promise<BlockStatus> {
+  if (!viewerId || viewerId === targetId) return "none";
+
+  const { data: blocks, error } = await supabase
+    .from("blocks")
+    .select("blocker_id")
+    .or(
+      `and(blocker_id.eq.${viewerId},blocked_id.eq.${targetId}),and(blocker_id.eq.${targetId},blocked_id.eq.${viewerId})`
+    );
+
+  if (error) {
+    console.error("Block status query error:", error);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  if ((blocks || []).some((block) => block.blocker_id === viewerId)) {
+    return "blocking";
+  }
+  return blocks && blocks.length > 0 ? "blocked_by" : "none";
+}
+
+/**
+ * 두 사용자 사이에 차단 관계가 있는지 확인 (방향 무관)
+ */
+export async function isBlockedBetween(
+  supabase: SupabaseClient,
+  viewerId: string | null,
+  targetId: string
+): Promise<boolean> {
+  return (await getBlockStatus(supabase, viewerId, targetId)) !== "none";
+}
+
+/**
+ * 현재 사용자와 차단 관계인 사용자 ID 목록 (내가 차단 + 나를 차단)
+ */
+export async function getBlockedUserIds(
+  supabase: SupabaseClient,
+  viewerId: string | null
+): Promise<string[]> {
+  if (!viewerId) return [];
+
+  const { data: blocks, error } = await supabase
+    .from("blocks")
+    .select("blocker_id, blocked_id")
+    .or(`blocker_id.eq.${viewerId},blocked_id.eq.${viewerId}`);
+
+  if (error) {
+    console.error("Blocked users query error:", error);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  return [
+    ...new Set(
+      (blocks || []).map((block) =>
+        block.blocker_id === viewerId ? block.blocked_id : block.blocker_id
+      )
+    ),
+  ];
+}
+
+/**
+ * 현재 사용자가 음소거한 사용자 ID 목록
+ */
+export async function getMutedUserIds(
+  supabase: SupabaseClient,
+  viewerId: string | null
+): Promise<string[]> {
+  if (!viewerId) return [];
+
+  const { data: mutes, error } = await supabase
+    .from("mutes")
+    .select("muted_id")
+    .eq("muter_id", viewerId);
+
+  if (error) {
+    console.error("Muted users query error:", error);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  return (mutes || []).map((mute) => mute.muted_id);
+}
+
+/**
+ * 현재 사용자가 대상 사용자를 음소거했는지 확인
+ */
+export async function isMutedBy(
+  supabase: SupabaseClient,
+  viewerId: string | null,
+  targetId: string
+): Promise<boolean> {
+  if (!viewerId || viewerId === targetId) return false;
+
+  const { data: mute, error } = await supabase
+    .from("mutes")
+    .select("id")
+    .eq("muter_id", viewerId)
+    .eq("muted_id", targetId)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Mute status query error:", error);
+    throw new ApiError("INTERNAL_ERROR", PRIVACY_CHECK_ERROR_MESSAGE);
+  }
+
+  return !!mute;
+}
@@ -0,0 +1,71 @@
+/**
+ * @file lib/profile.ts
+ * @description 프로필 편집 유틸리티
+ *
+ * 프로필 편집 다이얼로그(클라이언트)와 PATCH /api/users/[userId](서버)에서
+ * 같은 규칙으로 입력값을 검증합니다.
+ *
+ * @see supabase/migrations/20250105000004_add_profile_fields_to_users.sql
+ */
+
+/**
+ * 사용자 이름(핸들) 규칙: 소문자, 숫자, 마침표, 밑줄 3~30자
+ */
+export const USERNAME_PATTERN = /^[a-z0-9._]{3,30}$/;
+
+export const MAX_NAME_LENGTH = 50;
+export const MAX_BIO_LENGTH = 150;
+export const MAX_WEBSITE_LENGTH = 200;
+
+/**
+ * 프로필 사진 Storage 버킷
+ */
+export const AVATAR_BUCKET = "avatars";
+
+/**
+ * 사용자 이름 검증
+ *
+ * @returns 에러 메시지 (유효하면 null)
+ */
+export function validateUsername(username: string): string | null {
+  if (!USERNAME_PATTERN.test(username)) {
+    return "사용자 이름은 영문 소문자, 숫자, 마침표(.), 밑줄(_)로 3~30자여야 합니다.";
+  }
+  if (username.startsWith(".") || username.endsWith(".")) {
+    return "사용자 이름은 마침표(.)로 시작하거나 끝날 수 없습니다.";
+  }
+  return null;
+}
+
+/**
+ * 웹사이트 주소 정규화
+ *
+ * 프로토콜이 없으면 https://를 붙이고, http(s)가 아닌 주소는 거부합니다.
+ *
+ * @returns 정규화된 URL (빈 값이면 null, 유효하지 않으면 undefined)
+ */
+export function normalizeWebsite(website: string): string | null | undefined {
+  const trimmed = website.trim();
+  if (!trimmed) return null;
+
+  const withProtocol = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const url = new URL(withProtocol);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return undefined;
+    }
+    return url.toString();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 웹사이트 표시용 문자열 (프로토콜 및 끝의 "/" 제거)
+ */
+export function formatWebsite(website: string): string {
+  return website.replace(/^https?:\/\//i, "").replace(/\/$/, "");
+}
@@ -0,0 +1,322 @@
+/**
+ * @file lib/rate-limit.ts
+ * @description 쓰기 API 요청 횟수 제한 (서버 전용)
+ *
+ * 사용자(Clerk user ID)와 IP별로 sliding window 방식의 요청 횟수를 제한합니다.
+ * 제한을 넘으면 RATE_LIMITED 에러(429, Retry-After 헤더)를 던집니다.
+ *
+ * - 라우트별 예산: RATE_LIMITS (사용자별 + IP별, 둘 다 남아 있을 때만 요청을 기록)
+ * - 스팸 방지 예산: 같은 대상 팔로우/언팔로우 반복, 하루 팔로우 수, 같은 댓글 반복
+ * - 저장소: RATE_LIMIT_STORE 환경 변수로 선택
+ *   - memory: 서버 인스턴스 메모리 (로컬 개발, 인스턴스 간 공유되지 않음)
+ *   - supabase: rate_limit_hits 테이블 (여러 인스턴스가 제한 공유, 프로덕션 기본값)
+ * - 저장소 오류 시에는 요청을 허용합니다. (제한 기능 장애로 서비스가 멈추지 않도록)
+ *
+ * @example
+ * ```ts
+ * // 라우트 예산은 apiHandler의 rateLimit 옵션으로 적용
+ * const churn = await hitRateLimit(`follow-churn:${userId}:${targetId}`, FOLLOW_CHURN_LIMIT);
+ * if (!churn.allowed) throw rateLimitError(churn, "같은 사용자를 너무 자주 팔로우했습니다.");
+ * ```
+ *
+ * @see supabase/migrations/20250105000017_create_rate_limits.sql
+ * @see supabase/migrations/20250105000025_check_multiple_rate_limit_keys.sql
+ */
+
+import { createHash } from "crypto";
+import { NextRequest } from "next/server";
+import { getServiceRoleClient } from "@/utils/supabase/service-role";
+import { ApiError } from "@/lib/api-errors";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// 메모리 저장소 키가 이 수를 넘으면 만료된 키 정리
+const MEMORY_SWEEP_THRESHOLD = 10000;
+
+/**
+ * 제한 규칙 (windowMs 동안 최대 limit번)
+ */
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+/**
+ * 제한 확인 결과
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 다시 허용될 때까지 남은 시간 (허용이면 0)
+}
+
+/**
+ * 제한 키와 규칙 (예: `comment:user:<clerk_id>`)
+ */
+export interface RateLimitEntry {
+  key: string;
+  rule: RateLimitRule;
+}
+
+/**
+ * 요청 기록 저장소
+ *
+ * hit은 모든 키의 윈도우 안 기록 수가 limit 미만이면 모든 키에 요청을 기록하고 허용합니다.
+ * 하나라도 초과하면 어느 키에도 기록하지 않습니다.
+ * (거부된 요청이 다른 예산을 소모하거나 제한 시간을 늘리지 않도록)
+ */
+export interface RateLimitStore {
+  hit(entries: RateLimitEntry[]): Promise<RateLimitResult>;
+}
+
+/**
+ * 라우트별 요청 횟수 예산 (사용자별, IP별)
+ *
+ * IP 예산은 같은 네트워크(회사, 학교)의 여러 사용자를 고려해 넉넉하게 둡니다.
+ */
+export const RATE_LIMITS = {
+  post: {
+    user: { limit: 20, windowMs: HOUR_MS },
+    ip: { limit: 60, windowMs: HOUR_MS },
+  },
+  comment: {
+    user: { limit: 10, windowMs: MINUTE_MS },
+    ip: { limit: 30, windowMs: MINUTE_MS },
+  },
+  like: {
+    user: { limit: 60, windowMs: MINUTE_MS },
+    ip: { limit: 180, windowMs: MINUTE_MS },
+  },
+  save: {
+    user: { limit: 60, windowMs: MINUTE_MS },
+    ip: { limit: 180, windowMs: MINUTE_MS },
+  },
+  follow: {
+    user: { limit: 30, windowMs: MINUTE_MS },
+    ip: { limit: 90, windowMs: MINUTE_MS },
+  },
+} satisfies Record<string, { user: RateLimitRule; ip: RateLimitRule }>;
+
+export type RateLimitName = keyof typeof RATE_LIMITS;
+
+/**
+ * 같은 사용자를 팔로우/언팔로우하는 횟수 (반복 시 상대에게 알림이 계속 발송되므로)
+ */
+export const FOLLOW_CHURN_LIMIT: RateLimitRule = { limit: 6, windowMs: HOUR_MS };
+
+/**
+ * 하루 최대 팔로우 수 (팔로우 스팸 방지)
+ */
+export const DAILY_FOLLOW_LIMIT: RateLimitRule = { limit: 200, windowMs: DAY_MS };
+
+/**
+ * 같은 게시물에 같은 내용의 댓글을 다시 작성할 수 없는 기간
+ */
+export const DUPLICATE_COMMENT_WINDOW_MS = 10 * MINUTE_MS;
+
+/**
+ * 같은 내용의 댓글을 여러 게시물에 작성할 수 있는 횟수
+ */
+export const REPEATED_COMMENT_LIMIT: RateLimitRule = { limit: 3, windowMs: 10 * MINUTE_MS };
+
+/**
+ * 메모리 저장소 생성 (로컬 개발용)
+ *
+ * 키별로 허용된 요청 시각을 보관합니다. 서버리스 환경에서는 인스턴스마다 따로 집계됩니다.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const hits = new Map<string, number[]>();
+
+  // 기록이 모두 만료된 키 삭제 (가장 긴 윈도우 기준)
+  const sweep = (now: number) => {
+    for (const [key, timestamps] of hits) {
+      if (timestamps[timestamps.length - 1] <= now - DAY_MS) hits.delete(key);
+    }
+  };
+
+  return {
+    async hit(entries) {
+      const now = Date.now();
+
+      // 1. 키별 윈도우 안의 기록 확인
+      const windows = entries.map(({ key, rule: { limit, windowMs } }) => {
+        const timestamps = (hits.get(key) || []).filter((time) => time > now - windowMs);
+        return { key, limit, windowMs, timestamps };
+      });
+
+      // 2. 하나라도 초과하면 기록하지 않고 모든 키가 다시 허용될 때까지의 시간 반환
+      const exceeded = windows.filter(({ limit, timestamps }) => timestamps.length >= limit);
+      if (exceeded.length > 0) {
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterMs: Math.max(
+            ...exceeded.map(({ windowMs, timestamps }) => timestamps[0] + windowMs - now)
+          ),
+        };
+      }
+
+      // 3. 모든 키에 기록
+      for (const { key, timestamps } of windows) {
+        timestamps.push(now);
+        hits.set(key, timestamps);
+      }
+      if (hits.size > MEMORY_SWEEP_THRESHOLD) sweep(now);
+
+      return {
+        allowed: true,
+        remaining: Math.min(
+          ...windows.map(({ limit, timestamps }) => limit - timestamps.length)
+        ),
+        retryAfterMs: 0,
+      };
+    },
+  };
+}
+
+/**
+ * Supabase 저장소 생성 (여러 서버 인스턴스가 제한 공유)
+ *
+ * rate_limit_hit 함수가 같은 키의 요청을 순서대로 처리하고, 여러 키를 한 트랜잭션에서
+ * 확인/기록합니다.
+ */
+export function createSupabaseRateLimitStore(): RateLimitStore {
+  return {
+    async hit(entries) {
+      const { data, error } = await getServiceRoleClient()
+        .rpc("rate_limit_hit", {
+          p_keys: entries.map(({ key }) => key),
+          p_limits: entries.map(({ rule }) => rule.limit),
+          p_window_ms: entries.map(({ rule }) => rule.windowMs),
+        })
+        .single<{ allowed: boolean; remaining: number; retry_after_ms: number }>();
+
+      if (error || !data) {
+        throw new Error(`rate_limit_hit failed: ${error?.message || "no result"}`);
+      }
+
+      return {
+        allowed: data.allowed,
+        remaining: data.remaining,
+        retryAfterMs: data.retry_after_ms,
+      };
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+// RATE_LIMIT_STORE 환경 변수에 따른 저장소 (프로덕션 기본값: supabase)
+function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const type =
+      process.env.RATE_LIMIT_STORE ||
+      (process.env.NODE_ENV === "production" ? "supabase" : "memory");
+    store = type === "supabase" ? createSupabaseRateLimitStore() : createMemoryRateLimitStore();
+  }
+  return store;
+}
+
+/**
+ * 저장소 교체 (다른 공유 저장소를 사용하는 경우)
+ */
+export function setRateLimitStore(customStore: RateLimitStore): void {
+  store = customStore;
+}
+
+/**
+ * 요청 IP 조회 (프록시/Vercel이 설정한 헤더 기준)
+ *
+ * 클라이언트가 보낸 값은 믿지 않습니다.
+ * - x-real-ip: TRUST_PROXY=true일 때만 사용
+ *   (플랫폼(Vercel, 리버스 프록시)이 클라이언트 값을 덮어써서 설정하는 경우에만 믿을 수 있음)
+ * - x-forwarded-for: 앞쪽 값은 클라이언트가 임의로 넣을 수 있으므로
+ *   가장 가까운 프록시가 덧붙인 마지막 값 사용
+ */
+export function getClientIp(request: NextRequest): string {
+  if (process.env.TRUST_PROXY === "true") {
+    const realIp = request.headers.get("x-real-ip")?.trim();
+    if (realIp) return realIp;
+  }
+
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  return forwardedFor?.split(",").pop()?.trim() || "unknown";
+}
+
+/**
+ * 같은 내용의 댓글 반복 확인용 키 (대소문자/공백 차이는 같은 내용으로 취급)
+ */
+export function getRepeatedCommentKey(userId: string, content: string): string {
+  const normalized = content.toLowerCase().replace(/\s+/g, " ").trim();
+  const hash = createHash("sha256").update(normalized).digest("hex").slice(0, 32);
+  return `comment-text:${userId}:${hash}`;
+}
+
+// 여러 키의 요청 기록 및 허용 여부 확인 (저장소 오류 시 허용)
+async function hitRateLimits(entries: RateLimitEntry[]): Promise<RateLimitResult> {
+  try {
+    return await getRateLimitStore().hit(entries);
+  } catch (error) {
+    console.error("Rate limit store error:", error);
+    return {
+      allowed: true,
+      remaining: Math.min(...entries.map(({ rule }) => rule.limit)),
+      retryAfterMs: 0,
+    };
+  }
+}
+
+/**
+ * 키 하나에 대한 요청 기록 및 허용 여부 확인
+ *
+ * 스팸 방지처럼 라우트 예산 외의 제한에 사용합니다. (예: `follow-churn:<user>:<target>`)
+ */
+export async function hitRateLimit(
+  key: string,
+  rule: RateLimitRule
+): Promise<RateLimitResult> {
+  return hitRateLimits([{ key, rule }]);
+}
+
+/**
+ * 라우트 예산 확인 (사용자별 + IP별)
+ *
+ * 두 예산이 모두 남아 있을 때만 요청을 기록합니다.
+ * (IP 제한으로 거부된 요청이 사용자 예산을 소모하지 않도록)
+ *
+ * @param request - IP 확인용 요청 객체
+ * @param name - RATE_LIMITS의 라우트 이름
+ * @param clerkUserId - 현재 로그인 사용자의 Clerk user ID
+ */
+export async function checkRateLimit(
+  request: NextRequest,
+  name: RateLimitName,
+  clerkUserId: string
+): Promise<RateLimitResult> {
+  const { user, ip } = RATE_LIMITS[name];
+
+  return hitRateLimits([
+    { key: `${name}:user:${clerkUserId}`, rule: user },
+    { key: `${name}:ip:${getClientIp(request)}`, rule: ip },
+  ]);
+}
+
+/**
+ * 요청 횟수 제한 에러 (429, Retry-After: 초 단위)
+ *
+ * @param result - 거부된 제한 확인 결과
+ * @param message - 사용자에게 보여줄 에러 메시지
+ */
+export function rateLimitError(
+  result: RateLimitResult,
+  message: string = "요청이 너무 많습니다. 잠시 후 다시 시도해주세요."
+): ApiError {
+  const retryAfterSeconds = Math.max(1, Math.ceil(result.retryAfterMs / 1000));
+
+  return new ApiError("RATE_LIMITED", message, {
+    details: { retryAfterSeconds },
+    headers: { "Retry-After": String(retryAfterSeconds) },
+  });
+}
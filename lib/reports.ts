@@ -0,0 +1,58 @@
+/**
+ * @file lib/reports.ts
+ * @description 신고 유틸리티
+ *
+ * 신고 다이얼로그(클라이언트)와 POST /api/reports(서버)에서
+ * 같은 신고 사유 목록과 규칙으로 입력값을 검증합니다.
+ *
+ * @see supabase/migrations/20250105000007_create_reports_table.sql
+ */
+
+import type {
+  ReportReason,
+  ReportStatus,
+  ReportTargetType,
+} from "@/lib/types";
+
+export const MAX_REPORT_DETAILS_LENGTH = 500;
+
+/**
+ * 신고 사유 목록 (신고 다이얼로그 표시 순서)
+ */
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: "spam", label: "스팸" },
+  { value: "nudity", label: "나체 이미지 또는 성적 행위" },
+  { value: "harassment", label: "따돌림 또는 괴롭힘" },
+  { value: "hate_speech", label: "혐오 발언 또는 상징" },
+  { value: "violence", label: "폭력 또는 위험한 단체" },
+  { value: "false_information", label: "거짓 정보" },
+  { value: "other", label: "기타" },
+];
+
+export const REPORT_TARGET_LABELS: Record<ReportTargetType, string> = {
+  post: "게시물",
+  comment: "댓글",
+  user: "계정",
+};
+
+export const REPORT_STATUS_LABELS: Record<ReportStatus, string> = {
+  open: "처리 대기",
+  dismissed: "기각됨",
+  hidden: "숨김 처리됨",
+  suspended: "계정 정지됨",
+};
+
+/**
+ * 신고 사유 표시 문구
+ */
+export function getReportReasonLabel(reason: ReportReason): string {
+  return REPORT_REASONS.find((r) => r.value === reason)?.label ?? reason;
+}
+
+export function isReportReason(value: unknown): value is ReportReason {
+  return REPORT_REASONS.some((r) => r.value === value);
+}
+
+export function isReportTargetType(value: unknown): value is ReportTargetType {
+  return value === "post" || value === "comment" || value === "user";
+}
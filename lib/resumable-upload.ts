@@ -0,0 +1,332 @@
+/**
+ * @file lib/resumable-upload.ts
+ * @description Supabase Storage 재개 가능 업로드 (TUS 프로토콜, 브라우저 전용)
+ *
+ * 큰 동영상도 연결이 끊긴 지점부터 이어서 올릴 수 있도록 파일을 6MB 청크로 나눠 업로드합니다.
+ * - 업로드 생성(POST) → 청크 전송(PATCH) → 재시도 시 서버 오프셋 확인(HEAD)
+ * - 네트워크 오류/5xx는 지수 백오프로 자동 재시도 (오프라인이면 온라인 복귀까지 대기)
+ * - 일시정지/재개, 취소 시 서버의 미완성 업로드 삭제(DELETE)
+ * - 청크 전송 중에도 바이트 단위 진행률 보고 (XMLHttpRequest upload 이벤트)
+ *
+ * @see https://supabase.com/docs/guides/storage/uploads/resumable-uploads
+ * @see https://tus.io/protocols/resumable-upload
+ */
+
+// Supabase Storage는 TUS 청크 크기로 6MB를 요구함
+const CHUNK_SIZE = 6 * 1024 * 1024;
+const TUS_VERSION = "1.0.0";
+
+// 재시도 대기 시간 (ms, 모두 실패하면 에러)
+const RETRY_DELAYS_MS = [1000, 2000, 4000, 8000, 16000];
+
+/**
+ * 재개 가능 업로드 옵션
+ */
+export interface ResumableUploadOptions {
+  bucket: string;
+  path: string; // 버킷 내 파일 경로
+  file: Blob;
+  contentType: string;
+  getToken: () => Promise<string | null>; // Clerk 세션 토큰 (요청마다 새로 조회)
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+/**
+ * 재개 가능 업로드 제어 객체
+ */
+export interface ResumableUpload {
+  start: () => Promise<void>; // 업로드 시작 또는 실패 후 이어서 업로드 (완료 시 resolve)
+  pause: () => void;
+  resume: () => void;
+  abort: () => Promise<void>; // 업로드 취소 및 미완성 업로드 삭제
+}
+
+// HTTP 요청 실패 (status 0: 네트워크 오류)
+interface RequestFailure {
+  status: number;
+  message: string;
+}
+
+/**
+ * 업로드 취소 에러인지 확인
+ */
+export function isUploadAborted(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => {
+      const bytes = new TextEncoder().encode(value);
+      return `${key} ${btoa(String.fromCharCode(...bytes))}`;
+    })
+    .join(",");
+}
+
+function isRetryable(failure: RequestFailure): boolean {
+  // 409: 오프셋 불일치, 423: 다른 요청이 업로드 중, 429: 요청 제한
+  return (
+    failure.status === 0 ||
+    failure.status >= 500 ||
+    [409, 423, 429].includes(failure.status)
+  );
+}
+
+function parseFailure(xhr: XMLHttpRequest): RequestFailure {
+  let message = xhr.statusText || "Upload request failed";
+  try {
+    const body = JSON.parse(xhr.responseText);
+    message = body.message || body.error || message;
+  } catch {
+    if (xhr.responseText) message = xhr.responseText;
+  }
+  return { status: xhr.status, message };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// 오프라인이면 온라인으로 돌아올 때까지 대기
+function waitForOnline(): Promise<void> {
+  if (typeof navigator === "undefined" || navigator.onLine) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) =>
+    window.addEventListener("online", () => resolve(), { once: true })
+  );
+}
+
+/**
+ * 재개 가능 업로드 생성
+ *
+ * start()가 reject되면(재시도 모두 실패) 다시 start()를 호출해 서버에 저장된 지점부터 이어서 올릴 수 있습니다.
+ * abort() 후에는 start()가 AbortError로 reject됩니다.
+ *
+ * @example
+ * ```ts
+ * const upload = createResumableUpload({
+ *   bucket: "posts",
+ *   path: fileName,
+ *   file,
+ *   contentType: file.type,
+ *   getToken,
+ *   onProgress: (uploaded, total) => setProgress(uploaded / total),
+ * });
+ * await upload.start();
+ * ```
+ */
+export function createResumableUpload(options: ResumableUploadOptions): ResumableUpload {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+  const endpoint = `${supabaseUrl}/storage/v1/upload/resumable`;
+  const totalBytes = options.file.size;
+
+  let uploadUrl: string | null = null;
+  let offset = 0;
+  let currentRequest: XMLHttpRequest | null = null;
+  let paused = false;
+  let aborted = false;
+  let resumeWaiter: (() => void) | null = null;
+  let running: Promise<void> | null = null;
+
+  const abortError = () => new DOMException("Upload aborted", "AbortError");
+
+  // TUS 요청 1회 (XMLHttpRequest: 업로드 진행률 이벤트 사용)
+  async function request(
+    method: string,
+    url: string,
+    headers: Record<string, string>,
+    body?: Blob
+  ): Promise<XMLHttpRequest> {
+    const token = await options.getToken();
+    if (aborted) throw abortError();
+
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      currentRequest = xhr;
+      xhr.open(method, url);
+      xhr.setRequestHeader("Tus-Resumable", TUS_VERSION);
+      xhr.setRequestHeader("apikey", anonKey);
+      xhr.setRequestHeader("Authorization", `Bearer ${token || anonKey}`);
+      Object.entries(headers).forEach(([key, value]) => xhr.setRequestHeader(key, value));
+
+      if (body && options.onProgress) {
+        const chunkStart = offset;
+        xhr.upload.onprogress = (event) => {
+          options.onProgress?.(Math.min(totalBytes, chunkStart + event.loaded), totalBytes);
+        };
+      }
+
+      xhr.onload = () => {
+        currentRequest = null;
+        if (xhr.status >= 200 && xhr.status < 300) {
+          resolve(xhr);
+        } else {
+          reject(parseFailure(xhr));
+        }
+      };
+      xhr.onerror = () => {
+        currentRequest = null;
+        reject({ status: 0, message: "Network error" } satisfies RequestFailure);
+      };
+      xhr.onabort = () => {
+        currentRequest = null;
+        reject(abortError());
+      };
+
+      xhr.send(body ?? null);
+    });
+  }
+
+  // 서버에 업로드 생성 (업로드 URL 발급)
+  async function createUpload(): Promise<void> {
+    const xhr = await request("POST", endpoint, {
+      "Upload-Length": String(totalBytes),
+      "Upload-Metadata": encodeMetadata({
+        bucketName: options.bucket,
+        objectName: options.path,
+        contentType: options.contentType,
+        cacheControl: "3600",
+      }),
+      "x-upsert": "false",
+    });
+
+    const location = xhr.getResponseHeader("Location");
+    if (!location) {
+      throw { status: xhr.status, message: "Upload URL missing" } satisfies RequestFailure;
+    }
+    uploadUrl = new URL(location, endpoint).toString();
+    offset = 0;
+  }
+
+  // 서버에 저장된 오프셋 확인 (재시도/재개 시)
+  async function syncOffset(url: string): Promise<void> {
+    const xhr = await request("HEAD", url, {});
+    offset = Number(xhr.getResponseHeader("Upload-Offset") || 0);
+    options.onProgress?.(offset, totalBytes);
+  }
+
+  async function uploadChunk(url: string): Promise<void> {
+    const chunk = options.file.slice(offset, offset + CHUNK_SIZE);
+    const xhr = await request(
+      "PATCH",
+      url,
+      {
+        "Upload-Offset": String(offset),
+        "Content-Type": "application/offset+octet-stream",
+      },
+      chunk
+    );
+    offset = Number(xhr.getResponseHeader("Upload-Offset") || offset + chunk.size);
+    options.onProgress?.(offset, totalBytes);
+  }
+
+  async function waitWhilePaused(): Promise<void> {
+    while (paused && !aborted) {
+      await new Promise<void>((resolve) => {
+        resumeWaiter = resolve;
+      });
+    }
+    if (aborted) throw abortError();
+  }
+
+  async function run(): Promise<void> {
+    let attempt = 0;
+    // 이전 실행이 중간에 끊겼으면 서버 오프셋부터 확인
+    let needsSync = uploadUrl !== null;
+
+    while (true) {
+      await waitWhilePaused();
+
+      try {
+        if (!uploadUrl) {
+          await createUpload();
+        } else if (needsSync) {
+          await syncOffset(uploadUrl);
+        }
+        needsSync = false;
+
+        if (offset >= totalBytes) return;
+
+        await uploadChunk(uploadUrl!);
+        attempt = 0;
+      } catch (error) {
+        if (aborted) throw abortError();
+
+        // 일시정지로 끊긴 요청은 재개 후 오프셋부터 다시 시작
+        if (isUploadAborted(error) && paused) {
+          needsSync = uploadUrl !== null;
+          continue;
+        }
+
+        const failure = error as RequestFailure;
+        const isExpired = uploadUrl !== null && [404, 410].includes(failure.status);
+        if (
+          (!isRetryable(failure) && !isExpired) ||
+          attempt >= RETRY_DELAYS_MS.length
+        ) {
+          throw new Error(failure.message || "Upload failed");
+        }
+
+        // 404/410: 업로드 URL이 만료됨 → 처음부터 다시 생성
+        if (isExpired) uploadUrl = null;
+        needsSync = uploadUrl !== null;
+        await delay(RETRY_DELAYS_MS[attempt]);
+        await waitForOnline();
+        attempt += 1;
+      }
+    }
+  }
+
+  return {
+    start() {
+      if (aborted) return Promise.reject(abortError());
+      if (!running) {
+        running = run().finally(() => {
+          running = null;
+        });
+      }
+      return running;
+    },
+
+    pause() {
+      if (paused || aborted) return;
+      paused = true;
+      currentRequest?.abort();
+    },
+
+    resume() {
+      if (!paused) return;
+      paused = false;
+      resumeWaiter?.();
+      resumeWaiter = null;
+    },
+
+    async abort() {
+      if (aborted) return;
+      aborted = true;
+      currentRequest?.abort();
+      resumeWaiter?.();
+      resumeWaiter = null;
+
+      // 서버의 미완성 업로드 삭제 (TUS termination, 실패해도 무시)
+      if (uploadUrl && offset < totalBytes) {
+        const url = uploadUrl;
+        try {
+          const token = await options.getToken();
+          await fetch(url, {
+            method: "DELETE",
+            headers: {
+              "Tus-Resumable": TUS_VERSION,
+              apikey: anonKey,
+              Authorization: `Bearer ${token || anonKey}`,
+            },
+          });
+        } catch (error) {
+          console.error("Resumable upload termination error:", error);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * @file lib/storage-cleanup.ts
+ * @description 참조되지 않는 Storage 파일 정리 (서버 전용)
+ *
+ * 미디어는 게시물 저장(POST /api/posts) 전에 posts 버킷에 업로드되므로
+ * 작성을 취소하거나 저장에 실패하면 어떤 게시물도 참조하지 않는 파일이 남습니다.
+ * 게시물 삭제 시 Storage 삭제에 실패한 파일도 같은 상태가 됩니다.
+ *
+ * - posts 버킷의 모든 파일 목록 조회 (하위 폴더 포함)
+ * - posts.image_url과 post_media의 원본/변형/포스터 URL을 참조 목록으로 수집
+ * - 참조되지 않고 유예 기간보다 오래된 파일만 삭제 (업로드 직후 저장 전인 파일 보호)
+ * - dryRun이면 삭제하지 않고 삭제 대상만 보고
+ *
+ * 임시 저장/예약 게시물도 posts 행이 있으므로 미디어가 유지됩니다.
+ *
+ * @see app/api/cron/storage-cleanup/route.ts
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getMediaFileUrls, getStoragePath } from "@/lib/post-media";
+
+const POSTS_BUCKET = "posts";
+
+// Storage 목록/DB 조회 페이지 크기, 한 번에 삭제할 파일 수
+const LIST_PAGE_SIZE = 1000;
+const QUERY_PAGE_SIZE = 1000;
+const REMOVE_BATCH_SIZE = 100;
+
+/**
+ * 기본 유예 기간 (업로드 후 이 시간이 지나야 삭제 대상)
+ *
+ * 재개 가능 업로드를 일시정지한 채 저장을 미룬 경우를 고려해 넉넉하게 둡니다.
+ */
+export const DEFAULT_CLEANUP_GRACE_HOURS = 24;
+
+/**
+ * Storage 파일 정보
+ */
+export interface StorageFile {
+  path: string; // 버킷 내 파일 경로
+  size: number | null; // bytes
+  createdAt: string | null;
+}
+
+/**
+ * 정리 결과 보고
+ */
+export interface StorageCleanupReport {
+  bucket: string;
+  dryRun: boolean;
+  graceHours: number;
+  scanned: number; // 버킷의 전체 파일 수
+  referenced: number; // 게시물이 참조하는 파일 수
+  recent: number; // 참조되지 않지만 유예 기간 내라 유지한 파일 수
+  orphaned: StorageFile[]; // 삭제 대상 (dryRun이면 삭제하지 않음)
+  removed: string[]; // 삭제한 파일 경로
+  failed: string[]; // 삭제에 실패한 파일 경로
+  removedBytes: number;
+}
+
+// 버킷의 모든 파일 조회 (폴더는 재귀적으로 조회, 폴더 항목은 id가 null)
+async function listBucketFiles(
+  serviceRoleClient: SupabaseClient,
+  bucket: string,
+  prefix: string = ""
+): Promise<StorageFile[]> {
+  const files: StorageFile[] = [];
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await serviceRoleClient.storage.from(bucket).list(prefix, {
+      limit: LIST_PAGE_SIZE,
+      offset,
+      sortBy: { column: "name", order: "asc" },
+    });
+
+    if (error) {
+      throw new Error(`Storage list failed (${prefix || "/"}): ${error.message}`);
+    }
+
+    for (const item of data || []) {
+      const path = prefix ? `${prefix}/${item.name}` : item.name;
+      if (item.id === null) {
+        files.push(...(await listBucketFiles(serviceRoleClient, bucket, path)));
+      } else {
+        files.push({
+          path,
+          size: typeof item.metadata?.size === "number" ? item.metadata.size : null,
+          createdAt: item.created_at ?? null,
+        });
+      }
+    }
+
+    if (!data || data.length < LIST_PAGE_SIZE) break;
+  }
+
+  return files;
+}
+
+// 테이블의 모든 행을 페이지 단위로 조회
+async function selectAll<T>(
+  serviceRoleClient: SupabaseClient,
+  table: string,
+  columns: string
+): Promise<T[]> {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += QUERY_PAGE_SIZE) {
+    const { data, error } = await serviceRoleClient
+      .from(table)
+      .select(columns)
+      .order("id", { ascending: true })
+      .range(from, from + QUERY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`${table} query failed: ${error.message}`);
+    }
+
+    rows.push(...((data || []) as T[]));
+    if (!data || data.length < QUERY_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+// 게시물이 참조하는 posts 버킷 파일 경로 (대표 이미지 + post_media 원본/변형/포스터)
+async function getReferencedPaths(serviceRoleClient: SupabaseClient): Promise<Set<string>> {
+  const posts = await selectAll<{ image_url: string | null }>(
+    serviceRoleClient,
+    "posts",
+    "id, image_url"
+  );
+  const media = await selectAll<{
+    media_url: string;
+    poster_url: string | null;
+    variants: Record<string, string> | null;
+  }>(serviceRoleClient, "post_media", "id, media_url, poster_url, variants");
+
+  const urls = [
+    ...posts.map((post) => post.image_url),
+    ...media.flatMap(getMediaFileUrls),
+  ];
+
+  return new Set(
+    urls
+      .map((url) => (url ? getStoragePath(url, POSTS_BUCKET) : null))
+      .filter((path): path is string => !!path)
+  );
+}
+
+/**
+ * 참조되지 않는 posts 버킷 파일 정리
+ *
+ * Storage 목록 조회나 참조 목록 조회가 실패하면 아무것도 삭제하지 않고 에러를 던집니다.
+ * (참조 목록이 불완전한 상태에서 삭제하지 않도록)
+ *
+ * @param serviceRoleClient - Storage 목록/삭제 권한이 있는 Service Role 클라이언트
+ *
+ * @example
+ * ```ts
+ * const report = await cleanupOrphanedPostFiles(getServiceRoleClient(), { dryRun: true });
+ * console.log(report.orphaned.map((file) => file.path));
+ * ```
+ */
+export async function cleanupOrphanedPostFiles(
+  serviceRoleClient: SupabaseClient,
+  {
+    dryRun = false,
+    graceHours = DEFAULT_CLEANUP_GRACE_HOURS,
+  }: { dryRun?: boolean; graceHours?: number } = {}
+): Promise<StorageCleanupReport> {
+  // 참조 목록을 먼저 조회해 그 사이 업로드된 파일은 유예 기간으로 보호
+  const referencedPaths = await getReferencedPaths(serviceRoleClient);
+  const files = await listBucketFiles(serviceRoleClient, POSTS_BUCKET);
+  const cutoff = Date.now() - graceHours * 60 * 60 * 1000;
+
+  const unreferenced = files.filter((file) => !referencedPaths.has(file.path));
+  // 생성 시각을 알 수 없는 파일은 삭제하지 않음
+  const orphaned = unreferenced.filter(
+    (file) => file.createdAt !== null && Date.parse(file.createdAt) < cutoff
+  );
+
+  const report: StorageCleanupReport = {
+    bucket: POSTS_BUCKET,
+    dryRun,
+    graceHours,
+    scanned: files.length,
+    referenced: files.length - unreferenced.length,
+    recent: unreferenced.length - orphaned.length,
+    orphaned,
+    removed: [],
+    failed: [],
+    removedBytes: 0,
+  };
+
+  if (dryRun) return report;
+
+  for (let i = 0; i < orphaned.length; i += REMOVE_BATCH_SIZE) {
+    const batch = orphaned.slice(i, i + REMOVE_BATCH_SIZE);
+    const { data, error } = await serviceRoleClient.storage
+      .from(POSTS_BUCKET)
+      .remove(batch.map((file) => file.path));
+
+    if (error) {
+      console.error("Orphaned files remove error:", error);
+      report.failed.push(...batch.map((file) => file.path));
+      continue;
+    }
+
+    // remove는 실제로 삭제된 객체만 반환
+    const removedNames = new Set((data || []).map((object) => object.name));
+    for (const file of batch) {
+      if (removedNames.has(file.path)) {
+        report.removed.push(file.path);
+        report.removedBytes += file.size || 0;
+      } else {
+        report.failed.push(file.path);
+      }
+    }
+  }
+
+  return report;
+}
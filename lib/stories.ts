@@ -0,0 +1,152 @@
+/**
+ * @file lib/stories.ts
+ * @description 스토리(24시간 후 만료) 유틸리티
+ *
+ * - 만료되지 않은 스토리 조회
+ * - 스토리 트레이 정렬 (본인 → 안 본 스토리 → 최신순)
+ * - 만료된 스토리 정리 (stories 버킷 파일 삭제 후 행 삭제)
+ *
+ * @see supabase/migrations/20250105000012_create_stories_tables.sql
+ */
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { getStoragePath } from "@/lib/post-media";
+import type { Story, StoryTrayItem } from "@/lib/types";
+
+/**
+ * 스토리 미디어 Storage 버킷
+ */
+export const STORY_BUCKET = "stories";
+
+/**
+ * 이미지 스토리 표시 시간 (동영상은 재생 길이만큼 표시)
+ */
+export const STORY_IMAGE_DURATION_MS = 5000;
+
+// 만료 스토리 정리 간격 및 한 번에 정리할 최대 개수
+const PURGE_INTERVAL_MS = 10 * 60 * 1000;
+const PURGE_BATCH_SIZE = 100;
+
+let lastPurgeAt = 0;
+
+/**
+ * 만료되지 않은 스토리 조회
+ *
+ * @returns 스토리 (없거나 만료되었으면 null)
+ */
+export async function getActiveStory(
+  supabase: SupabaseClient,
+  storyId: string
+): Promise<Story | null> {
+  const { data: story } = await supabase
+    .from("stories")
+    .select("id, user_id, media_url, media_type, created_at, expires_at")
+    .eq("id", storyId)
+    .gt("expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  return story ?? null;
+}
+
+/**
+ * 스토리 트레이 정렬
+ *
+ * 본인 스토리를 맨 앞에 두고, 안 본 스토리가 있는 사용자 → 모두 본 사용자 순으로
+ * 각각 최근에 스토리를 올린 순서대로 정렬합니다.
+ */
+export function sortStoryTray(
+  items: StoryTrayItem[],
+  viewerId: string
+): StoryTrayItem[] {
+  return [...items].sort((a, b) => {
+    if (a.user.id === viewerId) return -1;
+    if (b.user.id === viewerId) return 1;
+    if (a.has_unseen !== b.has_unseen) return a.has_unseen ? -1 : 1;
+    return b.latest_at.localeCompare(a.latest_at);
+  });
+}
+
+/**
+ * 스토리 미디어 파일 삭제 (stories 버킷)
+ *
+ * @param serviceRoleClient - Storage 삭제 권한이 있는 Service Role 클라이언트
+ * @returns 삭제 성공 여부 (삭제할 파일이 없으면 true)
+ */
+export async function removeStoryMedia(
+  serviceRoleClient: SupabaseClient,
+  mediaUrls: string[]
+): Promise<boolean> {
+  const paths = [
+    ...new Set(
+      mediaUrls
+        .map((url) => getStoragePath(url, STORY_BUCKET))
+        .filter((path): path is string => !!path)
+    ),
+  ];
+  if (paths.length === 0) return true;
+
+  const { error } = await serviceRoleClient.storage
+    .from(STORY_BUCKET)
+    .remove(paths);
+
+  if (error) {
+    console.error("Story media remove error:", error);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * 만료된 스토리 정리가 필요한지 확인 (서버 인스턴스별로 일정 간격마다 한 번)
+ */
+export function shouldPurgeExpiredStories(): boolean {
+  const now = Date.now();
+  if (now - lastPurgeAt < PURGE_INTERVAL_MS) return false;
+
+  lastPurgeAt = now;
+  return true;
+}
+
+/**
+ * 만료된 스토리 정리
+ *
+ * Storage 파일을 먼저 삭제하고, 성공한 경우에만 행을 삭제합니다.
+ * (파일 삭제에 실패하면 행을 남겨 다음 정리 때 다시 시도)
+ *
+ * @param serviceRoleClient - Storage 삭제 권한이 있는 Service Role 클라이언트
+ * @returns 삭제한 스토리 수
+ */
+export async function purgeExpiredStories(
+  serviceRoleClient: SupabaseClient
+): Promise<number> {
+  const { data: expired, error } = await serviceRoleClient
+    .from("stories")
+    .select("id, media_url")
+    .lte("expires_at", new Date().toISOString())
+    .limit(PURGE_BATCH_SIZE);
+
+  if (error) {
+    console.error("Expired stories query error:", error);
+    return 0;
+  }
+  if (!expired || expired.length === 0) return 0;
+
+  const removed = await removeStoryMedia(
+    serviceRoleClient,
+    expired.map((story) => story.media_url)
+  );
+  if (!removed) return 0;
+
+  const { error: deleteError } = await serviceRoleClient
+    .from("stories")
+    .delete()
+    .in("id", expired.map((story) => story.id));
+
+  if (deleteError) {
+    console.error("Expired stories delete error:", deleteError);
+    return 0;
+  }
+
+  return expired.length;
+}
@@ -15,17 +15,25 @@
 /**
  * 사용자 정보
  * @see supabase/migrations/setup_schema.sql
+ * @see supabase/migrations/20250105000004_add_profile_fields_to_users.sql
  */
 export interface User {
   id: string; // UUID
   clerk_id: string; // Clerk User ID
   name: string;
+  username?: string | null; // 고유 사용자 이름 (핸들)
+  bio?: string | null; // 소개 (최대 150자)
+  website?: string | null;
+  avatar_url?: string | null; // avatars 버킷 Storage URL
+  is_private?: boolean; // 비공개 계정 (팔로워에게만 게시물 공개)
+  is_suspended?: boolean; // 모더레이터가 정지한 계정
   created_at: string; // ISO timestamp
 }
 
 /**
  * 게시물
  * @see supabase/migrations/20250102000000_create_instagram_schema.sql
+ * @see supabase/migrations/20250105000015_add_post_drafts_and_scheduling.sql
  */
 export interface Post {
   id: string; // UUID
@@ -33,10 +41,87 @@ export interface Post {
   image_url: string; // Supabase Storage URL
   title: string | null; // 게시물 제목
   caption: string | null; // 최대 2,200자
-  created_at: string; // ISO timestamp
+  created_at: string; // ISO timestamp (게시 시각)
   updated_at: string; // ISO timestamp
+  is_draft?: boolean; // 임시 저장 게시물 (작성자 본인만 조회)
+  publish_at?: string | null; // 예약 게시 시각 (공개 전까지 작성자 본인만 조회)
+  media?: PostMedia[]; // 미디어 목록 (position 순, 없으면 image_url 단일 미디어)
+  mentions?: MentionRef[]; // 캡션의 @멘션
+}
+
+/**
+ * 게시물 미디어 종류
+ */
+export type MediaType = "image" | "video";
+
+/**
+ * 게시물 미디어 (다중 이미지/동영상)
+ * @see supabase/migrations/20250105000000_create_post_media_table.sql
+ * @see supabase/migrations/20250105000013_add_media_variants.sql
+ * @see supabase/migrations/20250105000014_add_video_metadata.sql
+ */
+export interface PostMedia {
+  id: string; // UUID
+  post_id: string; // UUID
+  media_url: string; // Supabase Storage URL (후처리된 이미지는 large 변형)
+  media_type: MediaType;
+  position: number; // 0부터 시작하는 표시 순서
+  width?: number | null; // px (후처리 전 게시물은 null, 동영상은 포스터 기준)
+  height?: number | null; // px
+  aspect_ratio?: number | null; // width / height
+  variants?: MediaVariants | null; // WebP 변형 (동영상은 포스터 이미지의 변형)
+  poster_url?: string | null; // 동영상 포스터 이미지 (포스터가 없으면 null)
+  duration_seconds?: number | null; // 동영상 재생 길이 (초)
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 이미지 변형 종류
+ * - large: 최대 1440px (게시물 상세 모달, media_url과 같음)
+ * - medium: 최대 1080px (피드)
+ * - thumbnail: 640px 정사각형 (프로필/해시태그 그리드)
+ */
+export type MediaVariantName = "large" | "medium" | "thumbnail";
+
+/**
+ * 변형 이름 → Storage URL
+ */
+export type MediaVariants = Partial<Record<MediaVariantName, string>>;
+
+/**
+ * 해시태그
+ * @see supabase/migrations/20250105000008_create_hashtags_tables.sql
+ */
+export interface Hashtag {
+  id: string; // UUID
+  name: string; // 정규화된 태그 (소문자, # 제외)
+  created_at: string; // ISO timestamp
 }
 
+/**
+ * 게시물-해시태그 연결
+ */
+export interface PostHashtag {
+  post_id: string; // UUID
+  hashtag_id: string; // UUID
+  created_at: string; // ISO timestamp - 태그가 게시물에 추가된 시각
+}
+
+/**
+ * 인기 해시태그 (get_trending_hashtags 함수 결과)
+ */
+export interface TrendingHashtag {
+  name: string;
+  posts_count: number; // 집계 기간 동안 태그가 추가된 게시물 수
+}
+
+/**
+ * 해시태그 게시물 정렬
+ * - top: 인기순 (좋아요 수, 댓글 수)
+ * - recent: 최신순
+ */
+export type HashtagSort = "top" | "recent";
+
 /**
  * 좋아요
  */
@@ -54,9 +139,44 @@ export interface Comment {
   id: string; // UUID
   post_id: string; // UUID
   user_id: string; // UUID
+  parent_id: string | null; // UUID - 답글인 경우 부모(최상위) 댓글 ID
   content: string;
   created_at: string; // ISO timestamp
   updated_at: string; // ISO timestamp
+  mentions?: MentionRef[]; // 댓글의 @멘션
+}
+
+/**
+ * 멘션 (캡션 또는 댓글의 @사용자 이름)
+ * @see supabase/migrations/20250105000009_create_mentions_table.sql
+ */
+export interface Mention {
+  id: string; // UUID
+  mentioned_user_id: string; // UUID - 멘션된 사용자
+  post_id: string | null; // UUID - 캡션 멘션
+  comment_id: string | null; // UUID - 댓글 멘션
+  handle: string; // 작성 당시 입력한 사용자 이름 (소문자, @ 제외)
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 렌더링용 멘션 (@handle → /profile/[clerk_id] 링크)
+ */
+export interface MentionRef {
+  handle: string;
+  user_id: string; // UUID
+  clerk_id: string; // 프로필 링크용 Clerk User ID
+}
+
+/**
+ * 댓글 좋아요
+ * @see supabase/migrations/20250105000002_create_comment_likes_table.sql
+ */
+export interface CommentLike {
+  id: string; // UUID
+  comment_id: string; // UUID
+  user_id: string; // UUID
+  created_at: string; // ISO timestamp
 }
 
 /**
@@ -69,6 +189,267 @@ export interface Follow {
   created_at: string; // ISO timestamp
 }
 
+/**
+ * 팔로우 요청 타입 (비공개 계정)
+ */
+export interface FollowRequest {
+  id: string; // UUID
+  requester_id: string; // UUID - 요청한 사람
+  target_id: string; // UUID - 요청받은 비공개 계정
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 요청한 사용자 정보를 포함한 팔로우 요청 타입
+ */
+export interface FollowRequestWithUser extends FollowRequest {
+  requester: User;
+}
+
+/**
+ * 팔로우 상태
+ * - following: 팔로우 중
+ * - requested: 팔로우 요청 대기 중 (비공개 계정)
+ * - none: 팔로우하지 않음
+ */
+export type FollowStatus = "following" | "requested" | "none";
+
+/**
+ * 차단 타입 (서로의 콘텐츠가 보이지 않음)
+ */
+export interface Block {
+  id: string; // UUID
+  blocker_id: string; // UUID - 차단한 사람
+  blocked_id: string; // UUID - 차단당한 사람
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 음소거 타입 (음소거한 사용자의 게시물을 피드에서 제외)
+ */
+export interface Mute {
+  id: string; // UUID
+  muter_id: string; // UUID - 음소거한 사람
+  muted_id: string; // UUID - 음소거된 사람
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 차단 상태
+ * - blocking: 현재 사용자가 상대를 차단함
+ * - blocked_by: 상대가 현재 사용자를 차단함
+ * - none: 차단 관계 없음
+ */
+export type BlockStatus = "blocking" | "blocked_by" | "none";
+
+/**
+ * 신고 대상 종류
+ */
+export type ReportTargetType = "post" | "comment" | "user";
+
+/**
+ * 신고 사유
+ */
+export type ReportReason =
+  | "spam"
+  | "nudity"
+  | "harassment"
+  | "hate_speech"
+  | "violence"
+  | "false_information"
+  | "other";
+
+/**
+ * 신고 처리 상태
+ * - open: 처리 대기
+ * - dismissed: 기각
+ * - hidden: 콘텐츠 숨김
+ * - suspended: 작성자 계정 정지
+ */
+export type ReportStatus = "open" | "dismissed" | "hidden" | "suspended";
+
+/**
+ * 모더레이터 처리 액션
+ */
+export type ModerationAction = "dismiss" | "hide" | "suspend";
+
+/**
+ * 신고
+ * @see supabase/migrations/20250105000007_create_reports_table.sql
+ */
+export interface Report {
+  id: string; // UUID
+  reporter_id: string; // UUID - 신고한 사용자
+  target_type: ReportTargetType;
+  target_id: string; // UUID - 게시물/댓글/사용자 ID
+  reason: ReportReason;
+  details: string | null; // 추가 설명 (최대 500자)
+  status: ReportStatus;
+  resolved_by: string | null; // UUID - 처리한 모더레이터
+  resolved_at: string | null; // ISO timestamp
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 신고된 콘텐츠 (모더레이션 큐 표시용)
+ *
+ * 이미 삭제된 콘텐츠면 null입니다.
+ */
+export interface ReportedContent {
+  author: User; // 게시물/댓글 작성자 또는 신고된 사용자
+  image_url: string | null; // 게시물 썸네일 (댓글은 해당 게시물 썸네일)
+  text: string | null; // 게시물 캡션 또는 댓글 내용
+  post_id: string | null; // 게시물/댓글이 속한 게시물 ID
+  is_hidden: boolean;
+}
+
+/**
+ * 신고자와 신고된 콘텐츠 정보를 포함한 신고
+ */
+export interface ReportWithTarget extends Report {
+  reporter: User;
+  target: ReportedContent | null;
+}
+
+/**
+ * 대화방 참여 상태
+ * - accepted: 받은 메시지함
+ * - pending: 메시지 요청함 (수락 전에는 답장 불가)
+ * - declined: 메시지 요청 삭제 (목록에서 숨김)
+ */
+export type ConversationMemberStatus = "accepted" | "pending" | "declined";
+
+/**
+ * 대화 목록 폴더
+ * - inbox: 받은 메시지함
+ * - requests: 메시지 요청함
+ */
+export type ConversationFolder = "inbox" | "requests";
+
+/**
+ * 대화방 (1:1 또는 그룹)
+ * @see supabase/migrations/20250105000010_create_messages_tables.sql
+ */
+export interface Conversation {
+  id: string; // UUID
+  is_group: boolean;
+  title: string | null; // 그룹 대화방 이름
+  direct_key: string | null; // 1:1 대화방 키 (그룹은 null)
+  created_by: string | null; // UUID
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 대화방 참여자
+ */
+export interface ConversationMember {
+  conversation_id: string; // UUID
+  user_id: string; // UUID
+  status: ConversationMemberStatus;
+  last_read_at: string | null; // ISO timestamp (이후 메시지는 읽지 않음)
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 메시지 종류
+ * - text: 텍스트 메시지
+ * - post: 게시물 공유 (content는 함께 보낸 메모)
+ */
+export type MessageKind = "text" | "post";
+
+/**
+ * 메시지
+ */
+export interface Message {
+  id: string; // UUID
+  conversation_id: string; // UUID
+  sender_id: string; // UUID
+  kind: MessageKind;
+  content: string | null; // 최대 1,000자
+  shared_post_id: string | null; // UUID - 공유한 게시물 (삭제되면 null)
+  created_at: string; // ISO timestamp
+}
+
+/**
+ * 공유된 게시물 미리보기
+ */
+export interface SharedPostPreview {
+  id: string; // UUID
+  image_url: string;
+  caption: string | null;
+  author: User;
+}
+
+/**
+ * 보낸 사람과 공유 게시물 정보를 포함한 메시지
+ */
+export interface MessageWithSender extends Message {
+  sender: User;
+  shared_post: SharedPostPreview | null; // 삭제되었거나 볼 수 없는 게시물이면 null
+}
+
+/**
+ * 대화 목록 항목 (현재 사용자 기준)
+ */
+export interface ConversationWithDetails {
+  id: string; // UUID
+  is_group: boolean;
+  title: string | null;
+  status: ConversationMemberStatus; // 현재 사용자의 참여 상태
+  members: User[]; // 현재 사용자를 제외한 참여자
+  last_message: Pick<Message, "id" | "sender_id" | "kind" | "content" | "created_at"> | null;
+  last_message_at: string; // ISO timestamp (메시지가 없으면 대화방 생성 시각)
+  unread_count: number;
+}
+
+/**
+ * 스토리 (24시간 후 만료)
+ * @see supabase/migrations/20250105000012_create_stories_tables.sql
+ */
+export interface Story {
+  id: string; // UUID
+  user_id: string; // UUID
+  media_url: string; // stories 버킷 Storage URL
+  media_type: MediaType;
+  created_at: string; // ISO timestamp
+  expires_at: string; // ISO timestamp (created_at + 24시간)
+}
+
+/**
+ * 스토리 조회 기록
+ */
+export interface StoryView {
+  story_id: string; // UUID
+  viewer_id: string; // UUID
+  viewed_at: string; // ISO timestamp
+}
+
+/**
+ * 현재 사용자 기준 조회 여부를 포함한 스토리
+ */
+export interface StoryWithSeen extends Story {
+  seen: boolean; // 본인 스토리는 항상 true
+  view_count?: number; // 본인 스토리에만 포함
+}
+
+/**
+ * 스토리 트레이 항목 (사용자별 스토리 묶음)
+ */
+export interface StoryTrayItem {
+  user: User;
+  stories: StoryWithSeen[]; // 오래된 순 (재생 순서)
+  has_unseen: boolean;
+  latest_at: string; // 가장 최근 스토리 작성 시각
+}
+
+/**
+ * 스토리를 조회한 사용자
+ */
+export interface StoryViewerWithUser {
+  user: User;
+  viewed_at: string; // ISO timestamp
+}
+
 /**
  * 저장/북마크
  * @see supabase/migrations/20250102000002_create_saves_table.sql
@@ -80,13 +461,40 @@ export interface Save {
   created_at: string; // ISO timestamp
 }
 
+/**
+ * 알림 종류
+ * - like: 내 게시물 좋아요
+ * - comment: 내 게시물에 댓글
+ * - reply: 내 댓글에 답글
+ * - follow: 나를 팔로우
+ * - mention: 캡션 또는 댓글에서 나를 멘션 (comment_id가 있으면 댓글 멘션)
+ */
+export type NotificationType = "like" | "comment" | "reply" | "follow" | "mention";
+
+/**
+ * 알림
+ * @see supabase/migrations/20250105000003_create_notifications_table.sql
+ */
+export interface Notification {
+  id: string; // UUID
+  recipient_id: string; // UUID - 알림을 받는 사용자
+  actor_id: string; // UUID - 알림을 발생시킨 사용자
+  type: NotificationType;
+  post_id: string | null; // UUID
+  comment_id: string | null; // UUID
+  read_at: string | null; // ISO timestamp (null이면 읽지 않음)
+  created_at: string; // ISO timestamp
+}
+
 // ============================================
 // 뷰 타입 (통계)
 // ============================================
 
 /**
- * 게시물 통계 뷰
+ * 게시물 통계 뷰 (좋아요/댓글 수는 posts 테이블의 카운터 컬럼)
  * @see post_stats view
+ * @see supabase/migrations/20250105000018_add_denormalized_counters.sql
+ * @see supabase/migrations/20250105000020_add_viewer_visibility_to_post_stats.sql
  */
 export interface PostStats {
   post_id: string; // UUID
@@ -97,11 +505,13 @@ export interface PostStats {
   created_at: string; // ISO timestamp
   likes_count: number;
   comments_count: number;
+  is_visible_to_viewer: boolean; // 현재 사용자 기준 비공개 계정 열람 가능 여부
 }
 
 /**
- * 사용자 통계 뷰
+ * 사용자 통계 뷰 (users 테이블의 카운터 컬럼)
  * @see user_stats view
+ * @see supabase/migrations/20250105000018_add_denormalized_counters.sql
  */
 export interface UserStats {
   user_id: string; // UUID
@@ -145,6 +555,37 @@ export interface PostWithUserAndStats extends PostWithStats {
  */
 export interface CommentWithUser extends Comment {
   user: User;
+  replies_count?: number; // 최상위 댓글만 포함
+  likes_count: number;
+  is_liked?: boolean; // 현재 사용자의 좋아요 여부 (로그인 시)
+}
+
+/**
+ * 알림 + 발생시킨 사용자, 게시물 썸네일, 댓글 내용
+ */
+export interface NotificationWithActor extends Notification {
+  actor: User;
+  post_image_url: string | null;
+  comment_content: string | null;
+}
+
+/**
+ * 묶음 알림 ("A님 외 12명이 회원님의 게시물을 좋아합니다")
+ *
+ * 같은 게시물 좋아요, 팔로우는 하나로 묶고 댓글/답글/멘션은 개별 표시합니다.
+ */
+export interface NotificationGroup {
+  key: string; // 묶음 키 (예: "like:{post_id}")
+  type: NotificationType;
+  post_id: string | null;
+  comment_id: string | null;
+  post_image_url: string | null;
+  comment_content: string | null;
+  actors: User[]; // 최근 순 (중복 제거)
+  actors_count: number; // 묶음에 포함된 사용자 수
+  notification_ids: string[];
+  is_read: boolean; // 묶음 내 모든 알림을 읽었는지
+  latest_at: string; // 가장 최근 알림 시각
 }
 
 /**
@@ -154,6 +595,347 @@ export interface LikeWithUser extends Like {
   user: User;
 }
 
+// ============================================
+// API 요청/응답 타입
+// ============================================
+// 각 API Route의 요청(본문/쿼리)과 성공 응답 본문입니다. (lib/api-client.ts에서 사용)
+// 실패 응답은 모두 lib/api-errors.ts의 ApiErrorBody 형식입니다.
+
+/**
+ * 커서 기반 페이지네이션 요청 (cursor가 없으면 첫 페이지)
+ */
+export interface PageParams {
+  limit?: number;
+  cursor?: string | null; // 이전 응답의 nextCursor
+  offset?: number; // cursor가 없을 때만 사용 (서버에서 받은 초기 목록 이후부터 조회)
+}
+
+/**
+ * 커서 기반 페이지네이션 응답
+ */
+export interface PageInfo {
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * 게시물 목록 응답
+ * GET /api/posts, /api/posts/saved, /api/posts/drafts, /api/tags/[tag]
+ */
+export interface PostsResponse extends PageInfo {
+  posts: PostWithStats[];
+  users: User[]; // 게시물 작성자
+}
+
+/**
+ * GET /api/posts 쿼리
+ */
+export interface PostsQuery extends PageParams {
+  userId?: string; // 특정 사용자의 게시물만 (프로필)
+  feed?: FeedMode;
+}
+
+/**
+ * GET /api/posts/drafts 쿼리
+ */
+export interface DraftsQuery extends PageParams {
+  type?: "draft" | "scheduled"; // 기본값: draft
+}
+
+/**
+ * GET /api/tags/[tag] 쿼리
+ */
+export interface TagPostsQuery extends PageParams {
+  sort?: HashtagSort; // 기본값: recent
+}
+
+/**
+ * GET /api/posts/[postId] 응답
+ */
+export interface PostDetailResponse {
+  post: PostWithStats;
+  user?: User; // 작성자
+}
+
+/**
+ * 업로드가 끝난 게시물 미디어 (POST /api/posts)
+ */
+export interface UploadedPostMedia {
+  url: string; // posts 버킷 Storage URL
+  type: MediaType;
+  posterUrl?: string | null; // 동영상 포스터
+  duration?: number | null; // 동영상 재생 길이 (초)
+}
+
+/**
+ * POST /api/posts 요청 본문
+ */
+export interface CreatePostRequest {
+  media?: UploadedPostMedia[];
+  image_url?: string; // 하위 호환 (단일 이미지)
+  title?: string | null;
+  caption?: string | null;
+  isDraft?: boolean;
+  publishAt?: string | null; // 예약 게시 시각 (ISO timestamp)
+}
+
+/**
+ * PUT /api/posts/[postId] 요청 본문 (전달된 값만 변경)
+ */
+export interface UpdatePostRequest {
+  title?: string | null; // null 또는 빈 문자열이면 삭제
+  caption?: string | null; // null 또는 빈 문자열이면 삭제
+  isDraft?: boolean;
+  publishAt?: string | null;
+}
+
+/**
+ * GET /api/comments 쿼리 (limit이 없으면 전체 조회)
+ */
+export interface CommentsQuery extends PageParams {
+  postId: string;
+  parentId?: string; // 지정하면 해당 댓글의 답글 목록
+}
+
+/**
+ * GET /api/comments 응답
+ */
+export interface CommentsResponse extends PageInfo {
+  comments: CommentWithUser[];
+}
+
+/**
+ * POST /api/comments 요청 본문
+ */
+export interface CreateCommentRequest {
+  postId: string;
+  content: string;
+  parentId?: string | null; // 답글 대상 댓글
+}
+
+/**
+ * DELETE /api/comments 응답
+ */
+export interface DeleteCommentResponse {
+  message: string;
+  deletedCount: number; // 함께 삭제된 답글 포함
+  parentId: string | null;
+}
+
+/**
+ * GET /api/likes 응답
+ */
+export interface LikeStatusResponse {
+  isLiked: boolean;
+}
+
+/**
+ * GET /api/saves 응답
+ */
+export interface SaveStatusResponse {
+  isSaved: boolean;
+}
+
+/**
+ * POST /api/follows 응답 (비공개 계정이면 팔로우 요청)
+ */
+export type FollowResponse =
+  | { success: true; status: "following"; follow: Follow }
+  | { success: true; status: "requested"; followRequest: FollowRequest };
+
+/**
+ * GET /api/follow-requests 응답
+ */
+export interface FollowRequestsResponse extends PageInfo {
+  requests: FollowRequestWithUser[];
+  totalCount: number;
+}
+
+/**
+ * PATCH /api/follow-requests 요청 본문
+ */
+export interface RespondFollowRequestRequest {
+  requestId: string;
+  action: "approve" | "deny";
+}
+
+/**
+ * GET /api/users/[userId] 응답 (현재 사용자 기준 관계 포함)
+ */
+export interface UserProfile extends UserWithStats {
+  isFollowing: boolean;
+  followStatus: FollowStatus;
+  isBlocking: boolean;
+  isMuted: boolean;
+}
+
+/**
+ * PATCH /api/users/[userId] 요청 본문 (전달된 값만 변경)
+ */
+export interface UpdateProfileRequest {
+  name?: string;
+  username?: string | null;
+  bio?: string | null;
+  website?: string | null;
+  avatar_url?: string | null;
+  is_private?: boolean;
+}
+
+/**
+ * 검색 종류
+ */
+export type SearchType = "all" | "posts" | "users";
+
+/**
+ * GET /api/search 쿼리
+ */
+export interface SearchQuery extends PageParams {
+  q: string;
+  type?: SearchType;
+  usersCursor?: string | null; // 사용자 검색 커서
+}
+
+/**
+ * GET /api/search 응답
+ */
+export interface SearchResponse extends PageInfo {
+  posts: PostWithStats[];
+  users: User[];
+  postUsers?: User[]; // 게시물 작성자
+  usersNextCursor: string | null;
+}
+
+/**
+ * GET /api/trending-tags 응답
+ */
+export interface TrendingTagsResponse {
+  tags: TrendingHashtag[];
+  hours: number; // 집계 기간
+}
+
+/**
+ * GET /api/notifications 응답
+ */
+export interface NotificationsResponse extends PageInfo {
+  notifications: NotificationWithActor[];
+  unreadCount: number;
+}
+
+/**
+ * PATCH /api/notifications 요청 본문
+ */
+export interface MarkNotificationsReadRequest {
+  ids?: string[];
+  all?: boolean;
+}
+
+/**
+ * GET /api/conversations 응답
+ */
+export interface ConversationsResponse extends PageInfo {
+  conversations: ConversationWithDetails[];
+  currentUserId: string;
+  unreadCount: number;
+  requestsCount: number;
+}
+
+/**
+ * 읽지 않은 메시지 수 (countOnly 조회, 대화방 상태 변경 응답)
+ */
+export interface MessageCounts {
+  unreadCount: number; // 읽지 않은 메시지가 있는 대화 수
+  requestsCount: number; // 메시지 요청 수
+}
+
+/**
+ * POST /api/conversations 요청 본문
+ */
+export interface CreateConversationRequest {
+  userIds: string[];
+  title?: string | null; // 그룹 대화방 이름
+}
+
+/**
+ * GET /api/conversations/[conversationId] 응답
+ */
+export interface ConversationResponse {
+  conversation: ConversationWithDetails;
+  currentUserId: string;
+}
+
+/**
+ * PATCH /api/conversations/[conversationId] 응답
+ */
+export interface UpdateConversationResponse extends MessageCounts {
+  success: true;
+  status: ConversationMemberStatus;
+}
+
+/**
+ * GET /api/conversations/[conversationId]/messages 응답
+ */
+export interface MessagesResponse extends PageInfo {
+  messages: MessageWithSender[];
+}
+
+/**
+ * POST /api/conversations/[conversationId]/messages 요청 본문 (내용 또는 공유 게시물 필요)
+ */
+export interface SendMessageRequest {
+  content?: string | null;
+  postId?: string | null;
+}
+
+/**
+ * GET /api/stories 응답
+ */
+export interface StoriesResponse {
+  trays: StoryTrayItem[];
+  currentUser: User;
+}
+
+/**
+ * POST /api/stories 요청 본문
+ */
+export interface CreateStoryRequest {
+  mediaUrl: string; // stories 버킷 Storage URL
+  mediaType: MediaType;
+}
+
+/**
+ * GET /api/stories/[storyId]/viewers 응답
+ */
+export interface StoryViewersResponse extends PageInfo {
+  viewers: StoryViewerWithUser[];
+  totalCount: number;
+}
+
+/**
+ * POST /api/reports 요청 본문
+ */
+export interface CreateReportRequest {
+  targetType: ReportTargetType;
+  targetId: string;
+  reason: ReportReason;
+  details?: string | null;
+}
+
+/**
+ * GET /api/reports 응답
+ */
+export interface ReportsResponse extends PageInfo {
+  reports: ReportWithTarget[];
+  totalCount: number;
+}
+
+/**
+ * PATCH /api/reports 요청 본문
+ */
+export interface ResolveReportRequest {
+  reportId: string;
+  action: ModerationAction;
+}
+
 // ============================================
 // 유틸리티 타입
 // ============================================
@@ -168,3 +950,10 @@ export type Timestamp = string; // ISO timestamp string
  */
 export type UUID = string;
 
+/**
+ * 홈 피드 모드
+ * - following: 팔로우한 사용자 + 본인의 게시물
+ * - all: 전체 게시물
+ */
+export type FeedMode = "following" | "all";
+
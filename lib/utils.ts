@@ -55,6 +55,67 @@ export function formatRelativeTime(date: string | Date): string {
   return `${diffInYears}년 전`;
 }
 
+/**
+ * 동영상 재생 길이 포맷팅 함수
+ * 
+ * @param seconds - 재생 길이 (초)
+ * @returns "분:초" 형식 문자열 (1시간 이상이면 "시:분:초")
+ * 
+ * @example
+ * ```ts
+ * formatDuration(75.4) // "1:15"
+ * formatDuration(3725) // "1:02:05"
+ * ```
+ */
+export function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+}
+
+/**
+ * 예약 시각 포맷팅 함수
+ *
+ * @param date - ISO timestamp string 또는 Date 객체
+ * @returns "월 일 오전/오후 시:분" 형식 문자열 (현지 시간)
+ *
+ * @example
+ * ```ts
+ * formatScheduledTime("2025-01-10T06:30:00Z") // "1월 10일 오후 3:30"
+ * ```
+ */
+export function formatScheduledTime(date: string | Date): string {
+  return new Date(date).toLocaleString("ko-KR", {
+    month: "long",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * datetime-local 입력 값으로 변환 (현지 시간, 분 단위)
+ *
+ * @param date - ISO timestamp string 또는 Date 객체
+ * @returns "YYYY-MM-DDTHH:mm" 형식 문자열
+ *
+ * @example
+ * ```ts
+ * toDateTimeLocalValue(new Date(2025, 0, 10, 15, 30)) // "2025-01-10T15:30"
+ * ```
+ */
+export function toDateTimeLocalValue(date: string | Date): string {
+  const value = new Date(date);
+  const pad = (n: number) => String(n).padStart(2, "0");
+
+  return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}T${pad(value.getHours())}:${pad(value.getMinutes())}`;
+}
+
 /**
  * 텍스트를 지정된 줄 수로 자르고 "... 더 보기" 버튼 추가
  * 
@@ -0,0 +1,109 @@
+/**
+ * @file lib/video.ts
+ * @description 동영상 메타데이터 추출 (브라우저 전용)
+ *
+ * 게시물 업로드 전에 동영상 파일에서 재생 길이와 포스터 이미지(한 프레임)를 추출합니다.
+ * 서버에는 동영상 디코더가 없으므로 브라우저의 <video>/<canvas>를 사용합니다.
+ *
+ * @see lib/media-processing.ts
+ */
+
+// 포스터로 사용할 프레임 위치 (초, 짧은 동영상은 중간 지점)
+const POSTER_FRAME_SECONDS = 1;
+const POSTER_QUALITY = 0.9;
+const METADATA_TIMEOUT_MS = 15000;
+
+/**
+ * 추출한 동영상 메타데이터
+ */
+export interface VideoMetadata {
+  duration: number | null; // 재생 길이 (초, 알 수 없으면 null)
+  poster: Blob | null; // JPEG 포스터 (프레임을 그릴 수 없으면 null)
+}
+
+/**
+ * 이벤트 1회 대기 (error 이벤트 또는 시간 초과 시 reject)
+ */
+function waitForEvent(video: HTMLVideoElement, eventName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Video ${eventName} timed out`));
+    }, METADATA_TIMEOUT_MS);
+
+    const handleEvent = () => {
+      cleanup();
+      resolve();
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`Video ${eventName} failed`));
+    };
+    const cleanup = () => {
+      window.clearTimeout(timer);
+      video.removeEventListener(eventName, handleEvent);
+      video.removeEventListener("error", handleError);
+    };
+
+    video.addEventListener(eventName, handleEvent);
+    video.addEventListener("error", handleError);
+  });
+}
+
+/**
+ * 동영상 파일의 재생 길이와 포스터 이미지 추출
+ *
+ * 브라우저가 재생할 수 없는 형식(예: 일부 AVI)이면 에러를 던집니다.
+ *
+ * @example
+ * ```ts
+ * const { duration, poster } = await extractVideoMetadata(file);
+ * ```
+ */
+export async function extractVideoMetadata(file: File): Promise<VideoMetadata> {
+  const objectUrl = URL.createObjectURL(file);
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+
+  try {
+    const loaded = waitForEvent(video, "loadeddata");
+    video.src = objectUrl;
+    await loaded;
+
+    const duration =
+      Number.isFinite(video.duration) && video.duration > 0 ? video.duration : null;
+
+    // 포스터 프레임 위치로 이동
+    const seekTo = duration ? Math.min(POSTER_FRAME_SECONDS, duration / 2) : 0;
+    if (seekTo > 0) {
+      const seeked = waitForEvent(video, "seeked");
+      video.currentTime = seekTo;
+      await seeked;
+    }
+
+    if (!video.videoWidth || !video.videoHeight) {
+      return { duration, poster: null };
+    }
+
+    const canvas = document.createElement("canvas");
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      return { duration, poster: null };
+    }
+
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const poster = await new Promise<Blob | null>((resolve) =>
+      canvas.toBlob(resolve, "image/jpeg", POSTER_QUALITY)
+    );
+
+    return { duration, poster };
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+    URL.revokeObjectURL(objectUrl);
+  }
+}
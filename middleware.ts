@@ -13,11 +13,12 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { updateSession } from "@/utils/supabase/middleware";
 import { type NextRequest, NextResponse } from "next/server";
 
-// 공개 라우트 (인증 불필요)
+// 공개 라우트 (인증 불필요, 예약 작업 API는 CRON_SECRET으로 자체 검증)
 const isPublicRoute = createRouteMatcher([
   "/sign-in(.*)",
   "/sign-up(.*)",
   "/api/sync-user",
+  "/api/cron(.*)",
 ]);
 
 /**
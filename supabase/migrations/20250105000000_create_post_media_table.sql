@@ -0,0 +1,54 @@
+-- ============================================
+-- Post Media 테이블 (다중 이미지/동영상 게시물)
+-- ============================================
+-- 하나의 게시물에 최대 10개의 미디어(이미지/동영상 혼합)를 순서대로 저장
+-- posts.image_url은 대표 미디어(첫 번째 항목)로 계속 유지 (썸네일, 하위 호환)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.post_media (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+    media_url TEXT NOT NULL,  -- Supabase Storage URL
+    media_type TEXT NOT NULL DEFAULT 'image',  -- 'image' | 'video'
+    position SMALLINT NOT NULL,  -- 0부터 시작하는 표시 순서
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 게시물 내 순서 중복 방지
+    UNIQUE(post_id, position),
+    -- 게시물당 최대 10개 (0 ~ 9)
+    CHECK (position >= 0 AND position < 10),
+    CHECK (media_type IN ('image', 'video'))
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.post_media OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_post_media_post_id ON public.post_media(post_id, position);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.post_media DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.post_media TO anon;
+GRANT ALL ON TABLE public.post_media TO authenticated;
+GRANT ALL ON TABLE public.post_media TO service_role;
+
+-- ============================================
+-- 기존 게시물 마이그레이션
+-- ============================================
+-- 기존 단일 미디어 게시물을 position 0의 post_media 행으로 복사
+INSERT INTO public.post_media (post_id, media_url, media_type, position, created_at)
+SELECT
+    p.id,
+    p.image_url,
+    CASE
+        WHEN lower(p.image_url) ~ '\.(mp4|webm|mov|avi)(\?|$)' THEN 'video'
+        ELSE 'image'
+    END,
+    0,
+    p.created_at
+FROM public.posts p
+WHERE NOT EXISTS (
+    SELECT 1 FROM public.post_media m WHERE m.post_id = p.id
+);
@@ -0,0 +1,22 @@
+-- ============================================
+-- Add parent_id field to comments table
+-- ============================================
+-- 댓글에 답글(1단계 스레드) 기능 추가
+-- - parent_id가 NULL이면 최상위 댓글, 값이 있으면 해당 댓글의 답글
+-- - 답글의 답글은 허용하지 않음 (API에서 최상위 댓글로 정규화)
+-- - 부모 댓글 삭제 시 답글도 함께 삭제 (ON DELETE CASCADE)
+-- ============================================
+
+-- comments 테이블에 parent_id 필드 추가
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE;
+
+-- 자기 자신을 부모로 지정하는 것 방지
+ALTER TABLE public.comments
+DROP CONSTRAINT IF EXISTS comments_parent_not_self;
+
+ALTER TABLE public.comments
+ADD CONSTRAINT comments_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+-- 인덱스 생성 (답글 목록 조회 및 답글 수 집계용)
+CREATE INDEX IF NOT EXISTS idx_comments_parent_id ON public.comments(parent_id, created_at);
@@ -0,0 +1,30 @@
+-- ============================================
+-- Comment Likes 테이블 (댓글 좋아요)
+-- ============================================
+-- 게시물 좋아요(likes)와 동일한 구조로 댓글/답글 좋아요를 저장
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.comment_likes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    comment_id UUID NOT NULL REFERENCES public.comments(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 좋아요 방지 (같은 사용자가 같은 댓글에 여러 번 좋아요 불가)
+    UNIQUE(comment_id, user_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.comment_likes OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_comment_likes_comment_id ON public.comment_likes(comment_id);
+CREATE INDEX IF NOT EXISTS idx_comment_likes_user_id ON public.comment_likes(user_id);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.comment_likes DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.comment_likes TO anon;
+GRANT ALL ON TABLE public.comment_likes TO authenticated;
+GRANT ALL ON TABLE public.comment_likes TO service_role;
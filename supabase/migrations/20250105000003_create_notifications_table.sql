@@ -0,0 +1,41 @@
+-- ============================================
+-- Notifications 테이블 (인앱 알림)
+-- ============================================
+-- 좋아요, 댓글, 답글, 팔로우 발생 시 대상 사용자에게 알림 저장
+-- - recipient_id: 알림을 받는 사용자
+-- - actor_id: 알림을 발생시킨 사용자
+-- - read_at이 NULL이면 읽지 않은 알림
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    recipient_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    actor_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    type TEXT NOT NULL,  -- 'like' | 'comment' | 'reply' | 'follow'
+    post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CHECK (type IN ('like', 'comment', 'reply', 'follow')),
+    -- 자기 자신에게 알림 방지
+    CHECK (recipient_id <> actor_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.notifications OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_created_at
+    ON public.notifications(recipient_id, created_at DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_recipient_unread
+    ON public.notifications(recipient_id)
+    WHERE read_at IS NULL;
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.notifications DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.notifications TO anon;
+GRANT ALL ON TABLE public.notifications TO authenticated;
+GRANT ALL ON TABLE public.notifications TO service_role;
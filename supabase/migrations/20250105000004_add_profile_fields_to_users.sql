@@ -0,0 +1,75 @@
+-- ============================================
+-- Add profile fields to users table
+-- ============================================
+-- 프로필 편집 기능: 사용자 이름(핸들), 소개, 웹사이트, 프로필 사진
+-- - username: 소문자/숫자/마침표/밑줄 3~30자, 대소문자 구분 없이 고유
+-- - bio: 최대 150자 (링크 포함 가능)
+-- - avatar_url: avatars 버킷의 public URL
+-- - profile_updated_at: 사용자가 직접 프로필을 수정한 시각
+--   (NULL이 아니면 로그인 시 Clerk 정보로 name을 덮어쓰지 않음)
+-- ============================================
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS username TEXT,
+ADD COLUMN IF NOT EXISTS bio TEXT,
+ADD COLUMN IF NOT EXISTS website TEXT,
+ADD COLUMN IF NOT EXISTS avatar_url TEXT,
+ADD COLUMN IF NOT EXISTS profile_updated_at TIMESTAMP WITH TIME ZONE;
+
+-- 제약 조건 (재실행 가능하도록 삭제 후 생성)
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_username_format;
+ALTER TABLE public.users
+ADD CONSTRAINT users_username_format CHECK (username IS NULL OR username ~ '^[a-z0-9._]{3,30}$');
+
+ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_bio_length;
+ALTER TABLE public.users
+ADD CONSTRAINT users_bio_length CHECK (bio IS NULL OR char_length(bio) <= 150);
+
+-- 사용자 이름 고유 인덱스 (대소문자 구분 없음)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_username_unique ON public.users(lower(username));
+
+-- ============================================
+-- Storage 버킷 생성: avatars (프로필 사진)
+-- ============================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'avatars',
+  'avatars',
+  true,  -- public bucket (공개 읽기)
+  5242880,  -- 5MB 제한 (5 * 1024 * 1024)
+  ARRAY['image/jpeg', 'image/png', 'image/webp']::text[]  -- 이미지 파일만 허용
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = true,
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp']::text[];
+
+-- 기존 정책 삭제 (있다면)
+DROP POLICY IF EXISTS "Authenticated users can upload avatars" ON storage.objects;
+DROP POLICY IF EXISTS "Public can view avatars" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own avatars" ON storage.objects;
+
+-- INSERT: 인증된 사용자만 업로드 가능
+CREATE POLICY "Authenticated users can upload avatars"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'avatars'
+);
+
+-- SELECT: 공개 읽기 (public 버킷이므로)
+CREATE POLICY "Public can view avatars"
+ON storage.objects FOR SELECT
+TO public
+USING (
+  bucket_id = 'avatars'
+);
+
+-- DELETE: 인증된 사용자만 삭제 가능 (애플리케이션 레벨에서 소유권 검증)
+CREATE POLICY "Users can delete own avatars"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'avatars'
+);
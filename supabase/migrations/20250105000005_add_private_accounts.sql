@@ -0,0 +1,39 @@
+-- ============================================
+-- 비공개 계정 및 팔로우 요청
+-- ============================================
+-- - users.is_private: 비공개 계정 여부
+--   (비공개 계정의 게시물/댓글은 본인과 팔로워에게만 표시)
+-- - follow_requests: 비공개 계정에 대한 대기 중인 팔로우 요청
+--   (승인 시 follows로 이동, 거절 시 삭제)
+-- ============================================
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS is_private BOOLEAN DEFAULT false NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.follow_requests (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    requester_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    target_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 요청 방지
+    UNIQUE(requester_id, target_id),
+
+    -- 자기 자신에게 요청 방지
+    CHECK (requester_id != target_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.follow_requests OWNER TO postgres;
+
+-- 인덱스 생성 (요청함: 받은 요청 최신순)
+CREATE INDEX IF NOT EXISTS idx_follow_requests_target_created ON public.follow_requests(target_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_follow_requests_requester_id ON public.follow_requests(requester_id);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.follow_requests DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.follow_requests TO anon;
+GRANT ALL ON TABLE public.follow_requests TO authenticated;
+GRANT ALL ON TABLE public.follow_requests TO service_role;
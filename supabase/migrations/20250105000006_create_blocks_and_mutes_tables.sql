@@ -0,0 +1,55 @@
+-- ============================================
+-- Blocks / Mutes 테이블 (차단 및 음소거)
+-- ============================================
+-- - blocks: 차단 (서로의 게시물, 댓글, 프로필이 보이지 않음)
+--   차단 시 양방향 팔로우 및 팔로우 요청은 API에서 삭제
+-- - mutes: 음소거 (음소거한 사용자의 게시물을 내 피드에서만 제외)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.blocks (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    blocker_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    blocked_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 차단 방지
+    UNIQUE(blocker_id, blocked_id),
+
+    -- 자기 자신 차단 방지
+    CHECK (blocker_id != blocked_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.mutes (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    muter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    muted_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 중복 음소거 방지
+    UNIQUE(muter_id, muted_id),
+
+    -- 자기 자신 음소거 방지
+    CHECK (muter_id != muted_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.blocks OWNER TO postgres;
+ALTER TABLE public.mutes OWNER TO postgres;
+
+-- 인덱스 생성 (양방향 차단 확인용)
+CREATE INDEX IF NOT EXISTS idx_blocks_blocker_id ON public.blocks(blocker_id);
+CREATE INDEX IF NOT EXISTS idx_blocks_blocked_id ON public.blocks(blocked_id);
+CREATE INDEX IF NOT EXISTS idx_mutes_muter_id ON public.mutes(muter_id);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.blocks DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.mutes DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.blocks TO anon;
+GRANT ALL ON TABLE public.blocks TO authenticated;
+GRANT ALL ON TABLE public.blocks TO service_role;
+
+GRANT ALL ON TABLE public.mutes TO anon;
+GRANT ALL ON TABLE public.mutes TO authenticated;
+GRANT ALL ON TABLE public.mutes TO service_role;
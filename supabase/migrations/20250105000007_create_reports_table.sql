@@ -0,0 +1,108 @@
+-- ============================================
+-- Reports 테이블 및 콘텐츠 숨김/계정 정지 (신고 및 모더레이션)
+-- ============================================
+-- - reports: 게시물, 댓글, 프로필 신고 (관리자 모더레이션 큐)
+--   status: open(대기) → dismissed(기각) / hidden(콘텐츠 숨김) / suspended(작성자 정지)
+-- - posts.is_hidden, comments.is_hidden: 모더레이터가 숨긴 콘텐츠 (모든 조회에서 제외)
+-- - users.is_suspended: 정지된 계정 (프로필, 게시물, 댓글 비공개 및 작성 불가)
+-- ============================================
+
+-- 콘텐츠 숨김/계정 정지 컬럼 추가
+ALTER TABLE public.posts
+ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE public.comments
+ADD COLUMN IF NOT EXISTS is_hidden BOOLEAN DEFAULT false NOT NULL;
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS is_suspended BOOLEAN DEFAULT false NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.reports (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    reporter_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    target_type TEXT NOT NULL CHECK (target_type IN ('post', 'comment', 'user')),
+    target_id UUID NOT NULL, -- 대상 게시물/댓글/사용자 ID (target_type에 따라 다름)
+    reason TEXT NOT NULL CHECK (
+        reason IN ('spam', 'nudity', 'harassment', 'hate_speech', 'violence', 'false_information', 'other')
+    ),
+    details TEXT CHECK (char_length(details) <= 500), -- 추가 설명 (선택)
+    status TEXT DEFAULT 'open' NOT NULL CHECK (
+        status IN ('open', 'dismissed', 'hidden', 'suspended')
+    ),
+    resolved_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.reports OWNER TO postgres;
+
+-- 같은 대상에 대한 중복 신고 방지 (처리 대기 중인 신고만)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reports_open_unique
+    ON public.reports(reporter_id, target_type, target_id)
+    WHERE status = 'open';
+
+-- 인덱스 생성 (모더레이션 큐 조회용)
+CREATE INDEX IF NOT EXISTS idx_reports_status_created_at ON public.reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_reports_target ON public.reports(target_type, target_id);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.reports DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.reports TO anon;
+GRANT ALL ON TABLE public.reports TO authenticated;
+GRANT ALL ON TABLE public.reports TO service_role;
+
+-- ============================================
+-- 통계 뷰 업데이트 (숨김 콘텐츠 및 정지된 계정 제외)
+-- ============================================
+-- post_stats를 사용하는 피드, 프로필, 저장됨, 검색, 게시물 상세 조회에서
+-- 숨김 게시물과 정지된 계정의 게시물이 자동으로 제외됩니다.
+
+DROP VIEW IF EXISTS public.post_stats;
+
+CREATE VIEW public.post_stats AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.title,
+    p.caption,
+    p.created_at,
+    COUNT(DISTINCT l.id) as likes_count,
+    COUNT(DISTINCT c.id) as comments_count
+FROM public.posts p
+JOIN public.users u ON p.user_id = u.id AND u.is_suspended = false
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+    AND c.is_hidden = false
+    AND NOT EXISTS (
+        SELECT 1 FROM public.users cu
+        WHERE cu.id = c.user_id AND cu.is_suspended = true
+    )
+WHERE p.is_hidden = false
+GROUP BY p.id, p.user_id, p.image_url, p.title, p.caption, p.created_at;
+
+CREATE OR REPLACE VIEW public.user_stats AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    COUNT(DISTINCT p.id) as posts_count,
+    COUNT(DISTINCT f1.id) as followers_count,  -- 나를 팔로우하는 사람들
+    COUNT(DISTINCT f2.id) as following_count   -- 내가 팔로우하는 사람들
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id AND p.is_hidden = false
+LEFT JOIN public.follows f1 ON u.id = f1.following_id
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id
+GROUP BY u.id, u.clerk_id, u.name;
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
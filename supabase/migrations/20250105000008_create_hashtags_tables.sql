@@ -0,0 +1,119 @@
+-- ============================================
+-- Hashtags 테이블 (해시태그 및 인기 태그)
+-- ============================================
+-- - hashtags: 정규화된 해시태그 (소문자, # 제외)
+-- - post_hashtags: 게시물-해시태그 연결 (게시물 작성/수정 시 캡션에서 추출하여 동기화)
+-- - hashtag_post_stats: 해시태그별 게시물 조회용 뷰 (post_stats 기반)
+-- - get_trending_hashtags: 최근 기간 동안 많이 사용된 해시태그 (슬라이딩 윈도우)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.hashtags (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    name TEXT NOT NULL UNIQUE CHECK (
+        name = lower(name) AND char_length(name) BETWEEN 1 AND 100
+    ),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.post_hashtags (
+    post_id UUID NOT NULL REFERENCES public.posts(id) ON DELETE CASCADE,
+    hashtag_id UUID NOT NULL REFERENCES public.hashtags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL, -- 태그가 게시물에 추가된 시각 (인기 태그 집계 기준)
+
+    PRIMARY KEY (post_id, hashtag_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.hashtags OWNER TO postgres;
+ALTER TABLE public.post_hashtags OWNER TO postgres;
+
+-- 인덱스 생성 (태그별 게시물 조회, 인기 태그 집계용)
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_hashtag_id ON public.post_hashtags(hashtag_id);
+CREATE INDEX IF NOT EXISTS idx_post_hashtags_created_at ON public.post_hashtags(created_at DESC);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.hashtags DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.post_hashtags DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.hashtags TO anon;
+GRANT ALL ON TABLE public.hashtags TO authenticated;
+GRANT ALL ON TABLE public.hashtags TO service_role;
+
+GRANT ALL ON TABLE public.post_hashtags TO anon;
+GRANT ALL ON TABLE public.post_hashtags TO authenticated;
+GRANT ALL ON TABLE public.post_hashtags TO service_role;
+
+-- ============================================
+-- 기존 게시물 캡션에서 해시태그 추출 (백필)
+-- ============================================
+INSERT INTO public.hashtags (name)
+SELECT DISTINCT lower(m[1])
+FROM public.posts p,
+    regexp_matches(p.caption, '(?:^|[^[:alnum:]_&])#([[:alnum:]_]{1,100})', 'g') AS m
+WHERE p.caption IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO public.post_hashtags (post_id, hashtag_id, created_at)
+SELECT DISTINCT p.id, h.id, p.created_at
+FROM public.posts p,
+    regexp_matches(p.caption, '(?:^|[^[:alnum:]_&])#([[:alnum:]_]{1,100})', 'g') AS m
+JOIN public.hashtags h ON h.name = lower(m[1])
+WHERE p.caption IS NOT NULL
+ON CONFLICT (post_id, hashtag_id) DO NOTHING;
+
+-- ============================================
+-- 해시태그별 게시물 뷰
+-- ============================================
+-- post_stats 기반이므로 숨김 게시물과 정지된 계정의 게시물은 제외됩니다.
+CREATE OR REPLACE VIEW public.hashtag_post_stats AS
+SELECT
+    h.name as hashtag,
+    ps.post_id,
+    ps.user_id,
+    ps.image_url,
+    ps.title,
+    ps.caption,
+    ps.created_at,
+    ps.likes_count,
+    ps.comments_count
+FROM public.post_hashtags ph
+JOIN public.hashtags h ON h.id = ph.hashtag_id
+JOIN public.post_stats ps ON ps.post_id = ph.post_id;
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.hashtag_post_stats TO anon;
+GRANT SELECT ON public.hashtag_post_stats TO authenticated;
+GRANT SELECT ON public.hashtag_post_stats TO service_role;
+
+-- ============================================
+-- 인기 해시태그 함수 (슬라이딩 윈도우)
+-- ============================================
+-- since 이후 태그가 추가된 게시물 수로 정렬합니다. (동점이면 최근 사용 순)
+-- 비공개 계정의 게시물은 집계에서 제외합니다.
+CREATE OR REPLACE FUNCTION public.get_trending_hashtags(
+    since TIMESTAMP WITH TIME ZONE,
+    max_count INTEGER DEFAULT 10
+)
+RETURNS TABLE (name TEXT, posts_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = ''
+AS $$
+    SELECT
+        h.name,
+        COUNT(DISTINCT ps.post_id) AS posts_count
+    FROM public.post_hashtags ph
+    JOIN public.hashtags h ON h.id = ph.hashtag_id
+    JOIN public.post_stats ps ON ps.post_id = ph.post_id
+    JOIN public.users u ON u.id = ps.user_id AND u.is_private = false
+    WHERE ph.created_at >= since
+    GROUP BY h.name
+    ORDER BY posts_count DESC, MAX(ph.created_at) DESC
+    LIMIT max_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_trending_hashtags(TIMESTAMP WITH TIME ZONE, INTEGER) TO service_role;
@@ -0,0 +1,50 @@
+-- ============================================
+-- Mentions 테이블 (캡션/댓글 @멘션)
+-- ============================================
+-- - mentions: 게시물 캡션 또는 댓글의 @사용자 이름과 멘션된 사용자 연결
+--   handle은 작성 당시 입력한 사용자 이름(소문자, @ 제외)으로,
+--   멘션된 사용자가 나중에 사용자 이름을 바꿔도 기존 멘션 링크가 유지됩니다.
+-- - notifications.type에 'mention' 추가 (멘션된 사용자에게 알림)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.mentions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    mentioned_user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    post_id UUID REFERENCES public.posts(id) ON DELETE CASCADE,       -- 캡션 멘션
+    comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE, -- 댓글 멘션
+    handle TEXT NOT NULL CHECK (handle ~ '^[a-z0-9._]{3,30}$'),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 캡션 또는 댓글 중 하나에만 속함
+    CHECK ((post_id IS NULL) <> (comment_id IS NULL))
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.mentions OWNER TO postgres;
+
+-- 같은 캡션/댓글 안의 중복 멘션 방지
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_post_handle
+    ON public.mentions(post_id, handle)
+    WHERE post_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mentions_comment_handle
+    ON public.mentions(comment_id, handle)
+    WHERE comment_id IS NOT NULL;
+
+-- 인덱스 생성 (멘션된 사용자 기준 조회용)
+CREATE INDEX IF NOT EXISTS idx_mentions_mentioned_user_id ON public.mentions(mentioned_user_id);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.mentions DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.mentions TO anon;
+GRANT ALL ON TABLE public.mentions TO authenticated;
+GRANT ALL ON TABLE public.mentions TO service_role;
+
+-- ============================================
+-- 알림 종류에 'mention' 추가
+-- ============================================
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_type_check
+    CHECK (type IN ('like', 'comment', 'reply', 'follow', 'mention'));
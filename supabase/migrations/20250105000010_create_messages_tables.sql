@@ -0,0 +1,116 @@
+-- ============================================
+-- Direct Messages 테이블 (1:1 및 그룹 메시지)
+-- ============================================
+-- - conversations: 대화방 (1:1은 direct_key로 두 사용자당 하나만 생성)
+-- - conversation_members: 대화방 참여자
+--   status: accepted(받은 메시지함) / pending(메시지 요청함, 수락 전) / declined(요청 삭제)
+--   대화를 시작한 사람을 팔로우하지 않는 참여자는 pending으로 추가됩니다.
+--   last_read_at 이후 다른 사람이 보낸 메시지가 읽지 않은 메시지입니다.
+-- - messages: 텍스트 메시지 또는 게시물 공유 메시지
+-- - conversation_member_stats: 참여자별 마지막 메시지 및 읽지 않은 메시지 수 뷰
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.conversations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    is_group BOOLEAN DEFAULT false NOT NULL,
+    title TEXT CHECK (char_length(title) <= 50), -- 그룹 대화방 이름 (선택)
+    direct_key TEXT UNIQUE, -- 1:1 대화방: 두 사용자 ID를 정렬해 ":"로 연결 (그룹은 NULL)
+    created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CHECK (is_group OR direct_key IS NOT NULL)
+);
+
+CREATE TABLE IF NOT EXISTS public.conversation_members (
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    status TEXT DEFAULT 'accepted' NOT NULL CHECK (
+        status IN ('accepted', 'pending', 'declined')
+    ),
+    last_read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.messages (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+    sender_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    kind TEXT DEFAULT 'text' NOT NULL CHECK (kind IN ('text', 'post')),
+    content TEXT CHECK (char_length(content) <= 1000),
+    shared_post_id UUID REFERENCES public.posts(id) ON DELETE SET NULL, -- 공유한 게시물 (삭제되면 NULL)
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    -- 텍스트 메시지는 내용이 필요함
+    CHECK (kind <> 'text' OR content IS NOT NULL)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.conversations OWNER TO postgres;
+ALTER TABLE public.conversation_members OWNER TO postgres;
+ALTER TABLE public.messages OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_conversation_members_user_id ON public.conversation_members(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_created_at
+    ON public.messages(conversation_id, created_at DESC, id DESC);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.conversations DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_members DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.conversations TO anon;
+GRANT ALL ON TABLE public.conversations TO authenticated;
+GRANT ALL ON TABLE public.conversations TO service_role;
+
+GRANT ALL ON TABLE public.conversation_members TO anon;
+GRANT ALL ON TABLE public.conversation_members TO authenticated;
+GRANT ALL ON TABLE public.conversation_members TO service_role;
+
+GRANT ALL ON TABLE public.messages TO anon;
+GRANT ALL ON TABLE public.messages TO authenticated;
+GRANT ALL ON TABLE public.messages TO service_role;
+
+-- ============================================
+-- 참여자별 대화방 통계 뷰 (대화 목록용)
+-- ============================================
+-- last_message_at 기준 최신순으로 대화 목록을 정렬합니다. (메시지가 없으면 대화방 생성 시각)
+-- unread_count: last_read_at 이후 다른 참여자가 보낸 메시지 수
+CREATE OR REPLACE VIEW public.conversation_member_stats AS
+SELECT
+    cm.conversation_id,
+    cm.user_id,
+    cm.status,
+    cm.last_read_at,
+    c.is_group,
+    c.title,
+    c.created_by,
+    lm.id as last_message_id,
+    lm.sender_id as last_message_sender_id,
+    lm.kind as last_message_kind,
+    lm.content as last_message_content,
+    COALESCE(lm.created_at, c.created_at) as last_message_at,
+    (
+        SELECT COUNT(*)
+        FROM public.messages m
+        WHERE m.conversation_id = cm.conversation_id
+            AND m.sender_id <> cm.user_id
+            AND m.created_at > COALESCE(cm.last_read_at, '-infinity'::TIMESTAMP WITH TIME ZONE)
+    ) as unread_count
+FROM public.conversation_members cm
+JOIN public.conversations c ON c.id = cm.conversation_id
+LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.kind, m.content, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = cm.conversation_id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+) lm ON true;
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.conversation_member_stats TO anon;
+GRANT SELECT ON public.conversation_member_stats TO authenticated;
+GRANT SELECT ON public.conversation_member_stats TO service_role;
@@ -0,0 +1,33 @@
+-- ============================================
+-- Supabase Realtime 구독 설정
+-- ============================================
+-- - posts: 홈 피드의 "새 게시물" 알림 (INSERT)
+-- - comments, likes: 열려 있는 게시물 모달의 댓글/좋아요 수 실시간 갱신
+--
+-- Realtime은 DELETE 이벤트에 필터를 적용할 수 없으므로 클라이언트에서
+-- 삭제된 행의 post_id를 확인합니다. 이를 위해 comments, likes는
+-- REPLICA IDENTITY FULL로 설정해 DELETE 이벤트에 이전 행 전체를 포함합니다.
+-- ============================================
+
+-- supabase_realtime publication에 테이블 추가 (이미 추가된 테이블은 건너뜀)
+DO $$
+DECLARE
+    target_table TEXT;
+BEGIN
+    FOREACH target_table IN ARRAY ARRAY['posts', 'comments', 'likes']
+    LOOP
+        IF NOT EXISTS (
+            SELECT 1
+            FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+              AND schemaname = 'public'
+              AND tablename = target_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', target_table);
+        END IF;
+    END LOOP;
+END $$;
+
+-- DELETE 이벤트에 이전 행 전체 포함 (post_id 확인용)
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+ALTER TABLE public.likes REPLICA IDENTITY FULL;
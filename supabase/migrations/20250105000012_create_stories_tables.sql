@@ -0,0 +1,113 @@
+-- ============================================
+-- Stories 테이블 (24시간 후 만료되는 게시물)
+-- ============================================
+-- - stories: 스토리 (이미지 또는 동영상 1개)
+--   expires_at이 지난 스토리는 조회되지 않으며,
+--   API(GET /api/stories)에서 주기적으로 Storage 파일과 함께 삭제합니다.
+-- - story_views: 사용자별 스토리 조회 기록 (본인 스토리는 기록하지 않음)
+--   스토리 트레이의 "안 본 스토리" 판단과 작성자의 조회한 사람 목록에 사용합니다.
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.stories (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    media_url TEXT NOT NULL, -- stories 버킷 Storage URL
+    media_type TEXT NOT NULL CHECK (media_type IN ('image', 'video')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    expires_at TIMESTAMP WITH TIME ZONE DEFAULT (now() + INTERVAL '24 hours') NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.story_views (
+    story_id UUID NOT NULL REFERENCES public.stories(id) ON DELETE CASCADE,
+    viewer_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    viewed_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (story_id, viewer_id)
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.stories OWNER TO postgres;
+ALTER TABLE public.story_views OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_stories_user_id_expires_at ON public.stories(user_id, expires_at);
+CREATE INDEX IF NOT EXISTS idx_stories_expires_at ON public.stories(expires_at);
+CREATE INDEX IF NOT EXISTS idx_story_views_viewer_id ON public.story_views(viewer_id);
+CREATE INDEX IF NOT EXISTS idx_story_views_story_viewed_at
+    ON public.story_views(story_id, viewed_at DESC, viewer_id DESC);
+
+-- RLS 비활성화 (개발 단계)
+ALTER TABLE public.stories DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.story_views DISABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.stories TO anon;
+GRANT ALL ON TABLE public.stories TO authenticated;
+GRANT ALL ON TABLE public.stories TO service_role;
+
+GRANT ALL ON TABLE public.story_views TO anon;
+GRANT ALL ON TABLE public.story_views TO authenticated;
+GRANT ALL ON TABLE public.story_views TO service_role;
+
+-- ============================================
+-- Storage 버킷 생성: stories (스토리 미디어)
+-- ============================================
+-- posts 버킷과 같은 크기/형식 제한을 사용합니다.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'stories',
+  'stories',
+  true,  -- public bucket (공개 읽기)
+  52428800,  -- 50MB 제한 (50 * 1024 * 1024)
+  ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'video/mp4',
+    'video/webm',
+    'video/quicktime',
+    'video/x-msvideo'
+  ]::text[]
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = true,
+  file_size_limit = 52428800,
+  allowed_mime_types = ARRAY[
+    'image/jpeg',
+    'image/png',
+    'image/webp',
+    'video/mp4',
+    'video/webm',
+    'video/quicktime',
+    'video/x-msvideo'
+  ]::text[];
+
+-- 기존 정책 삭제 (있다면)
+DROP POLICY IF EXISTS "Authenticated users can upload stories" ON storage.objects;
+DROP POLICY IF EXISTS "Public can view stories" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own stories" ON storage.objects;
+
+-- INSERT: 인증된 사용자만 업로드 가능
+CREATE POLICY "Authenticated users can upload stories"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'stories'
+);
+
+-- SELECT: 공개 읽기 (public 버킷이므로)
+CREATE POLICY "Public can view stories"
+ON storage.objects FOR SELECT
+TO public
+USING (
+  bucket_id = 'stories'
+);
+
+-- DELETE: 인증된 사용자만 삭제 가능 (업로드 실패 시 정리용, 만료 삭제는 service_role)
+CREATE POLICY "Users can delete own stories"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'stories'
+);
@@ -0,0 +1,23 @@
+-- ============================================
+-- 게시물 미디어 크기 및 이미지 변형(WebP) 정보
+-- ============================================
+-- 게시물 작성 시 서버에서 이미지를 후처리합니다. (lib/media-processing.ts)
+-- - EXIF/GPS 등 메타데이터 제거 (방향 정보는 픽셀에 적용)
+-- - WebP 변형 생성: large(최대 1440px), medium(최대 1080px), thumbnail(640px 정사각형)
+-- - media_url은 large 변형 URL, 업로드된 원본 파일은 삭제
+--
+-- - width, height: media_url 파일의 크기 (px)
+-- - aspect_ratio: width / height (자동 계산)
+-- - variants: 변형 이름 → Storage URL ({"large": "...", "medium": "...", "thumbnail": "..."})
+--
+-- 기존 게시물과 동영상은 variants가 NULL이며, 클라이언트는 media_url을 그대로 사용합니다.
+-- ============================================
+
+ALTER TABLE public.post_media
+    ADD COLUMN IF NOT EXISTS width INTEGER CHECK (width > 0),
+    ADD COLUMN IF NOT EXISTS height INTEGER CHECK (height > 0),
+    ADD COLUMN IF NOT EXISTS variants JSONB;
+
+ALTER TABLE public.post_media
+    ADD COLUMN IF NOT EXISTS aspect_ratio NUMERIC(8, 4)
+        GENERATED ALWAYS AS (width::NUMERIC / NULLIF(height, 0)) STORED;
@@ -0,0 +1,16 @@
+-- ============================================
+-- 게시물 동영상 포스터 및 재생 길이
+-- ============================================
+-- 게시물 작성 시 클라이언트가 동영상의 한 프레임(포스터)과 재생 길이를 추출해 함께 업로드합니다.
+-- 포스터는 이미지와 같은 후처리를 거칩니다. (lib/media-processing.ts)
+--
+-- - poster_url: 포스터 이미지 (large 변형 URL, 동영상만)
+-- - duration_seconds: 재생 길이 (초, 동영상만)
+-- - 동영상의 variants, width, height는 포스터 이미지 기준입니다.
+--
+-- 기존 동영상 게시물은 poster_url이 NULL이며, 클라이언트는 동영상 첫 프레임을 표시합니다.
+-- ============================================
+
+ALTER TABLE public.post_media
+    ADD COLUMN IF NOT EXISTS poster_url TEXT,
+    ADD COLUMN IF NOT EXISTS duration_seconds NUMERIC(8, 2) CHECK (duration_seconds > 0);
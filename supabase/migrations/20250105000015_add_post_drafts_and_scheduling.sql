@@ -0,0 +1,83 @@
+-- ============================================
+-- 게시물 임시 저장 및 예약 게시
+-- ============================================
+-- 게시물 작성 중 모달을 닫아도 업로드한 미디어와 제목/캡션을 임시 저장하고,
+-- 지정한 시각에 공개되도록 예약할 수 있습니다.
+--
+-- - is_draft: 임시 저장된 게시물 (작성자 본인만 프로필의 "임시 저장" 탭에서 조회)
+-- - publish_at: 예약 게시 시각 (NULL이면 즉시 공개)
+--
+-- post_stats 뷰에서 임시 저장 게시물과 예약 시각 전의 게시물을 제외하므로
+-- 피드, 프로필, 검색, 해시태그, 저장됨, 게시물 상세 조회에서 자동으로 숨겨집니다.
+-- post_stats.created_at은 게시 시각(예약 게시물은 publish_at)이므로 피드 정렬에 사용됩니다.
+--
+-- 예약 시각이 지난 게시물은 게시물 목록 조회 시 공개 처리되어(lib/post-publishing.ts)
+-- 해시태그/멘션이 동기화되고 멘션 알림이 발송되며, created_at = publish_at, publish_at = NULL이 됩니다.
+-- ============================================
+
+ALTER TABLE public.posts
+    ADD COLUMN IF NOT EXISTS is_draft BOOLEAN DEFAULT false NOT NULL,
+    ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE;
+
+-- 인덱스 생성 (본인 임시 저장/예약 게시물 목록, 예약 시각이 지난 게시물 공개 처리용)
+CREATE INDEX IF NOT EXISTS idx_posts_drafts ON public.posts(user_id, updated_at DESC)
+    WHERE is_draft = true;
+CREATE INDEX IF NOT EXISTS idx_posts_publish_at ON public.posts(publish_at)
+    WHERE publish_at IS NOT NULL;
+
+-- ============================================
+-- post_stats 뷰 업데이트 (임시 저장/예약 게시물 제외)
+-- ============================================
+-- 컬럼 구성이 같으므로 CREATE OR REPLACE로 hashtag_post_stats 등 의존 뷰를 유지합니다.
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.title,
+    p.caption,
+    COALESCE(p.publish_at, p.created_at) as created_at,
+    COUNT(DISTINCT l.id) as likes_count,
+    COUNT(DISTINCT c.id) as comments_count
+FROM public.posts p
+JOIN public.users u ON p.user_id = u.id AND u.is_suspended = false
+LEFT JOIN public.likes l ON p.id = l.post_id
+LEFT JOIN public.comments c ON p.id = c.post_id
+    AND c.is_hidden = false
+    AND NOT EXISTS (
+        SELECT 1 FROM public.users cu
+        WHERE cu.id = c.user_id AND cu.is_suspended = true
+    )
+WHERE p.is_hidden = false
+    AND p.is_draft = false
+    AND (p.publish_at IS NULL OR p.publish_at <= now())
+GROUP BY p.id, p.user_id, p.image_url, p.title, p.caption, p.created_at, p.publish_at;
+
+-- ============================================
+-- user_stats 뷰 업데이트 (게시물 수에서 임시 저장/예약 게시물 제외)
+-- ============================================
+CREATE OR REPLACE VIEW public.user_stats AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    COUNT(DISTINCT p.id) as posts_count,
+    COUNT(DISTINCT f1.id) as followers_count,  -- 나를 팔로우하는 사람들
+    COUNT(DISTINCT f2.id) as following_count   -- 내가 팔로우하는 사람들
+FROM public.users u
+LEFT JOIN public.posts p ON u.id = p.user_id
+    AND p.is_hidden = false
+    AND p.is_draft = false
+    AND (p.publish_at IS NULL OR p.publish_at <= now())
+LEFT JOIN public.follows f1 ON u.id = f1.following_id
+LEFT JOIN public.follows f2 ON u.id = f2.follower_id
+GROUP BY u.id, u.clerk_id, u.name;
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
@@ -0,0 +1,604 @@
+-- ============================================
+-- Row Level Security 활성화 (Clerk JWT 기반 정책)
+-- ============================================
+-- 개발 단계에서 비활성화했던 RLS를 모든 테이블에서 활성화합니다.
+--
+-- - 인증: Clerk 세션 토큰(네이티브 통합)의 sub 클레임이 Clerk user ID
+--   본인 확인은 users.clerk_id = auth.jwt()->>'sub'로 찾은 users.id와 비교합니다.
+-- - anon 역할: 모든 테이블 접근 권한 제거 (비로그인 접근은 미들웨어에서 차단)
+-- - 통계 뷰(post_stats, user_stats 등)는 postgres 소유이므로 기존처럼 RLS 없이 조회됩니다.
+--   (숨김/정지/임시 저장 필터는 뷰 정의에서 처리)
+-- - Service Role 클라이언트는 RLS를 우회합니다. (사용자 동기화, 모더레이션, 예약 작업)
+-- - 수정 가능한 컬럼은 컬럼 권한으로 제한합니다.
+--   (예: posts.is_hidden, users.is_suspended는 모더레이션에서만 변경)
+--
+-- 정책 검증: supabase/tests/rls_policies_test.sql
+-- ============================================
+
+-- ============================================
+-- 1. 헬퍼 함수
+-- ============================================
+
+-- 현재 로그인 사용자의 users.id (토큰이 없거나 동기화 전이면 NULL)
+-- SECURITY DEFINER: 정책 안에서 users 조회 시 RLS를 다시 평가하지 않음
+CREATE OR REPLACE FUNCTION public.current_user_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT id
+    FROM public.users
+    WHERE clerk_id = (SELECT auth.jwt()->>'sub');
+$$;
+
+-- 현재 사용자가 대화방 참여자인지 확인
+-- (conversation_members 정책에서 자기 자신을 조회할 때 무한 재귀 방지)
+CREATE OR REPLACE FUNCTION public.is_conversation_member(target_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.conversation_members
+        WHERE conversation_id = target_conversation_id
+          AND user_id = public.current_user_id()
+    );
+$$;
+
+ALTER FUNCTION public.current_user_id() OWNER TO postgres;
+ALTER FUNCTION public.is_conversation_member(UUID) OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.current_user_id() FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.is_conversation_member(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.current_user_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_conversation_member(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_user_id() TO service_role;
+GRANT EXECUTE ON FUNCTION public.is_conversation_member(UUID) TO service_role;
+
+-- ============================================
+-- 2. RLS 활성화 및 권한 정리
+-- ============================================
+-- TRUNCATE는 RLS가 적용되지 않으므로 authenticated에서도 제거합니다.
+DO $$
+DECLARE
+    target_table TEXT;
+BEGIN
+    FOREACH target_table IN ARRAY ARRAY[
+        'tasks', 'users', 'posts', 'post_media', 'likes', 'comments', 'comment_likes',
+        'follows', 'follow_requests', 'saves', 'notifications', 'blocks', 'mutes',
+        'reports', 'hashtags', 'post_hashtags', 'mentions',
+        'conversations', 'conversation_members', 'messages', 'stories', 'story_views'
+    ]
+    LOOP
+        EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', target_table);
+        EXECUTE format('REVOKE ALL ON TABLE public.%I FROM anon', target_table);
+        EXECUTE format('REVOKE TRUNCATE ON TABLE public.%I FROM authenticated', target_table);
+    END LOOP;
+END $$;
+
+-- 수정 가능한 컬럼 제한
+REVOKE UPDATE ON TABLE public.users FROM authenticated;
+GRANT UPDATE (name, username, bio, website, avatar_url, is_private, profile_updated_at)
+    ON TABLE public.users TO authenticated;
+
+REVOKE UPDATE ON TABLE public.posts FROM authenticated;
+GRANT UPDATE (title, caption, is_draft, publish_at, created_at, updated_at)
+    ON TABLE public.posts TO authenticated;
+
+REVOKE UPDATE ON TABLE public.notifications FROM authenticated;
+GRANT UPDATE (read_at) ON TABLE public.notifications TO authenticated;
+
+REVOKE UPDATE ON TABLE public.conversation_members FROM authenticated;
+GRANT UPDATE (status, last_read_at) ON TABLE public.conversation_members TO authenticated;
+
+-- ============================================
+-- 3. tasks (통합 테스트용, user_id에 Clerk user ID 저장)
+-- ============================================
+CREATE POLICY "Users can manage their own tasks"
+ON public.tasks
+FOR ALL
+TO authenticated
+USING ((SELECT auth.jwt()->>'sub') = user_id)
+WITH CHECK ((SELECT auth.jwt()->>'sub') = user_id);
+
+-- ============================================
+-- 4. users (프로필은 공개, 수정은 본인만)
+-- ============================================
+-- 사용자 생성/이름 동기화는 /api/sync-user에서 Service Role로 처리합니다.
+CREATE POLICY "Users are viewable by authenticated users"
+ON public.users
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can update their own profile"
+ON public.users
+FOR UPDATE
+TO authenticated
+USING (clerk_id = (SELECT auth.jwt()->>'sub'))
+WITH CHECK (clerk_id = (SELECT auth.jwt()->>'sub'));
+
+-- ============================================
+-- 5. posts, post_media
+-- ============================================
+-- 숨김/임시 저장/예약 게시물은 작성자만 조회할 수 있습니다.
+CREATE POLICY "Published posts are viewable"
+ON public.posts
+FOR SELECT
+TO authenticated
+USING (
+    user_id = (SELECT public.current_user_id())
+    OR (
+        NOT is_hidden
+        AND NOT is_draft
+        AND (publish_at IS NULL OR publish_at <= now())
+    )
+);
+
+CREATE POLICY "Users can create their own posts"
+ON public.posts
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can update their own posts"
+ON public.posts
+FOR UPDATE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()))
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can delete their own posts"
+ON public.posts
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+-- 게시물 조회 정책을 그대로 따름 (조회할 수 있는 게시물의 미디어만)
+CREATE POLICY "Media of viewable posts is viewable"
+ON public.post_media
+FOR SELECT
+TO authenticated
+USING (EXISTS (SELECT 1 FROM public.posts WHERE posts.id = post_media.post_id));
+
+CREATE POLICY "Users can manage media of their own posts"
+ON public.post_media
+FOR ALL
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = post_media.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+)
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = post_media.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+);
+
+-- ============================================
+-- 6. likes, comment_likes, saves
+-- ============================================
+CREATE POLICY "Likes are viewable"
+ON public.likes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can like as themselves"
+ON public.likes
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can remove their own likes"
+ON public.likes
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Comment likes are viewable"
+ON public.comment_likes
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can like comments as themselves"
+ON public.comment_likes
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can remove their own comment likes"
+ON public.comment_likes
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+-- 저장 목록은 본인만 조회 가능
+CREATE POLICY "Users can view their own saves"
+ON public.saves
+FOR SELECT
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can save as themselves"
+ON public.saves
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can remove their own saves"
+ON public.saves
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+-- ============================================
+-- 7. comments (수정 기능 없음, 숨김 처리는 모더레이션에서만)
+-- ============================================
+CREATE POLICY "Visible comments are viewable"
+ON public.comments
+FOR SELECT
+TO authenticated
+USING (NOT is_hidden OR user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can comment as themselves"
+ON public.comments
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can delete their own comments"
+ON public.comments
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+-- ============================================
+-- 8. follows, follow_requests
+-- ============================================
+CREATE POLICY "Follows are viewable"
+ON public.follows
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- 본인이 팔로우하거나, 본인에게 온 팔로우 요청을 승인하는 경우
+CREATE POLICY "Users can follow or approve follow requests"
+ON public.follows
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    follower_id = (SELECT public.current_user_id())
+    OR (
+        following_id = (SELECT public.current_user_id())
+        AND EXISTS (
+            SELECT 1 FROM public.follow_requests
+            WHERE follow_requests.requester_id = follows.follower_id
+              AND follow_requests.target_id = follows.following_id
+        )
+    )
+);
+
+-- 언팔로우 또는 팔로워 삭제(차단 시)
+CREATE POLICY "Users can remove their own follow relations"
+ON public.follows
+FOR DELETE
+TO authenticated
+USING (
+    follower_id = (SELECT public.current_user_id())
+    OR following_id = (SELECT public.current_user_id())
+);
+
+CREATE POLICY "Users can view their own follow requests"
+ON public.follow_requests
+FOR SELECT
+TO authenticated
+USING (
+    requester_id = (SELECT public.current_user_id())
+    OR target_id = (SELECT public.current_user_id())
+);
+
+CREATE POLICY "Users can request to follow as themselves"
+ON public.follow_requests
+FOR INSERT
+TO authenticated
+WITH CHECK (requester_id = (SELECT public.current_user_id()));
+
+-- 요청 취소(요청자) 또는 승인/거절(대상)
+CREATE POLICY "Users can remove their own follow requests"
+ON public.follow_requests
+FOR DELETE
+TO authenticated
+USING (
+    requester_id = (SELECT public.current_user_id())
+    OR target_id = (SELECT public.current_user_id())
+);
+
+-- ============================================
+-- 9. notifications
+-- ============================================
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+TO authenticated
+USING (recipient_id = (SELECT public.current_user_id()));
+
+-- 본인이 한 행동의 알림, 또는 팔로우 요청 승인처럼 본인이 받는 알림
+CREATE POLICY "Users can create notifications they take part in"
+ON public.notifications
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    actor_id = (SELECT public.current_user_id())
+    OR recipient_id = (SELECT public.current_user_id())
+);
+
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications
+FOR UPDATE
+TO authenticated
+USING (recipient_id = (SELECT public.current_user_id()))
+WITH CHECK (recipient_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can delete notifications they take part in"
+ON public.notifications
+FOR DELETE
+TO authenticated
+USING (
+    actor_id = (SELECT public.current_user_id())
+    OR recipient_id = (SELECT public.current_user_id())
+);
+
+-- ============================================
+-- 10. blocks, mutes, reports
+-- ============================================
+-- 차단은 양쪽 모두 조회 가능 (차단당한 사용자도 상대 콘텐츠를 볼 수 없도록)
+CREATE POLICY "Users can view blocks they take part in"
+ON public.blocks
+FOR SELECT
+TO authenticated
+USING (
+    blocker_id = (SELECT public.current_user_id())
+    OR blocked_id = (SELECT public.current_user_id())
+);
+
+CREATE POLICY "Users can block as themselves"
+ON public.blocks
+FOR INSERT
+TO authenticated
+WITH CHECK (blocker_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can remove their own blocks"
+ON public.blocks
+FOR DELETE
+TO authenticated
+USING (blocker_id = (SELECT public.current_user_id()));
+
+-- 음소거는 상대에게 알려지지 않으므로 본인만 조회 가능
+CREATE POLICY "Users can manage their own mutes"
+ON public.mutes
+FOR ALL
+TO authenticated
+USING (muter_id = (SELECT public.current_user_id()))
+WITH CHECK (muter_id = (SELECT public.current_user_id()));
+
+-- 모더레이션 큐 조회/처리는 관리자 확인 후 Service Role로 처리합니다.
+CREATE POLICY "Users can view their own reports"
+ON public.reports
+FOR SELECT
+TO authenticated
+USING (reporter_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can report as themselves"
+ON public.reports
+FOR INSERT
+TO authenticated
+WITH CHECK (reporter_id = (SELECT public.current_user_id()));
+
+-- ============================================
+-- 11. hashtags, post_hashtags, mentions
+-- ============================================
+CREATE POLICY "Hashtags are viewable"
+ON public.hashtags
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- 게시물 작성/수정 시 새 해시태그 생성 (이름은 공유되므로 수정/삭제 불가)
+CREATE POLICY "Users can create hashtags"
+ON public.hashtags
+FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Post hashtags are viewable"
+ON public.post_hashtags
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can tag their own posts"
+ON public.post_hashtags
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = post_hashtags.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+);
+
+CREATE POLICY "Users can untag their own posts"
+ON public.post_hashtags
+FOR DELETE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = post_hashtags.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+);
+
+CREATE POLICY "Mentions are viewable"
+ON public.mentions
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- 본인 게시물/댓글의 멘션만 생성/삭제 가능
+CREATE POLICY "Users can mention from their own content"
+ON public.mentions
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = mentions.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.comments
+        WHERE comments.id = mentions.comment_id
+          AND comments.user_id = (SELECT public.current_user_id())
+    )
+);
+
+CREATE POLICY "Users can remove mentions from their own content"
+ON public.mentions
+FOR DELETE
+TO authenticated
+USING (
+    EXISTS (
+        SELECT 1 FROM public.posts
+        WHERE posts.id = mentions.post_id
+          AND posts.user_id = (SELECT public.current_user_id())
+    )
+    OR EXISTS (
+        SELECT 1 FROM public.comments
+        WHERE comments.id = mentions.comment_id
+          AND comments.user_id = (SELECT public.current_user_id())
+    )
+);
+
+-- ============================================
+-- 12. conversations, conversation_members, messages
+-- ============================================
+-- 생성자는 참여자 추가 전에도 조회 가능 (생성 직후 참여자 추가)
+CREATE POLICY "Members can view their conversations"
+ON public.conversations
+FOR SELECT
+TO authenticated
+USING (
+    created_by = (SELECT public.current_user_id())
+    OR public.is_conversation_member(id)
+);
+
+CREATE POLICY "Users can start conversations as themselves"
+ON public.conversations
+FOR INSERT
+TO authenticated
+WITH CHECK (created_by = (SELECT public.current_user_id()));
+
+-- 참여자 추가 실패 시 생성한 대화방 롤백
+CREATE POLICY "Creators can delete their conversations"
+ON public.conversations
+FOR DELETE
+TO authenticated
+USING (created_by = (SELECT public.current_user_id()));
+
+CREATE POLICY "Members can view conversation members"
+ON public.conversation_members
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_member(conversation_id));
+
+-- 대화방 생성자만 참여자를 추가할 수 있음
+CREATE POLICY "Creators can add conversation members"
+ON public.conversation_members
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.conversations
+        WHERE conversations.id = conversation_members.conversation_id
+          AND conversations.created_by = (SELECT public.current_user_id())
+    )
+);
+
+-- 본인의 상태(수락/거절)와 읽음 시각만 변경 가능
+CREATE POLICY "Members can update their own membership"
+ON public.conversation_members
+FOR UPDATE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()))
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Members can view messages"
+ON public.messages
+FOR SELECT
+TO authenticated
+USING (public.is_conversation_member(conversation_id));
+
+CREATE POLICY "Members can send messages as themselves"
+ON public.messages
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    sender_id = (SELECT public.current_user_id())
+    AND public.is_conversation_member(conversation_id)
+);
+
+-- ============================================
+-- 13. stories, story_views
+-- ============================================
+-- 만료/비공개 계정 필터는 애플리케이션에서 처리 (만료된 스토리 정리는 Service Role)
+CREATE POLICY "Stories are viewable"
+ON public.stories
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Users can post their own stories"
+ON public.stories
+FOR INSERT
+TO authenticated
+WITH CHECK (user_id = (SELECT public.current_user_id()));
+
+CREATE POLICY "Users can delete their own stories"
+ON public.stories
+FOR DELETE
+TO authenticated
+USING (user_id = (SELECT public.current_user_id()));
+
+-- 조회 기록은 본인 기록과 본인 스토리의 기록만 조회 가능
+CREATE POLICY "Viewers and story owners can view story views"
+ON public.story_views
+FOR SELECT
+TO authenticated
+USING (
+    viewer_id = (SELECT public.current_user_id())
+    OR EXISTS (
+        SELECT 1 FROM public.stories
+        WHERE stories.id = story_views.story_id
+          AND stories.user_id = (SELECT public.current_user_id())
+    )
+);
+
+CREATE POLICY "Users can record their own story views"
+ON public.story_views
+FOR INSERT
+TO authenticated
+WITH CHECK (viewer_id = (SELECT public.current_user_id()));
@@ -0,0 +1,87 @@
+-- ============================================
+-- 요청 횟수 제한 저장소 (sliding window)
+-- ============================================
+-- 여러 서버 인스턴스가 같은 제한을 공유하도록 요청 기록을 DB에 저장합니다.
+-- (RATE_LIMIT_STORE=supabase, lib/rate-limit.ts 참고)
+--
+-- - rate_limit_hits: 제한 키(예: "comment:user:<clerk_id>")별 허용된 요청 시각
+-- - rate_limit_hit(): 윈도우 밖의 기록을 지우고 남은 기록 수로 허용 여부를 판단
+--   허용된 요청만 기록하므로 거부된 요청은 제한 시간을 늘리지 않습니다.
+-- - Service Role에서만 호출합니다. (RLS 활성화, 정책 없음)
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_hits (
+    id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+    key TEXT NOT NULL,
+    hit_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 테이블 소유자 설정
+ALTER TABLE public.rate_limit_hits OWNER TO postgres;
+
+-- 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_key_hit_at ON public.rate_limit_hits(key, hit_at);
+CREATE INDEX IF NOT EXISTS idx_rate_limit_hits_hit_at ON public.rate_limit_hits(hit_at);
+
+-- RLS 활성화 (정책 없음: Service Role만 접근)
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- 권한 부여
+GRANT ALL ON TABLE public.rate_limit_hits TO service_role;
+
+-- ============================================
+-- 요청 기록 및 허용 여부 확인
+-- ============================================
+-- 같은 키의 동시 요청은 advisory lock으로 순서대로 처리합니다.
+-- 가장 긴 윈도우(1일)보다 오래된 기록은 가끔 한 번씩 일괄 삭제합니다.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+    p_key TEXT,
+    p_limit INTEGER,
+    p_window_ms INTEGER
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+    window_start TIMESTAMP WITH TIME ZONE := now() - make_interval(secs => p_window_ms / 1000.0);
+    hit_count INTEGER;
+    oldest_hit TIMESTAMP WITH TIME ZONE;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+    DELETE FROM public.rate_limit_hits
+    WHERE key = p_key
+      AND hit_at <= window_start;
+
+    SELECT count(*), min(hit_at)
+    INTO hit_count, oldest_hit
+    FROM public.rate_limit_hits
+    WHERE key = p_key;
+
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limit_hits
+        WHERE hit_at < now() - INTERVAL '1 day';
+    END IF;
+
+    IF hit_count >= p_limit THEN
+        RETURN QUERY SELECT
+            false,
+            0,
+            GREATEST(
+                CEIL(EXTRACT(EPOCH FROM (oldest_hit - window_start)) * 1000)::INTEGER,
+                0
+            );
+        RETURN;
+    END IF;
+
+    INSERT INTO public.rate_limit_hits (key) VALUES (p_key);
+
+    RETURN QUERY SELECT true, p_limit - hit_count - 1, 0;
+END;
+$$;
+
+ALTER FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,415 @@
+-- ============================================
+-- 통계 카운터 컬럼 (COUNT(DISTINCT) 뷰 대체)
+-- ============================================
+-- post_stats, user_stats 뷰가 조회할 때마다 likes/comments/follows를 LEFT JOIN 후
+-- COUNT(DISTINCT)로 집계하던 방식을, 테이블의 카운터 컬럼을 트리거로 갱신하는 방식으로 바꿉니다.
+--
+-- - posts.likes_count: 좋아요 수
+-- - posts.comments_count: 댓글 수 (답글 포함, 숨김 댓글과 정지된 계정의 댓글 제외)
+-- - users.posts_count: 공개된 게시물 수 (숨김/임시 저장/예약 게시물 제외)
+-- - users.followers_count / users.following_count: 팔로워/팔로잉 수
+--
+-- 예약 게시물은 공개 처리(lib/post-publishing.ts)로 publish_at이 NULL이 될 때 posts_count에 포함됩니다.
+-- 카운터가 어긋난 경우 recalculate_counters()로 원본 테이블 기준으로 다시 계산합니다.
+--
+-- post_stats, user_stats 뷰는 필터(숨김/정지/임시 저장)만 적용하고 카운터 컬럼을 그대로 반환하므로
+-- 집계 없이 posts/users 테이블 조회와 같은 비용으로 정렬/페이지네이션할 수 있습니다.
+-- ============================================
+
+ALTER TABLE public.posts
+    ADD COLUMN IF NOT EXISTS likes_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS comments_count INTEGER DEFAULT 0 NOT NULL;
+
+ALTER TABLE public.users
+    ADD COLUMN IF NOT EXISTS posts_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS followers_count INTEGER DEFAULT 0 NOT NULL,
+    ADD COLUMN IF NOT EXISTS following_count INTEGER DEFAULT 0 NOT NULL;
+
+-- ============================================
+-- 1. 카운터 갱신 트리거
+-- ============================================
+-- SECURITY DEFINER: 다른 사용자의 게시물에 좋아요/댓글을 남길 때도 RLS와 컬럼 권한에 관계없이 갱신
+-- 카운터 컬럼은 authenticated에 UPDATE 권한이 없으므로 트리거로만 변경됩니다.
+
+-- 생성 시 카운터 초기화 (클라이언트가 임의의 값으로 INSERT하지 못하도록)
+CREATE OR REPLACE FUNCTION public.reset_counters_on_insert()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'posts' THEN
+        NEW.likes_count := 0;
+        NEW.comments_count := 0;
+    ELSE
+        NEW.posts_count := 0;
+        NEW.followers_count := 0;
+        NEW.following_count := 0;
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- 좋아요 추가/취소 → posts.likes_count
+CREATE OR REPLACE FUNCTION public.update_post_likes_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE public.posts
+        SET likes_count = likes_count + 1
+        WHERE id = NEW.post_id;
+    ELSE
+        UPDATE public.posts
+        SET likes_count = GREATEST(likes_count - 1, 0)
+        WHERE id = OLD.post_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- 댓글 작성/삭제/숨김 → posts.comments_count
+-- 숨김 댓글과 정지된 계정의 댓글은 세지 않습니다. (최상위 댓글 삭제 시 답글은 CASCADE로 각각 처리)
+CREATE OR REPLACE FUNCTION public.update_post_comments_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    old_counted INTEGER := 0;
+    new_counted INTEGER := 0;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE')
+        AND OLD.is_hidden = false
+        AND NOT EXISTS (
+            SELECT 1 FROM public.users u
+            WHERE u.id = OLD.user_id AND u.is_suspended = true
+        ) THEN
+        old_counted := 1;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE')
+        AND NEW.is_hidden = false
+        AND NOT EXISTS (
+            SELECT 1 FROM public.users u
+            WHERE u.id = NEW.user_id AND u.is_suspended = true
+        ) THEN
+        new_counted := 1;
+    END IF;
+
+    IF new_counted <> old_counted THEN
+        UPDATE public.posts
+        SET comments_count = GREATEST(comments_count + new_counted - old_counted, 0)
+        WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.post_id ELSE NEW.post_id END;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- 팔로우 추가/취소 → users.followers_count, users.following_count
+-- (팔로우 요청 수락 시 follow_requests에서 follows로 옮겨지며 INSERT로 처리)
+CREATE OR REPLACE FUNCTION public.update_user_follow_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        UPDATE public.users
+        SET followers_count = followers_count + 1
+        WHERE id = NEW.following_id;
+        UPDATE public.users
+        SET following_count = following_count + 1
+        WHERE id = NEW.follower_id;
+    ELSE
+        UPDATE public.users
+        SET followers_count = GREATEST(followers_count - 1, 0)
+        WHERE id = OLD.following_id;
+        UPDATE public.users
+        SET following_count = GREATEST(following_count - 1, 0)
+        WHERE id = OLD.follower_id;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- 게시물 작성/삭제/숨김/공개 → users.posts_count
+-- 숨김, 임시 저장, 예약(publish_at이 있는) 게시물은 세지 않습니다.
+CREATE OR REPLACE FUNCTION public.update_user_posts_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    old_counted INTEGER := 0;
+    new_counted INTEGER := 0;
+BEGIN
+    IF TG_OP IN ('UPDATE', 'DELETE')
+        AND OLD.is_hidden = false
+        AND OLD.is_draft = false
+        AND OLD.publish_at IS NULL THEN
+        old_counted := 1;
+    END IF;
+
+    IF TG_OP IN ('INSERT', 'UPDATE')
+        AND NEW.is_hidden = false
+        AND NEW.is_draft = false
+        AND NEW.publish_at IS NULL THEN
+        new_counted := 1;
+    END IF;
+
+    IF new_counted <> old_counted THEN
+        UPDATE public.users
+        SET posts_count = GREATEST(posts_count + new_counted - old_counted, 0)
+        WHERE id = CASE WHEN TG_OP = 'DELETE' THEN OLD.user_id ELSE NEW.user_id END;
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+-- 계정 정지/해제 → 해당 사용자가 댓글을 단 게시물의 posts.comments_count 다시 계산
+CREATE OR REPLACE FUNCTION public.update_comments_count_on_suspension()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    UPDATE public.posts p
+    SET comments_count = (
+        SELECT count(*)
+        FROM public.comments c
+        JOIN public.users cu ON cu.id = c.user_id AND cu.is_suspended = false
+        WHERE c.post_id = p.id AND c.is_hidden = false
+    )
+    WHERE p.id IN (
+        SELECT DISTINCT c.post_id
+        FROM public.comments c
+        WHERE c.user_id = NEW.id
+    );
+    RETURN NULL;
+END;
+$$;
+
+ALTER FUNCTION public.reset_counters_on_insert() OWNER TO postgres;
+ALTER FUNCTION public.update_post_likes_count() OWNER TO postgres;
+ALTER FUNCTION public.update_post_comments_count() OWNER TO postgres;
+ALTER FUNCTION public.update_user_follow_counts() OWNER TO postgres;
+ALTER FUNCTION public.update_user_posts_count() OWNER TO postgres;
+ALTER FUNCTION public.update_comments_count_on_suspension() OWNER TO postgres;
+
+DROP TRIGGER IF EXISTS reset_post_counters ON public.posts;
+CREATE TRIGGER reset_post_counters
+    BEFORE INSERT ON public.posts
+    FOR EACH ROW EXECUTE FUNCTION public.reset_counters_on_insert();
+
+DROP TRIGGER IF EXISTS reset_user_counters ON public.users;
+CREATE TRIGGER reset_user_counters
+    BEFORE INSERT ON public.users
+    FOR EACH ROW EXECUTE FUNCTION public.reset_counters_on_insert();
+
+DROP TRIGGER IF EXISTS update_post_likes_count ON public.likes;
+CREATE TRIGGER update_post_likes_count
+    AFTER INSERT OR DELETE ON public.likes
+    FOR EACH ROW EXECUTE FUNCTION public.update_post_likes_count();
+
+DROP TRIGGER IF EXISTS update_post_comments_count ON public.comments;
+CREATE TRIGGER update_post_comments_count
+    AFTER INSERT OR DELETE OR UPDATE OF is_hidden ON public.comments
+    FOR EACH ROW EXECUTE FUNCTION public.update_post_comments_count();
+
+DROP TRIGGER IF EXISTS update_user_follow_counts ON public.follows;
+CREATE TRIGGER update_user_follow_counts
+    AFTER INSERT OR DELETE ON public.follows
+    FOR EACH ROW EXECUTE FUNCTION public.update_user_follow_counts();
+
+DROP TRIGGER IF EXISTS update_user_posts_count ON public.posts;
+CREATE TRIGGER update_user_posts_count
+    AFTER INSERT OR DELETE OR UPDATE OF is_hidden, is_draft, publish_at ON public.posts
+    FOR EACH ROW EXECUTE FUNCTION public.update_user_posts_count();
+
+DROP TRIGGER IF EXISTS update_comments_count_on_suspension ON public.users;
+CREATE TRIGGER update_comments_count_on_suspension
+    AFTER UPDATE OF is_suspended ON public.users
+    FOR EACH ROW
+    WHEN (OLD.is_suspended IS DISTINCT FROM NEW.is_suspended)
+    EXECUTE FUNCTION public.update_comments_count_on_suspension();
+
+-- ============================================
+-- 2. 카운터 재계산 (백필 및 복구용)
+-- ============================================
+-- 원본 테이블 기준으로 모든 카운터를 다시 계산하고, 값이 달랐던 행 수를 카운터별로 반환합니다.
+-- 트리거 추가 전 데이터 백필(아래에서 1회 실행)과, 카운터가 어긋났을 때 복구에 사용합니다.
+-- Service Role에서만 호출합니다.
+--
+-- 예: SELECT * FROM public.recalculate_counters();
+CREATE OR REPLACE FUNCTION public.recalculate_counters()
+RETURNS TABLE (counter TEXT, fixed_rows INTEGER)
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+    fixed INTEGER;
+BEGIN
+    -- posts.likes_count
+    UPDATE public.posts p
+    SET likes_count = actual.value
+    FROM (
+        SELECT p2.id, count(l.id)::INTEGER AS value
+        FROM public.posts p2
+        LEFT JOIN public.likes l ON l.post_id = p2.id
+        GROUP BY p2.id
+    ) actual
+    WHERE actual.id = p.id AND p.likes_count <> actual.value;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+    counter := 'posts.likes_count';
+    fixed_rows := fixed;
+    RETURN NEXT;
+
+    -- posts.comments_count
+    UPDATE public.posts p
+    SET comments_count = actual.value
+    FROM (
+        SELECT p2.id, count(c.id)::INTEGER AS value
+        FROM public.posts p2
+        LEFT JOIN public.comments c ON c.post_id = p2.id
+            AND c.is_hidden = false
+            AND NOT EXISTS (
+                SELECT 1 FROM public.users cu
+                WHERE cu.id = c.user_id AND cu.is_suspended = true
+            )
+        GROUP BY p2.id
+    ) actual
+    WHERE actual.id = p.id AND p.comments_count <> actual.value;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+    counter := 'posts.comments_count';
+    fixed_rows := fixed;
+    RETURN NEXT;
+
+    -- users.posts_count
+    UPDATE public.users u
+    SET posts_count = actual.value
+    FROM (
+        SELECT u2.id, count(p.id)::INTEGER AS value
+        FROM public.users u2
+        LEFT JOIN public.posts p ON p.user_id = u2.id
+            AND p.is_hidden = false
+            AND p.is_draft = false
+            AND p.publish_at IS NULL
+        GROUP BY u2.id
+    ) actual
+    WHERE actual.id = u.id AND u.posts_count <> actual.value;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+    counter := 'users.posts_count';
+    fixed_rows := fixed;
+    RETURN NEXT;
+
+    -- users.followers_count
+    UPDATE public.users u
+    SET followers_count = actual.value
+    FROM (
+        SELECT u2.id, count(f.id)::INTEGER AS value
+        FROM public.users u2
+        LEFT JOIN public.follows f ON f.following_id = u2.id
+        GROUP BY u2.id
+    ) actual
+    WHERE actual.id = u.id AND u.followers_count <> actual.value;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+    counter := 'users.followers_count';
+    fixed_rows := fixed;
+    RETURN NEXT;
+
+    -- users.following_count
+    UPDATE public.users u
+    SET following_count = actual.value
+    FROM (
+        SELECT u2.id, count(f.id)::INTEGER AS value
+        FROM public.users u2
+        LEFT JOIN public.follows f ON f.follower_id = u2.id
+        GROUP BY u2.id
+    ) actual
+    WHERE actual.id = u.id AND u.following_count <> actual.value;
+    GET DIAGNOSTICS fixed = ROW_COUNT;
+    counter := 'users.following_count';
+    fixed_rows := fixed;
+    RETURN NEXT;
+END;
+$$;
+
+ALTER FUNCTION public.recalculate_counters() OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.recalculate_counters() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.recalculate_counters() TO service_role;
+
+-- 기존 데이터 백필
+SELECT * FROM public.recalculate_counters();
+
+-- ============================================
+-- 3. 통계 뷰 업데이트 (집계 대신 카운터 컬럼 사용)
+-- ============================================
+-- 카운터 컬럼 타입(INTEGER)이 기존 COUNT 결과(BIGINT)와 달라 CREATE OR REPLACE를 쓸 수 없으므로
+-- 다시 만들고, post_stats에 의존하는 hashtag_post_stats도 함께 다시 만듭니다.
+-- 필터(숨김/정지된 계정/임시 저장/예약 시각 전)는 기존 뷰와 같습니다.
+DROP VIEW IF EXISTS public.hashtag_post_stats;
+DROP VIEW IF EXISTS public.post_stats;
+DROP VIEW IF EXISTS public.user_stats;
+
+CREATE VIEW public.post_stats AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.title,
+    p.caption,
+    COALESCE(p.publish_at, p.created_at) as created_at,
+    p.likes_count,
+    p.comments_count
+FROM public.posts p
+JOIN public.users u ON p.user_id = u.id AND u.is_suspended = false
+WHERE p.is_hidden = false
+    AND p.is_draft = false
+    AND (p.publish_at IS NULL OR p.publish_at <= now());
+
+CREATE VIEW public.user_stats AS
+SELECT
+    u.id as user_id,
+    u.clerk_id,
+    u.name,
+    u.posts_count,
+    u.followers_count,  -- 나를 팔로우하는 사람들
+    u.following_count   -- 내가 팔로우하는 사람들
+FROM public.users u;
+
+CREATE VIEW public.hashtag_post_stats AS
+SELECT
+    h.name as hashtag,
+    ps.post_id,
+    ps.user_id,
+    ps.image_url,
+    ps.title,
+    ps.caption,
+    ps.created_at,
+    ps.likes_count,
+    ps.comments_count
+FROM public.post_hashtags ph
+JOIN public.hashtags h ON h.id = ph.hashtag_id
+JOIN public.post_stats ps ON ps.post_id = ph.post_id;
+
+-- 뷰 권한 부여
+GRANT SELECT ON public.post_stats TO anon;
+GRANT SELECT ON public.post_stats TO authenticated;
+GRANT SELECT ON public.post_stats TO service_role;
+
+GRANT SELECT ON public.user_stats TO anon;
+GRANT SELECT ON public.user_stats TO authenticated;
+GRANT SELECT ON public.user_stats TO service_role;
+
+GRANT SELECT ON public.hashtag_post_stats TO anon;
+GRANT SELECT ON public.hashtag_post_stats TO authenticated;
+GRANT SELECT ON public.hashtag_post_stats TO service_role;
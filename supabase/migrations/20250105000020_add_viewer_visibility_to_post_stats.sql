@@ -0,0 +1,58 @@
+-- ============================================
+-- 통계 뷰에 비공개 계정 열람 가능 여부 추가
+-- ============================================
+-- 전체 피드/검색/해시태그 페이지에서 비공개 계정의 게시물을 제외할 때
+-- 모든 비공개 계정 ID를 조회해 not.in 필터로 넘기던 방식은 계정 수에 비례해 커지므로
+-- 뷰에서 현재 로그인 사용자 기준으로 열람 가능 여부를 계산합니다.
+--
+-- - is_visible_to_viewer: 공개 계정이거나, 본인 게시물이거나, 팔로우 중인 비공개 계정
+--   현재 사용자는 Clerk JWT의 sub 클레임으로 찾습니다. (current_user_id(), 20250105000016)
+--   토큰이 없거나 Service Role이면 공개 계정의 게시물만 true입니다.
+-- - API Routes에서 .eq("is_visible_to_viewer", true)로 필터링합니다.
+--
+-- 컬럼을 끝에 추가하므로 CREATE OR REPLACE로 의존 뷰와 권한을 유지합니다.
+-- ============================================
+
+-- 비로그인 요청(anon)도 뷰를 조회하므로 current_user_id() 실행 권한 부여 (토큰이 없으면 NULL)
+GRANT EXECUTE ON FUNCTION public.current_user_id() TO anon;
+
+CREATE OR REPLACE VIEW public.post_stats AS
+SELECT
+    p.id as post_id,
+    p.user_id,
+    p.image_url,
+    p.title,
+    p.caption,
+    COALESCE(p.publish_at, p.created_at) as created_at,
+    p.likes_count,
+    p.comments_count,
+    (
+        u.is_private = false
+        OR u.id = (SELECT public.current_user_id())
+        OR EXISTS (
+            SELECT 1 FROM public.follows f
+            WHERE f.follower_id = (SELECT public.current_user_id())
+              AND f.following_id = u.id
+        )
+    ) as is_visible_to_viewer
+FROM public.posts p
+JOIN public.users u ON p.user_id = u.id AND u.is_suspended = false
+WHERE p.is_hidden = false
+    AND p.is_draft = false
+    AND (p.publish_at IS NULL OR p.publish_at <= now());
+
+CREATE OR REPLACE VIEW public.hashtag_post_stats AS
+SELECT
+    h.name as hashtag,
+    ps.post_id,
+    ps.user_id,
+    ps.image_url,
+    ps.title,
+    ps.caption,
+    ps.created_at,
+    ps.likes_count,
+    ps.comments_count,
+    ps.is_visible_to_viewer
+FROM public.post_hashtags ph
+JOIN public.hashtags h ON h.id = ph.hashtag_id
+JOIN public.post_stats ps ON ps.post_id = ph.post_id;
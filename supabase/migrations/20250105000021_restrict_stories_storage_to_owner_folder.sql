@@ -0,0 +1,32 @@
+-- ============================================
+-- stories 버킷 Storage 정책: 본인 폴더로 제한
+-- ============================================
+-- 스토리 미디어는 {Clerk user ID}/{파일명} 경로에 업로드합니다.
+-- (components/providers/upload-provider.tsx, app/api/stories/route.ts)
+--
+-- 기존 정책(20250105000012)은 bucket_id만 확인하므로 로그인 사용자가
+-- 다른 사용자의 스토리 파일을 덮어쓰거나 삭제할 수 있었습니다.
+-- 업로드/삭제는 본인 폴더의 파일만 허용하고, 공개 읽기는 그대로 유지합니다.
+-- 만료된 스토리 파일은 Service Role로 삭제합니다. (lib/stories.ts)
+-- ============================================
+
+DROP POLICY IF EXISTS "Authenticated users can upload stories" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own stories" ON storage.objects;
+
+-- INSERT: 본인 폴더({Clerk user ID}/)에만 업로드 가능
+CREATE POLICY "Authenticated users can upload stories"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'stories'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+);
+
+-- DELETE: 본인 폴더의 파일만 삭제 가능 (업로드 실패 시 정리용)
+CREATE POLICY "Users can delete own stories"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'stories'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+);
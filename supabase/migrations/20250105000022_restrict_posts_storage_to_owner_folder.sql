@@ -0,0 +1,48 @@
+-- ============================================
+-- posts 버킷 Storage 정책: 본인 폴더로 제한
+-- ============================================
+-- 게시물 미디어는 {Clerk user ID}/{파일명} 경로에 업로드합니다.
+-- (components/providers/upload-provider.tsx)
+--
+-- 기존 정책(20250104000000)은 bucket_id만 확인하므로 로그인 사용자가
+-- 다른 사용자의 파일을 덮어쓰거나 삭제할 수 있었습니다.
+-- 업로드/수정/삭제는 본인 폴더의 파일만 허용하고, 공개 읽기는 그대로 유지합니다.
+--
+-- 폴더 없이 저장된 기존 파일은 게시물 삭제, 정리 작업(/api/cron/storage-cleanup)처럼
+-- Service Role로만 삭제됩니다.
+-- ============================================
+
+DROP POLICY IF EXISTS "Authenticated users can upload posts" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own posts" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own posts" ON storage.objects;
+
+-- INSERT: 본인 폴더({Clerk user ID}/)에만 업로드 가능
+CREATE POLICY "Authenticated users can upload posts"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'posts'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+);
+
+-- DELETE: 본인 폴더의 파일만 삭제 가능 (업로드 취소/실패 시 정리용)
+CREATE POLICY "Users can delete own posts"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'posts'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+);
+
+-- UPDATE: 본인 폴더의 파일만 덮어쓰기 가능 (동영상 포스터 재업로드 등)
+CREATE POLICY "Users can update own posts"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'posts'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+)
+WITH CHECK (
+  bucket_id = 'posts'
+  AND (storage.foldername(name))[1] = (auth.jwt()->>'sub')
+);
@@ -0,0 +1,124 @@
+-- ============================================
+-- 다른 사용자가 관련된 쓰기를 본인이 주체인 경우로 제한
+-- ============================================
+-- 기존 정책(20250105000016)의 빈틈을 막습니다.
+--
+-- - posts.created_at: 예약/즉시 공개 처리에서 Service Role로만 변경 (작성 시각 조작 방지)
+-- - follows INSERT: 본인이 공개 계정을 팔로우하는 경우만 (차단 관계 제외)
+--   비공개 계정은 팔로우 요청 승인(approve_follow_requests())으로만 팔로우됩니다.
+--   (기존 정책은 팔로우 요청 대상이 요청자 → 본인 팔로우를 직접 추가할 수 있었음)
+-- - notifications INSERT: 본인이 한 행동의 알림만
+--   (기존 정책은 본인이 받는 알림이면 임의의 발신자로 만들 수 있었음)
+-- - conversation_members INSERT: 다른 참여자는 메시지 요청(pending)으로만 추가하고,
+--   생성자를 팔로우하는 참여자만 바로 받은 메시지함(accepted)에 추가
+--   (lib/messages.ts getInitialMemberStatus)
+--
+-- 정책 검증: supabase/tests/rls_policies_test.sql
+-- ============================================
+
+-- ============================================
+-- 1. posts: 작성 시각 변경 권한 제거
+-- ============================================
+REVOKE UPDATE (created_at) ON TABLE public.posts FROM authenticated;
+
+-- ============================================
+-- 2. follows, follow_requests
+-- ============================================
+DROP POLICY IF EXISTS "Users can follow or approve follow requests" ON public.follows;
+
+-- 본인이 공개 계정을 팔로우하는 경우만 (차단 관계 제외)
+CREATE POLICY "Users can follow public accounts"
+ON public.follows
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    follower_id = (SELECT public.current_user_id())
+    AND EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = follows.following_id
+          AND users.is_private = false
+    )
+    AND NOT EXISTS (
+        SELECT 1 FROM public.blocks
+        WHERE (blocks.blocker_id = follows.follower_id AND blocks.blocked_id = follows.following_id)
+           OR (blocks.blocker_id = follows.following_id AND blocks.blocked_id = follows.follower_id)
+    )
+);
+
+-- 본인이 받은 팔로우 요청 승인
+-- 요청자 → 본인 팔로우 추가, 요청 삭제, 요청자가 보낸 팔로우 알림 생성을 한 번에 처리합니다.
+-- (follows/notifications INSERT 정책은 본인이 주체인 행만 허용하므로 SECURITY DEFINER)
+-- 본인이 받은 요청이 아닌 ID는 무시합니다.
+CREATE OR REPLACE FUNCTION public.approve_follow_requests(target_request_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    WITH approved AS (
+        DELETE FROM public.follow_requests
+        WHERE id = ANY(target_request_ids)
+          AND target_id = public.current_user_id()
+        RETURNING requester_id, target_id
+    ),
+    new_follows AS (
+        INSERT INTO public.follows (follower_id, following_id)
+        SELECT requester_id, target_id FROM approved
+        ON CONFLICT (follower_id, following_id) DO NOTHING
+        RETURNING follower_id, following_id
+    )
+    INSERT INTO public.notifications (recipient_id, actor_id, type)
+    SELECT following_id, follower_id, 'follow' FROM new_follows;
+END;
+$$;
+
+ALTER FUNCTION public.approve_follow_requests(UUID[]) OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.approve_follow_requests(UUID[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.approve_follow_requests(UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.approve_follow_requests(UUID[]) TO service_role;
+
+-- ============================================
+-- 3. notifications
+-- ============================================
+DROP POLICY IF EXISTS "Users can create notifications they take part in" ON public.notifications;
+
+-- 본인이 한 행동의 알림만 (팔로우 요청 승인 알림은 approve_follow_requests()에서 생성)
+CREATE POLICY "Users can create notifications as themselves"
+ON public.notifications
+FOR INSERT
+TO authenticated
+WITH CHECK (actor_id = (SELECT public.current_user_id()));
+
+-- ============================================
+-- 4. conversation_members
+-- ============================================
+DROP POLICY IF EXISTS "Creators can add conversation members" ON public.conversation_members;
+
+-- 대화방 생성자만 참여자를 추가할 수 있음
+-- 다른 참여자는 메시지 요청(pending)으로만 추가하고, 생성자를 팔로우하는 참여자만
+-- 바로 받은 메시지함(accepted)에 추가합니다. (lib/messages.ts getInitialMemberStatus)
+CREATE POLICY "Creators can add conversation members"
+ON public.conversation_members
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    EXISTS (
+        SELECT 1 FROM public.conversations
+        WHERE conversations.id = conversation_members.conversation_id
+          AND conversations.created_by = (SELECT public.current_user_id())
+    )
+    AND (
+        user_id = (SELECT public.current_user_id())
+        OR status = 'pending'
+        OR (
+            status = 'accepted'
+            AND EXISTS (
+                SELECT 1 FROM public.follows
+                WHERE follows.follower_id = conversation_members.user_id
+                  AND follows.following_id = (SELECT public.current_user_id())
+            )
+        )
+    )
+);
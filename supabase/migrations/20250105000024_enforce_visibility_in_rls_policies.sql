@@ -0,0 +1,230 @@
+-- ============================================
+-- RLS 조회/작성 정책에 비공개 계정, 차단 관계 적용
+-- ============================================
+-- 기존 정책(20250105000016)은 게시물, 스토리, 좋아요, 팔로우, 멘션을 로그인 사용자 누구에게나
+-- 공개했으므로, 비공개 계정/차단 관계 접근 제어가 API Routes(lib/privacy.ts)에만 있었습니다.
+-- Clerk 토큰으로 PostgREST를 직접 호출해도 같은 규칙이 적용되도록 정책에서 확인합니다.
+--
+-- - can_view_user_content(): 본인이거나, 차단 관계가 아니고 공개 계정 또는 팔로우 중인 계정
+--   (lib/privacy.ts canViewUserContent + isBlockedBetween과 같은 규칙)
+-- - posts, stories SELECT: 작성자의 콘텐츠를 볼 수 있는 경우만
+-- - post_media, likes, comments, mentions SELECT: 조회할 수 있는 게시물/댓글의 행만
+--   (정책 안의 posts/comments 조회에도 RLS가 적용되므로 게시물 정책을 그대로 따름)
+-- - follows SELECT: 본인이 포함된 관계, 또는 양쪽 계정의 콘텐츠를 볼 수 있는 관계만
+-- - likes, comments, comment_likes INSERT: 조회할 수 있는 게시물/댓글에만 (차단 관계면 거부)
+-- - notifications INSERT: 로그인 사용자는 만들 수 없음
+--   (API Routes의 Service Role(lib/notifications.ts), approve_follow_requests()에서만 생성)
+--
+-- 통계 뷰(post_stats 등)는 기존처럼 RLS 없이 조회되며, API Routes에서 is_visible_to_viewer로 필터링합니다.
+--
+-- 정책 검증: supabase/tests/rls_policies_test.sql
+-- ============================================
+
+-- ============================================
+-- 1. 헬퍼 함수
+-- ============================================
+
+-- 현재 사용자와 대상 사용자 사이에 차단 관계가 있는지 (방향 무관)
+CREATE OR REPLACE FUNCTION public.is_blocked_between(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT EXISTS (
+        SELECT 1
+        FROM public.blocks
+        WHERE (blocker_id = public.current_user_id() AND blocked_id = target_user_id)
+           OR (blocker_id = target_user_id AND blocked_id = public.current_user_id())
+    );
+$$;
+
+-- 현재 사용자가 대상 사용자의 콘텐츠(게시물, 스토리)를 볼 수 있는지
+-- SECURITY DEFINER: follows 정책에서 호출할 때 follows RLS를 다시 평가하지 않음
+CREATE OR REPLACE FUNCTION public.can_view_user_content(target_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    SELECT target_user_id = public.current_user_id()
+        OR (
+            NOT public.is_blocked_between(target_user_id)
+            AND (
+                EXISTS (
+                    SELECT 1 FROM public.users
+                    WHERE id = target_user_id
+                      AND is_private = false
+                )
+                OR EXISTS (
+                    SELECT 1 FROM public.follows
+                    WHERE follower_id = public.current_user_id()
+                      AND following_id = target_user_id
+                )
+            )
+        );
+$$;
+
+ALTER FUNCTION public.is_blocked_between(UUID) OWNER TO postgres;
+ALTER FUNCTION public.can_view_user_content(UUID) OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.is_blocked_between(UUID) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.can_view_user_content(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_view_user_content(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_blocked_between(UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.can_view_user_content(UUID) TO service_role;
+
+-- ============================================
+-- 2. posts (post_media는 기존 정책이 posts 조회 정책을 따름)
+-- ============================================
+DROP POLICY IF EXISTS "Published posts are viewable" ON public.posts;
+
+-- 숨김/임시 저장/예약 게시물은 작성자만, 공개된 게시물은 작성자의 콘텐츠를 볼 수 있는 경우만
+CREATE POLICY "Published posts are viewable"
+ON public.posts
+FOR SELECT
+TO authenticated
+USING (
+    user_id = (SELECT public.current_user_id())
+    OR (
+        NOT is_hidden
+        AND NOT is_draft
+        AND (publish_at IS NULL OR publish_at <= now())
+        AND public.can_view_user_content(user_id)
+    )
+);
+
+-- ============================================
+-- 3. likes, comment_likes
+-- ============================================
+DROP POLICY IF EXISTS "Likes are viewable" ON public.likes;
+DROP POLICY IF EXISTS "Users can like as themselves" ON public.likes;
+DROP POLICY IF EXISTS "Users can like comments as themselves" ON public.comment_likes;
+
+-- 조회할 수 있는 게시물의 좋아요 중 차단 관계가 아닌 사용자의 좋아요만
+CREATE POLICY "Likes are viewable"
+ON public.likes
+FOR SELECT
+TO authenticated
+USING (
+    user_id = (SELECT public.current_user_id())
+    OR (
+        EXISTS (SELECT 1 FROM public.posts WHERE posts.id = likes.post_id)
+        AND NOT public.is_blocked_between(user_id)
+    )
+);
+
+-- 조회할 수 있는 게시물에만 (비공개 계정, 차단 관계면 거부)
+CREATE POLICY "Users can like as themselves"
+ON public.likes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id = (SELECT public.current_user_id())
+    AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = likes.post_id)
+);
+
+CREATE POLICY "Users can like comments as themselves"
+ON public.comment_likes
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id = (SELECT public.current_user_id())
+    AND EXISTS (SELECT 1 FROM public.comments WHERE comments.id = comment_likes.comment_id)
+);
+
+-- ============================================
+-- 4. comments
+-- ============================================
+DROP POLICY IF EXISTS "Visible comments are viewable" ON public.comments;
+DROP POLICY IF EXISTS "Users can comment as themselves" ON public.comments;
+
+-- 조회할 수 있는 게시물의 숨김 처리되지 않은 댓글 중 차단 관계가 아닌 사용자의 댓글만
+CREATE POLICY "Visible comments are viewable"
+ON public.comments
+FOR SELECT
+TO authenticated
+USING (
+    user_id = (SELECT public.current_user_id())
+    OR (
+        NOT is_hidden
+        AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comments.post_id)
+        AND NOT public.is_blocked_between(user_id)
+    )
+);
+
+-- 조회할 수 있는 게시물에만, 답글은 조회할 수 있는 댓글에만 (차단 관계면 거부)
+CREATE POLICY "Users can comment as themselves"
+ON public.comments
+FOR INSERT
+TO authenticated
+WITH CHECK (
+    user_id = (SELECT public.current_user_id())
+    AND EXISTS (SELECT 1 FROM public.posts WHERE posts.id = comments.post_id)
+    AND (
+        parent_id IS NULL
+        OR EXISTS (
+            SELECT 1 FROM public.comments AS parent
+            WHERE parent.id = comments.parent_id
+        )
+    )
+);
+
+-- ============================================
+-- 5. follows
+-- ============================================
+DROP POLICY IF EXISTS "Follows are viewable" ON public.follows;
+
+-- 본인이 포함된 관계, 또는 양쪽 계정의 콘텐츠를 볼 수 있는 관계만
+-- (비공개 계정의 팔로워/팔로잉 목록 보호)
+CREATE POLICY "Follows are viewable"
+ON public.follows
+FOR SELECT
+TO authenticated
+USING (
+    follower_id = (SELECT public.current_user_id())
+    OR following_id = (SELECT public.current_user_id())
+    OR (
+        public.can_view_user_content(follower_id)
+        AND public.can_view_user_content(following_id)
+    )
+);
+
+-- ============================================
+-- 6. notifications
+-- ============================================
+-- 알림은 API Routes(Service Role)와 approve_follow_requests()에서만 생성합니다.
+DROP POLICY IF EXISTS "Users can create notifications as themselves" ON public.notifications;
+
+REVOKE INSERT ON TABLE public.notifications FROM authenticated;
+
+-- ============================================
+-- 7. mentions
+-- ============================================
+DROP POLICY IF EXISTS "Mentions are viewable" ON public.mentions;
+
+-- 본인이 멘션된 행, 또는 조회할 수 있는 게시물/댓글의 멘션만
+CREATE POLICY "Mentions are viewable"
+ON public.mentions
+FOR SELECT
+TO authenticated
+USING (
+    mentioned_user_id = (SELECT public.current_user_id())
+    OR EXISTS (SELECT 1 FROM public.posts WHERE posts.id = mentions.post_id)
+    OR EXISTS (SELECT 1 FROM public.comments WHERE comments.id = mentions.comment_id)
+);
+
+-- ============================================
+-- 8. stories
+-- ============================================
+DROP POLICY IF EXISTS "Stories are viewable" ON public.stories;
+
+-- 작성자의 콘텐츠를 볼 수 있는 경우만 (만료 필터는 애플리케이션에서 처리)
+CREATE POLICY "Stories are viewable"
+ON public.stories
+FOR SELECT
+TO authenticated
+USING (public.can_view_user_content(user_id));
@@ -0,0 +1,78 @@
+-- ============================================
+-- rate_limit_hit(): 여러 제한 키를 함께 확인
+-- ============================================
+-- 기존 함수(20250105000017)는 키 하나씩 기록하므로, 사용자별 예산을 기록한 뒤
+-- IP별 제한으로 거부된 요청도 사용자 예산을 소모했습니다.
+-- 여러 키(예: 사용자별 + IP별 예산)를 함께 확인하고, 모두 허용될 때만 모든 키에 기록합니다.
+-- (lib/rate-limit.ts)
+-- ============================================
+
+DROP FUNCTION IF EXISTS public.rate_limit_hit(TEXT, INTEGER, INTEGER);
+
+-- 같은 키의 동시 요청은 advisory lock으로 순서대로 처리하며,
+-- 교착 상태를 피하기 위해 키 순서대로 잠급니다.
+-- 가장 긴 윈도우(1일)보다 오래된 기록은 가끔 한 번씩 일괄 삭제합니다.
+CREATE OR REPLACE FUNCTION public.rate_limit_hit(
+    p_keys TEXT[],
+    p_limits INTEGER[],
+    p_window_ms INTEGER[]
+)
+RETURNS TABLE (allowed BOOLEAN, remaining INTEGER, retry_after_ms INTEGER)
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+    i INTEGER;
+    window_start TIMESTAMP WITH TIME ZONE;
+    hit_count INTEGER;
+    oldest_hit TIMESTAMP WITH TIME ZONE;
+    min_remaining INTEGER;
+    max_retry_after_ms INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext(sorted.key))
+    FROM (SELECT DISTINCT unnest(p_keys) AS key ORDER BY 1) AS sorted;
+
+    FOR i IN 1 .. array_length(p_keys, 1) LOOP
+        window_start := now() - make_interval(secs => p_window_ms[i] / 1000.0);
+
+        DELETE FROM public.rate_limit_hits
+        WHERE key = p_keys[i]
+          AND hit_at <= window_start;
+
+        SELECT count(*), min(hit_at)
+        INTO hit_count, oldest_hit
+        FROM public.rate_limit_hits
+        WHERE key = p_keys[i];
+
+        IF hit_count >= p_limits[i] THEN
+            max_retry_after_ms := GREATEST(
+                max_retry_after_ms,
+                CEIL(EXTRACT(EPOCH FROM (oldest_hit - window_start)) * 1000)::INTEGER,
+                0
+            );
+        ELSE
+            min_remaining := LEAST(min_remaining, p_limits[i] - hit_count - 1);
+        END IF;
+    END LOOP;
+
+    IF random() < 0.01 THEN
+        DELETE FROM public.rate_limit_hits
+        WHERE hit_at < now() - INTERVAL '1 day';
+    END IF;
+
+    IF max_retry_after_ms IS NOT NULL THEN
+        RETURN QUERY SELECT false, 0, max_retry_after_ms;
+        RETURN;
+    END IF;
+
+    INSERT INTO public.rate_limit_hits (key)
+    SELECT unnest(p_keys);
+
+    RETURN QUERY SELECT true, min_remaining, 0;
+END;
+$$;
+
+ALTER FUNCTION public.rate_limit_hit(TEXT[], INTEGER[], INTEGER[]) OWNER TO postgres;
+
+REVOKE ALL ON FUNCTION public.rate_limit_hit(TEXT[], INTEGER[], INTEGER[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.rate_limit_hit(TEXT[], INTEGER[], INTEGER[]) TO service_role;